@@ -6,16 +6,20 @@ import { startRegistration } from '@simplewebauthn/browser';
 // Auth context and hooks
 import { AuthProvider, useAuth } from '@/hooks/useAuth';
 import { WebAuthnProvider } from '@/hooks/useWebAuthn';
+import { useWalletLock } from '@/hooks/useWalletLock';
 
 // Layout components
 import MainLayout from '@/components/layouts/MainLayout';
 import AuthLayout from '@/components/layouts/AuthLayout';
+import WalletUnlockPanel from '@/components/wallet/WalletUnlockPanel';
 
 // Pages
 import LoginPage from '@/pages/auth/LoginPage';
 import RegisterPage from '@/pages/auth/RegisterPage';
 import VerifyOtpPage from '@/pages/auth/VerifyOtpPage';
 import BiometricSetupPage from '@/pages/auth/BiometricSetupPage';
+import RecoveryPhrasePage from '@/pages/auth/RecoveryPhrasePage';
+import RecoverAccountPage from '@/pages/auth/RecoverAccountPage';
 import WalletHomePage from '@/pages/wallet/WalletHomePage';
 import CredentialsPage from '@/pages/wallet/CredentialsPage';
 import CredentialDetailPage from '@/pages/wallet/CredentialDetailPage';
@@ -29,14 +33,16 @@ import { initializeDatabase } from '@/utils/db';
 initializeDatabase();
 
 /**
- * Protected Route component that redirects to login if not authenticated
+ * Protected Route component that redirects to login if not authenticated,
+ * and shows the lock screen while the wallet key is locked
  */
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, logout } = useAuth();
+  const { isLoading: isLockLoading, isUnlocked, slots, hasPin } = useWalletLock();
   const location = useLocation();
 
   // Show loading state while checking authentication
-  if (isLoading) {
+  if (isLoading || isLockLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-pulse text-center">
@@ -52,6 +58,15 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // The lock is independent of the server session: a valid login does not unlock the wallet
+  if (!isUnlocked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-neutral-50 dark:bg-neutral-900">
+        <WalletUnlockPanel slots={slots} hasPin={hasPin} onSignOut={logout} />
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
@@ -67,7 +82,10 @@ const PublicRoute = ({ children }: { children: React.ReactNode }) => {
   // redirect to wallet home
   useEffect(() => {
     if (isAuthenticated && !isLoading) {
-      const from = (location.state as any)?.from?.pathname || '/wallet';
+      const fromLocation = (location.state as any)?.from;
+      const from = fromLocation?.pathname
+        ? `${fromLocation.pathname}${fromLocation.search || ''}`
+        : '/wallet';
       
       // Don't redirect if we're in the OTP verification or biometric setup flow
       const inSpecialFlow = 
@@ -156,6 +174,16 @@ const App = () => {
                 path="biometric-setup" 
                 element={<BiometricSetupPage />} 
               />
+              
+              <Route 
+                path="recovery-phrase" 
+                element={<RecoveryPhrasePage />} 
+              />
+              
+              <Route 
+                path="recover" 
+                element={<RecoverAccountPage />} 
+              />
             </Route>
 
             {/* Protected routes (wallet, credentials, etc.) */}
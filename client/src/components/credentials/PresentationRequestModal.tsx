@@ -0,0 +1,504 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  declineAuthorizationRequest,
+  findMatchingCredentials,
+  parseAuthorizationRequest,
+  submitPresentation,
+} from '@/utils/oid4vp';
+import { checkSubmissionRequirements } from '@/utils/presentationExchange';
+import { formatDisclosurePath, getDisclosureValue } from '@/utils/sdJwt';
+import { AuthorizationRequest, DescriptorMatch, PresentationEvaluation, StoredCredential } from '@/types';
+import QrScanner, { isQrScanningSupported } from './QrScanner';
+
+// Icons
+import {
+  XCircleIcon,
+  QrCodeIcon,
+  ShareIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+  InformationCircleIcon,
+} from '@heroicons/react/24/outline';
+
+interface PresentationRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialRequest?: string;
+}
+
+/**
+ * PresentationRequestModal Component
+ *
+ * Responds to OpenID for Verifiable Presentations requests:
+ * - Request entry (paste, deep link or QR scan)
+ * - Verifier identity and purpose
+ * - Credential selection per requested input descriptor, within the verifier's submission requirements
+ * - Review of the claims that will be disclosed, and the choice of SD-JWT disclosures
+ * - Signed VP bound to the request nonce and client_id, posted to the verifier
+ */
+const PresentationRequestModal: React.FC<PresentationRequestModalProps> = ({
+  isOpen,
+  onClose,
+  initialRequest,
+}) => {
+  const { user } = useAuth();
+
+  // State
+  const [requestInput, setRequestInput] = useState(initialRequest || '');
+  const [request, setRequest] = useState<AuthorizationRequest | null>(null);
+  const [evaluation, setEvaluation] = useState<PresentationEvaluation | null>(null);
+  const [selection, setSelection] = useState<Record<string, string>>({}); // descriptor ID -> credential localId
+  const [includedIds, setIncludedIds] = useState<string[]>([]); // descriptors to submit
+  const [disclosureSelection, setDisclosureSelection] = useState<Record<string, string[]>>({}); // descriptor ID -> SD-JWT disclosure digests
+  const [isScanning, setIsScanning] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [completed, setCompleted] = useState<{ redirectUri?: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Parse the request and find matching credentials
+  const handleLoad = useCallback(async (input: string) => {
+    if (!input.trim()) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const parsed = await parseAuthorizationRequest(input);
+      const result = await findMatchingCredentials(parsed.presentation_definition);
+
+      // Preselect the first candidate for each descriptor, disclosing only the requested claims
+      const initialSelection: Record<string, string> = {};
+      const initialDisclosures: Record<string, string[]> = {};
+      result.matches.forEach(match => {
+        if (match.candidates.length > 0) {
+          initialSelection[match.descriptor.id] = match.candidates[0].credential.localId;
+          initialDisclosures[match.descriptor.id] = match.candidates[0].disclosures || [];
+        }
+      });
+
+      setRequest(parsed);
+      setEvaluation(result);
+      setSelection(initialSelection);
+      setDisclosureSelection(initialDisclosures);
+      setIncludedIds(result.defaultSelection);
+    } catch (err: any) {
+      console.error('Error loading presentation request:', err);
+      setError(err.message || 'Failed to read the presentation request');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load requests passed in through a deep link
+  useEffect(() => {
+    if (isOpen && initialRequest) {
+      setRequestInput(initialRequest);
+      handleLoad(initialRequest);
+    }
+  }, [isOpen, initialRequest, handleLoad]);
+
+  // Reset state when the modal is closed
+  const handleClose = () => {
+    setRequestInput('');
+    setRequest(null);
+    setEvaluation(null);
+    setSelection({});
+    setIncludedIds([]);
+    setDisclosureSelection({});
+    setIsScanning(false);
+    setCompleted(null);
+    setError(null);
+    onClose();
+  };
+
+  // Use a scanned QR code as the request
+  const handleScan = useCallback((value: string) => {
+    setIsScanning(false);
+    setRequestInput(value);
+    handleLoad(value);
+  }, [handleLoad]);
+
+  const handleScanError = useCallback((message: string) => {
+    setError(message);
+  }, []);
+
+  // Decline and notify the verifier
+  const handleDecline = async () => {
+    if (request) {
+      await declineAuthorizationRequest(request);
+    }
+    handleClose();
+  };
+
+  // Sign and send the presentation
+  const handleShare = async () => {
+    if (!request || !evaluation) return;
+
+    if (!user?.did) {
+      setError('Your wallet does not have a DID yet');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const selectedCredentials: Record<string, StoredCredential> = {};
+      evaluation.matches.forEach(match => {
+        if (!includedIds.includes(match.descriptor.id)) return;
+        const candidate = match.candidates.find(c => c.credential.localId === selection[match.descriptor.id]);
+        if (candidate) {
+          selectedCredentials[match.descriptor.id] = candidate.credential;
+        }
+      });
+
+      const result = await submitPresentation(request, selectedCredentials, user.did, disclosureSelection);
+      setCompleted({ redirectUri: result.redirectUri });
+    } catch (err: any) {
+      console.error('Error sharing presentation:', err);
+      setError(err.message || 'Failed to share the presentation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Get credential display name
+  const getCredentialName = (cred: StoredCredential) => {
+    if (cred.metadata?.name) return cred.metadata.name;
+    const specificType = cred.type[cred.type.length - 1] || 'Credential';
+    return specificType.replace(/([A-Z])/g, ' $1').trim();
+  };
+
+  // Select another candidate credential for a descriptor
+  const selectCandidate = (match: DescriptorMatch, localId: string) => {
+    const candidate = match.candidates.find(c => c.credential.localId === localId);
+    setSelection(prev => ({ ...prev, [match.descriptor.id]: localId }));
+    setDisclosureSelection(prev => ({ ...prev, [match.descriptor.id]: candidate?.disclosures || [] }));
+  };
+
+  // Add or remove an SD-JWT disclosure from the presentation
+  const toggleDisclosure = (descriptorId: string, digest: string) => {
+    setDisclosureSelection(prev => {
+      const current = prev[descriptorId] || [];
+      return {
+        ...prev,
+        [descriptorId]: current.includes(digest) ? current.filter(d => d !== digest) : [...current, digest],
+      };
+    });
+  };
+
+  // Add or remove a descriptor from the submission
+  const toggleIncluded = (descriptorId: string) => {
+    setIncludedIds(prev => prev.includes(descriptorId)
+      ? prev.filter(id => id !== descriptorId)
+      : [...prev, descriptorId]
+    );
+  };
+
+  // Format a disclosed value for display
+  const formatValue = (value: any) =>
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (!isOpen) return null;
+
+  const verifierName = request?.client_metadata?.client_name || request?.client_id;
+  const hasRequirements = !!request?.presentation_definition.submission_requirements;
+  const unmetRequirements = request && hasRequirements
+    ? checkSubmissionRequirements(request.presentation_definition, includedIds)
+    : [];
+  const canShare = !!evaluation && evaluation.satisfied && includedIds.length > 0 && unmetRequirements.length === 0;
+  const sharesFullCredentials = !!evaluation && evaluation.matches.some(match =>
+    includedIds.includes(match.descriptor.id) &&
+    match.candidates.some(c => c.credential.localId === selection[match.descriptor.id] && !c.credential.sdJwt && !c.credential.mdoc)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-neutral-900 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white dark:bg-neutral-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg leading-6 font-medium text-neutral-900 dark:text-white">
+                {completed ? 'Presentation Sent' : 'Presentation Request'}
+              </h3>
+              <button
+                type="button"
+                className="bg-white dark:bg-neutral-800 rounded-md text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 focus:outline-none"
+                onClick={handleClose}
+              >
+                <span className="sr-only">Close</span>
+                <XCircleIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+                <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {completed ? (
+              <div className="space-y-4 text-center">
+                <CheckCircleIcon className="h-12 w-12 mx-auto text-success-500" />
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  Your credentials were shared with {verifierName}.
+                </p>
+                <div className="flex justify-center space-x-2">
+                  {completed.redirectUri && (
+                    <a href={completed.redirectUri} className="btn-outline">
+                      Return to Verifier
+                    </a>
+                  )}
+                  <button type="button" className="btn-primary" onClick={handleClose}>
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : !request || !evaluation ? (
+              <div className="space-y-4">
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  Scan the verifier's QR code or paste the request link (openid4vp://).
+                </p>
+
+                {isScanning ? (
+                  <QrScanner onScan={handleScan} onError={handleScanError} />
+                ) : (
+                  <div>
+                    <label htmlFor="presentation-request" className="form-label">Presentation request</label>
+                    <textarea
+                      id="presentation-request"
+                      className="form-input font-mono text-xs"
+                      rows={4}
+                      value={requestInput}
+                      onChange={e => setRequestInput(e.target.value)}
+                      placeholder="openid4vp://?client_id=...&request_uri=..."
+                    />
+                  </div>
+                )}
+
+                <div className="flex justify-between">
+                  {isQrScanningSupported() ? (
+                    <button
+                      type="button"
+                      className="btn-outline flex items-center"
+                      onClick={() => setIsScanning(!isScanning)}
+                    >
+                      <QrCodeIcon className="h-4 w-4 mr-1" />
+                      {isScanning ? 'Paste Instead' : 'Scan QR Code'}
+                    </button>
+                  ) : (
+                    <span></span>
+                  )}
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={() => handleLoad(requestInput)}
+                    disabled={isLoading || isScanning || !requestInput.trim()}
+                  >
+                    {isLoading ? 'Loading request...' : 'Continue'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {/* Verifier */}
+                <div className="p-3 rounded-lg bg-neutral-50 dark:bg-neutral-700">
+                  <div className="flex items-center">
+                    {request.client_metadata?.logo_uri ? (
+                      <img
+                        src={request.client_metadata.logo_uri}
+                        alt=""
+                        className="h-10 w-10 rounded-full object-cover flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="h-10 w-10 rounded-full bg-hedera-100 dark:bg-hedera-900 flex items-center justify-center flex-shrink-0">
+                        <ShieldCheckIcon className="h-6 w-6 text-hedera-600 dark:text-hedera-400" />
+                      </div>
+                    )}
+                    <div className="ml-3 min-w-0">
+                      <p className="font-medium text-neutral-900 dark:text-white truncate">{verifierName}</p>
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">{request.client_id}</p>
+                    </div>
+                  </div>
+                  {!request.verifierVerified && (
+                    <p className="mt-2 flex items-center text-xs text-warning-700 dark:text-warning-300">
+                      <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                      The verifier's identity could not be confirmed
+                    </p>
+                  )}
+                  {request.presentation_definition.purpose && (
+                    <p className="mt-2 text-sm text-neutral-700 dark:text-neutral-300">
+                      {request.presentation_definition.purpose}
+                    </p>
+                  )}
+                </div>
+
+                {/* Requested credentials */}
+                <div className="space-y-3 max-h-80 overflow-y-auto">
+                  {evaluation.matches.map(match => {
+                    const selected = match.candidates.find(c => c.credential.localId === selection[match.descriptor.id]);
+                    const included = includedIds.includes(match.descriptor.id);
+
+                    return (
+                      <div key={match.descriptor.id} className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-3">
+                        <div className="flex items-center">
+                          {hasRequirements && (
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 mr-2 rounded text-hedera-600 focus:ring-hedera-500"
+                              checked={included}
+                              onChange={() => toggleIncluded(match.descriptor.id)}
+                              disabled={match.candidates.length === 0}
+                              aria-label={`Share ${match.descriptor.name || match.descriptor.id}`}
+                            />
+                          )}
+                          <p className="text-sm font-medium text-neutral-900 dark:text-white">
+                            {match.descriptor.name || match.descriptor.id}
+                          </p>
+                        </div>
+                        {match.descriptor.purpose && (
+                          <p className="text-xs text-neutral-500 dark:text-neutral-400">{match.descriptor.purpose}</p>
+                        )}
+
+                        {match.candidates.length === 0 ? (
+                          <p className={`mt-2 text-sm ${hasRequirements ? 'text-neutral-500 dark:text-neutral-400' : 'text-error-600 dark:text-error-400'}`}>
+                            You don't have a matching credential
+                          </p>
+                        ) : included && (
+                          <>
+                            {match.candidates.length > 1 && (
+                              <select
+                                className="form-input mt-2"
+                                value={selection[match.descriptor.id]}
+                                onChange={e => selectCandidate(match, e.target.value)}
+                              >
+                                {match.candidates.map(candidate => (
+                                  <option key={candidate.credential.localId} value={candidate.credential.localId}>
+                                    {getCredentialName(candidate.credential)}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+
+                            {selected && (
+                              <div className="mt-2">
+                                {match.candidates.length === 1 && (
+                                  <p className="text-sm text-neutral-700 dark:text-neutral-300">
+                                    {getCredentialName(selected.credential)}
+                                  </p>
+                                )}
+                                {selected.credential.sdJwt ? (
+                                  <div className="mt-1 space-y-1">
+                                    <p className="text-xs text-neutral-500 dark:text-neutral-400">Claims to disclose</p>
+                                    {selected.credential.sdJwt.disclosures.map(disclosure => (
+                                      <label key={disclosure.digest} className="flex items-center text-xs cursor-pointer">
+                                        <input
+                                          type="checkbox"
+                                          className="h-3.5 w-3.5 mr-2 rounded text-hedera-600 focus:ring-hedera-500 flex-shrink-0"
+                                          checked={(disclosureSelection[match.descriptor.id] || []).includes(disclosure.digest)}
+                                          onChange={() => toggleDisclosure(match.descriptor.id, disclosure.digest)}
+                                        />
+                                        <span className="w-1/3 text-neutral-500 dark:text-neutral-400 truncate">
+                                          {formatDisclosurePath(disclosure)}
+                                          {selected.disclosures?.includes(disclosure.digest) && ' *'}
+                                        </span>
+                                        <span className="w-2/3 text-neutral-900 dark:text-white break-all">
+                                          {formatValue(getDisclosureValue(selected.credential.sdJwt!, disclosure))}
+                                        </span>
+                                      </label>
+                                    ))}
+                                    <p className="text-xs text-neutral-500 dark:text-neutral-400">* Requested by the verifier</p>
+                                  </div>
+                                ) : selected.fields.length > 0 && (
+                                  <dl className="mt-1 space-y-1">
+                                    {selected.fields.map(field => (
+                                      <div key={field.path} className="flex text-xs">
+                                        <dt className="w-1/3 text-neutral-500 dark:text-neutral-400 truncate">{field.name}</dt>
+                                        <dd className="w-2/3 text-neutral-900 dark:text-white break-all">{formatValue(field.value)}</dd>
+                                      </div>
+                                    ))}
+                                  </dl>
+                                )}
+                                {selected.credential.mdoc ? (
+                                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                                    Only these data elements are shared, signed with the device key of this mdoc
+                                  </p>
+                                ) : !selected.credential.sdJwt && selected.disclosures && (
+                                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                                    Only these claims and those the issuer requires are shared, with a proof that cannot be linked to other presentations
+                                  </p>
+                                )}
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {!evaluation.satisfied ? (
+                  <p className="text-sm text-error-600 dark:text-error-400">
+                    You don't have the credentials this verifier requires.
+                  </p>
+                ) : unmetRequirements.length > 0 && (
+                  <ul className="text-sm text-error-600 dark:text-error-400 list-disc list-inside">
+                    {unmetRequirements.map(message => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {sharesFullCredentials && (
+                  <div className="bg-warning-50 dark:bg-warning-900/30 border border-warning-200 dark:border-warning-700 p-3 rounded-lg">
+                    <div className="flex">
+                      <InformationCircleIcon className="h-5 w-5 text-warning-600 dark:text-warning-400 flex-shrink-0 mr-2" />
+                      <p className="text-sm text-warning-800 dark:text-warning-300">
+                        The selected credentials are shared in full, including claims not listed above.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-between">
+                  <button
+                    type="button"
+                    className="btn-outline"
+                    onClick={handleDecline}
+                    disabled={isSubmitting}
+                  >
+                    Decline
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-primary flex items-center"
+                    onClick={handleShare}
+                    disabled={isSubmitting || !canShare}
+                  >
+                    <ShareIcon className="h-4 w-4 mr-1" />
+                    {isSubmitting ? 'Sharing...' : 'Share'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresentationRequestModal;
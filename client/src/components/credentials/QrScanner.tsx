@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExclamationCircleIcon } from '@heroicons/react/24/outline';
+
+// How often camera frames are checked for a QR code
+const SCAN_INTERVAL_MS = 300;
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Check whether the browser can scan QR codes with the camera
+ */
+export const isQrScanningSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'BarcodeDetector' in window &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * QrScanner Component
+ *
+ * Reads QR codes from the rear camera using the browser's BarcodeDetector API.
+ * Calls onScan once with the first decoded value and stops the camera.
+ */
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, onError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isQrScanningSupported()) {
+      const message = 'QR scanning is not supported in this browser. Paste the link instead.';
+      setError(message);
+      onError?.(message);
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) {
+          stop();
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
+
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+
+          try {
+            const codes = await detector.detect(videoRef.current);
+            if (codes.length > 0 && !stopped) {
+              stop();
+              onScan(codes[0].rawValue);
+            }
+          } catch {
+            // Frame could not be decoded; keep scanning
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (err: any) {
+        const message = err?.name === 'NotAllowedError'
+          ? 'Camera access was denied'
+          : 'Could not start the camera';
+        setError(message);
+        onError?.(message);
+      }
+    };
+
+    start();
+
+    return stop;
+  }, [onScan, onError]);
+
+  if (error) {
+    return (
+      <div className="p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+        <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative rounded-lg overflow-hidden bg-neutral-900 aspect-square">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <div className="absolute inset-8 border-2 border-white/80 rounded-lg pointer-events-none"></div>
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  acceptCredentialOffer,
+  getLocalizedDisplay,
+  resolveCredentialOffer,
+  SUPPORTED_CREDENTIAL_FORMATS,
+} from '@/utils/oid4vci';
+import { ResolvedCredentialOffer } from '@/types';
+import QrScanner, { isQrScanningSupported } from './QrScanner';
+
+// Icons
+import {
+  XCircleIcon,
+  QrCodeIcon,
+  ArrowDownTrayIcon,
+  BuildingLibraryIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  IdentificationIcon,
+} from '@heroicons/react/24/outline';
+
+interface ReceiveCredentialModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialOffer?: string;
+  onReceived?: (localIds: string[]) => void;
+}
+
+/**
+ * ReceiveCredentialModal Component
+ *
+ * Receives credentials from an issuer with OpenID for Verifiable Credential Issuance:
+ * - Credential offer entry (paste, deep link or QR scan)
+ * - Issuer and credential review
+ * - Transaction code (PIN) entry when the issuer requires one
+ * - Pre-authorized code flow with proof of possession of the holder key
+ */
+const ReceiveCredentialModal: React.FC<ReceiveCredentialModalProps> = ({
+  isOpen,
+  onClose,
+  initialOffer,
+  onReceived,
+}) => {
+  const { user } = useAuth();
+
+  // State
+  const [offerInput, setOfferInput] = useState(initialOffer || '');
+  const [resolved, setResolved] = useState<ResolvedCredentialOffer | null>(null);
+  const [txCode, setTxCode] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [receivedIds, setReceivedIds] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Look up the offer and the issuer's metadata
+  const handleResolve = useCallback(async (input: string) => {
+    if (!input.trim()) return;
+
+    setIsResolving(true);
+    setError(null);
+
+    try {
+      setResolved(await resolveCredentialOffer(input));
+    } catch (err: any) {
+      console.error('Error resolving credential offer:', err);
+      setError(err.message || 'Failed to read the credential offer');
+    } finally {
+      setIsResolving(false);
+    }
+  }, []);
+
+  // Resolve offers passed in through a deep link
+  useEffect(() => {
+    if (isOpen && initialOffer) {
+      setOfferInput(initialOffer);
+      handleResolve(initialOffer);
+    }
+  }, [isOpen, initialOffer, handleResolve]);
+
+  // Reset state when the modal is closed
+  const handleClose = () => {
+    setOfferInput('');
+    setResolved(null);
+    setTxCode('');
+    setIsScanning(false);
+    setReceivedIds(null);
+    setError(null);
+    onClose();
+  };
+
+  // Use a scanned QR code as the offer
+  const handleScan = useCallback((value: string) => {
+    setIsScanning(false);
+    setOfferInput(value);
+    handleResolve(value);
+  }, [handleResolve]);
+
+  const handleScanError = useCallback((message: string) => {
+    setError(message);
+  }, []);
+
+  // Run the issuance flow and store the credentials
+  const handleAccept = async () => {
+    if (!resolved) return;
+
+    if (!user?.did) {
+      setError('Your wallet does not have a DID yet');
+      return;
+    }
+
+    setIsReceiving(true);
+    setError(null);
+
+    try {
+      const localIds = await acceptCredentialOffer(resolved, user.did, txCode.trim() || undefined);
+      setReceivedIds(localIds);
+      onReceived?.(localIds);
+    } catch (err: any) {
+      console.error('Error receiving credential:', err);
+      setError(err.message || 'Failed to receive the credential');
+    } finally {
+      setIsReceiving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const issuerDisplay = resolved ? getLocalizedDisplay(resolved.metadata.display) : undefined;
+  const issuerName = issuerDisplay?.name || resolved?.offer.credential_issuer;
+  const txCodeInvalid = !!resolved?.txCode && (
+    !txCode.trim() ||
+    (resolved.txCode.length !== undefined && txCode.trim().length !== resolved.txCode.length)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-neutral-900 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white dark:bg-neutral-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg leading-6 font-medium text-neutral-900 dark:text-white">
+                {receivedIds ? 'Credential Received' : 'Receive Credential'}
+              </h3>
+              <button
+                type="button"
+                className="bg-white dark:bg-neutral-800 rounded-md text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 focus:outline-none"
+                onClick={handleClose}
+              >
+                <span className="sr-only">Close</span>
+                <XCircleIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+                <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {receivedIds ? (
+              <div className="space-y-4 text-center">
+                <CheckCircleIcon className="h-12 w-12 mx-auto text-success-500" />
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  {receivedIds.length === 1
+                    ? `1 credential from ${issuerName} was added to your wallet.`
+                    : `${receivedIds.length} credentials from ${issuerName} were added to your wallet.`}
+                </p>
+                <button type="button" className="btn-primary" onClick={handleClose}>
+                  Done
+                </button>
+              </div>
+            ) : !resolved ? (
+              <div className="space-y-4">
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  Scan the issuer's QR code or paste the credential offer link (openid-credential-offer://).
+                </p>
+
+                {isScanning ? (
+                  <QrScanner onScan={handleScan} onError={handleScanError} />
+                ) : (
+                  <div>
+                    <label htmlFor="credential-offer" className="form-label">Credential offer</label>
+                    <textarea
+                      id="credential-offer"
+                      className="form-input font-mono text-xs"
+                      rows={4}
+                      value={offerInput}
+                      onChange={e => setOfferInput(e.target.value)}
+                      placeholder="openid-credential-offer://?credential_offer_uri=..."
+                    />
+                  </div>
+                )}
+
+                <div className="flex justify-between">
+                  {isQrScanningSupported() ? (
+                    <button
+                      type="button"
+                      className="btn-outline flex items-center"
+                      onClick={() => setIsScanning(!isScanning)}
+                    >
+                      <QrCodeIcon className="h-4 w-4 mr-1" />
+                      {isScanning ? 'Paste Instead' : 'Scan QR Code'}
+                    </button>
+                  ) : (
+                    <span></span>
+                  )}
+                  <button
+                    type="button"
+                    className="btn-primary"
+                    onClick={() => handleResolve(offerInput)}
+                    disabled={isResolving || isScanning || !offerInput.trim()}
+                  >
+                    {isResolving ? 'Loading offer...' : 'Continue'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {/* Issuer */}
+                <div className="flex items-center p-3 rounded-lg bg-neutral-50 dark:bg-neutral-700">
+                  {issuerDisplay?.logo?.uri ? (
+                    <img
+                      src={issuerDisplay.logo.uri}
+                      alt={issuerDisplay.logo.alt_text || ''}
+                      className="h-10 w-10 rounded-full object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="h-10 w-10 rounded-full bg-hedera-100 dark:bg-hedera-900 flex items-center justify-center flex-shrink-0">
+                      <BuildingLibraryIcon className="h-6 w-6 text-hedera-600 dark:text-hedera-400" />
+                    </div>
+                  )}
+                  <div className="ml-3 min-w-0">
+                    <p className="font-medium text-neutral-900 dark:text-white truncate">{issuerName}</p>
+                    <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">
+                      {resolved.offer.credential_issuer}
+                    </p>
+                  </div>
+                </div>
+
+                {/* Offered credentials */}
+                <div>
+                  <label className="form-label">Offered credentials</label>
+                  <ul className="space-y-2">
+                    {resolved.offer.credential_configuration_ids.map(id => {
+                      const configuration = resolved.metadata.credential_configurations_supported[id];
+                      const display = getLocalizedDisplay(configuration?.display);
+                      const supported = !!configuration && SUPPORTED_CREDENTIAL_FORMATS.includes(configuration.format);
+
+                      return (
+                        <li key={id} className="flex items-start p-2 border border-neutral-200 dark:border-neutral-700 rounded-lg">
+                          <IdentificationIcon className="h-5 w-5 mr-2 mt-0.5 text-hedera-600 dark:text-hedera-400 flex-shrink-0" />
+                          <div>
+                            <p className="text-sm font-medium text-neutral-900 dark:text-white">
+                              {display?.name || id}
+                            </p>
+                            {display?.description && (
+                              <p className="text-xs text-neutral-500 dark:text-neutral-400">{display.description}</p>
+                            )}
+                            {!supported && (
+                              <p className="text-xs text-warning-600 dark:text-warning-400">
+                                Format not supported by this wallet; it will be skipped
+                              </p>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+
+                {/* Transaction code */}
+                {resolved.txCode && (
+                  <div>
+                    <label htmlFor="tx-code" className="form-label">Transaction code</label>
+                    <input
+                      id="tx-code"
+                      type="text"
+                      className="form-input tracking-widest"
+                      value={txCode}
+                      onChange={e => setTxCode(e.target.value)}
+                      inputMode={resolved.txCode.input_mode === 'text' ? 'text' : 'numeric'}
+                      maxLength={resolved.txCode.length}
+                      autoComplete="one-time-code"
+                    />
+                    <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                      {resolved.txCode.description || 'Enter the code the issuer sent you separately.'}
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex justify-between">
+                  <button
+                    type="button"
+                    className="btn-outline"
+                    onClick={() => {
+                      setResolved(null);
+                      setTxCode('');
+                      setError(null);
+                    }}
+                    disabled={isReceiving}
+                  >
+                    Back
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-primary flex items-center"
+                    onClick={handleAccept}
+                    disabled={isReceiving || txCodeInvalid}
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                    {isReceiving ? 'Receiving...' : 'Accept'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiveCredentialModal;
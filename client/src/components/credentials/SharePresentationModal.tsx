@@ -0,0 +1,435 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode.react';
+import { isBbsBaseProof } from 'hedera-id-wallet-common/bbs2023';
+import { useAuth } from '@/hooks/useAuth';
+import { credentialStorage } from '@/utils/db';
+import { isJwt } from '@/utils/jwtVc';
+import {
+  createJwtPresentation,
+  createSignedPresentation,
+  getBbsDisclosedPointers,
+  getBbsSubjectClaims,
+} from '@/utils/presentation';
+import { createSdJwtPresentation, formatDisclosurePath, getDisclosureValue } from '@/utils/sdJwt';
+import { StoredCredential, VerifiablePresentation } from '@/types';
+
+// Icons
+import {
+  XCircleIcon,
+  ShareIcon,
+  DocumentDuplicateIcon,
+  ArrowDownTrayIcon,
+  InformationCircleIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+
+// Largest payload that still fits a version 40 QR code at low error correction
+const MAX_QR_PAYLOAD_LENGTH = 2900;
+
+interface SharePresentationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialCredentialId?: string;
+}
+
+/**
+ * SharePresentationModal Component
+ *
+ * Builds a Verifiable Presentation from selected credentials:
+ * - Credential selection, the claims to disclose of one SD-JWT credential, or of
+ *   each bbs-2023 credential
+ * - Verifier challenge and domain binding
+ * - Signing with the holder's DID key (a JWT-VP when JWT credentials are included,
+ *   a key binding JWT for SD-JWT)
+ * - Export as JSON or JWT, file download or QR code
+ */
+const SharePresentationModal: React.FC<SharePresentationModalProps> = ({
+  isOpen,
+  onClose,
+  initialCredentialId,
+}) => {
+  const { user } = useAuth();
+
+  // State
+  const [credentials, setCredentials] = useState<StoredCredential[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialCredentialId ? [initialCredentialId] : []);
+  const [challenge, setChallenge] = useState('');
+  const [domain, setDomain] = useState('');
+  const [disclosedDigests, setDisclosedDigests] = useState<string[]>([]);
+  const [disclosedClaims, setDisclosedClaims] = useState<Record<string, string[]>>({});
+  const [presentation, setPresentation] = useState<VerifiablePresentation | string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Load credentials to choose from
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadCredentials = async () => {
+      try {
+        const allCredentials = await credentialStorage.getAllCredentials();
+        // mdocs need a verifier session transcript, so they are only shared over OpenID4VP
+        setCredentials(allCredentials.filter(cred => cred.status !== 'revoked' && cred.status !== 'suspended' && !cred.mdoc));
+      } catch (err: any) {
+        console.error('Error loading credentials:', err);
+        setError(err.message || 'Failed to load credentials');
+      }
+    };
+
+    loadCredentials();
+  }, [isOpen]);
+
+  // Disclose every claim of a newly selected SD-JWT credential until the user unchecks some
+  const selectedSdJwt = credentials.find(cred => selectedIds.includes(cred.localId) && cred.sdJwt);
+  useEffect(() => {
+    setDisclosedDigests(selectedSdJwt?.sdJwt ? selectedSdJwt.sdJwt.disclosures.map(d => d.digest) : []);
+  }, [selectedSdJwt]);
+
+  // bbs-2023 credentials disclose every claim until the user unchecks some
+  const selectedBbs = credentials.filter(cred => selectedIds.includes(cred.localId) && !cred.jwt && isBbsBaseProof(cred.proof));
+  const getDisclosedClaims = (cred: StoredCredential) =>
+    disclosedClaims[cred.localId] ?? getBbsSubjectClaims(cred).map(claim => claim.pointer);
+
+  // Reset state when the modal is closed
+  const handleClose = () => {
+    setPresentation(null);
+    setError(null);
+    setCopied(false);
+    onClose();
+  };
+
+  // Toggle a credential in the selection
+  const toggleCredential = (localId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(localId) ? prev.filter(id => id !== localId) : [...prev, localId]
+    );
+  };
+
+  // Add or remove an SD-JWT disclosure
+  const toggleDisclosure = (digest: string) => {
+    setDisclosedDigests(prev =>
+      prev.includes(digest) ? prev.filter(d => d !== digest) : [...prev, digest]
+    );
+  };
+
+  // Add or remove a claim of a bbs-2023 credential
+  const toggleClaim = (cred: StoredCredential, pointer: string) => {
+    const current = getDisclosedClaims(cred);
+    setDisclosedClaims(prev => ({
+      ...prev,
+      [cred.localId]: current.includes(pointer) ? current.filter(p => p !== pointer) : [...current, pointer],
+    }));
+  };
+
+  // Build and sign the presentation
+  const handleCreate = async () => {
+    if (!user?.did) {
+      setError('Your wallet does not have a DID yet');
+      return;
+    }
+
+    setIsSigning(true);
+    setError(null);
+
+    try {
+      const selected = credentials.filter(cred => selectedIds.includes(cred.localId));
+
+      if (selectedSdJwt) {
+        if (selected.length > 1) {
+          throw new Error('SD-JWT credentials are shared one at a time');
+        }
+        setPresentation(await createSdJwtPresentation(selectedSdJwt, disclosedDigests, {
+          audience: domain.trim() || undefined,
+          nonce: challenge.trim() || undefined,
+        }));
+        return;
+      }
+
+      // JWT credentials keep their signature only in compact form, which a JWT-VP can carry
+      const options = {
+        challenge: challenge.trim() || undefined,
+        domain: domain.trim() || undefined,
+        disclosedPointers: Object.fromEntries(
+          selectedBbs.map(cred => [cred.localId, getBbsDisclosedPointers(cred, getDisclosedClaims(cred))])
+        ),
+      };
+      const signed = selected.some(cred => cred.jwt)
+        ? await createJwtPresentation(selected, user.did, options)
+        : await createSignedPresentation(selected, user.did, options);
+      setPresentation(signed);
+    } catch (err: any) {
+      console.error('Error creating presentation:', err);
+      setError(err.message || 'Failed to create presentation');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  // Copy presentation to clipboard
+  const handleCopy = async () => {
+    if (!presentation) return;
+
+    await navigator.clipboard.writeText(presentationText);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Download presentation as a JSON, JWT or SD-JWT text file
+  const handleDownload = () => {
+    if (!presentation) return;
+
+    const [type, extension] = typeof presentation !== 'string'
+      ? ['application/json', 'json']
+      : isJwt(presentation) ? ['application/jwt', 'jwt'] : ['text/plain', 'txt'];
+    const blob = new Blob([presentationText], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `presentation-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Get credential display name
+  const getCredentialName = (cred: StoredCredential) => {
+    if (cred.metadata?.name) return cred.metadata.name;
+    const specificType = cred.type[cred.type.length - 1] || 'Credential';
+    return specificType.replace(/([A-Z])/g, ' $1').trim();
+  };
+
+  // Format a disclosed value for display
+  const formatValue = (value: any) =>
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  const presentationText = typeof presentation === 'string' ? presentation : JSON.stringify(presentation, null, 2);
+
+  if (!isOpen) return null;
+
+  const qrPayload = !presentation ? '' : typeof presentation === 'string' ? presentation : JSON.stringify(presentation);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-neutral-900 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white dark:bg-neutral-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg leading-6 font-medium text-neutral-900 dark:text-white">
+                {presentation ? 'Presentation Ready' : 'Share Credentials'}
+              </h3>
+              <button
+                type="button"
+                className="bg-white dark:bg-neutral-800 rounded-md text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 focus:outline-none"
+                onClick={handleClose}
+              >
+                <span className="sr-only">Close</span>
+                <XCircleIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+                <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {!presentation ? (
+              <div className="space-y-4">
+                {/* Credential selection */}
+                <div>
+                  <label className="form-label">Credentials to include</label>
+                  <div className="max-h-48 overflow-y-auto space-y-2 border border-neutral-200 dark:border-neutral-700 rounded-lg p-2">
+                    {credentials.length === 0 ? (
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400 p-2">
+                        No credentials available
+                      </p>
+                    ) : (
+                      credentials.map(cred => (
+                        <label key={cred.localId} className="flex items-center p-2 rounded hover:bg-neutral-50 dark:hover:bg-neutral-700 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 text-hedera-600 rounded border-neutral-300"
+                            checked={selectedIds.includes(cred.localId)}
+                            onChange={() => toggleCredential(cred.localId)}
+                          />
+                          <span className="ml-3 text-sm text-neutral-900 dark:text-white">
+                            {getCredentialName(cred)}
+                          </span>
+                        </label>
+                      ))
+                    )}
+                  </div>
+                </div>
+
+                {/* SD-JWT disclosures */}
+                {selectedSdJwt?.sdJwt && (
+                  <div>
+                    <label className="form-label">Claims to disclose</label>
+                    <div className="max-h-48 overflow-y-auto space-y-1 border border-neutral-200 dark:border-neutral-700 rounded-lg p-2">
+                      {selectedSdJwt.sdJwt.disclosures.map(disclosure => (
+                        <label key={disclosure.digest} className="flex items-center p-1 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 mr-3 text-hedera-600 rounded border-neutral-300 flex-shrink-0"
+                            checked={disclosedDigests.includes(disclosure.digest)}
+                            onChange={() => toggleDisclosure(disclosure.digest)}
+                          />
+                          <span className="w-1/3 text-neutral-500 dark:text-neutral-400 truncate">{formatDisclosurePath(disclosure)}</span>
+                          <span className="w-2/3 text-neutral-900 dark:text-white break-all">
+                            {formatValue(getDisclosureValue(selectedSdJwt.sdJwt!, disclosure))}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="form-hint">Claims you uncheck stay hidden from the verifier. The challenge and domain are required.</p>
+                  </div>
+                )}
+
+                {/* bbs-2023 claims */}
+                {selectedBbs.map(cred => (
+                  <div key={cred.localId}>
+                    <label className="form-label">Claims to disclose from {getCredentialName(cred)}</label>
+                    <div className="max-h-48 overflow-y-auto space-y-1 border border-neutral-200 dark:border-neutral-700 rounded-lg p-2">
+                      {getBbsSubjectClaims(cred).map(claim => (
+                        <label key={claim.pointer} className="flex items-center p-1 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 mr-3 text-hedera-600 rounded border-neutral-300 flex-shrink-0"
+                            checked={claim.mandatory || getDisclosedClaims(cred).includes(claim.pointer)}
+                            disabled={claim.mandatory}
+                            onChange={() => toggleClaim(cred, claim.pointer)}
+                          />
+                          <span className="w-1/3 text-neutral-500 dark:text-neutral-400 truncate">
+                            {claim.name}
+                            {claim.mandatory && ' *'}
+                          </span>
+                          <span className="w-2/3 text-neutral-900 dark:text-white break-all">
+                            {formatValue(cred.credentialSubject[claim.name])}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="form-hint">
+                      Each presentation gets a new proof that cannot be linked to earlier ones. * Always disclosed, as required by the issuer.
+                    </p>
+                  </div>
+                ))}
+
+                {/* Verifier binding */}
+                <div>
+                  <label htmlFor="vp-challenge" className="form-label">Challenge (from verifier)</label>
+                  <input
+                    id="vp-challenge"
+                    type="text"
+                    className="form-input"
+                    value={challenge}
+                    onChange={e => setChallenge(e.target.value)}
+                    placeholder="Optional nonce supplied by the verifier"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="vp-domain" className="form-label">Domain</label>
+                  <input
+                    id="vp-domain"
+                    type="text"
+                    className="form-input"
+                    value={domain}
+                    onChange={e => setDomain(e.target.value)}
+                    placeholder="e.g. verifier.example.com"
+                  />
+                </div>
+
+                <div className="bg-warning-50 dark:bg-warning-900/30 border border-warning-200 dark:border-warning-700 p-3 rounded-lg">
+                  <div className="flex">
+                    <InformationCircleIcon className="h-5 w-5 text-warning-600 dark:text-warning-400 flex-shrink-0 mr-2" />
+                    <p className="text-sm text-warning-800 dark:text-warning-300">
+                      Only share your credentials with trusted parties. Once shared, you cannot control how the information is used.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex justify-between">
+                  <button
+                    type="button"
+                    className="btn-outline"
+                    onClick={handleClose}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-primary flex items-center"
+                    onClick={handleCreate}
+                    disabled={isSigning || selectedIds.length === 0}
+                  >
+                    <ShareIcon className="h-4 w-4 mr-1" />
+                    {isSigning ? 'Signing...' : 'Create Presentation'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {/* QR code */}
+                <div className="text-center">
+                  {qrPayload.length <= MAX_QR_PAYLOAD_LENGTH ? (
+                    <div className="bg-white p-4 rounded-lg inline-block">
+                      <QRCode
+                        value={qrPayload}
+                        size={240}
+                        level="L"
+                        renderAs="svg"
+                        includeMargin={true}
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                      This presentation is too large for a QR code. Copy or download it instead.
+                    </p>
+                  )}
+                </div>
+
+                {/* JSON, JWT or SD-JWT */}
+                <div className="bg-neutral-100 dark:bg-neutral-700 p-4 rounded-lg overflow-auto max-h-48">
+                  <pre className="text-xs font-mono text-neutral-800 dark:text-neutral-200 whitespace-pre-wrap break-all">
+                    {presentationText}
+                  </pre>
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <button
+                    type="button"
+                    className="btn-outline flex items-center"
+                    onClick={handleCopy}
+                  >
+                    <DocumentDuplicateIcon className="h-4 w-4 mr-1" />
+                    {copied ? 'Copied' : typeof presentation === 'string' ? 'Copy' : 'Copy JSON'}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-primary flex items-center"
+                    onClick={handleDownload}
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                    Download
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePresentationModal;
@@ -0,0 +1,385 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { DIDDocument } from '@/types';
+import { userApi } from '@/services/api';
+import { isHederaDid, getRootKeyId } from '@/utils/hederaDid';
+import {
+  DidKeyRelationship,
+  DidUpdateResult,
+  addService,
+  addVerificationMethod,
+  migrateToHederaDid,
+  removeService,
+  removeVerificationMethod,
+  rotateAuthenticationKey,
+} from '@/utils/didManagement';
+import {
+  ArrowPathIcon,
+  ExclamationCircleIcon,
+  GlobeAltIcon,
+  KeyIcon,
+  PlusCircleIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+
+interface DidDocumentPanelProps {
+  did: string;
+  onDidChanged: () => void;
+}
+
+const RELATIONSHIPS: DidKeyRelationship[] = ['authentication', 'assertionMethod', 'capabilityInvocation', 'capabilityDelegation'];
+
+const RELATIONSHIP_LABELS: Record<DidKeyRelationship, string> = {
+  authentication: 'Authentication',
+  assertionMethod: 'Assertion',
+  capabilityInvocation: 'Capability invocation',
+  capabilityDelegation: 'Capability delegation',
+};
+
+/**
+ * Get the fragment of a DID URL for display
+ */
+const getFragment = (id: string) => (id.includes('#') ? `#${id.split('#')[1]}` : id);
+
+/**
+ * DidDocumentPanel Component
+ *
+ * Shows the keys and services of the user's DID document and lets the user rotate
+ * the authentication key, add or remove keys and services (did:hedera), or move a
+ * did:key to did:hedera. Every change is signed on this device.
+ */
+const DidDocumentPanel: React.FC<DidDocumentPanelProps> = ({ did, onDidChanged }) => {
+  const [didDocument, setDidDocument] = useState<DIDDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmAction, setConfirmAction] = useState<'rotate' | 'migrate' | null>(null);
+  const [showAddKey, setShowAddKey] = useState(false);
+  const [keyRelationship, setKeyRelationship] = useState<DidKeyRelationship | ''>('assertionMethod');
+  const [showAddService, setShowAddService] = useState(false);
+  const [serviceType, setServiceType] = useState('LinkedDomains');
+  const [serviceEndpoint, setServiceEndpoint] = useState('');
+
+  const isHedera = isHederaDid(did);
+
+  // Load the DID document
+  const loadDidDocument = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { didDocument } = await userApi.getDid();
+      setDidDocument(didDocument);
+    } catch (err: any) {
+      console.error('Failed to load DID document:', err);
+      setError('Failed to load DID document');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDidDocument();
+  }, [did, loadDidDocument]);
+
+  // Run a DID change and show the resulting document
+  const runUpdate = async (update: () => Promise<DidUpdateResult>) => {
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      const result = await update();
+      setDidDocument(result.didDocument);
+
+      if (result.did !== did) {
+        onDidChanged();
+      }
+      return true;
+    } catch (err: any) {
+      console.error('Failed to update DID:', err);
+      setError(err.response?.data?.message || err.message || 'Failed to update DID');
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    const action = confirmAction;
+    setConfirmAction(null);
+
+    if (action === 'rotate') {
+      await runUpdate(() => rotateAuthenticationKey(did));
+    } else if (action === 'migrate') {
+      await runUpdate(() => migrateToHederaDid(did, didDocument || undefined));
+    }
+  };
+
+  const handleAddKey = async () => {
+    if (!didDocument) return;
+
+    const added = await runUpdate(() => addVerificationMethod(didDocument, keyRelationship || undefined));
+    if (added) {
+      setShowAddKey(false);
+    }
+  };
+
+  const handleAddService = async () => {
+    if (!didDocument || !serviceType.trim() || !serviceEndpoint.trim()) return;
+
+    const added = await runUpdate(() => addService(didDocument, serviceType.trim(), serviceEndpoint.trim()));
+    if (added) {
+      setShowAddService(false);
+      setServiceEndpoint('');
+    }
+  };
+
+  // Relationships a verification method is referenced by
+  const getRelationships = (id: string): DidKeyRelationship[] =>
+    RELATIONSHIPS.filter((relationship) =>
+      ((didDocument as any)?.[relationship] || []).some((entry: any) => (typeof entry === 'string' ? entry : entry.id) === id)
+    );
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-4">
+        <div className="animate-spin h-6 w-6 border-4 border-hedera-600 rounded-full border-t-transparent mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-4">
+      {error && (
+        <div className="bg-error-50 border border-error-200 rounded-lg p-3 text-sm text-error-800 dark:bg-error-900/30 dark:border-error-700 dark:text-error-300">
+          <div className="flex">
+            <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            <p>{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Verification methods */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-neutral-900 dark:text-white flex items-center">
+            <KeyIcon className="h-4 w-4 mr-1 text-hedera-600" />
+            Keys
+          </h3>
+          {isHedera && (
+            <button
+              className="btn-outline btn-sm flex items-center"
+              onClick={() => setShowAddKey(!showAddKey)}
+              disabled={isUpdating}
+            >
+              <PlusCircleIcon className="h-4 w-4 mr-1" />
+              Add Key
+            </button>
+          )}
+        </div>
+
+        <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+          {(didDocument?.verificationMethod || []).map((method) => {
+            const removable = isHedera && method.id !== getRootKeyId(did);
+
+            return (
+              <div key={method.id} className="py-2 flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="font-mono text-sm text-neutral-800 dark:text-neutral-200 truncate">
+                    {getFragment(method.id)}
+                  </p>
+                  <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                    {method.type}
+                    {getRelationships(method.id).length > 0 &&
+                      ` · ${getRelationships(method.id).map((relationship) => RELATIONSHIP_LABELS[relationship]).join(', ')}`}
+                  </p>
+                </div>
+                {removable && (
+                  <button
+                    className="text-error-600 hover:text-error-800 dark:text-error-400 dark:hover:text-error-300"
+                    onClick={() => runUpdate(() => removeVerificationMethod(did, method.id))}
+                    disabled={isUpdating}
+                    aria-label="Remove key"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {showAddKey && (
+          <div className="mt-2 p-3 bg-neutral-100 dark:bg-neutral-700 rounded-lg">
+            <label htmlFor="keyRelationship" className="form-label">
+              Use the new key for
+            </label>
+            <select
+              id="keyRelationship"
+              className="form-input"
+              value={keyRelationship}
+              onChange={(e) => setKeyRelationship(e.target.value as DidKeyRelationship | '')}
+            >
+              {RELATIONSHIPS.map((relationship) => (
+                <option key={relationship} value={relationship}>
+                  {RELATIONSHIP_LABELS[relationship]}
+                </option>
+              ))}
+              <option value="">Listed only</option>
+            </select>
+            <div className="mt-3 flex justify-end space-x-2">
+              <button className="btn-outline btn-sm" onClick={() => setShowAddKey(false)} disabled={isUpdating}>
+                Cancel
+              </button>
+              <button className="btn-primary btn-sm" onClick={handleAddKey} disabled={isUpdating}>
+                {isUpdating ? 'Publishing...' : 'Add Key'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Services */}
+      {isHedera && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-neutral-900 dark:text-white flex items-center">
+              <GlobeAltIcon className="h-4 w-4 mr-1 text-hedera-600" />
+              Services
+            </h3>
+            <button
+              className="btn-outline btn-sm flex items-center"
+              onClick={() => setShowAddService(!showAddService)}
+              disabled={isUpdating}
+            >
+              <PlusCircleIcon className="h-4 w-4 mr-1" />
+              Add Service
+            </button>
+          </div>
+
+          {(didDocument?.service || []).length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">No service endpoints</p>
+          ) : (
+            <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+              {(didDocument?.service || []).map((service) => (
+                <div key={service.id} className="py-2 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm text-neutral-800 dark:text-neutral-200 truncate">
+                      {service.type} · {String(service.serviceEndpoint)}
+                    </p>
+                    <p className="font-mono text-xs text-neutral-500 dark:text-neutral-400">{getFragment(service.id)}</p>
+                  </div>
+                  <button
+                    className="text-error-600 hover:text-error-800 dark:text-error-400 dark:hover:text-error-300"
+                    onClick={() => runUpdate(() => removeService(did, service.id))}
+                    disabled={isUpdating}
+                    aria-label="Remove service"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {showAddService && (
+            <div className="mt-2 p-3 bg-neutral-100 dark:bg-neutral-700 rounded-lg space-y-3">
+              <div>
+                <label htmlFor="serviceType" className="form-label">
+                  Type
+                </label>
+                <input
+                  id="serviceType"
+                  type="text"
+                  className="form-input"
+                  value={serviceType}
+                  onChange={(e) => setServiceType(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="serviceEndpoint" className="form-label">
+                  Endpoint
+                </label>
+                <input
+                  id="serviceEndpoint"
+                  type="url"
+                  className="form-input"
+                  placeholder="https://example.com"
+                  value={serviceEndpoint}
+                  onChange={(e) => setServiceEndpoint(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button className="btn-outline btn-sm" onClick={() => setShowAddService(false)} disabled={isUpdating}>
+                  Cancel
+                </button>
+                <button
+                  className="btn-primary btn-sm"
+                  onClick={handleAddService}
+                  disabled={isUpdating || !serviceType.trim() || !serviceEndpoint.trim()}
+                >
+                  {isUpdating ? 'Publishing...' : 'Add Service'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Key rotation */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          className="btn-outline btn-sm flex items-center"
+          onClick={() => setConfirmAction('rotate')}
+          disabled={isUpdating}
+        >
+          <ArrowPathIcon className="h-4 w-4 mr-1" />
+          Rotate Key
+        </button>
+        {!isHedera && (
+          <button
+            className="btn-outline btn-sm flex items-center"
+            onClick={() => setConfirmAction('migrate')}
+            disabled={isUpdating}
+          >
+            <GlobeAltIcon className="h-4 w-4 mr-1" />
+            Move to did:hedera
+          </button>
+        )}
+      </div>
+
+      {!isHedera && (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          A did:key cannot be changed. Move to did:hedera to add keys and service endpoints to your DID document.
+        </p>
+      )}
+
+      {/* Confirm rotation / migration */}
+      {confirmAction && (
+        <div className="bg-warning-50 border border-warning-200 rounded-lg p-4 text-warning-800 dark:bg-warning-900/30 dark:border-warning-700 dark:text-warning-300">
+          <div className="flex">
+            <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            <div>
+              <p className="text-sm">
+                {confirmAction === 'rotate' && isHedera
+                  ? 'A new authentication key will replace the current one. Your DID stays the same.'
+                  : 'Your DID will be replaced by a new one. Credentials issued to your current DID stay in your wallet but are not transferred to the new DID.'}
+              </p>
+              <div className="mt-3 flex space-x-2">
+                <button className="btn-primary btn-sm" onClick={handleConfirm}>
+                  {confirmAction === 'rotate' ? 'Rotate Key' : 'Move to did:hedera'}
+                </button>
+                <button className="btn-outline btn-sm" onClick={() => setConfirmAction(null)}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isUpdating && (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">Signing and publishing your DID update...</p>
+      )}
+    </div>
+  );
+};
+
+export default DidDocumentPanel;
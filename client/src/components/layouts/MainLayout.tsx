@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { Outlet, NavLink, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useWalletLock } from '@/hooks/useWalletLock';
+import { useAutoLock } from '@/hooks/useAutoLock';
+import { useCredentialStatusRefresh } from '@/hooks/useCredentialStatusRefresh';
+import { useCredentialExpiry } from '@/hooks/useCredentialExpiry';
 import {
   HomeIcon,
   IdentificationIcon,
@@ -12,6 +16,7 @@ import {
   MoonIcon,
   QrCodeIcon,
   ShieldCheckIcon,
+  LockClosedIcon,
 } from '@heroicons/react/24/outline';
 
 interface MainLayoutProps {
@@ -26,12 +31,20 @@ interface MainLayoutProps {
  * - Responsive sidebar navigation
  * - Header with user profile and theme toggle
  * - Main content area
+ * - Manual and inactivity (auto) lock of a protected wallet
+ * - Background refresh of credential revocation status
+ * - Background expiry of credentials past their validity period
  */
 const MainLayout: React.FC<MainLayoutProps> = ({ toggleTheme, theme }) => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { isProtected, isUnlocked, autoLockMinutes, lock } = useWalletLock();
+
+  useAutoLock(isProtected && isUnlocked, autoLockMinutes);
+  useCredentialStatusRefresh(isUnlocked);
+  useCredentialExpiry(isUnlocked);
 
   // Navigation items
   const navigation = [
@@ -157,8 +170,17 @@ const MainLayout: React.FC<MainLayoutProps> = ({ toggleTheme, theme }) => {
           </div>
         )}
 
-        {/* Sidebar footer with logout */}
-        <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-neutral-200 dark:border-neutral-700">
+        {/* Sidebar footer with lock and logout */}
+        <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-neutral-200 dark:border-neutral-700 space-y-1">
+          {isProtected && (
+            <button
+              className="w-full flex items-center px-3 py-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg transition-colors"
+              onClick={lock}
+            >
+              <LockClosedIcon className="mr-3 h-5 w-5" />
+              Lock Wallet
+            </button>
+          )}
           <button
             className="w-full flex items-center px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
             onClick={handleLogout}
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import {
+  createWalletBackup,
+  downloadWalletBackup,
+  restoreWalletBackup,
+  MIN_BACKUP_PASSPHRASE_LENGTH,
+} from '@/utils/backup';
+
+// Icons
+import {
+  XCircleIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  LockClosedIcon,
+} from '@heroicons/react/24/outline';
+
+type BackupMode = 'backup' | 'restore';
+
+interface BackupWalletModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialMode?: BackupMode;
+  onRestored?: (restored: { credentials: number; keys: number }) => void;
+}
+
+/**
+ * BackupWalletModal Component
+ *
+ * Encrypted wallet backups protected by a passphrase:
+ * - Backup: download credentials, keys and settings encrypted with the passphrase
+ * - Restore: load a backup file into this wallet
+ * The passphrase is never stored; a lost passphrase means the backup cannot be opened.
+ */
+const BackupWalletModal: React.FC<BackupWalletModalProps> = ({
+  isOpen,
+  onClose,
+  initialMode = 'backup',
+  onRestored,
+}) => {
+  // State
+  const [mode, setMode] = useState<BackupMode>(initialMode);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = (nextMode: BackupMode = initialMode) => {
+    setMode(nextMode);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setBackupFile(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleBackup = async () => {
+    if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('The passphrases do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      downloadWalletBackup(await createWalletBackup(passphrase));
+      setResult('Your encrypted backup was downloaded. Keep it somewhere safe, together with a record of the passphrase.');
+    } catch (err: any) {
+      console.error('Error creating backup:', err);
+      setError(err.message || 'Failed to create the backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backupFile || !passphrase) return;
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const restored = await restoreWalletBackup(await backupFile.text(), passphrase);
+      setResult(`Restored ${restored.credentials} credential(s) and ${restored.keys} key(s).`);
+      onRestored?.(restored);
+    } catch (err: any) {
+      console.error('Error restoring backup:', err);
+      setError(err.message || 'Failed to restore the backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-neutral-900 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white dark:bg-neutral-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg leading-6 font-medium text-neutral-900 dark:text-white">
+                {mode === 'backup' ? 'Backup Wallet' : 'Restore Wallet'}
+              </h3>
+              <button
+                type="button"
+                className="bg-white dark:bg-neutral-800 rounded-md text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 focus:outline-none"
+                onClick={handleClose}
+              >
+                <span className="sr-only">Close</span>
+                <XCircleIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {/* Mode tabs */}
+            {!result && (
+              <div className="flex mb-4 border-b border-neutral-200 dark:border-neutral-700">
+                {(['backup', 'restore'] as BackupMode[]).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                      mode === tab
+                        ? 'border-hedera-600 text-hedera-600 dark:text-hedera-400'
+                        : 'border-transparent text-neutral-500 hover:text-neutral-700 dark:text-neutral-400'
+                    }`}
+                    onClick={() => reset(tab)}
+                    disabled={isWorking}
+                  >
+                    {tab === 'backup' ? 'Backup' : 'Restore'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+                <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {result ? (
+              <div className="space-y-4 text-center">
+                <CheckCircleIcon className="h-12 w-12 mx-auto text-success-500" />
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">{result}</p>
+                <button type="button" className="btn-primary" onClick={handleClose}>
+                  Done
+                </button>
+              </div>
+            ) : mode === 'backup' ? (
+              <div className="space-y-4">
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  The backup contains your credentials and private keys, encrypted with a passphrase you choose.
+                  Without the passphrase the backup cannot be restored.
+                </p>
+                <div>
+                  <label htmlFor="backup-passphrase" className="form-label">Passphrase</label>
+                  <input
+                    id="backup-passphrase"
+                    type="password"
+                    autoComplete="new-password"
+                    className="form-input"
+                    value={passphrase}
+                    onChange={e => setPassphrase(e.target.value)}
+                    disabled={isWorking}
+                  />
+                  <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                    At least {MIN_BACKUP_PASSPHRASE_LENGTH} characters. A few unrelated words work well.
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="backup-passphrase-confirm" className="form-label">Confirm passphrase</label>
+                  <input
+                    id="backup-passphrase-confirm"
+                    type="password"
+                    autoComplete="new-password"
+                    className="form-input"
+                    value={confirmPassphrase}
+                    onChange={e => setConfirmPassphrase(e.target.value)}
+                    disabled={isWorking}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    className="btn-primary flex items-center"
+                    onClick={handleBackup}
+                    disabled={isWorking || !passphrase || !confirmPassphrase}
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                    {isWorking ? 'Encrypting...' : 'Download Backup'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  Restore credentials and keys from an encrypted backup file. Existing wallet contents are kept.
+                </p>
+                <div>
+                  <label htmlFor="backup-file" className="form-label">Backup file</label>
+                  <input
+                    id="backup-file"
+                    type="file"
+                    accept="application/json,.json"
+                    className="form-input"
+                    onChange={e => setBackupFile(e.target.files?.[0] || null)}
+                    disabled={isWorking}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="restore-passphrase" className="form-label">Passphrase</label>
+                  <input
+                    id="restore-passphrase"
+                    type="password"
+                    autoComplete="current-password"
+                    className="form-input"
+                    value={passphrase}
+                    onChange={e => setPassphrase(e.target.value)}
+                    disabled={isWorking}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    className="btn-primary flex items-center"
+                    onClick={handleRestore}
+                    disabled={isWorking || !backupFile || !passphrase}
+                  >
+                    {isWorking ? <LockClosedIcon className="h-4 w-4 mr-1" /> : <ArrowUpTrayIcon className="h-4 w-4 mr-1" />}
+                    {isWorking ? 'Decrypting...' : 'Restore'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupWalletModal;
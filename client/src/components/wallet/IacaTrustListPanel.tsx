@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { addIacaCertificates, getIacaCertificates, removeIacaCertificate } from '@/utils/mdoc';
+import { decodePemCertificates, parseCertificate, X509Certificate } from '@/utils/x509';
+
+// Icons
+import {
+  ShieldCheckIcon,
+  PlusIcon,
+  TrashIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+
+/**
+ * IacaTrustListPanel Component
+ *
+ * Manages the IACA root certificates the wallet trusts for mdocs (e.g. mobile driving
+ * licences). An mdoc's issuer is trusted when its document signer certificate chains
+ * to one of these roots, which issuing authorities publish as PEM files.
+ */
+const IacaTrustListPanel: React.FC = () => {
+  const [certificates, setCertificates] = useState<{ pem: string; certificate: X509Certificate }[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [pem, setPem] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCertificates = async () => {
+    const stored = await getIacaCertificates();
+    setCertificates(stored.map(entry => ({ pem: entry, certificate: parseCertificate(decodePemCertificates(entry)[0]) })));
+  };
+
+  useEffect(() => {
+    loadCertificates().catch(err => {
+      console.error('Error loading IACA certificates:', err);
+      setError('Failed to load trusted certificates');
+    });
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await addIacaCertificates(pem);
+      await loadCertificates();
+      setPem('');
+      setShowForm(false);
+    } catch (err: any) {
+      console.error('Error adding IACA certificate:', err);
+      setError(err.message || 'Failed to add the certificate');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = async (entry: string) => {
+    setError(null);
+
+    try {
+      await removeIacaCertificate(entry);
+      await loadCertificates();
+    } catch (err: any) {
+      console.error('Error removing IACA certificate:', err);
+      setError(err.message || 'Failed to remove the certificate');
+    }
+  };
+
+  return (
+    <div className="wallet-card">
+      <h2 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center mb-2">
+        <ShieldCheckIcon className="h-5 w-5 mr-2 text-hedera-600" />
+        Trusted mdoc Issuers
+      </h2>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+        Mobile driving licences and other mdocs are trusted when their signer is certified by one of these
+        issuing authority (IACA) root certificates.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+          <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {certificates.length > 0 && (
+        <div className="divide-y divide-neutral-200 dark:divide-neutral-700 mb-4">
+          {certificates.map(({ pem: entry, certificate }) => (
+            <div key={entry} className="py-3 first:pt-0 flex items-center justify-between">
+              <div className="min-w-0 mr-3">
+                <p className="font-medium text-neutral-900 dark:text-white break-words">{certificate.subjectName}</p>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                  Valid until {certificate.notAfter.toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                className="text-error-600 hover:text-error-800 dark:text-error-400 dark:hover:text-error-300"
+                onClick={() => handleRemove(entry)}
+                aria-label="Remove certificate"
+              >
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm ? (
+        <form className="space-y-3" onSubmit={handleAdd}>
+          <div>
+            <label htmlFor="iaca-certificate" className="form-label">IACA certificate</label>
+            <textarea
+              id="iaca-certificate"
+              className="form-input font-mono text-xs"
+              rows={6}
+              placeholder="-----BEGIN CERTIFICATE-----"
+              value={pem}
+              onChange={e => setPem(e.target.value)}
+              disabled={isWorking}
+            />
+            <p className="form-hint">Paste one or more PEM certificates.</p>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button type="button" className="btn-outline btn-sm" onClick={() => setShowForm(false)} disabled={isWorking}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary btn-sm" disabled={isWorking || !pem.trim()}>
+              {isWorking ? 'Adding...' : 'Add Certificate'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          className="btn-outline btn-sm flex items-center"
+          onClick={() => {
+            setError(null);
+            setShowForm(true);
+          }}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add IACA certificate
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default IacaTrustListPanel;
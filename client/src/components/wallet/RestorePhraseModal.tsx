@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { restoreKeysFromMnemonic } from '@/utils/didManagement';
+import { isValidMnemonic } from '@/utils/mnemonic';
+
+// Icons
+import {
+  XCircleIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  KeyIcon,
+} from '@heroicons/react/24/outline';
+
+interface RestorePhraseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  did?: string;
+  onRestored?: (keys: number) => void;
+}
+
+/**
+ * RestorePhraseModal Component
+ *
+ * Re-derives the keys of the user's DID from a 12 or 24-word recovery phrase.
+ * The phrase is checked locally; it is never sent to the server.
+ */
+const RestorePhraseModal: React.FC<RestorePhraseModalProps> = ({
+  isOpen,
+  onClose,
+  did,
+  onRestored,
+}) => {
+  // State
+  const [phrase, setPhrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setPhrase('');
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!did) {
+      setError('Your account has no DID to restore');
+      return;
+    }
+    if (!isValidMnemonic(phrase)) {
+      setError('This is not a valid recovery phrase. Check the words and their order.');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const keys = await restoreKeysFromMnemonic(phrase, did);
+      setPhrase('');
+      setResult(`Restored ${keys} key(s) for your DID.`);
+      onRestored?.(keys);
+    } catch (err: any) {
+      console.error('Error restoring keys from phrase:', err);
+      setError(err.message || 'Failed to restore keys from the recovery phrase');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        {/* Background overlay */}
+        <div
+          className="fixed inset-0 bg-neutral-900 bg-opacity-75 transition-opacity"
+          onClick={handleClose}
+          aria-hidden="true"
+        ></div>
+
+        {/* Modal panel */}
+        <div className="inline-block align-bottom bg-white dark:bg-neutral-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="px-4 pt-5 pb-4 sm:p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg leading-6 font-medium text-neutral-900 dark:text-white">
+                Restore from Recovery Phrase
+              </h3>
+              <button
+                type="button"
+                className="bg-white dark:bg-neutral-800 rounded-md text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 focus:outline-none"
+                onClick={handleClose}
+              >
+                <span className="sr-only">Close</span>
+                <XCircleIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+                <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {result ? (
+              <div className="space-y-4 text-center">
+                <CheckCircleIcon className="h-12 w-12 mx-auto text-success-500" />
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">{result}</p>
+                <button type="button" className="btn-primary" onClick={handleClose}>
+                  Done
+                </button>
+              </div>
+            ) : (
+              <form className="space-y-4" onSubmit={handleRestore}>
+                <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                  Enter the 12 or 24 words of your recovery phrase, separated by spaces.
+                </p>
+                <div>
+                  <label htmlFor="recovery-phrase" className="form-label">Recovery phrase</label>
+                  <textarea
+                    id="recovery-phrase"
+                    rows={4}
+                    autoComplete="off"
+                    autoCapitalize="none"
+                    spellCheck={false}
+                    className="form-input font-mono"
+                    value={phrase}
+                    onChange={e => setPhrase(e.target.value)}
+                    disabled={isWorking}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    className="btn-primary flex items-center"
+                    disabled={isWorking || !phrase.trim()}
+                  >
+                    <KeyIcon className="h-4 w-4 mr-1" />
+                    {isWorking ? 'Restoring...' : 'Restore Keys'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestorePhraseModal;
@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { WalletKeySlot, WebAuthnCredential } from '@/types';
+import { useWalletLock } from '@/hooks/useWalletLock';
+import {
+  AUTO_LOCK_OPTIONS,
+  clearSessionPin,
+  isValidWalletPin,
+  MAX_WALLET_PIN_LENGTH,
+  MIN_WALLET_PASSPHRASE_LENGTH,
+  MIN_WALLET_PIN_LENGTH,
+  protectWithPasskey,
+  protectWithPassphrase,
+  removeWalletKeySlot,
+  setAutoLockMinutes,
+  setSessionPin,
+} from '@/utils/walletKey';
+
+// Icons
+import {
+  LockClosedIcon,
+  FingerPrintIcon,
+  KeyIcon,
+  HashtagIcon,
+  ClockIcon,
+  TrashIcon,
+  ExclamationCircleIcon,
+} from '@heroicons/react/24/outline';
+
+interface WalletEncryptionPanelProps {
+  passkeys: WebAuthnCredential[];
+  isWebAuthnSupported: boolean;
+}
+
+/**
+ * WalletEncryptionPanel Component
+ *
+ * Manages how the wallet encryption key is protected:
+ * - Passkey slots (WebAuthn PRF), unlocked with a biometric assertion
+ * - A passphrase slot, for authenticators and browsers without PRF
+ * - A PIN for unlocking the lock screen quickly, kept in memory until the page reloads
+ * - The auto-lock timeout of a protected wallet
+ * Without any slot the key is stored on the device next to the data it encrypts.
+ */
+const WalletEncryptionPanel: React.FC<WalletEncryptionPanelProps> = ({ passkeys, isWebAuthnSupported }) => {
+  const { isProtected, slots, hasPin, autoLockMinutes } = useWalletLock();
+  const [secretForm, setSecretForm] = useState<'passphrase' | 'pin' | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasPassphrase = slots.some(slot => slot.type === 'passphrase');
+  const isPinForm = secretForm === 'pin';
+
+  const handleProtectWithPasskey = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await protectWithPasskey(passkeys.map(passkey => passkey.credentialId));
+    } catch (err: any) {
+      console.error('Error protecting wallet with passkey:', err);
+      setError(err.name === 'NotAllowedError' ? 'The passkey prompt was cancelled' : err.message || 'Failed to protect the wallet');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const openSecretForm = (type: 'passphrase' | 'pin') => {
+    setError(null);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setSecretForm(type);
+  };
+
+  const handleSetSecret = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isPinForm && !isValidWalletPin(passphrase)) {
+      setError(`Use a PIN of ${MIN_WALLET_PIN_LENGTH} to ${MAX_WALLET_PIN_LENGTH} digits`);
+      return;
+    }
+    if (!isPinForm && passphrase.length < MIN_WALLET_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_WALLET_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError(isPinForm ? 'The PINs do not match' : 'The passphrases do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      if (isPinForm) {
+        await setSessionPin(passphrase);
+      } else {
+        await protectWithPassphrase(passphrase);
+      }
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setSecretForm(null);
+    } catch (err: any) {
+      console.error(`Error setting wallet ${secretForm}:`, err);
+      setError(err.message || `Failed to set the ${secretForm}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAutoLockChange = async (minutes: number) => {
+    setError(null);
+    try {
+      await setAutoLockMinutes(minutes);
+    } catch (err: any) {
+      console.error('Error setting auto-lock timeout:', err);
+      setError(err.message || 'Failed to set the auto-lock timeout');
+    }
+  };
+
+  const handleRemoveSlot = async (slot: WalletKeySlot) => {
+    if (slots.length === 1 && !window.confirm('Without any unlock method, the wallet key is stored unprotected on this device. Continue?')) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await removeWalletKeySlot(slot.id);
+    } catch (err: any) {
+      console.error('Error removing unlock method:', err);
+      setError(err.message || 'Failed to remove the unlock method');
+    }
+  };
+
+  const getSlotLabel = (slot: WalletKeySlot) => {
+    if (slot.type === 'passphrase') return 'Passphrase';
+    const passkey = passkeys.find(candidate => candidate.credentialId === slot.credentialId);
+    return passkey?.deviceType ? `Passkey (${passkey.deviceType})` : 'Passkey';
+  };
+
+  return (
+    <div className="wallet-card">
+      <h2 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center mb-2">
+        <LockClosedIcon className="h-5 w-5 mr-2 text-hedera-600" />
+        Wallet Encryption
+      </h2>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+        {isProtected
+          ? 'Your credentials and keys can only be decrypted after unlocking with one of these methods.'
+          : 'Your wallet key is stored unprotected on this device. Protect it with a passkey or a passphrase to enable the lock screen.'}
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+          <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {slots.length > 0 && (
+        <div className="divide-y divide-neutral-200 dark:divide-neutral-700 mb-4">
+          {slots.map(slot => (
+            <div key={slot.id} className="py-3 first:pt-0 flex items-center justify-between">
+              <span className="flex items-center text-neutral-900 dark:text-white">
+                {slot.type === 'passkey' && <FingerPrintIcon className="h-5 w-5 mr-3 text-neutral-500" />}
+                {slot.type === 'passphrase' && <KeyIcon className="h-5 w-5 mr-3 text-neutral-500" />}
+                <span className="font-medium">{getSlotLabel(slot)}</span>
+              </span>
+              <button
+                className="text-error-600 hover:text-error-800 dark:text-error-400 dark:hover:text-error-300"
+                onClick={() => handleRemoveSlot(slot)}
+                aria-label="Remove unlock method"
+              >
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            </div>
+          ))}
+          {hasPin && (
+            <div className="py-3 flex items-center justify-between">
+              <span className="flex items-center text-neutral-900 dark:text-white">
+                <HashtagIcon className="h-5 w-5 mr-3 text-neutral-500" />
+                <span className="font-medium">PIN</span>
+                <span className="ml-2 text-xs text-neutral-500">until this page reloads</span>
+              </span>
+              <button
+                className="text-error-600 hover:text-error-800 dark:text-error-400 dark:hover:text-error-300"
+                onClick={clearSessionPin}
+                aria-label="Remove PIN"
+              >
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {secretForm ? (
+        <form className="space-y-3" onSubmit={handleSetSecret}>
+          <div>
+            <label htmlFor="new-wallet-secret" className="form-label">{isPinForm ? 'PIN' : 'Passphrase'}</label>
+            <input
+              id="new-wallet-secret"
+              type="password"
+              inputMode={isPinForm ? 'numeric' : undefined}
+              maxLength={isPinForm ? MAX_WALLET_PIN_LENGTH : undefined}
+              autoComplete="new-password"
+              className="form-input"
+              value={passphrase}
+              onChange={e => setPassphrase(isPinForm ? e.target.value.replace(/\D/g, '') : e.target.value)}
+              disabled={isWorking}
+            />
+            <p className="form-hint">
+              {isPinForm
+                ? `${MIN_WALLET_PIN_LENGTH} to ${MAX_WALLET_PIN_LENGTH} digits. The PIN unlocks the lock screen until this page reloads and is never stored.`
+                : `At least ${MIN_WALLET_PASSPHRASE_LENGTH} characters.`}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="confirm-wallet-secret" className="form-label">{isPinForm ? 'Confirm PIN' : 'Confirm passphrase'}</label>
+            <input
+              id="confirm-wallet-secret"
+              type="password"
+              inputMode={isPinForm ? 'numeric' : undefined}
+              maxLength={isPinForm ? MAX_WALLET_PIN_LENGTH : undefined}
+              autoComplete="new-password"
+              className="form-input"
+              value={confirmPassphrase}
+              onChange={e => setConfirmPassphrase(isPinForm ? e.target.value.replace(/\D/g, '') : e.target.value)}
+              disabled={isWorking}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button type="button" className="btn-outline btn-sm" onClick={() => setSecretForm(null)} disabled={isWorking}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary btn-sm" disabled={isWorking || !passphrase || !confirmPassphrase}>
+              {isWorking ? 'Saving...' : isPinForm ? 'Save PIN' : 'Save Passphrase'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+          {isWebAuthnSupported && passkeys.length > 0 && (
+            <button
+              type="button"
+              className="btn-outline btn-sm flex items-center justify-center"
+              onClick={handleProtectWithPasskey}
+              disabled={isWorking}
+            >
+              <FingerPrintIcon className="h-4 w-4 mr-1" />
+              Protect with passkey
+            </button>
+          )}
+          <button
+            type="button"
+            className="btn-outline btn-sm flex items-center justify-center"
+            onClick={() => openSecretForm('passphrase')}
+            disabled={isWorking}
+          >
+            <KeyIcon className="h-4 w-4 mr-1" />
+            {hasPassphrase ? 'Change passphrase' : 'Set passphrase'}
+          </button>
+          {isProtected && (
+            <button
+              type="button"
+              className="btn-outline btn-sm flex items-center justify-center"
+              onClick={() => openSecretForm('pin')}
+              disabled={isWorking}
+            >
+              <HashtagIcon className="h-4 w-4 mr-1" />
+              {hasPin ? 'Change PIN' : 'Set PIN'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {isProtected && (
+        <div className="mt-6 pt-4 border-t border-neutral-200 dark:border-neutral-700">
+          <label htmlFor="auto-lock-minutes" className="form-label flex items-center">
+            <ClockIcon className="h-4 w-4 mr-1 text-neutral-500" />
+            Auto-lock
+          </label>
+          <select
+            id="auto-lock-minutes"
+            className="form-input"
+            value={autoLockMinutes}
+            onChange={e => handleAutoLockChange(Number(e.target.value))}
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0 ? 'Never' : `After ${minutes} minute${minutes === 1 ? '' : 's'} of inactivity`}
+              </option>
+            ))}
+          </select>
+          <p className="form-hint">Locking clears the decrypted wallet key from memory. You stay signed in.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WalletEncryptionPanel;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { WalletKeySlot } from '@/types';
+import { MAX_WALLET_PIN_LENGTH, unlockWithPasskey, unlockWithPassphrase, unlockWithPin } from '@/utils/walletKey';
+
+// Icons
+import {
+  LockClosedIcon,
+  FingerPrintIcon,
+  ExclamationCircleIcon,
+  ArrowLeftOnRectangleIcon,
+} from '@heroicons/react/24/outline';
+
+interface WalletUnlockPanelProps {
+  slots: WalletKeySlot[];
+  hasPin: boolean;
+  onSignOut?: () => void;
+}
+
+/**
+ * WalletUnlockPanel Component
+ *
+ * Lock screen shown instead of the wallet while its encryption key is locked.
+ * Unlocks with a passkey (WebAuthn PRF) or the wallet passphrase, depending on the key
+ * slots, or with the session PIN until the page reloads. Unlocking does not touch the
+ * server session.
+ */
+const WalletUnlockPanel: React.FC<WalletUnlockPanelProps> = ({ slots, hasPin, onSignOut }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [pin, setPin] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasPasskey = slots.some(slot => slot.type === 'passkey');
+  const hasPassphrase = slots.some(slot => slot.type === 'passphrase');
+
+  const handlePasskey = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await unlockWithPasskey();
+    } catch (err: any) {
+      console.error('Error unlocking with passkey:', err);
+      setError(err.name === 'NotAllowedError' ? 'Unlock was cancelled' : err.message || 'Failed to unlock the wallet');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await unlockWithPassphrase(passphrase);
+      setPassphrase('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to unlock the wallet');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await unlockWithPin(pin);
+    } catch (err: any) {
+      setError(err.message || 'Failed to unlock the wallet');
+    } finally {
+      setPin('');
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto wallet-card space-y-6">
+      <div className="text-center">
+        <div className="mx-auto w-16 h-16 bg-hedera-50 dark:bg-hedera-900 rounded-full flex items-center justify-center mb-4">
+          <LockClosedIcon className="h-10 w-10 text-hedera-600 dark:text-hedera-400" />
+        </div>
+        <h1 className="text-xl font-bold text-neutral-900 dark:text-white">Wallet Locked</h1>
+        <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-400">
+          Your credentials and keys are encrypted. Unlock the wallet to use them.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-error-50 dark:bg-error-900/30 flex items-center text-error-700 dark:text-error-300 text-sm">
+          <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {hasPasskey && (
+        <button
+          type="button"
+          className="btn-primary w-full flex items-center justify-center"
+          onClick={handlePasskey}
+          disabled={isWorking}
+        >
+          <FingerPrintIcon className="h-5 w-5 mr-2" />
+          Unlock with passkey
+        </button>
+      )}
+
+      {hasPin && (
+        <form className="space-y-3" onSubmit={handlePin}>
+          <div>
+            <label htmlFor="wallet-pin" className="form-label">Wallet PIN</label>
+            <input
+              id="wallet-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={MAX_WALLET_PIN_LENGTH}
+              className="form-input text-center tracking-widest"
+              value={pin}
+              onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+              disabled={isWorking}
+              autoFocus={!hasPasskey}
+            />
+          </div>
+          <button
+            type="submit"
+            className={hasPasskey ? 'btn-outline w-full' : 'btn-primary w-full'}
+            disabled={isWorking || !pin}
+          >
+            {isWorking ? 'Unlocking...' : 'Unlock with PIN'}
+          </button>
+        </form>
+      )}
+
+      {hasPassphrase && (
+        <form className="space-y-3" onSubmit={handlePassphrase}>
+          <div>
+            <label htmlFor="wallet-passphrase" className="form-label">Wallet passphrase</label>
+            <input
+              id="wallet-passphrase"
+              type="password"
+              autoComplete="current-password"
+              className="form-input"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              disabled={isWorking}
+            />
+          </div>
+          <button
+            type="submit"
+            className={hasPasskey || hasPin ? 'btn-outline w-full' : 'btn-primary w-full'}
+            disabled={isWorking || !passphrase}
+          >
+            {isWorking ? 'Unlocking...' : 'Unlock with passphrase'}
+          </button>
+        </form>
+      )}
+
+      {onSignOut && (
+        <button
+          type="button"
+          className="w-full flex items-center justify-center text-sm text-neutral-600 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white"
+          onClick={onSignOut}
+        >
+          <ArrowLeftOnRectangleIcon className="h-4 w-4 mr-1" />
+          Sign out instead
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default WalletUnlockPanel;
@@ -2,6 +2,11 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { useNavigate } from 'react-router-dom';
 import { authApi, userApi } from '@/services/api';
 import { AuthState, UserProfile, OtpDeliveryMethod } from '@/types';
+import { keyStorage } from '@/utils/db';
+import { createDidKey } from '@/utils/did';
+import { createWalletMnemonic, getWalletMnemonic } from '@/utils/mnemonic';
+import { lockWallet } from '@/utils/walletKey';
+import { signJws } from '@/utils/crypto';
 import jwt_decode from 'jwt-decode';
 
 // Define the shape of the auth context
@@ -12,9 +17,11 @@ interface AuthContextType extends AuthState {
     isNewUser?: boolean;
     supportsWebAuthn?: boolean;
   }>;
+  completeRecovery: (recoveryToken: string) => Promise<{ success: boolean; didRebindExpiresAt?: string }>;
   logout: () => void;
   refreshToken: () => Promise<string | null>;
   updateUser: (userData: Partial<UserProfile>) => Promise<UserProfile>;
+  refreshUser: () => Promise<UserProfile | null>;
   isTokenExpired: () => boolean;
   getToken: () => string | null;
 }
@@ -27,9 +34,11 @@ const AuthContext = createContext<AuthContextType>({
   token: null,
   login: async () => ({ otpId: '', method: OtpDeliveryMethod.EMAIL }),
   verifyOtp: async () => ({ success: false }),
+  completeRecovery: async () => ({ success: false }),
   logout: () => {},
   refreshToken: async () => null,
   updateUser: async () => ({ id: '', name: '' }),
+  refreshUser: async () => null,
   isTokenExpired: () => true,
   getToken: () => null,
 });
@@ -38,6 +47,41 @@ const AuthContext = createContext<AuthContextType>({
 const TOKEN_STORAGE_KEY = 'auth_token';
 const USER_STORAGE_KEY = 'user_profile';
 
+/**
+ * Generate a DID key pair on this device and register the DID with the server.
+ * The private key never leaves the device; the server only receives the DID
+ * document and a JWS over its challenge proving possession of the key.
+ * The key is derived from a new recovery phrase, shown to the user during onboarding.
+ */
+async function provisionDid(): Promise<{ did: string; didDocument: any }> {
+  if (!(await getWalletMnemonic())) {
+    await createWalletMnemonic();
+  }
+
+  const { did, didDocument, keyPair } = await createDidKey('ed25519');
+  await keyStorage.storeKeyPair(keyPair);
+
+  try {
+    const { challenge, audience } = await userApi.getDidChallenge();
+    const proof = await signJws(
+      {
+        iss: did,
+        aud: audience,
+        nonce: challenge,
+        iat: Math.floor(Date.now() / 1000),
+      },
+      keyPair
+    );
+
+    const response = await userApi.registerDid({ did, didDocument, proof });
+    return { did: response.did, didDocument: response.didDocument };
+  } catch (error) {
+    // Do not keep keys for a DID the server never accepted
+    await keyStorage.deleteKeyPair(keyPair.id);
+    throw error;
+  }
+}
+
 /**
  * Auth Provider component that wraps the application and provides auth context
  */
@@ -59,8 +103,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const decoded: any = jwt_decode(token);
       const currentTime = Date.now() / 1000;
       
-      // Check if token is expired or about to expire in the next 5 minutes
-      return decoded.exp < currentTime || decoded.exp < currentTime + 300;
+      // Access tokens are short-lived; treat one expiring within a minute as expired
+      return decoded.exp < currentTime + 60;
     } catch (error) {
       console.error('Error decoding token:', error);
       return true;
@@ -168,7 +212,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     initializeAuth();
   }, [isTokenExpired]);
 
-  // Refresh token function
+  // Refresh token function - rotates the refresh token and returns a new access token
   const refreshToken = useCallback(async (): Promise<string | null> => {
     try {
       const { token } = await authApi.refreshToken();
@@ -216,13 +260,25 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (response.success && response.token && response.user) {
         // Save token and user to localStorage
         localStorage.setItem(TOKEN_STORAGE_KEY, response.token);
-        localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(response.user));
+
+        // Users without a DID get one generated on this device
+        let user: UserProfile = response.user;
+        if (!user.did) {
+          try {
+            const { did } = await provisionDid();
+            user = { ...user, did };
+          } catch (error) {
+            console.error('Error provisioning DID:', error);
+          }
+        }
+
+        localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
 
         // Update auth state
         setState({
           isAuthenticated: true,
           isLoading: false,
-          user: response.user,
+          user,
           token: response.token,
         });
 
@@ -240,11 +296,34 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, []);
 
+  // Complete an account recovery and sign in with the new session
+  const completeRecovery = useCallback(async (recoveryToken: string) => {
+    try {
+      const response = await authApi.completeRecovery(recoveryToken);
+      
+      // The DID is re-bound by the recovery page, since the old DID key is gone
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(response.user));
+      
+      setState({
+        isAuthenticated: true,
+        isLoading: false,
+        user: response.user,
+        token: response.token,
+      });
+      
+      return { success: true, didRebindExpiresAt: response.didRebindExpiresAt };
+    } catch (error) {
+      console.error('Error completing recovery:', error);
+      return { success: false };
+    }
+  }, []);
+
   // Logout function
   const logout = useCallback(() => {
-    // Clear auth state
+    // Clear auth state and forget the unlocked wallet key
     localStorage.removeItem(TOKEN_STORAGE_KEY);
     localStorage.removeItem(USER_STORAGE_KEY);
+    lockWallet();
     
     setState({
       isAuthenticated: false,
@@ -280,14 +359,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, []);
 
+  // Reload the user profile from the server, e.g. after the DID changed
+  const refreshUser = useCallback(async (): Promise<UserProfile | null> => {
+    try {
+      const user = await userApi.getProfile();
+      
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+      
+      setState(prevState => ({
+        ...prevState,
+        user,
+      }));
+      
+      return user;
+    } catch (error) {
+      console.error('Error refreshing user:', error);
+      return null;
+    }
+  }, []);
+
   // Provide auth context value
   const contextValue: AuthContextType = {
     ...state,
     login,
     verifyOtp,
+    completeRecovery,
     logout,
     refreshToken,
     updateUser,
+    refreshUser,
     isTokenExpired,
     getToken,
   };
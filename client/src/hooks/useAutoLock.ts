@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { lockWallet } from '@/utils/walletKey';
+
+// User input that counts as activity
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+// How often the inactivity timeout is checked
+const CHECK_INTERVAL_MS = 15000;
+
+/**
+ * Custom hook that locks the wallet after a period without user activity
+ * Timers are throttled in background tabs, so the timeout is also checked as soon as
+ * the page becomes visible again.
+ * @param enabled - Whether the wallet can be locked (protected and currently unlocked)
+ * @param minutes - Minutes of inactivity before locking; 0 disables auto-lock
+ */
+export const useAutoLock = (enabled: boolean, minutes: number) => {
+  useEffect(() => {
+    if (!enabled || minutes <= 0) {
+      return;
+    }
+
+    const timeoutMs = minutes * 60 * 1000;
+    let lastActivity = Date.now();
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+
+    const checkTimeout = () => {
+      if (Date.now() - lastActivity >= timeoutMs) {
+        lockWallet();
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        checkTimeout();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = window.setInterval(checkTimeout, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.clearInterval(interval);
+    };
+  }, [enabled, minutes]);
+};
+
+export default useAutoLock;
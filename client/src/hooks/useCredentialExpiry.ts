@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { markExpiredCredentials } from '@/utils/expiry';
+
+// How often stored credentials are checked for expiry
+const EXPIRY_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Custom hook that marks stored credentials expired once their validity period ends
+ * Runs once when enabled and then periodically. Expiry is checked locally, so unlike
+ * status list refreshes it also runs offline.
+ * @param enabled - Whether credentials can be read (wallet unlocked)
+ */
+export const useCredentialExpiry = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const check = async () => {
+      try {
+        await markExpiredCredentials();
+      } catch (error) {
+        console.error('Error checking credential expiry:', error);
+      }
+    };
+
+    check();
+    const interval = window.setInterval(check, EXPIRY_CHECK_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [enabled]);
+};
+
+export default useCredentialExpiry;
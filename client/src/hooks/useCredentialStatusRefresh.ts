@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { refreshCredentialStatuses } from '@/utils/verification';
+
+// How often stored credentials are checked against their status lists
+const STATUS_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Custom hook that refreshes credential statuses (revocation/suspension) in the background
+ * Runs once when enabled and then periodically; status lists themselves are cached per
+ * their ttl, so most refreshes do not hit the network.
+ * @param enabled - Whether credentials can be read (wallet unlocked)
+ */
+export const useCredentialStatusRefresh = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const refresh = async () => {
+      if (!navigator.onLine) {
+        return;
+      }
+
+      try {
+        await refreshCredentialStatuses();
+      } catch (error) {
+        console.error('Error refreshing credential statuses:', error);
+      }
+    };
+
+    refresh();
+    const interval = window.setInterval(refresh, STATUS_REFRESH_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [enabled]);
+};
+
+export default useCredentialStatusRefresh;
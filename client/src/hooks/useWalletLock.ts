@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { WalletKeySlot } from '@/types';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  getAutoLockMinutes,
+  getWalletKeySlots,
+  hasSessionPin,
+  isWalletUnlocked,
+  lockWallet,
+  subscribeWalletLock,
+} from '@/utils/walletKey';
+
+interface WalletLockState {
+  isLoading: boolean;
+  isProtected: boolean;
+  isUnlocked: boolean;
+  slots: WalletKeySlot[];
+  hasPin: boolean; // The lock screen accepts the session PIN
+  autoLockMinutes: number;
+}
+
+/**
+ * Custom hook for the lock state of the wallet encryption key
+ * Updates whenever the wallet is locked, unlocked or its key slots, session PIN or auto-lock timeout change.
+ */
+export const useWalletLock = () => {
+  const [state, setState] = useState<WalletLockState>({
+    isLoading: true,
+    isProtected: false,
+    isUnlocked: false,
+    slots: [],
+    hasPin: false,
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  });
+
+  const refresh = useCallback(async () => {
+    try {
+      const slots = await getWalletKeySlots();
+      setState({
+        isLoading: false,
+        isProtected: slots.length > 0,
+        isUnlocked: await isWalletUnlocked(),
+        slots,
+        hasPin: hasSessionPin(),
+        autoLockMinutes: await getAutoLockMinutes(),
+      });
+    } catch (error) {
+      console.error('Error loading wallet lock state:', error);
+      setState(prevState => ({ ...prevState, isLoading: false }));
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeWalletLock(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  return { ...state, refresh, lock: lockWallet };
+};
+
+export default useWalletLock;
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useCallback, useEffect } fr
 import { startRegistration, startAuthentication } from '@simplewebauthn/browser';
 import { webAuthnApi } from '@/services/api';
 import { WebAuthnCredential } from '@/types';
+import { getPrfExtensionInputs, takePrfResult, unlockWithPrfResult } from '@/utils/walletKey';
 import { useAuth } from './useAuth';
 
 // Define the shape of the WebAuthn context
@@ -107,7 +108,11 @@ export const WebAuthnProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       const { sessionId, options } = await webAuthnApi.register({ userId, name });
 
       // 2. Start the registration process in the browser
-      const attResp = await startRegistration(options);
+      // (requesting PRF enables hmac-secret on security keys, so the passkey can protect the wallet key)
+      const attResp = await startRegistration({
+        ...options,
+        extensions: { ...options.extensions, prf: {} },
+      });
 
       // 3. Send the response to the server for verification
       const verificationResp = await webAuthnApi.verifyRegistration({
@@ -158,8 +163,12 @@ export const WebAuthnProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       // 1. Get authentication options from server
       const { sessionId, options } = await webAuthnApi.authenticate({ email, phone });
 
-      // 2. Start the authentication process in the browser
-      const authResp = await startAuthentication(options);
+      // 2. Start the authentication process in the browser, evaluating PRF for passkeys that protect the wallet key
+      const authResp = await startAuthentication({
+        ...options,
+        extensions: { ...options.extensions, ...(await getPrfExtensionInputs()) },
+      });
+      const prfResult = takePrfResult(authResp);
 
       // 3. Send the response to the server for verification
       const verificationResp = await webAuthnApi.verifyAuthentication({
@@ -168,6 +177,14 @@ export const WebAuthnProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       });
 
       if (verificationResp.success) {
+        // 4. Unlock the wallet with the same assertion
+        if (prfResult) {
+          try {
+            await unlockWithPrfResult(authResp.id, prfResult);
+          } catch (error) {
+            console.error('Error unlocking wallet with passkey:', error);
+          }
+        }
         return true;
       } else {
         setError(verificationResp.message || 'Authentication failed');
@@ -253,8 +253,8 @@ const LoginPage: React.FC = () => {
         )}
       </form>
 
-      {/* Registration Link */}
-      <div className="text-center mt-6">
+      {/* Registration and Recovery Links */}
+      <div className="text-center mt-6 space-y-2">
         <p className="text-sm text-neutral-600 dark:text-neutral-400">
           Don't have an account?{' '}
           <Link
@@ -264,6 +264,15 @@ const LoginPage: React.FC = () => {
             Sign up
           </Link>
         </p>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Lost your passkeys and wallet?{' '}
+          <Link
+            to="/recover"
+            className="font-medium text-hedera-600 hover:text-hedera-500 dark:text-hedera-400 dark:hover:text-hedera-300"
+          >
+            Recover your account
+          </Link>
+        </p>
       </div>
     </div>
   );
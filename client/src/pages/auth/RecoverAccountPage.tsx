@@ -0,0 +1,520 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useWebAuthn } from '@/hooks/useWebAuthn';
+import { authApi } from '@/services/api';
+import { OtpDeliveryMethod, StorageKeys } from '@/types';
+import { rebindDidAfterRecovery } from '@/utils/didManagement';
+import { getHolderKeyPair } from '@/utils/presentation';
+import BackupWalletModal from '@/components/wallet/BackupWalletModal';
+import RestorePhraseModal from '@/components/wallet/RestorePhraseModal';
+import { getWalletMnemonic, isWalletMnemonicConfirmed } from '@/utils/mnemonic';
+
+// Icons
+import {
+  LifebuoyIcon,
+  ClockIcon,
+  FingerPrintIcon,
+  ArrowUpTrayIcon,
+  KeyIcon,
+  CheckCircleIcon,
+  ArrowRightIcon
+} from '@heroicons/react/24/outline';
+
+type RecoveryStep = 'identify' | 'verify' | 'waiting' | 'restore';
+
+interface ChannelVerification {
+  identifier: string;
+  otpId?: string;
+  code: string;
+}
+
+const CHANNEL_LABELS: Record<OtpDeliveryMethod, string> = {
+  [OtpDeliveryMethod.EMAIL]: 'Email',
+  [OtpDeliveryMethod.SMS]: 'Phone'
+};
+
+/**
+ * RecoverAccountPage Component
+ *
+ * Account recovery for users who lost their passkeys and browser wallet:
+ * - Verify every email and phone on file with recovery codes
+ * - Wait out the cool-down period (the account owner is notified and can cancel)
+ * - Sign in, enroll a new passkey, restore the wallet from a backup or re-bind the DID
+ */
+const RecoverAccountPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, completeRecovery, refreshUser } = useAuth();
+  const { isSupported: isWebAuthnSupported, registerWebAuthn } = useWebAuthn();
+
+  const [step, setStep] = useState<RecoveryStep>('identify');
+  const [identifier, setIdentifier] = useState('');
+  const [requiredMethods, setRequiredMethods] = useState<OtpDeliveryMethod[]>([]);
+  const [verifications, setVerifications] = useState<Partial<Record<OtpDeliveryMethod, ChannelVerification>>>({});
+  const [recoveryToken, setRecoveryToken] = useState<string | null>(localStorage.getItem(StorageKeys.RECOVERY_TOKEN));
+  const [availableAt, setAvailableAt] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restore step progress
+  const [passkeyAdded, setPasskeyAdded] = useState(false);
+  const [walletRestored, setWalletRestored] = useState(false);
+  const [showRestoreModal, setShowRestoreModal] = useState(false);
+  const [showPhraseModal, setShowPhraseModal] = useState(false);
+  const [hasDidKey, setHasDidKey] = useState(false);
+
+  const methodOf = (value: string) => (value.includes('@') ? OtpDeliveryMethod.EMAIL : OtpDeliveryMethod.SMS);
+
+  // Look up a recovery started earlier in this browser
+  const checkStatus = useCallback(async (token: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const status = await authApi.getRecoveryStatus(token);
+
+      if (status.status !== 'pending') {
+        localStorage.removeItem(StorageKeys.RECOVERY_TOKEN);
+        setRecoveryToken(null);
+        setStep('identify');
+        setError(status.status === 'cancelled'
+          ? 'This recovery was cancelled from a signed-in device.'
+          : 'This recovery has already been completed.');
+        return;
+      }
+
+      setAvailableAt(status.availableAt);
+      setIsReady(status.ready);
+      setStep('waiting');
+    } catch (err: any) {
+      localStorage.removeItem(StorageKeys.RECOVERY_TOKEN);
+      setRecoveryToken(null);
+      setStep('identify');
+      setError(err.message || 'Failed to load the recovery. Please start again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Resume a recovery saved before the page was opened; checkStatus never changes, so this runs once
+  useEffect(() => {
+    const savedToken = localStorage.getItem(StorageKeys.RECOVERY_TOKEN);
+    if (savedToken) {
+      checkStatus(savedToken);
+    }
+  }, [checkStatus]);
+
+  // Check whether the signing key of the current DID is on this device
+  const checkDidKey = useCallback(async (did?: string) => {
+    if (!did) {
+      setHasDidKey(false);
+      return;
+    }
+
+    try {
+      await getHolderKeyPair(did);
+      setHasDidKey(true);
+    } catch (err) {
+      setHasDidKey(false);
+    }
+  }, []);
+
+  // Send a recovery code to one channel
+  const requestCode = async (value: string) => {
+    const method = methodOf(value);
+    const response = await authApi.requestOtp({
+      email: method === OtpDeliveryMethod.EMAIL ? value : undefined,
+      phone: method === OtpDeliveryMethod.SMS ? value : undefined,
+      purpose: 'recovery'
+    });
+
+    setVerifications(prev => ({ ...prev, [method]: { identifier: value, otpId: response.otpId, code: '' } }));
+    return response;
+  };
+
+  const handleIdentify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!identifier.trim()) {
+      setError('Please enter your email or phone number');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await requestCode(identifier.trim());
+      setRequiredMethods(response.requiredMethods || [response.method]);
+      setStep('verify');
+    } catch (err: any) {
+      setError(err.message || 'Failed to send recovery code. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSendSecondCode = async (method: OtpDeliveryMethod) => {
+    const value = verifications[method]?.identifier.trim();
+    setError(null);
+
+    if (!value || methodOf(value) !== method) {
+      setError(`Please enter the ${method === OtpDeliveryMethod.EMAIL ? 'email address' : 'phone number'} on your account`);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await requestCode(value);
+    } catch (err: any) {
+      setError(err.message || 'Failed to send recovery code. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateVerification = (method: OtpDeliveryMethod, updates: Partial<ChannelVerification>) => {
+    setVerifications(prev => ({
+      ...prev,
+      [method]: { identifier: '', code: '', ...prev[method], ...updates }
+    }));
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const entries = requiredMethods.map(method => verifications[method]);
+    if (entries.some(entry => !entry?.otpId || !entry.code.trim())) {
+      setError('Enter a recovery code for every channel');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await authApi.startRecovery({
+        verifications: entries.map(entry => ({ otpId: entry!.otpId!, code: entry!.code.trim() }))
+      });
+
+      localStorage.setItem(StorageKeys.RECOVERY_TOKEN, response.recoveryToken);
+      setRecoveryToken(response.recoveryToken);
+      await checkStatus(response.recoveryToken);
+    } catch (err: any) {
+      // Codes are single-use, so new ones are needed after a failed attempt
+      setVerifications({});
+      setStep('identify');
+      setError(err.message || 'Verification failed. Please request new codes.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!recoveryToken) return;
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const result = await completeRecovery(recoveryToken);
+
+      if (!result.success) {
+        await checkStatus(recoveryToken);
+        return;
+      }
+
+      localStorage.removeItem(StorageKeys.RECOVERY_TOKEN);
+      setRecoveryToken(null);
+      setStep('restore');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (step === 'restore') {
+      checkDidKey(user?.did);
+    }
+  }, [step, user?.did, checkDidKey]);
+
+  const handleAddPasskey = async () => {
+    if (!user) return;
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const success = await registerWebAuthn(user.id, user.name);
+      if (success) {
+        setPasskeyAdded(true);
+      } else {
+        setError('Failed to add a passkey. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestored = async () => {
+    setWalletRestored(true);
+    await checkDidKey(user?.did);
+  };
+
+  const handleRebindDid = async () => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      await rebindDidAfterRecovery();
+      const updatedUser = await refreshUser();
+      await checkDidKey(updatedUser?.did);
+      
+      // The new DID key comes from a new recovery phrase, which the user should write down
+      if ((await getWalletMnemonic()) && !(await isWalletMnemonicConfirmed())) {
+        navigate('/recovery-phrase', { state: { next: '/wallet' } });
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create a new DID');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="text-center">
+        <LifebuoyIcon className="mx-auto h-10 w-10 text-hedera-600 dark:text-hedera-400" />
+        <h1 className="mt-2 text-2xl font-bold text-neutral-900 dark:text-white">Recover Account</h1>
+        <p className="mt-2 text-neutral-600 dark:text-neutral-400">
+          Lost your passkeys and wallet? Regain access with your email and phone.
+        </p>
+      </div>
+
+      {error && (
+        <p className="form-error text-center" role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* Step 1: identify the account */}
+      {step === 'identify' && (
+        <form onSubmit={handleIdentify} className="space-y-4">
+          <div>
+            <label htmlFor="identifier" className="form-label">
+              Email or Phone Number
+            </label>
+            <input
+              id="identifier"
+              type="text"
+              className="form-input mt-1"
+              placeholder="you@example.com or +12125551234"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+          <button type="submit" className="btn-primary w-full" disabled={isLoading}>
+            {isLoading ? 'Sending code...' : 'Send recovery code'}
+          </button>
+        </form>
+      )}
+
+      {/* Step 2: verify every channel on file */}
+      {step === 'verify' && (
+        <form onSubmit={handleVerify} className="space-y-4">
+          {requiredMethods.length > 1 && (
+            <p className="text-sm text-neutral-600 dark:text-neutral-400">
+              Your account has both an email address and a phone number. Both must be verified.
+            </p>
+          )}
+
+          {requiredMethods.map(method => {
+            const verification = verifications[method];
+
+            return (
+              <div key={method} className="space-y-2">
+                <label className="form-label">{CHANNEL_LABELS[method]}</label>
+                {verification?.otpId ? (
+                  <>
+                    <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                      Code sent to {verification.identifier}
+                    </p>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      className="form-input"
+                      placeholder="Recovery code"
+                      value={verification.code}
+                      onChange={(e) => updateVerification(method, { code: e.target.value })}
+                      disabled={isLoading}
+                    />
+                  </>
+                ) : (
+                  <div className="flex space-x-2">
+                    <input
+                      type={method === OtpDeliveryMethod.EMAIL ? 'email' : 'tel'}
+                      className="form-input flex-1"
+                      placeholder={method === OtpDeliveryMethod.EMAIL ? 'you@example.com' : '+12125551234'}
+                      value={verification?.identifier || ''}
+                      onChange={(e) => updateVerification(method, { identifier: e.target.value })}
+                      disabled={isLoading}
+                    />
+                    <button
+                      type="button"
+                      className="btn-outline btn-sm"
+                      onClick={() => handleSendSecondCode(method)}
+                      disabled={isLoading}
+                    >
+                      Send code
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <button type="submit" className="btn-primary w-full" disabled={isLoading}>
+            {isLoading ? 'Verifying...' : 'Start recovery'}
+          </button>
+        </form>
+      )}
+
+      {/* Step 3: cool-down period */}
+      {step === 'waiting' && availableAt && (
+        <div className="space-y-4 text-center">
+          <ClockIcon className="mx-auto h-8 w-8 text-warning-500" />
+          {isReady ? (
+            <p className="text-neutral-700 dark:text-neutral-300">
+              The waiting period is over. Completing the recovery signs out all other devices and removes your old passkeys.
+            </p>
+          ) : (
+            <p className="text-neutral-700 dark:text-neutral-300">
+              For your security, recovery can be completed after <strong>{formatDateTime(availableAt)}</strong>.
+              We notified your email and phone so the recovery can be cancelled if it wasn't you.
+            </p>
+          )}
+          {isReady ? (
+            <button type="button" className="btn-primary w-full" onClick={handleComplete} disabled={isLoading}>
+              {isLoading ? 'Recovering...' : 'Complete recovery'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="btn-outline w-full"
+              onClick={() => recoveryToken && checkStatus(recoveryToken)}
+              disabled={isLoading}
+            >
+              Check again
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Step 4: set up this device */}
+      {step === 'restore' && (
+        <div className="space-y-4">
+          <p className="text-neutral-700 dark:text-neutral-300">
+            Your account is recovered. Set up this device:
+          </p>
+
+          {isWebAuthnSupported && (
+            <button
+              type="button"
+              className="btn-outline w-full flex items-center justify-center"
+              onClick={handleAddPasskey}
+              disabled={isLoading || passkeyAdded}
+            >
+              {passkeyAdded ? <CheckCircleIcon className="h-5 w-5 mr-2 text-success-500" /> : <FingerPrintIcon className="h-5 w-5 mr-2" />}
+              {passkeyAdded ? 'Passkey added' : 'Add a passkey'}
+            </button>
+          )}
+
+          <button
+            type="button"
+            className="btn-outline w-full flex items-center justify-center"
+            onClick={() => setShowRestoreModal(true)}
+            disabled={isLoading || walletRestored}
+          >
+            {walletRestored ? <CheckCircleIcon className="h-5 w-5 mr-2 text-success-500" /> : <ArrowUpTrayIcon className="h-5 w-5 mr-2" />}
+            {walletRestored ? 'Wallet restored' : 'Restore wallet from backup'}
+          </button>
+
+          {hasDidKey ? (
+            <p className="flex items-center justify-center text-sm text-success-600 dark:text-success-400">
+              <CheckCircleIcon className="h-4 w-4 mr-1" />
+              Your DID key is on this device
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <button
+                type="button"
+                className="btn-outline w-full flex items-center justify-center"
+                onClick={() => setShowPhraseModal(true)}
+                disabled={isLoading}
+              >
+                <KeyIcon className="h-5 w-5 mr-2" />
+                Restore keys from recovery phrase
+              </button>
+              <button
+                type="button"
+                className="btn-outline w-full flex items-center justify-center"
+                onClick={handleRebindDid}
+                disabled={isLoading}
+              >
+                <KeyIcon className="h-5 w-5 mr-2" />
+                Create a new DID
+              </button>
+              <p className="form-hint text-center">
+                Without a backup or recovery phrase, your account gets a new DID. Credentials issued to the old DID can no longer be presented.
+              </p>
+            </div>
+          )}
+
+          <button type="button" className="btn-primary w-full flex items-center justify-center" onClick={() => navigate('/wallet')}>
+            Continue to wallet
+            <ArrowRightIcon className="ml-2 h-4 w-4" />
+          </button>
+
+          <BackupWalletModal
+            isOpen={showRestoreModal}
+            onClose={() => setShowRestoreModal(false)}
+            initialMode="restore"
+            onRestored={handleRestored}
+          />
+
+          <RestorePhraseModal
+            isOpen={showPhraseModal}
+            onClose={() => setShowPhraseModal(false)}
+            did={user?.did}
+            onRestored={() => checkDidKey(user?.did)}
+          />
+        </div>
+      )}
+
+      {step !== 'restore' && (
+        <div className="text-center mt-6">
+          <Link
+            to="/login"
+            className="text-sm font-medium text-hedera-600 hover:text-hedera-500 dark:text-hedera-400 dark:hover:text-hedera-300"
+          >
+            Back to sign in
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecoverAccountPage;
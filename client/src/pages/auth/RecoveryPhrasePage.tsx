@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { confirmWalletMnemonic, getWalletMnemonic, normalizeMnemonic } from '@/utils/mnemonic';
+
+// Icons
+import {
+  KeyIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+  ArrowRightIcon
+} from '@heroicons/react/24/outline';
+
+type PhraseStep = 'show' | 'confirm';
+
+// Number of words the user re-enters to confirm the phrase
+const CONFIRM_WORD_COUNT = 3;
+
+/**
+ * Pick distinct word positions to ask for, in ascending order
+ * @param wordCount - Number of words in the phrase
+ */
+function pickConfirmPositions(wordCount: number): number[] {
+  const positions = new Set<number>();
+  const random = new Uint32Array(1);
+  while (positions.size < Math.min(CONFIRM_WORD_COUNT, wordCount)) {
+    crypto.getRandomValues(random);
+    positions.add(random[0] % wordCount);
+  }
+  return Array.from(positions).sort((a, b) => a - b);
+}
+
+/**
+ * RecoveryPhrasePage Component
+ *
+ * Shows the wallet's recovery phrase during onboarding (or later from the profile):
+ * - The words are hidden until the user chooses to reveal them
+ * - The user confirms a few random words before continuing
+ * - The phrase re-derives the wallet's DID keys on a new device
+ */
+const RecoveryPhrasePage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const next = (location.state as { next?: string } | null)?.next || '/wallet';
+
+  const [words, setWords] = useState<string[]>([]);
+  const [step, setStep] = useState<PhraseStep>('show');
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [positions, setPositions] = useState<number[]>([]);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the phrase; wallets without one have nothing to confirm
+  useEffect(() => {
+    const loadPhrase = async () => {
+      try {
+        const mnemonic = await getWalletMnemonic();
+        if (!mnemonic) {
+          navigate(next, { replace: true });
+          return;
+        }
+        setWords(normalizeMnemonic(mnemonic).split(' '));
+      } catch (err) {
+        console.error('Error loading recovery phrase:', err);
+        setError('Failed to load your recovery phrase');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPhrase();
+  }, [navigate, next]);
+
+  const handleStartConfirm = () => {
+    setPositions(pickConfirmPositions(words.length));
+    setAnswers({});
+    setError(null);
+    setIsRevealed(false);
+    setStep('confirm');
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (positions.some(position => (answers[position] || '').trim().toLowerCase() !== words[position])) {
+      setError('Some words do not match. Check your written copy, or go back to view the phrase again.');
+      return;
+    }
+
+    try {
+      await confirmWalletMnemonic();
+      navigate(next, { replace: true });
+    } catch (err) {
+      console.error('Error confirming recovery phrase:', err);
+      setError('Failed to save the confirmation. Please try again.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-hedera-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="text-center">
+        <div className="mx-auto w-16 h-16 bg-hedera-50 dark:bg-hedera-900 rounded-full flex items-center justify-center mb-4">
+          <KeyIcon className="h-10 w-10 text-hedera-600 dark:text-hedera-400" />
+        </div>
+        <h1 className="text-2xl font-bold text-neutral-900 dark:text-white">
+          {step === 'show' ? 'Your Recovery Phrase' : 'Confirm Your Recovery Phrase'}
+        </h1>
+        <p className="mt-2 text-neutral-600 dark:text-neutral-400">
+          {step === 'show'
+            ? 'These words restore your DID keys on a new device. Write them down in order.'
+            : 'Enter the requested words from your written copy.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-error-50 border border-error-200 rounded-lg p-4 text-error-800 dark:bg-error-900/30 dark:border-error-700 dark:text-error-300">
+          <div className="flex">
+            <XCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            <p>{error}</p>
+          </div>
+        </div>
+      )}
+
+      {step === 'show' && words.length > 0 && (
+        <>
+          <div className="bg-warning-50 border border-warning-200 rounded-lg p-4 text-warning-800 dark:bg-warning-900/30 dark:border-warning-700 dark:text-warning-300">
+            <div className="flex">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              <p className="text-sm">
+                Anyone with these words can take over your DID. Never share them or store them in
+                screenshots, email or cloud notes.
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-neutral-800 rounded-xl shadow-card p-6">
+            <ol className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {words.map((word, index) => (
+                <li
+                  key={index}
+                  className="flex items-center px-3 py-2 rounded-lg bg-neutral-100 dark:bg-neutral-700 font-mono text-sm text-neutral-900 dark:text-white"
+                >
+                  <span className="w-6 text-neutral-500 dark:text-neutral-400">{index + 1}.</span>
+                  {isRevealed ? word : '•••••'}
+                </li>
+              ))}
+            </ol>
+            <button
+              type="button"
+              className="btn-outline btn-sm mt-4 flex items-center"
+              onClick={() => setIsRevealed(!isRevealed)}
+            >
+              {isRevealed ? <EyeSlashIcon className="h-4 w-4 mr-1" /> : <EyeIcon className="h-4 w-4 mr-1" />}
+              {isRevealed ? 'Hide words' : 'Reveal words'}
+            </button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
+            <button type="button" className="btn-primary flex-1" onClick={handleStartConfirm}>
+              <span className="flex items-center justify-center">
+                I've written it down
+                <ArrowRightIcon className="ml-2 h-4 w-4" />
+              </span>
+            </button>
+            <button type="button" className="btn-outline flex-1" onClick={() => navigate(next, { replace: true })}>
+              Remind me later
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'confirm' && (
+        <form className="space-y-6" onSubmit={handleConfirm}>
+          <div className="bg-white dark:bg-neutral-800 rounded-xl shadow-card p-6 space-y-4">
+            {positions.map(position => (
+              <div key={position}>
+                <label htmlFor={`word-${position}`} className="form-label">Word #{position + 1}</label>
+                <input
+                  id={`word-${position}`}
+                  type="text"
+                  autoComplete="off"
+                  autoCapitalize="none"
+                  spellCheck={false}
+                  className="form-input font-mono"
+                  value={answers[position] || ''}
+                  onChange={e => setAnswers({ ...answers, [position]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
+            <button
+              type="submit"
+              className="btn-primary flex-1"
+              disabled={positions.some(position => !(answers[position] || '').trim())}
+            >
+              Confirm
+            </button>
+            <button
+              type="button"
+              className="btn-outline flex-1"
+              onClick={() => {
+                setError(null);
+                setStep('show');
+              }}
+            >
+              Back to phrase
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default RecoveryPhrasePage;
@@ -140,9 +140,12 @@ const VerifyOtpPage: React.FC = () => {
       );
 
       if (result.success) {
-        if (result.supportsWebAuthn && result.isNewUser) {
-          // New user with WebAuthn support - offer biometric setup
-          navigate('/biometric-setup', { replace: true });
+        if (result.isNewUser) {
+          // New user - confirm the recovery phrase, then offer biometric setup if supported
+          navigate('/recovery-phrase', {
+            replace: true,
+            state: { next: result.supportsWebAuthn ? '/biometric-setup' : '/wallet' },
+          });
         } else {
           // Existing user or no WebAuthn support - go to wallet
           navigate('/wallet', { replace: true });
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { credentialStorage } from '@/utils/db';
-import { StoredCredential } from '@/types';
+import { getMdocImageUrl, MDL_DOCTYPE, MDL_IMAGE_ELEMENTS, MDL_NAMESPACE } from '@/utils/mdoc';
+import { refreshCredentialStatus, verifyCredential } from '@/utils/verification';
+import SharePresentationModal from '@/components/credentials/SharePresentationModal';
+import { StoredCredential, VerificationCheck, VerificationResult } from '@/types';
 
 // Icons
 import {
@@ -14,7 +17,6 @@ import {
   CalendarIcon,
   DocumentDuplicateIcon,
   TrashIcon,
-  QrCodeIcon,
   ShareIcon,
   CheckCircleIcon,
   ExclamationCircleIcon,
@@ -26,6 +28,7 @@ import {
  * 
  * Displays detailed information about a specific credential:
  * - Credential metadata and content
+ * - A licence card for mobile driving licences (mDL)
  * - Issuer information
  * - Verification status
  * - Actions (share, delete)
@@ -42,10 +45,8 @@ const CredentialDetailPage: React.FC = () => {
   const [showJsonModal, setShowJsonModal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
-  const [verificationResult, setVerificationResult] = useState<{
-    status: 'success' | 'error' | 'warning' | null;
-    message: string;
-  }>({ status: null, message: '' });
+  const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
+  const [verificationError, setVerificationError] = useState<string | null>(null);
   
   // Fetch credential from storage
   useEffect(() => {
@@ -81,34 +82,20 @@ const CredentialDetailPage: React.FC = () => {
     if (!credential) return;
     
     setIsVerifying(true);
-    setVerificationResult({ status: null, message: '' });
+    setVerificationResult(null);
+    setVerificationError(null);
     
     try {
-      // In a real app, this would call a verification service
-      // For the MVP, we'll simulate verification based on credential status
-      await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate API call
-      
-      if (credential.status === 'revoked') {
-        setVerificationResult({
-          status: 'error',
-          message: 'This credential has been revoked by the issuer.'
-        });
-      } else if (credential.status === 'expired') {
-        setVerificationResult({
-          status: 'warning',
-          message: 'This credential has expired and is no longer valid.'
-        });
-      } else {
-        setVerificationResult({
-          status: 'success',
-          message: 'Credential successfully verified with the issuer.'
-        });
-      }
+      const result = await verifyCredential(credential);
+      setVerificationResult(result);
+
+      // Keep the stored status in line with the issuer's status list
+      const status = await refreshCredentialStatus(credential).catch(() => credential.status);
+
+      // Show the claims as rebuilt from the signed credential rather than the stored copy
+      setCredential({ ...credential, ...result.credential, status });
     } catch (err: any) {
-      setVerificationResult({
-        status: 'error',
-        message: err.message || 'Verification failed. Please try again.'
-      });
+      setVerificationError(err.message || 'Verification failed. Please try again.');
     } finally {
       setIsVerifying(false);
     }
@@ -143,6 +130,11 @@ const CredentialDetailPage: React.FC = () => {
   const getCredentialTypeName = () => {
     if (!credential?.type || !Array.isArray(credential.type)) return 'Unknown Type';
     
+    // mdoc document types are reverse domain names rather than class names
+    if (credential.mdoc) {
+      return credential.mdoc.docType === MDL_DOCTYPE ? 'Mobile Driving Licence' : credential.mdoc.docType;
+    }
+    
     // Get the most specific type (last in array)
     const specificType = credential.type[credential.type.length - 1];
     if (!specificType) return 'Unknown Type';
@@ -197,6 +189,13 @@ const CredentialDetailPage: React.FC = () => {
             Revoked
           </span>
         );
+      case 'suspended':
+        return (
+          <span className="status-badge bg-error-100 text-error-800 dark:bg-error-900/30 dark:text-error-300 flex items-center">
+            <XCircleIcon className="h-4 w-4 mr-1" />
+            Suspended
+          </span>
+        );
       default:
         return (
           <span className="status-badge bg-success-100 text-success-800 dark:bg-success-900/30 dark:text-success-300 flex items-center">
@@ -207,38 +206,224 @@ const CredentialDetailPage: React.FC = () => {
     }
   };
   
-  // Get verification result badge
-  const getVerificationBadge = () => {
-    switch (verificationResult.status) {
+  // Get icon for a single verification check
+  const getCheckIcon = (check: VerificationCheck) => {
+    switch (check.status) {
       case 'success':
-        return (
-          <div className="flex items-center text-success-600 dark:text-success-400">
-            <CheckCircleIcon className="h-5 w-5 mr-2" />
-            <span>{verificationResult.message}</span>
-          </div>
-        );
+        return <CheckCircleIcon className="h-5 w-5 mr-2 flex-shrink-0 text-success-600 dark:text-success-400" />;
       case 'error':
-        return (
-          <div className="flex items-center text-error-600 dark:text-error-400">
-            <XCircleIcon className="h-5 w-5 mr-2" />
-            <span>{verificationResult.message}</span>
-          </div>
-        );
+        return <XCircleIcon className="h-5 w-5 mr-2 flex-shrink-0 text-error-600 dark:text-error-400" />;
       case 'warning':
-        return (
-          <div className="flex items-center text-warning-600 dark:text-warning-400">
-            <ExclamationCircleIcon className="h-5 w-5 mr-2" />
-            <span>{verificationResult.message}</span>
-          </div>
-        );
+        return <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0 text-warning-600 dark:text-warning-400" />;
       default:
-        return null;
+        return <InformationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0 text-neutral-400" />;
     }
   };
   
+  // Render verification result check-by-check
+  const renderVerificationResult = () => {
+    if (verificationError) {
+      return (
+        <div className="flex items-center text-error-600 dark:text-error-400">
+          <XCircleIcon className="h-5 w-5 mr-2" />
+          <span>{verificationError}</span>
+        </div>
+      );
+    }
+    
+    if (!verificationResult) return null;
+    
+    const checks: { label: string; check: VerificationCheck }[] = [
+      { label: 'Signature', check: verificationResult.checks.signature },
+      { label: 'Validity period', check: verificationResult.checks.expiry },
+      { label: 'Revocation', check: verificationResult.checks.revocation },
+      { label: 'Issuer trust', check: verificationResult.checks.issuerTrust },
+    ];
+    
+    return (
+      <div className="space-y-3">
+        <div className={`flex items-center font-medium ${
+          verificationResult.verified
+            ? 'text-success-600 dark:text-success-400'
+            : 'text-error-600 dark:text-error-400'
+        }`}>
+          {verificationResult.verified ? (
+            <CheckBadgeIcon className="h-5 w-5 mr-2" />
+          ) : (
+            <XCircleIcon className="h-5 w-5 mr-2" />
+          )}
+          <span>
+            {verificationResult.verified ? 'Credential verified' : 'Credential could not be verified'}
+          </span>
+        </div>
+        
+        <ul className="space-y-2">
+          {checks.map(({ label, check }) => (
+            <li key={label} className="flex items-start text-sm">
+              {getCheckIcon(check)}
+              <div>
+                <span className="font-medium text-neutral-900 dark:text-white">{label}: </span>
+                <span className="text-neutral-600 dark:text-neutral-400">{check.message}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+  
+  // Describe how a claim of an SD-JWT credential can be shared
+  const getDisclosureLabel = (key: string) => {
+    const disclosures = credential?.sdJwt?.disclosures;
+    if (!disclosures) return null;
+    
+    if (disclosures.some(d => d.path.length === 1 && d.path[0] === key)) return 'Selectively disclosed';
+    if (disclosures.some(d => d.path[0] === key)) return 'Partly selectively disclosed';
+    return 'Always disclosed';
+  };
+  
+  // Render one claim (or mdoc data element) with its formatted value
+  const renderClaim = (key: string, value: any) => {
+    // Format key for display
+    const formattedKey = key
+      .replace(/([A-Z])/g, ' $1') // Add space before capital letters
+      .replace(/_/g, ' ') // mdoc element identifiers use snake_case
+      .replace(/^./, str => str.toUpperCase()); // Capitalize first letter
+    
+    // Format value based on type
+    let formattedValue = '';
+    if (typeof value === 'string') {
+      formattedValue = value;
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      formattedValue = String(value);
+    } else if (value instanceof Date) {
+      formattedValue = formatDate(value.toISOString());
+    } else if (value === null) {
+      formattedValue = 'N/A';
+    } else if (typeof value === 'object') {
+      formattedValue = JSON.stringify(value);
+    }
+    
+    return (
+      <div key={key} className="flex flex-col sm:flex-row sm:items-center">
+        <div className="text-sm font-medium text-neutral-500 dark:text-neutral-400 w-full sm:w-1/3 mb-1 sm:mb-0">
+          {formattedKey}
+          {credential?.sdJwt && (
+            <span className="block text-xs font-normal text-neutral-400 dark:text-neutral-500">
+              {getDisclosureLabel(key)}
+            </span>
+          )}
+        </div>
+        <div className="text-neutral-900 dark:text-white w-full sm:w-2/3 break-words">
+          {formattedValue}
+        </div>
+      </div>
+    );
+  };
+  
+  // Render the data elements of an mdoc, grouped by namespace
+  const renderMdocElements = () => {
+    if (!credential?.mdoc) return null;
+    
+    return (
+      <div className="space-y-6">
+        {Object.entries(credential.mdoc.claims).map(([namespace, elements]) => (
+          <div key={namespace}>
+            <h4 className="text-sm font-mono text-neutral-500 dark:text-neutral-400 mb-3">
+              {namespace}
+            </h4>
+            <div className="space-y-4">
+              {Object.entries(elements).map(([element, value]) =>
+                namespace === MDL_NAMESPACE && MDL_IMAGE_ELEMENTS.includes(element)
+                  ? renderClaim(element, 'Image')
+                  : renderClaim(element, value)
+              )}
+            </div>
+          </div>
+        ))}
+        
+        <p className="text-sm text-neutral-600 dark:text-neutral-400 pt-2 border-t border-neutral-200 dark:border-neutral-700">
+          This is an ISO mdoc. Verifiers request it over OpenID4VP; only the data elements they ask for are shared, signed with this device's key.
+        </p>
+      </div>
+    );
+  };
+  
+  // Render the licence card of a mobile driving licence
+  const renderMdlCard = () => {
+    const mdl = credential?.mdoc?.claims[MDL_NAMESPACE];
+    if (!mdl) return null;
+    
+    const fields: { label: string; value?: any }[] = [
+      { label: 'Date of birth', value: mdl.birth_date },
+      { label: 'Licence number', value: mdl.document_number },
+      { label: 'Issue date', value: mdl.issue_date },
+      { label: 'Expiry date', value: mdl.expiry_date },
+      { label: 'Issuing country', value: mdl.issuing_country },
+      { label: 'Issuing authority', value: mdl.issuing_authority },
+    ];
+    const privileges: any[] = Array.isArray(mdl.driving_privileges) ? mdl.driving_privileges : [];
+    
+    return (
+      <div className="wallet-card-highlight">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white">
+            Mobile Driving Licence
+          </h3>
+          {mdl.un_distinguishing_sign && (
+            <span className="font-mono text-sm font-semibold text-hedera-700 dark:text-hedera-300">
+              {mdl.un_distinguishing_sign}
+            </span>
+          )}
+        </div>
+        
+        <div className="flex flex-col sm:flex-row">
+          {typeof mdl.portrait === 'string' && (
+            <img
+              src={getMdocImageUrl(mdl.portrait)}
+              alt="Portrait"
+              className="h-40 w-32 object-cover rounded-lg border border-neutral-200 dark:border-neutral-700 mr-6 mb-4 sm:mb-0"
+            />
+          )}
+          <div className="flex-1">
+            <p className="text-xl font-semibold text-neutral-900 dark:text-white">
+              {[mdl.given_name, mdl.family_name].filter(Boolean).join(' ')}
+            </p>
+            <dl className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+              {fields.filter(field => field.value !== undefined).map(({ label, value }) => (
+                <div key={label}>
+                  <dt className="text-xs text-neutral-500 dark:text-neutral-400">{label}</dt>
+                  <dd className="text-sm text-neutral-900 dark:text-white">{String(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </div>
+        
+        {privileges.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-neutral-200 dark:border-neutral-700">
+            <p className="text-xs text-neutral-500 dark:text-neutral-400 mb-2">Driving privileges</p>
+            <div className="flex flex-wrap gap-2">
+              {privileges.map((privilege, index) => (
+                <span
+                  key={index}
+                  className="status-badge bg-neutral-100 text-neutral-800 dark:bg-neutral-700 dark:text-neutral-200"
+                >
+                  {privilege.vehicle_category_code}
+                  {privilege.expiry_date && ` · until ${privilege.expiry_date}`}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+  
   // Render credential subject
   const renderCredentialSubject = () => {
     if (!credential?.credentialSubject) return null;
+    if (credential.mdoc) return renderMdocElements();
     
     const subject = credential.credentialSubject;
     
@@ -248,36 +433,22 @@ const CredentialDetailPage: React.FC = () => {
           // Skip id field as it's usually the holder's DID
           if (key === 'id') return null;
           
-          // Format key for display
-          const formattedKey = key
-            .replace(/([A-Z])/g, ' $1') // Add space before capital letters
-            .replace(/^./, str => str.toUpperCase()); // Capitalize first letter
-          
-          // Format value based on type
-          let formattedValue = '';
-          if (typeof value === 'string') {
-            formattedValue = value;
-          } else if (typeof value === 'number' || typeof value === 'boolean') {
-            formattedValue = String(value);
-          } else if (value instanceof Date) {
-            formattedValue = formatDate(value.toISOString());
-          } else if (value === null) {
-            formattedValue = 'N/A';
-          } else if (typeof value === 'object') {
-            formattedValue = JSON.stringify(value);
-          }
-          
-          return (
-            <div key={key} className="flex flex-col sm:flex-row sm:items-center">
-              <div className="text-sm font-medium text-neutral-500 dark:text-neutral-400 w-full sm:w-1/3 mb-1 sm:mb-0">
-                {formattedKey}
-              </div>
-              <div className="text-neutral-900 dark:text-white w-full sm:w-2/3 break-words">
-                {formattedValue}
-              </div>
-            </div>
-          );
+          return renderClaim(key, value);
         })}
+        
+        {credential.sdJwt && (
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 pt-2 border-t border-neutral-200 dark:border-neutral-700">
+            This is an SD-JWT credential. When you share it, you choose which selectively disclosed claims the verifier sees.
+            {credential.sdJwt.undisclosedDigests > 0 &&
+              ` It also contains ${credential.sdJwt.undisclosedDigests} undisclosed claim${credential.sdJwt.undisclosedDigests === 1 ? '' : 's'} that the issuer did not reveal to this wallet (possibly decoys).`}
+          </p>
+        )}
+        
+        {credential.jwt && (
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 pt-2 border-t border-neutral-200 dark:border-neutral-700">
+            This credential was issued as a JWT. The wallet keeps the signed original and shares it unchanged, inside a JWT presentation.
+          </p>
+        )}
       </div>
     );
   };
@@ -406,13 +577,15 @@ const CredentialDetailPage: React.FC = () => {
             )}
           </button>
           
-          <button
-            className="btn-outline btn-sm flex items-center"
-            onClick={() => setShowShareModal(true)}
-          >
-            <ShareIcon className="h-4 w-4 mr-1" />
-            Share
-          </button>
+          {!credential.mdoc && (
+            <button
+              className="btn-outline btn-sm flex items-center"
+              onClick={() => setShowShareModal(true)}
+            >
+              <ShareIcon className="h-4 w-4 mr-1" />
+              Share
+            </button>
+          )}
           
           <button
             className="btn-outline btn-sm flex items-center"
@@ -432,13 +605,16 @@ const CredentialDetailPage: React.FC = () => {
         </div>
         
         {/* Verification result */}
-        {verificationResult.status && (
+        {(verificationResult || verificationError) && (
           <div className="mt-4 p-3 rounded-lg bg-neutral-100 dark:bg-neutral-700">
-            {getVerificationBadge()}
+            {renderVerificationResult()}
           </div>
         )}
       </div>
       
+      {/* mDL card */}
+      {renderMdlCard()}
+      
       {/* Credential details */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Credential information */}
@@ -651,7 +827,17 @@ const CredentialDetailPage: React.FC = () => {
                   </pre>
                 </div>
                 
-                <div className="mt-4 flex justify-end">
+                <div className="mt-4 flex justify-end space-x-2">
+                  {credential.jwt && (
+                    <button
+                      type="button"
+                      className="btn-outline"
+                      onClick={() => navigator.clipboard.writeText(credential.jwt!)}
+                    >
+                      <DocumentDuplicateIcon className="h-4 w-4 mr-1" />
+                      Copy JWT
+                    </button>
+                  )}
                   <button
                     type="button"
                     className="btn-outline"
@@ -671,79 +857,11 @@ const CredentialDetailPage: React.FC = () => {
       )}
       
       {/* Share Modal */}
-      {showShareModal && (
-        <div className="fixed inset-0 z-50 overflow-y-auto">
-          <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
-            {/* Background overlay */}
-            <div 
-              className="fixed inset-0 bg-neutral-900 bg-opacity-75 transition-opacity"
-              onClick={() => setShowShareModal(false)}
-              aria-hidden="true"
-            ></div>
-            
-            {/* Modal panel */}
-            <div className="inline-block align-bottom bg-white dark:bg-neutral-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
-              <div className="px-4 pt-5 pb-4 sm:p-6">
-                <div className="flex justify-between items-center mb-4">
-                  <h3 className="text-lg leading-6 font-medium text-neutral-900 dark:text-white">
-                    Share Credential
-                  </h3>
-                  <button
-                    type="button"
-                    className="bg-white dark:bg-neutral-800 rounded-md text-neutral-400 hover:text-neutral-500 dark:hover:text-neutral-300 focus:outline-none"
-                    onClick={() => setShowShareModal(false)}
-                  >
-                    <span className="sr-only">Close</span>
-                    <XCircleIcon className="h-6 w-6" />
-                  </button>
-                </div>
-                
-                <div className="text-center mb-4">
-                  <div className="bg-neutral-100 dark:bg-neutral-700 p-4 rounded-lg inline-block">
-                    <QrCodeIcon className="h-32 w-32 text-neutral-500 mx-auto" />
-                  </div>
-                  <p className="mt-2 text-neutral-600 dark:text-neutral-400 text-sm">
-                    QR code sharing will be available in a future update
-                  </p>
-                </div>
-                
-                <div className="space-y-4">
-                  <div className="bg-warning-50 dark:bg-warning-900/30 border border-warning-200 dark:border-warning-700 p-3 rounded-lg">
-                    <div className="flex">
-                      <InformationCircleIcon className="h-5 w-5 text-warning-600 dark:text-warning-400 flex-shrink-0 mr-2" />
-                      <p className="text-sm text-warning-800 dark:text-warning-300">
-                        Only share your credentials with trusted parties. Once shared, you cannot control how the information is used.
-                      </p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex justify-between">
-                    <button
-                      type="button"
-                      className="btn-outline"
-                      onClick={() => setShowShareModal(false)}
-                    >
-                      Cancel
-                    </button>
-                    <button
-                      type="button"
-                      className="btn-primary"
-                      onClick={() => {
-                        // This would typically trigger the actual sharing process
-                        alert('Sharing functionality will be implemented in a future version');
-                        setShowShareModal(false);
-                      }}
-                    >
-                      <ShareIcon className="h-4 w-4 mr-1" />
-                      Share
-                    </button>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
+      <SharePresentationModal
+        isOpen={showShareModal}
+        onClose={() => setShowShareModal(false)}
+        initialCredentialId={credential.localId}
+      />
     </div>
   );
 };
@@ -1,7 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { credentialStorage } from '@/utils/db';
+import { parseImportedCredentials } from '@/utils/credentialImport';
+import { CREDENTIAL_OFFER_SCHEME } from '@/utils/oid4vci';
+import { AUTHORIZATION_REQUEST_SCHEME } from '@/utils/oid4vp';
 import { StoredCredential } from '@/types';
+import ReceiveCredentialModal from '@/components/credentials/ReceiveCredentialModal';
+import PresentationRequestModal from '@/components/credentials/PresentationRequestModal';
 
 // Icons
 import {
@@ -15,6 +20,8 @@ import {
   ExclamationCircleIcon,
   DocumentArrowUpIcon,
   ChevronDownIcon,
+  QrCodeIcon,
+  ShareIcon,
 } from '@heroicons/react/24/outline';
 
 /**
@@ -24,10 +31,13 @@ import {
  * - List of all credentials
  * - Search and filter functionality
  * - Import new credentials
+ * - Receive credentials from issuers (OID4VCI offers, including deep links)
+ * - Present credentials to verifiers (OID4VP requests, including deep links)
  * - Credential status indicators
  */
 const CredentialsPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   
   // State
   const [credentials, setCredentials] = useState<StoredCredential[]>([]);
@@ -40,6 +50,24 @@ const CredentialsPage: React.FC = () => {
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [showImportModal, setShowImportModal] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
+  const [showReceiveModal, setShowReceiveModal] = useState(false);
+  const [showPresentModal, setShowPresentModal] = useState(false);
+  
+  // Credential offer passed in through a deep link:
+  // /wallet/credentials?offer=<openid-credential-offer URI> or ?credential_offer(_uri)=...
+  const deepLinkOffer = searchParams.get('offer') || (
+    searchParams.has('credential_offer') || searchParams.has('credential_offer_uri')
+      ? `${CREDENTIAL_OFFER_SCHEME}?${searchParams.toString()}`
+      : undefined
+  );
+  
+  // Presentation request passed in through a deep link:
+  // /wallet/credentials?request=<openid4vp URI> or ?client_id=...&request_uri=...
+  const deepLinkRequest = searchParams.get('request') || (
+    searchParams.has('client_id')
+      ? `${AUTHORIZATION_REQUEST_SCHEME}?${searchParams.toString()}`
+      : undefined
+  );
   
   // File input ref
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -123,6 +151,42 @@ const CredentialsPage: React.FC = () => {
     setFilteredCredentials(result);
   }, [credentials, searchQuery, statusFilter, typeFilter]);
   
+  // Open the receive flow for deep-linked offers
+  useEffect(() => {
+    if (deepLinkOffer) {
+      setShowReceiveModal(true);
+    }
+  }, [deepLinkOffer]);
+  
+  // Open the presentation flow for deep-linked requests
+  useEffect(() => {
+    if (deepLinkRequest) {
+      setShowPresentModal(true);
+    }
+  }, [deepLinkRequest]);
+  
+  // Refresh the list after credentials are received from an issuer
+  const handleCredentialsReceived = async () => {
+    const allCredentials = await credentialStorage.getAllCredentials();
+    setCredentials(allCredentials);
+  };
+  
+  // Close the receive modal and drop any deep-linked offer from the URL
+  const handleCloseReceiveModal = () => {
+    setShowReceiveModal(false);
+    if (deepLinkOffer) {
+      setSearchParams({}, { replace: true });
+    }
+  };
+  
+  // Close the presentation modal and drop any deep-linked request from the URL
+  const handleClosePresentModal = () => {
+    setShowPresentModal(false);
+    if (deepLinkRequest) {
+      setSearchParams({}, { replace: true });
+    }
+  };
+  
   // Handle credential import
   const handleImportCredential = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -133,26 +197,16 @@ const CredentialsPage: React.FC = () => {
     try {
       const file = files[0];
       const text = await file.text();
-      let credential;
       
-      try {
-        credential = JSON.parse(text);
-      } catch (e) {
-        throw new Error('Invalid JSON format. Please upload a valid credential file.');
-      }
-      
-      // Basic validation
-      if (!credential.type || !Array.isArray(credential.type)) {
-        throw new Error('Invalid credential: missing or invalid type property');
-      }
+      // JSON credentials, JWT-VCs, SD-JWT VCs and the credentials of a JWT-VP
+      const parsed = await parseImportedCredentials(text);
       
-      if (!credential.issuer) {
-        throw new Error('Invalid credential: missing issuer property');
+      // Import the credentials
+      const importedIds: string[] = [];
+      for (const credential of parsed) {
+        importedIds.push(await credentialStorage.storeCredential(credential));
       }
       
-      // Import the credential
-      const imported = await credentialStorage.addCredential(credential);
-      
       // Refresh the credentials list
       const allCredentials = await credentialStorage.getAllCredentials();
       setCredentials(allCredentials);
@@ -161,7 +215,9 @@ const CredentialsPage: React.FC = () => {
       setShowImportModal(false);
       
       // Navigate to the credential detail page
-      navigate(`/wallet/credentials/${imported.localId}`);
+      if (importedIds.length === 1) {
+        navigate(`/wallet/credentials/${importedIds[0]}`);
+      }
       
     } catch (err: any) {
       console.error('Error importing credential:', err);
@@ -220,6 +276,12 @@ const CredentialsPage: React.FC = () => {
             Revoked
           </span>
         );
+      case 'suspended':
+        return (
+          <span className="status-badge bg-error-100 text-error-800 dark:bg-error-900/30 dark:text-error-300">
+            Suspended
+          </span>
+        );
       default:
         return (
           <span className="status-badge bg-success-100 text-success-800 dark:bg-success-900/30 dark:text-success-300">
@@ -242,13 +304,29 @@ const CredentialsPage: React.FC = () => {
           </p>
         </div>
         
-        <button 
-          className="mt-4 sm:mt-0 btn-primary btn-sm flex items-center"
-          onClick={handleImportClick}
-        >
-          <PlusCircleIcon className="h-4 w-4 mr-1" />
-          Import Credential
-        </button>
+        <div className="mt-4 sm:mt-0 flex space-x-2">
+          <button 
+            className="btn-outline btn-sm flex items-center"
+            onClick={() => setShowReceiveModal(true)}
+          >
+            <QrCodeIcon className="h-4 w-4 mr-1" />
+            Receive from Issuer
+          </button>
+          <button 
+            className="btn-outline btn-sm flex items-center"
+            onClick={() => setShowPresentModal(true)}
+          >
+            <ShareIcon className="h-4 w-4 mr-1" />
+            Present to Verifier
+          </button>
+          <button 
+            className="btn-primary btn-sm flex items-center"
+            onClick={handleImportClick}
+          >
+            <PlusCircleIcon className="h-4 w-4 mr-1" />
+            Import Credential
+          </button>
+        </div>
       </div>
       
       {/* Search and Filters */}
@@ -304,6 +382,7 @@ const CredentialsPage: React.FC = () => {
                 <option value="active">Active</option>
                 <option value="expired">Expired</option>
                 <option value="revoked">Revoked</option>
+                <option value="suspended">Suspended</option>
               </select>
             </div>
             
@@ -478,7 +557,7 @@ const CredentialsPage: React.FC = () => {
                     </h3>
                     <div className="mt-2">
                       <p className="text-sm text-neutral-600 dark:text-neutral-400">
-                        Select a JSON file containing a verifiable credential to import it into your wallet.
+                        Select a file containing a verifiable credential (JSON, JWT, SD-JWT or base64url mdoc) or a JWT presentation to import it into your wallet.
                       </p>
                     </div>
                     
@@ -487,7 +566,7 @@ const CredentialsPage: React.FC = () => {
                         type="file"
                         ref={fileInputRef}
                         className="hidden"
-                        accept="application/json,.json"
+                        accept="application/json,.json,application/jwt,.jwt,.txt"
                         onChange={handleImportCredential}
                       />
                       <button
@@ -523,6 +602,21 @@ const CredentialsPage: React.FC = () => {
           </div>
         </div>
       )}
+      
+      {/* Receive Modal */}
+      <ReceiveCredentialModal
+        isOpen={showReceiveModal}
+        onClose={handleCloseReceiveModal}
+        initialOffer={deepLinkOffer}
+        onReceived={handleCredentialsReceived}
+      />
+      
+      {/* Presentation Request Modal */}
+      <PresentationRequestModal
+        isOpen={showPresentModal}
+        onClose={handleClosePresentModal}
+        initialRequest={deepLinkRequest}
+      />
     </div>
   );
 };
@@ -1,8 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useWebAuthn } from '@/hooks/useWebAuthn';
+import { userApi } from '@/services/api';
+import { AuthMethod, RecoveryRequestInfo, SessionInfo } from '@/types';
 import QRCode from 'qrcode.react';
+import DidDocumentPanel from '@/components/did/DidDocumentPanel';
+import BackupWalletModal from '@/components/wallet/BackupWalletModal';
+import RestorePhraseModal from '@/components/wallet/RestorePhraseModal';
+import IacaTrustListPanel from '@/components/wallet/IacaTrustListPanel';
+import WalletEncryptionPanel from '@/components/wallet/WalletEncryptionPanel';
+import { getWalletMnemonic, isWalletMnemonicConfirmed } from '@/utils/mnemonic';
 
 // Icons
 import {
@@ -18,20 +26,31 @@ import {
   CheckCircleIcon,
   ExclamationCircleIcon,
   XMarkIcon,
+  ComputerDesktopIcon,
 } from '@heroicons/react/24/outline';
 
+// Labels for the sign-in method of a session
+const AUTH_METHOD_LABELS: Record<AuthMethod, string> = {
+  [AuthMethod.EMAIL]: 'Email code',
+  [AuthMethod.PHONE]: 'SMS code',
+  [AuthMethod.WEBAUTHN]: 'Biometrics',
+};
+
 /**
  * ProfilePage Component
  * 
  * Features:
  * - Display user information
  * - Show DID with QR code for sharing
+ * - Rotate DID keys and manage the DID document
  * - Manage biometric authentication settings
+ * - List active sessions and sign out other devices
+ * - Cancel account recoveries the user did not start
  * - Basic account management
  */
 const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
-  const { user, logout, updateUserProfile } = useAuth();
+  const { user, logout, updateUserProfile, refreshUser } = useAuth();
   const { 
     isSupported: isWebAuthnSupported, 
     credentials: webAuthnCredentials, 
@@ -52,6 +71,13 @@ const ProfilePage: React.FC = () => {
   const [isAddingBiometric, setIsAddingBiometric] = useState(false);
   const [addBiometricError, setAddBiometricError] = useState<string | null>(null);
   const [showQrModal, setShowQrModal] = useState(false);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [isSessionsLoading, setIsSessionsLoading] = useState(true);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  const [recoveries, setRecoveries] = useState<RecoveryRequestInfo[]>([]);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [showRestorePhraseModal, setShowRestorePhraseModal] = useState(false);
+  const [phraseStatus, setPhraseStatus] = useState<'none' | 'unconfirmed' | 'confirmed'>('none');
   
   // Initialize form with user data
   useEffect(() => {
@@ -60,6 +86,64 @@ const ProfilePage: React.FC = () => {
     }
   }, [user]);
   
+  // Load active sessions
+  const loadSessions = useCallback(async () => {
+    setIsSessionsLoading(true);
+    try {
+      setSessions(await userApi.getSessions());
+      setSessionsError(null);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setSessionsError('Failed to load sessions');
+    } finally {
+      setIsSessionsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+  
+  // Check whether this wallet has a recovery phrase and whether it was confirmed
+  const loadPhraseStatus = useCallback(async () => {
+    try {
+      if (!(await getWalletMnemonic())) {
+        setPhraseStatus('none');
+      } else {
+        setPhraseStatus((await isWalletMnemonicConfirmed()) ? 'confirmed' : 'unconfirmed');
+      }
+    } catch (error) {
+      console.error('Failed to load recovery phrase status:', error);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadPhraseStatus();
+  }, [loadPhraseStatus]);
+  
+  // Load pending account recoveries
+  const loadRecoveries = useCallback(async () => {
+    try {
+      setRecoveries(await userApi.getRecoveryRequests());
+    } catch (error) {
+      console.error('Failed to load recovery requests:', error);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadRecoveries();
+  }, [loadRecoveries]);
+  
+  // Cancel an account recovery started by someone else
+  const handleCancelRecovery = async (id: string) => {
+    try {
+      await userApi.cancelRecoveryRequest(id);
+      await loadRecoveries();
+    } catch (error) {
+      console.error('Failed to cancel recovery:', error);
+    }
+  };
+  
   // Copy DID to clipboard
   const copyDid = () => {
     if (user?.did) {
@@ -115,6 +199,33 @@ const ProfilePage: React.FC = () => {
     }
   };
   
+  // Sign out a session; signing out this browser logs out
+  const handleRevokeSession = async (session: SessionInfo) => {
+    if (session.current) {
+      logout();
+      return;
+    }
+    
+    try {
+      await userApi.revokeSession(session.id);
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to sign out session:', error);
+      setSessionsError('Failed to sign out session');
+    }
+  };
+  
+  // Sign out every other session
+  const handleRevokeOtherSessions = async () => {
+    try {
+      await userApi.revokeOtherSessions();
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to sign out other sessions:', error);
+      setSessionsError('Failed to sign out other sessions');
+    }
+  };
+  
   // Handle account deletion
   const handleDeleteAccount = async () => {
     // In a real app, this would call an API to delete the account
@@ -128,6 +239,17 @@ const ProfilePage: React.FC = () => {
     }
   };
   
+  // Format date and time for display
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+  
   // Format date for display
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -158,6 +280,32 @@ const ProfilePage: React.FC = () => {
         </p>
       </div>
       
+      {/* Pending Account Recoveries */}
+      {recoveries.map((recovery) => (
+        <div
+          key={recovery.id}
+          className="bg-warning-50 border border-warning-200 rounded-lg p-4 text-warning-800 dark:bg-warning-900/30 dark:border-warning-700 dark:text-warning-300"
+        >
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex">
+              <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              <p>
+                An account recovery was started from {recovery.deviceLabel}
+                {recovery.ip && ` (${recovery.ip})`} on {formatDateTime(recovery.createdAt)}.
+                It can be completed after {formatDateTime(recovery.availableAt)} and will remove your passkeys.
+                If this wasn't you, cancel it.
+              </p>
+            </div>
+            <button
+              className="mt-2 sm:mt-0 sm:ml-4 btn-outline btn-sm flex-shrink-0"
+              onClick={() => handleCancelRecovery(recovery.id)}
+            >
+              Cancel Recovery
+            </button>
+          </div>
+        </div>
+      ))}
+      
       {/* Profile Information */}
       <div className="wallet-card">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
@@ -320,6 +468,8 @@ const ProfilePage: React.FC = () => {
             Your DID is a unique identifier that represents your digital identity. You can share it with others to receive verifiable credentials or establish secure connections.
           </p>
         </div>
+        
+        {user.did && <DidDocumentPanel did={user.did} onDidChanged={refreshUser} />}
       </div>
       
       {/* Biometric Authentication */}
@@ -408,6 +558,92 @@ const ProfilePage: React.FC = () => {
         )}
       </div>
       
+      {/* Wallet Encryption */}
+      <WalletEncryptionPanel passkeys={webAuthnCredentials} isWebAuthnSupported={isWebAuthnSupported} />
+      
+      {/* Trusted mdoc issuers */}
+      <IacaTrustListPanel />
+      
+      {/* Active Sessions */}
+      <div className="wallet-card">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
+          <h2 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center">
+            <ComputerDesktopIcon className="h-5 w-5 mr-2 text-hedera-600" />
+            Active Sessions
+          </h2>
+          
+          {sessions.some(session => !session.current) && (
+            <button 
+              className="mt-2 sm:mt-0 btn-outline btn-sm flex items-center"
+              onClick={handleRevokeOtherSessions}
+            >
+              <ArrowPathIcon className="h-4 w-4 mr-1" />
+              Sign Out Other Sessions
+            </button>
+          )}
+        </div>
+        
+        {sessionsError && (
+          <div className="mb-4 bg-error-50 border border-error-200 rounded-lg p-3 text-sm text-error-800 dark:bg-error-900/30 dark:border-error-700 dark:text-error-300">
+            <div className="flex">
+              <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              <p>{sessionsError}</p>
+            </div>
+          </div>
+        )}
+        
+        {isSessionsLoading ? (
+          <div className="text-center py-6">
+            <div className="animate-spin h-8 w-8 border-4 border-hedera-600 rounded-full border-t-transparent mx-auto"></div>
+            <p className="mt-2 text-neutral-600 dark:text-neutral-400">
+              Loading sessions...
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
+            {sessions.map((session) => (
+              <div key={session.id} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <div className="h-10 w-10 rounded-full bg-hedera-100 dark:bg-hedera-900 flex items-center justify-center mr-3">
+                      {session.authMethod === AuthMethod.WEBAUTHN ? (
+                        <FingerPrintIcon className="h-6 w-6 text-hedera-600 dark:text-hedera-400" />
+                      ) : session.authMethod === AuthMethod.PHONE ? (
+                        <DevicePhoneMobileIcon className="h-6 w-6 text-hedera-600 dark:text-hedera-400" />
+                      ) : (
+                        <EnvelopeIcon className="h-6 w-6 text-hedera-600 dark:text-hedera-400" />
+                      )}
+                    </div>
+                    <div>
+                      <h3 className="text-base font-medium text-neutral-900 dark:text-white">
+                        {session.deviceLabel}
+                        {session.current && (
+                          <span className="ml-2 text-xs font-normal text-success-600 dark:text-success-400">
+                            This device
+                          </span>
+                        )}
+                      </h3>
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                        {AUTH_METHOD_LABELS[session.authMethod] || session.authMethod}
+                        {session.ip && ` · ${session.ip}`}
+                        {` · Last active ${formatDateTime(session.lastSeenAt)}`}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    className="text-error-600 hover:text-error-800 dark:text-error-400 dark:hover:text-error-300"
+                    onClick={() => handleRevokeSession(session)}
+                    aria-label={session.current ? 'Sign out' : 'Sign out session'}
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      
       {/* Account Management */}
       <div className="wallet-card">
         <h2 className="text-lg font-semibold text-neutral-900 dark:text-white mb-4">
@@ -431,10 +667,7 @@ const ProfilePage: React.FC = () => {
           
           <button
             className="w-full flex items-center justify-between p-3 rounded-lg bg-neutral-100 hover:bg-neutral-200 dark:bg-neutral-700 dark:hover:bg-neutral-600 transition-colors"
-            onClick={() => {
-              // This would typically open a backup/export modal
-              alert('Backup functionality will be implemented in a future version');
-            }}
+            onClick={() => setShowBackupModal(true)}
           >
             <span className="flex items-center text-neutral-900 dark:text-white">
               <ArrowPathIcon className="h-5 w-5 mr-3 text-neutral-500" />
@@ -443,6 +676,35 @@ const ProfilePage: React.FC = () => {
             <span className="text-neutral-500 dark:text-neutral-400">→</span>
           </button>
           
+          {phraseStatus !== 'none' && (
+            <button
+              className="w-full flex items-center justify-between p-3 rounded-lg bg-neutral-100 hover:bg-neutral-200 dark:bg-neutral-700 dark:hover:bg-neutral-600 transition-colors"
+              onClick={() => navigate('/recovery-phrase', { state: { next: '/wallet/profile' } })}
+            >
+              <span className="flex items-center text-neutral-900 dark:text-white">
+                <KeyIcon className="h-5 w-5 mr-3 text-neutral-500" />
+                <span className="font-medium">Recovery Phrase</span>
+                {phraseStatus === 'unconfirmed' && (
+                  <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-warning-100 text-warning-800 dark:bg-warning-900/30 dark:text-warning-300">
+                    Not confirmed
+                  </span>
+                )}
+              </span>
+              <span className="text-neutral-500 dark:text-neutral-400">→</span>
+            </button>
+          )}
+          
+          <button
+            className="w-full flex items-center justify-between p-3 rounded-lg bg-neutral-100 hover:bg-neutral-200 dark:bg-neutral-700 dark:hover:bg-neutral-600 transition-colors"
+            onClick={() => setShowRestorePhraseModal(true)}
+          >
+            <span className="flex items-center text-neutral-900 dark:text-white">
+              <KeyIcon className="h-5 w-5 mr-3 text-neutral-500" />
+              <span className="font-medium">Restore Keys from Recovery Phrase</span>
+            </span>
+            <span className="text-neutral-500 dark:text-neutral-400">→</span>
+          </button>
+          
           <button
             className="w-full flex items-center justify-between p-3 rounded-lg bg-error-50 hover:bg-error-100 dark:bg-error-900/20 dark:hover:bg-error-900/30 transition-colors"
             onClick={() => setShowDeleteModal(true)}
@@ -456,6 +718,20 @@ const ProfilePage: React.FC = () => {
         </div>
       </div>
       
+      {/* Backup Modal */}
+      <BackupWalletModal
+        isOpen={showBackupModal}
+        onClose={() => setShowBackupModal(false)}
+      />
+      
+      {/* Restore From Phrase Modal */}
+      <RestorePhraseModal
+        isOpen={showRestorePhraseModal}
+        onClose={() => setShowRestorePhraseModal(false)}
+        did={user?.did}
+        onRestored={loadPhraseStatus}
+      />
+      
       {/* QR Code Modal */}
       {showQrModal && (
         <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -2,7 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { credentialStorage } from '@/utils/db';
+import { syncIssuedCredentials } from '@/utils/issuance';
+import {
+  EXPIRY_WARNING_DAYS,
+  getDaysUntilExpiry,
+  getExpiringCredentials,
+  getRefreshService,
+  markExpiredCredentials,
+  requestCredentialRenewal,
+} from '@/utils/expiry';
 import { StoredCredential } from '@/types';
+import BackupWalletModal from '@/components/wallet/BackupWalletModal';
 
 // Icons
 import {
@@ -14,6 +24,7 @@ import {
   CheckCircleIcon,
   ShieldCheckIcon,
   ExclamationCircleIcon,
+  ClockIcon,
 } from '@heroicons/react/24/outline';
 
 /**
@@ -22,6 +33,7 @@ import {
  * Dashboard view showing:
  * - User's DID
  * - Credential statistics
+ * - Credentials expiring soon, with renewal from the issuer
  * - Recent activity
  * - Quick actions
  */
@@ -34,12 +46,32 @@ const WalletHomePage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [didCopied, setDidCopied] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  const [renewalMessage, setRenewalMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   
   // Fetch credentials from local storage
   useEffect(() => {
     const fetchCredentials = async () => {
       try {
         setIsLoading(true);
+        
+        // Pick up credentials issued since the last visit
+        if (user?.did) {
+          try {
+            await syncIssuedCredentials();
+          } catch (err) {
+            console.error('Error syncing issued credentials:', err);
+          }
+        }
+        
+        // Show credentials that expired since the last check as expired
+        try {
+          await markExpiredCredentials();
+        } catch (err) {
+          console.error('Error checking credential expiry:', err);
+        }
+        
         const allCredentials = await credentialStorage.getAllCredentials();
         setCredentials(allCredentials);
       } catch (err: any) {
@@ -51,7 +83,7 @@ const WalletHomePage: React.FC = () => {
     };
     
     fetchCredentials();
-  }, []);
+  }, [user?.did]);
   
   // Copy DID to clipboard
   const copyDid = () => {
@@ -62,6 +94,37 @@ const WalletHomePage: React.FC = () => {
     }
   };
   
+  // Request a renewed credential from the issuer's refresh service
+  const handleRenew = async (credential: StoredCredential) => {
+    setRenewingId(credential.localId);
+    setRenewalMessage(null);
+    
+    try {
+      const result = await requestCredentialRenewal(credential);
+      
+      if (result.status === 'redirect') {
+        window.open(result.url, '_blank', 'noopener,noreferrer');
+        setRenewalMessage({ type: 'success', text: 'Continue the renewal on the issuer\'s page.' });
+      } else {
+        setCredentials(await credentialStorage.getAllCredentials());
+        setRenewalMessage({ type: 'success', text: 'Credential renewed.' });
+      }
+    } catch (err: any) {
+      console.error('Error renewing credential:', err);
+      setRenewalMessage({ type: 'error', text: err.message || 'Failed to renew the credential' });
+    } finally {
+      setRenewingId(null);
+    }
+  };
+  
+  // Describe how long until a credential expires
+  const formatExpiry = (credential: StoredCredential) => {
+    const days = getDaysUntilExpiry(credential) ?? 0;
+    if (days < 0) return 'Expired';
+    if (days === 0) return 'Expires today';
+    return `Expires in ${days} day${days === 1 ? '' : 's'}`;
+  };
+  
   // Get user's first name for greeting
   const getFirstName = () => {
     if (!user?.name) return 'there';
@@ -71,11 +134,17 @@ const WalletHomePage: React.FC = () => {
   // Calculate credential statistics
   const credentialStats = {
     total: credentials.length,
-    active: credentials.filter(c => c.status !== 'revoked' && c.status !== 'expired').length,
+    active: credentials.filter(c => c.status !== 'revoked' && c.status !== 'suspended' && c.status !== 'expired').length,
     expired: credentials.filter(c => c.status === 'expired').length,
-    revoked: credentials.filter(c => c.status === 'revoked').length,
+    revoked: credentials.filter(c => c.status === 'revoked' || c.status === 'suspended').length,
   };
   
+  // Credentials about to expire, plus expired ones the issuer can renew
+  const expiringCredentials = [
+    ...getExpiringCredentials(credentials),
+    ...credentials.filter(c => c.status === 'expired' && getRefreshService(c)),
+  ];
+  
   // Get recent credentials (last 3)
   const recentCredentials = credentials
     .sort((a, b) => new Date(b.imported).getTime() - new Date(a.imported).getTime())
@@ -193,7 +262,7 @@ const WalletHomePage: React.FC = () => {
                   )}
                   {credentialStats.revoked > 0 && (
                     <div className="bg-error-50 dark:bg-error-900/30 p-3 rounded-lg">
-                      <p className="text-sm text-error-800 dark:text-error-300">Revoked</p>
+                      <p className="text-sm text-error-800 dark:text-error-300">Revoked or suspended</p>
                       <p className="text-2xl font-bold text-error-600 dark:text-error-400">{credentialStats.revoked}</p>
                     </div>
                   )}
@@ -248,10 +317,7 @@ const WalletHomePage: React.FC = () => {
             
             <button
               className="w-full flex items-center justify-between p-3 rounded-lg bg-neutral-100 hover:bg-neutral-200 dark:bg-neutral-700 dark:hover:bg-neutral-600 transition-colors"
-              onClick={() => {
-                // This would typically open a backup/export modal
-                alert('Backup functionality will be implemented in a future version');
-              }}
+              onClick={() => setShowBackupModal(true)}
             >
               <span className="flex items-center">
                 <ArrowPathIcon className="h-5 w-5 mr-3 text-hedera-600" />
@@ -263,6 +329,67 @@ const WalletHomePage: React.FC = () => {
         </div>
       </div>
       
+      {/* Expiring credentials */}
+      {!isLoading && !error && expiringCredentials.length > 0 && (
+        <div className="wallet-card">
+          <h2 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center mb-1">
+            <ClockIcon className="h-5 w-5 mr-2 text-warning-600" />
+            Expiring Soon
+          </h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+            These credentials expire within {EXPIRY_WARNING_DAYS} days or have expired.
+          </p>
+          
+          {renewalMessage && (
+            <div
+              className={`mb-4 p-3 rounded-lg flex items-center text-sm ${
+                renewalMessage.type === 'error'
+                  ? 'bg-error-50 dark:bg-error-900/30 text-error-700 dark:text-error-300'
+                  : 'bg-success-50 dark:bg-success-900/30 text-success-700 dark:text-success-300'
+              }`}
+            >
+              {renewalMessage.type === 'error' ? (
+                <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              ) : (
+                <CheckCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              )}
+              {renewalMessage.text}
+            </div>
+          )}
+          
+          <div className="space-y-3">
+            {expiringCredentials.map(credential => (
+              <div
+                key={credential.localId}
+                className="flex items-center p-3 rounded-lg bg-warning-50 dark:bg-warning-900/30"
+              >
+                <div
+                  className="flex-1 min-w-0 cursor-pointer"
+                  onClick={() => navigate(`/wallet/credentials/${credential.localId}`)}
+                >
+                  <p className="font-medium text-neutral-900 dark:text-white truncate">
+                    {credential.metadata?.name || credential.type[credential.type.length - 1] || 'Credential'}
+                  </p>
+                  <p className="text-sm text-warning-800 dark:text-warning-300">
+                    {formatExpiry(credential)}
+                  </p>
+                </div>
+                {getRefreshService(credential) && (
+                  <button
+                    className="btn-outline btn-sm flex items-center ml-3"
+                    onClick={() => handleRenew(credential)}
+                    disabled={renewingId !== null}
+                  >
+                    <ArrowPathIcon className={`h-4 w-4 mr-1 ${renewingId === credential.localId ? 'animate-spin' : ''}`} />
+                    {renewingId === credential.localId ? 'Renewing...' : 'Renew'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
       {/* Recent activity */}
       {!isLoading && !error && credentials.length > 0 && (
         <div className="wallet-card">
@@ -298,7 +425,7 @@ const WalletHomePage: React.FC = () => {
                     className={`text-xs px-2 py-0.5 rounded-full ${
                       credential.status === 'expired' 
                         ? 'bg-warning-100 text-warning-800 dark:bg-warning-900/30 dark:text-warning-300' 
-                        : credential.status === 'revoked'
+                        : credential.status === 'revoked' || credential.status === 'suspended'
                         ? 'bg-error-100 text-error-800 dark:bg-error-900/30 dark:text-error-300'
                         : 'bg-success-100 text-success-800 dark:bg-success-900/30 dark:text-success-300'
                     }`}
@@ -320,6 +447,13 @@ const WalletHomePage: React.FC = () => {
           </div>
         </div>
       )}
+      
+      {/* Backup Modal */}
+      <BackupWalletModal
+        isOpen={showBackupModal}
+        onClose={() => setShowBackupModal(false)}
+        onRestored={async () => setCredentials(await credentialStorage.getAllCredentials())}
+      />
     </div>
   );
 };
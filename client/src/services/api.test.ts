@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios, { AxiosAdapter } from 'axios';
+
+/**
+ * Load the API module as another browser tab would: its own in-flight refresh,
+ * the same localStorage and Web Locks
+ */
+async function openTab(): Promise<typeof import('./api')> {
+  vi.resetModules();
+  return import('./api');
+}
+
+/**
+ * Web Locks of one origin: callbacks for the same lock run one after the other
+ */
+function createLockManager() {
+  const queues = new Map<string, Promise<unknown>>();
+  return {
+    request: <T>(name: string, callback: () => Promise<T>): Promise<T> => {
+      const result = (queues.get(name) || Promise.resolve()).then(callback);
+      queues.set(name, result.catch(() => undefined));
+      return result;
+    },
+  };
+}
+
+describe('access token refresh', () => {
+  let previousAdapter: typeof axios.defaults.adapter;
+  let refreshTokens: string[];
+
+  beforeEach(() => {
+    localStorage.setItem('auth_token', 'access-1');
+    localStorage.setItem('refresh_token', 'refresh-1');
+    Object.defineProperty(navigator, 'locks', { value: createLockManager(), configurable: true });
+    refreshTokens = [];
+
+    // Refresh tokens rotate on every use; using one twice ends the session
+    const adapter: AxiosAdapter = async (config) => {
+      const { refreshToken } = JSON.parse(config.data);
+      refreshTokens.push(refreshToken);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const rotated = refreshTokens.filter((used) => used === refreshToken).length > 1;
+      return rotated
+        ? Promise.reject(Object.assign(new Error('Request failed with status code 401'), { response: { status: 401 } }))
+        : {
+            data: { token: `access-${refreshTokens.length + 1}`, refreshToken: `refresh-${refreshTokens.length + 1}` },
+            status: 200,
+            statusText: 'OK',
+            headers: {},
+            config,
+          };
+    };
+    previousAdapter = axios.defaults.adapter;
+    axios.defaults.adapter = adapter;
+  });
+
+  afterEach(() => {
+    axios.defaults.adapter = previousAdapter;
+    delete (navigator as any).locks;
+    localStorage.clear();
+  });
+
+  it('rotates the refresh token once when two tabs refresh together', async () => {
+    const first = await openTab();
+    const second = await openTab();
+
+    const tokens = await Promise.all([first.authApi.refreshToken(), second.authApi.refreshToken()]);
+
+    expect(refreshTokens).toEqual(['refresh-1']);
+    expect(tokens).toEqual([{ token: 'access-2' }, { token: 'access-2' }]);
+    expect(localStorage.getItem('refresh_token')).toBe('refresh-2');
+  });
+
+  it('shares one request between the callers of a tab', async () => {
+    const tab = await openTab();
+
+    await Promise.all([tab.authApi.refreshToken(), tab.authApi.refreshToken()]);
+    const next = await tab.authApi.refreshToken();
+
+    expect(refreshTokens).toEqual(['refresh-1', 'refresh-2']);
+    expect(next).toEqual({ token: 'access-3' });
+  });
+});
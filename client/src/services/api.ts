@@ -16,11 +16,28 @@ import {
   ApiError,
   WebAuthnCredential,
   DIDDocument,
-  DIDMethod
+  DidChallengeResponse,
+  RegisterDidRequest,
+  RegisterDidResponse,
+  CreateDidTopicResponse,
+  RotateDidRequest,
+  UpdateDidRequest,
+  UpdateDidResponse,
+  RefreshTokenResponse,
+  SessionInfo,
+  StartRecoveryRequest,
+  StartRecoveryResponse,
+  RecoveryStatusResponse,
+  CompleteRecoveryResponse,
+  RecoveryRequestInfo,
+  VerifiableCredential,
+  CredentialTemplateInfo,
+  CreateCredentialOfferResponse
 } from '@/types';
 
 // Storage keys
 const TOKEN_STORAGE_KEY = 'auth_token';
+const REFRESH_TOKEN_STORAGE_KEY = 'refresh_token';
 
 /**
  * Base API configuration
@@ -34,6 +51,70 @@ const API_CONFIG: AxiosRequestConfig = {
   timeout: 30000 // 30 seconds
 };
 
+/**
+ * Save the access token and, when the server rotated it, the refresh token
+ */
+const storeTokens = (token: string, refreshToken?: string): void => {
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+  }
+};
+
+/**
+ * Remove both tokens
+ */
+const clearTokens = (): void => {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+};
+
+// Refresh in flight, shared by every caller that needs a new access token
+let refreshPromise: Promise<string> | null = null;
+
+// Web Lock held while a tab refreshes, since every tab shares the stored refresh token
+const REFRESH_LOCK_NAME = 'auth_token_refresh';
+
+/**
+ * Run a refresh while holding the refresh lock of this origin
+ * Browsers without Web Locks run it straight away.
+ */
+const withRefreshLock = async (refresh: () => Promise<string>): Promise<string> =>
+  navigator.locks ? navigator.locks.request(REFRESH_LOCK_NAME, refresh) : refresh();
+
+/**
+ * Exchange the stored refresh token for a new access token
+ * A refresh token can only be used once (reuse revokes the session), so concurrent
+ * callers share a single request, and tabs take turns through a Web Lock: a tab that
+ * finds the token already rotated by another one uses the tokens that tab stored.
+ * Sent without the interceptors to avoid recursion.
+ */
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const startingRefreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+
+    refreshPromise = withRefreshLock(async () => {
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+      const token = localStorage.getItem(TOKEN_STORAGE_KEY);
+
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+      if (refreshToken !== startingRefreshToken && token) {
+        return token;
+      }
+
+      const response = await axios.post<RefreshTokenResponse>('/auth/refresh-token', { refreshToken }, API_CONFIG);
+      storeTokens(response.data.token, response.data.refreshToken);
+      return response.data.token;
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
 /**
  * Create API instance with interceptors for auth and error handling
  */
@@ -55,11 +136,24 @@ const createApiInstance = (): AxiosInstance => {
   // Response interceptor for error handling
   instance.interceptors.response.use(
     (response) => response,
-    (error: AxiosError) => {
+    async (error: AxiosError) => {
+      const request = error.config as (AxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+      // Access tokens are short-lived: refresh once and retry before giving up
+      if (error.response?.status === 401 && request && !request._retried && localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY)) {
+        request._retried = true;
+        try {
+          await refreshAccessToken();
+          return instance(request);
+        } catch (refreshError) {
+          // Session ended; fall through to logging out
+        }
+      }
+
       // Handle token expiration
       if (error.response?.status === 401) {
-        // Clear token if it's expired or invalid
-        localStorage.removeItem(TOKEN_STORAGE_KEY);
+        // Clear tokens if the session is over
+        clearTokens();
         
         // Redirect to login if not already there
         if (window.location.pathname !== '/login') {
@@ -103,26 +197,45 @@ export const authApi = {
   verifyOtp: async (data: VerifyOtpRequest): Promise<VerifyOtpResponse> => {
     const response = await api.post<VerifyOtpResponse>('/auth/verify-otp', data);
     
-    // Save token if provided
+    // Save tokens if provided
     if (response.data.token) {
-      localStorage.setItem(TOKEN_STORAGE_KEY, response.data.token);
+      storeTokens(response.data.token, response.data.refreshToken);
     }
     
     return response.data;
   },
 
   /**
-   * Refresh authentication token
+   * Open an account recovery with recovery OTPs for every email and phone on file
+   */
+  startRecovery: async (data: StartRecoveryRequest): Promise<StartRecoveryResponse> => {
+    const response = await api.post<StartRecoveryResponse>('/auth/recovery/start', data);
+    return response.data;
+  },
+
+  /**
+   * Get the state of an account recovery
+   */
+  getRecoveryStatus: async (recoveryToken: string): Promise<RecoveryStatusResponse> => {
+    const response = await api.post<RecoveryStatusResponse>('/auth/recovery/status', { recoveryToken });
+    return response.data;
+  },
+
+  /**
+   * Complete an account recovery after its cool-down period and sign in
+   */
+  completeRecovery: async (recoveryToken: string): Promise<CompleteRecoveryResponse> => {
+    const response = await api.post<CompleteRecoveryResponse>('/auth/recovery/complete', { recoveryToken });
+    storeTokens(response.data.token, response.data.refreshToken);
+    return response.data;
+  },
+
+  /**
+   * Get a new access token using the stored refresh token (which is rotated)
    */
   refreshToken: async (): Promise<{ token: string }> => {
-    const response = await api.post<{ success: boolean; token: string; message: string }>('/auth/refresh-token');
-    
-    // Save new token
-    if (response.data.token) {
-      localStorage.setItem(TOKEN_STORAGE_KEY, response.data.token);
-    }
-    
-    return { token: response.data.token };
+    const token = await refreshAccessToken();
+    return { token };
   },
 
   /**
@@ -134,12 +247,14 @@ export const authApi = {
   },
 
   /**
-   * Logout user (client-side)
+   * Logout user and revoke the session on the server
    */
   logout: (): void => {
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
-    // Optionally call the server logout endpoint
-    api.post('/auth/logout').catch(() => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    clearTokens();
+
+    // The refresh token identifies the session, so no access token is needed
+    axios.post('/auth/logout', { refreshToken }, API_CONFIG).catch(() => {
       // Ignore errors during logout
     });
   },
@@ -193,9 +308,9 @@ export const webAuthnApi = {
   verifyAuthentication: async (data: WebAuthnVerifyAuthenticateRequest): Promise<WebAuthnVerifyAuthenticateResponse> => {
     const response = await api.post<WebAuthnVerifyAuthenticateResponse>('/webauthn/verify-authentication', data);
     
-    // Save token if provided
+    // Save tokens if provided
     if (response.data.token) {
-      localStorage.setItem(TOKEN_STORAGE_KEY, response.data.token);
+      storeTokens(response.data.token, response.data.refreshToken);
     }
     
     return response.data;
@@ -247,27 +362,49 @@ export const userApi = {
   },
 
   /**
-   * Generate a new DID for the user
+   * Get a challenge to prove possession of a DID's key
    */
-  generateDid: async (method: DIDMethod = DIDMethod.KEY, network?: string, keyType?: string): Promise<{
-    did: string;
-    didDocument: DIDDocument;
-    publicKey: any;
-  }> => {
-    const response = await api.post<{
-      success: boolean;
-      did: string;
-      didDocument: DIDDocument;
-      publicKey: any;
-    }>('/user/did/generate', { method, network, keyType });
-    
+  getDidChallenge: async (): Promise<DidChallengeResponse> => {
+    const response = await api.post<{ success: boolean } & DidChallengeResponse>('/user/did/challenge');
     return {
-      did: response.data.did,
-      didDocument: response.data.didDocument,
-      publicKey: response.data.publicKey
+      challenge: response.data.challenge,
+      audience: response.data.audience,
+      expiresAt: response.data.expiresAt
     };
   },
 
+  /**
+   * Register a DID generated on this device
+   */
+  registerDid: async (data: RegisterDidRequest): Promise<RegisterDidResponse> => {
+    const response = await api.post<RegisterDidResponse>('/user/did/register', data);
+    return response.data;
+  },
+
+  /**
+   * Create an HCS topic for a new did:hedera
+   */
+  createDidTopic: async (): Promise<CreateDidTopicResponse> => {
+    const response = await api.post<CreateDidTopicResponse>('/user/did/hedera/topic');
+    return response.data;
+  },
+
+  /**
+   * Replace the user's DID, proven by both the current and the new DID
+   */
+  rotateDid: async (data: RotateDidRequest): Promise<UpdateDidResponse> => {
+    const response = await api.post<UpdateDidResponse>('/user/did/rotate', data);
+    return response.data;
+  },
+
+  /**
+   * Publish signed DID messages updating the user's did:hedera document
+   */
+  updateDid: async (data: UpdateDidRequest): Promise<UpdateDidResponse> => {
+    const response = await api.post<UpdateDidResponse>('/user/did/update', data);
+    return response.data;
+  },
+
   /**
    * Validate a DID
    */
@@ -286,15 +423,55 @@ export const userApi = {
     };
   },
 
+  /**
+   * Get the user's active sessions
+   */
+  getSessions: async (): Promise<SessionInfo[]> => {
+    const response = await api.get<{ success: boolean; sessions: SessionInfo[] }>('/user/sessions');
+    return response.data.sessions;
+  },
+
+  /**
+   * Sign out one session
+   */
+  revokeSession: async (id: string): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/user/sessions/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  /**
+   * Sign out every session except this one
+   */
+  revokeOtherSessions: async (): Promise<{ success: boolean; message: string; revoked: number }> => {
+    const response = await api.delete<{ success: boolean; message: string; revoked: number }>('/user/sessions');
+    return response.data;
+  },
+
+  /**
+   * Get pending account recoveries of the user
+   */
+  getRecoveryRequests: async (): Promise<RecoveryRequestInfo[]> => {
+    const response = await api.get<{ success: boolean; recoveries: RecoveryRequestInfo[] }>('/user/recovery');
+    return response.data.recoveries;
+  },
+
+  /**
+   * Cancel a pending account recovery
+   */
+  cancelRecoveryRequest: async (id: string): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/user/recovery/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
   /**
    * Delete user account
    */
   deleteAccount: async (): Promise<{ success: boolean; message: string }> => {
     const response = await api.delete<{ success: boolean; message: string }>('/user/account');
     
-    // Clear token on successful account deletion
+    // Clear tokens on successful account deletion
     if (response.data.success) {
-      localStorage.removeItem(TOKEN_STORAGE_KEY);
+      clearTokens();
     }
     
     return response.data;
@@ -317,5 +494,51 @@ export const userApi = {
   }
 };
 
+/**
+ * Issuer API
+ */
+export const issuerApi = {
+  /**
+   * Get the issuer's DID
+   */
+  getIssuer: async (): Promise<{ did: string; name: string; didDocument: DIDDocument }> => {
+    const response = await api.get<{ success: boolean; did: string; name: string; didDocument: DIDDocument }>('/issuer');
+    return { did: response.data.did, name: response.data.name, didDocument: response.data.didDocument };
+  },
+
+  /**
+   * Get available credential templates
+   */
+  getTemplates: async (): Promise<CredentialTemplateInfo[]> => {
+    const response = await api.get<{ success: boolean; templates: CredentialTemplateInfo[] }>('/issuer/templates');
+    return response.data.templates;
+  },
+
+  /**
+   * Request a credential from a template
+   * jwt_vc_json credentials are returned as a compact JWT
+   */
+  issueCredential: async (template: string, format?: 'ldp_vc' | 'jwt_vc_json'): Promise<VerifiableCredential | string> => {
+    const response = await api.post<{ success: boolean; credential: VerifiableCredential | string }>('/issuer/issue', { template, format });
+    return response.data.credential;
+  },
+
+  /**
+   * Get credentials issued to the current user, JWT-VCs as compact JWTs
+   */
+  getCredentials: async (): Promise<(VerifiableCredential | string)[]> => {
+    const response = await api.get<{ success: boolean; credentials: (VerifiableCredential | string)[] }>('/issuer/credentials');
+    return response.data.credentials;
+  },
+
+  /**
+   * Create an OID4VCI credential offer for the current user
+   */
+  createCredentialOffer: async (template: string, txCode: boolean = false): Promise<CreateCredentialOfferResponse> => {
+    const response = await api.post<CreateCredentialOfferResponse>('/oid4vci/offers', { template, txCode });
+    return response.data;
+  }
+};
+
 // Export the API instance for custom requests
 export default api;
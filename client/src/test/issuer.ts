@@ -0,0 +1,90 @@
+import { encodeBase64Url, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import { ProofSuite } from 'hedera-id-wallet-common/proofs';
+import { DIDKeyPair, KeyType, VerifiableCredential } from '@/types';
+import { sha256, signJws } from '@/utils/crypto';
+import { createDidKey } from '@/utils/did';
+import { createProof } from '@/utils/proofs';
+
+/**
+ * Issuers for tests
+ * A did:key issuer whose key never enters the wallet's key storage.
+ */
+
+export interface TestIssuer {
+  did: string;
+  keyPair: DIDKeyPair;
+}
+
+/**
+ * Generate an issuer DID
+ * @param keyType - Key type of the issuer key
+ */
+export async function createTestIssuer(keyType: KeyType = 'ed25519'): Promise<TestIssuer> {
+  const { did, keyPair } = await createDidKey(keyType);
+  return { did, keyPair };
+}
+
+/**
+ * Build an unsigned credential
+ * @param issuer - Issuer DID
+ * @param subject - credentialSubject claims
+ * @param fields - Additional credential properties
+ */
+export function buildCredential(
+  issuer: string,
+  subject: Record<string, any>,
+  fields: Partial<VerifiableCredential> = {}
+): VerifiableCredential {
+  return {
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    id: `urn:uuid:${crypto.randomUUID()}`,
+    type: ['VerifiableCredential', 'EmailVerifiedCredential'],
+    issuer,
+    issuanceDate: '2024-01-01T00:00:00Z',
+    credentialSubject: subject,
+    ...fields,
+  };
+}
+
+/**
+ * Sign a credential with a Data Integrity proof
+ * @param issuer - Signing issuer
+ * @param subject - credentialSubject claims
+ * @param fields - Additional credential properties
+ * @param suite - Proof suite (Ed25519 issuers only)
+ */
+export async function issueCredential(
+  issuer: TestIssuer,
+  subject: Record<string, any>,
+  fields: Partial<VerifiableCredential> = {},
+  suite?: ProofSuite
+): Promise<VerifiableCredential> {
+  const credential = buildCredential(issuer.did, subject, fields);
+  const proof = await createProof(credential, issuer.keyPair, { proofPurpose: 'assertionMethod', suite });
+  return { ...credential, proof };
+}
+
+/**
+ * Sign an SD-JWT VC whose subject claims are all selectively disclosable
+ * @param issuer - Signing issuer
+ * @param claims - Subject claims, one disclosure each
+ * @param payload - Additional issuer JWT claims
+ * @returns Compact SD-JWT with every disclosure
+ */
+export async function issueSdJwtCredential(
+  issuer: TestIssuer,
+  claims: Record<string, any>,
+  payload: Record<string, any> = {}
+): Promise<string> {
+  const disclosures = Object.entries(claims).map(([name, value]) =>
+    encodeBase64Url(utf8ToBytes(JSON.stringify([crypto.randomUUID(), name, value])))
+  );
+  const digests = await Promise.all(disclosures.map(async (disclosure) => encodeBase64Url(await sha256(disclosure))));
+
+  const issuerJwt = await signJws(
+    { iss: issuer.did, iat: 1704067200, vct: 'https://example.com/EmailCredential', _sd: digests, _sd_alg: 'sha-256', ...payload },
+    issuer.keyPair,
+    { typ: 'dc+sd-jwt' }
+  );
+  return `${[issuerJwt, ...disclosures].join('~')}~`;
+}
@@ -0,0 +1,150 @@
+import { CborTag, encodeCbor } from 'hedera-id-wallet-common/cbor';
+import { concatBytes, encodeBase64Url, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import { MDL_DOCTYPE } from '@/utils/mdoc';
+
+/**
+ * mdoc issuers for tests
+ * A P-256 document signer with a self-signed certificate, which signs the MSO of each
+ * mdoc with ES256. The certificate is only as complete as the wallet's X.509 parser needs.
+ */
+
+export interface TestMdocIssuer {
+  certificate: Uint8Array; // DER document signer certificate
+  privateKey: CryptoKey;
+}
+
+export interface IssueMdocOptions {
+  docType?: string;
+  validUntil?: string; // ISO date; 2099-01-01 if unset
+}
+
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_ECDSA_WITH_SHA256 = '1.2.840.10045.4.3.2';
+
+// CBOR tags of embedded CBOR data items and of tdate strings
+const TAG_ENCODED_CBOR = 24;
+const TAG_DATE = 0;
+
+const der = (tag: number, ...contents: Uint8Array[]) => {
+  const content = concatBytes(...contents);
+  const length =
+    content.length < 0x80
+      ? [content.length]
+      : content.length < 0x100
+        ? [0x81, content.length]
+        : [0x82, content.length >> 8, content.length & 0xff];
+  return concatBytes(new Uint8Array([tag, ...length]), content);
+};
+
+const derInteger = (bytes: Uint8Array) => {
+  const value = bytes.subarray(Math.max(0, bytes.findIndex((byte) => byte !== 0)));
+  return der(0x02, value[0] & 0x80 ? concatBytes(new Uint8Array([0]), value) : value);
+};
+
+const derOid = (oid: string) => {
+  const [first, second, ...arcs] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of arcs) {
+    const groups = [arc & 0x7f];
+    for (let rest = arc >> 7; rest > 0; rest >>= 7) {
+      groups.unshift((rest & 0x7f) | 0x80);
+    }
+    bytes.push(...groups);
+  }
+  return der(0x06, new Uint8Array(bytes));
+};
+
+const derName = (commonName: string) =>
+  der(0x30, der(0x31, der(0x30, derOid(OID_COMMON_NAME), der(0x0c, utf8ToBytes(commonName)))));
+
+const sign = async (privateKey: CryptoKey, data: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, data as BufferSource));
+
+/**
+ * Generate a document signer key and its self-signed certificate
+ * @param commonName - Subject and issuer CN
+ */
+export async function createMdocIssuer(commonName: string = 'Test Document Signer'): Promise<TestMdocIssuer> {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+    'sign',
+    'verify',
+  ]);
+  const signatureAlgorithm = der(0x30, derOid(OID_ECDSA_WITH_SHA256));
+  const tbs = der(
+    0x30,
+    der(0xa0, derInteger(new Uint8Array([2]))),
+    derInteger(new Uint8Array([1])),
+    signatureAlgorithm,
+    derName(commonName),
+    der(0x30, der(0x17, utf8ToBytes('240101000000Z')), der(0x17, utf8ToBytes('491231235959Z'))),
+    derName(commonName),
+    new Uint8Array(await crypto.subtle.exportKey('spki', publicKey))
+  );
+
+  const signature = await sign(privateKey, tbs);
+  const derSignature = der(0x30, derInteger(signature.subarray(0, 32)), derInteger(signature.subarray(32)));
+  const certificate = der(0x30, tbs, signatureAlgorithm, der(0x03, new Uint8Array([0]), derSignature));
+
+  return { certificate, privateKey };
+}
+
+/**
+ * Issue an mdoc with an IssuerSignedItem for every data element
+ * @param issuer - Signing document signer
+ * @param claims - Data element values by namespace
+ * @param options - docType (an mDL by default) and end of validity
+ * @returns base64url IssuerSigned structure
+ */
+export async function issueMdoc(
+  issuer: TestMdocIssuer,
+  claims: Record<string, Record<string, any>>,
+  options: IssueMdocOptions = {}
+): Promise<string> {
+  const nameSpaces = new Map<string, CborTag[]>();
+  const valueDigests = new Map<string, Map<number, Uint8Array>>();
+  let digestID = 0;
+
+  for (const [namespace, elements] of Object.entries(claims)) {
+    const items: CborTag[] = [];
+    const digests = new Map<number, Uint8Array>();
+    for (const [elementIdentifier, elementValue] of Object.entries(elements)) {
+      const item = new CborTag(
+        TAG_ENCODED_CBOR,
+        encodeCbor(
+          new Map<string, any>([
+            ['digestID', digestID],
+            ['random', crypto.getRandomValues(new Uint8Array(16))],
+            ['elementIdentifier', elementIdentifier],
+            ['elementValue', elementValue],
+          ])
+        )
+      );
+      items.push(item);
+      digests.set(digestID++, new Uint8Array(await crypto.subtle.digest('SHA-256', encodeCbor(item) as BufferSource)));
+    }
+    nameSpaces.set(namespace, items);
+    valueDigests.set(namespace, digests);
+  }
+
+  const mso = new Map<string, any>([
+    ['version', '1.0'],
+    ['digestAlgorithm', 'SHA-256'],
+    ['valueDigests', valueDigests],
+    ['docType', options.docType || MDL_DOCTYPE],
+    [
+      'validityInfo',
+      new Map([
+        ['signed', new CborTag(TAG_DATE, '2024-01-01T00:00:00Z')],
+        ['validFrom', new CborTag(TAG_DATE, '2024-01-01T00:00:00Z')],
+        ['validUntil', new CborTag(TAG_DATE, options.validUntil || '2099-01-01T00:00:00Z')],
+      ]),
+    ],
+  ]);
+
+  const protectedHeader = encodeCbor(new Map([[1, -7]])); // alg: ES256
+  const payload = encodeCbor(new CborTag(TAG_ENCODED_CBOR, encodeCbor(mso)));
+  const signature = await sign(issuer.privateKey, encodeCbor(['Signature1', protectedHeader, new Uint8Array(0), payload]));
+  const issuerAuth = [protectedHeader, new Map([[33, issuer.certificate]]), payload, signature]; // 33: x5chain
+
+  return encodeBase64Url(encodeCbor(new Map<string, any>([['nameSpaces', nameSpaces], ['issuerAuth', issuerAuth]])));
+}
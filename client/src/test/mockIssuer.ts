@@ -0,0 +1,227 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { CredentialIssuerMetadata, CredentialOffer } from '@/types';
+import { decodeJws, DecodedJws, signJws, verifyJws } from '@/utils/crypto';
+import { findVerificationMethod, getPublicKeyJwk, resolveDidKey } from '@/utils/did';
+import { createTestIssuer, issueCredential, TestIssuer } from './issuer';
+
+/**
+ * OID4VCI issuer for tests
+ * Serves the issuer metadata, authorization server metadata, token and credential
+ * endpoints of the pre-authorized code flow through the axios adapter, so the wallet's
+ * requests never leave the process. Credentials are issued by a did:key test issuer to
+ * the DID that signed the proof JWT.
+ */
+
+export const MOCK_ISSUER_URL = 'https://issuer.test';
+
+export interface MockIssuerOptions {
+  subjectId?: string; // Issue credentials to this DID instead of the proof signer
+  staleTokenNonce?: boolean; // Return a c_nonce from the token endpoint the credential endpoint rejects
+  credentialFields?: Record<string, any>; // Added to issued ldp_vc credentials after signing
+}
+
+export interface MockIssuer {
+  url: string;
+  issuer: TestIssuer;
+  proofs: DecodedJws[]; // Proof JWTs received at the credential endpoint
+  createOffer(configurationIds: string[], options?: { txCode?: string }): CredentialOffer;
+  publishOffer(offer: CredentialOffer): string; // Returns the credential_offer_uri
+  close(): void;
+}
+
+interface OfferState {
+  configurationIds: string[];
+  txCode?: string;
+  redeemed: boolean;
+}
+
+const PROOF_JWT_TYPE = 'openid4vci-proof+jwt';
+
+const METADATA: CredentialIssuerMetadata = {
+  credential_issuer: MOCK_ISSUER_URL,
+  credential_endpoint: `${MOCK_ISSUER_URL}/credential`,
+  display: [{ name: 'Test Issuer', locale: 'en-US' }],
+  credential_configurations_supported: {
+    EmailVerifiedCredential: {
+      format: 'ldp_vc',
+      credential_definition: { type: ['VerifiableCredential', 'EmailVerifiedCredential'] },
+      display: [{ name: 'Verified Email', locale: 'en-US' }],
+    },
+    EmailVerifiedCredential_jwt: {
+      format: 'jwt_vc_json',
+      credential_definition: { type: ['VerifiableCredential', 'EmailVerifiedCredential'] },
+    },
+    UnsupportedCredential: {
+      format: 'x509_cert',
+    },
+  },
+};
+
+/**
+ * Build a protocol error response the way axios rejects one
+ */
+function reject(config: InternalAxiosRequestConfig, status: number, data: Record<string, any>): never {
+  const response = { data, status, statusText: 'Error', headers: {}, config } as AxiosResponse;
+  throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+}
+
+/**
+ * Start the mock issuer by routing axios requests to it
+ * @param options - Issuer behaviour overrides
+ */
+export async function startMockIssuer(options: MockIssuerOptions = {}): Promise<MockIssuer> {
+  const issuer = await createTestIssuer();
+  const offers = new Map<string, OfferState>();
+  const publishedOffers = new Map<string, CredentialOffer>();
+  const accessTokens = new Map<string, string[]>();
+  const proofs: DecodedJws[] = [];
+  let cNonce: string | undefined;
+
+  const freshNonce = () => {
+    cNonce = crypto.randomUUID();
+    return cNonce;
+  };
+
+  const handleToken = (config: InternalAxiosRequestConfig) => {
+    const params = new URLSearchParams(config.data);
+    if (params.get('grant_type') !== 'urn:ietf:params:oauth:grant-type:pre-authorized_code') {
+      reject(config, 400, { error: 'unsupported_grant_type' });
+    }
+
+    const offer = offers.get(params.get('pre-authorized_code') || '');
+    if (!offer || offer.redeemed) {
+      reject(config, 400, { error: 'invalid_grant', error_description: 'Pre-authorized code is invalid or was already used' });
+    }
+    if (offer.txCode && params.get('tx_code') !== offer.txCode) {
+      reject(config, 400, { error: 'invalid_grant', error_description: 'Transaction code is incorrect' });
+    }
+
+    offer.redeemed = true;
+    const accessToken = crypto.randomUUID();
+    accessTokens.set(accessToken, offer.configurationIds);
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: 300,
+      c_nonce: options.staleTokenNonce ? crypto.randomUUID() : freshNonce(),
+    };
+  };
+
+  const handleCredential = async (config: InternalAxiosRequestConfig) => {
+    const authorization = String(config.headers.Authorization || '');
+    const configurationIds = accessTokens.get(authorization.replace(/^Bearer /, ''));
+    if (!configurationIds) {
+      reject(config, 401, { error: 'invalid_token' });
+    }
+
+    const request = JSON.parse(config.data);
+    if (!configurationIds.includes(request.credential_configuration_id)) {
+      reject(config, 400, { error: 'invalid_credential_request' });
+    }
+
+    const proof = decodeJws(request.proof?.jwt);
+    proofs.push(proof);
+
+    const holderDid = String(proof.header.kid).split('#')[0];
+    const verificationMethod = findVerificationMethod(resolveDidKey(holderDid), proof.header.kid);
+    if (
+      proof.header.typ !== PROOF_JWT_TYPE ||
+      proof.payload.aud !== MOCK_ISSUER_URL ||
+      !verificationMethod ||
+      !(await verifyJws(request.proof.jwt, getPublicKeyJwk(verificationMethod)))
+    ) {
+      reject(config, 400, { error: 'invalid_proof' });
+    }
+    if (!cNonce || proof.payload.nonce !== cNonce) {
+      reject(config, 400, { error: 'invalid_nonce', c_nonce: freshNonce() });
+    }
+
+    const subject = { id: options.subjectId || holderDid, email: 'holder@example.com' };
+    const credential = request.format === 'jwt_vc_json'
+      ? await signJws(
+        {
+          iss: issuer.did,
+          sub: subject.id,
+          nbf: Math.floor(Date.now() / 1000),
+          vc: {
+            '@context': ['https://www.w3.org/2018/credentials/v1'],
+            type: ['VerifiableCredential', 'EmailVerifiedCredential'],
+            credentialSubject: { email: subject.email },
+          },
+        },
+        issuer.keyPair,
+        { typ: 'JWT' }
+      )
+      : { ...(await issueCredential(issuer, subject)), ...options.credentialFields };
+
+    return { credential, c_nonce: freshNonce() };
+  };
+
+  const route = async (config: InternalAxiosRequestConfig): Promise<any> => {
+    const url = new URL(config.url!, MOCK_ISSUER_URL);
+    const method = (config.method || 'get').toUpperCase();
+
+    if (url.origin !== MOCK_ISSUER_URL) {
+      reject(config, 404, { error: 'not_found' });
+    }
+
+    switch (`${method} ${url.pathname}`) {
+      case 'GET /.well-known/openid-credential-issuer':
+        return METADATA;
+      case 'GET /.well-known/oauth-authorization-server':
+        return { issuer: MOCK_ISSUER_URL, token_endpoint: `${MOCK_ISSUER_URL}/token` };
+      case 'POST /token':
+        return handleToken(config);
+      case 'POST /credential':
+        return handleCredential(config);
+    }
+
+    const published = publishedOffers.get(url.pathname);
+    if (method === 'GET' && published) {
+      return published;
+    }
+
+    reject(config, 404, { error: 'not_found' });
+  };
+
+  const adapter: AxiosAdapter = async (config) => ({
+    data: await route(config),
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  });
+
+  const previousAdapter = axios.defaults.adapter;
+  axios.defaults.adapter = adapter;
+
+  return {
+    url: MOCK_ISSUER_URL,
+    issuer,
+    proofs,
+    createOffer(configurationIds, { txCode } = {}) {
+      const code = crypto.randomUUID();
+      offers.set(code, { configurationIds, txCode, redeemed: false });
+
+      return {
+        credential_issuer: MOCK_ISSUER_URL,
+        credential_configuration_ids: configurationIds,
+        grants: {
+          'urn:ietf:params:oauth:grant-type:pre-authorized_code': {
+            'pre-authorized_code': code,
+            ...(txCode && { tx_code: { input_mode: 'numeric' as const, length: txCode.length } }),
+          },
+        },
+      };
+    },
+    publishOffer(offer) {
+      const path = `/offers/${crypto.randomUUID()}`;
+      publishedOffers.set(path, offer);
+      return `${MOCK_ISSUER_URL}${path}`;
+    },
+    close() {
+      axios.defaults.adapter = previousAdapter;
+    },
+  };
+}
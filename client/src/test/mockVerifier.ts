@@ -0,0 +1,112 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { DIDKeyPair, PresentationDefinition } from '@/types';
+import { signJws } from '@/utils/crypto';
+import { createDidKey } from '@/utils/did';
+
+/**
+ * OID4VP verifier for tests
+ * Publishes authorization requests and receives direct_post responses through the axios
+ * adapter, so the wallet's requests never leave the process. Signed requests come from a
+ * did:key verifier.
+ */
+
+export const MOCK_VERIFIER_URL = 'https://verifier.test';
+
+export interface MockVerifierRequestOptions {
+  signed?: boolean; // Send a request object signed by the verifier DID, by reference
+  signingKey?: DIDKeyPair; // Sign the request object with this key instead of the verifier's
+  state?: string;
+  params?: Record<string, string>; // Override or add request parameters
+}
+
+export interface MockVerifier {
+  url: string;
+  responseUri: string;
+  did: string;
+  keyPair: DIDKeyPair;
+  responses: Record<string, string>[]; // Form parameters posted to the response_uri
+  createRequest(definition: PresentationDefinition, options?: MockVerifierRequestOptions): Promise<string>;
+  close(): void;
+}
+
+/**
+ * Build a protocol error response the way axios rejects one
+ */
+function reject(config: InternalAxiosRequestConfig, status: number, data: Record<string, any>): never {
+  const response = { data, status, statusText: 'Error', headers: {}, config } as AxiosResponse;
+  throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+}
+
+/**
+ * Start the mock verifier by routing axios requests to it
+ */
+export async function startMockVerifier(): Promise<MockVerifier> {
+  const { did, keyPair } = await createDidKey('ed25519');
+  const responseUri = `${MOCK_VERIFIER_URL}/response`;
+  const requestObjects = new Map<string, string>();
+  const responses: Record<string, string>[] = [];
+
+  const route = (config: InternalAxiosRequestConfig): any => {
+    const url = new URL(config.url!, MOCK_VERIFIER_URL);
+    const method = (config.method || 'get').toUpperCase();
+
+    if (url.origin === MOCK_VERIFIER_URL && method === 'POST' && url.pathname === '/response') {
+      responses.push(Object.fromEntries(new URLSearchParams(config.data).entries()));
+      return { redirect_uri: `${MOCK_VERIFIER_URL}/done` };
+    }
+
+    const requestObject = requestObjects.get(url.pathname);
+    if (url.origin === MOCK_VERIFIER_URL && method === 'GET' && requestObject) {
+      return requestObject;
+    }
+
+    reject(config, 404, { error: 'not_found' });
+  };
+
+  const adapter: AxiosAdapter = async (config) => ({
+    data: route(config),
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+  });
+
+  const previousAdapter = axios.defaults.adapter;
+  axios.defaults.adapter = adapter;
+
+  return {
+    url: MOCK_VERIFIER_URL,
+    responseUri,
+    did,
+    keyPair,
+    responses,
+    async createRequest(definition, { signed, signingKey, state, params = {} } = {}) {
+      const request: Record<string, string> = {
+        client_id: signed ? did : responseUri,
+        response_type: 'vp_token',
+        response_mode: 'direct_post',
+        response_uri: responseUri,
+        nonce: crypto.randomUUID(),
+        presentation_definition: JSON.stringify(definition),
+        ...(state && { state }),
+        ...params,
+      };
+
+      if (!signed) {
+        return `openid4vp://?${new URLSearchParams(request).toString()}`;
+      }
+
+      const path = `/requests/${crypto.randomUUID()}`;
+      const payload = { ...request, presentation_definition: definition };
+      requestObjects.set(path, await signJws(payload, signingKey || keyPair, { typ: 'oauth-authz-req+jwt' }));
+
+      return `openid4vp://?${new URLSearchParams({
+        client_id: request.client_id,
+        request_uri: `${MOCK_VERIFIER_URL}${path}`,
+      }).toString()}`;
+    },
+    close() {
+      axios.defaults.adapter = previousAdapter;
+    },
+  };
+}
@@ -0,0 +1,6 @@
+import 'fake-indexeddb/auto';
+
+/**
+ * Test environment
+ * IndexedDB is provided by fake-indexeddb so the Dexie wallet database works as in the browser.
+ */
@@ -0,0 +1,31 @@
+import { DIDKeyPair, KeyType, StoredCredential, VerifiableCredential } from '@/types';
+import { credentialStorage, keyStorage } from '@/utils/db';
+import { createDidKey } from '@/utils/did';
+
+/**
+ * Wallet state for tests
+ */
+
+export interface TestHolder {
+  did: string;
+  keyPair: DIDKeyPair;
+}
+
+/**
+ * Create a holder DID whose key is stored in the wallet
+ * @param keyType - Key type of the holder key
+ */
+export async function createHolder(keyType: KeyType = 'ed25519'): Promise<TestHolder> {
+  const { did, keyPair } = await createDidKey(keyType);
+  await keyStorage.storeKeyPair(keyPair);
+  return { did, keyPair };
+}
+
+/**
+ * Store a credential and read it back as the wallet holds it
+ * @param credential - Credential to store
+ */
+export async function storeCredential(credential: VerifiableCredential): Promise<StoredCredential> {
+  const localId = await credentialStorage.storeCredential(credential);
+  return (await credentialStorage.getCredential(localId))!;
+}
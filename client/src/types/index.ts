@@ -75,6 +75,36 @@ export interface WebAuthnCredential {
   lastUsed?: string;
 }
 
+/**
+ * Active login session of the user
+ */
+export interface SessionInfo {
+  id: string;
+  authMethod: AuthMethod;
+  deviceLabel: string; // e.g. "Chrome on macOS"
+  ip?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean; // The session of this browser
+}
+
+/**
+ * State of an account recovery request
+ */
+export type RecoveryStatus = 'pending' | 'completed' | 'cancelled';
+
+/**
+ * Pending account recovery, shown to the account owner so it can be cancelled
+ */
+export interface RecoveryRequestInfo {
+  id: string;
+  status: RecoveryStatus;
+  deviceLabel: string;
+  ip?: string;
+  createdAt: string;
+  availableAt: string; // End of the cool-down period
+}
+
 // ==================== DID Types ====================
 
 /**
@@ -85,6 +115,20 @@ export enum DIDMethod {
   HEDERA = 'hedera'
 }
 
+/**
+ * Key types supported for holder keys
+ * bls12381g2 keys only sign bbs-2023 proofs, for unlinkable selective disclosure.
+ */
+export type KeyType = 'ed25519' | 'secp256k1' | 'bls12381g2';
+
+/**
+ * DID creation options
+ */
+export interface DIDCreationOptions {
+  method: DIDMethod;
+  keyType?: KeyType;
+}
+
 /**
  * DID document structure (simplified for client)
  */
@@ -94,6 +138,9 @@ export interface DIDDocument {
   verificationMethod?: any[];
   authentication?: any[];
   assertionMethod?: any[];
+  keyAgreement?: any[];
+  capabilityInvocation?: any[];
+  capabilityDelegation?: any[];
   service?: any[];
 }
 
@@ -101,12 +148,38 @@ export interface DIDDocument {
  * DID key pair (for client-side key generation)
  */
 export interface DIDKeyPair {
-  id: string;
+  id: string; // Verification method ID (did#fragment)
   type: string;
+  controller?: string; // DID the key belongs to
   publicKeyMultibase?: string;
   publicKeyJwk?: any;
   privateKeyMultibase?: string;
   privateKeyJwk?: any;
+  derivationPath?: string; // SLIP-10 path of keys derived from the recovery phrase
+  createdAt?: string;
+}
+
+/**
+ * Operation of a did:hedera DID message
+ */
+export type HederaDidOperation = 'create' | 'update' | 'revoke' | 'delete';
+
+/**
+ * DID message submitted to a DID topic (Hedera DID method / HIP-27)
+ */
+export interface HederaDidMessage {
+  timestamp: string;
+  operation: HederaDidOperation;
+  did: string;
+  event: string | null; // Base64-encoded DID event JSON, null for delete
+}
+
+/**
+ * Signed DID message as it appears on HCS
+ */
+export interface HederaDidMessageEnvelope {
+  message: HederaDidMessage;
+  signature: string; // Base64 signature over the JSON message by the DID owner key
 }
 
 // ==================== Verifiable Credential Types ====================
@@ -118,19 +191,67 @@ export enum CredentialStatus {
   ACTIVE = 'active',
   EXPIRED = 'expired',
   REVOKED = 'revoked',
+  SUSPENDED = 'suspended',
   PENDING = 'pending'
 }
 
+/**
+ * Entry of a credential's credentialStatus property
+ */
+export interface CredentialStatusEntry {
+  id?: string;
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * Status entry pointing into a status list credential
+ * (StatusList2021Entry or W3C BitstringStatusListEntry)
+ */
+export interface StatusListEntry extends CredentialStatusEntry {
+  type: 'StatusList2021Entry' | 'BitstringStatusListEntry';
+  statusPurpose: string; // revocation, suspension or message
+  statusListIndex: string; // Index of the entry's status in the list
+  statusListCredential: string; // URL of the status list credential
+  statusSize?: number; // Bits per status, Bitstring Status List only
+  statusMessage?: { status: string; message: string }[];
+}
+
+/**
+ * Entry of a credential's refreshService property
+ * ManualRefreshService2018 links to a page where the holder renews the credential;
+ * VerifiableCredentialRefreshService2021 renews it after a DID authentication exchange.
+ */
+export interface RefreshService {
+  id?: string; // URL of a ManualRefreshService2018
+  url?: string; // URL of a VerifiableCredentialRefreshService2021
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * Verified status list credential cached per URL
+ */
+export interface CachedStatusList {
+  url: string;
+  issuer: string;
+  credential: VerifiableCredential;
+  fetchedAt: string;
+  expiresAt: string; // Fetched again after this time
+}
+
 /**
  * Basic verifiable credential structure
  */
 export interface VerifiableCredential {
-  '@context': string[];
+  '@context': (string | Record<string, any>)[];
   type: string[];
   id?: string;
   issuer: string | { id: string; [key: string]: any };
   issuanceDate: string;
   expirationDate?: string;
+  validFrom?: string; // VC Data Model 2.0
+  validUntil?: string; // VC Data Model 2.0
   credentialSubject: {
     id?: string;
     [key: string]: any;
@@ -143,6 +264,12 @@ export interface VerifiableCredential {
     jws?: string;
     [key: string]: any;
   };
+  credentialStatus?: CredentialStatusEntry | CredentialStatusEntry[];
+  refreshService?: RefreshService | RefreshService[];
+  format?: string; // Claim format the credential was issued in; ldp_vc when absent
+  sdJwt?: SdJwtCredentialData; // Issuer JWT and disclosures of an SD-JWT VC
+  jwt?: string; // Compact JWT of a JWT-encoded credential, as issued
+  mdoc?: MdocCredentialData; // Issuer-signed data of an ISO mdoc
   status?: CredentialStatus;
   metadata?: {
     name?: string;
@@ -160,7 +287,7 @@ export interface VerifiableCredential {
  * Verifiable presentation structure
  */
 export interface VerifiablePresentation {
-  '@context': string[];
+  '@context': (string | Record<string, any>)[];
   type: string[];
   id?: string;
   holder: string;
@@ -177,6 +304,325 @@ export interface VerifiablePresentation {
   };
 }
 
+/**
+ * Credential template offered by the issuer
+ */
+export interface CredentialTemplateInfo {
+  id: string;
+  name: string;
+  description: string;
+  validityDays?: number;
+}
+
+/**
+ * Outcome of a single verification check
+ */
+export interface VerificationCheck {
+  status: 'success' | 'error' | 'warning' | 'skipped';
+  message: string;
+}
+
+/**
+ * Structured result of verifying a credential
+ */
+export interface VerificationResult {
+  verified: boolean;
+  checks: {
+    signature: VerificationCheck;
+    expiry: VerificationCheck;
+    revocation: VerificationCheck;
+    issuerTrust: VerificationCheck;
+  };
+  verifiedAt: string;
+  credential?: VerifiableCredential; // Credential rebuilt from its signed form, when that could be read
+}
+
+// ==================== SD-JWT Types ====================
+
+/**
+ * Selectively disclosable claim of an SD-JWT, decoded from its disclosure
+ */
+export interface SdJwtDisclosure {
+  digest: string; // base64url digest the issuer JWT refers to
+  encoded: string; // Disclosure as issued (base64url JSON array)
+  salt: string;
+  name?: string; // Claim name; absent for array elements
+  value: any;
+  path: (string | number)[]; // Location of the claim with every disclosure applied
+  parentDigest?: string; // Disclosure whose value contains this one
+}
+
+/**
+ * SD-JWT VC as held by the wallet
+ * The holder keeps every disclosure and picks which ones to send to each verifier.
+ */
+export interface SdJwtCredentialData {
+  issuerJwt: string; // Issuer-signed JWT
+  disclosures: SdJwtDisclosure[];
+  claims: Record<string, any>; // Claims with every disclosure applied
+  undisclosedDigests: number; // Digests without a disclosure: decoys or claims the issuer withheld
+}
+
+// ==================== mdoc Types ====================
+
+/**
+ * ISO/IEC 18013-5 mdoc (e.g. a mobile driving licence) as held by the wallet
+ * The holder keeps every issuer-signed data element and picks which ones to release.
+ */
+export interface MdocCredentialData {
+  issuerSigned: string; // base64url CBOR IssuerSigned structure, as issued
+  docType: string;
+  claims: Record<string, Record<string, any>>; // Data element values by namespace, as JSON
+}
+
+// ==================== OID4VCI Types ====================
+
+/**
+ * Transaction code (PIN) required to redeem a pre-authorized code
+ */
+export interface TxCodeDescription {
+  input_mode?: 'numeric' | 'text';
+  length?: number;
+  description?: string;
+}
+
+/**
+ * Credential offer received from an issuer
+ */
+export interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants?: {
+    'urn:ietf:params:oauth:grant-type:pre-authorized_code'?: {
+      'pre-authorized_code': string;
+      tx_code?: TxCodeDescription;
+    };
+    authorization_code?: {
+      issuer_state?: string;
+    };
+  };
+}
+
+/**
+ * Display properties published by an issuer
+ */
+export interface IssuerDisplay {
+  name?: string;
+  description?: string;
+  locale?: string;
+  logo?: { uri: string; alt_text?: string };
+  background_color?: string;
+  text_color?: string;
+}
+
+/**
+ * Credential the issuer can issue, from its metadata
+ */
+export interface CredentialConfiguration {
+  format: string;
+  scope?: string;
+  cryptographic_binding_methods_supported?: string[];
+  proof_types_supported?: Record<string, { proof_signing_alg_values_supported: string[] }>;
+  credential_definition?: {
+    '@context'?: string[];
+    type?: string[];
+  };
+  vct?: string; // Credential type of a vc+sd-jwt configuration
+  doctype?: string; // Document type of an mso_mdoc configuration
+  display?: IssuerDisplay[];
+}
+
+/**
+ * Credential issuer metadata (/.well-known/openid-credential-issuer)
+ */
+export interface CredentialIssuerMetadata {
+  credential_issuer: string;
+  authorization_servers?: string[];
+  credential_endpoint: string;
+  nonce_endpoint?: string;
+  display?: IssuerDisplay[];
+  credential_configurations_supported: Record<string, CredentialConfiguration>;
+}
+
+/**
+ * Token response from the authorization server
+ */
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  c_nonce?: string;
+  c_nonce_expires_in?: number;
+}
+
+/**
+ * Credential offer resolved with its issuer metadata, ready to accept
+ */
+export interface ResolvedCredentialOffer {
+  offer: CredentialOffer;
+  metadata: CredentialIssuerMetadata;
+  tokenEndpoint: string;
+  txCode?: TxCodeDescription; // Set when the issuer requires a transaction code
+}
+
+/**
+ * Credential offer created by the wallet's issuer
+ */
+export interface CreateCredentialOfferResponse {
+  success: boolean;
+  offer: CredentialOffer;
+  offerUri: string;
+  txCode?: string; // Shown to the user; a real issuer delivers it out of band
+  expiresAt: string;
+}
+
+// ==================== Presentation Exchange Types ====================
+
+/**
+ * Constraint on a single credential field (DIF Presentation Exchange)
+ */
+export interface FieldConstraint {
+  id?: string;
+  path: string[]; // JSONPath expressions, the first one that resolves is used
+  name?: string;
+  purpose?: string;
+  filter?: Record<string, any>; // JSON Schema the value must satisfy
+  optional?: boolean;
+}
+
+/**
+ * Describes one credential the verifier asks for
+ */
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, any>;
+  group?: string[];
+  constraints: {
+    fields?: FieldConstraint[];
+    limit_disclosure?: 'required' | 'preferred';
+  };
+}
+
+/**
+ * Rule for which input descriptors must be submitted
+ * Exactly one of from (a descriptor group) or from_nested is set.
+ */
+export interface SubmissionRequirement {
+  name?: string;
+  purpose?: string;
+  rule: 'all' | 'pick';
+  count?: number;
+  min?: number;
+  max?: number;
+  from?: string;
+  from_nested?: SubmissionRequirement[];
+}
+
+/**
+ * Verifier's request for credentials (DIF Presentation Exchange)
+ */
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, any>;
+  submission_requirements?: SubmissionRequirement[];
+  input_descriptors: InputDescriptor[];
+}
+
+/**
+ * Maps input descriptors to credentials in the submitted presentation
+ */
+export interface PresentationSubmission {
+  id: string;
+  definition_id: string;
+  descriptor_map: {
+    id: string;
+    format: string;
+    path: string;
+    path_nested?: {
+      id?: string;
+      format: string;
+      path: string;
+    };
+  }[];
+}
+
+/**
+ * A requested field resolved against a candidate credential
+ */
+export interface DisclosedField {
+  name: string;
+  path: string;
+  value: any;
+  optional?: boolean;
+}
+
+/**
+ * Candidate credentials for one input descriptor
+ */
+export interface DescriptorMatch {
+  descriptor: InputDescriptor;
+  candidates: {
+    credential: StoredCredential;
+    format: string; // Claim format designation, e.g. ldp_vc
+    fields: DisclosedField[];
+    disclosures?: string[]; // SD-JWT disclosure digests, or JSON pointers of a bbs-2023 credential or mdoc data elements, the requested fields need
+  }[];
+}
+
+/**
+ * Outcome of a submission requirement against the available descriptors
+ */
+export interface RequirementResult {
+  requirement: SubmissionRequirement;
+  satisfied: boolean;
+  descriptorIds: string[]; // Descriptors the requirement draws from, including nested ones
+  nested?: RequirementResult[];
+}
+
+/**
+ * Result of evaluating a presentation definition against the wallet
+ */
+export interface PresentationEvaluation {
+  definition: PresentationDefinition;
+  matches: DescriptorMatch[];
+  requirements: RequirementResult[]; // Empty without submission_requirements, every descriptor is then required
+  satisfied: boolean; // Whether some selection of credentials satisfies every requirement
+  defaultSelection: string[]; // Descriptor IDs to submit by default, empty if unsatisfied
+}
+
+// ==================== OID4VP Types ====================
+
+/**
+ * Verifier metadata sent with an authorization request
+ */
+export interface VerifierMetadata {
+  client_name?: string;
+  logo_uri?: string;
+  client_uri?: string;
+  policy_uri?: string;
+  [key: string]: any;
+}
+
+/**
+ * Parsed OID4VP authorization request
+ */
+export interface AuthorizationRequest {
+  client_id: string;
+  client_id_scheme?: string;
+  response_type: string;
+  response_mode: string;
+  response_uri: string;
+  nonce: string;
+  state?: string;
+  presentation_definition: PresentationDefinition;
+  client_metadata?: VerifierMetadata;
+  verifierVerified: boolean; // Whether the verifier's identity was checked (signed request or response_uri binding)
+}
+
 // ==================== API Request/Response Types ====================
 
 /**
@@ -197,6 +643,7 @@ export interface RequestOtpResponse {
   otpId: string;
   expiresAt: string;
   method: OtpDeliveryMethod;
+  requiredMethods?: OtpDeliveryMethod[]; // Recovery only: every channel that must be verified
 }
 
 /**
@@ -216,6 +663,7 @@ export interface VerifyOtpResponse {
   success: boolean;
   message: string;
   token?: string;
+  refreshToken?: string;
   user?: {
     id: string;
     name: string;
@@ -291,6 +739,7 @@ export interface WebAuthnVerifyAuthenticateResponse {
   success: boolean;
   message: string;
   token?: string;
+  refreshToken?: string;
   user?: {
     id: string;
     name: string;
@@ -300,6 +749,129 @@ export interface WebAuthnVerifyAuthenticateResponse {
   };
 }
 
+/**
+ * Response with a new access token and the rotated refresh token
+ */
+export interface RefreshTokenResponse {
+  success: boolean;
+  message: string;
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Request to open an account recovery with verified recovery OTPs
+ */
+export interface StartRecoveryRequest {
+  verifications: {
+    otpId: string;
+    code: string;
+  }[];
+}
+
+/**
+ * Response after opening an account recovery
+ */
+export interface StartRecoveryResponse {
+  success: boolean;
+  message: string;
+  recoveryToken: string;
+  availableAt: string;
+}
+
+/**
+ * Response with the state of an account recovery
+ */
+export interface RecoveryStatusResponse {
+  success: boolean;
+  status: RecoveryStatus;
+  availableAt: string;
+  ready: boolean; // Pending and past its cool-down period
+}
+
+/**
+ * Response after completing an account recovery
+ */
+export interface CompleteRecoveryResponse {
+  success: boolean;
+  message: string;
+  token: string;
+  refreshToken: string;
+  user: {
+    id: string;
+    name: string;
+    email?: string;
+    phone?: string;
+    did?: string;
+  };
+  didRebindExpiresAt: string; // Until when the DID can be replaced without the old DID key
+}
+
+/**
+ * Response with a DID proof-of-possession challenge
+ */
+export interface DidChallengeResponse {
+  challenge: string;
+  audience: string;
+  expiresAt: string;
+}
+
+/**
+ * Request to register a client-generated DID
+ */
+export interface RegisterDidRequest {
+  did: string;
+  didDocument: DIDDocument;
+  proof: string; // Compact JWS over the challenge, signed by the DID's authentication key
+}
+
+/**
+ * Response after DID registration
+ */
+export interface RegisterDidResponse {
+  success: boolean;
+  message: string;
+  did: string;
+  didDocument: DIDDocument;
+}
+
+/**
+ * Response after creating a DID topic for a new did:hedera
+ */
+export interface CreateDidTopicResponse {
+  success: boolean;
+  topicId: string;
+  network: string;
+}
+
+/**
+ * Request to replace the user's DID (key rotation for did:key, or moving to did:hedera)
+ */
+export interface RotateDidRequest {
+  did: string; // New DID
+  proof: string; // Compact JWS over the challenge, signed by the new DID's authentication key
+  controllerProof?: string; // Compact JWS over the same challenge with sub = new DID, signed by the current DID's authentication key; omitted only right after an account recovery
+  didMessages?: HederaDidMessageEnvelope[]; // Signed create messages for a new did:hedera, published before resolution
+}
+
+/**
+ * Request to update a did:hedera DID document
+ */
+export interface UpdateDidRequest {
+  messages: HederaDidMessageEnvelope[]; // Signed by the current DIDOwner key, in order
+}
+
+/**
+ * Response after a DID update or rotation
+ */
+export interface UpdateDidResponse {
+  success: boolean;
+  message: string;
+  did: string;
+  didDocument: DIDDocument;
+  previousDid?: string;
+}
+
 // ==================== UI Types ====================
 
 /**
@@ -384,6 +956,8 @@ export interface StoredCredential extends VerifiableCredential {
  */
 export enum StorageKeys {
   AUTH_TOKEN = 'auth_token',
+  REFRESH_TOKEN = 'refresh_token',
+  RECOVERY_TOKEN = 'recovery_token',
   USER_PROFILE = 'user_profile',
   THEME = 'theme',
   ONBOARDING_COMPLETE = 'onboarding_complete',
@@ -400,4 +974,79 @@ export interface DatabaseSchema {
     key: string;
     value: any;
   };
+  statusLists: CachedStatusList;
+}
+
+/**
+ * Passphrase key derivation parameters of a wallet backup or wallet key slot
+ */
+export interface WalletBackupKdf {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string; // base64
+}
+
+/**
+ * Passphrase-encrypted wallet backup file
+ * The payload is encrypted with AES-GCM; an HMAC-SHA-256 over the header and
+ * ciphertext detects a wrong passphrase or a modified file before decryption.
+ */
+export interface WalletBackupFile {
+  format: 'idara-wallet-backup';
+  version: number;
+  createdAt: string;
+  kdf: WalletBackupKdf;
+  cipher: {
+    name: 'AES-GCM';
+    iv: string; // base64
+  };
+  ciphertext: string; // base64
+  mac: string; // base64
 }
+
+/**
+ * Decrypted contents of a wallet backup
+ * Credentials and private keys are in plaintext here and are re-encrypted with the
+ * device key of the wallet they are restored into.
+ */
+export interface WalletBackupPayload {
+  credentials: StoredCredential[];
+  keys: DIDKeyPair[];
+  settings: {
+    key: string;
+    value: any;
+  }[];
+  mnemonic?: string; // Recovery phrase the wallet's keys are derived from
+}
+
+/**
+ * Wallet encryption key wrapped by one unlock method
+ * The key that encrypts credentials and private keys is stored only in wrapped form
+ * once the wallet is protected; each slot can unwrap it on its own.
+ */
+interface WalletKeySlotBase {
+  id: string;
+  iv: string; // base64
+  wrappedKey: string; // base64, AES-GCM
+  createdAt: string;
+}
+
+/**
+ * Key slot unlocked with the WebAuthn PRF extension of a passkey
+ */
+export interface PasskeyWalletKeySlot extends WalletKeySlotBase {
+  type: 'passkey';
+  credentialId: string; // base64url
+  prfSalt: string; // base64url, PRF input
+}
+
+/**
+ * Key slot unlocked with a passphrase
+ */
+export interface PassphraseWalletKeySlot extends WalletKeySlotBase {
+  type: 'passphrase';
+  kdf: WalletBackupKdf;
+}
+
+export type WalletKeySlot = PasskeyWalletKeySlot | PassphraseWalletKeySlot;
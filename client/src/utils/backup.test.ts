@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { decodeBase64Url, encodeBase64 } from 'hedera-id-wallet-common/encoding';
+import db, { credentialStorage, keyStorage, settingsStorage, WALLET_KEY_SLOTS_SETTING } from './db';
+import { createWalletBackup, decryptWalletBackup, parseWalletBackup, restoreWalletBackup } from './backup';
+import { createTestIssuer, issueCredential } from '@/test/issuer';
+import { createHolder, storeCredential, TestHolder } from '@/test/wallet';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('wallet backups', () => {
+  let holder: TestHolder;
+
+  beforeEach(async () => {
+    await db.credentials.clear();
+    await db.keys.clear();
+    holder = await createHolder();
+  });
+
+  /**
+   * Flip one bit of a base64url field of the backup file
+   */
+  const tamper = (json: string, field: 'ciphertext' | 'mac'): string => {
+    const file = JSON.parse(json);
+    const bytes = decodeBase64Url(file[field]);
+    bytes[0] ^= 1;
+    return JSON.stringify({ ...file, [field]: encodeBase64(bytes) });
+  };
+
+  it('restores credentials, keys and settings into an empty wallet', async () => {
+    const issuer = await createTestIssuer();
+    const stored = await storeCredential(await issueCredential(issuer, { id: holder.did, email: 'holder@example.com' }));
+    await credentialStorage.updateCredential(stored.localId, { favorite: true, tags: ['work'] });
+    await settingsStorage.setSetting('theme', 'dark');
+
+    const json = await createWalletBackup(PASSPHRASE);
+    await db.credentials.clear();
+    await db.keys.clear();
+    await settingsStorage.setSetting('theme', 'light');
+
+    expect(await restoreWalletBackup(json, PASSPHRASE)).toEqual({ credentials: 1, keys: 1 });
+
+    const [restored] = await credentialStorage.getAllCredentials();
+    expect(restored).toMatchObject({ id: stored.id, proof: stored.proof, favorite: true, tags: ['work'] });
+    expect((await keyStorage.getKeyPair(holder.keyPair.id, true))?.privateKeyMultibase).toBe(holder.keyPair.privateKeyMultibase);
+    expect(await settingsStorage.getSetting('theme')).toBe('dark');
+  });
+
+  it('keeps the device key and key slots out of the backup', async () => {
+    const json = await createWalletBackup(PASSPHRASE);
+    const payload = await decryptWalletBackup(parseWalletBackup(json), PASSPHRASE);
+
+    expect(json).not.toContain(holder.keyPair.privateKeyMultibase!);
+    expect(payload.keys.map(({ id }) => id)).toEqual([holder.keyPair.id]);
+    expect(payload.settings.map(({ key }) => key)).not.toContain('deviceEncryptionKey');
+    expect(payload.settings.map(({ key }) => key)).not.toContain(WALLET_KEY_SLOTS_SETTING);
+  });
+
+  it('rejects a wrong passphrase and modified files', async () => {
+    const json = await createWalletBackup(PASSPHRASE);
+    const message = 'Wrong passphrase, or the backup file was modified';
+
+    await expect(restoreWalletBackup(json, 'not the passphrase')).rejects.toThrow(message);
+    await expect(restoreWalletBackup(tamper(json, 'ciphertext'), PASSPHRASE)).rejects.toThrow(message);
+    await expect(restoreWalletBackup(tamper(json, 'mac'), PASSPHRASE)).rejects.toThrow(message);
+  });
+
+  it('refuses files that are not wallet backups or weaken the key derivation', async () => {
+    const file = JSON.parse(await createWalletBackup(PASSPHRASE));
+
+    expect(() => parseWalletBackup('{')).toThrow('The backup file is not valid JSON');
+    expect(() => parseWalletBackup(JSON.stringify({ ...file, format: 'other' }))).toThrow('This is not a wallet backup file');
+    expect(() => parseWalletBackup(JSON.stringify({ ...file, version: 2 }))).toThrow('Unsupported backup version 2');
+    expect(() => parseWalletBackup(JSON.stringify({ ...file, kdf: { ...file.kdf, iterations: 1000 } }))).toThrow(
+      'The backup file is malformed'
+    );
+  });
+});
@@ -0,0 +1,263 @@
+import { bytesToUtf8, decodeBase64Url, encodeBase64, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import { DIDKeyPair, StoredCredential, WalletBackupFile, WalletBackupKdf, WalletBackupPayload } from '@/types';
+import db, { credentialStorage, keyStorage, settingsStorage, WALLET_KEY_SLOTS_SETTING } from './db';
+import { getKeyIndex, getWalletMnemonic, MNEMONIC_SETTINGS, storeWalletMnemonic } from './mnemonic';
+
+/**
+ * Passphrase-encrypted wallet backups
+ * Credentials and private keys are decrypted with this device's key and re-encrypted
+ * with a key derived from the user's passphrase, so the backup can be restored on a
+ * new device. The device key itself is never exported.
+ */
+
+export const WALLET_BACKUP_FORMAT = 'idara-wallet-backup';
+export const WALLET_BACKUP_VERSION = 1;
+
+// PBKDF2 work factor for new backups; restores accept anything in the allowed range
+const PBKDF2_ITERATIONS = 600000;
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 12;
+
+// Settings tied to this device, never written to a backup or restored from one.
+// The recovery phrase is encrypted with the device key, so it is carried as payload.mnemonic.
+const DEVICE_SETTINGS = ['deviceEncryptionKey', 'deviceEncryptionSalt', WALLET_KEY_SLOTS_SETTING, 'initialized', ...MNEMONIC_SETTINGS];
+
+// Local bookkeeping fields of a stored credential, restored separately
+const LOCAL_CREDENTIAL_FIELDS = ['localId', 'imported', 'lastUsed', 'favorite', 'tags', 'encrypted', 'encryptedData'];
+
+/**
+ * Derive the AES-GCM encryption key and the HMAC key from a passphrase
+ * @param passphrase - User passphrase
+ * @param kdf - Key derivation parameters
+ */
+async function deriveBackupKeys(passphrase: string, kdf: WalletBackupKdf): Promise<{ encryptionKey: CryptoKey; macKey: CryptoKey }> {
+  const keyMaterial = await crypto.subtle.importKey('raw', utf8ToBytes(passphrase) as BufferSource, { name: 'PBKDF2' }, false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: decodeBase64Url(kdf.salt) as BufferSource, iterations: kdf.iterations, hash: kdf.hash },
+    keyMaterial,
+    512
+  ));
+
+  const [encryptionKey, macKey] = await Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']),
+  ]);
+
+  return { encryptionKey, macKey };
+}
+
+/**
+ * Bytes covered by the MAC: every header field and the ciphertext, in a fixed order
+ * @param file - Backup file without its MAC
+ */
+function getMacInput(file: Omit<WalletBackupFile, 'mac'>): Uint8Array {
+  return utf8ToBytes(JSON.stringify([
+    file.format,
+    file.version,
+    file.createdAt,
+    [file.kdf.name, file.kdf.hash, file.kdf.iterations, file.kdf.salt],
+    [file.cipher.name, file.cipher.iv],
+    file.ciphertext,
+  ]));
+}
+
+/**
+ * Encrypt a backup payload with a passphrase
+ * @param payload - Decrypted wallet contents
+ * @param passphrase - User passphrase
+ */
+export async function encryptWalletBackup(payload: WalletBackupPayload, passphrase: string): Promise<WalletBackupFile> {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const kdf: WalletBackupKdf = {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: encodeBase64(crypto.getRandomValues(new Uint8Array(16))),
+  };
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { encryptionKey, macKey } = await deriveBackupKeys(passphrase, kdf);
+
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    encryptionKey,
+    utf8ToBytes(JSON.stringify(payload)) as BufferSource
+  ));
+
+  const file: Omit<WalletBackupFile, 'mac'> = {
+    format: WALLET_BACKUP_FORMAT,
+    version: WALLET_BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf,
+    cipher: { name: 'AES-GCM', iv: encodeBase64(iv) },
+    ciphertext: encodeBase64(ciphertext),
+  };
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, getMacInput(file) as BufferSource));
+
+  return { ...file, mac: encodeBase64(mac) };
+}
+
+/**
+ * Parse and check the header of a backup file
+ * @param json - Contents of the backup file
+ */
+export function parseWalletBackup(json: string): WalletBackupFile {
+  let file: WalletBackupFile;
+  try {
+    file = JSON.parse(json);
+  } catch (error) {
+    throw new Error('The backup file is not valid JSON');
+  }
+
+  if (file?.format !== WALLET_BACKUP_FORMAT) {
+    throw new Error('This is not a wallet backup file');
+  }
+
+  if (file.version !== WALLET_BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${file.version}`);
+  }
+
+  if (
+    file.kdf?.name !== 'PBKDF2' ||
+    file.kdf.hash !== 'SHA-256' ||
+    !Number.isInteger(file.kdf.iterations) ||
+    file.kdf.iterations < MIN_PBKDF2_ITERATIONS ||
+    file.kdf.iterations > MAX_PBKDF2_ITERATIONS ||
+    typeof file.kdf.salt !== 'string' ||
+    file.cipher?.name !== 'AES-GCM' ||
+    typeof file.cipher.iv !== 'string' ||
+    typeof file.ciphertext !== 'string' ||
+    typeof file.mac !== 'string'
+  ) {
+    throw new Error('The backup file is malformed');
+  }
+
+  return file;
+}
+
+/**
+ * Check the MAC of a backup and decrypt it
+ * @param file - Parsed backup file
+ * @param passphrase - User passphrase
+ */
+export async function decryptWalletBackup(file: WalletBackupFile, passphrase: string): Promise<WalletBackupPayload> {
+  const { encryptionKey, macKey } = await deriveBackupKeys(passphrase, file.kdf);
+
+  const macValid = await crypto.subtle.verify('HMAC', macKey, decodeBase64Url(file.mac) as BufferSource, getMacInput(file) as BufferSource);
+  if (!macValid) {
+    throw new Error('Wrong passphrase, or the backup file was modified');
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = new Uint8Array(await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: decodeBase64Url(file.cipher.iv) as BufferSource },
+      encryptionKey,
+      decodeBase64Url(file.ciphertext) as BufferSource
+    ));
+  } catch (error) {
+    throw new Error('The backup file is corrupted');
+  }
+
+  const payload = JSON.parse(bytesToUtf8(plaintext)) as WalletBackupPayload;
+  return {
+    credentials: payload.credentials || [],
+    keys: payload.keys || [],
+    settings: payload.settings || [],
+    mnemonic: payload.mnemonic,
+  };
+}
+
+/**
+ * Create an encrypted backup of the wallet's credentials, keys and settings
+ * @param passphrase - User passphrase
+ * @returns Backup file contents (JSON)
+ */
+export async function createWalletBackup(passphrase: string): Promise<string> {
+  const credentials: StoredCredential[] = [];
+  for (const { localId } of await db.credentials.toArray()) {
+    const credential = await credentialStorage.getCredential(localId);
+    if (credential) {
+      credentials.push(credential);
+    }
+  }
+
+  const keys: DIDKeyPair[] = (await keyStorage.getAllKeyPairs(true)).map((keyPair) => {
+    const { encrypted, encryptedPrivateKey, ...plainKeyPair } = keyPair as any;
+    if ((encrypted || encryptedPrivateKey) && !plainKeyPair.privateKeyMultibase) {
+      throw new Error(`The private key ${keyPair.id} could not be decrypted`);
+    }
+    return plainKeyPair;
+  });
+
+  const settings = (await db.settings.toArray()).filter((setting) => !DEVICE_SETTINGS.includes(setting.key));
+
+  const mnemonic = (await getWalletMnemonic()) || undefined;
+
+  const file = await encryptWalletBackup({ credentials, keys, settings, mnemonic }, passphrase);
+  await settingsStorage.setSetting('lastBackup', file.createdAt);
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Restore an encrypted backup into this wallet
+ * Records with the same ID are replaced; everything else in the wallet is kept.
+ * @param json - Backup file contents
+ * @param passphrase - User passphrase
+ * @returns Number of restored credentials and keys
+ */
+export async function restoreWalletBackup(json: string, passphrase: string): Promise<{ credentials: number; keys: number }> {
+  const payload = await decryptWalletBackup(parseWalletBackup(json), passphrase);
+
+  // Keys first, so credentials are never restored without their holder key
+  for (const keyPair of payload.keys) {
+    await keyStorage.storeKeyPair(keyPair);
+  }
+
+  for (const storedCredential of payload.credentials) {
+    const credential: any = { ...storedCredential };
+    for (const field of LOCAL_CREDENTIAL_FIELDS) {
+      delete credential[field];
+    }
+
+    const localId = await credentialStorage.storeCredential(credential);
+    if (storedCredential.favorite || storedCredential.tags?.length) {
+      await credentialStorage.updateCredential(localId, {
+        favorite: storedCredential.favorite,
+        tags: storedCredential.tags,
+      });
+    }
+  }
+
+  for (const setting of payload.settings) {
+    if (!DEVICE_SETTINGS.includes(setting.key)) {
+      await settingsStorage.setSetting(setting.key, setting.value);
+    }
+  }
+
+  // A recovery phrase already on this device is kept; new keys continue after the restored ones
+  if (payload.mnemonic && !(await getWalletMnemonic())) {
+    const indexes = payload.keys.map(getKeyIndex).filter((index): index is number => index !== null);
+    await storeWalletMnemonic(payload.mnemonic, true, indexes.length ? Math.max(...indexes) + 1 : 0);
+  }
+
+  return { credentials: payload.credentials.length, keys: payload.keys.length };
+}
+
+/**
+ * Start a download of a backup file in the browser
+ * @param json - Backup file contents
+ */
+export function downloadWalletBackup(json: string): void {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `idara-wallet-backup-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { VerifiableCredential } from '@/types';
+import { parseImportedCredentials } from './credentialImport';
+import { signJws } from './crypto';
+import { parseSdJwtCredential } from './sdJwt';
+import { createTestIssuer, issueCredential, issueSdJwtCredential, TestIssuer } from '@/test/issuer';
+import { createHolder, TestHolder } from '@/test/wallet';
+
+describe('credential import', () => {
+  let issuer: TestIssuer;
+  let holder: TestHolder;
+
+  const signPresentation = (verifiableCredential: unknown[]) =>
+    signJws(
+      {
+        iss: holder.did,
+        vp: { '@context': ['https://www.w3.org/2018/credentials/v1'], type: ['VerifiablePresentation'], verifiableCredential },
+      },
+      holder.keyPair,
+      { typ: 'JWT' }
+    );
+
+  beforeEach(async () => {
+    issuer = await createTestIssuer();
+    holder = await createHolder();
+  });
+
+  it('imports a JSON credential', async () => {
+    const credential = await issueCredential(issuer, { email: 'holder@example.com' });
+
+    expect(await parseImportedCredentials(JSON.stringify(credential))).toEqual([credential]);
+  });
+
+  it('imports an SD-JWT VC from its compact form', async () => {
+    const [credential] = await parseImportedCredentials(await issueSdJwtCredential(issuer, { email: 'holder@example.com' }));
+
+    expect(credential.credentialSubject).toEqual({ email: 'holder@example.com' });
+    expect(credential.sdJwt?.disclosures).toHaveLength(1);
+  });
+
+  it.each(['jwt', 'sdJwt', 'mdoc', 'format'])('rejects a JSON credential with a %s property', async (field) => {
+    const credential = await issueCredential(issuer, { email: 'attacker@example.com' });
+    const signed = await parseSdJwtCredential(await issueSdJwtCredential(issuer, { email: 'holder@example.com' }));
+    const forged: VerifiableCredential = { ...credential, [field]: (signed as any)[field] ?? 'data' };
+
+    await expect(parseImportedCredentials(JSON.stringify(forged))).rejects.toThrow(
+      `Invalid credential: JSON credentials must not contain the ${field} property`
+    );
+  });
+
+  it('imports the JSON credentials of a JWT-VP', async () => {
+    const credential = await issueCredential(issuer, { email: 'holder@example.com' });
+
+    expect(await parseImportedCredentials(await signPresentation([credential]))).toEqual([credential]);
+  });
+
+  it('rejects a JSON credential inside a JWT-VP that carries an SD-JWT', async () => {
+    const credential = await issueCredential(issuer, { email: 'attacker@example.com' });
+    const { sdJwt } = await parseSdJwtCredential(await issueSdJwtCredential(issuer, { email: 'holder@example.com' }));
+
+    await expect(parseImportedCredentials(await signPresentation([{ ...credential, sdJwt }]))).rejects.toThrow(
+      'Invalid credential: JSON credentials must not contain the sdJwt property'
+    );
+  });
+});
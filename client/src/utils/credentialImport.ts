@@ -0,0 +1,97 @@
+import { VerifiableCredential } from '@/types';
+import { isJwt, isJwtPresentation, parseJwtCredential, parseJwtPresentation } from './jwtVc';
+import { isMdoc, parseMdocCredential } from './mdoc';
+import { isSdJwt, parseSdJwtCredential } from './sdJwt';
+import { checkJwtPresentation } from './verification';
+
+/**
+ * Credential import
+ * An import file holds a JSON credential, a compact JWT-VC or SD-JWT VC, a base64url
+ * mdoc IssuerSigned structure, or a JWT-VP whose credentials are imported once the
+ * holder's signature checks out.
+ */
+
+// Fields the wallet derives from a compact credential or mdoc; never taken from JSON
+const DERIVED_FIELDS = ['format', 'jwt', 'sdJwt', 'mdoc'];
+
+/**
+ * Check the basic shape of a JSON credential
+ * A JSON credential carrying a compact JWT, SD-JWT or mdoc is rejected: the wallet would
+ * verify that instead of the claims it shows.
+ * @param credential - Parsed credential
+ */
+export function validateCredential(credential: any): VerifiableCredential {
+  if (!credential || typeof credential !== 'object') {
+    throw new Error('Invalid credential: expected a JSON object');
+  }
+
+  const derivedField = DERIVED_FIELDS.find((field) => field in credential);
+  if (derivedField) {
+    throw new Error(`Invalid credential: JSON credentials must not contain the ${derivedField} property`);
+  }
+
+  if (!credential.type || !Array.isArray(credential.type)) {
+    throw new Error('Invalid credential: missing or invalid type property');
+  }
+
+  if (!credential.issuer) {
+    throw new Error('Invalid credential: missing issuer property');
+  }
+
+  return credential;
+}
+
+/**
+ * Decode one credential in any supported encoding
+ * @param value - JSON object, compact JWT / SD-JWT or base64url mdoc
+ */
+async function parseCredential(value: unknown): Promise<VerifiableCredential> {
+  if (typeof value !== 'string') {
+    return validateCredential(value);
+  }
+  if (isSdJwt(value)) {
+    return parseSdJwtCredential(value);
+  }
+  if (isJwt(value)) {
+    return parseJwtCredential(value);
+  }
+  if (isMdoc(value)) {
+    return parseMdocCredential(value);
+  }
+  throw new Error('Invalid credential: unsupported encoding');
+}
+
+/**
+ * Parse the contents of an import file into credentials
+ * @param text - File contents
+ * @returns The credentials to store, in file order
+ */
+export async function parseImportedCredentials(text: string): Promise<VerifiableCredential[]> {
+  const trimmed = text.trim();
+
+  if (isJwt(trimmed) && isJwtPresentation(trimmed)) {
+    const check = await checkJwtPresentation(trimmed);
+    if (check.status !== 'success') {
+      throw new Error(`Presentation could not be verified: ${check.message}`);
+    }
+
+    const { verifiableCredential } = parseJwtPresentation(trimmed);
+    if (verifiableCredential.length === 0) {
+      throw new Error('Presentation does not contain any credentials');
+    }
+    return Promise.all(verifiableCredential.map(parseCredential));
+  }
+
+  if (isSdJwt(trimmed) || isJwt(trimmed) || isMdoc(trimmed)) {
+    return [await parseCredential(trimmed)];
+  }
+
+  let credential;
+  try {
+    credential = JSON.parse(trimmed);
+  } catch (e) {
+    throw new Error('Invalid format. Please upload a JSON credential, a compact JWT or an mdoc.');
+  }
+
+  return [validateCredential(credential)];
+}
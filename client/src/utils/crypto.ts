@@ -0,0 +1,311 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 as nobleSha256 } from '@noble/hashes/sha256';
+import { BBS_PUBLIC_KEY_LENGTH, generateBbsSecretKey, getBbsPublicKey } from 'hedera-id-wallet-common/bbs';
+import {
+  encodeBase64Url,
+  decodeBase64Url,
+  encodeMultibase,
+  decodeMultibase,
+  utf8ToBytes,
+  bytesToUtf8,
+} from 'hedera-id-wallet-common/encoding';
+import { DIDKeyPair, KeyType } from '@/types';
+
+/**
+ * Verification method types used for each supported key type
+ */
+export const VERIFICATION_METHOD_TYPES: Record<KeyType, string> = {
+  ed25519: 'Ed25519VerificationKey2020',
+  secp256k1: 'EcdsaSecp256k1VerificationKey2019',
+  bls12381g2: 'Multikey',
+};
+
+/**
+ * JWS algorithm identifiers for each key type that can sign JWS
+ */
+export const JWS_ALGORITHMS: Record<Exclude<KeyType, 'bls12381g2'>, string> = {
+  ed25519: 'EdDSA',
+  secp256k1: 'ES256K',
+};
+
+/**
+ * Compute a SHA-256 digest
+ * @param data - Bytes or UTF-8 string to hash
+ */
+export async function sha256(data: Uint8Array | string): Promise<Uint8Array> {
+  const bytes = typeof data === 'string' ? utf8ToBytes(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return new Uint8Array(digest);
+}
+
+/**
+ * Build a public JWK from raw public key bytes
+ * @param keyType - Key type
+ * @param publicKey - Raw public key (32 bytes for Ed25519, compressed or uncompressed for secp256k1,
+ * 96-byte compressed G2 point for BLS12-381)
+ */
+export function publicKeyToJwk(keyType: KeyType, publicKey: Uint8Array): JsonWebKey {
+  if (keyType === 'ed25519') {
+    return {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: encodeBase64Url(publicKey),
+    };
+  }
+
+  if (keyType === 'bls12381g2') {
+    if (publicKey.length !== BBS_PUBLIC_KEY_LENGTH) {
+      throw new Error('Invalid BLS12-381 G2 public key');
+    }
+    return {
+      kty: 'OKP',
+      crv: 'Bls12381G2',
+      x: encodeBase64Url(publicKey),
+    };
+  }
+
+  const uncompressed = secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+  return {
+    kty: 'EC',
+    crv: 'secp256k1',
+    x: encodeBase64Url(uncompressed.slice(1, 33)),
+    y: encodeBase64Url(uncompressed.slice(33, 65)),
+  };
+}
+
+/**
+ * Determine the key type of a public JWK
+ */
+export function getJwkKeyType(jwk: JsonWebKey): KeyType {
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') return 'ed25519';
+  if (jwk.kty === 'EC' && jwk.crv === 'secp256k1') return 'secp256k1';
+  if (jwk.kty === 'OKP' && jwk.crv === 'Bls12381G2') return 'bls12381g2';
+  throw new Error(`Unsupported key: ${jwk.kty}/${jwk.crv}`);
+}
+
+/**
+ * Determine the key type of a stored key pair
+ */
+export function getKeyPairType(keyPair: DIDKeyPair): KeyType {
+  return getJwkKeyType(keyPair.publicKeyJwk);
+}
+
+/**
+ * Generate a new holder key pair
+ * Ed25519 keys are generated with WebCrypto; secp256k1 and BLS12-381 are not part of
+ * WebCrypto so those keys are generated with @noble/curves from WebCrypto randomness.
+ * @param keyType - Key type to generate
+ * @returns Key pair (without id/controller) and the raw public key bytes
+ */
+export async function generateKeyPair(keyType: KeyType = 'ed25519'): Promise<{
+  keyPair: Omit<DIDKeyPair, 'id'>;
+  publicKey: Uint8Array;
+}> {
+  if (keyType === 'ed25519') {
+    const cryptoKeyPair = (await crypto.subtle.generateKey(
+      { name: 'Ed25519' },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair;
+
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', cryptoKeyPair.publicKey));
+    const privateJwk = await crypto.subtle.exportKey('jwk', cryptoKeyPair.privateKey);
+    const privateKey = decodeBase64Url(privateJwk.d!);
+
+    return { keyPair: keyPairFromRaw('ed25519', privateKey, publicKey), publicKey };
+  }
+
+  if (keyType === 'secp256k1') {
+    const privateKey = secp256k1.utils.randomPrivateKey();
+    const publicKey = secp256k1.getPublicKey(privateKey, true);
+
+    return { keyPair: keyPairFromRaw('secp256k1', privateKey, publicKey), publicKey };
+  }
+
+  if (keyType === 'bls12381g2') {
+    const privateKey = generateBbsSecretKey();
+    const publicKey = getBbsPublicKey(privateKey);
+
+    return { keyPair: keyPairFromRaw('bls12381g2', privateKey, publicKey), publicKey };
+  }
+
+  throw new Error(`Unsupported key type: ${keyType}`);
+}
+
+/**
+ * Assemble a key pair record from raw key bytes
+ * The multibase-encoded private key is what keyStorage encrypts at rest.
+ */
+export function keyPairFromRaw(
+  keyType: KeyType,
+  privateKey: Uint8Array,
+  publicKey: Uint8Array
+): Omit<DIDKeyPair, 'id'> {
+  const publicKeyJwk = publicKeyToJwk(keyType, publicKey);
+
+  return {
+    type: VERIFICATION_METHOD_TYPES[keyType],
+    publicKeyJwk,
+    privateKeyMultibase: encodeMultibase(privateKey),
+    privateKeyJwk: { ...publicKeyJwk, d: encodeBase64Url(privateKey) },
+  };
+}
+
+/**
+ * Sign bytes with a key pair whose private key has been decrypted
+ * BLS12-381 keys cannot sign raw bytes; they only sign bbs-2023 proofs (see bbs2023.ts).
+ * @param keyPair - Key pair including privateKeyMultibase
+ * @param data - Data to sign
+ * @returns Raw signature (64 bytes for both Ed25519 and secp256k1)
+ */
+export async function signBytes(keyPair: DIDKeyPair, data: Uint8Array): Promise<Uint8Array> {
+  if (!keyPair.privateKeyMultibase) {
+    throw new Error('Private key is not available for signing');
+  }
+
+  const keyType = getKeyPairType(keyPair);
+  if (keyType === 'bls12381g2') {
+    throw new Error('BLS12-381 keys only sign bbs-2023 proofs');
+  }
+  const privateKey = decodeMultibase(keyPair.privateKeyMultibase);
+
+  if (keyType === 'ed25519') {
+    const signingKey = await crypto.subtle.importKey(
+      'jwk',
+      { ...keyPair.publicKeyJwk, d: encodeBase64Url(privateKey) },
+      { name: 'Ed25519' },
+      false,
+      ['sign']
+    );
+    return new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, signingKey, data as BufferSource));
+  }
+
+  return secp256k1.sign(nobleSha256(data), privateKey).toCompactRawBytes();
+}
+
+/**
+ * Verify a signature against a public JWK
+ * @param publicKeyJwk - Signer's public key
+ * @param data - Signed data
+ * @param signature - Raw signature
+ */
+export async function verifyBytes(
+  publicKeyJwk: JsonWebKey,
+  data: Uint8Array,
+  signature: Uint8Array
+): Promise<boolean> {
+  const keyType = getJwkKeyType(publicKeyJwk);
+
+  try {
+    if (keyType === 'ed25519') {
+      const verificationKey = await crypto.subtle.importKey(
+        'jwk',
+        { kty: 'OKP', crv: 'Ed25519', x: publicKeyJwk.x },
+        { name: 'Ed25519' },
+        false,
+        ['verify']
+      );
+      return await crypto.subtle.verify(
+        { name: 'Ed25519' },
+        verificationKey,
+        signature as BufferSource,
+        data as BufferSource
+      );
+    }
+
+    if (keyType === 'bls12381g2') {
+      return false;
+    }
+
+    const x = decodeBase64Url(publicKeyJwk.x!);
+    const y = decodeBase64Url(publicKeyJwk.y!);
+    const publicKey = new Uint8Array([0x04, ...x, ...y]);
+    return secp256k1.verify(signature, nobleSha256(data), publicKey);
+  } catch (error) {
+    console.error('Signature verification failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Decoded parts of a compact JWS
+ */
+export interface DecodedJws {
+  header: Record<string, any>;
+  payload: any;
+  signature: Uint8Array;
+  signingInput: string;
+}
+
+/**
+ * Create a compact JWS signed with a holder key
+ * @param payload - JSON payload
+ * @param keyPair - Key pair including the decrypted private key
+ * @param header - Additional protected header parameters (e.g. kid, typ)
+ */
+export async function signJws(
+  payload: Record<string, any>,
+  keyPair: DIDKeyPair,
+  header: Record<string, any> = {}
+): Promise<string> {
+  const keyType = getKeyPairType(keyPair);
+  if (keyType === 'bls12381g2') {
+    throw new Error('BLS12-381 keys only sign bbs-2023 proofs');
+  }
+
+  const protectedHeader = {
+    alg: JWS_ALGORITHMS[keyType],
+    kid: keyPair.id,
+    ...header,
+  };
+
+  const signingInput = `${encodeBase64Url(utf8ToBytes(JSON.stringify(protectedHeader)))}.${encodeBase64Url(
+    utf8ToBytes(JSON.stringify(payload))
+  )}`;
+  const signature = await signBytes(keyPair, utf8ToBytes(signingInput));
+
+  return `${signingInput}.${encodeBase64Url(signature)}`;
+}
+
+/**
+ * Decode a compact JWS without verifying it
+ * @param jws - Compact JWS
+ */
+export function decodeJws(jws: string): DecodedJws {
+  const parts = jws.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid JWS: expected three segments');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const payloadText = bytesToUtf8(decodeBase64Url(encodedPayload));
+  let payload: any;
+  try {
+    payload = JSON.parse(payloadText);
+  } catch {
+    payload = payloadText;
+  }
+
+  return {
+    header: JSON.parse(bytesToUtf8(decodeBase64Url(encodedHeader))),
+    payload,
+    signature: decodeBase64Url(encodedSignature),
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+  };
+}
+
+/**
+ * Verify a compact JWS against a public JWK
+ * @param jws - Compact JWS
+ * @param publicKeyJwk - Expected signer key
+ */
+export async function verifyJws(jws: string, publicKeyJwk: JsonWebKey): Promise<boolean> {
+  const { header, signature, signingInput } = decodeJws(jws);
+  const keyType = getJwkKeyType(publicKeyJwk);
+
+  if (keyType === 'bls12381g2' || header.alg !== JWS_ALGORITHMS[keyType]) {
+    return false;
+  }
+
+  return verifyBytes(publicKeyJwk, utf8ToBytes(signingInput), signature);
+}
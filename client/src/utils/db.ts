@@ -1,16 +1,17 @@
 import Dexie, { Table } from 'dexie';
-import { StoredCredential, DIDKeyPair, DatabaseSchema, VerifiableCredential } from '@/types';
+import { StoredCredential, DIDKeyPair, DatabaseSchema, VerifiableCredential, CachedStatusList } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * WalletDatabase class extends Dexie to provide typed access to IndexedDB
- * Stores credentials, keys, and settings for the wallet
+ * Stores credentials, keys, settings and cached status lists for the wallet
  */
 export class WalletDatabase extends Dexie {
   // Define tables with their types
   credentials!: Table<StoredCredential, string>;
   keys!: Table<DIDKeyPair, string>;
   settings!: Table<{ key: string; value: any }, string>;
+  statusLists!: Table<CachedStatusList, string>;
 
   constructor() {
     super('HederaIDWallet');
@@ -21,6 +22,16 @@ export class WalletDatabase extends Dexie {
       keys: 'id, type',
       settings: 'key'
     });
+
+    // Index keys by the DID that controls them
+    this.version(2).stores({
+      keys: 'id, type, controller'
+    });
+
+    // Cache of verified status list credentials, by URL and issuer
+    this.version(3).stores({
+      statusLists: 'url, issuer, expiresAt'
+    });
   }
 
   /**
@@ -46,6 +57,37 @@ export class WalletDatabase extends Dexie {
 // Create database instance
 const db = new WalletDatabase();
 
+/**
+ * Thrown when encrypted wallet data is used while the wallet is locked
+ */
+export class WalletLockedError extends Error {
+  constructor() {
+    super('The wallet is locked');
+    this.name = 'WalletLockedError';
+  }
+}
+
+// Setting holding the wrapped wallet key once it is protected by a passkey or passphrase
+export const WALLET_KEY_SLOTS_SETTING = 'walletKeySlots';
+
+// Unwrapped wallet key of a protected wallet; only kept in memory while unlocked
+let unlockedWalletKey: CryptoKey | null = null;
+
+/**
+ * Set or clear the unwrapped wallet key of a protected wallet
+ * @param key - Unwrapped key, or null to lock the wallet
+ */
+export function setUnlockedWalletKey(key: CryptoKey | null): void {
+  unlockedWalletKey = key;
+}
+
+/**
+ * Check whether the unwrapped wallet key is in memory
+ */
+export function hasUnlockedWalletKey(): boolean {
+  return unlockedWalletKey !== null;
+}
+
 /**
  * Encrypt sensitive data using the Web Crypto API
  * @param data - Data to encrypt
@@ -81,6 +123,7 @@ export async function encryptData(data: any, key?: CryptoKey): Promise<string> {
     // Convert to base64 for storage
     return btoa(String.fromCharCode(...new Uint8Array(combinedData)));
   } catch (error) {
+    if (error instanceof WalletLockedError) throw error;
     console.error('Encryption failed:', error);
     throw new Error('Failed to encrypt data');
   }
@@ -125,6 +168,7 @@ export async function decryptData(encryptedData: string, key?: CryptoKey): Promi
       return decodedString;
     }
   } catch (error) {
+    if (error instanceof WalletLockedError) throw error;
     console.error('Decryption failed:', error);
     throw new Error('Failed to decrypt data');
   }
@@ -132,9 +176,19 @@ export async function decryptData(encryptedData: string, key?: CryptoKey): Promi
 
 /**
  * Get or create a device-specific encryption key
- * This key is derived from a device identifier and stored in IndexedDB
+ * This key is derived from a device identifier and stored in IndexedDB. Once the wallet
+ * is protected (see walletKey.ts) only wrapped copies are stored, and the key is
+ * available only while the wallet is unlocked.
  */
 export async function getDeviceEncryptionKey(): Promise<CryptoKey> {
+  const keySlots = await db.settings.get(WALLET_KEY_SLOTS_SETTING);
+  if (keySlots?.value?.length) {
+    if (!unlockedWalletKey) {
+      throw new WalletLockedError();
+    }
+    return unlockedWalletKey;
+  }
+
   try {
     // Check if we already have a device key in settings
     const deviceKeyData = await db.settings.get('deviceEncryptionKey');
@@ -675,6 +729,38 @@ export const keyStorage = {
     }
   },
   
+  /**
+   * Get all key pairs controlled by a DID
+   * @param controller - DID that controls the keys
+   * @param includePrivateKeys - Whether to include and decrypt private keys
+   */
+  async getKeyPairsByController(controller: string, includePrivateKeys: boolean = false): Promise<DIDKeyPair[]> {
+    try {
+      const keyPairs = await db.keys.where('controller').equals(controller).toArray();
+
+      if (!includePrivateKeys) {
+        return keyPairs;
+      }
+
+      return Promise.all(
+        keyPairs.map(async (keyPair) => {
+          if ((keyPair as any).encrypted && (keyPair as any).encryptedPrivateKey) {
+            const privateKeyData = await decryptData((keyPair as any).encryptedPrivateKey);
+            return {
+              ...keyPair,
+              privateKeyMultibase: privateKeyData
+            };
+          }
+
+          return keyPair;
+        })
+      );
+    } catch (error) {
+      console.error('Failed to get key pairs by controller:', error);
+      throw new Error('Failed to retrieve key pairs');
+    }
+  },
+
   /**
    * Delete a key pair
    * @param id - ID of the key pair
@@ -759,116 +845,16 @@ export const settingsStorage = {
  * Database backup and restore operations
  */
 export const databaseBackup = {
-  /**
-   * Export database to JSON
-   * @param includeCredentials - Whether to include credentials
-   * @param includeKeys - Whether to include keys
-   * @param includeSettings - Whether to include settings
-   */
-  async exportDatabase({
-    includeCredentials = true,
-    includeKeys = true,
-    includeSettings = true
-  } = {}): Promise<string> {
-    try {
-      const data: any = {};
-      
-      if (includeCredentials) {
-        data.credentials = await db.credentials.toArray();
-      }
-      
-      if (includeKeys) {
-        data.keys = await db.keys.toArray();
-      }
-      
-      if (includeSettings) {
-        data.settings = await db.settings.toArray();
-      }
-      
-      // Add export metadata
-      data.exportMetadata = {
-        timestamp: new Date().toISOString(),
-        version: '1.0.0'
-      };
-      
-      return JSON.stringify(data);
-    } catch (error) {
-      console.error('Failed to export database:', error);
-      throw new Error('Failed to export database');
-    }
-  },
-  
-  /**
-   * Import database from JSON
-   * @param jsonData - JSON data to import
-   * @param options - Import options
-   */
-  async importDatabase(
-    jsonData: string,
-    {
-      overwrite = false,
-      importCredentials = true,
-      importKeys = true,
-      importSettings = true
-    } = {}
-  ): Promise<boolean> {
-    try {
-      const data = JSON.parse(jsonData);
-      
-      // Validate import data
-      if (!data.exportMetadata) {
-        throw new Error('Invalid import data: missing export metadata');
-      }
-      
-      // Start transaction
-      return await db.transaction('rw', [db.credentials, db.keys, db.settings], async () => {
-        // Import credentials
-        if (importCredentials && data.credentials) {
-          if (overwrite) {
-            await db.credentials.clear();
-          }
-          await db.credentials.bulkPut(data.credentials);
-        }
-        
-        // Import keys
-        if (importKeys && data.keys) {
-          if (overwrite) {
-            await db.keys.clear();
-          }
-          await db.keys.bulkPut(data.keys);
-        }
-        
-        // Import settings
-        if (importSettings && data.settings) {
-          if (overwrite) {
-            await db.settings.clear();
-          }
-          await db.settings.bulkPut(data.settings);
-        }
-        
-        // Update last backup timestamp
-        await db.settings.put({
-          key: 'lastBackup',
-          value: new Date().toISOString()
-        });
-        
-        return true;
-      });
-    } catch (error) {
-      console.error('Failed to import database:', error);
-      throw new Error('Failed to import database');
-    }
-  },
-  
   /**
    * Clear all data from the database
    */
   async clearDatabase(): Promise<boolean> {
     try {
-      await db.transaction('rw', [db.credentials, db.keys, db.settings], async () => {
+      await db.transaction('rw', [db.credentials, db.keys, db.settings, db.statusLists], async () => {
         await db.credentials.clear();
         await db.keys.clear();
         await db.settings.clear();
+        await db.statusLists.clear();
       });
       
       // Re-initialize with default settings
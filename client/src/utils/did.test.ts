@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { keyStorage } from './db';
+import { createDidKey, decodePublicKeyMultibase, resolveDid, resolveDidKey } from './did';
+import { signBytes, verifyBytes } from './crypto';
+
+describe('did:key', () => {
+  it('creates an Ed25519 did:key whose document resolves locally', async () => {
+    const { did, didDocument, keyPair } = await createDidKey('ed25519');
+
+    expect(did).toMatch(/^did:key:z6Mk/);
+    expect(resolveDidKey(did)).toEqual(didDocument);
+    expect(await resolveDid(`${did}#${keyPair.publicKeyMultibase}`)).toEqual(didDocument);
+    expect(keyPair.id).toBe(didDocument.authentication![0]);
+    expect(keyPair.controller).toBe(did);
+  });
+
+  it('creates a secp256k1 did:key with a compressed key', async () => {
+    const { did, keyPair } = await createDidKey('secp256k1');
+    const { keyType, publicKey } = decodePublicKeyMultibase(did.substring('did:key:'.length));
+
+    expect(did).toMatch(/^did:key:zQ3s/);
+    expect(keyType).toBe('secp256k1');
+    expect(publicKey).toHaveLength(33);
+    expect(keyPair.type).toBe('EcdsaSecp256k1VerificationKey2019');
+  });
+
+  it('keeps the private key in the wallet and signs with it', async () => {
+    const { didDocument, keyPair } = await createDidKey('ed25519');
+    await keyStorage.storeKeyPair(keyPair);
+
+    const stored = await keyStorage.getKeyPair(keyPair.id, true);
+    const data = new TextEncoder().encode('challenge');
+    const signature = await signBytes(stored!, data);
+
+    expect((await keyStorage.getKeyPair(keyPair.id))?.privateKeyMultibase).toBeUndefined();
+    expect(await verifyBytes(didDocument.verificationMethod![0].publicKeyJwk, data, signature)).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { concatBytes, decodeMultibase, encodeMultibase } from 'hedera-id-wallet-common/encoding';
+import { DIDDocument, DIDKeyPair, KeyType } from '@/types';
+import { userApi } from '@/services/api';
+import { publicKeyToJwk, VERIFICATION_METHOD_TYPES } from './crypto';
+import { createWalletKeyPair } from './mnemonic';
+
+/**
+ * did:key support for holder-owned DIDs
+ * Keys are generated in the browser; only the public DID document ever leaves the device.
+ */
+
+// Multicodec prefixes (unsigned varint) for public key types
+const MULTICODEC_PREFIXES: Record<KeyType, Uint8Array> = {
+  ed25519: new Uint8Array([0xed, 0x01]),
+  secp256k1: new Uint8Array([0xe7, 0x01]),
+  bls12381g2: new Uint8Array([0xeb, 0x01]),
+};
+
+/**
+ * Encode a raw public key as a multicodec-prefixed multibase value
+ * @param keyType - Key type
+ * @param publicKey - Raw public key (compressed for secp256k1)
+ */
+export function encodePublicKeyMultibase(keyType: KeyType, publicKey: Uint8Array): string {
+  const rawKey = keyType === 'secp256k1'
+    ? secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(true)
+    : publicKey;
+  return encodeMultibase(concatBytes(MULTICODEC_PREFIXES[keyType], rawKey));
+}
+
+/**
+ * Decode a multicodec-prefixed multibase public key
+ * @param publicKeyMultibase - Multibase value (e.g. did:key method-specific id)
+ */
+export function decodePublicKeyMultibase(publicKeyMultibase: string): {
+  keyType: KeyType;
+  publicKey: Uint8Array;
+} {
+  const bytes = decodeMultibase(publicKeyMultibase);
+
+  for (const [keyType, prefix] of Object.entries(MULTICODEC_PREFIXES) as [KeyType, Uint8Array][]) {
+    if (bytes[0] === prefix[0] && bytes[1] === prefix[1]) {
+      return { keyType, publicKey: bytes.slice(prefix.length) };
+    }
+  }
+
+  throw new Error('Unsupported multicodec key type');
+}
+
+/**
+ * Build the did:key DID document for a public key
+ * @param keyType - Key type
+ * @param publicKey - Raw public key
+ */
+export function createDidKeyDocument(keyType: KeyType, publicKey: Uint8Array): DIDDocument {
+  const multibase = encodePublicKeyMultibase(keyType, publicKey);
+  const did = `did:key:${multibase}`;
+  const verificationMethodId = `${did}#${multibase}`;
+
+  return {
+    id: did,
+    verificationMethod: [
+      {
+        id: verificationMethodId,
+        type: VERIFICATION_METHOD_TYPES[keyType],
+        controller: did,
+        publicKeyMultibase: multibase,
+        publicKeyJwk: publicKeyToJwk(keyType, publicKey),
+      },
+    ],
+    authentication: [verificationMethodId],
+    assertionMethod: [verificationMethodId],
+  };
+}
+
+/**
+ * Resolve a did:key DID to its DID document without any network access
+ * @param did - did:key DID
+ */
+export function resolveDidKey(did: string): DIDDocument {
+  if (!did.startsWith('did:key:')) {
+    throw new Error(`Not a did:key DID: ${did}`);
+  }
+
+  const multibase = did.substring('did:key:'.length).split('#')[0];
+  const { keyType, publicKey } = decodePublicKeyMultibase(multibase);
+  return createDidKeyDocument(keyType, publicKey);
+}
+
+/**
+ * Generate a new did:key DID with a locally held key pair
+ * Ed25519 keys are derived from the wallet's recovery phrase when it has one.
+ * @param keyType - Key type for the DID's key
+ * @returns DID, DID document and the key pair to store in keyStorage
+ */
+export async function createDidKey(keyType: KeyType = 'ed25519'): Promise<{
+  did: string;
+  didDocument: DIDDocument;
+  keyPair: DIDKeyPair;
+}> {
+  const { keyPair, publicKey } = await createWalletKeyPair(keyType);
+  return createDidKeyFromKeyPair(keyType, keyPair, publicKey);
+}
+
+/**
+ * Build the did:key DID of an existing key pair
+ * @param keyType - Key type
+ * @param keyPair - Key pair (without id/controller)
+ * @param publicKey - Raw public key
+ * @returns DID, DID document and the key pair to store in keyStorage
+ */
+export function createDidKeyFromKeyPair(
+  keyType: KeyType,
+  keyPair: Omit<DIDKeyPair, 'id'>,
+  publicKey: Uint8Array
+): {
+  did: string;
+  didDocument: DIDDocument;
+  keyPair: DIDKeyPair;
+} {
+  const didDocument = createDidKeyDocument(keyType, publicKey);
+  const verificationMethod = didDocument.verificationMethod![0];
+
+  return {
+    did: didDocument.id,
+    didDocument,
+    keyPair: {
+      ...keyPair,
+      id: verificationMethod.id,
+      controller: didDocument.id,
+      publicKeyMultibase: verificationMethod.publicKeyMultibase,
+      createdAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Find a verification method in a DID document by ID (absolute or relative)
+ * @param didDocument - DID document
+ * @param id - Verification method ID or fragment
+ */
+export function findVerificationMethod(didDocument: DIDDocument, id: string): any | undefined {
+  const absoluteId = id.startsWith('#') ? `${didDocument.id}${id}` : id;
+  return didDocument.verificationMethod?.find(
+    (method) => method.id === absoluteId || `${didDocument.id}${method.id}` === absoluteId
+  );
+}
+
+/**
+ * Check whether a verification method is referenced by a verification relationship
+ * @param didDocument - DID document
+ * @param relationship - e.g. 'authentication' or 'assertionMethod'
+ * @param id - Absolute verification method ID
+ */
+export function hasVerificationRelationship(
+  didDocument: DIDDocument,
+  relationship: 'authentication' | 'assertionMethod',
+  id: string
+): boolean {
+  return (didDocument[relationship] || []).some((entry) => {
+    const entryId = typeof entry === 'string' ? entry : entry.id;
+    return (entryId.startsWith('#') ? `${didDocument.id}${entryId}` : entryId) === id;
+  });
+}
+
+/**
+ * Get the public key of a verification method as a JWK
+ * @param verificationMethod - Verification method from a DID document
+ */
+export function getPublicKeyJwk(verificationMethod: any): JsonWebKey {
+  if (verificationMethod.publicKeyJwk) {
+    return verificationMethod.publicKeyJwk;
+  }
+
+  if (verificationMethod.publicKeyMultibase) {
+    const { keyType, publicKey } = decodePublicKeyMultibase(verificationMethod.publicKeyMultibase);
+    return publicKeyToJwk(keyType, publicKey);
+  }
+
+  throw new Error(`Verification method ${verificationMethod.id} has no supported public key`);
+}
+
+/**
+ * Resolve the key a DID signed a JWT with
+ * The key must be an assertion method of the DID; without a kid the first assertion method is used.
+ * @param did - Signer DID (the JWT issuer)
+ * @param kid - kid header of the JWT, absolute or relative to the DID
+ */
+export async function resolveAssertionMethodKey(did: string, kid?: string): Promise<JsonWebKey> {
+  if (kid && !kid.startsWith('#') && kid.split('#')[0] !== did) {
+    throw new Error('JWT was not signed by its issuer');
+  }
+
+  const didDocument = await resolveDid(did);
+  const assertionMethod = didDocument.assertionMethod?.[0];
+  const methodId = kid || (typeof assertionMethod === 'string' ? assertionMethod : assertionMethod?.id);
+  const verificationMethod = methodId && findVerificationMethod(didDocument, methodId);
+
+  if (!verificationMethod || !hasVerificationRelationship(didDocument, 'assertionMethod', verificationMethod.id)) {
+    throw new Error('Signing key is not an assertion method of the issuer DID');
+  }
+  return getPublicKeyJwk(verificationMethod);
+}
+
+/**
+ * Resolve any supported DID to its DID document
+ * did:key is resolved locally; other methods (did:hedera) are resolved by the server.
+ * @param did - DID to resolve (a DID URL fragment is ignored)
+ */
+export async function resolveDid(did: string): Promise<DIDDocument> {
+  const baseDid = did.split('#')[0];
+
+  if (baseDid.startsWith('did:key:')) {
+    return resolveDidKey(baseDid);
+  }
+
+  const { isValid, didDocument } = await userApi.validateDid(baseDid);
+  if (!isValid || !didDocument) {
+    throw new Error(`Unable to resolve DID: ${baseDid}`);
+  }
+
+  return didDocument;
+}
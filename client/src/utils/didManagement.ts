@@ -0,0 +1,459 @@
+import { DIDDocument, DIDKeyPair, HederaDidMessageEnvelope, HederaDidOperation, KeyType } from '@/types';
+import { userApi } from '@/services/api';
+import { keyStorage } from './db';
+import { createDidKey, createDidKeyFromKeyPair, encodePublicKeyMultibase, resolveDid } from './did';
+import { signJws, VERIFICATION_METHOD_TYPES } from './crypto';
+import { getHolderKeyPair } from './presentation';
+import {
+  createDidMessage,
+  createHederaDidIdentifier,
+  getRootKeyId,
+  isHederaDid,
+  signDidMessage,
+} from './hederaDid';
+import {
+  createWalletKeyPair,
+  createWalletMnemonic,
+  deriveWalletKeyPair,
+  getWalletMnemonic,
+  isValidMnemonic,
+  mnemonicToWalletSeed,
+  normalizeMnemonic,
+  reserveKeyIndex,
+  storeWalletMnemonic,
+} from './mnemonic';
+
+/**
+ * Changes to the user's DID
+ * did:key documents are derived from the key and cannot change, so rotating a did:key
+ * replaces the DID. did:hedera documents are updated in place by DID messages signed
+ * with the DIDOwner key. New keys are stored before the server is called and removed
+ * again if the change is rejected.
+ */
+
+// Number of unused key indexes scanned past the last match when restoring from a phrase
+const RESTORE_GAP_LIMIT = 20;
+
+/**
+ * Verification relationships a new key can be added to
+ */
+export type DidKeyRelationship = 'authentication' | 'assertionMethod' | 'capabilityInvocation' | 'capabilityDelegation';
+
+/**
+ * Result of a DID change
+ */
+export interface DidUpdateResult {
+  did: string;
+  didDocument: DIDDocument;
+  previousDid?: string;
+}
+
+/**
+ * Build a fresh key pair stored under a verification method ID
+ * @param id - Verification method ID
+ * @param controller - Controlling DID
+ * @param keyType - Key type
+ */
+async function createVerificationKey(id: string, controller: string, keyType: KeyType = 'ed25519'): Promise<DIDKeyPair> {
+  const { keyPair, publicKey } = await createWalletKeyPair(keyType);
+
+  return {
+    ...keyPair,
+    id,
+    type: VERIFICATION_METHOD_TYPES[keyType],
+    controller,
+    publicKeyMultibase: encodePublicKeyMultibase(keyType, publicKey),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Find the first `${did}#<prefix>-N` ID not used in a DID document
+ * @param didDocument - DID document
+ * @param prefix - Fragment prefix, e.g. 'key' or 'service'
+ */
+function nextFragmentId(didDocument: DIDDocument, prefix: string): string {
+  const usedIds = new Set([
+    ...(didDocument.verificationMethod || []).map((method) => method.id),
+    ...(didDocument.service || []).map((service) => service.id),
+  ]);
+
+  let index = 1;
+  while (usedIds.has(`${didDocument.id}#${prefix}-${index}`)) {
+    index++;
+  }
+  return `${didDocument.id}#${prefix}-${index}`;
+}
+
+/**
+ * Get the DIDOwner key pair of a did:hedera DID from this device
+ * @param did - did:hedera identifier
+ */
+async function getOwnerKeyPair(did: string): Promise<DIDKeyPair> {
+  const keyPair = await keyStorage.getKeyPair(getRootKeyId(did), true);
+
+  if (!keyPair?.privateKeyMultibase) {
+    throw new Error('The DID owner key is not stored on this device');
+  }
+
+  return keyPair;
+}
+
+/**
+ * Sign DID events with the DIDOwner key and publish them through the server
+ * @param did - did:hedera identifier
+ * @param events - Operations and events, in order
+ * @param ownerKeyPair - Current DIDOwner key pair
+ */
+async function publishDidEvents(
+  did: string,
+  events: { operation: HederaDidOperation; event: Record<string, any> }[],
+  ownerKeyPair: DIDKeyPair
+): Promise<DidUpdateResult> {
+  const messages: HederaDidMessageEnvelope[] = [];
+  for (const { operation, event } of events) {
+    messages.push(await signDidMessage(createDidMessage(did, operation, event), ownerKeyPair));
+  }
+
+  const response = await userApi.updateDid({ messages });
+  return { did: response.did, didDocument: response.didDocument };
+}
+
+/**
+ * Replace the user's DID, proving control of both the current and the new DID
+ * @param currentDid - The user's current DID
+ * @param newDid - Replacement DID
+ * @param newKeyPair - Authentication key of the new DID (stored on this device)
+ * @param didMessages - Create messages for a new did:hedera
+ */
+async function replaceDid(
+  currentDid: string,
+  newDid: string,
+  newKeyPair: DIDKeyPair,
+  didMessages?: HederaDidMessageEnvelope[]
+): Promise<DidUpdateResult> {
+  const currentKeyPair = await getHolderKeyPair(currentDid);
+  const { challenge, audience } = await userApi.getDidChallenge();
+  const iat = Math.floor(Date.now() / 1000);
+
+  const proof = await signJws({ iss: newDid, aud: audience, nonce: challenge, iat }, newKeyPair);
+  const controllerProof = await signJws(
+    { iss: currentDid, sub: newDid, aud: audience, nonce: challenge, iat },
+    currentKeyPair
+  );
+
+  const response = await userApi.rotateDid({ did: newDid, proof, controllerProof, didMessages });
+  return { did: response.did, didDocument: response.didDocument, previousDid: response.previousDid };
+}
+
+/**
+ * Rotate the authentication key of the user's DID
+ * did:hedera: the DIDOwner key is updated on the DID topic and the DID stays the same.
+ * did:key: a new did:key replaces the DID. Keys of the old DID are kept so credentials
+ * issued to it can still be presented.
+ * @param did - The user's current DID
+ */
+export async function rotateAuthenticationKey(did: string): Promise<DidUpdateResult> {
+  if (!isHederaDid(did)) {
+    const { did: newDid, keyPair } = await createDidKey('ed25519');
+    await keyStorage.storeKeyPair(keyPair);
+
+    try {
+      return await replaceDid(did, newDid, keyPair);
+    } catch (error) {
+      await keyStorage.deleteKeyPair(keyPair.id);
+      throw error;
+    }
+  }
+
+  const ownerKeyPair = await getOwnerKeyPair(did);
+  const newKeyPair = await createVerificationKey(getRootKeyId(did), did);
+
+  // The root key keeps its ID, so the new key overwrites the old one until the update is rejected
+  await keyStorage.storeKeyPair(newKeyPair);
+
+  try {
+    return await publishDidEvents(
+      did,
+      [
+        {
+          operation: 'update',
+          event: {
+            DIDOwner: {
+              id: newKeyPair.id,
+              type: newKeyPair.type,
+              controller: did,
+              publicKeyMultibase: newKeyPair.publicKeyMultibase,
+            },
+          },
+        },
+      ],
+      ownerKeyPair
+    );
+  } catch (error) {
+    await keyStorage.storeKeyPair(ownerKeyPair);
+    throw error;
+  }
+}
+
+/**
+ * Replace the user's DID after an account recovery
+ * The keys of the old DID were lost with the device, so the server accepts a new
+ * did:key without a proof from the old DID, once, right after the recovery.
+ * A wallet without a recovery phrase gets a new one for the new DID's key.
+ */
+export async function rebindDidAfterRecovery(): Promise<DidUpdateResult> {
+  if (!(await getWalletMnemonic())) {
+    await createWalletMnemonic();
+  }
+
+  const { did: newDid, keyPair } = await createDidKey('ed25519');
+  await keyStorage.storeKeyPair(keyPair);
+
+  try {
+    const { challenge, audience } = await userApi.getDidChallenge();
+    const proof = await signJws(
+      { iss: newDid, aud: audience, nonce: challenge, iat: Math.floor(Date.now() / 1000) },
+      keyPair
+    );
+
+    const response = await userApi.rotateDid({ did: newDid, proof });
+    return { did: response.did, didDocument: response.didDocument, previousDid: response.previousDid };
+  } catch (error) {
+    await keyStorage.deleteKeyPair(keyPair.id);
+    throw error;
+  }
+}
+
+/**
+ * Restore the keys of the user's DID from a recovery phrase
+ * Wallet keys are derived at consecutive indexes, so indexes are scanned until
+ * RESTORE_GAP_LIMIT in a row match neither the DID (did:key) nor a key of its DID
+ * document (did:hedera). Keys of earlier did:key DIDs found on the way are restored
+ * too, so credentials issued to them can still be presented.
+ * @param mnemonic - Recovery phrase
+ * @param did - The user's current DID
+ * @returns Number of restored keys
+ */
+export async function restoreKeysFromMnemonic(mnemonic: string, did: string): Promise<number> {
+  if (!isValidMnemonic(mnemonic)) {
+    throw new Error('This is not a valid recovery phrase. Check the words and their order.');
+  }
+
+  const didDocument = await resolveDid(did);
+  const methods = new Map<string, { id: string; controller: string }>();
+  for (const method of didDocument.verificationMethod || []) {
+    if (method.publicKeyMultibase) {
+      methods.set(method.publicKeyMultibase, { id: method.id, controller: method.controller || did });
+    }
+  }
+
+  const seed = await mnemonicToWalletSeed(mnemonic);
+  const candidates: DIDKeyPair[] = []; // Key at each scanned index
+  let lastMatch = -1;
+
+  for (let index = 0; index <= lastMatch + RESTORE_GAP_LIMIT; index++) {
+    const { keyPair, publicKey } = deriveWalletKeyPair(seed, index);
+    const publicKeyMultibase = encodePublicKeyMultibase('ed25519', publicKey);
+    const method = methods.get(publicKeyMultibase);
+
+    if (method) {
+      candidates.push({
+        ...keyPair,
+        id: method.id,
+        type: VERIFICATION_METHOD_TYPES.ed25519,
+        controller: method.controller,
+        publicKeyMultibase,
+        createdAt: new Date().toISOString(),
+      });
+      lastMatch = index;
+      continue;
+    }
+
+    const didKey = createDidKeyFromKeyPair('ed25519', keyPair, publicKey);
+    candidates.push(didKey.keyPair);
+    if (didKey.did === did) {
+      lastMatch = index;
+    }
+  }
+
+  if (lastMatch < 0) {
+    throw new Error('This recovery phrase does not belong to your DID');
+  }
+
+  // Keep the matched keys and every did:key key derived before the last one
+  const restored = candidates.slice(0, lastMatch + 1);
+  for (const keyPair of restored) {
+    await keyStorage.storeKeyPair(keyPair);
+  }
+
+  // New keys continue from the restored phrase, unless this wallet already has its own
+  const storedMnemonic = await getWalletMnemonic();
+  if (!storedMnemonic) {
+    await storeWalletMnemonic(mnemonic, true, lastMatch + 1);
+  } else if (storedMnemonic === normalizeMnemonic(mnemonic)) {
+    await reserveKeyIndex(lastMatch);
+  }
+
+  return restored.length;
+}
+
+/**
+ * Move the user's DID to a new did:hedera anchored on HCS
+ * Services of the current DID document are carried over.
+ * @param did - The user's current DID
+ * @param currentDocument - The current DID document
+ */
+export async function migrateToHederaDid(did: string, currentDocument?: DIDDocument): Promise<DidUpdateResult> {
+  const { topicId, network } = await userApi.createDidTopic();
+
+  const { keyPair, publicKey } = await createWalletKeyPair('ed25519');
+  const publicKeyMultibase = encodePublicKeyMultibase('ed25519', publicKey);
+  const newDid = createHederaDidIdentifier(network, publicKeyMultibase, topicId);
+  const rootKeyPair: DIDKeyPair = {
+    ...keyPair,
+    id: getRootKeyId(newDid),
+    type: VERIFICATION_METHOD_TYPES.ed25519,
+    controller: newDid,
+    publicKeyMultibase,
+    createdAt: new Date().toISOString(),
+  };
+
+  const events: { operation: HederaDidOperation; event: Record<string, any> }[] = [
+    {
+      operation: 'create',
+      event: {
+        DIDOwner: {
+          id: rootKeyPair.id,
+          type: rootKeyPair.type,
+          controller: newDid,
+          publicKeyMultibase,
+        },
+      },
+    },
+  ];
+
+  for (const service of currentDocument?.service || []) {
+    const fragment = String(service.id).split('#')[1];
+    if (!fragment) continue;
+
+    events.push({
+      operation: 'create',
+      event: { Service: { id: `${newDid}#${fragment}`, type: service.type, serviceEndpoint: service.serviceEndpoint } },
+    });
+  }
+
+  await keyStorage.storeKeyPair(rootKeyPair);
+
+  try {
+    const didMessages: HederaDidMessageEnvelope[] = [];
+    for (const { operation, event } of events) {
+      didMessages.push(await signDidMessage(createDidMessage(newDid, operation, event), rootKeyPair));
+    }
+
+    return await replaceDid(did, newDid, rootKeyPair, didMessages);
+  } catch (error) {
+    await keyStorage.deleteKeyPair(rootKeyPair.id);
+    throw error;
+  }
+}
+
+/**
+ * Add a new key to the user's did:hedera document
+ * @param didDocument - Current DID document
+ * @param relationship - Verification relationship for the key, or undefined for a plain verification method
+ * @param keyType - Key type
+ */
+export async function addVerificationMethod(
+  didDocument: DIDDocument,
+  relationship?: DidKeyRelationship,
+  keyType: KeyType = 'ed25519'
+): Promise<DidUpdateResult> {
+  const did = didDocument.id;
+  if (!isHederaDid(did)) {
+    throw new Error('Keys can only be added to did:hedera DIDs');
+  }
+
+  const ownerKeyPair = await getOwnerKeyPair(did);
+  const keyPair = await createVerificationKey(nextFragmentId(didDocument, 'key'), did, keyType);
+  const method = {
+    id: keyPair.id,
+    type: keyPair.type,
+    controller: did,
+    publicKeyMultibase: keyPair.publicKeyMultibase,
+  };
+
+  await keyStorage.storeKeyPair(keyPair);
+
+  try {
+    return await publishDidEvents(
+      did,
+      [
+        relationship
+          ? { operation: 'create', event: { VerificationRelationship: { ...method, relationshipType: relationship } } }
+          : { operation: 'create', event: { VerificationMethod: method } },
+      ],
+      ownerKeyPair
+    );
+  } catch (error) {
+    await keyStorage.deleteKeyPair(keyPair.id);
+    throw error;
+  }
+}
+
+/**
+ * Remove a key from the user's did:hedera document
+ * The root key cannot be removed; rotate it instead.
+ * @param did - did:hedera identifier
+ * @param id - Verification method ID
+ */
+export async function removeVerificationMethod(did: string, id: string): Promise<DidUpdateResult> {
+  if (!isHederaDid(did) || id === getRootKeyId(did)) {
+    throw new Error('This key cannot be removed');
+  }
+
+  const result = await publishDidEvents(
+    did,
+    [{ operation: 'revoke', event: { VerificationMethod: { id } } }],
+    await getOwnerKeyPair(did)
+  );
+
+  await keyStorage.deleteKeyPair(id);
+  return result;
+}
+
+/**
+ * Add a service endpoint to the user's did:hedera document
+ * @param didDocument - Current DID document
+ * @param type - Service type, e.g. 'LinkedDomains'
+ * @param serviceEndpoint - Service endpoint URL
+ */
+export async function addService(didDocument: DIDDocument, type: string, serviceEndpoint: string): Promise<DidUpdateResult> {
+  const did = didDocument.id;
+  if (!isHederaDid(did)) {
+    throw new Error('Services can only be added to did:hedera DIDs');
+  }
+
+  return publishDidEvents(
+    did,
+    [{ operation: 'create', event: { Service: { id: nextFragmentId(didDocument, 'service'), type, serviceEndpoint } } }],
+    await getOwnerKeyPair(did)
+  );
+}
+
+/**
+ * Remove a service endpoint from the user's did:hedera document
+ * @param did - did:hedera identifier
+ * @param id - Service ID
+ */
+export async function removeService(did: string, id: string): Promise<DidUpdateResult> {
+  if (!isHederaDid(did)) {
+    throw new Error('Services can only be removed from did:hedera DIDs');
+  }
+
+  return publishDidEvents(
+    did,
+    [{ operation: 'revoke', event: { Service: { id } } }],
+    await getOwnerKeyPair(did)
+  );
+}
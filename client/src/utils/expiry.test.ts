@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import axios, { AxiosAdapter } from 'axios';
+import { splitProof } from 'hedera-id-wallet-common/proofs';
+import { CredentialStatus, StoredCredential } from '@/types';
+import db, { credentialStorage } from './db';
+import {
+  getDaysUntilExpiry,
+  getExpiringCredentials,
+  markExpiredCredentials,
+  requestCredentialRenewal,
+} from './expiry';
+import { verifyProof } from './proofs';
+import { resolveDidKey } from './did';
+import { createTestIssuer, issueCredential, TestIssuer } from '@/test/issuer';
+import { createHolder, storeCredential, TestHolder } from '@/test/wallet';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+const REFRESH_URL = 'https://issuer.test/refresh';
+
+const withExpiry = (expirationDate: string | undefined, status?: CredentialStatus) =>
+  ({ expirationDate, status, localId: crypto.randomUUID() }) as unknown as StoredCredential;
+
+describe('credential expiry', () => {
+  let issuer: TestIssuer;
+  let holder: TestHolder;
+
+  beforeEach(async () => {
+    await db.credentials.clear();
+    issuer = await createTestIssuer();
+    holder = await createHolder();
+  });
+
+  it('counts whole days until a credential expires', () => {
+    expect(getDaysUntilExpiry(withExpiry('2025-06-11T12:00:00Z'), NOW)).toBe(10);
+    expect(getDaysUntilExpiry(withExpiry('2025-05-31T00:00:00Z'), NOW)).toBe(-1);
+    expect(getDaysUntilExpiry({ ...withExpiry(undefined), validUntil: '2025-06-01T12:00:00Z' }, NOW)).toBe(0);
+    expect(getDaysUntilExpiry(withExpiry(undefined), NOW)).toBeNull();
+  });
+
+  it('lists active credentials expiring within the warning window, soonest first', () => {
+    const later = withExpiry('2025-06-20T00:00:00Z');
+    const sooner = withExpiry('2025-06-05T00:00:00Z');
+    const credentials = [
+      later,
+      withExpiry('2025-08-01T00:00:00Z'),
+      sooner,
+      withExpiry('2025-06-03T00:00:00Z', CredentialStatus.REVOKED),
+      withExpiry('2025-05-01T00:00:00Z'),
+      withExpiry(undefined),
+    ];
+
+    expect(getExpiringCredentials(credentials, 30, NOW)).toEqual([sooner, later]);
+  });
+
+  it('marks expired credentials but keeps revoked ones revoked', async () => {
+    const expired = await storeCredential(await issueCredential(issuer, { id: holder.did }, { expirationDate: '2025-05-01T00:00:00Z' }));
+    const valid = await storeCredential(await issueCredential(issuer, { id: holder.did }, { expirationDate: '2026-01-01T00:00:00Z' }));
+    const revoked = await storeCredential(await issueCredential(issuer, { id: holder.did }, { expirationDate: '2025-05-01T00:00:00Z' }));
+    await credentialStorage.updateCredential(revoked.localId, { status: CredentialStatus.REVOKED });
+
+    expect(await markExpiredCredentials(NOW)).toBe(1);
+
+    expect((await credentialStorage.getCredential(expired.localId))?.status).toBe(CredentialStatus.EXPIRED);
+    expect((await credentialStorage.getCredential(valid.localId))?.status).not.toBe(CredentialStatus.EXPIRED);
+    expect((await credentialStorage.getCredential(revoked.localId))?.status).toBe(CredentialStatus.REVOKED);
+  });
+
+  describe('requestCredentialRenewal', () => {
+    let previousAdapter: typeof axios.defaults.adapter;
+    let presentations: any[];
+    let renewWith: (() => Promise<any>) | null;
+
+    beforeEach(() => {
+      presentations = [];
+      renewWith = null;
+
+      // VC Refresh 2021 service: a presentation request, then the renewed credential
+      const adapter: AxiosAdapter = async (config) => {
+        const body = config.data ? JSON.parse(config.data) : {};
+        let data: any = { verifiablePresentationRequest: { challenge: 'refresh-challenge', domain: 'issuer.test' } };
+        if (body.verifiablePresentation) {
+          presentations.push(body.verifiablePresentation);
+          data = { verifiableCredential: await renewWith!() };
+        }
+        return { data, status: 200, statusText: 'OK', headers: {}, config };
+      };
+      previousAdapter = axios.defaults.adapter;
+      axios.defaults.adapter = adapter;
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = previousAdapter;
+    });
+
+    const storeRenewable = async () => {
+      const stored = await storeCredential(
+        await issueCredential(
+          issuer,
+          { id: holder.did, email: 'holder@example.com' },
+          {
+            expirationDate: '2025-05-01T00:00:00Z',
+            refreshService: { id: REFRESH_URL, type: 'VerifiableCredentialRefreshService2021' },
+          },
+        )
+      );
+      await credentialStorage.updateCredential(stored.localId, { status: CredentialStatus.EXPIRED, tags: ['work'] });
+      return (await credentialStorage.getCredential(stored.localId))!;
+    };
+
+    it('replaces the stored credential with the renewed one', async () => {
+      const stored = await storeRenewable();
+      renewWith = () => issueCredential(issuer, { id: holder.did, email: 'holder@example.com' }, { expirationDate: '2099-01-01T00:00:00Z' });
+
+      const result = await requestCredentialRenewal(stored);
+
+      expect(result.status).toBe('renewed');
+      const updated = (await credentialStorage.getCredential(stored.localId))!;
+      expect(updated).toMatchObject({ status: CredentialStatus.ACTIVE, expirationDate: '2099-01-01T00:00:00Z', tags: ['work'] });
+      expect(updated.refreshService).toBeUndefined();
+
+      const { unsecuredDocument, proof } = splitProof(presentations[0]);
+      expect(proof).toMatchObject({ challenge: 'refresh-challenge', domain: 'issuer.test' });
+      const publicKeyJwk = resolveDidKey(holder.did).verificationMethod![0].publicKeyJwk;
+      expect(await verifyProof(unsecuredDocument, proof, publicKeyJwk)).toBe(true);
+    });
+
+    it('refuses a credential from another issuer or with a broken proof', async () => {
+      const stored = await storeRenewable();
+      const other = await createTestIssuer();
+
+      renewWith = () => issueCredential(other, { id: holder.did, email: 'holder@example.com' });
+      await expect(requestCredentialRenewal(stored)).rejects.toThrow('Renewed credential was issued by a different issuer');
+
+      renewWith = async () => ({
+        ...(await issueCredential(issuer, { id: holder.did, email: 'holder@example.com' })),
+        credentialSubject: { id: holder.did, email: 'attacker@example.com' },
+      });
+      await expect(requestCredentialRenewal(stored)).rejects.toThrow(/^Renewed credential failed verification/);
+      expect((await credentialStorage.getCredential(stored.localId))?.status).toBe(CredentialStatus.EXPIRED);
+    });
+
+    it('sends the user to a manual refresh service', async () => {
+      const stored = await storeCredential(
+        await issueCredential(issuer, { id: holder.did }, {
+          refreshService: { id: 'https://issuer.test/renew', type: 'ManualRefreshService2018' },
+        })
+      );
+
+      expect(await requestCredentialRenewal(stored)).toEqual({ status: 'redirect', url: 'https://issuer.test/renew' });
+    });
+  });
+});
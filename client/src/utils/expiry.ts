@@ -0,0 +1,236 @@
+import axios, { AxiosError } from 'axios';
+import { CredentialStatus, RefreshService, StoredCredential, VerifiableCredential } from '@/types';
+import { credentialStorage } from './db';
+import { createSignedPresentation, toVerifiableCredential } from './presentation';
+import { checkSignature, getIssuerId } from './verification';
+
+/**
+ * Credential expiry and renewal
+ * Stored credentials are marked expired once their validity period ends, and
+ * credentials that advertise a refreshService can be renewed from their issuer.
+ */
+
+/**
+ * Credentials expiring within this many days are flagged as expiring soon
+ */
+export const EXPIRY_WARNING_DAYS = 30;
+
+/**
+ * refreshService types the wallet can use
+ */
+export const SUPPORTED_REFRESH_SERVICE_TYPES = ['VerifiableCredentialRefreshService2021', 'ManualRefreshService2018'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Outcome of a renewal request
+ * A manual refresh service cannot renew in the background; the user has to visit its page.
+ */
+export type CredentialRenewalResult =
+  | { status: 'renewed'; credential: StoredCredential }
+  | { status: 'redirect'; url: string };
+
+/**
+ * Extract a readable message from a refresh service error response
+ */
+function getRefreshErrorMessage(error: unknown, fallback: string): string {
+  const data = (error as AxiosError<any>)?.response?.data;
+  if (data?.message) return data.message;
+  if (data?.error) return data.error;
+  return fallback;
+}
+
+/**
+ * Get the end of a credential's validity period
+ * @param credential - Credential
+ * @returns validUntil (VC 2.0) or expirationDate (VC 1.1), or null if it does not expire
+ */
+export function getCredentialExpiry(credential: VerifiableCredential): Date | null {
+  const validUntil = credential.validUntil || credential.expirationDate;
+  if (!validUntil) {
+    return null;
+  }
+
+  const expiry = new Date(validUntil);
+  return Number.isNaN(expiry.getTime()) ? null : expiry;
+}
+
+/**
+ * Get the number of days until a credential expires
+ * @param credential - Credential
+ * @param now - Reference time
+ * @returns Whole days left (0 on the last day, negative once expired), or null if it does not expire
+ */
+export function getDaysUntilExpiry(credential: VerifiableCredential, now: Date = new Date()): number | null {
+  const expiry = getCredentialExpiry(credential);
+  if (!expiry) {
+    return null;
+  }
+  return Math.floor((expiry.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Get the credentials that expire within the warning window, soonest first
+ * Revoked and already expired credentials are left out.
+ * @param credentials - Stored credentials
+ * @param days - Warning window in days
+ * @param now - Reference time
+ */
+export function getExpiringCredentials(
+  credentials: StoredCredential[],
+  days: number = EXPIRY_WARNING_DAYS,
+  now: Date = new Date()
+): StoredCredential[] {
+  return credentials
+    .filter((credential) => {
+      if (credential.status === CredentialStatus.REVOKED || credential.status === CredentialStatus.EXPIRED) {
+        return false;
+      }
+      const expiry = getCredentialExpiry(credential);
+      return !!expiry && expiry > now && expiry.getTime() - now.getTime() <= days * DAY_MS;
+    })
+    .sort((a, b) => getCredentialExpiry(a)!.getTime() - getCredentialExpiry(b)!.getTime());
+}
+
+/**
+ * Mark stored credentials whose validity period has ended as expired
+ * Revoked credentials keep their status.
+ * @param now - Reference time
+ * @returns Number of credentials marked expired
+ */
+export async function markExpiredCredentials(now: Date = new Date()): Promise<number> {
+  const credentials = await credentialStorage.getAllCredentials();
+  let expired = 0;
+
+  for (const credential of credentials) {
+    // Skip credentials that could not be decrypted
+    if (credential.credentialSubject?._encrypted) {
+      continue;
+    }
+
+    if (credential.status === CredentialStatus.REVOKED || credential.status === CredentialStatus.EXPIRED) {
+      continue;
+    }
+
+    const expiry = getCredentialExpiry(credential);
+    if (expiry && expiry <= now) {
+      await credentialStorage.updateCredential(credential.localId, { status: CredentialStatus.EXPIRED });
+      expired++;
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Get the refresh service of a credential the wallet can use
+ * @param credential - Credential
+ */
+export function getRefreshService(credential: VerifiableCredential): RefreshService | null {
+  if (!credential.refreshService) {
+    return null;
+  }
+
+  const services = Array.isArray(credential.refreshService) ? credential.refreshService : [credential.refreshService];
+  return services.find((service) => SUPPORTED_REFRESH_SERVICE_TYPES.includes(service.type) && getRefreshServiceUrl(service)) || null;
+}
+
+/**
+ * Get the URL of a refresh service
+ * @param service - refreshService entry
+ */
+function getRefreshServiceUrl(service: RefreshService): string | undefined {
+  return service.type === 'VerifiableCredentialRefreshService2021' ? service.url || service.id : service.id;
+}
+
+/**
+ * Run the VC Refresh 2021 exchange: request a presentation request, answer it with a
+ * DID authentication presentation containing the old credential, receive the new one
+ * @param credential - Credential to renew
+ * @param url - Refresh service URL
+ */
+async function exchangeRefreshedCredential(credential: StoredCredential, url: string): Promise<VerifiableCredential> {
+  const holder = credential.credentialSubject.id;
+  if (!holder) {
+    throw new Error('Only credentials bound to your DID can be renewed');
+  }
+
+  try {
+    const requestResponse = await axios.post(url, {}, { timeout: REQUEST_TIMEOUT_MS });
+    const presentationRequest = requestResponse.data?.verifiablePresentationRequest ?? requestResponse.data;
+
+    const presentation = await createSignedPresentation([credential], holder, {
+      challenge: presentationRequest?.challenge,
+      domain: presentationRequest?.domain,
+    });
+
+    const response = await axios.post(
+      url,
+      { verifiablePresentation: presentation },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    const returned = response.data?.verifiablePresentation?.verifiableCredential ?? response.data?.verifiableCredential;
+    const candidates: VerifiableCredential[] = Array.isArray(returned) ? returned : returned ? [returned] : [];
+    const renewed = candidates.find((candidate) => candidate?.type?.some((type) => type !== 'VerifiableCredential' && credential.type.includes(type)));
+
+    if (!renewed) {
+      throw new Error('The issuer did not return a renewed credential');
+    }
+    return renewed;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(getRefreshErrorMessage(error, 'The refresh service could not be reached'));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Request renewal of a credential from its issuer's refresh service
+ * A renewed credential must come from the same issuer, be bound to the same subject and
+ * carry a valid proof; it then replaces the stored credential, keeping its tags and metadata.
+ * @param credential - Stored credential
+ */
+export async function requestCredentialRenewal(credential: StoredCredential): Promise<CredentialRenewalResult> {
+  const service = getRefreshService(credential);
+  const url = service && getRefreshServiceUrl(service);
+  if (!service || !url) {
+    throw new Error('This credential cannot be renewed from the wallet');
+  }
+
+  if (!url.startsWith('https://') && !url.startsWith('http://localhost')) {
+    throw new Error(`Refresh service URL must use https: ${url}`);
+  }
+
+  if (service.type === 'ManualRefreshService2018') {
+    return { status: 'redirect', url };
+  }
+
+  const renewed = await exchangeRefreshedCredential(credential, url);
+
+  if (getIssuerId(renewed) !== getIssuerId(credential)) {
+    throw new Error('Renewed credential was issued by a different issuer');
+  }
+  if (renewed.credentialSubject?.id !== credential.credentialSubject.id) {
+    throw new Error('Renewed credential is not bound to your DID');
+  }
+
+  const signature = await checkSignature(renewed);
+  if (signature.status !== 'success') {
+    throw new Error(`Renewed credential failed verification: ${signature.message}`);
+  }
+
+  // Replace every field of the old credential, not just the ones the new one sets
+  const cleared = Object.fromEntries(Object.keys(toVerifiableCredential(credential)).map((key) => [key, undefined]));
+  const expiry = getCredentialExpiry(renewed);
+  const updates: Partial<StoredCredential> = {
+    ...cleared,
+    ...toVerifiableCredential(renewed as StoredCredential),
+    status: expiry && expiry <= new Date() ? CredentialStatus.EXPIRED : CredentialStatus.ACTIVE,
+  };
+
+  await credentialStorage.updateCredential(credential.localId, updates);
+  return { status: 'renewed', credential: { ...credential, ...updates } };
+}
@@ -0,0 +1,69 @@
+import { encodeBase64, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import { HederaDidMessage, HederaDidMessageEnvelope, HederaDidOperation, DIDKeyPair } from '@/types';
+import { signBytes } from './crypto';
+
+/**
+ * did:hedera DID messages (Hedera DID method v1.0 / HIP-27)
+ * DID messages are signed on this device with the DIDOwner key and published to the
+ * DID's HCS topic by the server, which never sees the private key.
+ */
+
+export const ROOT_KEY_FRAGMENT = 'did-root-key';
+
+/**
+ * Build a did:hedera identifier
+ * @param network - Hedera network
+ * @param publicKeyMultibase - Multicodec multibase root public key
+ * @param topicId - DID topic ID
+ */
+export function createHederaDidIdentifier(network: string, publicKeyMultibase: string, topicId: string): string {
+  return `did:hedera:${network}:${publicKeyMultibase}_${topicId}`;
+}
+
+/**
+ * Check if a DID uses the did:hedera method
+ * @param did - DID to check
+ */
+export function isHederaDid(did: string): boolean {
+  return did.startsWith('did:hedera:');
+}
+
+/**
+ * Get the ID of a did:hedera DID's root (DIDOwner) verification method
+ * @param did - did:hedera identifier
+ */
+export function getRootKeyId(did: string): string {
+  return `${did}#${ROOT_KEY_FRAGMENT}`;
+}
+
+/**
+ * Create an unsigned DID message
+ * @param did - The DID the event applies to
+ * @param operation - create, update, revoke or delete
+ * @param event - DID event, e.g. { Service: { id, type, serviceEndpoint } }; null for delete
+ */
+export function createDidMessage(
+  did: string,
+  operation: HederaDidOperation,
+  event: Record<string, any> | null
+): HederaDidMessage {
+  return {
+    timestamp: new Date().toISOString(),
+    operation,
+    did,
+    event: event ? encodeBase64(utf8ToBytes(JSON.stringify(event))) : null,
+  };
+}
+
+/**
+ * Sign a DID message with the DID owner key
+ * @param message - Unsigned DID message
+ * @param keyPair - Current DIDOwner key pair (with private key)
+ */
+export async function signDidMessage(
+  message: HederaDidMessage,
+  keyPair: DIDKeyPair
+): Promise<HederaDidMessageEnvelope> {
+  const signature = await signBytes(keyPair, utf8ToBytes(JSON.stringify(message)));
+  return { message, signature: encodeBase64(signature) };
+}
@@ -0,0 +1,47 @@
+import { CredentialStatus } from '@/types';
+import { issuerApi } from '@/services/api';
+import { credentialStorage, settingsStorage } from './db';
+import { parseJwtCredential } from './jwtVc';
+
+/**
+ * Fetch credentials issued to the user by the wallet's issuer and store new ones
+ * The issuer's DID is added to the trusted issuers list used during verification.
+ * @returns Number of credentials added to the wallet
+ */
+export async function syncIssuedCredentials(): Promise<number> {
+  const [issuer, templates, credentials] = await Promise.all([
+    issuerApi.getIssuer(),
+    issuerApi.getTemplates(),
+    issuerApi.getCredentials(),
+  ]);
+
+  const trustedIssuers = (await settingsStorage.getSetting<string[]>('trustedIssuers', [])) || [];
+  if (!trustedIssuers.includes(issuer.did)) {
+    await settingsStorage.setSetting('trustedIssuers', [...trustedIssuers, issuer.did]);
+  }
+
+  let added = 0;
+
+  for (const issued of credentials) {
+    const credential = typeof issued === 'string' ? parseJwtCredential(issued) : issued;
+    if (credential.id && (await credentialStorage.getCredential(credential.id))) {
+      continue;
+    }
+
+    const template = templates.find((t) => credential.type.includes(t.id));
+
+    await credentialStorage.storeCredential({
+      ...credential,
+      status: CredentialStatus.ACTIVE,
+      metadata: {
+        name: template?.name,
+        description: template?.description,
+        issuerName: issuer.name,
+        importedAt: new Date().toISOString(),
+      },
+    });
+    added++;
+  }
+
+  return added;
+}
@@ -0,0 +1,180 @@
+import { VerifiableCredential } from '@/types';
+import { decodeJws } from './crypto';
+
+/**
+ * JWT-encoded credentials and presentations
+ * A JWT-VC carries the credential in its vc claim, with the properties that have a
+ * registered JWT claim moved out of it (VC Data Model 1.1, section 6.3.1); a VC-JOSE
+ * (vc+jwt) credential is the JWT payload itself. The wallet keeps the compact JWT as
+ * issued, since the signature covers it, and a decoded view for display and queries.
+ * Verifying signatures is left to the verification engine.
+ */
+
+/**
+ * Claim format designation of JWT-VCs
+ */
+export const JWT_VC_FORMAT = 'jwt_vc_json';
+
+/**
+ * Claim format designation of JWT-VPs
+ */
+export const JWT_VP_FORMAT = 'jwt_vp_json';
+
+// Older designations verifiers still use for the same formats
+const JWT_VC_FORMAT_ALIASES = [JWT_VC_FORMAT, 'jwt_vc'];
+const JWT_VP_FORMAT_ALIASES = [JWT_VP_FORMAT, 'jwt_vp'];
+
+// typ header values of a JWT-VC or JWT-VP (the header may also omit typ)
+const JWT_TYPES = ['JWT', 'vc+jwt', 'vc+ld+jwt', 'vp+jwt', 'vp+ld+jwt'];
+
+/**
+ * Decoded contents of a JWT-VP
+ */
+export interface JwtPresentation {
+  holder: string;
+  audience?: string | string[];
+  nonce?: string;
+  verifiableCredential: (string | VerifiableCredential)[];
+}
+
+/**
+ * Check whether a string is a compact JWT (three segments, no SD-JWT disclosures)
+ * @param value - Candidate string
+ */
+export function isJwt(value: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(value.trim());
+}
+
+/**
+ * Check whether a claim format designation refers to JWT-VCs
+ * @param format - Format designation
+ */
+export function isJwtVcFormat(format: string): boolean {
+  return JWT_VC_FORMAT_ALIASES.includes(format);
+}
+
+/**
+ * Check whether a claim format designation refers to JWT-VPs
+ * @param format - Format designation
+ */
+export function isJwtVpFormat(format: string): boolean {
+  return JWT_VP_FORMAT_ALIASES.includes(format);
+}
+
+/**
+ * Convert a seconds-since-epoch claim to an ISO date
+ */
+function toDate(seconds: any): string | undefined {
+  return typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+/**
+ * Decode a compact JWT and check its typ header
+ * @param compact - Compact JWT
+ * @param kind - What the JWT should contain, for error messages
+ */
+function decodeJwt(compact: string, kind: string): { header: Record<string, any>; payload: any } {
+  let decoded;
+  try {
+    decoded = decodeJws(compact.trim());
+  } catch {
+    throw new Error(`Invalid ${kind}: not a compact JWT`);
+  }
+
+  if (decoded.header.typ !== undefined && !JWT_TYPES.includes(decoded.header.typ)) {
+    throw new Error(`Invalid ${kind}: unexpected typ ${decoded.header.typ}`);
+  }
+  if (!decoded.payload || typeof decoded.payload !== 'object') {
+    throw new Error(`Invalid ${kind}: payload is not a JSON object`);
+  }
+
+  return decoded;
+}
+
+/**
+ * Convert a compact JWT-VC into the credential shape the wallet stores and displays
+ * The JWT claims win over their counterparts in the vc claim, and must not contradict them.
+ * @param compact - Compact JWT as received from the issuer
+ */
+export function parseJwtCredential(compact: string): VerifiableCredential {
+  const { payload } = decodeJwt(compact, 'JWT credential');
+  const isJwtEncoded = payload.vc && typeof payload.vc === 'object';
+  const vc = isJwtEncoded ? payload.vc : payload;
+
+  if (!Array.isArray(vc.type) || !vc.type.includes('VerifiableCredential')) {
+    throw new Error('Invalid JWT credential: missing or invalid type property');
+  }
+
+  const vcIssuer = typeof vc.issuer === 'string' ? vc.issuer : vc.issuer?.id;
+  const issuerId: string | undefined = isJwtEncoded ? payload.iss ?? vcIssuer : vcIssuer ?? payload.iss;
+  if (typeof issuerId !== 'string') {
+    throw new Error('Invalid JWT credential: missing issuer');
+  }
+  if (vcIssuer && vcIssuer !== issuerId) {
+    throw new Error('Invalid JWT credential: iss does not match the credential issuer');
+  }
+
+  const subject = Array.isArray(vc.credentialSubject) ? vc.credentialSubject[0] : vc.credentialSubject;
+  const subjectId = isJwtEncoded && typeof payload.sub === 'string' ? payload.sub : subject?.id;
+  if (subject?.id && subjectId !== subject.id) {
+    throw new Error('Invalid JWT credential: sub does not match the credential subject');
+  }
+
+  const id = isJwtEncoded && typeof payload.jti === 'string' ? payload.jti : vc.id;
+  const issued = toDate(payload.nbf ?? payload.iat);
+  const expires = toDate(payload.exp);
+
+  return {
+    ...vc,
+    ...(id && { id }),
+    issuer: typeof vc.issuer === 'object' ? { ...vc.issuer, id: issuerId } : issuerId,
+    issuanceDate: (isJwtEncoded ? issued || vc.issuanceDate : vc.issuanceDate || vc.validFrom || issued) || '',
+    expirationDate: isJwtEncoded ? expires || vc.expirationDate : vc.expirationDate || vc.validUntil || expires,
+    credentialSubject: {
+      ...subject,
+      ...(subjectId && { id: subjectId }),
+    },
+    format: JWT_VC_FORMAT,
+    jwt: compact.trim(),
+  };
+}
+
+/**
+ * Decode a compact JWT-VP without verifying it
+ * @param compact - Compact JWT-VP
+ */
+export function parseJwtPresentation(compact: string): JwtPresentation {
+  const { payload } = decodeJwt(compact, 'JWT presentation');
+  const vp = payload.vp && typeof payload.vp === 'object' ? payload.vp : payload;
+
+  if (!Array.isArray(vp.type) || !vp.type.includes('VerifiablePresentation')) {
+    throw new Error('Invalid JWT presentation: missing or invalid type property');
+  }
+
+  const holder = payload.iss ?? (typeof vp.holder === 'string' ? vp.holder : vp.holder?.id);
+  if (typeof holder !== 'string') {
+    throw new Error('Invalid JWT presentation: missing holder');
+  }
+
+  const credentials = vp.verifiableCredential ?? [];
+
+  return {
+    holder,
+    audience: payload.aud,
+    nonce: payload.nonce,
+    verifiableCredential: Array.isArray(credentials) ? credentials : [credentials],
+  };
+}
+
+/**
+ * Check whether a compact JWT holds a presentation rather than a credential
+ * @param compact - Compact JWT
+ */
+export function isJwtPresentation(compact: string): boolean {
+  try {
+    const { payload } = decodeJws(compact.trim());
+    return !!payload?.vp || (Array.isArray(payload?.type) && payload.type.includes('VerifiablePresentation'));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CborTag, decodeCbor, encodeCbor } from 'hedera-id-wallet-common/cbor';
+import { decodeBase64Url, encodeBase64Url } from 'hedera-id-wallet-common/encoding';
+import { MDL_DOCTYPE, MDL_NAMESPACE, parseMdocCredential, verifyMdocIssuerSignature } from './mdoc';
+import { createMdocIssuer, issueMdoc, TestMdocIssuer } from '@/test/mdocIssuer';
+
+const CLAIMS = { [MDL_NAMESPACE]: { family_name: 'Doe', given_name: 'Jane', age_over_18: true } };
+
+/**
+ * Change the value of a data element without updating its MSO digest
+ */
+function changeElement(issuerSigned: string, element: string, value: any): string {
+  const decoded = decodeCbor(decodeBase64Url(issuerSigned));
+  const items: CborTag[] = decoded.get('nameSpaces').get(MDL_NAMESPACE);
+  decoded.get('nameSpaces').set(
+    MDL_NAMESPACE,
+    items.map((item) => {
+      const issuerSignedItem = decodeCbor(item.value);
+      if (issuerSignedItem.get('elementIdentifier') === element) {
+        issuerSignedItem.set('elementValue', value);
+      }
+      return new CborTag(item.tag, encodeCbor(issuerSignedItem));
+    })
+  );
+  return encodeBase64Url(encodeCbor(decoded));
+}
+
+describe('mdoc', () => {
+  let issuer: TestMdocIssuer;
+
+  beforeEach(async () => {
+    issuer = await createMdocIssuer();
+  });
+
+  it('reads the data elements, docType and validity of an mdoc', async () => {
+    const credential = await parseMdocCredential(await issueMdoc(issuer, CLAIMS));
+
+    expect(credential.type).toEqual(['VerifiableCredential', MDL_DOCTYPE]);
+    expect(credential.issuer).toBe('CN=Test Document Signer');
+    expect(credential.credentialSubject).toEqual(CLAIMS);
+    expect(credential.mdoc?.claims).toEqual(CLAIMS);
+    expect(credential.issuanceDate).toBe('2024-01-01T00:00:00.000Z');
+    expect(credential.expirationDate).toBe('2099-01-01T00:00:00.000Z');
+  });
+
+  it('rejects a data element that does not match its digest', async () => {
+    const issuerSigned = changeElement(await issueMdoc(issuer, CLAIMS), 'family_name', 'Roe');
+
+    await expect(parseMdocCredential(issuerSigned)).rejects.toThrow(
+      `Data element digest does not match the mdoc issuer signature (${MDL_NAMESPACE})`
+    );
+  });
+
+  it('verifies the issuer signature of an mdoc', async () => {
+    const credential = await parseMdocCredential(await issueMdoc(issuer, CLAIMS));
+
+    expect(await verifyMdocIssuerSignature(credential.mdoc!)).toBe('ES256');
+  });
+
+  it('rejects an mdoc signed by another document signer', async () => {
+    const other = await createMdocIssuer();
+    const credential = await parseMdocCredential(await issueMdoc(issuer, CLAIMS));
+    const decoded = decodeCbor(decodeBase64Url(credential.mdoc!.issuerSigned));
+    decoded.get('issuerAuth')[1] = new Map([[33, other.certificate]]);
+
+    await expect(
+      verifyMdocIssuerSignature({ ...credential.mdoc!, issuerSigned: encodeBase64Url(encodeCbor(decoded)) })
+    ).rejects.toThrow('Signature is invalid; the credential may have been altered.');
+  });
+});
@@ -0,0 +1,493 @@
+import { toJsonPointer } from 'hedera-id-wallet-common/bbs2023';
+import { CborTag, decodeCbor, encodeCbor } from 'hedera-id-wallet-common/cbor';
+import { decodeBase64Url, encodeBase64, encodeBase64Url } from 'hedera-id-wallet-common/encoding';
+import { DIDKeyPair, MdocCredentialData, StoredCredential, VerifiableCredential } from '@/types';
+import { getKeyPairType, sha256, signBytes } from './crypto';
+import { credentialStorage, keyStorage, settingsStorage } from './db';
+import {
+  decodePemCertificates,
+  encodePemCertificate,
+  parseCertificate,
+  verifyCertificateChain,
+  verifyPublicKeySignature,
+  X509Certificate,
+} from './x509';
+
+/**
+ * ISO/IEC 18013-5 mdocs (mobile driving licences and other mobile documents)
+ * The issuer signs a Mobile Security Object (MSO) holding salted digests of every data
+ * element; the elements travel next to it as IssuerSignedItems. The MSO is signed with
+ * COSE_Sign1 by a document signer certificate that chains to an issuing authority's
+ * IACA root, which the user adds to the wallet. The holder releases selected elements in
+ * a DeviceResponse signed with the device key the MSO names.
+ */
+
+/**
+ * Claim format designation of mdocs
+ */
+export const MDOC_FORMAT = 'mso_mdoc';
+
+/**
+ * Document type and namespace of the ISO mobile driving licence
+ */
+export const MDL_DOCTYPE = 'org.iso.18013.5.1.mDL';
+export const MDL_NAMESPACE = 'org.iso.18013.5.1';
+
+/**
+ * mDL data elements holding an image rather than text
+ */
+export const MDL_IMAGE_ELEMENTS = ['portrait', 'signature_usual_mark'];
+
+// Setting holding the trusted IACA root certificates, as PEM
+const IACA_CERTIFICATES_SETTING = 'iacaCertificates';
+
+// CBOR tag of embedded CBOR data items (the "...Bytes" structures)
+const TAG_ENCODED_CBOR = 24;
+const TAG_EPOCH_DATE = 1;
+
+// COSE header labels and key parameters (RFC 9052, RFC 9053)
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_X5CHAIN = 33;
+const COSE_KEY_KTY = 1;
+const COSE_KEY_CRV = -1;
+const COSE_KEY_X = -2;
+const COSE_KEY_Y = -3;
+
+// COSE algorithms the issuer may sign the MSO with, and the digest each uses
+const ISSUER_ALGORITHMS: Record<number, { name: string; hash: string }> = {
+  [-7]: { name: 'ES256', hash: 'SHA-256' },
+  [-35]: { name: 'ES384', hash: 'SHA-384' },
+  [-36]: { name: 'ES512', hash: 'SHA-512' },
+  [-8]: { name: 'EdDSA', hash: '' },
+};
+
+// COSE algorithm of each wallet key type that can sign a DeviceResponse
+const DEVICE_ALGORITHMS: Record<string, number> = {
+  ed25519: -8, // EdDSA
+  secp256k1: -47, // ES256K
+};
+
+// JWK curve of each COSE_Key curve
+const COSE_CURVES: Record<number, string> = {
+  1: 'P-256',
+  2: 'P-384',
+  3: 'P-521',
+  6: 'Ed25519',
+  8: 'secp256k1',
+};
+
+const DIGEST_ALGORITHMS = ['SHA-256', 'SHA-384', 'SHA-512'];
+
+/**
+ * IssuerSigned structure with its parts decoded
+ */
+interface DecodedIssuerSigned {
+  nameSpaces: Map<string, CborTag[]>; // IssuerSignedItemBytes by namespace
+  issuerAuth: any[]; // COSE_Sign1 as issued
+  protectedHeader: Map<number, any>;
+  mso: Map<string, any>;
+}
+
+/**
+ * Decode a base64url IssuerSigned structure
+ */
+function decodeIssuerSigned(issuerSigned: string): DecodedIssuerSigned {
+  const value = decodeCbor(decodeBase64Url(issuerSigned));
+  const nameSpaces = value instanceof Map ? value.get('nameSpaces') : undefined;
+  const issuerAuth = value instanceof Map ? value.get('issuerAuth') : undefined;
+
+  if (!(nameSpaces instanceof Map) || !Array.isArray(issuerAuth) || issuerAuth.length !== 4) {
+    throw new Error('Not an mdoc IssuerSigned structure');
+  }
+
+  const [protectedBytes, , payload] = issuerAuth;
+  if (!(protectedBytes instanceof Uint8Array) || !(payload instanceof Uint8Array)) {
+    throw new Error('Invalid mdoc issuer signature');
+  }
+
+  const msoBytes = decodeCbor(payload);
+  if (!(msoBytes instanceof CborTag) || msoBytes.tag !== TAG_ENCODED_CBOR) {
+    throw new Error('Invalid mdoc Mobile Security Object');
+  }
+  const mso = decodeCbor(msoBytes.value);
+  if (!(mso instanceof Map) || !(mso.get('valueDigests') instanceof Map)) {
+    throw new Error('Invalid mdoc Mobile Security Object');
+  }
+
+  for (const items of nameSpaces.values()) {
+    if (!Array.isArray(items) || items.some((item) => !(item instanceof CborTag) || item.tag !== TAG_ENCODED_CBOR)) {
+      throw new Error('Invalid mdoc namespace');
+    }
+  }
+
+  return {
+    nameSpaces,
+    issuerAuth,
+    protectedHeader: protectedBytes.length > 0 ? decodeCbor(protectedBytes) : new Map(),
+    mso,
+  };
+}
+
+/**
+ * Convert a CBOR data element value to JSON
+ * Byte strings become base64url; dates (tdate, full-date) keep their text form.
+ */
+function toJsonValue(value: any): any {
+  if (value instanceof Uint8Array) {
+    return encodeBase64Url(value);
+  }
+  if (value instanceof CborTag) {
+    return value.tag === TAG_EPOCH_DATE && typeof value.value === 'number'
+      ? new Date(value.value * 1000).toISOString()
+      : toJsonValue(value.value);
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries([...value].map(([key, item]) => [String(key), toJsonValue(item)]));
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  return value === undefined ? null : value;
+}
+
+/**
+ * Check every IssuerSignedItem against the digest the MSO holds for it
+ */
+async function checkValueDigests(decoded: DecodedIssuerSigned): Promise<void> {
+  const algorithm = decoded.mso.get('digestAlgorithm');
+  if (!DIGEST_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported mdoc digest algorithm: ${algorithm}`);
+  }
+
+  const valueDigests: Map<string, Map<number, Uint8Array>> = decoded.mso.get('valueDigests');
+  for (const [namespace, items] of decoded.nameSpaces) {
+    for (const item of items) {
+      const { digestID } = Object.fromEntries(decodeCbor(item.value));
+      const expected = valueDigests.get(namespace)?.get(digestID);
+      const actual = new Uint8Array(await crypto.subtle.digest(algorithm, encodeCbor(item) as BufferSource));
+
+      if (!expected || expected.length !== actual.length || expected.some((byte, i) => byte !== actual[i])) {
+        throw new Error(`Data element digest does not match the mdoc issuer signature (${namespace})`);
+      }
+    }
+  }
+}
+
+/**
+ * Get the data element values of each namespace
+ */
+function getClaims(decoded: DecodedIssuerSigned): Record<string, Record<string, any>> {
+  return Object.fromEntries(
+    [...decoded.nameSpaces].map(([namespace, items]) => [
+      namespace,
+      Object.fromEntries(
+        items.map((item) => {
+          const issuerSignedItem = decodeCbor(item.value);
+          return [issuerSignedItem.get('elementIdentifier'), toJsonValue(issuerSignedItem.get('elementValue'))];
+        })
+      ),
+    ])
+  );
+}
+
+/**
+ * Check whether a string is a base64url mdoc IssuerSigned structure
+ * @param value - Candidate string
+ */
+export function isMdoc(value: string): boolean {
+  if (!/^[\w-]+$/.test(value.trim())) {
+    return false;
+  }
+  try {
+    decodeIssuerSigned(value.trim());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode an mdoc and check its data elements against the MSO digests
+ * The issuer signature is left to the verification engine.
+ * @param issuerSigned - base64url IssuerSigned structure, as issued
+ */
+export async function parseMdoc(issuerSigned: string): Promise<MdocCredentialData> {
+  const encoded = issuerSigned.trim();
+  const decoded = decodeIssuerSigned(encoded);
+  const docType = decoded.mso.get('docType');
+
+  if (typeof docType !== 'string') {
+    throw new Error('mdoc Mobile Security Object has no docType');
+  }
+  await checkValueDigests(decoded);
+
+  return { issuerSigned: encoded, docType, claims: getClaims(decoded) };
+}
+
+/**
+ * Turn an image data element (base64url, as stored) into a data URL
+ * mDL portraits are JPEG or JPEG 2000; the type is taken from the image's signature.
+ * @param value - Stored element value
+ */
+export function getMdocImageUrl(value: string): string {
+  const bytes = decodeBase64Url(value);
+  const type = bytes[0] === 0xff && bytes[1] === 0xd8 ? 'image/jpeg' : bytes[0] === 0x89 && bytes[1] === 0x50 ? 'image/png' : 'image/jp2';
+  return `data:${type};base64,${encodeBase64(bytes)}`;
+}
+
+/**
+ * Get the certificate chain of the mdoc issuer signature (document signer first)
+ * @param data - mdoc held by the wallet
+ */
+export function getMdocCertificateChain(data: MdocCredentialData): X509Certificate[] {
+  const { issuerAuth, protectedHeader } = decodeIssuerSigned(data.issuerSigned);
+  const unprotectedHeader = issuerAuth[1] instanceof Map ? issuerAuth[1] : new Map();
+  const x5chain = protectedHeader.get(COSE_HEADER_X5CHAIN) ?? unprotectedHeader.get(COSE_HEADER_X5CHAIN);
+  const certificates: Uint8Array[] = x5chain instanceof Uint8Array ? [x5chain] : Array.isArray(x5chain) ? x5chain : [];
+
+  if (certificates.length === 0) {
+    throw new Error('mdoc issuer signature has no document signer certificate');
+  }
+  return certificates.map(parseCertificate);
+}
+
+/**
+ * Get the COSE algorithm name of the mdoc issuer signature, e.g. ES256
+ * @param data - mdoc held by the wallet
+ */
+export function getMdocIssuerAlgorithm(data: MdocCredentialData): string | undefined {
+  return ISSUER_ALGORITHMS[decodeIssuerSigned(data.issuerSigned).protectedHeader.get(COSE_HEADER_ALG)]?.name;
+}
+
+/**
+ * Convert an mdoc into the credential shape the wallet stores and displays
+ * Data elements become credentialSubject, grouped by namespace; the docType becomes
+ * the most specific type and the document signer the issuer.
+ * @param issuerSigned - base64url IssuerSigned structure, as issued
+ */
+export async function parseMdocCredential(issuerSigned: string): Promise<VerifiableCredential> {
+  const data = await parseMdoc(issuerSigned);
+  const validityInfo = decodeIssuerSigned(data.issuerSigned).mso.get('validityInfo');
+  const toDate = (value: any) => (value === undefined ? undefined : new Date(toJsonValue(value)).toISOString());
+
+  if (!(validityInfo instanceof Map)) {
+    throw new Error('mdoc Mobile Security Object has no validityInfo');
+  }
+
+  return {
+    '@context': [],
+    type: ['VerifiableCredential', data.docType],
+    issuer: getMdocCertificateChain(data)[0].subjectName,
+    issuanceDate: toDate(validityInfo.get('signed')) || '',
+    ...(validityInfo.has('validFrom') && { validFrom: toDate(validityInfo.get('validFrom')) }),
+    expirationDate: toDate(validityInfo.get('validUntil')),
+    credentialSubject: data.claims,
+    format: MDOC_FORMAT,
+    mdoc: data,
+  };
+}
+
+/**
+ * Verify the COSE_Sign1 issuer signature of an mdoc with its document signer certificate
+ * Data element digests and the docType are checked against the signed MSO as well.
+ * data.claims is not read: parseMdoc rebuilds the claims from the IssuerSignedItems.
+ * @param data - mdoc held by the wallet
+ * @returns The COSE algorithm name
+ */
+export async function verifyMdocIssuerSignature(data: MdocCredentialData): Promise<string> {
+  const decoded = decodeIssuerSigned(data.issuerSigned);
+  const algorithm = ISSUER_ALGORITHMS[decoded.protectedHeader.get(COSE_HEADER_ALG)];
+  if (!algorithm) {
+    throw new Error('Unsupported mdoc signature algorithm');
+  }
+
+  const [signer] = getMdocCertificateChain(data);
+  const now = new Date();
+  if (now < signer.notBefore || now > signer.notAfter) {
+    throw new Error('Document signer certificate is not valid at this time');
+  }
+
+  const [protectedBytes, , payload, signature] = decoded.issuerAuth;
+  const sigStructure = encodeCbor(['Signature1', protectedBytes, new Uint8Array(0), payload]);
+  if (!(await verifyPublicKeySignature(signer.subjectPublicKeyInfo, algorithm.hash, sigStructure, signature))) {
+    throw new Error('Signature is invalid; the credential may have been altered.');
+  }
+
+  if (decoded.mso.get('docType') !== data.docType) {
+    throw new Error('mdoc docType does not match its issuer signature');
+  }
+  await checkValueDigests(decoded);
+
+  return algorithm.name;
+}
+
+/**
+ * Get the IACA root certificates the user trusts, as PEM
+ */
+export async function getIacaCertificates(): Promise<string[]> {
+  return (await settingsStorage.getSetting<string[]>(IACA_CERTIFICATES_SETTING, [])) || [];
+}
+
+/**
+ * Add trusted IACA root certificates
+ * @param pem - One or more PEM certificates
+ * @returns The added certificates
+ */
+export async function addIacaCertificates(pem: string): Promise<X509Certificate[]> {
+  const certificates = decodePemCertificates(pem).map(parseCertificate);
+  if (certificates.length === 0) {
+    throw new Error('No PEM certificate found');
+  }
+
+  const notCA = certificates.find((certificate) => !certificate.isCA);
+  if (notCA) {
+    throw new Error(`${notCA.subjectName} is not a certificate authority`);
+  }
+
+  const existing = await getIacaCertificates();
+  const added = certificates.map((certificate) => encodePemCertificate(certificate.der)).filter((entry) => !existing.includes(entry));
+  await settingsStorage.setSetting(IACA_CERTIFICATES_SETTING, [...existing, ...new Set(added)]);
+  return certificates;
+}
+
+/**
+ * Remove a trusted IACA root certificate
+ * @param pem - Certificate as stored
+ */
+export async function removeIacaCertificate(pem: string): Promise<void> {
+  const existing = await getIacaCertificates();
+  await settingsStorage.setSetting(IACA_CERTIFICATES_SETTING, existing.filter((entry) => entry !== pem));
+}
+
+/**
+ * Find the trusted IACA root the mdoc's document signer certificate chains to
+ * @param data - mdoc held by the wallet
+ * @returns The IACA certificate, or null if none of the trusted roots issued the signer
+ */
+export async function findMdocTrustAnchor(data: MdocCredentialData): Promise<X509Certificate | null> {
+  const trustAnchors = (await getIacaCertificates()).flatMap(decodePemCertificates).map(parseCertificate);
+  if (trustAnchors.length === 0) {
+    return null;
+  }
+
+  try {
+    return await verifyCertificateChain(getMdocCertificateChain(data), trustAnchors);
+  } catch (error) {
+    console.warn('mdoc certificate chain did not validate:', error);
+    return null;
+  }
+}
+
+/**
+ * Find the stored key the MSO binds the mdoc to
+ * @param data - mdoc held by the wallet
+ */
+export async function getMdocDeviceKeyPair(data: MdocCredentialData): Promise<DIDKeyPair> {
+  const deviceKey = decodeIssuerSigned(data.issuerSigned).mso.get('deviceKeyInfo')?.get('deviceKey');
+  if (!(deviceKey instanceof Map)) {
+    throw new Error('mdoc has no device key');
+  }
+
+  const crv = COSE_CURVES[deviceKey.get(COSE_KEY_CRV)];
+  const x = deviceKey.get(COSE_KEY_X);
+  const y = deviceKey.get(COSE_KEY_Y);
+  if (!crv || !(x instanceof Uint8Array)) {
+    throw new Error(`Unsupported mdoc device key (kty ${deviceKey.get(COSE_KEY_KTY)})`);
+  }
+
+  const keyPairs = await keyStorage.getAllKeyPairs(true);
+  const keyPair = keyPairs.find(
+    (candidate) =>
+      candidate.publicKeyJwk.crv === crv &&
+      candidate.publicKeyJwk.x === encodeBase64Url(x) &&
+      candidate.publicKeyJwk.y === (y instanceof Uint8Array ? encodeBase64Url(y) : undefined)
+  );
+
+  if (!keyPair?.privateKeyMultibase) {
+    throw new Error('The device key this mdoc is bound to is not stored on this device');
+  }
+  return keyPair;
+}
+
+/**
+ * Get the JSON pointer of a data element, as presentation exchange resolves it
+ * @param namespace - Namespace, e.g. org.iso.18013.5.1
+ * @param element - Data element identifier
+ */
+export function getMdocElementPointer(namespace: string, element: string): string {
+  return toJsonPointer([namespace, element]);
+}
+
+/**
+ * Build an OID4VP DeviceResponse releasing the selected data elements
+ * Device authentication signs the OpenID4VPHandover session transcript, which binds
+ * the response to the verifier's client_id, nonce and response_uri.
+ * @param credential - Stored mdoc
+ * @param pointers - JSON pointers of the data elements to release (/namespace/element)
+ * @param options - Verifier client_id, nonce and response_uri
+ * @returns base64url DeviceResponse
+ */
+export async function createMdocPresentation(
+  credential: StoredCredential,
+  pointers: string[],
+  options: { clientId: string; nonce: string; responseUri: string }
+): Promise<string> {
+  const data = credential.mdoc;
+  if (!data) {
+    throw new Error('Credential is not an mdoc');
+  }
+
+  const decoded = decodeIssuerSigned(data.issuerSigned);
+  const docType = decoded.mso.get('docType');
+  const nameSpaces = new Map<string, CborTag[]>();
+  for (const [namespace, items] of decoded.nameSpaces) {
+    const released = items.filter((item) => {
+      const pointer = getMdocElementPointer(namespace, decodeCbor(item.value).get('elementIdentifier'));
+      return pointers.some((selected) => selected === pointer || selected.startsWith(`${pointer}/`));
+    });
+    if (released.length > 0) {
+      nameSpaces.set(namespace, released);
+    }
+  }
+
+  const keyPair = await getMdocDeviceKeyPair(data);
+  const algorithm = DEVICE_ALGORITHMS[getKeyPairType(keyPair)];
+  if (!algorithm) {
+    throw new Error('The mdoc device key cannot sign a DeviceResponse');
+  }
+
+  const handover = await sha256(encodeCbor([options.clientId, options.nonce, null, options.responseUri]));
+  const sessionTranscript = [null, null, ['OpenID4VPHandover', handover]];
+  const deviceNameSpacesBytes = new CborTag(TAG_ENCODED_CBOR, encodeCbor(new Map()));
+  const deviceAuthenticationBytes = encodeCbor(
+    new CborTag(
+      TAG_ENCODED_CBOR,
+      encodeCbor(['DeviceAuthentication', sessionTranscript, docType, deviceNameSpacesBytes])
+    )
+  );
+
+  // COSE_Sign1 with a detached payload
+  const protectedHeader = encodeCbor(new Map([[COSE_HEADER_ALG, algorithm]]));
+  const signature = await signBytes(
+    keyPair,
+    encodeCbor(['Signature1', protectedHeader, new Uint8Array(0), deviceAuthenticationBytes])
+  );
+
+  const deviceResponse = {
+    version: '1.0',
+    documents: [
+      {
+        docType,
+        issuerSigned: { nameSpaces, issuerAuth: decoded.issuerAuth },
+        deviceSigned: {
+          nameSpaces: deviceNameSpacesBytes,
+          deviceAuth: { deviceSignature: [protectedHeader, new Map(), null, signature] },
+        },
+      },
+    ],
+    status: 0,
+  };
+
+  await credentialStorage.markCredentialAsUsed(credential.localId);
+  return encodeBase64Url(encodeCbor(deviceResponse));
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import db, { keyStorage } from './db';
+import { createDidKey } from './did';
+import { restoreKeysFromMnemonic } from './didManagement';
+import {
+  createWalletMnemonic,
+  deriveEd25519PrivateKey,
+  deriveWalletKeyPair,
+  getDerivationPath,
+  getNextKeyIndex,
+  getWalletMnemonic,
+  isValidMnemonic,
+  mnemonicToWalletSeed,
+  MNEMONIC_SETTINGS,
+  storeWalletMnemonic,
+} from './mnemonic';
+
+// BIP-39 English test phrase
+const PHRASE = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('recovery phrase', () => {
+  beforeEach(async () => {
+    await db.settings.bulkDelete(MNEMONIC_SETTINGS);
+    await db.keys.clear();
+  });
+
+  it('computes the BIP-39 seed of a phrase as typed by the user', async () => {
+    expect(bytesToHex(await mnemonicToWalletSeed(`  ${PHRASE.toUpperCase().replace(/ /g, '   ')} `))).toBe(
+      '5eb00bbddcf069084889a8ab9155568165f5c453ccb85e70811aaed6f6da5fc1' +
+        '9a5ac40b389cd370d086206dec8aa6c43daea6690f20ad3d8d48b2d2ce9e38e4'
+    );
+  });
+
+  it('validates the word list, word count and checksum', () => {
+    expect(isValidMnemonic(PHRASE)).toBe(true);
+    expect(isValidMnemonic(PHRASE.replace(/about$/, 'abandon'))).toBe(false);
+    expect(isValidMnemonic(PHRASE.replace(/about$/, 'bitcoinz'))).toBe(false);
+    expect(isValidMnemonic(PHRASE.split(' ').slice(0, 9).join(' '))).toBe(false);
+  });
+
+  describe('SLIP-10 Ed25519 derivation', () => {
+    // SLIP-0010 test vector 1 for ed25519
+    const seed = hexToBytes('000102030405060708090a0b0c0d0e0f');
+
+    it.each([
+      ['m', '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7'],
+      ["m/0'", '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3'],
+      ["m/0'/1'", 'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2'],
+      ["m/0'/1'/2'", '92a5b23c0b8a99e37d07df3fb9966917f5d06e02ddbd909c7e184371463e9fc9'],
+      ["m/0'/1'/2'/2'", '30d1dc7e5fc04c31219ab25a27ae00b50f6fd66622f6e9c913253d6511d1e662'],
+      ["m/0'/1'/2'/2'/1000000000'", '8f94d394a8e8fd6b1bc2f3f49f5c47e385281d5c17e65324b0f62483e37e8793'],
+    ])('derives %s', (path, privateKey) => {
+      expect(bytesToHex(deriveEd25519PrivateKey(seed, path))).toBe(privateKey);
+    });
+
+    it('only accepts hardened paths from the master key', () => {
+      expect(() => deriveEd25519PrivateKey(seed, "m/0'/1")).toThrow('Ed25519 derivation requires hardened path segments');
+      expect(() => deriveEd25519PrivateKey(seed, "0'/1'")).toThrow("Invalid derivation path: 0'/1'");
+    });
+  });
+
+  it('derives wallet keys along the Hedera path', async () => {
+    const { keyPair } = deriveWalletKeyPair(await mnemonicToWalletSeed(PHRASE), 2);
+
+    expect(getDerivationPath(2)).toBe("m/44'/3030'/0'/0'/2'");
+    expect(keyPair.derivationPath).toBe("m/44'/3030'/0'/0'/2'");
+  });
+
+  it('derives new Ed25519 DIDs at consecutive indexes', async () => {
+    await storeWalletMnemonic(PHRASE, true);
+    const seed = await mnemonicToWalletSeed(PHRASE);
+
+    const first = await createDidKey('ed25519');
+    const second = await createDidKey('ed25519');
+    await createDidKey('secp256k1');
+
+    expect(first.keyPair.privateKeyMultibase).toBe(deriveWalletKeyPair(seed, 0).keyPair.privateKeyMultibase);
+    expect(second.keyPair.privateKeyMultibase).toBe(deriveWalletKeyPair(seed, 1).keyPair.privateKeyMultibase);
+    expect(await getNextKeyIndex()).toBe(2);
+  });
+
+  it('keeps the phrase encrypted with the device key', async () => {
+    const mnemonic = await createWalletMnemonic(12);
+    const stored = await db.settings.get('walletMnemonic');
+
+    expect(mnemonic.split(' ')).toHaveLength(12);
+    expect(JSON.stringify(stored)).not.toContain(mnemonic.split(' ')[0] + ' ');
+    expect(await getWalletMnemonic()).toBe(mnemonic);
+  });
+
+  it('restores the keys of a did:key from its phrase on a new device', async () => {
+    await storeWalletMnemonic(PHRASE, true);
+    await createDidKey('ed25519');
+    const { did, keyPair } = await createDidKey('ed25519');
+    await db.settings.bulkDelete(MNEMONIC_SETTINGS);
+
+    expect(await restoreKeysFromMnemonic(PHRASE, did)).toBe(2);
+
+    expect((await keyStorage.getKeyPair(keyPair.id, true))?.privateKeyMultibase).toBe(keyPair.privateKeyMultibase);
+    expect(await getWalletMnemonic()).toBe(PHRASE);
+    expect(await getNextKeyIndex()).toBe(2);
+  });
+
+  it('refuses a phrase that does not belong to the DID', async () => {
+    const { did } = await createDidKey('ed25519');
+
+    await expect(restoreKeysFromMnemonic(PHRASE, did)).rejects.toThrow('This recovery phrase does not belong to your DID');
+  });
+});
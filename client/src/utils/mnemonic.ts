@@ -0,0 +1,217 @@
+import { generateMnemonic, mnemonicToSeed, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { ed25519 } from '@noble/curves/ed25519';
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha512';
+import { concatBytes, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import { DIDKeyPair, KeyType } from '@/types';
+import { decryptData, encryptData, settingsStorage } from './db';
+import { generateKeyPair, keyPairFromRaw } from './crypto';
+
+/**
+ * Recovery phrase (BIP-39) and deterministic wallet keys (SLIP-10 Ed25519)
+ * Ed25519 holder keys are derived from the wallet's recovery phrase, one hardened path
+ * per key, so the same keys and did:key identifiers can be re-derived on a new device.
+ * Paths follow Hedera's standard Ed25519 derivation (coin type 3030), so the keys match
+ * what the Hedera SDK derives from the same phrase. The phrase is stored encrypted with
+ * the device key.
+ */
+
+export type MnemonicWordCount = 12 | 24;
+
+// Settings holding the encrypted phrase, its confirmation state and the next key index
+const MNEMONIC_SETTING = 'walletMnemonic';
+const MNEMONIC_CONFIRMED_SETTING = 'walletMnemonicConfirmed';
+const NEXT_KEY_INDEX_SETTING = 'walletNextKeyIndex';
+export const MNEMONIC_SETTINGS = [MNEMONIC_SETTING, MNEMONIC_CONFIRMED_SETTING, NEXT_KEY_INDEX_SETTING];
+
+// SLIP-10 constants
+const ED25519_SEED_KEY = utf8ToBytes('ed25519 seed');
+const HARDENED_OFFSET = 0x80000000;
+const HEDERA_COIN_TYPE = 3030;
+
+/**
+ * Get the SLIP-10 derivation path of the wallet key with the given index
+ * @param index - Key index
+ */
+export function getDerivationPath(index: number): string {
+  return `m/44'/${HEDERA_COIN_TYPE}'/0'/0'/${index}'`;
+}
+
+/**
+ * Get the key index of a key derived from the recovery phrase
+ * @param keyPair - Key pair
+ * @returns The index, or null for keys not derived from the phrase
+ */
+export function getKeyIndex(keyPair: Pick<DIDKeyPair, 'derivationPath'>): number | null {
+  const match = keyPair.derivationPath?.match(/\/(\d+)'$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Normalize a recovery phrase typed or pasted by the user
+ * @param mnemonic - Recovery phrase
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * Check a recovery phrase against the BIP-39 English word list and checksum
+ * @param mnemonic - Recovery phrase
+ */
+export function isValidMnemonic(mnemonic: string): boolean {
+  const normalized = normalizeMnemonic(mnemonic);
+  const wordCount = normalized.split(' ').length;
+  return (wordCount === 12 || wordCount === 24) && validateMnemonic(normalized, wordlist);
+}
+
+/**
+ * Generate a new recovery phrase
+ * @param wordCount - 12 or 24 words
+ */
+export function generateRecoveryPhrase(wordCount: MnemonicWordCount = 24): string {
+  return generateMnemonic(wordlist, wordCount === 12 ? 128 : 256);
+}
+
+/**
+ * Compute the BIP-39 seed of a recovery phrase (no BIP-39 passphrase)
+ * @param mnemonic - Recovery phrase
+ */
+export async function mnemonicToWalletSeed(mnemonic: string): Promise<Uint8Array> {
+  return mnemonicToSeed(normalizeMnemonic(mnemonic));
+}
+
+/**
+ * Derive an Ed25519 private key from a seed along a SLIP-10 path
+ * SLIP-10 only defines hardened derivation for Ed25519, so every path segment must be hardened.
+ * @param seed - BIP-39 seed
+ * @param path - Derivation path, e.g. m/44'/3030'/0'/0'/0'
+ */
+export function deriveEd25519PrivateKey(seed: Uint8Array, path: string): Uint8Array {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  let node = hmac(sha512, ED25519_SEED_KEY, seed);
+  for (const segment of segments.slice(1)) {
+    if (!/^\d+'$/.test(segment)) {
+      throw new Error(`Ed25519 derivation requires hardened path segments: ${path}`);
+    }
+
+    const index = Number(segment.slice(0, -1)) + HARDENED_OFFSET;
+    const indexBytes = new Uint8Array(4);
+    new DataView(indexBytes.buffer).setUint32(0, index);
+
+    node = hmac(sha512, node.slice(32), concatBytes(new Uint8Array([0]), node.slice(0, 32), indexBytes));
+  }
+
+  return node.slice(0, 32);
+}
+
+/**
+ * Derive the wallet key pair with the given index
+ * @param seed - BIP-39 seed of the recovery phrase
+ * @param index - Key index
+ * @returns Key pair (without id/controller) and the raw public key bytes
+ */
+export function deriveWalletKeyPair(seed: Uint8Array, index: number): {
+  keyPair: Omit<DIDKeyPair, 'id'>;
+  publicKey: Uint8Array;
+} {
+  const derivationPath = getDerivationPath(index);
+  const privateKey = deriveEd25519PrivateKey(seed, derivationPath);
+  const publicKey = ed25519.getPublicKey(privateKey);
+
+  return { keyPair: { ...keyPairFromRaw('ed25519', privateKey, publicKey), derivationPath }, publicKey };
+}
+
+/**
+ * Get the recovery phrase stored on this device
+ * @returns The phrase, or null if this wallet has none
+ */
+export async function getWalletMnemonic(): Promise<string | null> {
+  const encryptedMnemonic = await settingsStorage.getSetting<string>(MNEMONIC_SETTING);
+  return encryptedMnemonic ? decryptData(encryptedMnemonic) : null;
+}
+
+/**
+ * Store a recovery phrase on this device, replacing any previous one
+ * @param mnemonic - Recovery phrase
+ * @param confirmed - Whether the user has already shown they wrote the phrase down
+ * @param nextKeyIndex - First key index not used yet
+ */
+export async function storeWalletMnemonic(mnemonic: string, confirmed: boolean = false, nextKeyIndex: number = 0): Promise<void> {
+  if (!isValidMnemonic(mnemonic)) {
+    throw new Error('Invalid recovery phrase');
+  }
+
+  await settingsStorage.setSetting(MNEMONIC_SETTING, await encryptData(normalizeMnemonic(mnemonic)));
+  await settingsStorage.setSetting(MNEMONIC_CONFIRMED_SETTING, confirmed);
+  await settingsStorage.setSetting(NEXT_KEY_INDEX_SETTING, nextKeyIndex);
+}
+
+/**
+ * Create and store a recovery phrase for a new wallet
+ * @param wordCount - 12 or 24 words
+ */
+export async function createWalletMnemonic(wordCount: MnemonicWordCount = 24): Promise<string> {
+  const mnemonic = generateRecoveryPhrase(wordCount);
+  await storeWalletMnemonic(mnemonic);
+  return mnemonic;
+}
+
+/**
+ * Check whether the user confirmed they wrote the recovery phrase down
+ */
+export async function isWalletMnemonicConfirmed(): Promise<boolean> {
+  return (await settingsStorage.getSetting<boolean>(MNEMONIC_CONFIRMED_SETTING, false)) === true;
+}
+
+/**
+ * Record that the user wrote the recovery phrase down
+ */
+export async function confirmWalletMnemonic(): Promise<void> {
+  await settingsStorage.setSetting(MNEMONIC_CONFIRMED_SETTING, true);
+}
+
+/**
+ * Get the first key index not used yet
+ */
+export async function getNextKeyIndex(): Promise<number> {
+  return (await settingsStorage.getSetting<number>(NEXT_KEY_INDEX_SETTING, 0)) || 0;
+}
+
+/**
+ * Make sure later keys are derived after the given index
+ * @param index - Key index in use
+ */
+export async function reserveKeyIndex(index: number): Promise<void> {
+  if (index >= await getNextKeyIndex()) {
+    await settingsStorage.setSetting(NEXT_KEY_INDEX_SETTING, index + 1);
+  }
+}
+
+/**
+ * Create a new holder key pair
+ * Ed25519 keys are derived from the recovery phrase at the next unused index when the
+ * wallet has one. Other key types, and wallets without a phrase, get random keys.
+ * @param keyType - Key type to create
+ * @returns Key pair (without id/controller) and the raw public key bytes
+ */
+export async function createWalletKeyPair(keyType: KeyType = 'ed25519'): Promise<{
+  keyPair: Omit<DIDKeyPair, 'id'>;
+  publicKey: Uint8Array;
+}> {
+  const mnemonic = keyType === 'ed25519' ? await getWalletMnemonic() : null;
+  if (!mnemonic) {
+    return generateKeyPair(keyType);
+  }
+
+  // The index is used up even if the key is later discarded, so a key is never derived twice
+  const index = await getNextKeyIndex();
+  await reserveKeyIndex(index);
+
+  return deriveWalletKeyPair(await mnemonicToWalletSeed(mnemonic), index);
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CredentialStatus } from '@/types';
+import { credentialStorage } from './db';
+import { acceptCredentialOffer, CREDENTIAL_OFFER_SCHEME, parseCredentialOffer, resolveCredentialOffer } from './oid4vci';
+import { toVerifiableCredential } from './presentation';
+import { checkSignature } from './verification';
+import { MockIssuer, MockIssuerOptions, startMockIssuer } from '@/test/mockIssuer';
+import { createHolder, TestHolder } from '@/test/wallet';
+
+describe('OID4VCI pre-authorized code flow', () => {
+  let mockIssuer: MockIssuer | undefined;
+  let holder: TestHolder;
+
+  const start = async (options?: MockIssuerOptions) => {
+    mockIssuer = await startMockIssuer(options);
+    return mockIssuer;
+  };
+
+  const offerUri = (offer: object) =>
+    `${CREDENTIAL_OFFER_SCHEME}?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`;
+
+  beforeEach(async () => {
+    holder = await createHolder();
+  });
+
+  afterEach(() => {
+    mockIssuer?.close();
+    mockIssuer = undefined;
+  });
+
+  it('resolves an offer passed by value', async () => {
+    const issuer = await start();
+    const offer = issuer.createOffer(['EmailVerifiedCredential']);
+
+    const resolved = await resolveCredentialOffer(offerUri(offer));
+
+    expect(resolved.offer).toEqual(offer);
+    expect(resolved.metadata.credential_issuer).toBe(issuer.url);
+    expect(resolved.tokenEndpoint).toBe(`${issuer.url}/token`);
+    expect(resolved.txCode).toBeUndefined();
+  });
+
+  it('fetches an offer passed by reference', async () => {
+    const issuer = await start();
+    const offer = issuer.createOffer(['EmailVerifiedCredential'], { txCode: '123456' });
+    const uri = `${CREDENTIAL_OFFER_SCHEME}?credential_offer_uri=${encodeURIComponent(issuer.publishOffer(offer))}`;
+
+    await expect(parseCredentialOffer(uri)).resolves.toEqual(offer);
+    expect((await resolveCredentialOffer(uri)).txCode).toEqual({ input_mode: 'numeric', length: 6 });
+  });
+
+  it('rejects an offer with no supported credential format', async () => {
+    const issuer = await start();
+    const offer = issuer.createOffer(['UnsupportedCredential']);
+
+    await expect(resolveCredentialOffer(offerUri(offer))).rejects.toThrow(
+      'None of the offered credentials use a format this wallet supports'
+    );
+  });
+
+  it('stores a credential bound to the holder DID', async () => {
+    const issuer = await start();
+    const resolved = await resolveCredentialOffer(offerUri(issuer.createOffer(['EmailVerifiedCredential'])));
+
+    const [localId] = await acceptCredentialOffer(resolved, holder.did);
+
+    const stored = (await credentialStorage.getCredential(localId))!;
+    expect(stored.issuer).toBe(issuer.issuer.did);
+    expect(stored.credentialSubject.id).toBe(holder.did);
+    expect(stored.status).toBe(CredentialStatus.ACTIVE);
+    expect(stored.metadata).toMatchObject({ name: 'Verified Email', issuerName: 'Test Issuer' });
+    expect(await checkSignature(toVerifiableCredential(stored))).toMatchObject({ status: 'success' });
+  });
+
+  it('signs the proof JWT with the holder key for the issuer and its c_nonce', async () => {
+    const issuer = await start();
+    const resolved = await resolveCredentialOffer(offerUri(issuer.createOffer(['EmailVerifiedCredential'])));
+
+    await acceptCredentialOffer(resolved, holder.did);
+
+    expect(issuer.proofs).toHaveLength(1);
+    const [{ header, payload }] = issuer.proofs;
+    expect(header).toMatchObject({ typ: 'openid4vci-proof+jwt', kid: holder.keyPair.id });
+    expect(payload.aud).toBe(issuer.url);
+    expect(typeof payload.nonce).toBe('string');
+  });
+
+  it('issues every offered credential with one token', async () => {
+    const issuer = await start();
+    const offer = issuer.createOffer(['EmailVerifiedCredential', 'EmailVerifiedCredential_jwt']);
+
+    const localIds = await acceptCredentialOffer(await resolveCredentialOffer(offerUri(offer)), holder.did);
+
+    expect(localIds).toHaveLength(2);
+    const jwtCredential = (await credentialStorage.getCredential(localIds[1]))!;
+    expect(jwtCredential.jwt).toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(jwtCredential.credentialSubject).toEqual({ id: holder.did, email: 'holder@example.com' });
+    // Each credential request uses the c_nonce returned by the previous one
+    expect(issuer.proofs[1].payload.nonce).not.toBe(issuer.proofs[0].payload.nonce);
+  });
+
+  it('retries once with the new c_nonce when the issuer rejects the nonce', async () => {
+    const issuer = await start({ staleTokenNonce: true });
+    const resolved = await resolveCredentialOffer(offerUri(issuer.createOffer(['EmailVerifiedCredential'])));
+
+    const localIds = await acceptCredentialOffer(resolved, holder.did);
+
+    expect(localIds).toHaveLength(1);
+    expect(issuer.proofs).toHaveLength(2);
+    expect(issuer.proofs[1].payload.nonce).not.toBe(issuer.proofs[0].payload.nonce);
+  });
+
+  it('requires the transaction code when the offer asks for one', async () => {
+    const issuer = await start();
+    const resolved = await resolveCredentialOffer(
+      offerUri(issuer.createOffer(['EmailVerifiedCredential'], { txCode: '123456' }))
+    );
+
+    await expect(acceptCredentialOffer(resolved, holder.did)).rejects.toThrow('This offer requires a transaction code');
+    await expect(acceptCredentialOffer(resolved, holder.did, '000000')).rejects.toThrow('Transaction code is incorrect');
+    await expect(acceptCredentialOffer(resolved, holder.did, '123456')).resolves.toHaveLength(1);
+  });
+
+  it('cannot redeem a pre-authorized code twice', async () => {
+    const issuer = await start();
+    const resolved = await resolveCredentialOffer(offerUri(issuer.createOffer(['EmailVerifiedCredential'])));
+
+    await acceptCredentialOffer(resolved, holder.did);
+
+    await expect(acceptCredentialOffer(resolved, holder.did)).rejects.toThrow(
+      'Pre-authorized code is invalid or was already used'
+    );
+  });
+
+  it('rejects a credential issued to another DID', async () => {
+    const issuer = await start({ subjectId: 'did:example:someone-else' });
+    const resolved = await resolveCredentialOffer(offerUri(issuer.createOffer(['EmailVerifiedCredential'])));
+
+    await expect(acceptCredentialOffer(resolved, holder.did)).rejects.toThrow('Issued credential is not bound to your DID');
+    const stored = await credentialStorage.getAllCredentials();
+    expect(stored.filter((credential) => credential.issuer === issuer.issuer.did)).toHaveLength(0);
+  });
+
+  it('rejects an ldp_vc credential that carries a compact JWT', async () => {
+    const issuer = await start({ credentialFields: { jwt: 'eyJhbGciOiJFZERTQSJ9.e30.c2ln' } });
+    const resolved = await resolveCredentialOffer(offerUri(issuer.createOffer(['EmailVerifiedCredential'])));
+
+    await expect(acceptCredentialOffer(resolved, holder.did)).rejects.toThrow(
+      'Invalid credential: JSON credentials must not contain the jwt property'
+    );
+  });
+});
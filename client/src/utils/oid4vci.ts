@@ -0,0 +1,475 @@
+import axios, { AxiosError } from 'axios';
+import {
+  CredentialConfiguration,
+  CredentialIssuerMetadata,
+  CredentialOffer,
+  CredentialStatus,
+  IssuerDisplay,
+  ResolvedCredentialOffer,
+  TokenResponse,
+  VerifiableCredential,
+} from '@/types';
+import { validateCredential } from './credentialImport';
+import { signJws } from './crypto';
+import { credentialStorage } from './db';
+import { getHolderKeyPair } from './presentation';
+import { isJwt, JWT_VC_FORMAT, parseJwtCredential } from './jwtVc';
+import { getMdocDeviceKeyPair, isMdoc, MDOC_FORMAT, parseMdocCredential } from './mdoc';
+import { getSdJwtHolderKeyPair, isSdJwt, parseSdJwtCredential, SD_JWT_VC_FORMAT } from './sdJwt';
+import { checkSignature } from './verification';
+
+export const CREDENTIAL_OFFER_SCHEME = 'openid-credential-offer://';
+export const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+
+/**
+ * Credential formats the wallet can store
+ */
+export const SUPPORTED_CREDENTIAL_FORMATS = ['ldp_vc', JWT_VC_FORMAT, SD_JWT_VC_FORMAT, MDOC_FORMAT];
+
+const PROOF_JWT_TYPE = 'openid4vci-proof+jwt';
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Build a well-known URL for an issuer identifier, inserting the well-known
+ * segment between the host and any path component
+ * @param identifier - Issuer or authorization server identifier (https URL)
+ * @param suffix - Well-known document name
+ */
+function getWellKnownUrl(identifier: string, suffix: string): string {
+  const url = new URL(identifier);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  return `${url.origin}/.well-known/${suffix}${path}`;
+}
+
+/**
+ * Turn an issuer protocol error into a readable message
+ */
+function getProtocolErrorMessage(error: unknown, fallback: string): string {
+  const data = (error as AxiosError<any>)?.response?.data;
+  if (data?.error_description) return data.error_description;
+  if (data?.error) return data.error;
+  if (data?.message) return data.message;
+  return fallback;
+}
+
+/**
+ * Pick the display entry for the user's locale
+ */
+export function getLocalizedDisplay(display?: IssuerDisplay[]): IssuerDisplay | undefined {
+  if (!display?.length) return undefined;
+
+  const language = typeof navigator !== 'undefined' ? navigator.language : 'en';
+  return (
+    display.find((entry) => entry.locale === language) ||
+    display.find((entry) => entry.locale?.split('-')[0] === language.split('-')[0]) ||
+    display[0]
+  );
+}
+
+/**
+ * Check whether a string looks like a credential offer
+ * Accepts openid-credential-offer:// URIs and any URL carrying credential_offer(_uri).
+ */
+export function isCredentialOfferUri(value: string): boolean {
+  const trimmed = value.trim();
+  return (
+    trimmed.startsWith(CREDENTIAL_OFFER_SCHEME) ||
+    /[?&]credential_offer(_uri)?=/.test(trimmed)
+  );
+}
+
+/**
+ * Parse a credential offer URI (or a raw JSON offer) and fetch it by reference if needed
+ * @param input - openid-credential-offer:// URI, deep link URL or offer JSON
+ */
+export async function parseCredentialOffer(input: string): Promise<CredentialOffer> {
+  const trimmed = input.trim();
+  let offer: any;
+
+  if (trimmed.startsWith('{')) {
+    offer = JSON.parse(trimmed);
+  } else {
+    const queryIndex = trimmed.indexOf('?');
+    if (queryIndex === -1) {
+      throw new Error('Not a credential offer');
+    }
+
+    const params = new URLSearchParams(trimmed.substring(queryIndex + 1));
+    const offerValue = params.get('credential_offer');
+    const offerUri = params.get('credential_offer_uri');
+
+    if (offerValue) {
+      try {
+        offer = JSON.parse(offerValue);
+      } catch {
+        throw new Error('Credential offer is not valid JSON');
+      }
+    } else if (offerUri) {
+      try {
+        const response = await axios.get(offerUri, { timeout: REQUEST_TIMEOUT_MS });
+        offer = response.data;
+      } catch (error) {
+        throw new Error(getProtocolErrorMessage(error, 'Failed to fetch the credential offer'));
+      }
+    } else {
+      throw new Error('Not a credential offer');
+    }
+  }
+
+  if (typeof offer?.credential_issuer !== 'string' || !Array.isArray(offer.credential_configuration_ids)) {
+    throw new Error('Credential offer is missing credential_issuer or credential_configuration_ids');
+  }
+
+  return offer as CredentialOffer;
+}
+
+/**
+ * Fetch the credential issuer metadata
+ * @param credentialIssuer - Credential issuer identifier
+ */
+export async function fetchIssuerMetadata(credentialIssuer: string): Promise<CredentialIssuerMetadata> {
+  let metadata: CredentialIssuerMetadata;
+
+  try {
+    const response = await axios.get<CredentialIssuerMetadata>(
+      getWellKnownUrl(credentialIssuer, 'openid-credential-issuer'),
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+    metadata = response.data;
+  } catch (error) {
+    throw new Error(getProtocolErrorMessage(error, 'Failed to fetch issuer metadata'));
+  }
+
+  if (metadata.credential_issuer !== credentialIssuer) {
+    throw new Error('Issuer metadata does not match the credential offer');
+  }
+
+  if (!metadata.credential_endpoint || !metadata.credential_configurations_supported) {
+    throw new Error('Issuer metadata is incomplete');
+  }
+
+  return metadata;
+}
+
+/**
+ * Find the token endpoint from the authorization server metadata
+ * @param metadata - Credential issuer metadata
+ */
+export async function fetchTokenEndpoint(metadata: CredentialIssuerMetadata): Promise<string> {
+  const authorizationServer = metadata.authorization_servers?.[0] || metadata.credential_issuer;
+
+  for (const suffix of ['oauth-authorization-server', 'openid-configuration']) {
+    try {
+      const response = await axios.get(getWellKnownUrl(authorizationServer, suffix), { timeout: REQUEST_TIMEOUT_MS });
+      if (response.data?.token_endpoint) {
+        return response.data.token_endpoint;
+      }
+    } catch {
+      // Try the next well-known location
+    }
+  }
+
+  throw new Error('Could not find the issuer token endpoint');
+}
+
+/**
+ * Resolve an offer URI into the offer, issuer metadata and token endpoint
+ * @param input - openid-credential-offer:// URI, deep link URL or offer JSON
+ */
+export async function resolveCredentialOffer(input: string): Promise<ResolvedCredentialOffer> {
+  const offer = await parseCredentialOffer(input);
+  const grant = offer.grants?.[PRE_AUTHORIZED_CODE_GRANT];
+
+  if (!grant) {
+    throw new Error('Only pre-authorized credential offers are supported');
+  }
+
+  const metadata = await fetchIssuerMetadata(offer.credential_issuer);
+
+  const unsupported = offer.credential_configuration_ids.filter((id) => {
+    const configuration = metadata.credential_configurations_supported[id];
+    return !configuration || !SUPPORTED_CREDENTIAL_FORMATS.includes(configuration.format);
+  });
+
+  if (unsupported.length === offer.credential_configuration_ids.length) {
+    throw new Error('None of the offered credentials use a format this wallet supports');
+  }
+
+  const tokenEndpoint = await fetchTokenEndpoint(metadata);
+
+  return { offer, metadata, tokenEndpoint, txCode: grant.tx_code };
+}
+
+/**
+ * Redeem a pre-authorized code at the token endpoint
+ * @param tokenEndpoint - Authorization server token endpoint
+ * @param preAuthorizedCode - Code from the credential offer
+ * @param txCode - Transaction code, if the offer requires one
+ */
+export async function requestAccessToken(
+  tokenEndpoint: string,
+  preAuthorizedCode: string,
+  txCode?: string
+): Promise<TokenResponse> {
+  const body = new URLSearchParams({
+    grant_type: PRE_AUTHORIZED_CODE_GRANT,
+    'pre-authorized_code': preAuthorizedCode,
+  });
+
+  if (txCode) {
+    body.set('tx_code', txCode);
+  }
+
+  try {
+    const response = await axios.post<TokenResponse>(tokenEndpoint, body.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+    return response.data;
+  } catch (error) {
+    throw new Error(getProtocolErrorMessage(error, 'Failed to redeem the credential offer'));
+  }
+}
+
+/**
+ * Get a fresh c_nonce from the issuer's nonce endpoint
+ */
+async function requestNonce(nonceEndpoint: string): Promise<string | undefined> {
+  try {
+    const response = await axios.post<{ c_nonce: string }>(nonceEndpoint, undefined, { timeout: REQUEST_TIMEOUT_MS });
+    return response.data.c_nonce;
+  } catch (error) {
+    throw new Error(getProtocolErrorMessage(error, 'Failed to get a nonce from the issuer'));
+  }
+}
+
+/**
+ * Create a proof-of-possession JWT for the holder key
+ * @param holderDid - Holder DID whose authentication key signs the proof
+ * @param audience - Credential issuer identifier
+ * @param nonce - c_nonce provided by the issuer
+ */
+export async function createProofJwt(holderDid: string, audience: string, nonce?: string): Promise<string> {
+  const keyPair = await getHolderKeyPair(holderDid);
+
+  return signJws(
+    {
+      aud: audience,
+      iat: Math.floor(Date.now() / 1000),
+      ...(nonce && { nonce }),
+    },
+    keyPair,
+    { typ: PROOF_JWT_TYPE }
+  );
+}
+
+/**
+ * Request a credential from the credential endpoint
+ * Retries once with the new c_nonce when the issuer rejects the proof's nonce.
+ */
+async function requestCredential(
+  metadata: CredentialIssuerMetadata,
+  configurationId: string,
+  configuration: CredentialConfiguration,
+  accessToken: string,
+  holderDid: string,
+  nonce: string | undefined
+): Promise<{ credential: any; nonce?: string }> {
+  let currentNonce = nonce;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const jwt = await createProofJwt(holderDid, metadata.credential_issuer, currentNonce);
+
+    try {
+      const response = await axios.post(
+        metadata.credential_endpoint,
+        {
+          credential_configuration_id: configurationId,
+          format: configuration.format,
+          ...(configuration.credential_definition && { credential_definition: configuration.credential_definition }),
+          ...(configuration.vct && { vct: configuration.vct }),
+          ...(configuration.doctype && { doctype: configuration.doctype }),
+          proof: { proof_type: 'jwt', jwt },
+        },
+        {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          timeout: REQUEST_TIMEOUT_MS,
+        }
+      );
+
+      const credential = response.data.credential ?? response.data.credentials?.[0]?.credential;
+      if (!credential) {
+        throw new Error('Issuer response did not contain a credential');
+      }
+
+      return { credential, nonce: response.data.c_nonce };
+    } catch (error) {
+      const data = (error as AxiosError<any>)?.response?.data;
+      const retryable = ['invalid_proof', 'invalid_nonce'].includes(data?.error) && data?.c_nonce;
+
+      if (attempt === 0 && retryable) {
+        currentNonce = data.c_nonce;
+        continue;
+      }
+
+      throw new Error(getProtocolErrorMessage(error, 'Failed to receive the credential'));
+    }
+  }
+
+  throw new Error('Failed to receive the credential');
+}
+
+/**
+ * Parse and verify an issued SD-JWT VC
+ * The issuer JWT must verify, and a key-bound credential must be bound to a key stored on this device.
+ * @param compact - Compact SD-JWT from the credential response
+ */
+async function receiveSdJwtCredential(compact: unknown): Promise<VerifiableCredential> {
+  if (typeof compact !== 'string' || !isSdJwt(compact)) {
+    throw new Error('Issuer returned an invalid SD-JWT VC');
+  }
+
+  const credential = await parseSdJwtCredential(compact);
+
+  const signature = await checkSignature(credential);
+  if (signature.status !== 'success') {
+    throw new Error(`Issued credential could not be verified: ${signature.message}`);
+  }
+
+  await getSdJwtHolderKeyPair(credential.sdJwt!);
+  return credential;
+}
+
+/**
+ * Parse and verify an issued JWT-VC
+ * @param compact - Compact JWT from the credential response
+ */
+async function receiveJwtCredential(compact: unknown): Promise<VerifiableCredential> {
+  if (typeof compact !== 'string' || !isJwt(compact)) {
+    throw new Error('Issuer returned an invalid JWT credential');
+  }
+
+  const credential = parseJwtCredential(compact);
+
+  const signature = await checkSignature(credential);
+  if (signature.status !== 'success') {
+    throw new Error(`Issued credential could not be verified: ${signature.message}`);
+  }
+
+  return credential;
+}
+
+/**
+ * Parse and verify an issued mdoc
+ * The MSO signature must verify against the document signer certificate, and the device
+ * key it names must be stored on this device. Whether the signer chains to a trusted
+ * IACA is reported by the issuer trust check, as for other formats.
+ * @param issuerSigned - base64url IssuerSigned structure from the credential response
+ */
+async function receiveMdocCredential(issuerSigned: unknown): Promise<VerifiableCredential> {
+  if (typeof issuerSigned !== 'string' || !isMdoc(issuerSigned)) {
+    throw new Error('Issuer returned an invalid mdoc');
+  }
+
+  const credential = await parseMdocCredential(issuerSigned);
+
+  const signature = await checkSignature(credential);
+  if (signature.status !== 'success') {
+    throw new Error(`Issued credential could not be verified: ${signature.message}`);
+  }
+
+  await getMdocDeviceKeyPair(credential.mdoc!);
+  return credential;
+}
+
+/**
+ * Run the pre-authorized code flow and store the issued credentials
+ * @param resolved - Offer resolved with resolveCredentialOffer
+ * @param holderDid - Holder DID the credentials are bound to
+ * @param txCode - Transaction code, if the offer requires one
+ * @returns Local IDs of the stored credentials
+ */
+export async function acceptCredentialOffer(
+  resolved: ResolvedCredentialOffer,
+  holderDid: string,
+  txCode?: string
+): Promise<string[]> {
+  const { offer, metadata, tokenEndpoint } = resolved;
+  const grant = offer.grants?.[PRE_AUTHORIZED_CODE_GRANT];
+
+  if (!grant) {
+    throw new Error('Only pre-authorized credential offers are supported');
+  }
+
+  if (resolved.txCode && !txCode) {
+    throw new Error('This offer requires a transaction code');
+  }
+
+  const token = await requestAccessToken(tokenEndpoint, grant['pre-authorized_code'], txCode);
+
+  let nonce = token.c_nonce;
+  if (!nonce && metadata.nonce_endpoint) {
+    nonce = await requestNonce(metadata.nonce_endpoint);
+  }
+
+  const issuerDisplay = getLocalizedDisplay(metadata.display);
+  const storedIds: string[] = [];
+
+  for (const configurationId of offer.credential_configuration_ids) {
+    const configuration = metadata.credential_configurations_supported[configurationId];
+
+    if (!configuration || !SUPPORTED_CREDENTIAL_FORMATS.includes(configuration.format)) {
+      continue;
+    }
+
+    const response = await requestCredential(
+      metadata,
+      configurationId,
+      configuration,
+      token.access_token,
+      holderDid,
+      nonce
+    );
+    nonce = response.nonce ?? nonce;
+
+    const credential = configuration.format === SD_JWT_VC_FORMAT
+      ? await receiveSdJwtCredential(response.credential)
+      : configuration.format === JWT_VC_FORMAT
+        ? await receiveJwtCredential(response.credential)
+        : configuration.format === MDOC_FORMAT
+          ? await receiveMdocCredential(response.credential)
+          : validateCredential(response.credential);
+    if (typeof credential !== 'object' || !Array.isArray(credential.type) || !credential.issuer) {
+      throw new Error('Issuer returned an invalid credential');
+    }
+
+    // SD-JWT VCs and mdocs are bound to the holder key (cnf, deviceKey) rather than the subject ID
+    if (!credential.sdJwt && !credential.mdoc && credential.credentialSubject?.id && credential.credentialSubject.id !== holderDid) {
+      throw new Error('Issued credential is not bound to your DID');
+    }
+
+    const credentialDisplay = getLocalizedDisplay(configuration.display);
+
+    storedIds.push(
+      await credentialStorage.storeCredential({
+        ...credential,
+        status: CredentialStatus.ACTIVE,
+        metadata: {
+          name: credentialDisplay?.name,
+          description: credentialDisplay?.description,
+          color: credentialDisplay?.background_color,
+          icon: credentialDisplay?.logo?.uri,
+          issuerName: issuerDisplay?.name,
+          issuerLogo: issuerDisplay?.logo?.uri,
+          importedAt: new Date().toISOString(),
+        },
+      })
+    );
+  }
+
+  if (storedIds.length === 0) {
+    throw new Error('No credentials were received');
+  }
+
+  return storedIds;
+}
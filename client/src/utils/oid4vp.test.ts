@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { splitProof } from 'hedera-id-wallet-common/proofs';
+import { CredentialStatus, PresentationDefinition } from '@/types';
+import db, { credentialStorage } from './db';
+import { createDidKey, resolveDidKey } from './did';
+import {
+  declineAuthorizationRequest,
+  findMatchingCredentials,
+  parseAuthorizationRequest,
+  submitPresentation,
+} from './oid4vp';
+import { verifyProof } from './proofs';
+import { createTestIssuer, issueCredential, TestIssuer } from '@/test/issuer';
+import { MockVerifier, startMockVerifier } from '@/test/mockVerifier';
+import { createHolder, storeCredential, TestHolder } from '@/test/wallet';
+
+const EMAIL_DEFINITION: PresentationDefinition = {
+  id: 'email-request',
+  input_descriptors: [
+    {
+      id: 'email',
+      constraints: {
+        fields: [
+          { path: ['$.type'], filter: { type: 'array', contains: { const: 'EmailVerifiedCredential' } } },
+          { path: ['$.credentialSubject.email'] },
+        ],
+      },
+    },
+  ],
+};
+
+describe('OID4VP responder', () => {
+  let verifier: MockVerifier;
+  let issuer: TestIssuer;
+  let holder: TestHolder;
+
+  beforeEach(async () => {
+    await db.credentials.clear();
+    verifier = await startMockVerifier();
+    issuer = await createTestIssuer();
+    holder = await createHolder();
+  });
+
+  afterEach(() => {
+    verifier.close();
+  });
+
+  describe('parseAuthorizationRequest', () => {
+    it('accepts an unsigned request whose client_id is its response_uri', async () => {
+      const request = await parseAuthorizationRequest(await verifier.createRequest(EMAIL_DEFINITION, { state: 'abc' }));
+
+      expect(request).toMatchObject({
+        client_id: verifier.responseUri,
+        response_uri: verifier.responseUri,
+        response_mode: 'direct_post',
+        state: 'abc',
+        presentation_definition: EMAIL_DEFINITION,
+        verifierVerified: true,
+      });
+    });
+
+    it('does not vouch for an unsigned request from another client_id', async () => {
+      const uri = await verifier.createRequest(EMAIL_DEFINITION, { params: { client_id: 'https://elsewhere.test' } });
+
+      expect((await parseAuthorizationRequest(uri)).verifierVerified).toBe(false);
+    });
+
+    it('verifies a request object signed by the verifier DID', async () => {
+      const request = await parseAuthorizationRequest(await verifier.createRequest(EMAIL_DEFINITION, { signed: true }));
+
+      expect(request).toMatchObject({ client_id: verifier.did, client_id_scheme: 'did', verifierVerified: true });
+    });
+
+    it('rejects a request object signed with another key', async () => {
+      const { keyPair } = await createDidKey('ed25519');
+      const uri = await verifier.createRequest(EMAIL_DEFINITION, {
+        signed: true,
+        signingKey: { ...keyPair, id: verifier.keyPair.id },
+      });
+
+      await expect(parseAuthorizationRequest(uri)).rejects.toThrow('Request object signature is invalid');
+    });
+
+    it('requires requests from a DID to be signed', async () => {
+      const uri = await verifier.createRequest(EMAIL_DEFINITION, { params: { client_id: verifier.did } });
+
+      await expect(parseAuthorizationRequest(uri)).rejects.toThrow('Presentation requests from a DID must be signed');
+    });
+
+    it('requires requests from a DID to be signed whatever client_id_scheme they claim', async () => {
+      for (const clientId of [verifier.did, `decentralized_identifier:${verifier.did}`]) {
+        const uri = await verifier.createRequest(EMAIL_DEFINITION, {
+          params: { client_id: clientId, client_id_scheme: 'x509_san_dns' },
+        });
+
+        await expect(parseAuthorizationRequest(uri)).rejects.toThrow('Presentation requests from a DID must be signed');
+      }
+    });
+
+    it('only supports direct_post responses', async () => {
+      const uri = await verifier.createRequest(EMAIL_DEFINITION, { params: { response_mode: 'fragment' } });
+
+      await expect(parseAuthorizationRequest(uri)).rejects.toThrow('Unsupported response mode: fragment');
+    });
+  });
+
+  describe('findMatchingCredentials', () => {
+    it('never offers revoked, suspended or expired credentials', async () => {
+      const active = await storeCredential(await issueCredential(issuer, { id: holder.did, email: 'holder@example.com' }));
+      for (const status of [CredentialStatus.REVOKED, CredentialStatus.SUSPENDED, CredentialStatus.EXPIRED]) {
+        const stored = await storeCredential(await issueCredential(issuer, { id: holder.did, email: 'old@example.com' }));
+        await credentialStorage.updateCredential(stored.localId, { status });
+      }
+
+      const evaluation = await findMatchingCredentials(EMAIL_DEFINITION);
+
+      expect(evaluation.satisfied).toBe(true);
+      expect(evaluation.matches[0].candidates.map(({ credential }) => credential.localId)).toEqual([active.localId]);
+    });
+  });
+
+  describe('submitPresentation', () => {
+    it('posts a VP bound to the request nonce and client_id', async () => {
+      const stored = await storeCredential(await issueCredential(issuer, { id: holder.did, email: 'holder@example.com' }));
+      const request = await parseAuthorizationRequest(await verifier.createRequest(EMAIL_DEFINITION, { state: 'abc' }));
+
+      const { redirectUri } = await submitPresentation(request, { email: stored }, holder.did);
+
+      expect(redirectUri).toBe(`${verifier.url}/done`);
+      expect(verifier.responses).toHaveLength(1);
+      const [response] = verifier.responses;
+      expect(response.state).toBe('abc');
+      expect(JSON.parse(response.presentation_submission)).toMatchObject({
+        definition_id: 'email-request',
+        descriptor_map: [{ id: 'email', format: 'ldp_vp', path: '$', path_nested: { format: 'ldp_vc' } }],
+      });
+
+      const vpToken = JSON.parse(response.vp_token);
+      const { unsecuredDocument, proof } = splitProof(vpToken);
+      expect(proof).toMatchObject({ challenge: request.nonce, domain: request.client_id, proofPurpose: 'authentication' });
+      const publicKeyJwk = resolveDidKey(holder.did).verificationMethod![0].publicKeyJwk;
+      expect(await verifyProof(unsecuredDocument, proof, publicKeyJwk)).toBe(true);
+    });
+
+    it('requires a credential for the requested descriptors', async () => {
+      const request = await parseAuthorizationRequest(await verifier.createRequest(EMAIL_DEFINITION));
+
+      await expect(submitPresentation(request, {}, holder.did)).rejects.toThrow('Select at least one credential to share');
+      expect(verifier.responses).toHaveLength(0);
+    });
+  });
+
+  it('tells the verifier when the user declines', async () => {
+    const request = await parseAuthorizationRequest(await verifier.createRequest(EMAIL_DEFINITION, { state: 'abc' }));
+
+    await declineAuthorizationRequest(request);
+
+    expect(verifier.responses).toEqual([
+      { error: 'access_denied', error_description: 'The user declined the presentation request', state: 'abc' },
+    ]);
+  });
+});
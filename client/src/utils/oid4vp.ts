@@ -0,0 +1,364 @@
+import axios, { AxiosError } from 'axios';
+import {
+  AuthorizationRequest,
+  CredentialStatus,
+  PresentationDefinition,
+  PresentationEvaluation,
+  StoredCredential,
+  VerifiablePresentation,
+} from '@/types';
+import { decodeJws, verifyJws } from './crypto';
+import { credentialStorage } from './db';
+import { findVerificationMethod, getPublicKeyJwk, hasVerificationRelationship, resolveDid } from './did';
+import { createMdocPresentation } from './mdoc';
+import { createJwtPresentation, createSignedPresentation } from './presentation';
+import {
+  checkSubmissionRequirements,
+  createPresentationSubmission,
+  evaluatePresentationDefinition,
+  getCredentialFormat,
+  validatePresentationDefinition,
+} from './presentationExchange';
+import { createSdJwtPresentation } from './sdJwt';
+
+export const AUTHORIZATION_REQUEST_SCHEME = 'openid4vp://';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Turn a verifier protocol error into a readable message
+ */
+function getProtocolErrorMessage(error: unknown, fallback: string): string {
+  const data = (error as AxiosError<any>)?.response?.data;
+  if (data?.error_description) return data.error_description;
+  if (data?.error) return data.error;
+  if (data?.message) return data.message;
+  return fallback;
+}
+
+/**
+ * Parse a parameter that may be sent as a JSON string
+ */
+function parseJsonParameter(value: any, name: string): any {
+  if (typeof value !== 'string') return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`Authorization request parameter ${name} is not valid JSON`);
+  }
+}
+
+/**
+ * Check whether a string looks like an OID4VP authorization request
+ */
+export function isAuthorizationRequestUri(value: string): boolean {
+  const trimmed = value.trim();
+  return (
+    trimmed.startsWith(AUTHORIZATION_REQUEST_SCHEME) ||
+    (/[?&]client_id=/.test(trimmed) && /[?&](request_uri|request|presentation_definition(_uri)?)=/.test(trimmed))
+  );
+}
+
+/**
+ * Verify a signed request object from a verifier identified by a DID
+ * @param requestObject - Compact JWS request object
+ * @param clientDid - DID the verifier claims as client_id
+ */
+async function verifyRequestObject(requestObject: string, clientDid: string): Promise<void> {
+  const { header } = decodeJws(requestObject);
+
+  if (typeof header.kid !== 'string' || header.kid.split('#')[0] !== clientDid) {
+    throw new Error('Request object is not signed by the verifier DID');
+  }
+
+  const didDocument = await resolveDid(clientDid);
+  const verificationMethod = findVerificationMethod(didDocument, header.kid);
+
+  if (
+    !verificationMethod ||
+    !hasVerificationRelationship(didDocument, 'authentication', verificationMethod.id) ||
+    !(await verifyJws(requestObject, getPublicKeyJwk(verificationMethod)))
+  ) {
+    throw new Error('Request object signature is invalid');
+  }
+}
+
+/**
+ * Parse and validate an OID4VP authorization request
+ * Supports requests passed by value, by reference (request_uri) and as signed request objects.
+ * @param input - openid4vp:// URI or URL carrying the request parameters
+ */
+export async function parseAuthorizationRequest(input: string): Promise<AuthorizationRequest> {
+  const trimmed = input.trim();
+  const queryIndex = trimmed.indexOf('?');
+
+  if (queryIndex === -1) {
+    throw new Error('Not a presentation request');
+  }
+
+  const query = new URLSearchParams(trimmed.substring(queryIndex + 1));
+  let params: Record<string, any> = Object.fromEntries(query.entries());
+  let requestObject: string | undefined = params.request;
+
+  // Fetch the request object by reference
+  if (params.request_uri) {
+    try {
+      const response = await axios.get(params.request_uri, {
+        headers: { Accept: 'application/oauth-authz-req+jwt, application/json' },
+        responseType: 'text',
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      const body = String(response.data).trim();
+
+      if (body.startsWith('{')) {
+        params = { ...params, ...JSON.parse(body) };
+      } else {
+        requestObject = body;
+      }
+    } catch (error) {
+      throw new Error(getProtocolErrorMessage(error, 'Failed to fetch the presentation request'));
+    }
+  }
+
+  let signedByClient = false;
+
+  if (requestObject) {
+    const { payload } = decodeJws(requestObject);
+
+    if (params.client_id && payload.client_id !== params.client_id) {
+      throw new Error('Request object client_id does not match the request');
+    }
+
+    const clientDid = String(payload.client_id || '').replace(/^decentralized_identifier:/, '');
+    if (clientDid.startsWith('did:')) {
+      await verifyRequestObject(requestObject, clientDid);
+      signedByClient = true;
+    }
+
+    params = { ...params, ...payload };
+  }
+
+  const {
+    client_id: clientId,
+    response_type: responseType,
+    response_mode: responseMode,
+    nonce,
+    state,
+  } = params;
+  const responseUri = params.response_uri || params.redirect_uri;
+
+  if (!clientId || typeof clientId !== 'string') {
+    throw new Error('Presentation request is missing client_id');
+  }
+
+  if (!String(responseType || '').split(' ').includes('vp_token')) {
+    throw new Error('Only vp_token presentation requests are supported');
+  }
+
+  if (responseMode !== 'direct_post') {
+    throw new Error(`Unsupported response mode: ${responseMode || 'none'}`);
+  }
+
+  if (!responseUri || !nonce) {
+    throw new Error('Presentation request is missing response_uri or nonce');
+  }
+
+  // Determine how the verifier's identity is established; a DID client_id always
+  // uses the did scheme, whatever client_id_scheme says, so it must sign the request
+  const isDidClient = clientId.startsWith('did:') || clientId.startsWith('decentralized_identifier:');
+  const clientIdScheme: string | undefined = isDidClient
+    ? 'did'
+    : params.client_id_scheme || (clientId.startsWith('redirect_uri:') ? 'redirect_uri' : undefined);
+
+  if (clientIdScheme === 'did' && !signedByClient) {
+    throw new Error('Presentation requests from a DID must be signed');
+  }
+
+  let verifierVerified = signedByClient;
+  if (clientIdScheme === 'redirect_uri') {
+    if (clientId.replace(/^redirect_uri:/, '') !== responseUri) {
+      throw new Error('Presentation request response_uri does not match client_id');
+    }
+    verifierVerified = true;
+  } else if (!clientIdScheme && clientId === responseUri) {
+    // Unregistered verifiers are only trusted as far as the response endpoint they use
+    verifierVerified = true;
+  }
+
+  // Resolve the presentation definition
+  let presentationDefinition = parseJsonParameter(params.presentation_definition, 'presentation_definition');
+  if (!presentationDefinition && params.presentation_definition_uri) {
+    try {
+      const response = await axios.get(params.presentation_definition_uri, { timeout: REQUEST_TIMEOUT_MS });
+      presentationDefinition = response.data;
+    } catch (error) {
+      throw new Error(getProtocolErrorMessage(error, 'Failed to fetch the presentation definition'));
+    }
+  }
+
+  if (!presentationDefinition) {
+    throw new Error('Presentation request has no presentation_definition');
+  }
+  validatePresentationDefinition(presentationDefinition);
+
+  return {
+    client_id: clientId,
+    client_id_scheme: clientIdScheme,
+    response_type: responseType,
+    response_mode: responseMode,
+    response_uri: responseUri,
+    nonce,
+    state,
+    presentation_definition: presentationDefinition,
+    client_metadata: parseJsonParameter(params.client_metadata, 'client_metadata'),
+    verifierVerified,
+  };
+}
+
+/**
+ * Evaluate a presentation definition against the credentials the holder may share
+ * Builds on credentialStorage.getAllCredentials; revoked, suspended and expired credentials are never offered.
+ * @param definition - Verifier's presentation definition
+ */
+export async function findMatchingCredentials(definition: PresentationDefinition): Promise<PresentationEvaluation> {
+  const credentials = await credentialStorage.getAllCredentials();
+  const eligible = credentials.filter(
+    (credential) =>
+      credential.status !== CredentialStatus.REVOKED &&
+      credential.status !== CredentialStatus.SUSPENDED &&
+      credential.status !== CredentialStatus.EXPIRED
+  );
+
+  return evaluatePresentationDefinition(definition, eligible);
+}
+
+/**
+ * Build a signed VP for the selected credentials and post it to the verifier
+ * The VP proof is bound to the request's nonce (challenge) and client_id (domain).
+ * JWT-VCs go into a JWT-VP whose nonce and aud claims carry the same values.
+ * SD-JWT VCs are sent as separate presentations with only the chosen disclosures and a
+ * key binding JWT over the same nonce and client_id. bbs-2023 credentials go into the VP
+ * with a derived proof that reveals only their chosen JSON pointers.
+ * @param request - Parsed authorization request
+ * @param selection - Selected credential for each input descriptor ID
+ * @param holderDid - Holder DID that signs the presentation
+ * @param disclosures - Disclosure digests (SD-JWT) or JSON pointers (bbs-2023, mdoc) to send for each descriptor
+ * @returns The verifier's redirect_uri, if it returned one
+ */
+export async function submitPresentation(
+  request: AuthorizationRequest,
+  selection: Record<string, StoredCredential>,
+  holderDid: string,
+  disclosures: Record<string, string[]> = {}
+): Promise<{ presentation?: VerifiablePresentation; redirectUri?: string }> {
+  const definition = request.presentation_definition;
+  const descriptorIds = definition.input_descriptors
+    .map((descriptor) => descriptor.id)
+    .filter((id) => selection[id]);
+
+  if (descriptorIds.length === 0) {
+    throw new Error('Select at least one credential to share');
+  }
+
+  const unmet = checkSubmissionRequirements(definition, descriptorIds);
+  if (unmet.length > 0) {
+    throw new Error(unmet[0]);
+  }
+
+  // Same order as createPresentationSubmission: the VP, the JWT-VP, then each SD-JWT VC and mdoc
+  const embeddedIds = descriptorIds.filter((id) => !selection[id].sdJwt && !selection[id].jwt && !selection[id].mdoc);
+  const jwtIds = descriptorIds.filter((id) => selection[id].jwt);
+  const standaloneIds = descriptorIds.filter((id) => selection[id].sdJwt || selection[id].mdoc);
+  const presentations: (VerifiablePresentation | string)[] = [];
+
+  // A credential selected for several descriptors reveals what each of them needs
+  const disclosedPointers: Record<string, string[]> = {};
+  for (const id of embeddedIds.filter((id) => disclosures[id])) {
+    const { localId } = selection[id];
+    disclosedPointers[localId] = [...new Set([...(disclosedPointers[localId] || []), ...disclosures[id]])];
+  }
+
+  const presentation = embeddedIds.length > 0
+    ? await createSignedPresentation(
+        [...new Set(embeddedIds.map((id) => selection[id]))],
+        holderDid,
+        { challenge: request.nonce, domain: request.client_id, disclosedPointers }
+      )
+    : undefined;
+  if (presentation) {
+    presentations.push(presentation);
+  }
+
+  if (jwtIds.length > 0) {
+    presentations.push(
+      await createJwtPresentation(
+        jwtIds.map((id) => selection[id]),
+        holderDid,
+        { challenge: request.nonce, domain: request.client_id }
+      )
+    );
+  }
+
+  for (const id of standaloneIds) {
+    presentations.push(
+      selection[id].mdoc
+        ? await createMdocPresentation(selection[id], disclosures[id] || [], {
+            clientId: request.client_id,
+            nonce: request.nonce,
+            responseUri: request.response_uri,
+          })
+        : await createSdJwtPresentation(selection[id], disclosures[id] || [], {
+            audience: request.client_id,
+            nonce: request.nonce,
+          })
+    );
+  }
+
+  const submission = createPresentationSubmission(
+    definition,
+    descriptorIds.map((id) => ({ id, format: getCredentialFormat(selection[id]) }))
+  );
+
+  const vpToken = presentations.length === 1 ? presentations[0] : presentations;
+  const body = new URLSearchParams({
+    vp_token: typeof vpToken === 'string' ? vpToken : JSON.stringify(vpToken),
+    presentation_submission: JSON.stringify(submission),
+  });
+  if (request.state) {
+    body.set('state', request.state);
+  }
+
+  try {
+    const response = await axios.post(request.response_uri, body.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+    return { presentation, redirectUri: response.data?.redirect_uri };
+  } catch (error) {
+    throw new Error(getProtocolErrorMessage(error, 'The verifier rejected the presentation'));
+  }
+}
+
+/**
+ * Tell the verifier the user declined the request
+ * @param request - Parsed authorization request
+ */
+export async function declineAuthorizationRequest(request: AuthorizationRequest): Promise<void> {
+  const body = new URLSearchParams({
+    error: 'access_denied',
+    error_description: 'The user declined the presentation request',
+  });
+  if (request.state) {
+    body.set('state', request.state);
+  }
+
+  try {
+    await axios.post(request.response_uri, body.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  } catch (error) {
+    console.error('Failed to notify verifier of declined request:', error);
+  }
+}
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { splitProof } from 'hedera-id-wallet-common/proofs';
+import { credentialStorage } from './db';
+import { createJwtPresentation, createSignedPresentation, toVerifiableCredential } from './presentation';
+import { resolveDidKey } from './did';
+import { verifyProof } from './proofs';
+import { checkJwtPresentation } from './verification';
+import { createTestIssuer, issueCredential, TestIssuer } from '@/test/issuer';
+import { createHolder, storeCredential, TestHolder } from '@/test/wallet';
+
+describe('presentations', () => {
+  let issuer: TestIssuer;
+  let holder: TestHolder;
+
+  beforeEach(async () => {
+    issuer = await createTestIssuer();
+    holder = await createHolder();
+  });
+
+  it('strips wallet metadata from presented credentials', async () => {
+    const credential = await issueCredential(issuer, { id: holder.did, email: 'holder@example.com' });
+    const stored = await storeCredential(credential);
+    await credentialStorage.addTag(stored.localId, 'work');
+
+    const presented = toVerifiableCredential((await credentialStorage.getCredential(stored.localId))!);
+
+    expect(presented).toEqual(credential);
+  });
+
+  it('signs a presentation bound to the verifier challenge and domain', async () => {
+    const stored = [
+      await storeCredential(await issueCredential(issuer, { id: holder.did, email: 'holder@example.com' })),
+      await storeCredential(await issueCredential(issuer, { id: holder.did, phone: '+15551234567' })),
+    ];
+
+    const presentation = await createSignedPresentation(stored, holder.did, {
+      challenge: 'nonce-123',
+      domain: 'https://verifier.example',
+    });
+    const { unsecuredDocument, proof } = splitProof(presentation);
+
+    expect(presentation.holder).toBe(holder.did);
+    expect(presentation.verifiableCredential).toHaveLength(2);
+    expect(proof).toMatchObject({
+      proofPurpose: 'authentication',
+      challenge: 'nonce-123',
+      domain: 'https://verifier.example',
+      verificationMethod: holder.keyPair.id,
+    });
+    const publicKeyJwk = resolveDidKey(holder.did).verificationMethod![0].publicKeyJwk;
+    expect(await verifyProof(unsecuredDocument, proof, publicKeyJwk)).toBe(true);
+    expect(await verifyProof({ ...unsecuredDocument, holder: issuer.did }, proof, publicKeyJwk)).toBe(false);
+    expect((await credentialStorage.getCredential(stored[0].localId))?.lastUsed).toBeDefined();
+  });
+
+  it('signs a JWT-VP with the challenge as nonce and the domain as audience', async () => {
+    const stored = await storeCredential(await issueCredential(issuer, { id: holder.did, email: 'holder@example.com' }));
+
+    const jwt = await createJwtPresentation([stored], holder.did, { challenge: 'nonce-123', domain: 'https://verifier.example' });
+
+    expect(await checkJwtPresentation(jwt, { audience: 'https://verifier.example', nonce: 'nonce-123' })).toMatchObject({
+      status: 'success',
+    });
+    expect(await checkJwtPresentation(jwt, { nonce: 'another-nonce' })).toMatchObject({ status: 'error' });
+  });
+
+  it('refuses to sign without a key for the holder DID', async () => {
+    const stored = await storeCredential(await issueCredential(issuer, { email: 'holder@example.com' }));
+
+    await expect(createSignedPresentation([stored], issuer.did)).rejects.toThrow(
+      'No signing key for this DID is stored on this device'
+    );
+  });
+});
@@ -0,0 +1,234 @@
+import { DIDKeyPair, StoredCredential, VerifiableCredential, VerifiablePresentation } from '@/types';
+import { getKeyPairType, signJws } from './crypto';
+import { credentialStorage, keyStorage } from './db';
+import { hasVerificationRelationship, resolveDid } from './did';
+import { createProof } from './proofs';
+import { v4 as uuidv4 } from 'uuid';
+import { deriveBbsProof, getMandatoryPointers, isBbsBaseProof, toJsonPointer } from 'hedera-id-wallet-common/bbs2023';
+import { utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+
+/**
+ * Verifiable Presentation builder
+ */
+
+/**
+ * Options binding a presentation to a verifier
+ */
+export interface PresentationOptions {
+  challenge?: string;
+  domain?: string;
+  disclosedPointers?: Record<string, string[]>; // localId -> JSON pointers to reveal of a bbs-2023 credential
+}
+
+/**
+ * Strip wallet-only fields from a stored credential
+ * Local metadata (tags, favorites, import dates) must never be disclosed to verifiers.
+ * @param credential - Credential as stored in the wallet
+ */
+export function toVerifiableCredential(credential: StoredCredential): VerifiableCredential {
+  const {
+    localId,
+    imported,
+    lastUsed,
+    favorite,
+    tags,
+    encrypted,
+    status,
+    metadata,
+    format,
+    sdJwt,
+    jwt,
+    ...verifiableCredential
+  } = credential;
+
+  return verifiableCredential;
+}
+
+/**
+ * Prepare a stored credential for a presentation
+ * Credentials with a bbs-2023 base proof are never shown as they are: each presentation
+ * gets a freshly derived proof that reveals only the chosen claims (all of them by
+ * default) and is bound to the verifier's challenge.
+ * @param credential - Credential as stored in the wallet
+ * @param options - Verifier-supplied challenge and the claims to reveal
+ */
+export function toPresentedCredential(
+  credential: StoredCredential,
+  options: PresentationOptions = {}
+): VerifiableCredential {
+  const verifiableCredential = toVerifiableCredential(credential);
+  if (!isBbsBaseProof(verifiableCredential.proof)) {
+    return verifiableCredential;
+  }
+
+  const pointers =
+    options.disclosedPointers?.[credential.localId] ??
+    Object.keys(verifiableCredential)
+      .filter((key) => key !== '@context' && key !== 'proof')
+      .map((key) => toJsonPointer([key]));
+  return deriveBbsProof(verifiableCredential, pointers, utf8ToBytes(options.challenge ?? ''));
+}
+
+/**
+ * List the credentialSubject claims of a bbs-2023 credential the holder can choose to reveal
+ * @param credential - Credential with a bbs-2023 base proof
+ * @returns Name and JSON pointer of each claim, and whether the issuer requires it to be revealed
+ */
+export function getBbsSubjectClaims(credential: StoredCredential): { name: string; pointer: string; mandatory: boolean }[] {
+  const mandatoryPointers = getMandatoryPointers(credential.proof);
+
+  return Object.keys(credential.credentialSubject || {})
+    .filter((key) => key !== 'id')
+    .map((key) => {
+      const pointer = toJsonPointer(['credentialSubject', key]);
+      return {
+        name: key,
+        pointer,
+        mandatory: mandatoryPointers.some((mandatory) => pointer === mandatory || pointer.startsWith(`${mandatory}/`)),
+      };
+    });
+}
+
+/**
+ * Get the JSON pointers that reveal a bbs-2023 credential with only some of its subject claims
+ * Everything outside credentialSubject (issuer, type, validity) is revealed.
+ * @param credential - Credential with a bbs-2023 base proof
+ * @param claimPointers - Pointers of the credentialSubject claims to reveal
+ */
+export function getBbsDisclosedPointers(credential: StoredCredential, claimPointers: string[]): string[] {
+  const metadataPointers = Object.keys(toVerifiableCredential(credential))
+    .filter((key) => key !== '@context' && key !== 'proof' && key !== 'credentialSubject')
+    .map((key) => toJsonPointer([key]));
+  return [...metadataPointers, ...claimPointers];
+}
+
+/**
+ * Get the holder's signing key for a DID
+ * The key must be an authentication method of the DID and present in keyStorage.
+ * @param did - Holder DID
+ */
+export async function getHolderKeyPair(did: string): Promise<DIDKeyPair> {
+  const keyPairs = await keyStorage.getKeyPairsByController(did, true);
+  const didDocument = await resolveDid(did);
+
+  // BLS12-381 keys only sign bbs-2023 credential proofs, not presentations
+  const keyPair = keyPairs.find(
+    (candidate) =>
+      candidate.privateKeyMultibase &&
+      getKeyPairType(candidate) !== 'bls12381g2' &&
+      hasVerificationRelationship(didDocument, 'authentication', candidate.id)
+  );
+
+  if (!keyPair) {
+    throw new Error('No signing key for this DID is stored on this device');
+  }
+
+  return keyPair;
+}
+
+/**
+ * Build an unsigned presentation from stored credentials
+ * @param credentials - Credentials to include
+ * @param holder - Holder DID
+ * @param options - Verifier-supplied challenge and the claims to reveal of bbs-2023 credentials
+ */
+export function createPresentation(
+  credentials: StoredCredential[],
+  holder: string,
+  options: PresentationOptions = {}
+): VerifiablePresentation {
+  return {
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiablePresentation'],
+    id: `urn:uuid:${uuidv4()}`,
+    holder,
+    verifiableCredential: credentials.map((credential) => toPresentedCredential(credential, options)),
+  };
+}
+
+/**
+ * Build and sign a presentation with the holder's key
+ * @param credentials - Credentials to include
+ * @param holder - Holder DID
+ * @param options - Verifier-supplied challenge and domain, and the claims to reveal of bbs-2023 credentials
+ */
+export async function createSignedPresentation(
+  credentials: StoredCredential[],
+  holder: string,
+  options: PresentationOptions = {}
+): Promise<VerifiablePresentation> {
+  if (credentials.length === 0) {
+    throw new Error('Select at least one credential to present');
+  }
+  if (credentials.some((credential) => credential.sdJwt)) {
+    throw new Error('SD-JWT credentials are presented on their own');
+  }
+  if (credentials.some((credential) => credential.mdoc)) {
+    throw new Error('mdocs are only presented to verifiers over OpenID4VP');
+  }
+
+  const keyPair = await getHolderKeyPair(holder);
+  const presentation = createPresentation(credentials, holder, options);
+
+  const proof = await createProof(presentation, keyPair, {
+    proofPurpose: 'authentication',
+    challenge: options.challenge,
+    domain: options.domain,
+  });
+
+  // Record that the credentials have been presented
+  await Promise.all(credentials.map((credential) => credentialStorage.markCredentialAsUsed(credential.localId)));
+
+  return { ...presentation, proof };
+}
+
+/**
+ * Build and sign a JWT-VP with the holder's key
+ * JWT-VCs are embedded in their compact form, other credentials as JSON.
+ * The verifier's domain and challenge become the aud and nonce claims.
+ * @param credentials - Credentials to include
+ * @param holder - Holder DID
+ * @param options - Verifier-supplied challenge and domain, and the claims to reveal of bbs-2023 credentials
+ * @returns Compact JWT-VP
+ */
+export async function createJwtPresentation(
+  credentials: StoredCredential[],
+  holder: string,
+  options: PresentationOptions = {}
+): Promise<string> {
+  if (credentials.length === 0) {
+    throw new Error('Select at least one credential to present');
+  }
+  if (credentials.some((credential) => credential.sdJwt)) {
+    throw new Error('SD-JWT credentials are presented on their own');
+  }
+  if (credentials.some((credential) => credential.mdoc)) {
+    throw new Error('mdocs are only presented to verifiers over OpenID4VP');
+  }
+
+  const keyPair = await getHolderKeyPair(holder);
+  const { id, ...vp } = createPresentation([], holder);
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  const jwt = await signJws(
+    {
+      iss: holder,
+      jti: id,
+      ...(options.domain && { aud: options.domain }),
+      ...(options.challenge && { nonce: options.challenge }),
+      iat: issuedAt,
+      nbf: issuedAt,
+      vp: {
+        ...vp,
+        verifiableCredential: credentials.map((credential) => credential.jwt ?? toPresentedCredential(credential, options)),
+      },
+    },
+    keyPair,
+    { typ: 'JWT' }
+  );
+
+  // Record that the credentials have been presented
+  await Promise.all(credentials.map((credential) => credentialStorage.markCredentialAsUsed(credential.localId)));
+
+  return jwt;
+}
@@ -0,0 +1,283 @@
+import { describe, expect, it } from 'vitest';
+import { PresentationDefinition, StoredCredential } from '@/types';
+import {
+  checkSubmissionRequirements,
+  createPresentationSubmission,
+  evaluatePresentationDefinition,
+  matchesJsonSchema,
+  queryJsonPath,
+  validatePresentationDefinition,
+} from './presentationExchange';
+
+/**
+ * Build a stored credential without a proof; the engine does not check signatures
+ */
+function storedCredential(type: string, subject: Record<string, any>, fields: Partial<StoredCredential> = {}): StoredCredential {
+  return {
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiableCredential', type],
+    issuer: 'did:example:issuer',
+    issuanceDate: '2024-01-01T00:00:00Z',
+    credentialSubject: subject,
+    localId: crypto.randomUUID(),
+    imported: '2024-01-02T00:00:00Z',
+    ...fields,
+  };
+}
+
+const typeField = (type: string) => ({
+  path: ['$.type'],
+  filter: { type: 'array', contains: { const: type } },
+});
+
+const EMAIL = storedCredential('EmailVerifiedCredential', { id: 'did:example:holder', email: 'holder@example.com' });
+const PHONE = storedCredential('PhoneVerifiedCredential', { id: 'did:example:holder', phone: '+15551234567' });
+const AGE = storedCredential('AgeCredential', { id: 'did:example:holder', birthDate: '1990-05-01' });
+
+describe('Presentation Exchange', () => {
+  describe('queryJsonPath', () => {
+    const document = { a: { b: [{ c: 1 }, { c: 2 }, { c: 3 }] }, 'd.e': 'dotted' };
+
+    it('resolves member, bracket, index, slice, wildcard and recursive selectors', () => {
+      expect(queryJsonPath(document, '$.a.b[0].c')).toEqual([1]);
+      expect(queryJsonPath(document, "$['d.e']")).toEqual(['dotted']);
+      expect(queryJsonPath(document, '$.a.b[-1].c')).toEqual([3]);
+      expect(queryJsonPath(document, '$.a.b[0:2].c')).toEqual([1, 2]);
+      expect(queryJsonPath(document, '$.a.b[*].c')).toEqual([1, 2, 3]);
+      expect(queryJsonPath(document, '$..c')).toEqual([1, 2, 3]);
+      expect(queryJsonPath(document, '$.missing')).toEqual([]);
+    });
+
+    it('rejects filter expressions', () => {
+      expect(() => queryJsonPath(document, '$.a.b[?(@.c > 1)]')).toThrow('JSONPath filter expressions are not supported');
+    });
+  });
+
+  describe('matchesJsonSchema', () => {
+    it('checks types, constants, patterns and enums', () => {
+      expect(matchesJsonSchema('holder@example.com', { type: 'string', format: 'email' })).toBe(true);
+      expect(matchesJsonSchema('not an email', { type: 'string', format: 'email' })).toBe(false);
+      expect(matchesJsonSchema('DE', { enum: ['DE', 'FR'] })).toBe(true);
+      expect(matchesJsonSchema(42, { type: 'string' })).toBe(false);
+      expect(matchesJsonSchema('abc123', { pattern: '^[a-z]+\\d+$' })).toBe(true);
+      expect(matchesJsonSchema(['A', 'B'], { type: 'array', contains: { const: 'B' } })).toBe(true);
+      expect(matchesJsonSchema({ a: 1 }, { type: 'object', required: ['b'] })).toBe(false);
+    });
+
+    it('compares dates with formatMinimum and formatMaximum', () => {
+      const adult = { type: 'string', format: 'date', formatMaximum: '2006-01-01' };
+
+      expect(matchesJsonSchema('1990-05-01', adult)).toBe(true);
+      expect(matchesJsonSchema('2010-05-01', adult)).toBe(false);
+      expect(matchesJsonSchema('sometime', adult)).toBe(false);
+    });
+
+    it('applies combinators', () => {
+      expect(matchesJsonSchema(5, { anyOf: [{ minimum: 10 }, { maximum: 5 }] })).toBe(true);
+      expect(matchesJsonSchema(5, { not: { const: 5 } })).toBe(false);
+      expect(matchesJsonSchema(5, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toBe(false);
+    });
+  });
+
+  describe('validatePresentationDefinition', () => {
+    it('rejects malformed definitions', () => {
+      expect(() => validatePresentationDefinition({ id: 'x' } as any)).toThrow(
+        'Presentation definition must have an id and input_descriptors'
+      );
+      expect(() =>
+        validatePresentationDefinition({
+          id: 'x',
+          input_descriptors: [{ id: 'a', constraints: {} }, { id: 'a', constraints: {} }],
+        })
+      ).toThrow('Duplicate input descriptor id: a');
+      expect(() =>
+        validatePresentationDefinition({
+          id: 'x',
+          input_descriptors: [{ id: 'a', constraints: {} }],
+          submission_requirements: [{ rule: 'pick', count: 1, from: 'B' }],
+        })
+      ).toThrow('Submission requirement refers to an empty group: B');
+    });
+  });
+
+  describe('evaluatePresentationDefinition', () => {
+    it('matches credentials by their field constraints and reports the disclosed fields', () => {
+      const definition: PresentationDefinition = {
+        id: 'adult',
+        input_descriptors: [
+          {
+            id: 'age',
+            constraints: {
+              fields: [
+                typeField('AgeCredential'),
+                {
+                  name: 'Date of birth',
+                  path: ['$.credentialSubject.dateOfBirth', '$.credentialSubject.birthDate'],
+                  filter: { type: 'string', formatMaximum: '2006-01-01' },
+                },
+              ],
+            },
+          },
+        ],
+      };
+
+      const evaluation = evaluatePresentationDefinition(definition, [EMAIL, AGE]);
+
+      expect(evaluation.satisfied).toBe(true);
+      expect(evaluation.defaultSelection).toEqual(['age']);
+      expect(evaluation.matches[0].candidates).toHaveLength(1);
+      expect(evaluation.matches[0].candidates[0]).toMatchObject({
+        credential: AGE,
+        format: 'ldp_vc',
+        fields: [
+          { name: 'type', path: '$.type', value: AGE.type },
+          { name: 'Date of birth', path: '$.credentialSubject.birthDate', value: '1990-05-01' },
+        ],
+      });
+    });
+
+    it('does not match wallet-only fields', () => {
+      const tagged = { ...EMAIL, tags: ['work'] };
+      const definition: PresentationDefinition = {
+        id: 'tags',
+        input_descriptors: [{ id: 'tagged', constraints: { fields: [{ path: ['$.tags'] }] } }],
+      };
+
+      expect(evaluatePresentationDefinition(definition, [tagged]).satisfied).toBe(false);
+    });
+
+    it('skips optional fields the credential lacks', () => {
+      const definition: PresentationDefinition = {
+        id: 'email',
+        input_descriptors: [
+          {
+            id: 'email',
+            constraints: {
+              fields: [typeField('EmailVerifiedCredential'), { path: ['$.credentialSubject.name'], optional: true }],
+            },
+          },
+        ],
+      };
+
+      expect(evaluatePresentationDefinition(definition, [EMAIL]).matches[0].candidates[0].fields).toHaveLength(1);
+    });
+
+    it('only offers selectively disclosable credentials when disclosure must be limited', () => {
+      const definition: PresentationDefinition = {
+        id: 'email',
+        input_descriptors: [
+          { id: 'email', constraints: { limit_disclosure: 'required', fields: [typeField('EmailVerifiedCredential')] } },
+        ],
+      };
+
+      expect(evaluatePresentationDefinition(definition, [EMAIL]).satisfied).toBe(false);
+    });
+
+    it('filters by the proof types the verifier accepts', () => {
+      const signed = { ...EMAIL, proof: { type: 'DataIntegrityProof', cryptosuite: 'eddsa-rdfc-2022' } };
+      const definition = (proofType: string): PresentationDefinition => ({
+        id: 'email',
+        format: { ldp_vc: { proof_type: [proofType] } },
+        input_descriptors: [{ id: 'email', constraints: { fields: [typeField('EmailVerifiedCredential')] } }],
+      });
+
+      expect(evaluatePresentationDefinition(definition('DataIntegrityProof'), [signed]).satisfied).toBe(true);
+      expect(evaluatePresentationDefinition(definition('Ed25519Signature2020'), [signed]).satisfied).toBe(false);
+    });
+
+    it('picks the smallest selection that meets the submission requirements', () => {
+      const definition: PresentationDefinition = {
+        id: 'contact',
+        submission_requirements: [
+          { name: 'Contact', rule: 'pick', count: 1, from: 'A' },
+          { name: 'Age', rule: 'pick', min: 0, max: 1, from: 'B' },
+        ],
+        input_descriptors: [
+          { id: 'email', group: ['A'], constraints: { fields: [typeField('EmailVerifiedCredential')] } },
+          { id: 'phone', group: ['A'], constraints: { fields: [typeField('PhoneVerifiedCredential')] } },
+          { id: 'age', group: ['B'], constraints: { fields: [typeField('AgeCredential')] } },
+        ],
+      };
+
+      const evaluation = evaluatePresentationDefinition(definition, [PHONE, EMAIL, AGE]);
+
+      expect(evaluation.satisfied).toBe(true);
+      expect(evaluation.defaultSelection).toEqual(['email']);
+      expect(evaluation.requirements.map(({ satisfied }) => satisfied)).toEqual([true, true]);
+      expect(checkSubmissionRequirements(definition, ['email', 'phone'])).toEqual([
+        'Contact: select exactly 1 of the credentials',
+      ]);
+    });
+
+    it('evaluates nested requirements', () => {
+      const definition: PresentationDefinition = {
+        id: 'identity',
+        submission_requirements: [
+          {
+            name: 'Identity',
+            rule: 'pick',
+            count: 1,
+            from_nested: [
+              { rule: 'all', from: 'A' },
+              { rule: 'all', from: 'B' },
+            ],
+          },
+        ],
+        input_descriptors: [
+          { id: 'email', group: ['A'], constraints: { fields: [typeField('EmailVerifiedCredential')] } },
+          { id: 'phone', group: ['A'], constraints: { fields: [typeField('PhoneVerifiedCredential')] } },
+          { id: 'age', group: ['B'], constraints: { fields: [typeField('AgeCredential')] } },
+        ],
+      };
+
+      expect(evaluatePresentationDefinition(definition, [EMAIL, AGE]).defaultSelection).toEqual(['age']);
+      expect(evaluatePresentationDefinition(definition, [EMAIL]).satisfied).toBe(false);
+      expect(checkSubmissionRequirements(definition, ['email', 'phone'])).toEqual([]);
+    });
+
+    it('requires every descriptor without submission requirements', () => {
+      const definition: PresentationDefinition = {
+        id: 'both',
+        input_descriptors: [
+          { id: 'email', name: 'Email', constraints: { fields: [typeField('EmailVerifiedCredential')] } },
+          { id: 'phone', name: 'Phone', constraints: { fields: [typeField('PhoneVerifiedCredential')] } },
+        ],
+      };
+
+      expect(evaluatePresentationDefinition(definition, [EMAIL])).toMatchObject({ satisfied: false, defaultSelection: [] });
+      expect(checkSubmissionRequirements(definition, ['email'])).toEqual(['Phone is required']);
+    });
+  });
+
+  describe('createPresentationSubmission', () => {
+    const definition: PresentationDefinition = { id: 'mixed', input_descriptors: [] };
+
+    it('points a single JSON-LD credential into the VP', () => {
+      expect(createPresentationSubmission(definition, [{ id: 'email', format: 'ldp_vc' }]).descriptor_map).toEqual([
+        {
+          id: 'email',
+          format: 'ldp_vp',
+          path: '$',
+          path_nested: { id: 'email', format: 'ldp_vc', path: '$.verifiableCredential[0]' },
+        },
+      ]);
+    });
+
+    it('orders the VP, the JWT-VP and then standalone presentations', () => {
+      const submission = createPresentationSubmission(definition, [
+        { id: 'pid', format: 'vc+sd-jwt' },
+        { id: 'email', format: 'ldp_vc' },
+        { id: 'phone', format: 'jwt_vc_json' },
+        { id: 'age', format: 'ldp_vc' },
+      ]);
+
+      expect(submission.definition_id).toBe('mixed');
+      expect(submission.descriptor_map.map(({ id, path, path_nested }) => [id, path, path_nested?.path])).toEqual([
+        ['email', '$[0]', '$.verifiableCredential[0]'],
+        ['age', '$[0]', '$.verifiableCredential[1]'],
+        ['phone', '$[1]', '$.vp.verifiableCredential[0]'],
+        ['pid', '$[2]', undefined],
+      ]);
+    });
+  });
+});
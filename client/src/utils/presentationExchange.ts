@@ -0,0 +1,877 @@
+import { v4 as uuidv4 } from 'uuid';
+import { isBbsBaseProof, toJsonPointer } from 'hedera-id-wallet-common/bbs2023';
+import {
+  DescriptorMatch,
+  DisclosedField,
+  FieldConstraint,
+  InputDescriptor,
+  PresentationDefinition,
+  PresentationEvaluation,
+  PresentationSubmission,
+  RequirementResult,
+  StoredCredential,
+  SubmissionRequirement,
+} from '@/types';
+import { decodeJws } from './crypto';
+import { isJwtVcFormat, JWT_VP_FORMAT } from './jwtVc';
+import { getMdocIssuerAlgorithm, MDOC_FORMAT } from './mdoc';
+import { toVerifiableCredential } from './presentation';
+import { getDisclosedClaims, SD_JWT_VC_FORMAT } from './sdJwt';
+
+/**
+ * DIF Presentation Exchange v2 engine
+ * Evaluates presentation definitions against stored credentials without touching storage,
+ * so callers decide which credentials (e.g. not revoked) are eligible.
+ */
+
+/**
+ * Claim formats that can disclose only the requested fields
+ * Descriptors with limit_disclosure 'required' only match these, or credentials with a bbs-2023 proof.
+ */
+export const SELECTIVE_DISCLOSURE_FORMATS: string[] = [SD_JWT_VC_FORMAT, MDOC_FORMAT];
+
+// Claim formats presented on their own rather than inside a VP
+const STANDALONE_FORMATS = [SD_JWT_VC_FORMAT, MDOC_FORMAT];
+
+// ==================== JSONPath ====================
+
+type PathSegment =
+  | { kind: 'names'; names: string[]; recursive: boolean }
+  | { kind: 'indexes'; indexes: number[]; recursive: boolean }
+  | { kind: 'slice'; start?: number; end?: number; step: number; recursive: boolean }
+  | { kind: 'wildcard'; recursive: boolean };
+
+/**
+ * Parse a bracket selector body: 'a','b' / 1,2 / * / start:end:step
+ */
+function parseBracket(body: string, recursive: boolean): PathSegment {
+  const trimmed = body.trim();
+
+  if (trimmed === '*') {
+    return { kind: 'wildcard', recursive };
+  }
+
+  if (/^(-?\d+)?:(-?\d+)?(:(-?\d+)?)?$/.test(trimmed)) {
+    const [start, end, step] = trimmed.split(':');
+    return {
+      kind: 'slice',
+      start: start ? Number(start) : undefined,
+      end: end ? Number(end) : undefined,
+      step: step ? Number(step) : 1,
+      recursive,
+    };
+  }
+
+  const parts = trimmed.match(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|-?\d+/g) || [];
+  if (parts.length === 0 || parts.join(',') !== trimmed.replace(/\s*,\s*/g, ',')) {
+    throw new Error(`Unsupported JSONPath selector: [${body}]`);
+  }
+
+  if (parts.every((part) => /^-?\d+$/.test(part))) {
+    return { kind: 'indexes', indexes: parts.map(Number), recursive };
+  }
+
+  if (parts.some((part) => /^-?\d+$/.test(part))) {
+    throw new Error(`Unsupported JSONPath selector: [${body}]`);
+  }
+
+  return {
+    kind: 'names',
+    names: parts.map((part) => part.slice(1, -1).replace(/\\(.)/g, '$1')),
+    recursive,
+  };
+}
+
+/**
+ * Parse a JSONPath expression into segments
+ * Supports member and bracket notation, wildcards, index lists, slices and recursive descent.
+ * Filter expressions are not supported.
+ * @param path - JSONPath expression starting with $
+ */
+function parseJsonPath(path: string): PathSegment[] {
+  const expression = path.trim();
+  if (!expression.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: PathSegment[] = [];
+  let position = 1;
+
+  while (position < expression.length) {
+    let recursive = false;
+
+    if (expression.startsWith('..', position)) {
+      recursive = true;
+      position += 2;
+    } else if (expression[position] === '.') {
+      position += 1;
+    } else if (expression[position] !== '[') {
+      throw new Error(`Invalid JSONPath: ${path}`);
+    }
+
+    if (expression[position] === '[') {
+      // Find the closing bracket, skipping over quoted names
+      let end = position + 1;
+      let quote: string | null = null;
+      while (end < expression.length && (quote || expression[end] !== ']')) {
+        if (quote && expression[end] === '\\') {
+          end += 1;
+        } else if (quote && expression[end] === quote) {
+          quote = null;
+        } else if (!quote && (expression[end] === '\'' || expression[end] === '"')) {
+          quote = expression[end];
+        }
+        end += 1;
+      }
+
+      if (end >= expression.length) {
+        throw new Error(`Unclosed bracket in JSONPath: ${path}`);
+      }
+
+      const body = expression.substring(position + 1, end);
+      if (body.trim().startsWith('?') || body.trim().startsWith('(')) {
+        throw new Error(`JSONPath filter expressions are not supported: ${path}`);
+      }
+
+      segments.push(parseBracket(body, recursive));
+      position = end + 1;
+    } else {
+      const name = expression.substring(position).match(/^(\*|[^.[\]]+)/)?.[0];
+      if (!name) {
+        throw new Error(`Invalid JSONPath: ${path}`);
+      }
+
+      segments.push(name === '*' ? { kind: 'wildcard', recursive } : { kind: 'names', names: [name], recursive });
+      position += name.length;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Value reached by a JSONPath, with the property names and indexes leading to it
+ */
+interface PathNode {
+  value: any;
+  path: (string | number)[];
+}
+
+/**
+ * Collect a node and all of its descendants, for recursive descent
+ */
+function collectDescendants(node: PathNode, into: PathNode[]): void {
+  into.push(node);
+  if (node.value !== null && typeof node.value === 'object') {
+    Object.entries(node.value).forEach(([key, child]) =>
+      collectDescendants({ value: child, path: [...node.path, Array.isArray(node.value) ? Number(key) : key] }, into)
+    );
+  }
+}
+
+/**
+ * Apply one segment to a single (non-recursive) node
+ */
+function selectChildren(node: PathNode, segment: PathSegment): PathNode[] {
+  const { value } = node;
+  if (value === null || typeof value !== 'object') return [];
+  const child = (key: string | number): PathNode => ({ value: value[key], path: [...node.path, key] });
+
+  switch (segment.kind) {
+    case 'wildcard':
+      return Array.isArray(value) ? value.map((_, index) => child(index)) : Object.keys(value).map(child);
+    case 'names':
+      return Array.isArray(value)
+        ? []
+        : segment.names.filter((name) => Object.prototype.hasOwnProperty.call(value, name)).map(child);
+    case 'indexes':
+      if (!Array.isArray(value)) return [];
+      return segment.indexes
+        .map((index) => (index < 0 ? value.length + index : index))
+        .filter((index) => index >= 0 && index < value.length)
+        .map(child);
+    case 'slice': {
+      if (!Array.isArray(value) || segment.step === 0) return [];
+      const normalize = (index: number) => (index < 0 ? Math.max(value.length + index, 0) : Math.min(index, value.length));
+      const selected: PathNode[] = [];
+
+      if (segment.step > 0) {
+        const start = normalize(segment.start ?? 0);
+        const end = normalize(segment.end ?? value.length);
+        for (let i = start; i < end; i += segment.step) selected.push(child(i));
+      } else {
+        const start = segment.start === undefined ? value.length - 1 : Math.min(normalize(segment.start), value.length - 1);
+        const end = segment.end === undefined ? -1 : normalize(segment.end);
+        for (let i = start; i > end; i += segment.step) selected.push(child(i));
+      }
+
+      return selected;
+    }
+  }
+}
+
+/**
+ * Resolve a JSONPath expression to the matching nodes
+ */
+function queryJsonPathNodes(value: any, path: string): PathNode[] {
+  let current: PathNode[] = [{ value, path: [] }];
+
+  for (const segment of parseJsonPath(path)) {
+    const nodes: PathNode[] = [];
+    if (segment.recursive) {
+      current.forEach((node) => collectDescendants(node, nodes));
+    } else {
+      nodes.push(...current);
+    }
+
+    current = nodes.flatMap((node) => selectChildren(node, segment));
+  }
+
+  return current;
+}
+
+/**
+ * Resolve a JSONPath expression against a value
+ * @param value - Document to query
+ * @param path - JSONPath expression
+ * @returns Every matching value, in document order
+ */
+export function queryJsonPath(value: any, path: string): any[] {
+  return queryJsonPathNodes(value, path).map((node) => node.value);
+}
+
+// ==================== JSON Schema filters ====================
+
+/**
+ * Compare JSON values structurally
+ */
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => deepEqual(a[key], b[key]));
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function getJsonType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Parse a date or date-time string for format comparisons
+ */
+function parseDateValue(value: any): number | null {
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\S*$/i,
+};
+
+/**
+ * Check a value against a JSON Schema filter
+ * Covers the draft-07 keywords used in presentation definitions, plus the
+ * formatMinimum/formatMaximum date comparisons Presentation Exchange adds.
+ * @param value - Value selected by a field path
+ * @param schema - Filter from the field constraint
+ */
+export function matchesJsonSchema(value: any, schema: any): boolean {
+  if (schema === true || schema === undefined) return true;
+  if (schema === false) return false;
+  if (schema === null || typeof schema !== 'object') return false;
+
+  const type = getJsonType(value);
+
+  if (schema.type !== undefined) {
+    const allowed: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const typeMatches = allowed.some((name) =>
+      name === type ||
+      (name === 'integer' && Number.isInteger(value)) ||
+      (name === 'number' && type === 'number')
+    );
+    if (!typeMatches) return false;
+  }
+
+  if ('const' in schema && !deepEqual(value, schema.const)) return false;
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(value, option))) return false;
+
+  // Combinators
+  if (Array.isArray(schema.allOf) && !schema.allOf.every((sub: any) => matchesJsonSchema(value, sub))) return false;
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: any) => matchesJsonSchema(value, sub))) return false;
+  if (Array.isArray(schema.oneOf) && schema.oneOf.filter((sub: any) => matchesJsonSchema(value, sub)).length !== 1) {
+    return false;
+  }
+  if (schema.not !== undefined && matchesJsonSchema(value, schema.not)) return false;
+
+  if (type === 'string') {
+    const length = Array.from(value as string).length;
+    if (schema.minLength !== undefined && length < schema.minLength) return false;
+    if (schema.maxLength !== undefined && length > schema.maxLength) return false;
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) return false;
+
+    if (schema.format && FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value)) {
+      return false;
+    }
+
+    const hasDateBounds = ['formatMinimum', 'formatMaximum', 'formatExclusiveMinimum', 'formatExclusiveMaximum']
+      .some((keyword) => schema[keyword] !== undefined);
+    if (hasDateBounds) {
+      const time = parseDateValue(value);
+      if (time === null) return false;
+
+      const bound = (keyword: string) => parseDateValue(schema[keyword]);
+      if (schema.formatMinimum !== undefined && !(time >= (bound('formatMinimum') ?? NaN))) return false;
+      if (schema.formatMaximum !== undefined && !(time <= (bound('formatMaximum') ?? NaN))) return false;
+      if (schema.formatExclusiveMinimum !== undefined && !(time > (bound('formatExclusiveMinimum') ?? NaN))) return false;
+      if (schema.formatExclusiveMaximum !== undefined && !(time < (bound('formatExclusiveMaximum') ?? NaN))) return false;
+    }
+  }
+
+  if (type === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return false;
+    if (schema.maximum !== undefined && value > schema.maximum) return false;
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) return false;
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) return false;
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) return false;
+  }
+
+  if (type === 'array') {
+    const items = value as any[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) return false;
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) return false;
+
+    if (schema.uniqueItems && items.some((item, index) => items.findIndex((other) => deepEqual(item, other)) !== index)) {
+      return false;
+    }
+
+    if (Array.isArray(schema.items)) {
+      if (!schema.items.every((sub: any, index: number) => index >= items.length || matchesJsonSchema(items[index], sub))) {
+        return false;
+      }
+    } else if (schema.items !== undefined && !items.every((item) => matchesJsonSchema(item, schema.items))) {
+      return false;
+    }
+
+    if (schema.contains !== undefined) {
+      const containedCount = items.filter((item) => matchesJsonSchema(item, schema.contains)).length;
+      if (containedCount < (schema.minContains ?? 1)) return false;
+      if (schema.maxContains !== undefined && containedCount > schema.maxContains) return false;
+    }
+  }
+
+  if (type === 'object') {
+    const keys = Object.keys(value);
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) return false;
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) return false;
+    if (Array.isArray(schema.required) && !schema.required.every((key: string) => key in value)) return false;
+
+    const properties = schema.properties || {};
+    for (const key of keys) {
+      if (key in properties) {
+        if (!matchesJsonSchema(value[key], properties[key])) return false;
+      } else if (schema.additionalProperties !== undefined && !matchesJsonSchema(value[key], schema.additionalProperties)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+// ==================== Input descriptors ====================
+
+/**
+ * Get the claim format designation of a stored credential
+ * @param credential - Credential as stored in the wallet
+ */
+export function getCredentialFormat(credential: StoredCredential): string {
+  return credential.format || 'ldp_vc';
+}
+
+/**
+ * Get the proof types of a credential
+ */
+function getProofTypes(credential: StoredCredential): string[] {
+  const proofs = Array.isArray(credential.proof) ? credential.proof : credential.proof ? [credential.proof] : [];
+  return proofs.map((proof: any) => proof?.type).filter(Boolean);
+}
+
+/**
+ * Check a credential against the format designation of a descriptor or definition
+ * @returns The matching format, or null if the verifier does not accept it
+ */
+function matchFormat(credential: StoredCredential, designation?: Record<string, any>): string | null {
+  const format = getCredentialFormat(credential);
+  if (!designation) return format;
+
+  // ldp and jwt are the generic designations for linked data proofs and JWTs of any kind
+  const requirements =
+    designation[format] ??
+    (format.startsWith('ldp_') ? designation.ldp : isJwtVcFormat(format) ? designation.jwt_vc ?? designation.jwt : undefined);
+  if (!requirements) return null;
+
+  if (credential.sdJwt) {
+    const algorithms: string[] | undefined = requirements['sd-jwt_alg_values'];
+    const { alg } = decodeJws(credential.sdJwt.issuerJwt).header;
+    return !Array.isArray(algorithms) || algorithms.includes(alg) ? format : null;
+  }
+
+  if (credential.jwt) {
+    const algorithms: string[] | undefined = requirements.alg;
+    const { alg } = decodeJws(credential.jwt).header;
+    return !Array.isArray(algorithms) || algorithms.includes(alg) ? format : null;
+  }
+
+  if (credential.mdoc) {
+    const algorithms: string[] | undefined = requirements.alg;
+    const alg = getMdocIssuerAlgorithm(credential.mdoc);
+    return !Array.isArray(algorithms) || (alg !== undefined && algorithms.includes(alg)) ? format : null;
+  }
+
+  const proofTypes: string[] | undefined = requirements.proof_type;
+  if (Array.isArray(proofTypes) && !getProofTypes(credential).some((type) => proofTypes.includes(type))) {
+    return null;
+  }
+
+  return format;
+}
+
+/**
+ * Resolve field constraints against a credential
+ * @returns Each requested field with the JSON pointer of its value, or null if a required field is missing or rejected
+ */
+function resolveFields(document: any, fields: FieldConstraint[]): { field: DisclosedField; pointer: string }[] | null {
+  const resolved: { field: DisclosedField; pointer: string }[] = [];
+
+  for (const field of fields) {
+    let match: { path: string; node: PathNode } | undefined;
+
+    for (const path of field.path) {
+      let nodes: PathNode[];
+      try {
+        nodes = queryJsonPathNodes(document, path);
+      } catch (error) {
+        console.warn('Skipping unsupported field path:', error);
+        continue;
+      }
+
+      const node = nodes.find((candidate) => matchesJsonSchema(candidate.value, field.filter));
+      if (node) {
+        match = { path, node };
+        break;
+      }
+    }
+
+    if (!match) {
+      if (field.optional) continue;
+      return null;
+    }
+
+    resolved.push({
+      field: {
+        name: field.name || field.id || match.path.replace(/^\$\.?/, ''),
+        path: match.path,
+        value: match.node.value,
+        optional: field.optional,
+      },
+      pointer: toJsonPointer(match.node.path),
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Evaluate field constraints against a credential
+ * @returns The requested fields, or null if a required field is missing or rejected
+ */
+function evaluateFields(document: any, fields: FieldConstraint[]): DisclosedField[] | null {
+  return resolveFields(document, fields)?.map(({ field }) => field) ?? null;
+}
+
+/**
+ * Find the JSON pointers a bbs-2023 credential or an mdoc must reveal for the requested fields
+ * @param document - Credential without wallet-only fields, or the data elements of an mdoc
+ * @param fields - Field constraints of the descriptor
+ * @param revealed - Pointers revealed regardless of the request
+ */
+function findDisclosedPointers(document: any, fields: FieldConstraint[], revealed: string[] = []): string[] {
+  const pointers = (resolveFields(document, fields) || []).map(({ pointer }) => pointer).filter(Boolean);
+  return [...new Set([...revealed, ...pointers])];
+}
+
+/**
+ * Find the fewest SD-JWT disclosures that still reveal every requested field
+ * Disclosures are dropped one by one as long as the requested fields keep their values.
+ * @param credential - Stored SD-JWT VC
+ * @param fields - Field constraints of the descriptor
+ * @param disclosed - Fields resolved with every disclosure applied
+ */
+function findRequiredDisclosures(credential: StoredCredential, fields: FieldConstraint[], disclosed: DisclosedField[]): string[] {
+  const data = credential.sdJwt!;
+  const expected = JSON.stringify(disclosed);
+  let selected = data.disclosures.map((disclosure) => disclosure.digest);
+
+  for (const disclosure of data.disclosures) {
+    const without = selected.filter((digest) => digest !== disclosure.digest);
+    if (JSON.stringify(evaluateFields(getDisclosedClaims(data, without), fields)) === expected) {
+      selected = without;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Find the credentials that satisfy one input descriptor
+ * @param descriptor - Input descriptor
+ * @param credentials - Eligible credentials
+ * @param definitionFormat - Format designation of the whole definition, if any
+ */
+export function matchInputDescriptor(
+  descriptor: InputDescriptor,
+  credentials: StoredCredential[],
+  definitionFormat?: Record<string, any>
+): DescriptorMatch {
+  const candidates: DescriptorMatch['candidates'] = [];
+
+  for (const credential of credentials) {
+    const format = matchFormat(credential, descriptor.format ?? definitionFormat);
+    if (!format) continue;
+
+    const isBbs = !credential.jwt && isBbsBaseProof(credential.proof);
+    if (
+      descriptor.constraints?.limit_disclosure === 'required' &&
+      !SELECTIVE_DISCLOSURE_FORMATS.includes(format) &&
+      !isBbs
+    ) {
+      continue;
+    }
+
+    // Wallet-only fields must not satisfy (or be disclosed by) a verifier's constraints;
+    // SD-JWT paths refer to the JWT claims, mdoc paths to the data elements by namespace
+    // ($['org.iso.18013.5.1']['family_name']), JWT-VC paths to either the JWT claims ($.vc...) or the credential
+    const constraints = descriptor.constraints?.fields || [];
+    const document = credential.sdJwt
+      ? credential.sdJwt.claims
+      : credential.mdoc
+        ? credential.mdoc.claims
+        : credential.jwt
+          ? { ...decodeJws(credential.jwt).payload, ...toVerifiableCredential(credential) }
+          : toVerifiableCredential(credential);
+    const fields = evaluateFields(document, constraints);
+    if (!fields) continue;
+
+    candidates.push({
+      credential,
+      format,
+      fields,
+      ...(credential.sdJwt && { disclosures: findRequiredDisclosures(credential, constraints, fields) }),
+      // A bbs-2023 credential always reveals its type so the verifier knows what it is looking at
+      ...(isBbs && { disclosures: findDisclosedPointers(document, constraints, ['/type']) }),
+      ...(credential.mdoc && { disclosures: findDisclosedPointers(document, constraints) }),
+    });
+  }
+
+  return { descriptor, candidates };
+}
+
+// ==================== Submission requirements ====================
+
+// Largest number of matching descriptors searched exhaustively for a default selection
+const MAX_EXHAUSTIVE_DESCRIPTORS = 12;
+
+/**
+ * Get the IDs of the descriptors in a group
+ */
+function getGroupDescriptorIds(definition: PresentationDefinition, group: string): string[] {
+  return definition.input_descriptors
+    .filter((descriptor) => descriptor.group?.includes(group))
+    .map((descriptor) => descriptor.id);
+}
+
+/**
+ * Describe how many items a requirement needs, for messages
+ */
+function describeCount(requirement: SubmissionRequirement): string {
+  if (requirement.rule === 'all') return 'all';
+  if (requirement.count !== undefined) return `exactly ${requirement.count}`;
+  if (requirement.min !== undefined && requirement.max !== undefined) return `${requirement.min} to ${requirement.max}`;
+  if (requirement.min !== undefined) return `at least ${requirement.min}`;
+  if (requirement.max !== undefined) return `at most ${requirement.max}`;
+  return 'any';
+}
+
+/**
+ * Check whether a number of selected items meets a requirement's rule
+ */
+function meetsRule(requirement: SubmissionRequirement, selected: number, total: number): boolean {
+  if (requirement.rule === 'all') return selected === total;
+  if (requirement.count !== undefined) return selected === requirement.count;
+  if (requirement.min !== undefined && selected < requirement.min) return false;
+  if (requirement.max !== undefined && selected > requirement.max) return false;
+  return true;
+}
+
+/**
+ * Pick the items a requirement should submit by default
+ * Prefers the smallest valid selection, but shares at least one item when allowed.
+ * @returns The chosen items, or null if too few are available
+ */
+function pickDefault<T>(requirement: SubmissionRequirement, available: T[], total: number): T[] | null {
+  if (requirement.rule === 'all') {
+    return available.length === total ? available : null;
+  }
+
+  const required = requirement.count ?? requirement.min ?? 0;
+  const preferred = requirement.count ?? Math.min(Math.max(required, 1), requirement.max ?? Infinity);
+  const take = Math.min(preferred, available.length);
+
+  return take >= required ? available.slice(0, take) : null;
+}
+
+/**
+ * Evaluate a submission requirement against the descriptors that have candidates
+ */
+function evaluateRequirement(
+  requirement: SubmissionRequirement,
+  definition: PresentationDefinition,
+  available: Set<string>
+): RequirementResult & { selection: string[] | null } {
+  if (requirement.from_nested) {
+    const nested = requirement.from_nested.map((child) => evaluateRequirement(child, definition, available));
+    const chosen = pickDefault(requirement, nested.filter((child) => child.selection), nested.length);
+
+    return {
+      requirement,
+      satisfied: chosen !== null,
+      descriptorIds: [...new Set(nested.flatMap((child) => child.descriptorIds))],
+      nested: nested.map(({ selection, ...result }) => result),
+      selection: chosen ? [...new Set(chosen.flatMap((child) => child.selection!))] : null,
+    };
+  }
+
+  const descriptorIds = requirement.from ? getGroupDescriptorIds(definition, requirement.from) : [];
+  const selection = pickDefault(requirement, descriptorIds.filter((id) => available.has(id)), descriptorIds.length);
+
+  return { requirement, satisfied: selection !== null, descriptorIds, selection };
+}
+
+/**
+ * Find the smallest set of available descriptors that meets every submission requirement
+ * Groups may overlap, so requirements cannot be satisfied one at a time. An empty
+ * selection is only used when nothing else is valid.
+ */
+function findSmallestSelection(definition: PresentationDefinition, availableIds: string[]): string[] | null {
+  const subsets = Array.from({ length: 2 ** availableIds.length }, (_, mask) =>
+    availableIds.filter((_, index) => mask & (1 << index))
+  );
+  subsets.sort((a, b) => (a.length || Infinity) - (b.length || Infinity));
+
+  return subsets.find((subset) => checkSubmissionRequirements(definition, subset).length === 0) || null;
+}
+
+/**
+ * Check a definition's structure before evaluating it
+ * @param definition - Presentation definition from a verifier
+ */
+export function validatePresentationDefinition(definition: PresentationDefinition): void {
+  if (!definition?.id || !Array.isArray(definition.input_descriptors)) {
+    throw new Error('Presentation definition must have an id and input_descriptors');
+  }
+
+  const ids = new Set<string>();
+  for (const descriptor of definition.input_descriptors) {
+    if (!descriptor?.id) {
+      throw new Error('Every input descriptor must have an id');
+    }
+    if (ids.has(descriptor.id)) {
+      throw new Error(`Duplicate input descriptor id: ${descriptor.id}`);
+    }
+    ids.add(descriptor.id);
+
+    for (const field of descriptor.constraints?.fields || []) {
+      if (!Array.isArray(field.path) || field.path.length === 0) {
+        throw new Error(`Input descriptor ${descriptor.id} has a field without a path`);
+      }
+    }
+  }
+
+  const checkRequirement = (requirement: SubmissionRequirement) => {
+    if (requirement.rule !== 'all' && requirement.rule !== 'pick') {
+      throw new Error(`Unsupported submission requirement rule: ${requirement.rule}`);
+    }
+    if (!!requirement.from === !!requirement.from_nested) {
+      throw new Error('A submission requirement needs exactly one of from or from_nested');
+    }
+    if (requirement.from && getGroupDescriptorIds(definition, requirement.from).length === 0) {
+      throw new Error(`Submission requirement refers to an empty group: ${requirement.from}`);
+    }
+    requirement.from_nested?.forEach(checkRequirement);
+  };
+
+  definition.submission_requirements?.forEach(checkRequirement);
+}
+
+/**
+ * Evaluate a presentation definition against stored credentials
+ * @param definition - Presentation definition from a verifier
+ * @param credentials - Credentials the holder may share
+ * @returns Candidates per input descriptor and the outcome of each submission requirement
+ */
+export function evaluatePresentationDefinition(
+  definition: PresentationDefinition,
+  credentials: StoredCredential[]
+): PresentationEvaluation {
+  validatePresentationDefinition(definition);
+
+  const matches = definition.input_descriptors.map((descriptor) =>
+    matchInputDescriptor(descriptor, credentials, definition.format)
+  );
+  const available = new Set(matches.filter((match) => match.candidates.length > 0).map((match) => match.descriptor.id));
+
+  // Without submission requirements every input descriptor must be submitted
+  if (!definition.submission_requirements) {
+    const satisfied = matches.every((match) => match.candidates.length > 0);
+    return {
+      definition,
+      matches,
+      requirements: [],
+      satisfied,
+      defaultSelection: satisfied ? matches.map((match) => match.descriptor.id) : [],
+    };
+  }
+
+  const results = definition.submission_requirements.map((requirement) =>
+    evaluateRequirement(requirement, definition, available)
+  );
+  const availableIds = definition.input_descriptors.map((descriptor) => descriptor.id).filter((id) => available.has(id));
+
+  let selection: string[] | null;
+  if (availableIds.length <= MAX_EXHAUSTIVE_DESCRIPTORS) {
+    selection = findSmallestSelection(definition, availableIds);
+  } else {
+    // Too many combinations to search: merge each requirement's own choice and check the result
+    const merged = results.every((result) => result.selection)
+      ? new Set(results.flatMap((result) => result.selection!))
+      : null;
+    selection = merged ? availableIds.filter((id) => merged.has(id)) : null;
+    if (selection && checkSubmissionRequirements(definition, selection).length > 0) {
+      selection = null;
+    }
+  }
+
+  return {
+    definition,
+    matches,
+    requirements: results.map(({ selection, ...result }) => result),
+    satisfied: selection !== null,
+    defaultSelection: selection || [],
+  };
+}
+
+/**
+ * Check a selection of descriptors against the definition's submission requirements
+ * @param definition - Presentation definition from a verifier
+ * @param descriptorIds - Descriptors the holder chose to submit
+ * @returns A message for each requirement the selection does not meet
+ */
+export function checkSubmissionRequirements(definition: PresentationDefinition, descriptorIds: string[]): string[] {
+  const selected = new Set(descriptorIds);
+
+  if (!definition.submission_requirements) {
+    return definition.input_descriptors
+      .filter((descriptor) => !selected.has(descriptor.id))
+      .map((descriptor) => `${descriptor.name || descriptor.id} is required`);
+  }
+
+  const isMet = (requirement: SubmissionRequirement): boolean => {
+    if (requirement.from_nested) {
+      const metCount = requirement.from_nested.filter(isMet).length;
+      return meetsRule(requirement, metCount, requirement.from_nested.length);
+    }
+
+    const ids = getGroupDescriptorIds(definition, requirement.from!);
+    return meetsRule(requirement, ids.filter((id) => selected.has(id)).length, ids.length);
+  };
+
+  return definition.submission_requirements
+    .filter((requirement) => !isMet(requirement))
+    .map((requirement) => {
+      const label = requirement.name || (requirement.from ? `Group ${requirement.from}` : 'Requirement');
+      const unit = requirement.from_nested ? 'options' : 'credentials';
+      return `${label}: select ${describeCount(requirement)} of the ${unit}`;
+    });
+}
+
+// ==================== Presentation submission ====================
+
+/**
+ * Build the presentation_submission for a vp_token
+ * JSON-LD credentials are placed in one VP and JWT-VCs in one JWT-VP, each in the given order;
+ * every SD-JWT VC and mdoc (a DeviceResponse) is its own presentation following them. A vp_token with a single
+ * presentation is that presentation itself rather than an array.
+ * @param definition - Presentation definition from a verifier
+ * @param entries - Input descriptor ID and claim format of each submitted credential
+ * @param presentationFormat - Format of the VP enclosing JSON-LD credentials
+ */
+export function createPresentationSubmission(
+  definition: PresentationDefinition,
+  entries: { id: string; format: string }[],
+  presentationFormat = 'ldp_vp'
+): PresentationSubmission {
+  const envelopes = [
+    {
+      format: presentationFormat,
+      nestedPath: '$.verifiableCredential',
+      entries: entries.filter((entry) => !STANDALONE_FORMATS.includes(entry.format) && !isJwtVcFormat(entry.format)),
+    },
+    {
+      format: JWT_VP_FORMAT,
+      nestedPath: '$.vp.verifiableCredential',
+      entries: entries.filter((entry) => isJwtVcFormat(entry.format)),
+    },
+  ].filter((envelope) => envelope.entries.length > 0);
+  const standalone = entries.filter((entry) => STANDALONE_FORMATS.includes(entry.format));
+  const getPath = (index: number) => (envelopes.length + standalone.length === 1 ? '$' : `$[${index}]`);
+
+  return {
+    id: uuidv4(),
+    definition_id: definition.id,
+    descriptor_map: [
+      ...envelopes.flatMap((envelope, envelopeIndex) =>
+        envelope.entries.map((entry, index) => ({
+          id: entry.id,
+          format: envelope.format,
+          path: getPath(envelopeIndex),
+          path_nested: {
+            id: entry.id,
+            format: entry.format,
+            path: `${envelope.nestedPath}[${index}]`,
+          },
+        }))
+      ),
+      ...standalone.map((entry, index) => ({
+        id: entry.id,
+        format: entry.format,
+        path: getPath(envelopes.length + index),
+      })),
+    ],
+  };
+}
+
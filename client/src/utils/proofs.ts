@@ -0,0 +1,85 @@
+import {
+  createBbsBaseProofValue,
+  isBbsBaseProof,
+  isBbsProof,
+  verifyBbsBaseProof,
+  verifyBbsDerivedProof,
+} from 'hedera-id-wallet-common/bbs2023';
+import { decodeBase64Url, decodeMultibase } from 'hedera-id-wallet-common/encoding';
+import { CreateProofOptions, createProof as createSuiteProof, verifyProof as verifySuiteProof } from 'hedera-id-wallet-common/proofs';
+import { DIDKeyPair } from '@/types';
+import { getJwkKeyType, getKeyPairType, JWS_ALGORITHMS, signBytes, verifyBytes } from './crypto';
+
+/**
+ * Linked data proofs with the wallet's keys
+ * The proof suites are shared with the server (hedera-id-wallet-common/proofs);
+ * this module signs and checks them with wallet key pairs, and adds bbs-2023
+ * proofs (hedera-id-wallet-common/bbs2023), which sign each canonical N-Quad
+ * separately.
+ */
+
+/**
+ * Verify a single proof over a document with the given public key
+ * @param unsecuredDocument - Document without its proof
+ * @param proof - The proof to verify
+ * @param publicKeyJwk - Public key of the proof's verification method
+ */
+export async function verifyProof(unsecuredDocument: any, proof: any, publicKeyJwk: JsonWebKey): Promise<boolean> {
+  if (isBbsProof(proof)) {
+    if (getJwkKeyType(publicKeyJwk) !== 'bls12381g2') {
+      return false;
+    }
+    const publicKey = decodeBase64Url(publicKeyJwk.x!);
+    return isBbsBaseProof(proof)
+      ? verifyBbsBaseProof(unsecuredDocument, proof, publicKey)
+      : verifyBbsDerivedProof(unsecuredDocument, proof, publicKey);
+  }
+
+  return verifySuiteProof(unsecuredDocument, proof, (data, signature) => verifyBytes(publicKeyJwk, data, signature));
+}
+
+/**
+ * Create a proof over a document with a holder key
+ * Ed25519 keys produce a proof of the requested suite (an eddsa-jcs-2022
+ * DataIntegrityProof by default); secp256k1 keys produce a JsonWebSignature2020
+ * proof with a detached ES256K JWS. BLS12-381 keys produce a bbs-2023 base proof,
+ * which has no created date so that derived proofs cannot be linked by it.
+ * @param unsecuredDocument - Document without a proof
+ * @param keyPair - Key pair including the decrypted private key
+ * @param options - Proof purpose, suite and optional challenge/domain binding
+ */
+export async function createProof(unsecuredDocument: any, keyPair: DIDKeyPair, options: CreateProofOptions): Promise<any> {
+  const keyType = getKeyPairType(keyPair);
+
+  if (keyType !== 'bls12381g2') {
+    return createSuiteProof(
+      unsecuredDocument,
+      { verificationMethod: keyPair.id, algorithm: JWS_ALGORITHMS[keyType], sign: (data) => signBytes(keyPair, data) },
+      options
+    );
+  }
+
+  if (options.suite) {
+    throw new Error(`${options.suite} proofs require an Ed25519 key`);
+  }
+  if (!keyPair.privateKeyMultibase) {
+    throw new Error('Private key is not available for signing');
+  }
+
+  const proofOptions = {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'bbs-2023',
+    verificationMethod: keyPair.id,
+    proofPurpose: options.proofPurpose,
+    ...(options.challenge && { challenge: options.challenge }),
+    ...(options.domain && { domain: options.domain }),
+  };
+  const proofValue = createBbsBaseProofValue(
+    unsecuredDocument,
+    proofOptions,
+    decodeMultibase(keyPair.privateKeyMultibase),
+    decodeBase64Url(keyPair.publicKeyJwk.x!),
+    options.mandatoryPointers
+  );
+  return { ...proofOptions, proofValue };
+}
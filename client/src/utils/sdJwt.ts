@@ -0,0 +1,446 @@
+import axios from 'axios';
+import { bytesToUtf8, decodeBase64Url, encodeBase64Url } from 'hedera-id-wallet-common/encoding';
+import { DIDKeyPair, SdJwtCredentialData, SdJwtDisclosure, StoredCredential, VerifiableCredential } from '@/types';
+import { decodeJws, sha256, signJws } from './crypto';
+import { credentialStorage, keyStorage } from './db';
+import { resolveAssertionMethodKey } from './did';
+
+/**
+ * SD-JWT VCs (IETF SD-JWT and SD-JWT-based Verifiable Credentials)
+ * The issuer signs a JWT holding salted digests of the selectively disclosable claims;
+ * the claims themselves travel as separate disclosures. The holder picks which
+ * disclosures to send and proves possession of the bound key with a key binding JWT.
+ * Verifying the issuer JWT's signature is left to the verification engine.
+ */
+
+/**
+ * Claim format designation of SD-JWT VCs
+ */
+export const SD_JWT_VC_FORMAT = 'vc+sd-jwt';
+
+// typ header values of an SD-JWT VC issuer JWT
+const SD_JWT_VC_TYPES = ['vc+sd-jwt', 'dc+sd-jwt'];
+
+const KEY_BINDING_JWT_TYPE = 'kb+jwt';
+
+// JWT and SD-JWT VC claims that describe the credential rather than its subject
+const REGISTERED_CLAIMS = ['iss', 'sub', 'iat', 'nbf', 'exp', 'jti', 'aud', 'cnf', 'vct', 'status', '_sd_alg'];
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Disclosure contents keyed by digest
+ */
+type DisclosureMap = Map<string, { name?: string; value: any }>;
+
+/**
+ * State of one pass over the issuer JWT payload
+ */
+interface RevealContext {
+  disclosures: DisclosureMap;
+  include?: Set<string>; // Digests to apply; all known digests when absent
+  found: { digest: string; path: (string | number)[]; parentDigest?: string }[];
+  unknownDigests: number;
+}
+
+/**
+ * Check whether a string is a compact SD-JWT
+ * @param value - Candidate string
+ */
+export function isSdJwt(value: string): boolean {
+  return /^[\w-]+\.[\w-]+\.[\w-]+~/.test(value.trim());
+}
+
+/**
+ * Split a compact SD-JWT into the issuer JWT, its disclosures and the key binding JWT
+ * @param compact - <issuer JWT>~<disclosure>~...~<KB-JWT, if any>
+ */
+export function splitSdJwt(compact: string): { issuerJwt: string; disclosures: string[]; keyBindingJwt?: string } {
+  const parts = compact.trim().split('~');
+  if (parts.length < 2) {
+    throw new Error('Invalid SD-JWT: missing ~ separator');
+  }
+
+  const keyBindingJwt = parts[parts.length - 1] || undefined;
+  return {
+    issuerJwt: parts[0],
+    disclosures: parts.slice(1, -1).filter(Boolean),
+    keyBindingJwt,
+  };
+}
+
+/**
+ * Compute the digest the issuer JWT uses to refer to a disclosure or an SD-JWT
+ * @param value - Disclosure or SD-JWT as sent
+ */
+async function digest(value: string): Promise<string> {
+  return encodeBase64Url(await sha256(value));
+}
+
+/**
+ * Decode a disclosure: [salt, name, value] for object properties, [salt, value] for array elements
+ * @param encoded - base64url-encoded disclosure
+ */
+function decodeDisclosure(encoded: string): { salt: string; name?: string; value: any } {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(bytesToUtf8(decodeBase64Url(encoded)));
+  } catch {
+    throw new Error('Invalid SD-JWT disclosure: not base64url-encoded JSON');
+  }
+
+  if (!Array.isArray(decoded) || (decoded.length !== 2 && decoded.length !== 3) || typeof decoded[0] !== 'string') {
+    throw new Error('Invalid SD-JWT disclosure: expected [salt, name, value] or [salt, value]');
+  }
+
+  if (decoded.length === 2) {
+    return { salt: decoded[0], value: decoded[1] };
+  }
+
+  if (typeof decoded[1] !== 'string' || decoded[1] === '_sd' || decoded[1] === '...') {
+    throw new Error(`Invalid SD-JWT disclosure claim name: ${decoded[1]}`);
+  }
+  return { salt: decoded[0], name: decoded[1], value: decoded[2] };
+}
+
+/**
+ * Replace the digests of a payload value with the disclosed claims they refer to
+ * Digests without a disclosure, or not selected, are removed.
+ */
+function revealValue(
+  value: any,
+  context: RevealContext,
+  path: (string | number)[],
+  parentDigest?: string
+): any {
+  if (Array.isArray(value)) {
+    const revealed: any[] = [];
+
+    for (const element of value) {
+      const isDigestElement =
+        element && typeof element === 'object' && !Array.isArray(element) && Object.keys(element).length === 1 && '...' in element;
+
+      if (!isDigestElement) {
+        revealed.push(revealValue(element, context, [...path, revealed.length], parentDigest));
+        continue;
+      }
+
+      const elementDigest = element['...'];
+      const disclosure = context.disclosures.get(elementDigest);
+      if (!disclosure) {
+        context.unknownDigests++;
+        continue;
+      }
+      if (disclosure.name !== undefined) {
+        throw new Error('SD-JWT array element disclosure must not have a claim name');
+      }
+      if (context.include && !context.include.has(elementDigest)) {
+        continue;
+      }
+
+      const elementPath = [...path, revealed.length];
+      context.found.push({ digest: elementDigest, path: elementPath, parentDigest });
+      revealed.push(revealValue(disclosure.value, context, elementPath, elementDigest));
+    }
+
+    return revealed;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const revealed: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key !== '_sd') {
+      revealed[key] = revealValue(child, context, [...path, key], parentDigest);
+    }
+  }
+
+  const digests = value._sd === undefined ? [] : value._sd;
+  if (!Array.isArray(digests)) {
+    throw new Error('Invalid SD-JWT: _sd must be an array of digests');
+  }
+
+  for (const claimDigest of digests) {
+    const disclosure = context.disclosures.get(claimDigest);
+    if (!disclosure) {
+      context.unknownDigests++;
+      continue;
+    }
+    if (disclosure.name === undefined) {
+      throw new Error('SD-JWT object property disclosure must have a claim name');
+    }
+    if (disclosure.name in revealed) {
+      throw new Error(`SD-JWT disclosure overwrites the claim ${disclosure.name}`);
+    }
+    if (context.include && !context.include.has(claimDigest)) {
+      continue;
+    }
+
+    const claimPath = [...path, disclosure.name];
+    context.found.push({ digest: claimDigest, path: claimPath, parentDigest });
+    revealed[disclosure.name] = revealValue(disclosure.value, context, claimPath, claimDigest);
+  }
+
+  return revealed;
+}
+
+/**
+ * Parse a compact SD-JWT VC and apply all of its disclosures
+ * Every disclosure must be referenced exactly once by the issuer JWT.
+ * @param compact - Compact SD-JWT as received from the issuer
+ */
+export async function parseSdJwt(compact: string): Promise<SdJwtCredentialData> {
+  const { issuerJwt, disclosures: encodedDisclosures } = splitSdJwt(compact);
+  const { header, payload } = decodeJws(issuerJwt);
+
+  if (header.typ && !SD_JWT_VC_TYPES.includes(header.typ)) {
+    throw new Error(`Unexpected SD-JWT VC type: ${header.typ}`);
+  }
+  if (!payload || typeof payload !== 'object') {
+    throw new Error('Invalid SD-JWT: payload is not a JSON object');
+  }
+  if (payload._sd_alg && payload._sd_alg !== 'sha-256') {
+    throw new Error(`Unsupported SD-JWT digest algorithm: ${payload._sd_alg}`);
+  }
+
+  const decoded: (ReturnType<typeof decodeDisclosure> & { digest: string; encoded: string })[] = [];
+  const disclosures: DisclosureMap = new Map();
+
+  for (const encoded of encodedDisclosures) {
+    const disclosure = { ...decodeDisclosure(encoded), digest: await digest(encoded), encoded };
+    if (disclosures.has(disclosure.digest)) {
+      throw new Error('Invalid SD-JWT: duplicate disclosure');
+    }
+    disclosures.set(disclosure.digest, disclosure);
+    decoded.push(disclosure);
+  }
+
+  const context: RevealContext = { disclosures, found: [], unknownDigests: 0 };
+  const { _sd_alg, ...claims } = revealValue(payload, context, []);
+
+  const locations = new Map(context.found.map((location) => [location.digest, location]));
+  if (locations.size !== context.found.length) {
+    throw new Error('Invalid SD-JWT: a digest is referenced more than once');
+  }
+  if (locations.size !== decoded.length) {
+    throw new Error('Invalid SD-JWT: a disclosure is not referenced by the issuer JWT');
+  }
+
+  return {
+    issuerJwt,
+    disclosures: decoded.map((disclosure) => ({
+      digest: disclosure.digest,
+      encoded: disclosure.encoded,
+      salt: disclosure.salt,
+      name: disclosure.name,
+      value: disclosure.value,
+      path: locations.get(disclosure.digest)!.path,
+      parentDigest: locations.get(disclosure.digest)!.parentDigest,
+    })),
+    claims,
+    undisclosedDigests: context.unknownDigests,
+  };
+}
+
+/**
+ * Get the claims a verifier sees when only some disclosures are sent
+ * @param data - SD-JWT VC held by the wallet
+ * @param digests - Digests of the disclosures to apply
+ */
+export function getDisclosedClaims(data: SdJwtCredentialData, digests: string[]): Record<string, any> {
+  const disclosures: DisclosureMap = new Map(data.disclosures.map((disclosure) => [disclosure.digest, disclosure]));
+  const context: RevealContext = { disclosures, include: new Set(digests), found: [], unknownDigests: 0 };
+  const { _sd_alg, ...claims } = revealValue(decodeJws(data.issuerJwt).payload, context, []);
+  return claims;
+}
+
+/**
+ * Add the disclosures that contain selected nested disclosures
+ * A nested claim can only be revealed together with the claim it is part of.
+ * @param data - SD-JWT VC held by the wallet
+ * @param digests - Selected disclosure digests
+ */
+export function withParentDisclosures(data: SdJwtCredentialData, digests: string[]): SdJwtDisclosure[] {
+  const byDigest = new Map(data.disclosures.map((disclosure) => [disclosure.digest, disclosure]));
+  const selected = new Set<string>();
+
+  for (const selectedDigest of digests) {
+    let disclosure = byDigest.get(selectedDigest);
+    while (disclosure && !selected.has(disclosure.digest)) {
+      selected.add(disclosure.digest);
+      disclosure = disclosure.parentDigest ? byDigest.get(disclosure.parentDigest) : undefined;
+    }
+  }
+
+  // Keep the issuer's order
+  return data.disclosures.filter((disclosure) => selected.has(disclosure.digest));
+}
+
+/**
+ * Describe where a disclosure sits in the claims, e.g. address.street or nationalities[1]
+ * @param disclosure - Disclosure
+ */
+export function formatDisclosurePath(disclosure: SdJwtDisclosure): string {
+  return disclosure.path
+    .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`))
+    .join('');
+}
+
+/**
+ * Get the value a disclosure reveals, with the disclosures nested in it applied
+ * @param data - SD-JWT VC held by the wallet
+ * @param disclosure - Disclosure
+ */
+export function getDisclosureValue(data: SdJwtCredentialData, disclosure: SdJwtDisclosure): any {
+  return disclosure.path.reduce((value: any, segment) => value?.[segment], data.claims);
+}
+
+/**
+ * Convert a compact SD-JWT VC into the credential shape the wallet stores and displays
+ * Subject claims become credentialSubject; vct becomes the most specific type.
+ * @param compact - Compact SD-JWT as received from the issuer
+ */
+export async function parseSdJwtCredential(compact: string): Promise<VerifiableCredential> {
+  const data = await parseSdJwt(compact);
+  const { claims } = data;
+
+  if (typeof claims.iss !== 'string' || typeof claims.vct !== 'string') {
+    throw new Error('SD-JWT VC must contain iss and vct claims');
+  }
+
+  const subjectClaims = Object.fromEntries(Object.entries(claims).filter(([name]) => !REGISTERED_CLAIMS.includes(name)));
+  const toDate = (seconds: any) => (typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : undefined);
+
+  return {
+    '@context': [],
+    type: ['VerifiableCredential', claims.vct],
+    ...(typeof claims.jti === 'string' && { id: claims.jti }),
+    issuer: claims.iss,
+    issuanceDate: toDate(claims.iat) || '',
+    ...(claims.nbf !== undefined && { validFrom: toDate(claims.nbf) }),
+    expirationDate: toDate(claims.exp),
+    credentialSubject: {
+      ...(typeof claims.sub === 'string' && { id: claims.sub }),
+      ...subjectClaims,
+    },
+    format: SD_JWT_VC_FORMAT,
+    sdJwt: data,
+  };
+}
+
+/**
+ * Resolve the public key that signed an SD-JWT VC issuer JWT
+ * A DID issuer's key is taken from its DID document (assertion methods only); an
+ * HTTPS issuer publishes its keys in /.well-known/jwt-vc-issuer metadata.
+ * @param data - SD-JWT VC held by the wallet
+ */
+export async function resolveSdJwtIssuerKey(data: SdJwtCredentialData): Promise<JsonWebKey> {
+  const { header, payload } = decodeJws(data.issuerJwt);
+  const issuer: string = payload.iss;
+
+  if (issuer.startsWith('did:')) {
+    return resolveAssertionMethodKey(issuer, header.kid);
+  }
+
+  if (!issuer.startsWith('https://')) {
+    throw new Error(`Unsupported SD-JWT issuer: ${issuer}`);
+  }
+
+  const issuerUrl = new URL(issuer);
+  const path = issuerUrl.pathname === '/' ? '' : issuerUrl.pathname.replace(/\/$/, '');
+  const { data: metadata } = await axios.get(`${issuerUrl.origin}/.well-known/jwt-vc-issuer${path}`, {
+    timeout: REQUEST_TIMEOUT_MS,
+  });
+
+  if (metadata?.issuer !== issuer) {
+    throw new Error('Issuer metadata does not match the SD-JWT issuer');
+  }
+
+  const jwks = metadata.jwks ?? (metadata.jwks_uri ? (await axios.get(metadata.jwks_uri, { timeout: REQUEST_TIMEOUT_MS })).data : undefined);
+  const keys: (JsonWebKey & { kid?: string })[] = jwks?.keys || [];
+  const key = header.kid ? keys.find((candidate) => candidate.kid === header.kid) : keys.length === 1 ? keys[0] : undefined;
+
+  if (!key) {
+    throw new Error('Issuer metadata does not contain the SD-JWT signing key');
+  }
+  return key;
+}
+
+/**
+ * Find the stored key an SD-JWT VC is bound to through its cnf claim
+ * @param data - SD-JWT VC held by the wallet
+ * @returns The key pair with its private key, or null if the credential is not key-bound
+ */
+export async function getSdJwtHolderKeyPair(data: SdJwtCredentialData): Promise<DIDKeyPair | null> {
+  const cnf = data.claims.cnf;
+  if (!cnf) {
+    return null;
+  }
+
+  let keyPair: DIDKeyPair | undefined;
+  if (typeof cnf.kid === 'string') {
+    const keyPairs = await keyStorage.getKeyPairsByController(cnf.kid.split('#')[0], true);
+    keyPair = keyPairs.find((candidate) => candidate.id === cnf.kid);
+  } else if (cnf.jwk) {
+    const keyPairs = await keyStorage.getAllKeyPairs(true);
+    keyPair = keyPairs.find(
+      (candidate) =>
+        candidate.publicKeyJwk.crv === cnf.jwk.crv &&
+        candidate.publicKeyJwk.x === cnf.jwk.x &&
+        candidate.publicKeyJwk.y === cnf.jwk.y
+    );
+  }
+
+  if (!keyPair?.privateKeyMultibase) {
+    throw new Error('The key this credential is bound to is not stored on this device');
+  }
+  return keyPair;
+}
+
+/**
+ * Build an SD-JWT presentation with the selected disclosures
+ * Key-bound credentials get a key binding JWT over the verifier's audience and nonce,
+ * signed with the holder key from keyStorage.
+ * @param credential - Stored SD-JWT VC
+ * @param digests - Digests of the disclosures to include; their parents are added
+ * @param options - Verifier audience (client_id or domain) and nonce (challenge)
+ * @returns Compact SD-JWT presentation
+ */
+export async function createSdJwtPresentation(
+  credential: StoredCredential,
+  digests: string[],
+  options: { audience?: string; nonce?: string } = {}
+): Promise<string> {
+  const data = credential.sdJwt;
+  if (!data) {
+    throw new Error('Credential is not an SD-JWT VC');
+  }
+
+  const disclosures = withParentDisclosures(data, digests);
+  const sdJwt = `${[data.issuerJwt, ...disclosures.map((disclosure) => disclosure.encoded)].join('~')}~`;
+
+  const keyPair = await getSdJwtHolderKeyPair(data);
+  let presentation = sdJwt;
+
+  if (keyPair) {
+    if (!options.audience || !options.nonce) {
+      throw new Error("Presenting an SD-JWT VC requires the verifier's domain and challenge");
+    }
+
+    presentation += await signJws(
+      {
+        iat: Math.floor(Date.now() / 1000),
+        aud: options.audience,
+        nonce: options.nonce,
+        sd_hash: await digest(sdJwt),
+      },
+      keyPair,
+      { typ: KEY_BINDING_JWT_TYPE }
+    );
+  }
+
+  await credentialStorage.markCredentialAsUsed(credential.localId);
+  return presentation;
+}
@@ -0,0 +1,207 @@
+// @vitest-environment node
+// jsdom's Blob has no stream(), which status list decoding needs
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios, { AxiosAdapter } from 'axios';
+import { encodeBase64Url } from 'hedera-id-wallet-common/encoding';
+import { STATUS_LIST_2021_CONTEXT } from 'hedera-id-wallet-common/jsonldContexts';
+import { CredentialStatus, StatusListEntry, VerifiableCredential } from '@/types';
+import { signJws } from './crypto';
+import { parseJwtCredential } from './jwtVc';
+import { clearStatusListCache, decodeStatusList, getStatusValue, readStatusListEntry } from './statusList';
+import { checkRevocation, refreshCredentialStatus, verifyCredential } from './verification';
+import { createTestIssuer, issueCredential, TestIssuer } from '@/test/issuer';
+import { storeCredential } from '@/test/wallet';
+
+const LIST_URL = 'https://issuer.test/status/1';
+
+/**
+ * GZIP and base64url-encode a bitstring
+ */
+async function encodeStatusList(bitstring: Uint8Array): Promise<string> {
+  const stream = new Blob([bitstring as BlobPart]).stream().pipeThrough(new CompressionStream('gzip'));
+  return encodeBase64Url(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+/**
+ * Build a 16 KB bitstring with the given indexes set
+ */
+function bitstringWith(indexes: number[]): Uint8Array {
+  const bitstring = new Uint8Array(16384);
+  for (const index of indexes) {
+    bitstring[index >> 3] |= 0x80 >> (index & 7);
+  }
+  return bitstring;
+}
+
+describe('status lists', () => {
+  describe('bitstrings', () => {
+    it('reads statuses from the most significant bit of the first byte', () => {
+      const bitstring = new Uint8Array([0b10100000, 0b00000011]);
+
+      expect([0, 1, 2, 3].map((index) => getStatusValue(bitstring, index))).toEqual([1, 0, 1, 0]);
+      expect(getStatusValue(bitstring, 7, 2)).toBe(3);
+      expect(() => getStatusValue(bitstring, 16)).toThrow('Status index 16 is outside the status list');
+    });
+
+    it('decodes Status List 2021 and multibase Bitstring Status List encodings', async () => {
+      const encodedList = await encodeStatusList(bitstringWith([5]));
+
+      expect(getStatusValue(await decodeStatusList(encodedList), 5)).toBe(1);
+      expect(getStatusValue(await decodeStatusList(`u${encodedList}`), 5)).toBe(1);
+      await expect(decodeStatusList('AAAA')).rejects.toThrow('Status list is not valid GZIP data');
+    });
+  });
+
+  describe('readStatusListEntry', () => {
+    const entry: StatusListEntry = {
+      id: `${LIST_URL}#3`,
+      type: 'BitstringStatusListEntry',
+      statusPurpose: 'revocation',
+      statusListIndex: '3',
+      statusListCredential: LIST_URL,
+    };
+
+    it('checks the list type and purpose', async () => {
+      const encodedList = await encodeStatusList(bitstringWith([3]));
+      const list = (type: string, statusPurpose: string) =>
+        ({ type: ['VerifiableCredential', type], credentialSubject: { statusPurpose, encodedList } }) as VerifiableCredential;
+
+      expect(await readStatusListEntry(list('BitstringStatusListCredential', 'revocation'), entry)).toBe(1);
+      await expect(readStatusListEntry(list('StatusList2021Credential', 'revocation'), entry)).rejects.toThrow(
+        'Status list is not a BitstringStatusListCredential'
+      );
+      await expect(readStatusListEntry(list('BitstringStatusListCredential', 'suspension'), entry)).rejects.toThrow(
+        'Status list does not cover status purpose revocation'
+      );
+    });
+  });
+
+  describe('revocation checks', () => {
+    let issuer: TestIssuer;
+    let lists: Record<string, any>;
+    let fetches: string[];
+    let previousAdapter: typeof axios.defaults.adapter;
+
+    const publishList = async (purpose: string, indexes: number[], listIssuer: TestIssuer = issuer) => {
+      lists[LIST_URL] = await issueCredential(
+        listIssuer,
+        {
+          id: `${LIST_URL}#list`,
+          type: 'StatusList2021',
+          statusPurpose: purpose,
+          encodedList: await encodeStatusList(bitstringWith(indexes)),
+        },
+        {
+          '@context': ['https://www.w3.org/2018/credentials/v1', STATUS_LIST_2021_CONTEXT],
+          id: LIST_URL,
+          type: ['VerifiableCredential', 'StatusList2021Credential'],
+        }
+      );
+    };
+
+    const issueWithStatus = (purpose: string, index: number) =>
+      issueCredential(
+        issuer,
+        { id: 'did:example:holder', email: 'holder@example.com' },
+        {
+          '@context': ['https://www.w3.org/2018/credentials/v1', STATUS_LIST_2021_CONTEXT],
+          credentialStatus: {
+            id: `${LIST_URL}#${index}`,
+            type: 'StatusList2021Entry',
+            statusPurpose: purpose,
+            statusListIndex: String(index),
+            statusListCredential: LIST_URL,
+          },
+        }
+      );
+
+    beforeEach(async () => {
+      issuer = await createTestIssuer();
+      lists = {};
+      fetches = [];
+      await clearStatusListCache();
+
+      const adapter: AxiosAdapter = async (config) => {
+        fetches.push(config.url!);
+        return { data: lists[config.url!], status: 200, statusText: 'OK', headers: {}, config };
+      };
+      previousAdapter = axios.defaults.adapter;
+      axios.defaults.adapter = adapter;
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = previousAdapter;
+      vi.restoreAllMocks();
+    });
+
+    it('reports revoked and active credentials and caches the list', async () => {
+      await publishList('revocation', [7]);
+
+      expect(await checkRevocation(await issueWithStatus('revocation', 7))).toMatchObject({
+        status: 'error',
+        message: 'Credential has been revoked by the issuer.',
+      });
+      expect(await checkRevocation(await issueWithStatus('revocation', 8))).toMatchObject({ status: 'success' });
+      expect(fetches).toEqual([LIST_URL]);
+    });
+
+    it('does not trust a list from another issuer or with a broken signature', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      await publishList('revocation', [], await createTestIssuer());
+      expect((await checkRevocation(await issueWithStatus('revocation', 7))).message).toBe(
+        'Revocation status could not be checked: Status list was not issued by the credential issuer'
+      );
+
+      await publishList('revocation', []);
+      lists[LIST_URL].credentialSubject.encodedList = await encodeStatusList(bitstringWith([7]));
+      expect((await checkRevocation(await issueWithStatus('revocation', 7))).message).toMatch(
+        /^Revocation status could not be checked: Status list signature could not be verified/
+      );
+    });
+
+    it('suspends a stored credential and reactivates it when the suspension is lifted', async () => {
+      await publishList('suspension', [2]);
+      const stored = await storeCredential(await issueWithStatus('suspension', 2));
+
+      expect(await refreshCredentialStatus(stored)).toBe(CredentialStatus.SUSPENDED);
+
+      await publishList('suspension', []);
+      expect(await refreshCredentialStatus({ ...stored, status: CredentialStatus.SUSPENDED }, { forceRefresh: true })).toBe(
+        CredentialStatus.ACTIVE
+      );
+    });
+
+    it('reads the status entry from the signed credential rather than the stored copy', async () => {
+      await publishList('revocation', [4]);
+      const jwt = await signJws(
+        {
+          iss: issuer.did,
+          nbf: 1704067200,
+          vc: {
+            '@context': ['https://www.w3.org/2018/credentials/v1', STATUS_LIST_2021_CONTEXT],
+            type: ['VerifiableCredential', 'EmailVerifiedCredential'],
+            credentialSubject: { email: 'holder@example.com' },
+            credentialStatus: {
+              id: `${LIST_URL}#4`,
+              type: 'StatusList2021Entry',
+              statusPurpose: 'revocation',
+              statusListIndex: '4',
+              statusListCredential: LIST_URL,
+            },
+          },
+        },
+        issuer.keyPair,
+        { typ: 'JWT' }
+      );
+      const stored = await storeCredential({ ...parseJwtCredential(jwt), credentialStatus: undefined });
+
+      const result = await verifyCredential(stored);
+
+      expect(result.checks.signature.status).toBe('success');
+      expect(result.checks.revocation).toEqual({ status: 'error', message: 'Credential has been revoked by the issuer.' });
+      expect(result.verified).toBe(false);
+      expect(await refreshCredentialStatus(stored)).toBe(CredentialStatus.REVOKED);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import axios from 'axios';
+import { decodeBase64Url } from 'hedera-id-wallet-common/encoding';
+import { CachedStatusList, CredentialStatusEntry, StatusListEntry, VerifiableCredential } from '@/types';
+import db from './db';
+import { isJwt, parseJwtCredential } from './jwtVc';
+
+/**
+ * Status lists (W3C Status List 2021 and Bitstring Status List)
+ * An issuer publishes the status of many credentials as one GZIP-compressed bitstring
+ * inside a signed status list credential; each credential points at its index.
+ * Lists are fetched once per TTL and cached per URL, tagged with their issuer.
+ * Verifying the list credential's signature is left to the verification engine.
+ */
+
+/**
+ * credentialStatus entry types the wallet can check
+ */
+export const STATUS_LIST_ENTRY_TYPES: StatusListEntry['type'][] = ['StatusList2021Entry', 'BitstringStatusListEntry'];
+
+// Credential type the status list must have for each entry type
+const STATUS_LIST_CREDENTIAL_TYPES: Record<StatusListEntry['type'], string> = {
+  StatusList2021Entry: 'StatusList2021Credential',
+  BitstringStatusListEntry: 'BitstringStatusListCredential',
+};
+
+// How long a list is cached when it does not set its own ttl
+const DEFAULT_STATUS_LIST_TTL_MS = 60 * 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Get the credentialStatus entries of a credential as an array
+ * @param credential - Credential
+ */
+export function getCredentialStatusEntries(credential: VerifiableCredential): CredentialStatusEntry[] {
+  if (!credential.credentialStatus) {
+    return [];
+  }
+  return Array.isArray(credential.credentialStatus) ? credential.credentialStatus : [credential.credentialStatus];
+}
+
+/**
+ * Check whether a credentialStatus entry points into a status list
+ * @param entry - credentialStatus entry
+ */
+export function isStatusListEntry(entry: CredentialStatusEntry): entry is StatusListEntry {
+  return STATUS_LIST_ENTRY_TYPES.includes(entry.type as StatusListEntry['type']);
+}
+
+/**
+ * Fetch a status list credential from its URL
+ * Lists published as JWT-VCs are decoded; their signature is checked like any other credential's.
+ * @param url - statusListCredential URL of an entry
+ */
+export async function fetchStatusListCredential(url: string): Promise<VerifiableCredential> {
+  if (!url.startsWith('https://') && !url.startsWith('http://localhost')) {
+    throw new Error(`Status list URL must use https: ${url}`);
+  }
+
+  const response = await axios.get(url, {
+    timeout: REQUEST_TIMEOUT_MS,
+    headers: { Accept: 'application/vc+ld+json, application/ld+json, application/json, application/vc+jwt, application/jwt' },
+  });
+
+  if (typeof response.data === 'string' && isJwt(response.data)) {
+    return parseJwtCredential(response.data);
+  }
+  if (typeof response.data !== 'object' || response.data === null) {
+    throw new Error('Status list is not a JSON or JWT credential');
+  }
+  return response.data as VerifiableCredential;
+}
+
+/**
+ * Get a cached status list if it has not expired
+ * @param url - statusListCredential URL
+ */
+export async function getCachedStatusList(url: string): Promise<CachedStatusList | null> {
+  const cached = await db.statusLists.get(url);
+  if (!cached || new Date(cached.expiresAt) <= new Date()) {
+    return null;
+  }
+  return cached;
+}
+
+/**
+ * Cache a verified status list credential
+ * The list is kept for its ttl (Bitstring Status List), but never past its validUntil.
+ * @param url - statusListCredential URL
+ * @param issuer - Issuer DID of the list
+ * @param credential - Verified status list credential
+ */
+export async function cacheStatusList(url: string, issuer: string, credential: VerifiableCredential): Promise<CachedStatusList> {
+  const now = Date.now();
+  const ttl = Number(credential.credentialSubject.ttl);
+  let expiresAt = now + (Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_STATUS_LIST_TTL_MS);
+
+  const validUntil = credential.validUntil || credential.expirationDate;
+  if (validUntil) {
+    expiresAt = Math.min(expiresAt, new Date(validUntil).getTime());
+  }
+
+  const cached: CachedStatusList = {
+    url,
+    issuer,
+    credential,
+    fetchedAt: new Date(now).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+  await db.statusLists.put(cached);
+  return cached;
+}
+
+/**
+ * Remove cached status lists
+ * @param issuer - Only remove the lists of this issuer
+ */
+export async function clearStatusListCache(issuer?: string): Promise<void> {
+  if (issuer) {
+    await db.statusLists.where('issuer').equals(issuer).delete();
+  } else {
+    await db.statusLists.clear();
+  }
+}
+
+/**
+ * Decode the encodedList of a status list into its bitstring
+ * Status List 2021 uses plain base64url; Bitstring Status List adds the multibase 'u' prefix.
+ * @param encodedList - GZIP-compressed, base64url-encoded bitstring
+ */
+export async function decodeStatusList(encodedList: string): Promise<Uint8Array> {
+  // A GZIP stream encodes to "H4sI...", so a leading 'u' can only be the multibase prefix
+  const compressed = decodeBase64Url(encodedList.startsWith('u') ? encodedList.slice(1) : encodedList);
+
+  try {
+    const stream = new Blob([compressed as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (error) {
+    throw new Error('Status list is not valid GZIP data');
+  }
+}
+
+/**
+ * Read a status value from a bitstring
+ * Index 0 is the most significant bit of the first byte.
+ * @param bitstring - Decoded bitstring
+ * @param index - Status index
+ * @param statusSize - Bits per status
+ */
+export function getStatusValue(bitstring: Uint8Array, index: number, statusSize: number = 1): number {
+  const firstBit = index * statusSize;
+  if (firstBit + statusSize > bitstring.length * 8) {
+    throw new Error(`Status index ${index} is outside the status list`);
+  }
+
+  let value = 0;
+  for (let bit = firstBit; bit < firstBit + statusSize; bit++) {
+    value = value * 2 + ((bitstring[bit >> 3] >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+}
+
+/**
+ * Read the status of an entry from its (verified) status list credential
+ * @param listCredential - Status list credential the entry points to
+ * @param entry - credentialStatus entry
+ * @returns The status value; 0 means the status purpose does not apply (not revoked/suspended)
+ */
+export async function readStatusListEntry(listCredential: VerifiableCredential, entry: StatusListEntry): Promise<number> {
+  const expectedType = STATUS_LIST_CREDENTIAL_TYPES[entry.type];
+  if (!listCredential.type?.includes(expectedType)) {
+    throw new Error(`Status list is not a ${expectedType}`);
+  }
+
+  const { statusPurpose, encodedList } = listCredential.credentialSubject;
+  const listPurposes: string[] = Array.isArray(statusPurpose) ? statusPurpose : [statusPurpose];
+  if (!listPurposes.includes(entry.statusPurpose)) {
+    throw new Error(`Status list does not cover status purpose ${entry.statusPurpose}`);
+  }
+  if (typeof encodedList !== 'string') {
+    throw new Error('Status list has no encodedList');
+  }
+
+  const index = Number(entry.statusListIndex);
+  const statusSize = entry.statusSize === undefined ? 1 : Number(entry.statusSize);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid status list index: ${entry.statusListIndex}`);
+  }
+  if (!Number.isInteger(statusSize) || statusSize < 1 || statusSize > 32) {
+    throw new Error(`Unsupported status size: ${entry.statusSize}`);
+  }
+
+  return getStatusValue(await decodeStatusList(encodedList), index, statusSize);
+}
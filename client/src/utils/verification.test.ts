@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CborTag, decodeCbor, encodeCbor } from 'hedera-id-wallet-common/cbor';
+import { decodeBase64Url, encodeBase64Url, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import { signJws } from './crypto';
+import { settingsStorage } from './db';
+import { parseJwtCredential } from './jwtVc';
+import { MDL_NAMESPACE, parseMdocCredential } from './mdoc';
+import { parseSdJwtCredential } from './sdJwt';
+import { checkExpiry, checkSignature, verifyCredential } from './verification';
+import { createTestIssuer, issueCredential, issueSdJwtCredential, TestIssuer } from '@/test/issuer';
+import { createMdocIssuer, issueMdoc } from '@/test/mdocIssuer';
+import { storeCredential } from '@/test/wallet';
+
+describe('credential verification', () => {
+  let issuer: TestIssuer;
+
+  beforeEach(async () => {
+    issuer = await createTestIssuer();
+    await settingsStorage.setSetting('trustedIssuers', []);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('checkSignature', () => {
+    it('verifies a Data Integrity proof against the issuer DID', async () => {
+      const credential = await issueCredential(issuer, { email: 'holder@example.com' });
+
+      expect(await checkSignature(credential)).toMatchObject({ status: 'success' });
+    });
+
+    it('verifies a JsonWebSignature2020 proof of a secp256k1 issuer', async () => {
+      const credential = await issueCredential(await createTestIssuer('secp256k1'), { email: 'holder@example.com' });
+
+      expect(credential.proof?.type).toBe('JsonWebSignature2020');
+      expect(await checkSignature(credential)).toMatchObject({ status: 'success' });
+    });
+
+    it('rejects a credential whose claims were altered', async () => {
+      const credential = await issueCredential(issuer, { email: 'holder@example.com' });
+      credential.credentialSubject.email = 'attacker@example.com';
+
+      expect(await checkSignature(credential)).toMatchObject({ status: 'error' });
+    });
+
+    it('rejects a proof made by a key of another DID', async () => {
+      const other = await createTestIssuer();
+      const credential = await issueCredential(other, { email: 'holder@example.com' });
+
+      expect(await checkSignature({ ...credential, issuer: issuer.did })).toMatchObject({
+        status: 'error',
+        message: 'Proof was not created by the credential issuer.',
+      });
+    });
+
+    it('verifies a Data Integrity credential as stored in the wallet', async () => {
+      const stored = await storeCredential(await issueCredential(issuer, { email: 'holder@example.com' }));
+
+      expect(stored.localId).toBeDefined();
+      expect(await checkSignature(stored)).toMatchObject({ status: 'success' });
+    });
+
+    it('rejects a credential without a proof', async () => {
+      const { proof: _proof, ...credential } = await issueCredential(issuer, { email: 'holder@example.com' });
+
+      expect(await checkSignature(credential)).toMatchObject({ status: 'error', message: 'Credential has no proof.' });
+    });
+  });
+
+  describe('SD-JWT VCs', () => {
+    it('verifies the issuer JWT and its disclosures', async () => {
+      const credential = await parseSdJwtCredential(await issueSdJwtCredential(issuer, { email: 'holder@example.com' }));
+
+      expect(await checkSignature(credential)).toMatchObject({ status: 'success' });
+    });
+
+    it('rejects a disclosure the issuer JWT does not refer to', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const credential = await parseSdJwtCredential(await issueSdJwtCredential(issuer, { email: 'holder@example.com' }));
+      const injected = encodeBase64Url(utf8ToBytes(JSON.stringify(['salt', 'admin', true])));
+      const disclosures = [...credential.sdJwt!.disclosures, { ...credential.sdJwt!.disclosures[0], encoded: injected }];
+
+      expect(await checkSignature({ ...credential, sdJwt: { ...credential.sdJwt!, disclosures } })).toMatchObject({
+        status: 'error',
+        message: 'Invalid SD-JWT: a disclosure is not referenced by the issuer JWT',
+      });
+    });
+
+    it('rejects a disclosure sent twice', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      const credential = await parseSdJwtCredential(await issueSdJwtCredential(issuer, { email: 'holder@example.com' }));
+      const disclosures = [...credential.sdJwt!.disclosures, credential.sdJwt!.disclosures[0]];
+
+      expect(await checkSignature({ ...credential, sdJwt: { ...credential.sdJwt!, disclosures } })).toMatchObject({
+        status: 'error',
+        message: 'Invalid SD-JWT: duplicate disclosure',
+      });
+    });
+
+    it('shows the claims of the checked disclosures instead of the stored ones', async () => {
+      const credential = await parseSdJwtCredential(await issueSdJwtCredential(issuer, { email: 'holder@example.com' }));
+      const tampered = {
+        ...credential,
+        credentialSubject: { email: 'attacker@example.com' },
+        sdJwt: {
+          ...credential.sdJwt!,
+          claims: { ...credential.sdJwt!.claims, email: 'attacker@example.com' },
+          disclosures: credential.sdJwt!.disclosures.map((disclosure) => ({ ...disclosure, value: 'attacker@example.com' })),
+        },
+      };
+
+      const result = await verifyCredential(tampered);
+
+      expect(result.verified).toBe(true);
+      expect(result.credential?.credentialSubject).toEqual({ email: 'holder@example.com' });
+      expect(result.credential?.sdJwt?.claims.email).toBe('holder@example.com');
+      expect(result.credential?.sdJwt?.disclosures[0].value).toBe('holder@example.com');
+    });
+  });
+
+  describe('JWT-VCs', () => {
+    it('shows the claims of the verified JWT instead of the stored ones', async () => {
+      const jwt = await signJws(
+        {
+          iss: issuer.did,
+          nbf: 1704067200,
+          vc: { type: ['VerifiableCredential', 'EmailVerifiedCredential'], credentialSubject: { email: 'holder@example.com' } },
+        },
+        issuer.keyPair,
+        { typ: 'JWT' }
+      );
+      const credential = parseJwtCredential(jwt);
+
+      const result = await verifyCredential({ ...credential, credentialSubject: { email: 'attacker@example.com' } });
+
+      expect(result.verified).toBe(true);
+      expect(result.credential?.credentialSubject).toEqual({ email: 'holder@example.com' });
+    });
+  });
+
+  describe('mdocs', () => {
+    const claims = { [MDL_NAMESPACE]: { family_name: 'Doe', age_over_18: true } };
+
+    it('shows the claims of the signed IssuerSignedItems instead of the stored ones', async () => {
+      const credential = await parseMdocCredential(await issueMdoc(await createMdocIssuer(), claims));
+      const tampered = {
+        ...credential,
+        credentialSubject: { [MDL_NAMESPACE]: { family_name: 'Roe', age_over_18: true } },
+        mdoc: { ...credential.mdoc!, claims: { [MDL_NAMESPACE]: { family_name: 'Roe', age_over_18: true } } },
+      };
+
+      const result = await verifyCredential(tampered);
+
+      expect(result.verified).toBe(true);
+      expect(result.checks.signature.message).toBe('Signature verified (mdoc, ES256).');
+      expect(result.credential?.credentialSubject).toEqual(claims);
+      expect(result.credential?.mdoc?.claims).toEqual(claims);
+    });
+
+    it('rejects an IssuerSignedItem that does not match its digest', async () => {
+      const credential = await parseMdocCredential(await issueMdoc(await createMdocIssuer(), claims));
+      const decoded = decodeCbor(decodeBase64Url(credential.mdoc!.issuerSigned));
+      const [item, ...items]: CborTag[] = decoded.get('nameSpaces').get(MDL_NAMESPACE);
+      const issuerSignedItem = decodeCbor(item.value);
+      issuerSignedItem.set('elementValue', 'Roe');
+      decoded.get('nameSpaces').set(MDL_NAMESPACE, [new CborTag(item.tag, encodeCbor(issuerSignedItem)), ...items]);
+
+      const result = await checkSignature({
+        ...credential,
+        mdoc: { ...credential.mdoc!, issuerSigned: encodeBase64Url(encodeCbor(decoded)) },
+      });
+
+      expect(result).toEqual({
+        status: 'error',
+        message: `Data element digest does not match the mdoc issuer signature (${MDL_NAMESPACE})`,
+      });
+    });
+  });
+
+  describe('checkExpiry', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+
+    it('accepts a credential inside its validity period', async () => {
+      const credential = await issueCredential(issuer, {}, { expirationDate: '2026-01-01T00:00:00Z' });
+
+      expect(checkExpiry(credential, now).status).toBe('success');
+    });
+
+    it('rejects an expired credential', async () => {
+      const credential = await issueCredential(issuer, {}, { expirationDate: '2025-01-01T00:00:00Z' });
+
+      expect(checkExpiry(credential, now).status).toBe('error');
+    });
+
+    it('rejects a credential that is not valid yet', async () => {
+      const credential = await issueCredential(issuer, {}, { issuanceDate: '2025-07-01T00:00:00Z' });
+
+      expect(checkExpiry(credential, now).status).toBe('error');
+    });
+  });
+
+  describe('verifyCredential', () => {
+    it('reports issuer trust separately from the signature', async () => {
+      const credential = await issueCredential(issuer, { email: 'holder@example.com' });
+
+      const untrusted = await verifyCredential(credential);
+      await settingsStorage.setSetting('trustedIssuers', [issuer.did]);
+      const trusted = await verifyCredential(credential);
+
+      expect(untrusted.verified).toBe(true);
+      expect(untrusted.checks.issuerTrust.status).toBe('warning');
+      expect(untrusted.checks.revocation.status).toBe('skipped');
+      expect(trusted.checks.issuerTrust.status).toBe('success');
+    });
+
+    it('fails when the signature does not verify', async () => {
+      const credential = await issueCredential(issuer, { email: 'holder@example.com' });
+      credential.credentialSubject.email = 'attacker@example.com';
+
+      const result = await verifyCredential(credential);
+
+      expect(result.verified).toBe(false);
+      expect(result.checks.issuerTrust.status).toBe('warning');
+    });
+  });
+});
@@ -0,0 +1,539 @@
+import { splitProof } from 'hedera-id-wallet-common/proofs';
+import {
+  CredentialStatus,
+  MdocCredentialData,
+  SdJwtCredentialData,
+  StoredCredential,
+  VerifiableCredential,
+  VerificationCheck,
+  VerificationResult,
+} from '@/types';
+import { decodeJws, verifyJws } from './crypto';
+import { credentialStorage, settingsStorage } from './db';
+import {
+  findVerificationMethod,
+  getPublicKeyJwk,
+  hasVerificationRelationship,
+  resolveAssertionMethodKey,
+  resolveDid,
+} from './did';
+import { parseJwtCredential, parseJwtPresentation } from './jwtVc';
+import { findMdocTrustAnchor, parseMdocCredential, verifyMdocIssuerSignature } from './mdoc';
+import { toVerifiableCredential } from './presentation';
+import { verifyProof } from './proofs';
+import { parseSdJwtCredential, resolveSdJwtIssuerKey } from './sdJwt';
+import {
+  cacheStatusList,
+  fetchStatusListCredential,
+  getCachedStatusList,
+  getCredentialStatusEntries,
+  isStatusListEntry,
+  readStatusListEntry,
+} from './statusList';
+
+/**
+ * Credential verification engine
+ * Each check is reported separately so the UI can show exactly what passed.
+ */
+
+/**
+ * Get the issuer DID of a credential
+ */
+export function getIssuerId(credential: VerifiableCredential): string {
+  return typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+}
+
+/**
+ * Verify the issuer JWT of an SD-JWT VC
+ * @param data - SD-JWT VC as rebuilt from its issuer JWT and disclosures
+ * @param issuerId - Issuer the wallet shows for the credential
+ */
+async function checkSdJwtSignature(data: SdJwtCredentialData, issuerId: string): Promise<VerificationCheck> {
+  try {
+    const { header, payload } = decodeJws(data.issuerJwt);
+    if (payload.iss !== issuerId) {
+      return { status: 'error', message: 'SD-JWT was not issued by the credential issuer.' };
+    }
+
+    const valid = await verifyJws(data.issuerJwt, await resolveSdJwtIssuerKey(data));
+    if (!valid) {
+      return { status: 'error', message: 'Signature is invalid; the credential may have been altered.' };
+    }
+
+    return { status: 'success', message: `Signature verified (SD-JWT, ${header.alg}).` };
+  } catch (error: any) {
+    console.error('SD-JWT signature verification failed:', error);
+    return { status: 'error', message: error.message || 'Signature could not be verified.' };
+  }
+}
+
+/**
+ * Verify the signature of a JWT-VC against its issuer's DID document
+ * @param jwt - Compact JWT as issued
+ * @param issuerId - Issuer the wallet shows for the credential
+ */
+async function checkJwtSignature(jwt: string, issuerId: string): Promise<VerificationCheck> {
+  try {
+    const { header, payload } = decodeJws(jwt);
+    const signer = payload.iss ?? issuerId;
+    if (signer !== issuerId) {
+      return { status: 'error', message: 'JWT was not issued by the credential issuer.' };
+    }
+    if (!issuerId.startsWith('did:')) {
+      return { status: 'error', message: `Unsupported JWT issuer: ${issuerId}.` };
+    }
+
+    const valid = await verifyJws(jwt, await resolveAssertionMethodKey(issuerId, header.kid));
+    if (!valid) {
+      return { status: 'error', message: 'Signature is invalid; the credential may have been altered.' };
+    }
+
+    return { status: 'success', message: `Signature verified (JWT, ${header.alg}).` };
+  } catch (error: any) {
+    console.error('JWT signature verification failed:', error);
+    return { status: 'error', message: error.message || 'Signature could not be verified.' };
+  }
+}
+
+/**
+ * Verify the issuer signature of an mdoc with its document signer certificate
+ * Whether that certificate chains to a trusted IACA is part of the issuer trust check.
+ * @param data - mdoc held by the wallet
+ */
+async function checkMdocSignature(data: MdocCredentialData): Promise<VerificationCheck> {
+  try {
+    const algorithm = await verifyMdocIssuerSignature(data);
+    return { status: 'success', message: `Signature verified (mdoc, ${algorithm}).` };
+  } catch (error: any) {
+    console.error('mdoc signature verification failed:', error);
+    return { status: 'error', message: error.message || 'Signature could not be verified.' };
+  }
+}
+
+/**
+ * Verify the holder signature of a JWT-VP
+ * The signing key must be an authentication method of the holder DID. The credentials
+ * inside are not checked here; each is verified on its own.
+ * @param jwt - Compact JWT-VP
+ * @param options - Expected audience and nonce, when the presentation answers a request
+ */
+export async function checkJwtPresentation(
+  jwt: string,
+  options: { audience?: string; nonce?: string } = {}
+): Promise<VerificationCheck> {
+  try {
+    const { header } = decodeJws(jwt);
+    const presentation = parseJwtPresentation(jwt);
+
+    if (options.audience) {
+      const audiences = Array.isArray(presentation.audience) ? presentation.audience : [presentation.audience];
+      if (!audiences.includes(options.audience)) {
+        return { status: 'error', message: 'Presentation was made for a different audience.' };
+      }
+    }
+    if (options.nonce && presentation.nonce !== options.nonce) {
+      return { status: 'error', message: 'Presentation nonce does not match.' };
+    }
+
+    const kid: string | undefined = header.kid;
+    if (kid && !kid.startsWith('#') && kid.split('#')[0] !== presentation.holder) {
+      return { status: 'error', message: 'Presentation was not signed by its holder.' };
+    }
+
+    const holderDocument = await resolveDid(presentation.holder);
+    const verificationMethod = kid
+      ? findVerificationMethod(holderDocument, kid)
+      : holderDocument.verificationMethod?.find((method) =>
+          hasVerificationRelationship(holderDocument, 'authentication', method.id)
+        );
+    if (!verificationMethod || !hasVerificationRelationship(holderDocument, 'authentication', verificationMethod.id)) {
+      return { status: 'error', message: 'Signing key is not an authentication method of the holder DID.' };
+    }
+
+    const valid = await verifyJws(jwt, getPublicKeyJwk(verificationMethod));
+    if (!valid) {
+      return { status: 'error', message: 'Presentation signature is invalid.' };
+    }
+
+    return { status: 'success', message: `Presentation signed by ${presentation.holder} (JWT, ${header.alg}).` };
+  } catch (error: any) {
+    console.error('JWT presentation verification failed:', error);
+    return { status: 'error', message: error.message || 'Presentation could not be verified.' };
+  }
+}
+
+/**
+ * Rebuild a credential from the form its issuer signed
+ * SD-JWT VCs and JWT-VCs are decoded again from their compact form, with the digests
+ * of SD-JWT disclosures recomputed and matched against the issuer JWT; mdocs are
+ * decoded again from their IssuerSignedItems, with each item matched against its MSO
+ * digest. Wallet fields are dropped from other credentials. Stored claims are never trusted.
+ * @param credential - Credential as stored or received
+ */
+async function readSignedCredential(credential: VerifiableCredential): Promise<VerifiableCredential> {
+  if (credential.mdoc) {
+    return parseMdocCredential(credential.mdoc.issuerSigned);
+  }
+  if (credential.sdJwt) {
+    const { issuerJwt, disclosures } = credential.sdJwt;
+    return parseSdJwtCredential(`${[issuerJwt, ...disclosures.map((disclosure) => disclosure.encoded)].join('~')}~`);
+  }
+  if (credential.jwt) {
+    return parseJwtCredential(credential.jwt);
+  }
+  return toVerifiableCredential(credential as StoredCredential);
+}
+
+/**
+ * Verify the signature of a credential rebuilt with readSignedCredential
+ * @param credential - Rebuilt credential
+ * @param issuerId - Issuer the wallet shows for the credential
+ */
+async function checkSignedCredential(credential: VerifiableCredential, issuerId: string): Promise<VerificationCheck> {
+  if (credential.mdoc) {
+    return checkMdocSignature(credential.mdoc);
+  }
+  if (credential.sdJwt) {
+    return checkSdJwtSignature(credential.sdJwt, issuerId);
+  }
+  if (credential.jwt) {
+    return checkJwtSignature(credential.jwt, issuerId);
+  }
+
+  const { unsecuredDocument, proof } = splitProof(credential);
+
+  if (!proof) {
+    return { status: 'error', message: 'Credential has no proof.' };
+  }
+
+  const proofs = Array.isArray(proof) ? proof : [proof];
+
+  try {
+    const issuerDocument = await resolveDid(issuerId);
+
+    for (const credentialProof of proofs) {
+      const verificationMethodId: string = credentialProof.verificationMethod || '';
+
+      if (verificationMethodId.split('#')[0] !== issuerId) {
+        return { status: 'error', message: 'Proof was not created by the credential issuer.' };
+      }
+
+      if (credentialProof.proofPurpose && credentialProof.proofPurpose !== 'assertionMethod') {
+        return { status: 'error', message: `Unexpected proof purpose: ${credentialProof.proofPurpose}.` };
+      }
+
+      const verificationMethod = findVerificationMethod(issuerDocument, verificationMethodId);
+      if (!verificationMethod || !hasVerificationRelationship(issuerDocument, 'assertionMethod', verificationMethod.id)) {
+        return { status: 'error', message: 'Signing key is not an assertion method of the issuer DID.' };
+      }
+
+      const valid = await verifyProof(unsecuredDocument, credentialProof, getPublicKeyJwk(verificationMethod));
+      if (!valid) {
+        return { status: 'error', message: 'Signature is invalid; the credential may have been altered.' };
+      }
+    }
+
+    return { status: 'success', message: `Signature verified (${proofs.map((p) => p.cryptosuite || p.type).join(', ')}).` };
+  } catch (error: any) {
+    console.error('Signature verification failed:', error);
+    return { status: 'error', message: error.message || 'Signature could not be verified.' };
+  }
+}
+
+/**
+ * Verify a credential's signature and rebuild it from what was signed
+ * @param credential - Credential to verify
+ * @returns The signature check, and the rebuilt credential if its signed form could be read
+ */
+async function verifySignature(
+  credential: VerifiableCredential
+): Promise<{ signature: VerificationCheck; credential?: VerifiableCredential }> {
+  let signed: VerifiableCredential;
+  try {
+    signed = await readSignedCredential(credential);
+  } catch (error: any) {
+    console.error('Signed credential could not be read:', error);
+    return { signature: { status: 'error', message: error.message || 'Credential could not be read.' } };
+  }
+
+  return { signature: await checkSignedCredential(signed, getIssuerId(credential)), credential: signed };
+}
+
+/**
+ * Verify the credential's proof(s) against the issuer's DID document
+ * SD-JWT VCs and JWT-VCs are checked against their JWT signature instead, and mdocs
+ * against their document signer certificate. The credential is rebuilt from its
+ * signed form first, so claims stored next to it are not what gets verified.
+ * @param credential - Credential to verify
+ */
+export async function checkSignature(credential: VerifiableCredential): Promise<VerificationCheck> {
+  return (await verifySignature(credential)).signature;
+}
+
+/**
+ * Check the credential's validity period
+ * @param credential - Credential to check
+ * @param now - Reference time
+ */
+export function checkExpiry(credential: VerifiableCredential, now: Date = new Date()): VerificationCheck {
+  const validFrom = credential.validFrom || credential.issuanceDate;
+  const validUntil = credential.validUntil || credential.expirationDate;
+
+  if (validFrom && new Date(validFrom) > now) {
+    return { status: 'error', message: `Credential is not valid until ${new Date(validFrom).toLocaleDateString()}.` };
+  }
+
+  if (!validUntil) {
+    return { status: 'success', message: 'Credential does not expire.' };
+  }
+
+  if (new Date(validUntil) < now) {
+    return { status: 'error', message: `Credential expired on ${new Date(validUntil).toLocaleDateString()}.` };
+  }
+
+  return { status: 'success', message: `Valid until ${new Date(validUntil).toLocaleDateString()}.` };
+}
+
+/**
+ * Status of a credential according to its status lists
+ */
+export interface CredentialStatusResult {
+  revoked: boolean;
+  suspended: boolean;
+  messages: string[]; // Status messages of 'message' purpose entries
+  checkedEntries: number;
+  unsupportedTypes: string[]; // credentialStatus types the wallet cannot check
+}
+
+/**
+ * Load the status list credential an entry points to
+ * Lists are only cached after their signature and validity period were verified,
+ * and must be issued by the same issuer as the credential.
+ * @param url - statusListCredential URL
+ * @param issuerId - Issuer DID of the credential
+ * @param forceRefresh - Ignore the cache
+ */
+async function loadStatusList(url: string, issuerId: string, forceRefresh: boolean): Promise<VerifiableCredential> {
+  const cached = forceRefresh ? null : await getCachedStatusList(url);
+  if (cached) {
+    if (cached.issuer !== issuerId) {
+      throw new Error('Status list was not issued by the credential issuer');
+    }
+    return cached.credential;
+  }
+
+  const listCredential = await fetchStatusListCredential(url);
+  if (getIssuerId(listCredential) !== issuerId) {
+    throw new Error('Status list was not issued by the credential issuer');
+  }
+
+  const signature = await checkSignature(listCredential);
+  if (signature.status !== 'success') {
+    throw new Error(`Status list signature could not be verified: ${signature.message}`);
+  }
+
+  const validity = checkExpiry(listCredential);
+  if (validity.status === 'error') {
+    throw new Error(`Status list is not valid: ${validity.message}`);
+  }
+
+  await cacheStatusList(url, issuerId, listCredential);
+  return listCredential;
+}
+
+/**
+ * Resolve a credential's status from the status lists its credentialStatus entries point to
+ * @param credential - Credential to check
+ * @param options - Set forceRefresh to fetch the lists even if they are cached
+ */
+export async function resolveCredentialStatus(
+  credential: VerifiableCredential,
+  options: { forceRefresh?: boolean } = {}
+): Promise<CredentialStatusResult> {
+  const result: CredentialStatusResult = {
+    revoked: false,
+    suspended: false,
+    messages: [],
+    checkedEntries: 0,
+    unsupportedTypes: [],
+  };
+  const issuerId = getIssuerId(credential);
+
+  for (const entry of getCredentialStatusEntries(credential)) {
+    if (!isStatusListEntry(entry)) {
+      result.unsupportedTypes.push(entry.type);
+      continue;
+    }
+
+    const listCredential = await loadStatusList(entry.statusListCredential, issuerId, !!options.forceRefresh);
+    const value = await readStatusListEntry(listCredential, entry);
+    result.checkedEntries++;
+
+    if (entry.statusPurpose === 'revocation') {
+      result.revoked = result.revoked || value !== 0;
+    } else if (entry.statusPurpose === 'suspension') {
+      result.suspended = result.suspended || value !== 0;
+    } else if (entry.statusPurpose === 'message') {
+      const hexValue = `0x${value.toString(16)}`;
+      const statusMessage = entry.statusMessage?.find((candidate) => candidate.status.toLowerCase() === hexValue);
+      result.messages.push(statusMessage?.message || `Status ${hexValue}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether the credential has been revoked or suspended
+ * @param credential - Credential to check
+ */
+export async function checkRevocation(credential: VerifiableCredential): Promise<VerificationCheck> {
+  if (credential.status === CredentialStatus.REVOKED) {
+    return { status: 'error', message: 'Credential has been revoked by the issuer.' };
+  }
+
+  if (getCredentialStatusEntries(credential).length === 0) {
+    return { status: 'skipped', message: 'Issuer does not publish revocation status for this credential.' };
+  }
+
+  try {
+    const result = await resolveCredentialStatus(credential);
+
+    if (result.revoked) {
+      return { status: 'error', message: 'Credential has been revoked by the issuer.' };
+    }
+    if (result.suspended) {
+      return { status: 'error', message: 'Credential is suspended by the issuer.' };
+    }
+    if (result.unsupportedTypes.length > 0) {
+      return {
+        status: 'warning',
+        message: `Revocation status of type ${result.unsupportedTypes.join(', ')} could not be checked.`,
+      };
+    }
+
+    const messages = result.messages.length > 0 ? ` ${result.messages.join('. ')}.` : '';
+    return { status: 'success', message: `Credential is not revoked or suspended.${messages}` };
+  } catch (error: any) {
+    console.error('Status list check failed:', error);
+    return { status: 'warning', message: `Revocation status could not be checked: ${error.message}` };
+  }
+}
+
+/**
+ * Refresh the stored status of a credential from its status lists
+ * Revocation is permanent; a suspended credential becomes active again once the
+ * issuer lifts the suspension. Expired credentials only change status when revoked.
+ * The status list entries are read from the credential as rebuilt from its signed form.
+ * @param credential - Stored credential
+ * @param options - Set forceRefresh to fetch the lists even if they are cached
+ * @returns The credential's status after the refresh
+ */
+export async function refreshCredentialStatus(
+  credential: StoredCredential,
+  options: { forceRefresh?: boolean } = {}
+): Promise<CredentialStatus | undefined> {
+  if (credential.status === CredentialStatus.REVOKED) {
+    return credential.status;
+  }
+
+  const signed = await readSignedCredential(credential);
+  if (!getCredentialStatusEntries(signed).some(isStatusListEntry)) {
+    return credential.status;
+  }
+
+  const result = await resolveCredentialStatus(signed, options);
+  let status: CredentialStatus | undefined = credential.status;
+  if (result.revoked) {
+    status = CredentialStatus.REVOKED;
+  } else if (result.suspended && credential.status !== CredentialStatus.EXPIRED) {
+    status = CredentialStatus.SUSPENDED;
+  } else if (credential.status === CredentialStatus.SUSPENDED) {
+    status = CredentialStatus.ACTIVE;
+  }
+
+  if (status !== credential.status) {
+    await credentialStorage.updateCredential(credential.localId, { status });
+  }
+  return status;
+}
+
+/**
+ * Refresh the stored status of every credential that has a status list entry
+ * Credentials are checked one after the other so each list is fetched only once.
+ * @returns Number of credentials whose status changed
+ */
+export async function refreshCredentialStatuses(): Promise<number> {
+  const credentials = await credentialStorage.getAllCredentials();
+  let changed = 0;
+
+  for (const credential of credentials) {
+    // Skip credentials that could not be decrypted
+    if (credential.credentialSubject?._encrypted) {
+      continue;
+    }
+
+    try {
+      const status = await refreshCredentialStatus(credential);
+      if (status !== credential.status) {
+        changed++;
+      }
+    } catch (error) {
+      console.error(`Failed to refresh status of credential ${credential.localId}:`, error);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Check whether the issuer is one the user trusts
+ * An mdoc issuer is trusted when its document signer chains to one of the user's IACA
+ * root certificates; other issuers must be in the trusted issuers list.
+ * @param credential - Credential to check
+ * @param signature - Result of the signature check
+ */
+export async function checkIssuerTrust(
+  credential: VerifiableCredential,
+  signature: VerificationCheck
+): Promise<VerificationCheck> {
+  if (signature.status !== 'success') {
+    return { status: 'warning', message: 'Issuer identity could not be confirmed.' };
+  }
+
+  if (credential.mdoc) {
+    const trustAnchor = await findMdocTrustAnchor(credential.mdoc);
+    return trustAnchor
+      ? { status: 'success', message: `Document signer is certified by ${trustAnchor.subjectName}.` }
+      : { status: 'warning', message: 'Document signer does not chain to any of your trusted IACA certificates.' };
+  }
+
+  const issuerId = getIssuerId(credential);
+  const trustedIssuers = (await settingsStorage.getSetting<string[]>('trustedIssuers', [])) || [];
+
+  if (trustedIssuers.includes(issuerId)) {
+    return { status: 'success', message: 'Issuer is in your trusted issuers list.' };
+  }
+
+  return { status: 'warning', message: 'Issuer DID is authentic but not in your trusted issuers list.' };
+}
+
+/**
+ * Run all verification checks on a credential
+ * The validity period and status list entries are read from the credential as rebuilt
+ * from its signed form, which is returned for display.
+ * @param credential - Credential to verify
+ */
+export async function verifyCredential(credential: VerifiableCredential): Promise<VerificationResult> {
+  const { signature, credential: signed } = await verifySignature(credential);
+  const expiry = checkExpiry(signed || credential);
+  const revocation = await checkRevocation({ ...(signed || credential), status: credential.status });
+  const issuerTrust = await checkIssuerTrust(credential, signature);
+
+  return {
+    verified: signature.status === 'success' && expiry.status !== 'error' && revocation.status !== 'error',
+    checks: { signature, expiry, revocation, issuerTrust },
+    verifiedAt: new Date().toISOString(),
+    ...(signed && { credential: signed }),
+  };
+}
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { startAuthentication } from '@simplewebauthn/browser';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { decodeBase64Url, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import db, { decryptData, encryptData, setUnlockedWalletKey, WALLET_KEY_SLOTS_SETTING, WalletLockedError } from './db';
+import {
+  clearSessionPin,
+  getPrfExtensionInputs,
+  hasSessionPin,
+  isWalletUnlocked,
+  lockWallet,
+  protectWithPasskey,
+  protectWithPassphrase,
+  removeWalletKeySlot,
+  setSessionPin,
+  takePrfResult,
+  unlockWithPasskey,
+  unlockWithPassphrase,
+  unlockWithPin,
+} from './walletKey';
+
+vi.mock('@simplewebauthn/browser', () => ({ startAuthentication: vi.fn() }));
+
+const PASSPHRASE = 'correct horse battery staple';
+const CREDENTIAL_ID = 'passkey-1';
+
+/**
+ * Answer assertions like an authenticator with hmac-secret: the PRF output depends on the
+ * passkey and the salt
+ */
+function mockAuthenticator(credentialId: string = CREDENTIAL_ID, prfSupported: boolean = true): void {
+  vi.mocked(startAuthentication).mockImplementation(async ({ extensions }: any) => {
+    const salt = new Uint8Array(extensions.prf.evalByCredential[credentialId].first);
+    const prf = prfSupported ? { results: { first: hmac(sha256, utf8ToBytes(credentialId), salt) } } : undefined;
+    return { id: credentialId, clientExtensionResults: { prf } } as any;
+  });
+}
+
+describe('wallet key protection', () => {
+  beforeEach(async () => {
+    setUnlockedWalletKey(null);
+    clearSessionPin();
+    await db.settings.bulkDelete([WALLET_KEY_SLOTS_SETTING, 'deviceEncryptionKey', 'deviceEncryptionSalt']);
+    vi.mocked(startAuthentication).mockReset();
+  });
+
+  describe('passphrase', () => {
+    it('stops storing the plain key and keeps existing data readable while unlocked', async () => {
+      const ciphertext = await encryptData('secret');
+
+      await protectWithPassphrase(PASSPHRASE);
+
+      expect(await db.settings.get('deviceEncryptionKey')).toBeUndefined();
+      expect(await isWalletUnlocked()).toBe(true);
+      expect(await decryptData(ciphertext)).toBe('secret');
+    });
+
+    it('locks until the passphrase is entered again', async () => {
+      const ciphertext = await encryptData('secret');
+      await protectWithPassphrase(PASSPHRASE);
+
+      lockWallet();
+
+      expect(await isWalletUnlocked()).toBe(false);
+      await expect(decryptData(ciphertext)).rejects.toThrow(WalletLockedError);
+      await expect(unlockWithPassphrase('wrong passphrase!')).rejects.toThrow('Wrong passphrase');
+
+      await unlockWithPassphrase(PASSPHRASE);
+      expect(await decryptData(ciphertext)).toBe('secret');
+    });
+
+    it('rejects short passphrases', async () => {
+      await expect(protectWithPassphrase('short')).rejects.toThrow('The passphrase must be at least 12 characters');
+    });
+
+    it('stores the plain key again when the last slot is removed', async () => {
+      const ciphertext = await encryptData('secret');
+      const slot = await protectWithPassphrase(PASSPHRASE);
+
+      await removeWalletKeySlot(slot.id);
+
+      expect(await db.settings.get('deviceEncryptionKey')).toBeDefined();
+      expect(await isWalletUnlocked()).toBe(true);
+      expect(await decryptData(ciphertext)).toBe('secret');
+    });
+  });
+
+  describe('passkey', () => {
+    it('wraps the key with the PRF output of the passkey', async () => {
+      mockAuthenticator();
+      const ciphertext = await encryptData('secret');
+      const slot = await protectWithPasskey([CREDENTIAL_ID]);
+      lockWallet();
+
+      await unlockWithPasskey();
+
+      expect(slot).toMatchObject({ type: 'passkey', credentialId: CREDENTIAL_ID });
+      expect(await decryptData(ciphertext)).toBe('secret');
+      expect(vi.mocked(startAuthentication).mock.calls[1][0]).toMatchObject({
+        allowCredentials: [{ id: CREDENTIAL_ID, type: 'public-key' }],
+        userVerification: 'required',
+      });
+    });
+
+    it('offers the slot salts to a WebAuthn login', async () => {
+      mockAuthenticator();
+      const slot = await protectWithPasskey([CREDENTIAL_ID]);
+
+      const inputs: any = await getPrfExtensionInputs();
+
+      expect(new Uint8Array(inputs.prf.evalByCredential[CREDENTIAL_ID].first)).toEqual(
+        decodeBase64Url((slot as any).prfSalt)
+      );
+    });
+
+    it('refuses authenticators without PRF and leaves the wallet unprotected', async () => {
+      mockAuthenticator(CREDENTIAL_ID, false);
+
+      await expect(protectWithPasskey([CREDENTIAL_ID])).rejects.toThrow(
+        'This passkey or browser does not support the PRF extension'
+      );
+      expect(await db.settings.get('deviceEncryptionKey')).toBeDefined();
+    });
+
+    it('cannot unlock with another passkey', async () => {
+      mockAuthenticator();
+      await protectWithPasskey([CREDENTIAL_ID]);
+      lockWallet();
+
+      // Same credential ID, different authenticator secret
+      vi.mocked(startAuthentication).mockImplementation(async () => ({
+        id: CREDENTIAL_ID,
+        clientExtensionResults: { prf: { results: { first: new Uint8Array(32) } } },
+      }) as any);
+
+      await expect(unlockWithPasskey()).rejects.toThrow('This passkey cannot unlock the wallet');
+      expect(await isWalletUnlocked()).toBe(false);
+    });
+  });
+
+  it('never leaves a PRF output in an assertion sent to the server', () => {
+    const assertion = { clientExtensionResults: { prf: { results: { first: new Uint8Array(32) } }, credProps: { rk: true } } };
+
+    expect(takePrfResult(assertion)).toEqual(new Uint8Array(32));
+    expect(assertion.clientExtensionResults).toEqual({ credProps: { rk: true } });
+  });
+
+  describe('session PIN', () => {
+    const PIN = '246810';
+
+    it('unlocks the lock screen without storing anything', async () => {
+      const ciphertext = await encryptData('secret');
+      await protectWithPassphrase(PASSPHRASE);
+      const storedSettings = await db.settings.toArray();
+
+      await setSessionPin(PIN);
+      lockWallet();
+      await unlockWithPin(PIN);
+
+      expect(await db.settings.toArray()).toEqual(storedSettings);
+      expect(await decryptData(ciphertext)).toBe('secret');
+    });
+
+    it('needs a protected, unlocked wallet', async () => {
+      await expect(setSessionPin(PIN)).rejects.toThrow('Protect the wallet with a passkey or passphrase before setting a PIN');
+
+      await protectWithPassphrase(PASSPHRASE);
+      lockWallet();
+      await expect(setSessionPin(PIN)).rejects.toThrow(WalletLockedError);
+      await expect(setSessionPin('1234')).rejects.toThrow('The PIN must be 6 to 12 digits');
+    });
+
+    it('is discarded after five wrong PINs', async () => {
+      await protectWithPassphrase(PASSPHRASE);
+      await setSessionPin(PIN);
+      lockWallet();
+
+      for (let attempt = 1; attempt < 5; attempt++) {
+        await expect(unlockWithPin('000000')).rejects.toThrow('Wrong PIN');
+      }
+      await expect(unlockWithPin('000000')).rejects.toThrow('Too many wrong PINs. Unlock with a passkey or passphrase.');
+
+      expect(hasSessionPin()).toBe(false);
+      await expect(unlockWithPin(PIN)).rejects.toThrow('Unlock with a passkey or passphrase to use a PIN again');
+      expect(await isWalletUnlocked()).toBe(false);
+    });
+
+    it('is dropped when the wallet is no longer protected', async () => {
+      const slot = await protectWithPassphrase(PASSPHRASE);
+      await setSessionPin(PIN);
+
+      await removeWalletKeySlot(slot.id);
+
+      expect(hasSessionPin()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,504 @@
+import { startAuthentication } from '@simplewebauthn/browser';
+import { PasskeyWalletKeySlot, PassphraseWalletKeySlot, WalletBackupKdf, WalletKeySlot } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { decodeBase64Url, encodeBase64, encodeBase64Url, utf8ToBytes } from 'hedera-id-wallet-common/encoding';
+import db, { getDeviceEncryptionKey, hasUnlockedWalletKey, setUnlockedWalletKey, settingsStorage, WALLET_KEY_SLOTS_SETTING } from './db';
+
+/**
+ * Protection of the wallet encryption key
+ * By default the key that encrypts credentials and private keys sits next to them in
+ * IndexedDB. A protected wallet stores it only wrapped (AES-GCM) in key slots:
+ * - passkey: the wrapping key is derived from the WebAuthn PRF extension (hmac-secret),
+ *   so unwrapping needs a biometric assertion with that passkey
+ * - passphrase: the wrapping key is derived with PBKDF2, for authenticators without PRF
+ * The unwrapped key is kept in memory only, until the wallet is locked (manually or after
+ * the auto-lock timeout) or the page reloads.
+ *
+ * A numeric PIN is too easy to guess offline to protect a stored key. It only unlocks the
+ * lock screen of this page: setting it wraps the key that is already in memory, the
+ * wrapped copy never leaves memory, and a few wrong PINs discard it.
+ */
+
+// PBKDF2 work factor for passphrase slots and the session PIN
+const PBKDF2_ITERATIONS = 600000;
+
+export const MIN_WALLET_PASSPHRASE_LENGTH = 12;
+export const MIN_WALLET_PIN_LENGTH = 6;
+export const MAX_WALLET_PIN_LENGTH = 12;
+const MAX_PIN_ATTEMPTS = 5;
+
+// Minutes of inactivity before the wallet locks itself; 0 disables auto-lock
+const AUTO_LOCK_SETTING = 'autoLockMinutes';
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+// HKDF info binding PRF outputs to this use
+const PRF_WRAP_INFO = utf8ToBytes('idara-wallet-key-wrap');
+
+// Settings holding the plain device key of an unprotected wallet
+const DEVICE_KEY_SETTINGS = ['deviceEncryptionKey', 'deviceEncryptionSalt'];
+
+type NewSlotFields =
+  | Omit<PasskeyWalletKeySlot, 'id' | 'iv' | 'wrappedKey' | 'createdAt'>
+  | Omit<PassphraseWalletKeySlot, 'id' | 'iv' | 'wrappedKey' | 'createdAt'>;
+
+// Wallet key wrapped with the session PIN; memory only, gone when the page reloads
+interface SessionPin {
+  kdf: WalletBackupKdf;
+  iv: Uint8Array;
+  wrappedKey: Uint8Array;
+  attemptsLeft: number;
+}
+let sessionPin: SessionPin | null = null;
+
+type LockListener = (unlocked: boolean) => void;
+const lockListeners = new Set<LockListener>();
+
+/**
+ * Notify subscribers that the wallet was locked or unlocked, or its lock settings changed
+ */
+function notifyLockChange(): void {
+  const unlocked = hasUnlockedWalletKey();
+  lockListeners.forEach((listener) => listener(unlocked));
+}
+
+/**
+ * Subscribe to the wallet being locked or unlocked, or its lock settings changing
+ * @param listener - Called with the new unlocked state
+ * @returns Function that removes the subscription
+ */
+export function subscribeWalletLock(listener: LockListener): () => void {
+  lockListeners.add(listener);
+  return () => {
+    lockListeners.delete(listener);
+  };
+}
+
+/**
+ * Get the key slots of the wallet key
+ */
+export async function getWalletKeySlots(): Promise<WalletKeySlot[]> {
+  return (await db.settings.get(WALLET_KEY_SLOTS_SETTING))?.value || [];
+}
+
+/**
+ * Check whether the wallet key is protected by a passkey or passphrase
+ */
+export async function isWalletKeyProtected(): Promise<boolean> {
+  return (await getWalletKeySlots()).length > 0;
+}
+
+/**
+ * Check whether encrypted wallet data can be used right now
+ */
+export async function isWalletUnlocked(): Promise<boolean> {
+  return hasUnlockedWalletKey() || !(await isWalletKeyProtected());
+}
+
+/**
+ * Forget the unwrapped wallet key until the next unlock
+ */
+export function lockWallet(): void {
+  if (hasUnlockedWalletKey()) {
+    setUnlockedWalletKey(null);
+    notifyLockChange();
+  }
+}
+
+/**
+ * Get the auto-lock timeout
+ * @returns Minutes of inactivity before the wallet locks, or 0 if it never locks by itself
+ */
+export async function getAutoLockMinutes(): Promise<number> {
+  const minutes = await settingsStorage.getSetting<number>(AUTO_LOCK_SETTING, DEFAULT_AUTO_LOCK_MINUTES);
+  return typeof minutes === 'number' && minutes >= 0 ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+/**
+ * Set the auto-lock timeout
+ * @param minutes - Minutes of inactivity before the wallet locks, or 0 to disable auto-lock
+ */
+export async function setAutoLockMinutes(minutes: number): Promise<void> {
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new Error('Invalid auto-lock timeout');
+  }
+
+  await settingsStorage.setSetting(AUTO_LOCK_SETTING, minutes);
+  notifyLockChange();
+}
+
+/**
+ * Check whether a PIN has the accepted format
+ * @param pin - PIN entered by the user
+ */
+export function isValidWalletPin(pin: string): boolean {
+  return /^\d+$/.test(pin) && pin.length >= MIN_WALLET_PIN_LENGTH && pin.length <= MAX_WALLET_PIN_LENGTH;
+}
+
+/**
+ * Derive the wrapping key of a passkey slot from a PRF output
+ * @param prfOutput - PRF result of the passkey for the slot's salt
+ */
+async function deriveKeyFromPrf(prfOutput: BufferSource): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: PRF_WRAP_INFO as BufferSource },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Derive the wrapping key of a passphrase slot or the session PIN
+ * @param passphrase - User passphrase or PIN
+ * @param kdf - Key derivation parameters
+ */
+async function deriveKeyFromPassphrase(passphrase: string, kdf: WalletBackupKdf): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey('raw', utf8ToBytes(passphrase) as BufferSource, 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, salt: decodeBase64Url(kdf.salt) as BufferSource, iterations: kdf.iterations },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Unwrap the wallet key of a slot and keep it in memory
+ * @param slot - Key slot
+ * @param wrappingKey - Wrapping key derived for the slot
+ */
+async function unwrapSlot(slot: WalletKeySlot, wrappingKey: CryptoKey): Promise<void> {
+  let walletKey: CryptoKey;
+  try {
+    // Extractable, so further slots can wrap the same key
+    walletKey = await crypto.subtle.unwrapKey(
+      'raw',
+      decodeBase64Url(slot.wrappedKey) as BufferSource,
+      wrappingKey,
+      { name: 'AES-GCM', iv: decodeBase64Url(slot.iv) as BufferSource },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
+    if (slot.type === 'passkey') {
+      throw new Error('This passkey cannot unlock the wallet');
+    }
+    throw new Error('Wrong passphrase');
+  }
+
+  setUnlockedWalletKey(walletKey);
+  notifyLockChange();
+}
+
+/**
+ * Get the wallet key in a form that can be wrapped
+ * Requires an unlocked wallet; an unprotected wallet's stored device key is used as is.
+ */
+async function getExtractableWalletKey(): Promise<CryptoKey> {
+  if (await isWalletKeyProtected()) {
+    return getDeviceEncryptionKey();
+  }
+
+  // Creates the device key if this wallet has none yet
+  await getDeviceEncryptionKey();
+  const deviceKey = await db.settings.get('deviceEncryptionKey');
+  const keyData = Uint8Array.from(atob(deviceKey!.value), (c) => c.charCodeAt(0));
+  return crypto.subtle.importKey('raw', keyData, { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Wrap the wallet key into a new slot and stop storing it in plain form
+ * @param walletKey - Extractable wallet key
+ * @param wrappingKey - Wrapping key of the new slot
+ * @param slot - Slot fields specific to its type
+ */
+async function addSlot(
+  walletKey: CryptoKey,
+  wrappingKey: CryptoKey,
+  slot: NewSlotFields
+): Promise<WalletKeySlot> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = new Uint8Array(await crypto.subtle.wrapKey('raw', walletKey, wrappingKey, { name: 'AES-GCM', iv }));
+
+  const newSlot = {
+    ...slot,
+    id: uuidv4(),
+    iv: encodeBase64(iv),
+    wrappedKey: encodeBase64(wrappedKey),
+    createdAt: new Date().toISOString(),
+  } as WalletKeySlot;
+
+  // The slot is saved before the plain key is removed, so the key is never lost
+  await db.settings.put({ key: WALLET_KEY_SLOTS_SETTING, value: [...(await getWalletKeySlots()), newSlot] });
+  await db.settings.bulkDelete(DEVICE_KEY_SETTINGS);
+
+  setUnlockedWalletKey(walletKey);
+  notifyLockChange();
+  return newSlot;
+}
+
+/**
+ * Read the PRF output from an assertion and remove it from the response
+ * The PRF output is a secret and must never be sent to the server.
+ * @param assertion - Response of startAuthentication
+ * @returns The PRF output, or null if the authenticator returned none
+ */
+export function takePrfResult(assertion: { clientExtensionResults: any }): BufferSource | null {
+  const { prf, ...otherResults } = assertion.clientExtensionResults || {};
+  assertion.clientExtensionResults = otherResults;
+  return prf?.results?.first || null;
+}
+
+/**
+ * Get PRF extension inputs for an authentication ceremony, one salt per passkey slot
+ * Passing these to startAuthentication lets a WebAuthn login unlock the wallet too.
+ */
+export async function getPrfExtensionInputs(): Promise<AuthenticationExtensionsClientInputs> {
+  const passkeySlots = (await getWalletKeySlots()).filter((slot): slot is PasskeyWalletKeySlot => slot.type === 'passkey');
+  if (passkeySlots.length === 0) {
+    return {};
+  }
+
+  const evalByCredential: Record<string, { first: BufferSource }> = {};
+  for (const slot of passkeySlots) {
+    evalByCredential[slot.credentialId] = { first: decodeBase64Url(slot.prfSalt) as BufferSource };
+  }
+
+  return { prf: { evalByCredential } } as AuthenticationExtensionsClientInputs;
+}
+
+/**
+ * Unlock the wallet with the PRF output of a passkey assertion
+ * @param credentialId - Credential ID (base64url) of the passkey used
+ * @param prfOutput - PRF output for the slot's salt
+ * @returns Whether a matching slot unlocked the wallet
+ */
+export async function unlockWithPrfResult(credentialId: string, prfOutput: BufferSource): Promise<boolean> {
+  const slot = (await getWalletKeySlots()).find(
+    (candidate) => candidate.type === 'passkey' && candidate.credentialId === credentialId
+  );
+  if (!slot) {
+    return false;
+  }
+
+  await unwrapSlot(slot, await deriveKeyFromPrf(prfOutput));
+  return true;
+}
+
+/**
+ * Run a local passkey assertion that evaluates the PRF extension
+ * Only the PRF output is used; the assertion is not sent to the server.
+ * @param evalByCredential - PRF salt per allowed credential ID
+ */
+async function evaluatePasskeyPrf(evalByCredential: Record<string, Uint8Array>): Promise<{ credentialId: string; prfOutput: BufferSource }> {
+  const prfInputs: Record<string, { first: BufferSource }> = {};
+  for (const [credentialId, salt] of Object.entries(evalByCredential)) {
+    prfInputs[credentialId] = { first: salt as BufferSource };
+  }
+
+  const assertion = await startAuthentication({
+    challenge: encodeBase64Url(crypto.getRandomValues(new Uint8Array(32))),
+    allowCredentials: Object.keys(evalByCredential).map((id) => ({ id, type: 'public-key' })),
+    userVerification: 'required',
+    timeout: 60000,
+    extensions: { prf: { evalByCredential: prfInputs } } as AuthenticationExtensionsClientInputs,
+  });
+
+  const prfOutput = takePrfResult(assertion);
+  if (!prfOutput) {
+    throw new Error('This passkey or browser does not support the PRF extension. Protect the wallet with a passphrase instead.');
+  }
+
+  return { credentialId: assertion.id, prfOutput };
+}
+
+/**
+ * Unlock the wallet with one of its passkey slots
+ */
+export async function unlockWithPasskey(): Promise<void> {
+  const passkeySlots = (await getWalletKeySlots()).filter((slot): slot is PasskeyWalletKeySlot => slot.type === 'passkey');
+  if (passkeySlots.length === 0) {
+    throw new Error('No passkey can unlock this wallet');
+  }
+
+  const salts: Record<string, Uint8Array> = {};
+  for (const slot of passkeySlots) {
+    salts[slot.credentialId] = decodeBase64Url(slot.prfSalt);
+  }
+
+  const { credentialId, prfOutput } = await evaluatePasskeyPrf(salts);
+  await unlockWithPrfResult(credentialId, prfOutput);
+}
+
+/**
+ * Unlock the wallet with its passphrase slot
+ * @param passphrase - User passphrase
+ */
+export async function unlockWithPassphrase(passphrase: string): Promise<void> {
+  const slot = (await getWalletKeySlots()).find(
+    (candidate): candidate is PassphraseWalletKeySlot => candidate.type === 'passphrase'
+  );
+  if (!slot) {
+    throw new Error('This wallet has no passphrase');
+  }
+
+  await unwrapSlot(slot, await deriveKeyFromPassphrase(passphrase, slot.kdf));
+}
+
+/**
+ * Check whether the lock screen can be unlocked with the session PIN
+ */
+export function hasSessionPin(): boolean {
+  return sessionPin !== null;
+}
+
+/**
+ * Unlock the wallet with the session PIN
+ * After MAX_PIN_ATTEMPTS wrong PINs the session PIN is discarded.
+ * @param pin - User PIN
+ */
+export async function unlockWithPin(pin: string): Promise<void> {
+  const session = sessionPin;
+  if (!session) {
+    throw new Error('Unlock with a passkey or passphrase to use a PIN again');
+  }
+
+  let walletKey: CryptoKey;
+  try {
+    walletKey = await crypto.subtle.unwrapKey(
+      'raw',
+      session.wrappedKey as BufferSource,
+      await deriveKeyFromPassphrase(pin, session.kdf),
+      { name: 'AES-GCM', iv: session.iv as BufferSource },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
+    session.attemptsLeft -= 1;
+    if (session.attemptsLeft > 0) {
+      throw new Error('Wrong PIN');
+    }
+
+    clearSessionPin();
+    throw new Error('Too many wrong PINs. Unlock with a passkey or passphrase.');
+  }
+
+  session.attemptsLeft = MAX_PIN_ATTEMPTS;
+  setUnlockedWalletKey(walletKey);
+  notifyLockChange();
+}
+
+/**
+ * Let the lock screen be unlocked with a PIN until the page reloads
+ * Requires a protected, unlocked wallet; replaces any previous session PIN.
+ * @param pin - User PIN
+ */
+export async function setSessionPin(pin: string): Promise<void> {
+  if (!isValidWalletPin(pin)) {
+    throw new Error(`The PIN must be ${MIN_WALLET_PIN_LENGTH} to ${MAX_WALLET_PIN_LENGTH} digits`);
+  }
+  if (!(await isWalletKeyProtected())) {
+    throw new Error('Protect the wallet with a passkey or passphrase before setting a PIN');
+  }
+
+  const walletKey = await getDeviceEncryptionKey();
+  const kdf: WalletBackupKdf = {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: encodeBase64(crypto.getRandomValues(new Uint8Array(16))),
+  };
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = new Uint8Array(
+    await crypto.subtle.wrapKey('raw', walletKey, await deriveKeyFromPassphrase(pin, kdf), { name: 'AES-GCM', iv })
+  );
+
+  sessionPin = { kdf, iv, wrappedKey, attemptsLeft: MAX_PIN_ATTEMPTS };
+  notifyLockChange();
+}
+
+/**
+ * Stop accepting the session PIN
+ */
+export function clearSessionPin(): void {
+  if (sessionPin) {
+    sessionPin = null;
+    notifyLockChange();
+  }
+}
+
+/**
+ * Protect the wallet key with a passkey
+ * The passkey must support the PRF extension; this runs one biometric assertion, and
+ * the user picks whichever of the offered passkeys is available on this device.
+ * @param credentialIds - Credential IDs (base64url) of the user's registered passkeys
+ */
+export async function protectWithPasskey(credentialIds: string[]): Promise<WalletKeySlot> {
+  const walletKey = await getExtractableWalletKey();
+  const salt = crypto.getRandomValues(new Uint8Array(32));
+
+  const salts: Record<string, Uint8Array> = {};
+  for (const credentialId of credentialIds) {
+    salts[credentialId] = salt;
+  }
+  const { credentialId, prfOutput } = await evaluatePasskeyPrf(salts);
+
+  return addSlot(walletKey, await deriveKeyFromPrf(prfOutput), {
+    type: 'passkey',
+    credentialId,
+    prfSalt: encodeBase64Url(salt),
+  });
+}
+
+/**
+ * Protect the wallet key with a passphrase, replacing any previous passphrase
+ * @param passphrase - User passphrase
+ */
+export async function protectWithPassphrase(passphrase: string): Promise<WalletKeySlot> {
+  if (passphrase.length < MIN_WALLET_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_WALLET_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const walletKey = await getExtractableWalletKey();
+  const kdf: WalletBackupKdf = {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: encodeBase64(crypto.getRandomValues(new Uint8Array(16))),
+  };
+
+  const previousSlot = (await getWalletKeySlots()).find((slot) => slot.type === 'passphrase');
+  const slot = await addSlot(walletKey, await deriveKeyFromPassphrase(passphrase, kdf), { type: 'passphrase', kdf });
+
+  if (previousSlot) {
+    await removeWalletKeySlot(previousSlot.id);
+  }
+  return slot;
+}
+
+/**
+ * Remove a key slot
+ * Removing the last slot stores the wallet key in plain form again (unprotected) and
+ * drops the session PIN.
+ * @param slotId - Slot ID
+ */
+export async function removeWalletKeySlot(slotId: string): Promise<void> {
+  const walletKey = await getDeviceEncryptionKey();
+  const remainingSlots = (await getWalletKeySlots()).filter((slot) => slot.id !== slotId);
+
+  if (remainingSlots.length === 0) {
+    const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', walletKey));
+    await db.settings.put({ key: 'deviceEncryptionKey', value: btoa(String.fromCharCode(...rawKey)) });
+    setUnlockedWalletKey(null);
+    sessionPin = null;
+  }
+
+  await db.settings.put({ key: WALLET_KEY_SLOTS_SETTING, value: remainingSlots });
+  notifyLockChange();
+}
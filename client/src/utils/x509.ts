@@ -0,0 +1,454 @@
+import { bytesToUtf8, concatBytes, decodeBase64Url, encodeBase64 } from 'hedera-id-wallet-common/encoding';
+
+/**
+ * X.509 certificates (RFC 5280)
+ * Parses the DER fields the wallet needs to validate ISO mdoc signer certificates and
+ * checks a certificate chain against trust anchors the user added. ECDSA (P-256, P-384,
+ * P-521) and Ed25519 keys are supported; signatures are verified with Web Crypto.
+ */
+
+/**
+ * Fields of a parsed certificate
+ */
+export interface X509Certificate {
+  der: Uint8Array; // Certificate as encoded
+  tbs: Uint8Array; // Signed TBSCertificate
+  signatureAlgorithm: string; // OID
+  signature: Uint8Array;
+  issuer: Uint8Array; // DER Name, compared byte for byte when building chains
+  subject: Uint8Array;
+  issuerName: string; // e.g. "C=US, CN=Example IACA"
+  subjectName: string;
+  notBefore: Date;
+  notAfter: Date;
+  subjectPublicKeyInfo: Uint8Array; // DER SubjectPublicKeyInfo
+  isCA: boolean; // basicConstraints cA, and keyCertSign if key usage is restricted
+}
+
+/**
+ * Decoded DER element
+ */
+interface DerElement {
+  tag: number;
+  content: Uint8Array;
+  encoded: Uint8Array;
+}
+
+const TAG_BOOLEAN = 0x01;
+const TAG_BIT_STRING = 0x03;
+const TAG_OCTET_STRING = 0x04;
+const TAG_OID = 0x06;
+const TAG_UTC_TIME = 0x17;
+const TAG_SEQUENCE = 0x30;
+const TAG_VERSION = 0xa0;
+const TAG_EXTENSIONS = 0xa3;
+
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+const OID_ED25519 = '1.3.101.112';
+const OID_BASIC_CONSTRAINTS = '2.5.29.19';
+const OID_KEY_USAGE = '2.5.29.15';
+
+// Web Crypto curve name and coordinate length of each named curve
+const EC_CURVES: Record<string, { namedCurve: string; size: number }> = {
+  '1.2.840.10045.3.1.7': { namedCurve: 'P-256', size: 32 },
+  '1.3.132.0.34': { namedCurve: 'P-384', size: 48 },
+  '1.3.132.0.35': { namedCurve: 'P-521', size: 66 },
+};
+
+// Hash of each supported certificate signature algorithm (null for Ed25519)
+const SIGNATURE_HASHES: Record<string, string | null> = {
+  '1.2.840.10045.4.3.2': 'SHA-256',
+  '1.2.840.10045.4.3.3': 'SHA-384',
+  '1.2.840.10045.4.3.4': 'SHA-512',
+  [OID_ED25519]: null,
+};
+
+// Short names of the attributes shown in distinguished names
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.5': 'serialNumber',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+};
+
+// Intermediate certificates followed before giving up on a chain
+const MAX_CHAIN_LENGTH = 4;
+
+/**
+ * Read the DER element at an offset
+ */
+function readElement(bytes: Uint8Array, offset: number): { element: DerElement; next: number } {
+  if (offset + 2 > bytes.length) {
+    throw new Error('Truncated DER data');
+  }
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('Unsupported DER tag');
+  }
+
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const width = length & 0x7f;
+    if (width === 0 || width > 4 || start + width > bytes.length) {
+      throw new Error('Invalid DER length');
+    }
+    length = 0;
+    for (let i = 0; i < width; i++) {
+      length = length * 256 + bytes[start + i];
+    }
+    start += width;
+  }
+
+  const end = start + length;
+  if (end > bytes.length) {
+    throw new Error('Truncated DER data');
+  }
+
+  return {
+    element: { tag, content: bytes.subarray(start, end), encoded: bytes.subarray(offset, end) },
+    next: end,
+  };
+}
+
+/**
+ * Decode a single DER element that fills the input
+ */
+function decodeElement(bytes: Uint8Array, expectedTag?: number): DerElement {
+  const { element, next } = readElement(bytes, 0);
+  if (next !== bytes.length) {
+    throw new Error('Unexpected data after DER element');
+  }
+  if (expectedTag !== undefined && element.tag !== expectedTag) {
+    throw new Error('Unexpected DER element');
+  }
+  return element;
+}
+
+/**
+ * Decode the elements inside a constructed element
+ */
+function readChildren(element: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  let offset = 0;
+  while (offset < element.content.length) {
+    const { element: child, next } = readElement(element.content, offset);
+    children.push(child);
+    offset = next;
+  }
+  return children;
+}
+
+function decodeOid(element: DerElement): string {
+  if (element.tag !== TAG_OID || element.content.length === 0) {
+    throw new Error('Expected an object identifier');
+  }
+
+  const arcs: number[] = [];
+  let value = 0;
+  for (const byte of element.content) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(value);
+      value = 0;
+    }
+  }
+
+  const first = Math.min(Math.floor(arcs[0] / 40), 2);
+  return [first, arcs[0] - first * 40, ...arcs.slice(1)].join('.');
+}
+
+/**
+ * Bytes of a BIT STRING without unused bits
+ */
+function decodeBitString(element: DerElement): Uint8Array {
+  if (element.tag !== TAG_BIT_STRING || element.content.length === 0) {
+    throw new Error('Expected a bit string');
+  }
+  return element.content.subarray(1);
+}
+
+function decodeTime(element: DerElement): Date {
+  const text = bytesToUtf8(element.content);
+  const match = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(text);
+  if (!match) {
+    throw new Error(`Unsupported certificate time: ${text}`);
+  }
+
+  let year = Number(match[1]);
+  if (element.tag === TAG_UTC_TIME) {
+    year += year < 50 ? 2000 : 1900;
+  }
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6])));
+}
+
+function decodeString(element: DerElement): string {
+  // BMPString is UTF-16BE; the other string types used in names are ASCII or UTF-8
+  if (element.tag === 0x1e) {
+    let text = '';
+    for (let i = 0; i + 1 < element.content.length; i += 2) {
+      text += String.fromCharCode((element.content[i] << 8) | element.content[i + 1]);
+    }
+    return text;
+  }
+  return bytesToUtf8(element.content);
+}
+
+/**
+ * Format a Name as attribute=value pairs in the order they are encoded
+ */
+function formatName(name: DerElement): string {
+  return readChildren(name)
+    .flatMap(readChildren)
+    .map((attribute) => {
+      const [type, value] = readChildren(attribute);
+      const oid = decodeOid(type);
+      return `${NAME_ATTRIBUTES[oid] || oid}=${decodeString(value)}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Check whether the extensions allow the certificate to sign other certificates
+ */
+function isCertificateAuthority(extensions: DerElement | undefined): boolean {
+  if (!extensions) {
+    return false;
+  }
+
+  let isCA = false;
+  let keyCertSign = true;
+  for (const extension of readChildren(decodeElement(extensions.content, TAG_SEQUENCE))) {
+    const fields = readChildren(extension);
+    const oid = decodeOid(fields[0]);
+    const value = fields[fields.length - 1];
+    if (value.tag !== TAG_OCTET_STRING) {
+      throw new Error('Invalid certificate extension');
+    }
+
+    if (oid === OID_BASIC_CONSTRAINTS) {
+      const [first] = readChildren(decodeElement(value.content, TAG_SEQUENCE));
+      isCA = first?.tag === TAG_BOOLEAN && first.content[0] !== 0;
+    } else if (oid === OID_KEY_USAGE) {
+      const bits = decodeBitString(decodeElement(value.content));
+      keyCertSign = (bits[0] & 0x04) !== 0;
+    }
+  }
+
+  return isCA && keyCertSign;
+}
+
+/**
+ * Parse a DER-encoded certificate
+ * @param der - Certificate bytes
+ */
+export function parseCertificate(der: Uint8Array): X509Certificate {
+  const certificate = decodeElement(der, TAG_SEQUENCE);
+  const [tbs, signatureAlgorithm, signature] = readChildren(certificate);
+  if (!tbs || tbs.tag !== TAG_SEQUENCE || !signatureAlgorithm || !signature) {
+    throw new Error('Invalid X.509 certificate');
+  }
+
+  const fields = readChildren(tbs);
+  const body = fields[0]?.tag === TAG_VERSION ? fields.slice(1) : fields;
+  const [, , issuer, validity, subject, subjectPublicKeyInfo] = body;
+  if (!subjectPublicKeyInfo || validity.tag !== TAG_SEQUENCE) {
+    throw new Error('Invalid X.509 certificate');
+  }
+
+  const [notBefore, notAfter] = readChildren(validity);
+
+  return {
+    der: certificate.encoded,
+    tbs: tbs.encoded,
+    signatureAlgorithm: decodeOid(readChildren(signatureAlgorithm)[0]),
+    signature: decodeBitString(signature),
+    issuer: issuer.encoded,
+    subject: subject.encoded,
+    issuerName: formatName(issuer),
+    subjectName: formatName(subject),
+    notBefore: decodeTime(notBefore),
+    notAfter: decodeTime(notAfter),
+    subjectPublicKeyInfo: subjectPublicKeyInfo.encoded,
+    isCA: isCertificateAuthority(body.find((field) => field.tag === TAG_EXTENSIONS)),
+  };
+}
+
+/**
+ * Decode the certificates in PEM text
+ * @param pem - One or more -----BEGIN CERTIFICATE----- blocks
+ * @returns DER bytes of each certificate
+ */
+export function decodePemCertificates(pem: string): Uint8Array[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g) || [];
+  return blocks.map((block) => decodeBase64Url(block.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/[\s=]+/g, '')));
+}
+
+/**
+ * Encode a certificate as PEM
+ * @param der - Certificate bytes
+ */
+export function encodePemCertificate(der: Uint8Array): string {
+  const lines = encodeBase64(der).match(/.{1,64}/g) || [];
+  return ['-----BEGIN CERTIFICATE-----', ...lines, '-----END CERTIFICATE-----'].join('\n');
+}
+
+/**
+ * Convert a DER ECDSA signature to the r || s form Web Crypto verifies
+ */
+function ecdsaSignatureToRaw(der: Uint8Array, size: number): Uint8Array {
+  const integers = readChildren(decodeElement(der, TAG_SEQUENCE));
+  if (integers.length !== 2) {
+    throw new Error('Invalid ECDSA signature');
+  }
+
+  return concatBytes(
+    ...integers.map((integer) => {
+      const value = integer.content.subarray(integer.content.findIndex((byte) => byte !== 0));
+      if (value.length > size) {
+        throw new Error('Invalid ECDSA signature');
+      }
+      return concatBytes(new Uint8Array(size - value.length), value);
+    })
+  );
+}
+
+/**
+ * Describe the public key in a SubjectPublicKeyInfo
+ */
+function getKeyAlgorithm(subjectPublicKeyInfo: Uint8Array): { name: 'ECDSA'; namedCurve: string; size: number } | { name: 'Ed25519' } {
+  const [algorithm] = readChildren(decodeElement(subjectPublicKeyInfo, TAG_SEQUENCE));
+  const [oid, parameters] = readChildren(algorithm);
+  const keyAlgorithm = decodeOid(oid);
+
+  if (keyAlgorithm === OID_ED25519) {
+    return { name: 'Ed25519' };
+  }
+
+  const curve = keyAlgorithm === OID_EC_PUBLIC_KEY && parameters?.tag === TAG_OID ? EC_CURVES[decodeOid(parameters)] : undefined;
+  if (!curve) {
+    throw new Error('Unsupported certificate key type');
+  }
+  return { name: 'ECDSA', ...curve };
+}
+
+/**
+ * Verify a signature with the public key of a certificate
+ * @param subjectPublicKeyInfo - Signer's DER SubjectPublicKeyInfo
+ * @param hash - Digest of ECDSA signatures (SHA-256, SHA-384 or SHA-512); ignored for Ed25519
+ * @param data - Signed data
+ * @param signature - Raw signature (r || s for ECDSA)
+ */
+export async function verifyPublicKeySignature(
+  subjectPublicKeyInfo: Uint8Array,
+  hash: string,
+  data: Uint8Array,
+  signature: Uint8Array
+): Promise<boolean> {
+  const algorithm = getKeyAlgorithm(subjectPublicKeyInfo);
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'spki',
+      subjectPublicKeyInfo as BufferSource,
+      algorithm.name === 'ECDSA' ? { name: 'ECDSA', namedCurve: algorithm.namedCurve } : algorithm,
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      algorithm.name === 'ECDSA' ? { name: 'ECDSA', hash } : algorithm,
+      key,
+      signature as BufferSource,
+      data as BufferSource
+    );
+  } catch (error) {
+    console.error('Signature verification failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Check whether a certificate was signed by another certificate's key
+ * @param certificate - Signed certificate
+ * @param issuer - Candidate issuer
+ */
+export async function verifyCertificateSignature(certificate: X509Certificate, issuer: X509Certificate): Promise<boolean> {
+  const hash = SIGNATURE_HASHES[certificate.signatureAlgorithm];
+  if (hash === undefined) {
+    throw new Error(`Unsupported certificate signature algorithm: ${certificate.signatureAlgorithm}`);
+  }
+
+  const algorithm = getKeyAlgorithm(issuer.subjectPublicKeyInfo);
+  if ((hash === null) !== (algorithm.name === 'Ed25519')) {
+    return false;
+  }
+
+  const signature = algorithm.name === 'ECDSA' ? ecdsaSignatureToRaw(certificate.signature, algorithm.size) : certificate.signature;
+  return verifyPublicKeySignature(issuer.subjectPublicKeyInfo, hash || '', certificate.tbs, signature);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Check that a certificate is within its validity period
+ */
+function checkValidity(certificate: X509Certificate, now: Date): void {
+  if (now < certificate.notBefore || now > certificate.notAfter) {
+    throw new Error(`Certificate ${certificate.subjectName} is not valid at ${now.toISOString()}`);
+  }
+}
+
+/**
+ * Validate a certificate chain against trust anchors
+ * Names are matched byte for byte; every certificate on the path must be within its
+ * validity period, and every issuer must be a certificate authority.
+ * @param chain - Leaf certificate first, followed by any intermediates
+ * @param trustAnchors - Trusted root certificates
+ * @param now - Reference time
+ * @returns The trust anchor the chain leads to
+ */
+export async function verifyCertificateChain(
+  chain: X509Certificate[],
+  trustAnchors: X509Certificate[],
+  now: Date = new Date()
+): Promise<X509Certificate> {
+  const [leaf, ...intermediates] = chain;
+  if (!leaf) {
+    throw new Error('Certificate chain is empty');
+  }
+
+  let current = leaf;
+  for (let depth = 0; depth <= MAX_CHAIN_LENGTH; depth++) {
+    checkValidity(current, now);
+
+    for (const anchor of trustAnchors) {
+      if (bytesEqual(anchor.subject, current.issuer) && (await verifyCertificateSignature(current, anchor))) {
+        checkValidity(anchor, now);
+        if (!anchor.isCA) {
+          throw new Error(`Trusted certificate ${anchor.subjectName} is not a certificate authority`);
+        }
+        return anchor;
+      }
+    }
+
+    let next: X509Certificate | undefined;
+    for (const candidate of intermediates) {
+      if (candidate.isCA && bytesEqual(candidate.subject, current.issuer) && (await verifyCertificateSignature(current, candidate))) {
+        next = candidate;
+        break;
+      }
+    }
+    if (!next) {
+      break;
+    }
+    current = next;
+  }
+
+  throw new Error(`Certificate ${leaf.subjectName} does not chain to a trusted certificate`);
+}
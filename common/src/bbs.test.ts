@@ -0,0 +1,131 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import { describe, expect, it } from 'vitest';
+import { bbsProofGen, bbsProofVerify, bbsSign, bbsVerify, getBbsPublicKey } from './bbs';
+
+/**
+ * BLS12-381-SHA-256 fixtures of draft-irtf-cfrg-bbs-signatures
+ * The proofs were generated with the draft's mocked random scalars, so they are fixed;
+ * bbsProofGen uses real randomness and is checked by verifying its output instead.
+ */
+
+const SECRET_KEY = '60e55110f76883a13d030b2f6bd11883422d5abde717569fc0731f51237169fc';
+const PUBLIC_KEY =
+  'a820f230f6ae38503b86c70dc50b61c58a77e45c39ab25c0652bbaa8fa136f2851bd4781c9dcde39fc9d1d52c9e60268061e7d7632171d91aa8d460acee0e96f1e7c4cfb12d3ff9ab5d5dc91c277db75c845d649ef3c4f63aebc364cd55ded0c';
+const HEADER = '11223344556677889900aabbccddeeff';
+const PRESENTATION_HEADER = 'bed231d880675ed101ead304512e043ade9958dd0241ea70b4b3957fba941501';
+const MESSAGES = [
+  '9872ad089e452c7b6e283dfac2a80d58e8d0ff71cc4d5e310a1debdda4a45f02',
+  'c344136d9ab02da4dd5908bbba913ae6f58c2cc844b802a6f811f5fb075f9b80',
+  '7372e9daa5ed31e6cd5c825eac1b855e84476a1d94932aa348e07b73',
+  '77fe97eb97a1ebe2e81e4e3597a3ee740a66e9ef2412472c',
+  '496694774c5604ab1b2544eababcf0f53278ff50',
+  '515ae153e22aae04ad16f759e07237b4',
+  'd183ddc6e2665aa4e2f088af',
+  'ac55fb33a75909ed',
+  '96012096',
+  '',
+].map(hexToBytes);
+
+const SINGLE_MESSAGE_SIGNATURE =
+  '84773160b824e194073a57493dac1a20b667af70cd2352d8af241c77658da5253aa8458317cca0eae615690d55b1f27164657dcafee1d5c1973947aa70e2cfbb4c892340be5969920d0916067b4565a0';
+const MULTI_MESSAGE_SIGNATURE =
+  '8339b285a4acd89dec7777c09543a43e3cc60684b0a6f8ab335da4825c96e1463e28f8c5f4fd0641d19cec5920d3a8ff4bedb6c9691454597bbd298288abed3632078557b2ace7d44caed846e1a0a1e8';
+
+// Proofs of MULTI_MESSAGE_SIGNATURE, except the first, which is of SINGLE_MESSAGE_SIGNATURE
+const PROOFS = [
+  {
+    disclosedIndexes: [0],
+    proof: '94916292a7a6bade28456c601d3af33fcf39278d6594b467e128a3f83686a104ef2b2fcf72df0215eeaf69262ffe8194a19fab31a82ddbe06908985abc4c9825788b8a1610942d12b7f5debbea8985296361206dbace7af0cc834c80f33e0aadaeea5597befbb651827b5eed5a66f1a959bb46cfd5ca1a817a14475960f69b32c54db7587b5ee3ab665fbd37b506830a49f21d592f5e634f47cee05a025a2f8f94e73a6c15f02301d1178a92873b6e8634bafe4983c3e15a663d64080678dbf29417519b78af042be2b3e1c4d08b8d520ffab008cbaaca5671a15b22c239b38e940cfeaa5e72104576a9ec4a6fad78c532381aeaa6fb56409cef56ee5c140d455feeb04426193c57086c9b6d397d9418',
+  },
+  {
+    disclosedIndexes: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    proof: 'b1f468aec2001c4f54cb56f707c6222a43e5803a25b2253e67b2210ab2ef9eab52db2d4b379935c4823281eaf767fd37b08ce80dc65de8f9769d27099ae649ad4c9b4bd2cc23edcba52073a298087d2495e6d57aaae051ef741adf1cbce65c64a73c8c97264177a76c4a03341956d2ae45ed3438ce598d5cda4f1bf9507fecef47855480b7b30b5e4052c92a4360110c67327365763f5aa9fb85ddcbc2975449b8c03db1216ca66b310f07d0ccf12ab460cdc6003b677fed36d0a23d0818a9d4d098d44f749e91008cf50e8567ef936704c8277b7710f41ab7e6e16408ab520edc290f9801349aee7b7b4e318e6a76e028e1dea911e2e7baec6a6a174da1a22362717fbae1cd961d7bf4adce1d31c2ab',
+  },
+  {
+    disclosedIndexes: [0, 2, 4, 6],
+    proof: 'a2ed608e8e12ed21abc2bf154e462d744a367c7f1f969bdbf784a2a134c7db2d340394223a5397a3011b1c340ebc415199462ba6f31106d8a6da8b513b37a47afe93c9b3474d0d7a354b2edc1b88818b063332df774c141f7a07c48fe50d452f897739228c88afc797916dca01e8f03bd9c5375c7a7c59996e514bb952a436afd24457658acbaba5ddac2e693ac481356918cd38025d86b28650e909defe9604a7259f44386b861608be742af7775a2e71a6070e5836f5f54dc43c60096834a5b6da295bf8f081f72b7cdf7f3b4347fb3ff19edaa9e74055c8ba46dbcb7594fb2b06633bb5324192eb9be91be0d33e453b4d3127459de59a5e2193c900816f049a02cb9127dac894418105fa1641d5a206ec9c42177af9316f433417441478276ca0303da8f941bf2e0222a43251cf5c2bf6eac1961890aa740534e519c1767e1223392a3a286b0f4d91f7f25217a7862b8fcc1810cdcfddde2a01c80fcc90b632585fec12dc4ae8fea1918e9ddeb9414623a457e88f53f545841f9d5dcb1f8e160d1560770aa79d65e2eca8edeaecb73fb7e995608b820c4a64de6313a370ba05dc25ed7c1d185192084963652f2870341bdaa4b1a37f8c06348f38a4f80c5a2650a21d59f09e8305dcd3fc3ac30e2a',
+  },
+];
+
+const secretKey = hexToBytes(SECRET_KEY);
+const publicKey = hexToBytes(PUBLIC_KEY);
+const header = hexToBytes(HEADER);
+const presentationHeader = hexToBytes(PRESENTATION_HEADER);
+
+describe('BBS signatures', () => {
+  it('derives the public key of a secret key', () => {
+    expect(getBbsPublicKey(secretKey)).toEqual(publicKey);
+  });
+
+  it('signs a single message', () => {
+    const signature = bbsSign(secretKey, publicKey, header, MESSAGES.slice(0, 1));
+
+    expect(signature).toEqual(hexToBytes(SINGLE_MESSAGE_SIGNATURE));
+    expect(bbsVerify(publicKey, signature, header, MESSAGES.slice(0, 1))).toBe(true);
+  });
+
+  it('signs multiple messages', () => {
+    const signature = bbsSign(secretKey, publicKey, header, MESSAGES);
+
+    expect(signature).toEqual(hexToBytes(MULTI_MESSAGE_SIGNATURE));
+    expect(bbsVerify(publicKey, signature, header, MESSAGES)).toBe(true);
+  });
+
+  it('rejects a signature over a changed message or header', () => {
+    const signature = hexToBytes(MULTI_MESSAGE_SIGNATURE);
+
+    expect(bbsVerify(publicKey, signature, header, [hexToBytes('ff'), ...MESSAGES.slice(1)])).toBe(false);
+    expect(bbsVerify(publicKey, signature, new Uint8Array(), MESSAGES)).toBe(false);
+    expect(bbsVerify(publicKey, signature, header, MESSAGES.slice(1))).toBe(false);
+  });
+
+  it('rejects a signature under another public key', () => {
+    const otherKey = getBbsPublicKey(hexToBytes(`${SECRET_KEY.slice(0, -2)}01`));
+
+    expect(bbsVerify(otherKey, hexToBytes(MULTI_MESSAGE_SIGNATURE), header, MESSAGES)).toBe(false);
+  });
+});
+
+describe('BBS proofs', () => {
+  it.each(PROOFS)('verifies the proof disclosing messages $disclosedIndexes', ({ disclosedIndexes, proof }) => {
+    const messages = disclosedIndexes.length === 1 ? MESSAGES.slice(0, 1) : MESSAGES;
+    const disclosed = disclosedIndexes.map((index) => messages[index]);
+
+    expect(bbsProofVerify(publicKey, hexToBytes(proof), header, presentationHeader, disclosed, disclosedIndexes)).toBe(true);
+  });
+
+  it('rejects a proof with a changed disclosed message', () => {
+    const { disclosedIndexes, proof } = PROOFS[2];
+    const disclosed = disclosedIndexes.map((index) => MESSAGES[index]);
+    disclosed[1] = hexToBytes('ff');
+
+    expect(bbsProofVerify(publicKey, hexToBytes(proof), header, presentationHeader, disclosed, disclosedIndexes)).toBe(false);
+  });
+
+  it('rejects a proof with another presentation header or disclosed indexes', () => {
+    const { disclosedIndexes, proof } = PROOFS[2];
+    const disclosed = disclosedIndexes.map((index) => MESSAGES[index]);
+
+    expect(bbsProofVerify(publicKey, hexToBytes(proof), header, new Uint8Array(), disclosed, disclosedIndexes)).toBe(false);
+    expect(bbsProofVerify(publicKey, hexToBytes(proof), header, presentationHeader, disclosed, [0, 2, 4, 7])).toBe(false);
+  });
+
+  it('derives unlinkable proofs that verify', () => {
+    const signature = hexToBytes(MULTI_MESSAGE_SIGNATURE);
+    const disclosedIndexes = [1, 3, 9];
+    const disclosed = disclosedIndexes.map((index) => MESSAGES[index]);
+
+    const first = bbsProofGen(publicKey, signature, header, presentationHeader, MESSAGES, disclosedIndexes);
+    const second = bbsProofGen(publicKey, signature, header, presentationHeader, MESSAGES, disclosedIndexes);
+
+    expect(first).not.toEqual(second);
+    expect(bbsProofVerify(publicKey, first, header, presentationHeader, disclosed, disclosedIndexes)).toBe(true);
+    expect(bbsProofVerify(publicKey, second, header, presentationHeader, disclosed, disclosedIndexes)).toBe(true);
+  });
+
+  it('refuses to derive a proof from an invalid signature', () => {
+    expect(() =>
+      bbsProofGen(publicKey, hexToBytes(SINGLE_MESSAGE_SIGNATURE), header, presentationHeader, MESSAGES, [0])
+    ).toThrow('BBS signature is invalid');
+  });
+});
@@ -0,0 +1,390 @@
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { expand_message_xmd } from '@noble/curves/abstract/hash-to-curve';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, randomBytes } from '@noble/hashes/utils';
+import { concatBytes, utf8ToBytes } from './encoding';
+
+/**
+ * BBS signatures (draft-irtf-cfrg-bbs-signatures, BLS12-381-SHA-256 ciphersuite)
+ * A BBS signature covers a list of messages. Its holder can derive zero-knowledge
+ * proofs that disclose any subset of them; each proof is freshly randomized, so two
+ * proofs from the same signature cannot be linked to each other or to the signature.
+ */
+
+type G1Point = InstanceType<typeof bls12_381.G1.ProjectivePoint>;
+type G2Point = InstanceType<typeof bls12_381.G2.ProjectivePoint>;
+
+const G1 = bls12_381.G1.ProjectivePoint;
+const G2 = bls12_381.G2.ProjectivePoint;
+const Fr = bls12_381.fields.Fr;
+
+const CIPHERSUITE_ID = 'BBS_BLS12381G1_XMD:SHA-256_SSWU_RO_';
+const API_ID = `${CIPHERSUITE_ID}H2G_HM2S_`;
+const EXPAND_LEN = 48;
+const SCALAR_LENGTH = 32;
+const POINT_LENGTH = 48;
+
+// Base point of the signatures: create_generators(1) from the BP_MESSAGE_GENERATOR_SEED seed
+const P1 = G1.fromHex('a8ce256102840821a3e94ea9025e4662b205762f9776b3a766c872b948f1fd225e7c59698588e70d11406d161b4e28c9');
+
+/**
+ * Length in bytes of a BBS public key (compressed G2 point)
+ */
+export const BBS_PUBLIC_KEY_LENGTH = 96;
+
+/**
+ * Length in bytes of a BBS signature
+ */
+export const BBS_SIGNATURE_LENGTH = POINT_LENGTH + SCALAR_LENGTH;
+
+/**
+ * Big-endian encoding of a non-negative integer
+ */
+function i2osp(value: number | bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let remaining = BigInt(value);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  return bytes;
+}
+
+function os2ip(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? 0n : BigInt(`0x${bytesToHex(bytes)}`);
+}
+
+/**
+ * Multiply a point by a scalar, allowing zero
+ */
+function multiply(point: G1Point, scalar: bigint): G1Point;
+function multiply(point: G2Point, scalar: bigint): G2Point;
+function multiply(point: any, scalar: bigint): any {
+  return scalar === 0n ? point.subtract(point) : point.multiply(scalar);
+}
+
+function hashToScalar(message: Uint8Array, dst: string): bigint {
+  return Fr.create(os2ip(expand_message_xmd(message, utf8ToBytes(dst), EXPAND_LEN, sha256)));
+}
+
+function randomScalars(count: number): bigint[] {
+  return Array.from({ length: count }, () => Fr.create(os2ip(randomBytes(EXPAND_LEN))));
+}
+
+/**
+ * Serialize points, scalars and counts as the draft's serialize() does
+ */
+function serialize(values: (G1Point | G2Point | bigint | number)[]): Uint8Array {
+  return concatBytes(
+    ...values.map((value) =>
+      typeof value === 'number'
+        ? i2osp(value, 8)
+        : typeof value === 'bigint'
+          ? i2osp(value, SCALAR_LENGTH)
+          : value.toRawBytes(true)
+    )
+  );
+}
+
+// Generators are the same for every key, so they are derived once and extended on demand
+const generators: G1Point[] = [];
+let generatorSeed: Uint8Array | null = null;
+
+/**
+ * Get the first count generators (Q_1, then H_1, H_2, ...)
+ */
+function createGenerators(count: number): G1Point[] {
+  const seedDst = utf8ToBytes(`${API_ID}SIG_GENERATOR_SEED_`);
+  const generatorDst = utf8ToBytes(`${API_ID}SIG_GENERATOR_DST_`);
+
+  if (!generatorSeed) {
+    generatorSeed = expand_message_xmd(utf8ToBytes(`${API_ID}MESSAGE_GENERATOR_SEED`), seedDst, EXPAND_LEN, sha256);
+  }
+  while (generators.length < count) {
+    generatorSeed = expand_message_xmd(
+      concatBytes(generatorSeed, i2osp(generators.length + 1, 8)),
+      seedDst,
+      EXPAND_LEN,
+      sha256
+    );
+    generators.push(bls12_381.G1.hashToCurve(generatorSeed, { DST: generatorDst }) as G1Point);
+  }
+
+  return generators.slice(0, count);
+}
+
+function messagesToScalars(messages: Uint8Array[]): bigint[] {
+  return messages.map((message) => hashToScalar(message, `${API_ID}MAP_MSG_TO_SCALAR_AS_HASH_`));
+}
+
+function calculateDomain(publicKey: Uint8Array, q1: G1Point, h: G1Point[], header: Uint8Array): bigint {
+  const domainInput = concatBytes(
+    publicKey,
+    serialize([h.length, q1, ...h]),
+    utf8ToBytes(API_ID),
+    i2osp(header.length, 8),
+    header
+  );
+  return hashToScalar(domainInput, `${API_ID}H2S_`);
+}
+
+/**
+ * B = P1 + Q_1 * domain + H_1 * msg_1 + ... + H_L * msg_L
+ */
+function commitMessages(q1: G1Point, h: G1Point[], domain: bigint, scalars: bigint[]): G1Point {
+  return scalars.reduce((sum, scalar, i) => sum.add(multiply(h[i], scalar)), P1.add(multiply(q1, domain)));
+}
+
+/**
+ * Check e(P1, Q1) * e(P2, Q2) == 1
+ */
+function pairingProductIsIdentity(p1: G1Point, q1: G2Point, p2: G1Point, q2: G2Point): boolean {
+  const product = bls12_381.pairingBatch([
+    { g1: p1, g2: q1 },
+    { g1: p2, g2: q2 },
+  ]);
+  return bls12_381.fields.Fp12.eql(product, bls12_381.fields.Fp12.ONE);
+}
+
+/**
+ * Decode a public key, rejecting the identity and points outside the subgroup
+ */
+function decodePublicKey(publicKey: Uint8Array): G2Point {
+  const point = G2.fromHex(publicKey);
+  point.assertValidity();
+  if (point.equals(G2.ZERO)) {
+    throw new Error('Invalid BBS public key');
+  }
+  return point;
+}
+
+function decodeG1(bytes: Uint8Array): G1Point {
+  const point = G1.fromHex(bytes);
+  point.assertValidity();
+  if (point.equals(G1.ZERO)) {
+    throw new Error('Invalid BBS point');
+  }
+  return point;
+}
+
+function decodeScalar(bytes: Uint8Array): bigint {
+  const scalar = os2ip(bytes);
+  if (scalar === 0n || scalar >= Fr.ORDER) {
+    throw new Error('Invalid BBS scalar');
+  }
+  return scalar;
+}
+
+/**
+ * Generate a random BBS secret key
+ * @returns 32-byte secret key
+ */
+export function generateBbsSecretKey(): Uint8Array {
+  let secretKey = 0n;
+  while (secretKey === 0n) {
+    [secretKey] = randomScalars(1);
+  }
+  return i2osp(secretKey, SCALAR_LENGTH);
+}
+
+/**
+ * Get the public key of a BBS secret key
+ * @param secretKey - 32-byte secret key
+ * @returns 96-byte compressed G2 point
+ */
+export function getBbsPublicKey(secretKey: Uint8Array): Uint8Array {
+  return G2.BASE.multiply(decodeScalar(secretKey)).toRawBytes(true);
+}
+
+/**
+ * Sign messages
+ * @param secretKey - 32-byte secret key
+ * @param publicKey - Public key of the secret key
+ * @param header - Data bound to the signature but never disclosed selectively
+ * @param messages - Messages to sign, in order
+ * @returns 80-byte signature
+ */
+export function bbsSign(secretKey: Uint8Array, publicKey: Uint8Array, header: Uint8Array, messages: Uint8Array[]): Uint8Array {
+  const sk = decodeScalar(secretKey);
+  const [q1, ...h] = createGenerators(messages.length + 1);
+  const scalars = messagesToScalars(messages);
+  const domain = calculateDomain(publicKey, q1, h, header);
+
+  const e = hashToScalar(serialize([sk, ...scalars, domain]), `${API_ID}H2S_`);
+  const b = commitMessages(q1, h, domain, scalars);
+  const a = b.multiply(Fr.inv(Fr.add(sk, e)));
+
+  return concatBytes(a.toRawBytes(true), i2osp(e, SCALAR_LENGTH));
+}
+
+/**
+ * Verify a signature over messages
+ * @param publicKey - Signer's public key
+ * @param signature - Signature from bbsSign
+ * @param header - Header the signature was created with
+ * @param messages - Signed messages, in order
+ */
+export function bbsVerify(publicKey: Uint8Array, signature: Uint8Array, header: Uint8Array, messages: Uint8Array[]): boolean {
+  try {
+    if (signature.length !== BBS_SIGNATURE_LENGTH) {
+      return false;
+    }
+    const w = decodePublicKey(publicKey);
+    const a = decodeG1(signature.slice(0, POINT_LENGTH));
+    const e = decodeScalar(signature.slice(POINT_LENGTH));
+
+    const [q1, ...h] = createGenerators(messages.length + 1);
+    const domain = calculateDomain(publicKey, q1, h, header);
+    const b = commitMessages(q1, h, domain, messagesToScalars(messages));
+
+    return pairingProductIsIdentity(a, w.add(G2.BASE.multiply(e)), b, G2.BASE.negate());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Challenge of a proof over its commitments and the disclosed messages
+ */
+function calculateChallenge(
+  points: G1Point[],
+  domain: bigint,
+  disclosedIndexes: number[],
+  disclosedScalars: bigint[],
+  presentationHeader: Uint8Array
+): bigint {
+  const disclosed = disclosedIndexes.flatMap((index, i) => [index, disclosedScalars[i]]);
+  const challengeInput = concatBytes(
+    serialize([disclosedIndexes.length, ...disclosed, ...points, domain]),
+    i2osp(presentationHeader.length, 8),
+    presentationHeader
+  );
+  return hashToScalar(challengeInput, `${API_ID}H2S_`);
+}
+
+/**
+ * Derive a proof of a signature that discloses some of its messages
+ * Every call uses fresh randomness, so proofs of the same signature are unlinkable.
+ * @param publicKey - Signer's public key
+ * @param signature - Signature over all messages
+ * @param header - Header the signature was created with
+ * @param presentationHeader - Data bound to this proof, e.g. a verifier's challenge
+ * @param messages - All signed messages, in order
+ * @param disclosedIndexes - Indexes of the messages to disclose
+ */
+export function bbsProofGen(
+  publicKey: Uint8Array,
+  signature: Uint8Array,
+  header: Uint8Array,
+  presentationHeader: Uint8Array,
+  messages: Uint8Array[],
+  disclosedIndexes: number[]
+): Uint8Array {
+  const disclosed = [...new Set(disclosedIndexes)].sort((a, b) => a - b);
+  if (disclosed.some((index) => index < 0 || index >= messages.length)) {
+    throw new Error('Disclosed message index out of range');
+  }
+  if (!bbsVerify(publicKey, signature, header, messages)) {
+    throw new Error('BBS signature is invalid');
+  }
+
+  const undisclosed = messages.map((_, i) => i).filter((i) => !disclosed.includes(i));
+  const a = decodeG1(signature.slice(0, POINT_LENGTH));
+  const e = decodeScalar(signature.slice(POINT_LENGTH));
+
+  const [q1, ...h] = createGenerators(messages.length + 1);
+  const scalars = messagesToScalars(messages);
+  const domain = calculateDomain(publicKey, q1, h, header);
+  const b = commitMessages(q1, h, domain, scalars);
+
+  const [r1, r2, eTilde, r1Tilde, r3Tilde, ...mTilde] = randomScalars(5 + undisclosed.length);
+  const d = multiply(b, r2);
+  const aBar = multiply(a, Fr.mul(r1, r2));
+  const bBar = multiply(d, r1).subtract(multiply(aBar, e));
+  const t1 = multiply(aBar, eTilde).add(multiply(d, r1Tilde));
+  const t2 = undisclosed.reduce((sum, index, i) => sum.add(multiply(h[index], mTilde[i])), multiply(d, r3Tilde));
+
+  const challenge = calculateChallenge(
+    [aBar, bBar, d, t1, t2],
+    domain,
+    disclosed,
+    disclosed.map((index) => scalars[index]),
+    presentationHeader
+  );
+
+  const r3 = Fr.inv(r2);
+  return concatBytes(
+    serialize([aBar, bBar, d]),
+    serialize([
+      Fr.add(eTilde, Fr.mul(e, challenge)),
+      Fr.sub(r1Tilde, Fr.mul(r1, challenge)),
+      Fr.sub(r3Tilde, Fr.mul(r3, challenge)),
+      ...undisclosed.map((index, i) => Fr.add(mTilde[i], Fr.mul(scalars[index], challenge))),
+      challenge,
+    ])
+  );
+}
+
+/**
+ * Verify a proof derived with bbsProofGen
+ * @param publicKey - Signer's public key
+ * @param proof - Derived proof
+ * @param header - Header of the original signature
+ * @param presentationHeader - Data the proof was bound to
+ * @param disclosedMessages - Disclosed messages, in index order
+ * @param disclosedIndexes - Indexes of the disclosed messages among all signed messages
+ */
+export function bbsProofVerify(
+  publicKey: Uint8Array,
+  proof: Uint8Array,
+  header: Uint8Array,
+  presentationHeader: Uint8Array,
+  disclosedMessages: Uint8Array[],
+  disclosedIndexes: number[]
+): boolean {
+  try {
+    const scalarCount = (proof.length - 3 * POINT_LENGTH) / SCALAR_LENGTH;
+    if (!Number.isInteger(scalarCount) || scalarCount < 4 || disclosedMessages.length !== disclosedIndexes.length) {
+      return false;
+    }
+
+    const undisclosedCount = scalarCount - 4;
+    const total = disclosedIndexes.length + undisclosedCount;
+    const disclosed = [...disclosedIndexes];
+    if (disclosed.some((index, i) => index < 0 || index >= total || (i > 0 && index <= disclosed[i - 1]))) {
+      return false;
+    }
+
+    const w = decodePublicKey(publicKey);
+    const [aBar, bBar, d] = [0, 1, 2].map((i) => decodeG1(proof.slice(i * POINT_LENGTH, (i + 1) * POINT_LENGTH)));
+    const [eHat, r1Hat, r3Hat, ...rest] = Array.from({ length: scalarCount }, (_, i) =>
+      decodeScalar(proof.slice(3 * POINT_LENGTH + i * SCALAR_LENGTH, 3 * POINT_LENGTH + (i + 1) * SCALAR_LENGTH))
+    );
+    const challenge = rest.pop()!;
+    const mHat = rest;
+
+    const [q1, ...h] = createGenerators(total + 1);
+    const undisclosed = Array.from({ length: total }, (_, i) => i).filter((i) => !disclosed.includes(i));
+    const disclosedScalars = messagesToScalars(disclosedMessages);
+    const domain = calculateDomain(publicKey, q1, h, header);
+
+    const t1 = multiply(bBar, challenge).add(multiply(aBar, eHat)).add(multiply(d, r1Hat));
+    const bv = disclosed.reduce(
+      (sum, index, i) => sum.add(multiply(h[index], disclosedScalars[i])),
+      P1.add(multiply(q1, domain))
+    );
+    const t2 = undisclosed.reduce(
+      (sum, index, i) => sum.add(multiply(h[index], mHat[i])),
+      multiply(bv, challenge).add(multiply(d, r3Hat))
+    );
+
+    const expected = calculateChallenge([aBar, bBar, d, t1, t2], domain, disclosed, disclosedScalars, presentationHeader);
+    if (expected !== challenge) {
+      return false;
+    }
+
+    return pairingProductIsIdentity(aBar, w, bBar, G2.BASE.negate());
+  } catch {
+    return false;
+  }
+}
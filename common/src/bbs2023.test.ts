@@ -0,0 +1,178 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import { describe, expect, it } from 'vitest';
+import { getBbsPublicKey } from './bbs';
+import {
+  createBbsBaseProofValue,
+  deriveBbsProof,
+  getMandatoryPointers,
+  getPresentationHeader,
+  verifyBbsBaseProof,
+  verifyBbsDerivedProof,
+} from './bbs2023';
+import { utf8ToBytes } from './encoding';
+
+/**
+ * bbs-2023 test vectors
+ * Proofs created and derived by the reference implementation (@digitalbazaar/bbs-2023-cryptosuite)
+ * with the key pair of the draft-irtf-cfrg-bbs-signatures fixtures and the mandatory and
+ * selective pointers of the vc-di-bbs specification's examples.
+ */
+
+const SECRET_KEY = hexToBytes('60e55110f76883a13d030b2f6bd11883422d5abde717569fc0731f51237169fc');
+const PUBLIC_KEY = getBbsPublicKey(SECRET_KEY);
+
+const ISSUER =
+  'did:key:zUC7Ekgg8j1ZpPmseur1YqykcZEKwhb96dEGAPcrc1n2sdsnDTAjRyDcsHVfW488caZUfAPfLXXP5oc2S1wKvvm6US7WDGq9x9QSBCHzXSm9ok5m21TY9XPDWeq5RqEaMtChSrX';
+
+// Credential signed by the reference implementation with HMAC key 00112233…eeff (twice)
+const CREDENTIAL = {
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  type: ['VerifiableCredential', 'SailingCredential'],
+  issuer: ISSUER,
+  validFrom: '2024-01-01T00:00:00Z',
+  credentialSubject: {
+    sailNumber: 'Earth101',
+    sails: [
+      { size: 5.5, sailName: 'Kihei', year: 2023 },
+      { size: 6.1, sailName: 'Lahaina', year: 2023 },
+      { size: 7, sailName: 'Lahaina', year: 2020 },
+    ],
+    boards: [
+      { boardName: 'CompFoil170', brand: 'Wailea', year: 2022 },
+      { boardName: 'Kanaha Custom', brand: 'Wailea', year: 2019 },
+    ],
+  },
+};
+
+const BASE_PROOF_VALUE = [
+  'u2V0ChVhQr1erq-1hfynmk0H7tmMHOjQu4yshEP2EXWLRdRUbFJqWLPCFqOKDvmbpxt2Us-myRiel6e9ZQUzYG1z6MjXZHmH',
+  'w-EsHyoZ9UPl9eNnzw0FYQPcDkrei185fEi8fInbB87Wxmjg2JEpjT2CKHgBRn5mTbg33e0MTEA6jYhGQojWSIpZWeSHLjwV',
+  'J3qz1p7q6KFpYYKgg8jD2rjhQO4bHDcULYcWKd-RcOaslwGUruqj6E28oUb1Hgcnc3jn8nR1SyeYCaAYefXYyFx2Rqo1GCs7',
+  'g6W8efEz7EtP_mrXV3JHCd9t1yEXWSe88T2OuvDZM1V3tDFggABEiM0RVZneImaq7zN3u_wARIjNEVWZ3iJmqu8zd7v-FZy9',
+  'pc3N1ZXJ4HS9jcmVkZW50aWFsU3ViamVjdC9zYWlsTnVtYmVyeBovY3JlZGVudGlhbFN1YmplY3Qvc2FpbHMvMXggL2NyZWR',
+  'lbnRpYWxTdWJqZWN0L2JvYXJkcy8wL3llYXJ4Gi9jcmVkZW50aWFsU3ViamVjdC9zYWlscy8y',
+].join('');
+
+// CREDENTIAL derived to reveal both boards, bound to the presentation header 'verifier challenge'
+const REVEALED_CREDENTIAL = {
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  type: ['VerifiableCredential', 'SailingCredential'],
+  issuer: ISSUER,
+  credentialSubject: {
+    sailNumber: 'Earth101',
+    sails: [
+      { size: 6.1, sailName: 'Lahaina', year: 2023 },
+      { size: 7, sailName: 'Lahaina', year: 2020 },
+    ],
+    boards: [
+      { year: 2022, boardName: 'CompFoil170', brand: 'Wailea' },
+      { boardName: 'Kanaha Custom', brand: 'Wailea', year: 2019 },
+    ],
+  },
+};
+
+const DERIVED_PROOF_VALUE = [
+  'u2V0DhVkBsKgoNK9ypACFKXVwq72lkXMAIHns1DM_4xt-npTjl9RkaA-kvPNtW-DMycVO-x-WdZOZkSUybB2AdYtGpo1yDrP',
+  'rlF1jz9LM5fWzBHH6UKcbd4gm5yVIK2SmzyZStu6GL5Q3t7KXl7r2iJPvazzHAWTlwtf1UcWsOzc2x-DxUpds9HFjbvk_Quy',
+  '0cjqZ6EXHj2iGilulYF57wTBHJ-odJ6VXxQHCbjKvYu8nrVBtqrwuXSk3XcgQkHaxJ3rUizKOr8H-YMIR3qmfS-dCNTeK4fw',
+  'VK_rPhu7C2aO62Yw3fEHLHdMeNFoY28t5-eStgtnsTEb8AsbdSpHC6tZ7KiJRdGi_Rm8oBwmq7dxB-pdh6vjaIrO99M-Qb7g',
+  'PhTb4fhUZ0nLQKVItTuK1owrh0rAadShTJCHzc89ie6P7IyVvrgrkwEvoeXuNLgqwWtOEdGWDXS183MsIrWCaBTroQL0LMea',
+  'xBWzD_Gi5Qpx-uFF3tqDpQLPwdzf6YUgFXWlMD62DWu1LWB6ZeVPia6o0oNhQc9plkvFlEr6piEeQMcLxcist-AFp4Ws6fYX',
+  'Y_ztZHyg_6KYAAAECAgYDAQQEBQWPAAECAwQFBggJCgsMDQ4UhgEGBwgJClJ2ZXJpZmllciBjaGFsbGVuZ2U',
+].join('');
+
+const MANDATORY_POINTERS = [
+  '/issuer',
+  '/credentialSubject/sailNumber',
+  '/credentialSubject/sails/1',
+  '/credentialSubject/boards/0/year',
+  '/credentialSubject/sails/2',
+];
+
+const SELECTIVE_POINTERS = ['/credentialSubject/boards/0', '/credentialSubject/boards/1'];
+
+const PRESENTATION_HEADER = utf8ToBytes('verifier challenge');
+
+const proofOptions = {
+  type: 'DataIntegrityProof',
+  cryptosuite: 'bbs-2023',
+  verificationMethod: `${ISSUER}#${ISSUER.substring('did:key:'.length)}`,
+  proofPurpose: 'assertionMethod',
+};
+
+const withBoardYear = (credential: any, year: number) => ({
+  ...credential,
+  credentialSubject: {
+    ...credential.credentialSubject,
+    boards: [credential.credentialSubject.boards[0], { ...credential.credentialSubject.boards[1], year }],
+  },
+});
+
+describe('bbs-2023 base proofs', () => {
+  const proof = { ...proofOptions, proofValue: BASE_PROOF_VALUE };
+
+  it('verifies a base proof of the reference implementation', () => {
+    expect(verifyBbsBaseProof(CREDENTIAL, proof, PUBLIC_KEY)).toBe(true);
+    expect(getMandatoryPointers(proof)).toEqual(MANDATORY_POINTERS);
+  });
+
+  it('rejects the base proof for a changed credential', () => {
+    expect(verifyBbsBaseProof(withBoardYear(CREDENTIAL, 2020), proof, PUBLIC_KEY)).toBe(false);
+  });
+
+  it('rejects the base proof under another public key', () => {
+    const otherKey = getBbsPublicKey(hexToBytes('0000000000000000000000000000000000000000000000000000000000000001'));
+
+    expect(verifyBbsBaseProof(CREDENTIAL, proof, otherKey)).toBe(false);
+  });
+
+  it('creates base proofs that verify', () => {
+    const proofValue = createBbsBaseProofValue(CREDENTIAL, proofOptions, SECRET_KEY, PUBLIC_KEY, MANDATORY_POINTERS);
+
+    expect(verifyBbsBaseProof(CREDENTIAL, { ...proofOptions, proofValue }, PUBLIC_KEY)).toBe(true);
+    expect(verifyBbsBaseProof(withBoardYear(CREDENTIAL, 2020), { ...proofOptions, proofValue }, PUBLIC_KEY)).toBe(false);
+  });
+});
+
+describe('bbs-2023 derived proofs', () => {
+  const proof = { ...proofOptions, proofValue: DERIVED_PROOF_VALUE };
+
+  it('verifies a derived proof of the reference implementation', () => {
+    expect(verifyBbsDerivedProof(REVEALED_CREDENTIAL, proof, PUBLIC_KEY)).toBe(true);
+    expect(getPresentationHeader(proof)).toEqual(PRESENTATION_HEADER);
+  });
+
+  it('rejects the derived proof for a changed revealed credential', () => {
+    expect(verifyBbsDerivedProof(withBoardYear(REVEALED_CREDENTIAL, 2020), proof, PUBLIC_KEY)).toBe(false);
+  });
+
+  it('rejects the derived proof for a credential with a revealed claim removed', () => {
+    const { boards, ...subject } = REVEALED_CREDENTIAL.credentialSubject;
+    const hidden = { ...REVEALED_CREDENTIAL, credentialSubject: { ...subject, boards: boards.slice(1) } };
+
+    expect(() => verifyBbsDerivedProof(hidden, proof, PUBLIC_KEY)).toThrow('bbs-2023 label map does not match the document');
+  });
+
+  it('reveals what the reference implementation reveals', () => {
+    const signed = { ...CREDENTIAL, proof: { ...proofOptions, proofValue: BASE_PROOF_VALUE } };
+    const { proof: derivedProof, ...revealed } = deriveBbsProof(signed, SELECTIVE_POINTERS, PRESENTATION_HEADER);
+
+    expect(revealed).toEqual(REVEALED_CREDENTIAL);
+    expect(derivedProof.proofValue).not.toBe(DERIVED_PROOF_VALUE);
+    expect(verifyBbsDerivedProof(revealed, derivedProof, PUBLIC_KEY)).toBe(true);
+  });
+
+  it('reveals only the mandatory claims when nothing is selected', () => {
+    const proofValue = createBbsBaseProofValue(CREDENTIAL, proofOptions, SECRET_KEY, PUBLIC_KEY, ['/issuer']);
+    const { proof: derivedProof, ...revealed } = deriveBbsProof({ ...CREDENTIAL, proof: { ...proofOptions, proofValue } }, []);
+
+    expect(revealed).toEqual({ '@context': CREDENTIAL['@context'], type: CREDENTIAL.type, issuer: ISSUER });
+    expect(verifyBbsDerivedProof(revealed, derivedProof, PUBLIC_KEY)).toBe(true);
+  });
+
+  it('refuses to derive from a document without a base proof', () => {
+    expect(() => deriveBbsProof({ ...CREDENTIAL, proof }, SELECTIVE_POINTERS)).toThrow(
+      'Document does not have a bbs-2023 base proof'
+    );
+  });
+});
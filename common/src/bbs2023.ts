@@ -0,0 +1,509 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes } from '@noble/hashes/utils';
+import { bbsProofGen, bbsProofVerify, bbsSign, bbsVerify } from './bbs';
+import { decodeCbor, encodeCbor } from './cbor';
+import { concatBytes, decodeBase64Url, encodeBase64Url, utf8ToBytes } from './encoding';
+import { canonize, expand, toRdf } from './jsonld';
+import { issueCanonicalLabels, Quad, relabelQuads, serializeQuad } from './rdfc';
+
+/**
+ * bbs-2023 Data Integrity cryptosuite (selective disclosure with BBS signatures)
+ * The issuer signs each canonical N-Quad of the credential as a separate BBS message,
+ * with blank nodes relabeled through an HMAC so labels do not leak the credential's
+ * shape. The base proof stays with the holder; for each presentation the holder derives
+ * a fresh proof that reveals only the quads selected by JSON pointers. Statements the
+ * issuer marks mandatory are always revealed and covered by the signature header.
+ */
+
+/**
+ * Cryptosuite identifier
+ */
+export const BBS_CRYPTOSUITE = 'bbs-2023';
+
+// proofValue prefixes: CBOR tag bytes of base and derived proofs (baseline features)
+const BASE_PROOF_HEADER = new Uint8Array([0xd9, 0x5d, 0x02]);
+const DERIVED_PROOF_HEADER = new Uint8Array([0xd9, 0x5d, 0x03]);
+
+// Blank nodes are given these IRIs while JSON pointers are applied, so they keep their identity
+const SKOLEM_PREFIX = 'urn:bnid:';
+
+/**
+ * Contents of a base proofValue
+ */
+interface BaseProofValue {
+  signature: Uint8Array;
+  header: Uint8Array;
+  publicKey: Uint8Array;
+  hmacKey: Uint8Array;
+  mandatoryPointers: string[];
+}
+
+/**
+ * Contents of a derived proofValue
+ */
+interface DerivedProofValue {
+  proof: Uint8Array;
+  labelMap: Map<number, number>; // Verifier's canonical label number -> HMAC label number
+  mandatoryIndexes: number[];
+  selectiveIndexes: number[];
+  presentationHeader: Uint8Array;
+}
+
+/**
+ * Canonical N-Quads of a document split by a set of JSON pointers
+ */
+interface QuadGroup {
+  matching: Map<number, string>; // Index in the canonical N-Quads -> N-Quad
+  nonMatching: Map<number, string>;
+  deskolemizedQuads: Quad[]; // Quads of the selection, with their original blank node labels
+}
+
+/**
+ * Check whether a proof is a bbs-2023 Data Integrity proof
+ * @param proof - Proof or proof options
+ */
+export function isBbsProof(proof: any): boolean {
+  return proof?.type === 'DataIntegrityProof' && proof.cryptosuite === BBS_CRYPTOSUITE;
+}
+
+/**
+ * Check whether a bbs-2023 proof is a base proof (held by the holder) rather than a derived one
+ * @param proof - bbs-2023 proof
+ */
+export function isBbsBaseProof(proof: any): boolean {
+  if (!isBbsProof(proof) || typeof proof.proofValue !== 'string' || !proof.proofValue.startsWith('u')) {
+    return false;
+  }
+  const bytes = decodeBase64Url(proof.proofValue.substring(1));
+  return BASE_PROOF_HEADER.every((byte, i) => bytes[i] === byte);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Split a JSON pointer (RFC 6901) into its reference tokens
+ */
+function parsePointer(pointer: string): string[] {
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+  return pointer
+    .substring(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Build the JSON pointer of a property path
+ * @param path - Property names and array indexes
+ */
+export function toJsonPointer(path: (string | number)[]): string {
+  return path.map((token) => `/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * Give every node object without an id a urn:bnid: IRI
+ */
+function skolemize(document: any): any {
+  const prefix = `${SKOLEM_PREFIX}${encodeBase64Url(randomBytes(8))}_`;
+  let counter = 0;
+
+  const visit = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (value === null || typeof value !== 'object' || '@value' in value) {
+      return value;
+    }
+
+    const node: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      node[key] = key === '@context' ? item : visit(item);
+    }
+    if (!('id' in node) && !('@id' in node)) {
+      node.id = `${prefix}${counter++}`;
+    }
+    return node;
+  };
+
+  return visit(document);
+}
+
+/**
+ * Convert a skolemized document to RDF, turning urn:bnid: IRIs back into blank nodes
+ */
+function toDeskolemizedQuads(document: any): Quad[] {
+  const deskolemize = (term: Quad['subject']): Quad['subject'] =>
+    term.termType === 'NamedNode' && term.value.startsWith(SKOLEM_PREFIX)
+      ? { termType: 'BlankNode', value: `_:${term.value.substring(SKOLEM_PREFIX.length)}` }
+      : term;
+
+  return toRdf(expand(document)).map((quad) => ({
+    subject: deskolemize(quad.subject),
+    predicate: quad.predicate,
+    object: deskolemize(quad.object),
+    graph: deskolemize(quad.graph),
+  }));
+}
+
+/**
+ * Start the selection of a node: its id (unless it is a blank node) and type
+ */
+function initSelection(source: any): Record<string, any> {
+  const selection: Record<string, any> = {};
+  if (typeof source?.id === 'string' && !source.id.startsWith('_:')) {
+    selection.id = source.id;
+  }
+  if (source?.type) {
+    selection.type = source.type;
+  }
+  return selection;
+}
+
+/**
+ * Select the parts of a compact JSON-LD document that JSON pointers refer to
+ * Nodes on the way to a selected value keep their id and type, so the selection
+ * still says what the value belongs to.
+ * @param document - Compact JSON-LD document
+ * @param pointers - JSON pointers to select
+ * @returns The selection with the document's @context, or null if there are no pointers
+ */
+export function selectJsonLd(document: any, pointers: string[]): any | null {
+  if (pointers.length === 0) {
+    return null;
+  }
+
+  const arrays: any[][] = [];
+  const selection: Record<string, any> = { '@context': structuredClone(document['@context']), ...initSelection(document) };
+
+  for (const pointer of pointers) {
+    const tokens = parsePointer(pointer);
+    let value = document;
+    let selectedParent: any = selection;
+    let selectedValue: any = selection;
+
+    for (const token of tokens) {
+      selectedParent = selectedValue;
+      value = value?.[token];
+      if (value === undefined) {
+        throw new Error(`JSON pointer does not match the document: ${pointer}`);
+      }
+
+      selectedValue = selectedParent[token];
+      if (selectedValue === undefined) {
+        if (Array.isArray(value)) {
+          selectedValue = [];
+          arrays.push(selectedValue);
+        } else {
+          selectedValue = initSelection(value);
+        }
+        selectedParent[token] = selectedValue;
+      }
+    }
+
+    const lastToken = tokens[tokens.length - 1];
+    selectedParent[lastToken] =
+      value === null || typeof value !== 'object'
+        ? value
+        : Array.isArray(value)
+          ? structuredClone(value)
+          : { ...selectedValue, ...structuredClone(value) };
+  }
+
+  // Arrays were filled at the selected indexes; close the gaps
+  for (const array of arrays) {
+    array.splice(0, array.length, ...array.filter(() => true));
+  }
+
+  return selection;
+}
+
+/**
+ * Label map factory that replaces canonical labels with HMAC-derived ones, numbered
+ * in the order of their HMACs
+ * @param hmacKey - Per-credential HMAC key from the base proof
+ */
+function createHmacLabelMapFactory(hmacKey: Uint8Array) {
+  return (canonicalLabels: Map<string, string>): Map<string, string> => {
+    const hmacLabels = new Map(
+      [...canonicalLabels].map(([label, canonical]) => [
+        label,
+        `u${encodeBase64Url(hmac(sha256, hmacKey, utf8ToBytes(canonical.substring(2))))}`,
+      ])
+    );
+    const sorted = [...hmacLabels.values()].sort();
+    return new Map([...hmacLabels].map(([label, hmacLabel]) => [label, `_:b${sorted.indexOf(hmacLabel)}`]));
+  };
+}
+
+/**
+ * Canonicalize quads and relabel their blank nodes
+ * @returns The map from input to new labels and the sorted, relabeled N-Quads
+ */
+function canonicalizeWithLabelMap(
+  quads: Quad[],
+  createLabelMap: (canonicalLabels: Map<string, string>) => Map<string, string>
+): { labelMap: Map<string, string>; nquads: string[] } {
+  const labelMap = createLabelMap(issueCanonicalLabels(quads));
+  const nquads = [...new Set(relabelQuads(quads, labelMap).map(serializeQuad))].sort();
+  return { labelMap, nquads };
+}
+
+/**
+ * Canonicalize a document and split its N-Quads by groups of JSON pointers
+ * @param document - Unsecured document
+ * @param createLabelMap - Label map factory
+ * @param groups - JSON pointers of each group
+ */
+function canonicalizeAndGroup<G extends string>(
+  document: any,
+  createLabelMap: (canonicalLabels: Map<string, string>) => Map<string, string>,
+  groups: Record<G, string[]>
+): { groups: Record<G, QuadGroup>; labelMap: Map<string, string> } {
+  const skolemized = skolemize(document);
+  const { labelMap, nquads } = canonicalizeWithLabelMap(toDeskolemizedQuads(skolemized), createLabelMap);
+
+  const result = {} as Record<G, QuadGroup>;
+  for (const name of Object.keys(groups) as G[]) {
+    const selection = selectJsonLd(skolemized, groups[name]);
+    const deskolemizedQuads = selection ? toDeskolemizedQuads(selection) : [];
+    const selected = new Set(relabelQuads(deskolemizedQuads, labelMap).map(serializeQuad));
+
+    const matching = new Map<number, string>();
+    const nonMatching = new Map<number, string>();
+    nquads.forEach((nquad, index) => (selected.has(nquad) ? matching : nonMatching).set(index, nquad));
+    result[name] = { matching, nonMatching, deskolemizedQuads };
+  }
+
+  return { groups: result, labelMap };
+}
+
+/**
+ * Signature header: SHA-256(canonical proof options) || SHA-256(mandatory N-Quads)
+ */
+function createBbsHeader(unsecuredDocument: any, proofOptions: any, mandatory: string[]): Uint8Array {
+  const proofConfig = { ...proofOptions, '@context': proofOptions['@context'] ?? unsecuredDocument['@context'] };
+  return concatBytes(sha256(utf8ToBytes(canonize(proofConfig))), sha256(utf8ToBytes(mandatory.join(''))));
+}
+
+function encodeProofValue(header: Uint8Array, components: any[]): string {
+  return `u${encodeBase64Url(concatBytes(header, encodeCbor(components)))}`;
+}
+
+function decodeProofValue(proofValue: string, header: Uint8Array): any[] {
+  if (typeof proofValue !== 'string' || !proofValue.startsWith('u')) {
+    throw new Error('bbs-2023 proofValue must be base64url multibase');
+  }
+  const bytes = decodeBase64Url(proofValue.substring(1));
+  if (!bytesEqual(bytes.slice(0, header.length), header)) {
+    throw new Error('Unexpected bbs-2023 proofValue header');
+  }
+  const components = decodeCbor(bytes.slice(header.length));
+  if (!Array.isArray(components)) {
+    throw new Error('Invalid bbs-2023 proofValue');
+  }
+  return components;
+}
+
+function parseBaseProofValue(proofValue: string): BaseProofValue {
+  const [signature, header, publicKey, hmacKey, mandatoryPointers] = decodeProofValue(proofValue, BASE_PROOF_HEADER);
+  if (
+    ![signature, header, publicKey, hmacKey].every((value) => value instanceof Uint8Array) ||
+    !Array.isArray(mandatoryPointers) ||
+    !mandatoryPointers.every((pointer) => typeof pointer === 'string')
+  ) {
+    throw new Error('Invalid bbs-2023 base proof');
+  }
+  return { signature, header, publicKey, hmacKey, mandatoryPointers };
+}
+
+function parseDerivedProofValue(proofValue: string): DerivedProofValue {
+  const [proof, labelMap, mandatoryIndexes, selectiveIndexes, presentationHeader] = decodeProofValue(
+    proofValue,
+    DERIVED_PROOF_HEADER
+  );
+  const isIndexList = (value: any) => Array.isArray(value) && value.every((index) => Number.isInteger(index) && index >= 0);
+  if (
+    !(proof instanceof Uint8Array) ||
+    !(labelMap instanceof Map) ||
+    ![...labelMap].every(([key, value]) => Number.isInteger(key) && Number.isInteger(value)) ||
+    !isIndexList(mandatoryIndexes) ||
+    !isIndexList(selectiveIndexes) ||
+    !(presentationHeader instanceof Uint8Array)
+  ) {
+    throw new Error('Invalid bbs-2023 derived proof');
+  }
+  return { proof, labelMap, mandatoryIndexes, selectiveIndexes, presentationHeader };
+}
+
+/**
+ * Create the proofValue of a base proof
+ * @param unsecuredDocument - Document without a proof
+ * @param proofOptions - Proof without its proofValue
+ * @param secretKey - Issuer's BLS12-381 secret key
+ * @param publicKey - Issuer's BLS12-381 public key
+ * @param mandatoryPointers - JSON pointers the holder must always reveal
+ */
+export function createBbsBaseProofValue(
+  unsecuredDocument: any,
+  proofOptions: any,
+  secretKey: Uint8Array,
+  publicKey: Uint8Array,
+  mandatoryPointers: string[] = []
+): string {
+  const hmacKey = randomBytes(32);
+  const { groups } = canonicalizeAndGroup(unsecuredDocument, createHmacLabelMapFactory(hmacKey), {
+    mandatory: mandatoryPointers,
+  });
+
+  const header = createBbsHeader(unsecuredDocument, proofOptions, [...groups.mandatory.matching.values()]);
+  const messages = [...groups.mandatory.nonMatching.values()].map(utf8ToBytes);
+  const signature = bbsSign(secretKey, publicKey, header, messages);
+
+  return encodeProofValue(BASE_PROOF_HEADER, [signature, header, publicKey, hmacKey, mandatoryPointers]);
+}
+
+/**
+ * Verify a base proof, as the holder does when a credential is received
+ * @param unsecuredDocument - Document without its proof
+ * @param proof - bbs-2023 base proof
+ * @param publicKey - Public key of the proof's verification method
+ */
+export function verifyBbsBaseProof(unsecuredDocument: any, proof: any, publicKey: Uint8Array): boolean {
+  const { proofValue, ...proofOptions } = proof;
+  const base = parseBaseProofValue(proofValue);
+  if (!bytesEqual(base.publicKey, publicKey)) {
+    return false;
+  }
+
+  const { groups } = canonicalizeAndGroup(unsecuredDocument, createHmacLabelMapFactory(base.hmacKey), {
+    mandatory: base.mandatoryPointers,
+  });
+  const header = createBbsHeader(unsecuredDocument, proofOptions, [...groups.mandatory.matching.values()]);
+  if (!bytesEqual(header, base.header)) {
+    return false;
+  }
+
+  const messages = [...groups.mandatory.nonMatching.values()].map(utf8ToBytes);
+  return bbsVerify(publicKey, base.signature, header, messages);
+}
+
+/**
+ * Get the JSON pointers a base proof requires the holder to reveal
+ * @param proof - bbs-2023 base proof
+ */
+export function getMandatoryPointers(proof: any): string[] {
+  return parseBaseProofValue(proof.proofValue).mandatoryPointers;
+}
+
+/**
+ * Derive a document that reveals only selected values, with a fresh derived proof
+ * @param document - Document with its base proof
+ * @param selectivePointers - JSON pointers to reveal in addition to the mandatory ones
+ * @param presentationHeader - Data to bind the proof to, e.g. the verifier's challenge
+ * @returns The revealed document with a derived proof
+ */
+export function deriveBbsProof(document: any, selectivePointers: string[], presentationHeader: Uint8Array = new Uint8Array()): any {
+  const { proof, ...unsecuredDocument } = document;
+  if (!isBbsBaseProof(proof)) {
+    throw new Error('Document does not have a bbs-2023 base proof');
+  }
+
+  const { proofValue, ...proofOptions } = proof;
+  const base = parseBaseProofValue(proofValue);
+  const combinedPointers = [...new Set([...base.mandatoryPointers, ...selectivePointers])];
+  if (combinedPointers.length === 0) {
+    throw new Error('Select at least one claim to disclose');
+  }
+
+  const { groups, labelMap } = canonicalizeAndGroup(unsecuredDocument, createHmacLabelMapFactory(base.hmacKey), {
+    mandatory: base.mandatoryPointers,
+    selective: selectivePointers,
+    combined: combinedPointers,
+  });
+
+  // Positions of the mandatory quads among the revealed ones, and of the selected quads among the signed messages
+  const mandatoryIndexes = [...groups.combined.matching.keys()].flatMap((index, i) =>
+    groups.mandatory.matching.has(index) ? [i] : []
+  );
+  const selectiveIndexes = [...groups.mandatory.nonMatching.keys()].flatMap((index, i) =>
+    groups.selective.matching.has(index) ? [i] : []
+  );
+
+  const messages = [...groups.mandatory.nonMatching.values()].map(utf8ToBytes);
+  const bbsProof = bbsProofGen(base.publicKey, base.signature, base.header, presentationHeader, messages, selectiveIndexes);
+
+  // The verifier canonicalizes the revealed document on its own; map its labels to the HMAC labels
+  const verifierLabelMap = new Map<number, number>();
+  issueCanonicalLabels(groups.combined.deskolemizedQuads).forEach((canonical, label) => {
+    verifierLabelMap.set(Number(canonical.substring('_:c14n'.length)), Number(labelMap.get(label)!.substring('_:b'.length)));
+  });
+
+  return {
+    ...selectJsonLd(unsecuredDocument, combinedPointers),
+    proof: {
+      ...proofOptions,
+      proofValue: encodeProofValue(DERIVED_PROOF_HEADER, [
+        bbsProof,
+        verifierLabelMap,
+        mandatoryIndexes,
+        selectiveIndexes,
+        presentationHeader,
+      ]),
+    },
+  };
+}
+
+/**
+ * Verify a derived proof
+ * @param unsecuredDocument - Revealed document without its proof
+ * @param proof - bbs-2023 derived proof
+ * @param publicKey - Public key of the proof's verification method
+ */
+export function verifyBbsDerivedProof(unsecuredDocument: any, proof: any, publicKey: Uint8Array): boolean {
+  const { proofValue, ...proofOptions } = proof;
+  const derived = parseDerivedProofValue(proofValue);
+
+  const quads = toRdf(expand(unsecuredDocument));
+  const { nquads } = canonicalizeWithLabelMap(quads, (canonicalLabels) => {
+    if (canonicalLabels.size !== derived.labelMap.size) {
+      throw new Error('bbs-2023 label map does not match the document');
+    }
+    return new Map(
+      [...canonicalLabels].map(([label, canonical]) => {
+        const mapped = derived.labelMap.get(Number(canonical.substring('_:c14n'.length)));
+        if (mapped === undefined) {
+          throw new Error('bbs-2023 label map does not match the document');
+        }
+        return [label, `_:b${mapped}`];
+      })
+    );
+  });
+
+  if (derived.mandatoryIndexes.some((index) => index >= nquads.length)) {
+    return false;
+  }
+  const mandatory = derived.mandatoryIndexes.map((index) => nquads[index]);
+  const disclosed = nquads.filter((_, index) => !derived.mandatoryIndexes.includes(index));
+
+  const header = createBbsHeader(unsecuredDocument, proofOptions, mandatory);
+  return bbsProofVerify(
+    publicKey,
+    derived.proof,
+    header,
+    derived.presentationHeader,
+    disclosed.map(utf8ToBytes),
+    derived.selectiveIndexes
+  );
+}
+
+/**
+ * Get the presentation header a derived proof is bound to
+ * @param proof - bbs-2023 derived proof
+ */
+export function getPresentationHeader(proof: any): Uint8Array {
+  return parseDerivedProofValue(proof.proofValue).presentationHeader;
+}
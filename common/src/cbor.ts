@@ -0,0 +1,242 @@
+import { bytesToUtf8, concatBytes, utf8ToBytes } from './encoding';
+
+/**
+ * CBOR (RFC 8949) encoding and decoding
+ * Covers what mdoc and bbs-2023 proof values use: integers, byte and text strings, arrays,
+ * maps, tags, floats and simple values. Maps decode to Map objects so integer keys
+ * survive; encoding always uses definite lengths and the shortest integer heads.
+ */
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+// Byte width of the argument for each additional information value above 23
+const ARGUMENT_WIDTHS: Record<number, number> = { 24: 1, 25: 2, 26: 4, 27: 8 };
+
+// Nesting limit, so crafted input cannot exhaust the stack
+const MAX_DEPTH = 64;
+
+/**
+ * Tagged CBOR data item
+ */
+export class CborTag {
+  constructor(
+    readonly tag: number,
+    readonly value: any
+  ) {}
+}
+
+/**
+ * Encode the initial byte and argument of a data item
+ */
+function encodeHead(major: number, argument: number | bigint): Uint8Array {
+  const value = BigInt(argument);
+  const type = major << 5;
+
+  if (value < 24n) return new Uint8Array([type | Number(value)]);
+  if (value < 0x100n) return new Uint8Array([type | 24, Number(value)]);
+
+  const width = value < 0x10000n ? 2 : value < 0x100000000n ? 4 : 8;
+  const head = new Uint8Array(1 + width);
+  head[0] = type | (width === 2 ? 25 : width === 4 ? 26 : 27);
+  for (let i = 0; i < width; i++) {
+    head[width - i] = Number((value >> BigInt(8 * i)) & 0xffn);
+  }
+  return head;
+}
+
+/**
+ * Encode a value as CBOR
+ * Plain objects become maps with text keys; use a Map for other key types.
+ * @param value - Value to encode
+ */
+export function encodeCbor(value: any): Uint8Array {
+  if (value === false) return new Uint8Array([0xf4]);
+  if (value === true) return new Uint8Array([0xf5]);
+  if (value === null) return new Uint8Array([0xf6]);
+  if (value === undefined) return new Uint8Array([0xf7]);
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      const bytes = new Uint8Array(9);
+      bytes[0] = 0xfb;
+      new DataView(bytes.buffer).setFloat64(1, value);
+      return bytes;
+    }
+    const integer = BigInt(value);
+    return integer < 0n ? encodeHead(MAJOR_NEGATIVE, -1n - integer) : encodeHead(MAJOR_UNSIGNED, integer);
+  }
+
+  if (typeof value === 'string') {
+    const bytes = utf8ToBytes(value);
+    return concatBytes(encodeHead(MAJOR_TEXT, bytes.length), bytes);
+  }
+
+  if (value instanceof Uint8Array) {
+    return concatBytes(encodeHead(MAJOR_BYTES, value.length), value);
+  }
+
+  if (Array.isArray(value)) {
+    return concatBytes(encodeHead(MAJOR_ARRAY, value.length), ...value.map(encodeCbor));
+  }
+
+  if (value instanceof CborTag) {
+    return concatBytes(encodeHead(MAJOR_TAG, value.tag), encodeCbor(value.value));
+  }
+
+  const entries: [any, any][] = value instanceof Map ? [...value.entries()] : Object.entries(value);
+  return concatBytes(
+    encodeHead(MAJOR_MAP, entries.length),
+    ...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)])
+  );
+}
+
+/**
+ * Decode an IEEE 754 half-precision float
+ */
+function decodeHalf(bits: number): number {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const magnitude =
+    exponent === 0
+      ? fraction * 2 ** -24
+      : exponent === 31
+        ? fraction === 0 ? Infinity : NaN
+        : (fraction + 1024) * 2 ** (exponent - 25);
+  return bits & 0x8000 ? -magnitude : magnitude;
+}
+
+/**
+ * Decode CBOR
+ * @param bytes - Exactly one encoded data item
+ */
+export function decodeCbor(bytes: Uint8Array): any {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const need = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new Error('Invalid CBOR: unexpected end of data');
+    }
+  };
+
+  const readArgument = (info: number): number | null => {
+    if (info < 24) return info;
+    if (info === 31) return null; // Indefinite length
+
+    const width = ARGUMENT_WIDTHS[info];
+    if (!width) {
+      throw new Error(`Invalid CBOR: reserved additional information ${info}`);
+    }
+    need(width);
+
+    let value = 0n;
+    for (let i = 0; i < width; i++) {
+      value = (value << 8n) | BigInt(bytes[offset + i]);
+    }
+    offset += width;
+
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error('Invalid CBOR: integer too large');
+    }
+    return Number(value);
+  };
+
+  const readItem = (depth: number): any => {
+    if (depth > MAX_DEPTH) {
+      throw new Error('Invalid CBOR: nesting too deep');
+    }
+    need(1);
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === MAJOR_SIMPLE) {
+      const simpleValues: Record<number, any> = { 20: false, 21: true, 22: null, 23: undefined };
+      if (info in simpleValues) {
+        return simpleValues[info];
+      }
+
+      const width = info === 24 ? undefined : ARGUMENT_WIDTHS[info];
+      if (!width) {
+        throw new Error(`Invalid CBOR: unsupported simple value ${info}`);
+      }
+      need(width);
+      offset += width;
+      return width === 2
+        ? decodeHalf(view.getUint16(offset - 2))
+        : width === 4
+          ? view.getFloat32(offset - 4)
+          : view.getFloat64(offset - 8);
+    }
+
+    const argument = readArgument(info);
+
+    switch (major) {
+      case MAJOR_UNSIGNED:
+      case MAJOR_NEGATIVE:
+        if (argument === null) throw new Error('Invalid CBOR: indefinite integer');
+        return major === MAJOR_UNSIGNED ? argument : -1 - argument;
+
+      case MAJOR_BYTES:
+      case MAJOR_TEXT: {
+        let data: Uint8Array;
+        if (argument === null) {
+          const chunks: Uint8Array[] = [];
+          while (bytes[offset] !== 0xff) {
+            const chunk = readItem(depth + 1);
+            if (major === MAJOR_BYTES ? !(chunk instanceof Uint8Array) : typeof chunk !== 'string') {
+              throw new Error('Invalid CBOR: mixed chunks in indefinite string');
+            }
+            chunks.push(typeof chunk === 'string' ? utf8ToBytes(chunk) : chunk);
+          }
+          offset++;
+          data = concatBytes(...chunks);
+        } else {
+          need(argument);
+          data = bytes.slice(offset, offset + argument);
+          offset += argument;
+        }
+        return major === MAJOR_BYTES ? data : bytesToUtf8(data);
+      }
+
+      case MAJOR_ARRAY: {
+        const items: any[] = [];
+        while (argument === null ? bytes[offset] !== 0xff : items.length < argument) {
+          items.push(readItem(depth + 1));
+        }
+        if (argument === null) offset++;
+        return items;
+      }
+
+      case MAJOR_MAP: {
+        const map = new Map<any, any>();
+        for (let count = 0; argument === null ? bytes[offset] !== 0xff : count < argument; count++) {
+          const key = readItem(depth + 1);
+          if (map.has(key)) {
+            throw new Error('Invalid CBOR: duplicate map key');
+          }
+          map.set(key, readItem(depth + 1));
+        }
+        if (argument === null) offset++;
+        return map;
+      }
+
+      default:
+        if (argument === null) throw new Error('Invalid CBOR: indefinite tag');
+        return new CborTag(argument, readItem(depth + 1));
+    }
+  };
+
+  const value = readItem(0);
+  if (offset !== bytes.length) {
+    throw new Error('Invalid CBOR: trailing data');
+  }
+  return value;
+}
@@ -0,0 +1,148 @@
+/**
+ * Binary encoding helpers for DID, key and credential code
+ * Runs in browsers and Node alike, on Uint8Array rather than Buffer.
+ */
+
+// Base58 (bitcoin alphabet) used by multibase 'z' prefixed values
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes to a base58btc string
+ * @param bytes - Bytes to encode
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let num = BigInt(0);
+  for (const byte of bytes) {
+    num = (num << BigInt(8)) + BigInt(byte);
+  }
+
+  let result = '';
+  while (num > BigInt(0)) {
+    const remainder = Number(num % BigInt(58));
+    num = num / BigInt(58);
+    result = BASE58_ALPHABET[remainder] + result;
+  }
+
+  // Preserve leading zero bytes as '1' characters
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result = '1' + result;
+  }
+
+  return result;
+}
+
+/**
+ * Decode a base58btc string to bytes
+ * @param value - Base58 string to decode
+ */
+export function decodeBase58(value: string): Uint8Array {
+  let num = BigInt(0);
+  for (const char of value) {
+    const index = BASE58_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    num = num * BigInt(58) + BigInt(index);
+  }
+
+  const bytes: number[] = [];
+  while (num > BigInt(0)) {
+    bytes.unshift(Number(num % BigInt(256)));
+    num = num / BigInt(256);
+  }
+
+  // Restore leading zero bytes
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.unshift(0);
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode bytes as base64url without padding
+ * @param bytes - Bytes to encode
+ */
+export function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Encode bytes as standard base64 with padding
+ * @param bytes - Bytes to encode
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a base64url (or standard base64) string to bytes
+ * @param value - Encoded string
+ */
+export function decodeBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode a UTF-8 string to bytes
+ */
+export function utf8ToBytes(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+/**
+ * Decode UTF-8 bytes to a string
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encode bytes as a multibase base58btc string ('z' prefix)
+ */
+export function encodeMultibase(bytes: Uint8Array): string {
+  return 'z' + encodeBase58(bytes);
+}
+
+/**
+ * Decode a multibase string (base58btc 'z' or base64url 'u')
+ */
+export function decodeMultibase(value: string): Uint8Array {
+  const prefix = value.charAt(0);
+  if (prefix === 'z') {
+    return decodeBase58(value.substring(1));
+  }
+  if (prefix === 'u') {
+    return decodeBase64Url(value.substring(1));
+  }
+  throw new Error(`Unsupported multibase prefix: ${prefix}`);
+}
+
+/**
+ * Concatenate several byte arrays
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const length = arrays.reduce((total, array) => total + array.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
@@ -0,0 +1,629 @@
+import { BUNDLED_CONTEXTS } from './jsonldContexts';
+import { canonicalizeQuads, Quad, RdfTerm, serializeQuad } from './rdfc';
+
+/**
+ * JSON-LD processing for proofs over canonical RDF
+ * Covers the JSON-LD 1.1 expansion features credentials use: terms, compact IRIs,
+ * @vocab, type coercion, property- and type-scoped contexts, protected terms and
+ * @graph containers. Expansion runs in safe mode: a property or type the contexts do
+ * not define is an error rather than being dropped, since dropped data is not signed.
+ * Contexts are only loaded from the bundled set, never from the network.
+ */
+
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDF_LANG_STRING = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString';
+
+const KEYWORDS = [
+  '@base', '@container', '@context', '@direction', '@graph', '@id', '@import', '@included', '@index',
+  '@json', '@language', '@list', '@nest', '@none', '@prefix', '@propagate', '@protected', '@reverse',
+  '@set', '@type', '@value', '@version', '@vocab',
+];
+
+// Nesting limit for contexts that reference other contexts
+const MAX_CONTEXT_DEPTH = 10;
+
+/**
+ * Term definition of an active context
+ */
+interface TermDefinition {
+  id: string | null; // IRI or keyword; null for a term explicitly mapped to null
+  type?: string;
+  container: string[];
+  context?: any; // Scoped context, applied when the term is used (may be null)
+  prefix: boolean;
+  protected: boolean;
+}
+
+/**
+ * Context in effect while expanding a node
+ */
+interface ActiveContext {
+  terms: Map<string, TermDefinition>;
+  vocab?: string;
+  previous?: ActiveContext; // Context to revert to in nested nodes (type-scoped contexts)
+}
+
+/**
+ * Local context being processed, for definitions that depend on other terms in it
+ */
+interface DefinitionScope {
+  localContext: Record<string, any>;
+  defined: Map<string, boolean>;
+  overrideProtected: boolean;
+}
+
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : [value]);
+
+function isAbsoluteIri(value: string): boolean {
+  return /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s<>"{}|\\^`]*$/.test(value);
+}
+
+function isIriOrBlankNode(value: string | null): value is string {
+  return !!value && (isAbsoluteIri(value) || value.startsWith('_:'));
+}
+
+/**
+ * Load a context document from the bundled contexts
+ * @param url - Context URL
+ */
+export function documentLoader(url: string): any {
+  const document = BUNDLED_CONTEXTS[url];
+  if (!document) {
+    throw new Error(`JSON-LD context is not available offline: ${url}`);
+  }
+  return document;
+}
+
+/**
+ * Expand a term, compact IRI or IRI
+ * @param active - Active context
+ * @param value - Value to expand
+ * @param vocab - Whether terms and @vocab apply (properties and types) or not (@id values)
+ * @param scope - Local context being processed, if any
+ */
+function expandIri(active: ActiveContext, value: string, vocab: boolean, scope?: DefinitionScope): string | null {
+  if (KEYWORDS.includes(value)) {
+    return value;
+  }
+  if (/^@[a-zA-Z]+$/.test(value)) {
+    return null;
+  }
+
+  if (scope && value in scope.localContext && scope.defined.get(value) !== true) {
+    createTermDefinition(active, value, scope);
+  }
+
+  const definition = active.terms.get(value);
+  if (definition && (vocab || (definition.id && KEYWORDS.includes(definition.id)))) {
+    return definition.id;
+  }
+
+  const colon = value.indexOf(':', 1);
+  if (colon > 0) {
+    const prefix = value.slice(0, colon);
+    const suffix = value.slice(colon + 1);
+    if (prefix === '_' || suffix.startsWith('//')) {
+      return value;
+    }
+
+    if (scope && prefix in scope.localContext && scope.defined.get(prefix) !== true) {
+      createTermDefinition(active, prefix, scope);
+    }
+    const prefixDefinition = active.terms.get(prefix);
+    if (prefixDefinition?.id && prefixDefinition.prefix) {
+      return prefixDefinition.id + suffix;
+    }
+    if (isAbsoluteIri(value)) {
+      return value;
+    }
+  }
+
+  if (vocab && active.vocab) {
+    return active.vocab + value;
+  }
+
+  return value;
+}
+
+/**
+ * Check whether a redefinition of a protected term leaves it unchanged
+ */
+function isSameDefinition(a: TermDefinition, b: TermDefinition): boolean {
+  return (
+    a.id === b.id &&
+    a.type === b.type &&
+    a.prefix === b.prefix &&
+    a.container.join() === b.container.join() &&
+    JSON.stringify(a.context) === JSON.stringify(b.context)
+  );
+}
+
+/**
+ * Create the definition of one term of a local context
+ * @param active - Context being built
+ * @param term - Term to define
+ * @param scope - Local context the term is defined in
+ */
+function createTermDefinition(active: ActiveContext, term: string, scope: DefinitionScope): void {
+  const state = scope.defined.get(term);
+  if (state === true) {
+    return;
+  }
+  if (state === false) {
+    throw new Error(`Invalid JSON-LD context: cyclic definition of ${term}`);
+  }
+  scope.defined.set(term, false);
+
+  if (term === '' || KEYWORDS.includes(term)) {
+    throw new Error(`Invalid JSON-LD context: cannot define ${term || 'an empty term'}`);
+  }
+
+  const raw = scope.localContext[term];
+  const value = raw === null || typeof raw === 'string' ? { '@id': raw } : raw;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid JSON-LD context: invalid definition of ${term}`);
+  }
+
+  for (const keyword of ['@reverse', '@language', '@direction', '@nest', '@index']) {
+    if (keyword in value) {
+      throw new Error(`Unsupported JSON-LD term definition: ${keyword} in ${term}`);
+    }
+  }
+
+  const previous = active.terms.get(term);
+  active.terms.delete(term);
+
+  const definition: TermDefinition = {
+    id: null,
+    container: [],
+    prefix: false,
+    protected: value['@protected'] ?? scope.localContext['@protected'] === true,
+  };
+
+  if ('@type' in value) {
+    const type = value['@type'];
+    const expanded = typeof type === 'string' ? expandIri(active, type, true, scope) : null;
+    if (!expanded || !(['@id', '@vocab', '@json', '@none'].includes(expanded) || isAbsoluteIri(expanded))) {
+      throw new Error(`Invalid JSON-LD context: invalid type mapping of ${term}`);
+    }
+    definition.type = expanded;
+  }
+
+  if ('@id' in value && value['@id'] !== term) {
+    if (value['@id'] !== null) {
+      const id = typeof value['@id'] === 'string' ? expandIri(active, value['@id'], true, scope) : null;
+      if (!id || id === '@context' || !(KEYWORDS.includes(id) || isIriOrBlankNode(id))) {
+        throw new Error(`Invalid JSON-LD context: invalid IRI mapping of ${term}`);
+      }
+      definition.id = id;
+      definition.prefix =
+        '@prefix' in value
+          ? value['@prefix'] === true
+          : typeof raw === 'string' && !/[:/]/.test(term) && /[:/?#[\]@]$/.test(id);
+    }
+  } else if (term.indexOf(':', 1) > 0) {
+    const colon = term.indexOf(':', 1);
+    const prefix = term.slice(0, colon);
+    if (prefix in scope.localContext) {
+      createTermDefinition(active, prefix, scope);
+    }
+    const prefixDefinition = active.terms.get(prefix);
+    definition.id = prefixDefinition?.id ? prefixDefinition.id + term.slice(colon + 1) : term;
+    if (!isIriOrBlankNode(definition.id)) {
+      throw new Error(`Invalid JSON-LD context: invalid IRI mapping of ${term}`);
+    }
+  } else if (term.includes('/')) {
+    throw new Error(`Invalid JSON-LD context: relative IRI term ${term}`);
+  } else if (active.vocab) {
+    definition.id = active.vocab + term;
+  } else {
+    throw new Error(`Invalid JSON-LD context: no IRI mapping for ${term}`);
+  }
+
+  if ('@container' in value) {
+    definition.container = toArray(value['@container']);
+    if (definition.container.some((container) => !['@graph', '@set'].includes(container))) {
+      throw new Error(`Unsupported JSON-LD container in ${term}: ${definition.container.join(', ')}`);
+    }
+  }
+
+  if ('@context' in value) {
+    definition.context = value['@context'];
+  }
+
+  if (previous?.protected && !scope.overrideProtected) {
+    if (!isSameDefinition(previous, definition)) {
+      throw new Error(`Invalid JSON-LD context: protected term ${term} cannot be redefined`);
+    }
+    active.terms.set(term, previous);
+  } else {
+    active.terms.set(term, definition);
+  }
+
+  scope.defined.set(term, true);
+}
+
+/**
+ * Apply a local context to an active context
+ * @param active - Active context
+ * @param localContext - Context URL, object, null or an array of these
+ * @param options.propagate - false for type-scoped contexts, which do not apply to nested nodes
+ * @param options.overrideProtected - true for property-scoped contexts
+ */
+function processContext(
+  active: ActiveContext,
+  localContext: any,
+  options: { propagate?: boolean; overrideProtected?: boolean } = {},
+  depth = 0
+): ActiveContext {
+  if (depth > MAX_CONTEXT_DEPTH) {
+    throw new Error('Invalid JSON-LD: contexts are nested too deeply');
+  }
+
+  const propagate = options.propagate ?? !(localContext && localContext['@propagate'] === false);
+  let result: ActiveContext = { ...active, terms: new Map(active.terms) };
+  if (!propagate && !result.previous) {
+    result.previous = active;
+  }
+
+  for (const context of toArray(localContext)) {
+    if (context === null) {
+      if (!options.overrideProtected && [...result.terms.values()].some((definition) => definition.protected)) {
+        throw new Error('Invalid JSON-LD: cannot clear a context with protected terms');
+      }
+      result = { terms: new Map(), ...(!propagate && { previous: result }) };
+      continue;
+    }
+
+    if (typeof context === 'string') {
+      result = processContext(result, documentLoader(context)['@context'], {}, depth + 1);
+      continue;
+    }
+
+    if (typeof context !== 'object' || Array.isArray(context)) {
+      throw new Error('Invalid JSON-LD: a context must be a URL or an object');
+    }
+
+    for (const keyword of ['@base', '@import', '@language', '@direction']) {
+      if (keyword in context) {
+        throw new Error(`Unsupported JSON-LD context feature: ${keyword}`);
+      }
+    }
+    if ('@version' in context && context['@version'] !== 1.1) {
+      throw new Error('Invalid JSON-LD: @version must be 1.1');
+    }
+
+    if ('@vocab' in context) {
+      if (context['@vocab'] === null) {
+        delete result.vocab;
+      } else {
+        const vocab = typeof context['@vocab'] === 'string' ? expandIri(result, context['@vocab'], true) : null;
+        if (!isIriOrBlankNode(vocab)) {
+          throw new Error('Invalid JSON-LD: @vocab must be an IRI');
+        }
+        result.vocab = vocab;
+      }
+    }
+
+    const scope: DefinitionScope = {
+      localContext: context,
+      defined: new Map(),
+      overrideProtected: !!options.overrideProtected,
+    };
+    for (const term of Object.keys(context)) {
+      if (!['@version', '@vocab', '@protected', '@propagate'].includes(term)) {
+        createTermDefinition(result, term, scope);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expand a scalar to a value object, or a node reference for @id/@vocab typed terms
+ */
+function expandValue(active: ActiveContext, activeProperty: string, value: any): any {
+  const definition = active.terms.get(activeProperty);
+
+  if (typeof value === 'string' && (definition?.type === '@id' || definition?.type === '@vocab')) {
+    const id = expandIri(active, value, definition.type === '@vocab');
+    if (!isIriOrBlankNode(id)) {
+      throw new Error(`JSON-LD safe mode: ${value} is not an IRI`);
+    }
+    return { '@id': id };
+  }
+
+  if (definition?.type && !['@id', '@vocab', '@none'].includes(definition.type)) {
+    return { '@value': value, '@type': definition.type };
+  }
+
+  return { '@value': value };
+}
+
+/**
+ * Expand the value of a keyword entry
+ */
+function expandKeyword(active: ActiveContext, typeScopedContext: ActiveContext, keyword: string, value: any): any {
+  switch (keyword) {
+    case '@id': {
+      const id = typeof value === 'string' ? expandIri(active, value, false) : null;
+      if (!isIriOrBlankNode(id)) {
+        throw new Error(`JSON-LD safe mode: @id ${JSON.stringify(value)} is not an IRI`);
+      }
+      return id;
+    }
+    case '@type':
+      return toArray(value).map((type) => {
+        const expanded = typeof type === 'string' ? expandIri(typeScopedContext, type, true) : null;
+        if (!isIriOrBlankNode(expanded)) {
+          throw new Error(`JSON-LD safe mode: type ${type} is not defined by the document's contexts`);
+        }
+        return expanded;
+      });
+    case '@graph':
+      return toArray(expandElement(active, '@graph', value));
+    case '@value':
+      if (value !== null && typeof value === 'object') {
+        throw new Error('Unsupported JSON-LD value: @value must be a scalar');
+      }
+      return value;
+    case '@language':
+      if (typeof value !== 'string') {
+        throw new Error('Invalid JSON-LD: @language must be a string');
+      }
+      return value;
+    default:
+      throw new Error(`Unsupported JSON-LD keyword: ${keyword}`);
+  }
+}
+
+/**
+ * Expand an element of a JSON-LD document
+ * @param active - Active context
+ * @param activeProperty - Property the element is the value of (null at the top level)
+ * @param element - Element to expand
+ */
+function expandElement(active: ActiveContext, activeProperty: string | null, element: any): any {
+  if (element === null || element === undefined) {
+    return null;
+  }
+
+  if (Array.isArray(element)) {
+    const result: any[] = [];
+    for (const item of element) {
+      const expanded = expandElement(active, activeProperty, item);
+      if (Array.isArray(expanded)) {
+        result.push(...expanded);
+      } else if (expanded !== null) {
+        result.push(expanded);
+      }
+    }
+    return result;
+  }
+
+  const propertyDefinition = activeProperty ? active.terms.get(activeProperty) : undefined;
+
+  if (typeof element !== 'object') {
+    if (activeProperty === null || activeProperty === '@graph') {
+      return null;
+    }
+    if (propertyDefinition?.context !== undefined) {
+      active = processContext(active, propertyDefinition.context, { overrideProtected: true });
+    }
+    return expandValue(active, activeProperty, element);
+  }
+
+  // Type-scoped contexts do not reach nested nodes
+  if (active.previous) {
+    const keys = Object.keys(element).map((key) => expandIri(active, key, true));
+    if (!keys.includes('@value') && !(keys.length === 1 && keys[0] === '@id')) {
+      active = active.previous;
+    }
+  }
+
+  if (propertyDefinition?.context !== undefined) {
+    active = processContext(active, propertyDefinition.context, { overrideProtected: true });
+  }
+  if ('@context' in element) {
+    active = processContext(active, element['@context']);
+  }
+
+  const typeScopedContext = active;
+  for (const key of Object.keys(element).sort()) {
+    if (expandIri(active, key, true) !== '@type') {
+      continue;
+    }
+    for (const type of toArray(element[key]).filter((type) => typeof type === 'string').sort()) {
+      const definition = typeScopedContext.terms.get(type);
+      if (definition?.context !== undefined) {
+        active = processContext(active, definition.context, { propagate: false });
+      }
+    }
+  }
+
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(element).sort()) {
+    if (key === '@context') {
+      continue;
+    }
+
+    const property = expandIri(active, key, true);
+    if (property && KEYWORDS.includes(property)) {
+      if (property in result) {
+        throw new Error(`Invalid JSON-LD: more than one entry for ${property}`);
+      }
+      result[property] = expandKeyword(active, typeScopedContext, property, element[key]);
+      continue;
+    }
+    if (!property || !isAbsoluteIri(property)) {
+      throw new Error(`JSON-LD safe mode: ${key} is not defined by the document's contexts`);
+    }
+
+    const definition = active.terms.get(key);
+    if (definition?.type === '@json') {
+      throw new Error(`Unsupported JSON-LD type: @json (${key})`);
+    }
+
+    const expanded = expandElement(active, key, element[key]);
+    if (expanded === null) {
+      continue;
+    }
+
+    const values = toArray(expanded).map((item) =>
+      definition?.container.includes('@graph') ? { '@graph': toArray(item) } : item
+    );
+    result[property] = [...(result[property] ?? []), ...values];
+  }
+
+  if ('@value' in result) {
+    if (Object.keys(result).some((key) => !['@value', '@type', '@language'].includes(key))) {
+      throw new Error('Invalid JSON-LD: value object with extra entries');
+    }
+    if (result['@value'] === null) {
+      return null;
+    }
+    if (result['@type']) {
+      if (result['@type'].length !== 1) {
+        throw new Error('Invalid JSON-LD: value object with more than one type');
+      }
+      result['@type'] = result['@type'][0];
+    }
+    return result;
+  }
+
+  if (activeProperty === null || activeProperty === '@graph') {
+    const keys = Object.keys(result);
+    if (keys.length === 0 || (keys.length === 1 && keys[0] === '@id')) {
+      return null;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expand a JSON-LD document
+ * @param document - Compacted document with its @context
+ * @returns Expanded node objects
+ */
+export function expand(document: any): any[] {
+  let expanded = expandElement({ terms: new Map() }, null, document);
+  if (expanded && !Array.isArray(expanded) && Object.keys(expanded).length === 1 && '@graph' in expanded) {
+    expanded = expanded['@graph'];
+  }
+  return expanded === null ? [] : toArray(expanded);
+}
+
+/**
+ * Convert a value object to an RDF literal
+ */
+function toLiteral(value: any): RdfTerm {
+  const literal = value['@value'];
+  const datatype: string | undefined = value['@type'];
+
+  if (value['@language']) {
+    return { termType: 'Literal', value: String(literal), language: value['@language'], datatype: RDF_LANG_STRING };
+  }
+
+  if (typeof literal === 'boolean') {
+    return { termType: 'Literal', value: String(literal), datatype: datatype ?? `${XSD}boolean` };
+  }
+
+  if (typeof literal === 'number') {
+    if (!Number.isFinite(literal)) {
+      throw new Error('Invalid JSON-LD: non-finite number');
+    }
+    if (literal % 1 !== 0 || Math.abs(literal) >= 1e21 || datatype === `${XSD}double`) {
+      const canonical = literal.toExponential(15).replace(/(\d)0*e\+?/, '$1E');
+      return { termType: 'Literal', value: canonical, datatype: datatype ?? `${XSD}double` };
+    }
+    return { termType: 'Literal', value: literal.toFixed(0), datatype: datatype ?? `${XSD}integer` };
+  }
+
+  return { termType: 'Literal', value: literal, datatype: datatype ?? `${XSD}string` };
+}
+
+/**
+ * Convert an expanded document to RDF quads
+ * Graph containers (such as proof) become blank node named graphs.
+ * @param expanded - Output of expand()
+ */
+export function toRdf(expanded: any[]): Quad[] {
+  const quads = new Map<string, Quad>();
+  const labels = new Map<string, string>();
+  let counter = 0;
+
+  const blankNode = (label?: string): RdfTerm => {
+    if (label === undefined) {
+      return { termType: 'BlankNode', value: `_:b${counter++}` };
+    }
+    if (!labels.has(label)) {
+      labels.set(label, `_:b${counter++}`);
+    }
+    return { termType: 'BlankNode', value: labels.get(label)! };
+  };
+
+  const resource = (id: string): RdfTerm =>
+    id.startsWith('_:') ? blankNode(id) : { termType: 'NamedNode', value: id };
+
+  const addQuad = (subject: RdfTerm, predicate: string, object: RdfTerm, graph: RdfTerm) => {
+    const quad: Quad = { subject, predicate: { termType: 'NamedNode', value: predicate }, object, graph };
+    quads.set(serializeQuad(quad), quad);
+  };
+
+  const addNode = (node: any, graph: RdfTerm): RdfTerm => {
+    const subject = node['@id'] ? resource(node['@id']) : blankNode();
+
+    for (const type of node['@type'] ?? []) {
+      addQuad(subject, RDF_TYPE, resource(type), graph);
+    }
+
+    for (const property of Object.keys(node)) {
+      if (property.startsWith('@')) {
+        continue;
+      }
+      for (const item of node[property]) {
+        addQuad(subject, property, toObject(item, graph), graph);
+      }
+    }
+
+    if (node['@graph']) {
+      for (const child of node['@graph']) {
+        addNode(child, subject);
+      }
+    }
+
+    return subject;
+  };
+
+  const toObject = (item: any, graph: RdfTerm): RdfTerm => {
+    if ('@value' in item) {
+      return toLiteral(item);
+    }
+    if ('@graph' in item && Object.keys(item).length === 1) {
+      const graphName = blankNode();
+      for (const child of item['@graph']) {
+        addNode(child, graphName);
+      }
+      return graphName;
+    }
+    return addNode(item, graph);
+  };
+
+  const defaultGraph: RdfTerm = { termType: 'DefaultGraph', value: '' };
+  for (const node of expanded) {
+    addNode(node, defaultGraph);
+  }
+
+  return [...quads.values()];
+}
+
+/**
+ * Canonicalize a JSON-LD document to RDFC-1.0 N-Quads
+ * @param document - Compacted document with its @context
+ */
+export function canonize(document: any): string {
+  return canonicalizeQuads(toRdf(expand(document)));
+}
@@ -0,0 +1,368 @@
+/**
+ * JSON-LD contexts bundled with the wallet and the server
+ * Proofs over canonical RDF must not depend on fetching contexts at issuance or
+ * verification time, so the standard contexts credentials use are kept here and
+ * the document loader only serves these.
+ */
+
+export const CREDENTIALS_V1_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+export const CREDENTIALS_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+export const ED25519_2020_CONTEXT = 'https://w3id.org/security/suites/ed25519-2020/v1';
+export const DATA_INTEGRITY_V1_CONTEXT = 'https://w3id.org/security/data-integrity/v1';
+export const DATA_INTEGRITY_V2_CONTEXT = 'https://w3id.org/security/data-integrity/v2';
+export const STATUS_LIST_2021_CONTEXT = 'https://w3id.org/vc/status-list/2021/v1';
+
+const SEC = 'https://w3id.org/security#';
+const CRED = 'https://www.w3.org/2018/credentials#';
+const XSD_DATE_TIME = 'http://www.w3.org/2001/XMLSchema#dateTime';
+
+const graphProof = { '@id': `${SEC}proof`, '@type': '@id', '@container': '@graph' };
+
+const verificationRelationship = (id: string) => ({ '@id': `${SEC}${id}`, '@type': '@id', '@container': '@set' });
+
+// Scoped context of the proofPurpose term in the 2020+ suites
+const proofPurpose = {
+  '@id': `${SEC}proofPurpose`,
+  '@type': '@vocab',
+  '@context': {
+    '@protected': true,
+    id: '@id',
+    type: '@type',
+    assertionMethod: verificationRelationship('assertionMethod'),
+    authentication: verificationRelationship('authenticationMethod'),
+    capabilityInvocation: verificationRelationship('capabilityInvocationMethod'),
+    capabilityDelegation: verificationRelationship('capabilityDelegationMethod'),
+    keyAgreement: verificationRelationship('keyAgreementMethod'),
+  },
+};
+
+// Terms shared by the proof types of the 2020+ suites
+const proofTerms = {
+  '@protected': true,
+  id: '@id',
+  type: '@type',
+  challenge: `${SEC}challenge`,
+  created: { '@id': 'http://purl.org/dc/terms/created', '@type': XSD_DATE_TIME },
+  domain: `${SEC}domain`,
+  expires: { '@id': `${SEC}expiration`, '@type': XSD_DATE_TIME },
+  nonce: `${SEC}nonce`,
+  proofPurpose,
+  proofValue: { '@id': `${SEC}proofValue`, '@type': `${SEC}multibase` },
+  verificationMethod: { '@id': `${SEC}verificationMethod`, '@type': '@id' },
+};
+
+// Scoped context of the 2018/2019 signature suites in credentials v1
+const legacySignatureSuite = (id: string) => ({
+  '@id': `${SEC}${id}`,
+  '@context': {
+    '@version': 1.1,
+    '@protected': true,
+    id: '@id',
+    type: '@type',
+    sec: SEC,
+    xsd: 'http://www.w3.org/2001/XMLSchema#',
+    challenge: 'sec:challenge',
+    created: { '@id': 'http://purl.org/dc/terms/created', '@type': 'xsd:dateTime' },
+    domain: 'sec:domain',
+    expires: { '@id': 'sec:expiration', '@type': 'xsd:dateTime' },
+    jws: 'sec:jws',
+    nonce: 'sec:nonce',
+    proofPurpose: {
+      '@id': 'sec:proofPurpose',
+      '@type': '@vocab',
+      '@context': {
+        '@version': 1.1,
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        sec: SEC,
+        assertionMethod: { '@id': 'sec:assertionMethod', '@type': '@id', '@container': '@set' },
+        authentication: { '@id': 'sec:authenticationMethod', '@type': '@id', '@container': '@set' },
+      },
+    },
+    proofValue: 'sec:proofValue',
+    verificationMethod: { '@id': 'sec:verificationMethod', '@type': '@id' },
+  },
+});
+
+const credentialsV1 = {
+  '@context': {
+    '@version': 1.1,
+    '@protected': true,
+    id: '@id',
+    type: '@type',
+    VerifiableCredential: {
+      '@id': `${CRED}VerifiableCredential`,
+      '@context': {
+        '@version': 1.1,
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        cred: CRED,
+        sec: SEC,
+        xsd: 'http://www.w3.org/2001/XMLSchema#',
+        credentialSchema: {
+          '@id': 'cred:credentialSchema',
+          '@type': '@id',
+          '@context': {
+            '@version': 1.1,
+            '@protected': true,
+            id: '@id',
+            type: '@type',
+            cred: CRED,
+            JsonSchemaValidator2018: 'cred:JsonSchemaValidator2018',
+          },
+        },
+        credentialStatus: { '@id': 'cred:credentialStatus', '@type': '@id' },
+        credentialSubject: { '@id': 'cred:credentialSubject', '@type': '@id' },
+        evidence: { '@id': 'cred:evidence', '@type': '@id' },
+        expirationDate: { '@id': 'cred:expirationDate', '@type': 'xsd:dateTime' },
+        holder: { '@id': 'cred:holder', '@type': '@id' },
+        issued: { '@id': 'cred:issued', '@type': 'xsd:dateTime' },
+        issuer: { '@id': 'cred:issuer', '@type': '@id' },
+        issuanceDate: { '@id': 'cred:issuanceDate', '@type': 'xsd:dateTime' },
+        proof: { '@id': 'sec:proof', '@type': '@id', '@container': '@graph' },
+        refreshService: {
+          '@id': 'cred:refreshService',
+          '@type': '@id',
+          '@context': {
+            '@version': 1.1,
+            '@protected': true,
+            id: '@id',
+            type: '@type',
+            cred: CRED,
+            ManualRefreshService2018: 'cred:ManualRefreshService2018',
+          },
+        },
+        termsOfUse: { '@id': 'cred:termsOfUse', '@type': '@id' },
+        validFrom: { '@id': 'cred:validFrom', '@type': 'xsd:dateTime' },
+        validUntil: { '@id': 'cred:validUntil', '@type': 'xsd:dateTime' },
+      },
+    },
+    VerifiablePresentation: {
+      '@id': `${CRED}VerifiablePresentation`,
+      '@context': {
+        '@version': 1.1,
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        cred: CRED,
+        sec: SEC,
+        holder: { '@id': 'cred:holder', '@type': '@id' },
+        proof: { '@id': 'sec:proof', '@type': '@id', '@container': '@graph' },
+        verifiableCredential: { '@id': 'cred:verifiableCredential', '@type': '@id', '@container': '@graph' },
+      },
+    },
+    EcdsaSecp256k1Signature2019: legacySignatureSuite('EcdsaSecp256k1Signature2019'),
+    EcdsaSecp256r1Signature2019: legacySignatureSuite('EcdsaSecp256r1Signature2019'),
+    Ed25519Signature2018: legacySignatureSuite('Ed25519Signature2018'),
+    RsaSignature2018: legacySignatureSuite('RsaSignature2018'),
+    proof: graphProof,
+  },
+};
+
+const dataIntegrityProof = (cryptosuite: any) => ({
+  '@id': `${SEC}DataIntegrityProof`,
+  '@context': {
+    ...proofTerms,
+    cryptosuite,
+    previousProof: { '@id': `${SEC}previousProof`, '@type': '@id' },
+  },
+});
+
+const STATUS = 'https://www.w3.org/ns/credentials/status#';
+
+const credentialsV2 = {
+  '@context': {
+    '@protected': true,
+    '@vocab': 'https://www.w3.org/ns/credentials/issuer-dependent#',
+    id: '@id',
+    type: '@type',
+    description: 'https://schema.org/description',
+    digestMultibase: { '@id': `${SEC}digestMultibase`, '@type': `${SEC}multibase` },
+    digestSRI: { '@id': `${CRED}digestSRI`, '@type': `${CRED}sriString` },
+    mediaType: { '@id': 'https://schema.org/encodingFormat' },
+    name: 'https://schema.org/name',
+    VerifiableCredential: {
+      '@id': `${CRED}VerifiableCredential`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        confidenceMethod: { '@id': `${CRED}confidenceMethod`, '@type': '@id' },
+        credentialSchema: { '@id': `${CRED}credentialSchema`, '@type': '@id' },
+        credentialStatus: { '@id': `${CRED}credentialStatus`, '@type': '@id' },
+        credentialSubject: { '@id': `${CRED}credentialSubject`, '@type': '@id' },
+        description: 'https://schema.org/description',
+        evidence: { '@id': `${CRED}evidence`, '@type': '@id' },
+        issuer: { '@id': `${CRED}issuer`, '@type': '@id' },
+        name: 'https://schema.org/name',
+        proof: graphProof,
+        refreshService: { '@id': `${CRED}refreshService`, '@type': '@id' },
+        relatedResource: { '@id': `${CRED}relatedResource`, '@type': '@id' },
+        renderMethod: { '@id': `${CRED}renderMethod`, '@type': '@id' },
+        termsOfUse: { '@id': `${CRED}termsOfUse`, '@type': '@id' },
+        validFrom: { '@id': `${CRED}validFrom`, '@type': XSD_DATE_TIME },
+        validUntil: { '@id': `${CRED}validUntil`, '@type': XSD_DATE_TIME },
+      },
+    },
+    EnvelopedVerifiableCredential: `${CRED}EnvelopedVerifiableCredential`,
+    VerifiablePresentation: {
+      '@id': `${CRED}VerifiablePresentation`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        holder: { '@id': `${CRED}holder`, '@type': '@id' },
+        proof: graphProof,
+        termsOfUse: { '@id': `${CRED}termsOfUse`, '@type': '@id' },
+        verifiableCredential: { '@id': `${CRED}verifiableCredential`, '@type': '@id', '@container': '@graph', '@context': null },
+      },
+    },
+    EnvelopedVerifiablePresentation: `${CRED}EnvelopedVerifiablePresentation`,
+    JsonSchemaCredential: `${CRED}JsonSchemaCredential`,
+    JsonSchema: {
+      '@id': `${CRED}JsonSchema`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        jsonSchema: { '@id': `${CRED}jsonSchema`, '@type': '@json' },
+      },
+    },
+    BitstringStatusListCredential: `${STATUS}BitstringStatusListCredential`,
+    BitstringStatusList: {
+      '@id': `${STATUS}BitstringStatusList`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        encodedList: { '@id': `${STATUS}encodedList`, '@type': `${SEC}multibase` },
+        statusMessage: {
+          '@id': `${STATUS}statusMessage`,
+          '@context': {
+            '@protected': true,
+            id: '@id',
+            type: '@type',
+            message: `${STATUS}message`,
+            status: `${STATUS}status`,
+          },
+        },
+        statusPurpose: `${STATUS}statusPurpose`,
+        statusReference: { '@id': `${STATUS}statusReference`, '@type': '@id' },
+        statusSize: { '@id': `${STATUS}statusSize`, '@type': 'http://www.w3.org/2001/XMLSchema#positiveInteger' },
+        ttl: `${STATUS}ttl`,
+      },
+    },
+    BitstringStatusListEntry: {
+      '@id': `${STATUS}BitstringStatusListEntry`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        statusListCredential: { '@id': `${STATUS}statusListCredential`, '@type': '@id' },
+        statusListIndex: `${STATUS}statusListIndex`,
+        statusPurpose: `${STATUS}statusPurpose`,
+      },
+    },
+    DataIntegrityProof: dataIntegrityProof({ '@id': `${SEC}cryptosuite`, '@type': `${SEC}cryptosuiteString` }),
+  },
+};
+
+const ed25519Signature2020 = {
+  '@context': {
+    id: '@id',
+    type: '@type',
+    '@protected': true,
+    proof: graphProof,
+    Ed25519VerificationKey2020: {
+      '@id': `${SEC}Ed25519VerificationKey2020`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        controller: { '@id': `${SEC}controller`, '@type': '@id' },
+        revoked: { '@id': `${SEC}revoked`, '@type': XSD_DATE_TIME },
+        publicKeyMultibase: { '@id': `${SEC}publicKeyMultibase`, '@type': `${SEC}multibase` },
+      },
+    },
+    Ed25519Signature2020: {
+      '@id': `${SEC}Ed25519Signature2020`,
+      '@context': proofTerms,
+    },
+  },
+};
+
+const dataIntegrityV1 = {
+  '@context': {
+    id: '@id',
+    type: '@type',
+    '@protected': true,
+    proof: graphProof,
+    DataIntegrityProof: {
+      '@id': `${SEC}DataIntegrityProof`,
+      '@context': { ...proofTerms, cryptosuite: `${SEC}cryptosuite` },
+    },
+  },
+};
+
+const dataIntegrityV2 = {
+  '@context': {
+    id: '@id',
+    type: '@type',
+    '@protected': true,
+    proof: graphProof,
+    DataIntegrityProof: dataIntegrityProof({ '@id': `${SEC}cryptosuite`, '@type': `${SEC}cryptosuiteString` }),
+  },
+};
+
+const STATUS_LIST_2021 = 'https://w3id.org/vc/status-list#';
+
+const statusList2021 = {
+  '@context': {
+    '@protected': true,
+    StatusList2021Credential: {
+      '@id': `${STATUS_LIST_2021}StatusList2021Credential`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        description: 'http://schema.org/description',
+        name: 'http://schema.org/name',
+      },
+    },
+    StatusList2021: {
+      '@id': `${STATUS_LIST_2021}StatusList2021`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        statusPurpose: `${STATUS_LIST_2021}statusPurpose`,
+        encodedList: `${STATUS_LIST_2021}encodedList`,
+      },
+    },
+    StatusList2021Entry: {
+      '@id': `${STATUS_LIST_2021}StatusList2021Entry`,
+      '@context': {
+        '@protected': true,
+        id: '@id',
+        type: '@type',
+        statusPurpose: `${STATUS_LIST_2021}statusPurpose`,
+        statusListIndex: `${STATUS_LIST_2021}statusListIndex`,
+        statusListCredential: { '@id': `${STATUS_LIST_2021}statusListCredential`, '@type': '@id' },
+      },
+    },
+  },
+};
+
+/**
+ * Bundled context documents by URL
+ */
+export const BUNDLED_CONTEXTS: Record<string, any> = {
+  [CREDENTIALS_V1_CONTEXT]: credentialsV1,
+  [CREDENTIALS_V2_CONTEXT]: credentialsV2,
+  [ED25519_2020_CONTEXT]: ed25519Signature2020,
+  [DATA_INTEGRITY_V1_CONTEXT]: dataIntegrityV1,
+  [DATA_INTEGRITY_V2_CONTEXT]: dataIntegrityV2,
+  [STATUS_LIST_2021_CONTEXT]: statusList2021,
+};
@@ -0,0 +1,101 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { describe, expect, it } from 'vitest';
+import { bytesToUtf8, concatBytes, decodeBase64Url } from './encoding';
+import { canonicalize, createProof, ProofSigner, ProofVerifier, splitProof, verifyProof } from './proofs';
+
+// Stand-in key: the "signature" is a keyed hash of the data
+const KEY = new TextEncoder().encode('test key');
+const sign = async (data: Uint8Array) => sha256(concatBytes(KEY, data));
+const verify: ProofVerifier = async (data, signature) =>
+  Buffer.from(await sign(data)).equals(Buffer.from(signature));
+
+const signer = (algorithm: string): ProofSigner => ({ verificationMethod: 'did:example:issuer#key-1', algorithm, sign });
+
+const credential = {
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  type: ['VerifiableCredential'],
+  issuer: 'did:example:issuer',
+  credentialSubject: { id: 'did:example:holder', email: 'holder@example.com' },
+};
+
+describe('canonicalize', () => {
+  it('sorts keys and drops undefined members', () => {
+    expect(canonicalize({ b: [1, undefined, 'x'], a: { d: true, c: null }, e: undefined })).toBe(
+      '{"a":{"c":null,"d":true},"b":[1,null,"x"]}'
+    );
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => canonicalize({ value: Infinity })).toThrow('Cannot canonicalize non-finite numbers');
+  });
+});
+
+describe('proofs', () => {
+  it('creates an eddsa-jcs-2022 proof by default', async () => {
+    const proof = await createProof(credential, signer('EdDSA'), {
+      proofPurpose: 'assertionMethod',
+      created: '2024-01-01T00:00:00Z',
+    });
+
+    expect(proof).toMatchObject({
+      type: 'DataIntegrityProof',
+      cryptosuite: 'eddsa-jcs-2022',
+      created: '2024-01-01T00:00:00Z',
+      verificationMethod: 'did:example:issuer#key-1',
+      proofPurpose: 'assertionMethod',
+    });
+    expect(await verifyProof(credential, proof, verify)).toBe(true);
+  });
+
+  it('creates an eddsa-rdfc-2022 proof over the canonical RDF', async () => {
+    const proof = await createProof(credential, signer('EdDSA'), { proofPurpose: 'assertionMethod', suite: 'eddsa-rdfc-2022' });
+
+    expect(proof.cryptosuite).toBe('eddsa-rdfc-2022');
+    expect(await verifyProof(credential, proof, verify)).toBe(true);
+    // Key order does not change the RDF dataset
+    const { issuer, ...rest } = credential;
+    expect(await verifyProof({ issuer, ...rest }, proof, verify)).toBe(true);
+  });
+
+  it('creates a detached JWS for other keys', async () => {
+    const proof = await createProof(credential, signer('ES256K'), { proofPurpose: 'authentication', challenge: 'nonce' });
+    const [header, payload] = proof.jws.split('.');
+
+    expect(proof).toMatchObject({ type: 'JsonWebSignature2020', challenge: 'nonce' });
+    expect(JSON.parse(bytesToUtf8(decodeBase64Url(header)))).toEqual({ alg: 'ES256K', b64: false, crit: ['b64'] });
+    expect(payload).toBe('');
+    expect(await verifyProof(credential, proof, verify)).toBe(true);
+  });
+
+  it('rejects a suite for keys other than Ed25519', async () => {
+    await expect(
+      createProof(credential, signer('ES256K'), { proofPurpose: 'assertionMethod', suite: 'eddsa-rdfc-2022' })
+    ).rejects.toThrow('eddsa-rdfc-2022 proofs require an Ed25519 key');
+  });
+
+  it('fails for a changed document', async () => {
+    const proof = await createProof(credential, signer('EdDSA'), { proofPurpose: 'assertionMethod' });
+    const changed = { ...credential, credentialSubject: { ...credential.credentialSubject, email: 'attacker@example.com' } };
+
+    expect(await verifyProof(changed, proof, verify)).toBe(false);
+  });
+
+  it('fails for changed proof options', async () => {
+    const secured = {
+      ...credential,
+      proof: await createProof(credential, signer('EdDSA'), { proofPurpose: 'assertionMethod' }),
+    };
+    const { unsecuredDocument, proof } = splitProof(secured);
+
+    expect(await verifyProof(unsecuredDocument, { ...proof, proofPurpose: 'authentication' }, verify)).toBe(false);
+  });
+
+  it('rejects unsupported proof types and cryptosuites', async () => {
+    await expect(verifyProof(credential, { type: 'RsaSignature2018', jws: 'x' }, verify)).rejects.toThrow(
+      'Unsupported proof type: RsaSignature2018'
+    );
+    await expect(
+      verifyProof(credential, { type: 'DataIntegrityProof', cryptosuite: 'ecdsa-rdfc-2019', proofValue: 'z1' }, verify)
+    ).rejects.toThrow('Unsupported cryptosuite: ecdsa-rdfc-2019');
+  });
+});
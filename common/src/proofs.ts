@@ -0,0 +1,230 @@
+import { sha256 } from '@noble/hashes/sha256';
+import {
+  bytesToUtf8,
+  concatBytes,
+  decodeBase64Url,
+  decodeMultibase,
+  encodeBase64Url,
+  encodeMultibase,
+  utf8ToBytes,
+} from './encoding';
+import { canonize } from './jsonld';
+import { DATA_INTEGRITY_V2_CONTEXT, ED25519_2020_CONTEXT } from './jsonldContexts';
+
+/**
+ * Linked data proof suites for credentials and presentations
+ * Documents are canonicalized with JCS (RFC 8785) before hashing, or with
+ * RDFC-1.0 for eddsa-rdfc-2022 and Ed25519Signature2020 proofs. Keys never
+ * reach this module: the client and server sign and check the hash data with
+ * their own key handling, through a ProofSigner and a ProofVerifier.
+ */
+
+/**
+ * Proof types that can be verified
+ */
+export const SUPPORTED_PROOF_TYPES = [
+  'DataIntegrityProof',
+  'Ed25519Signature2020',
+  'JsonWebSignature2020',
+  'Ed25519Signature2018',
+  'EcdsaSecp256k1Signature2019',
+];
+
+/**
+ * Cryptosuites that can be verified for DataIntegrityProof
+ */
+export const SUPPORTED_CRYPTOSUITES = ['eddsa-jcs-2022', 'eddsa-rdfc-2022'];
+
+/**
+ * Proof suites Ed25519 keys can sign with
+ * eddsa-jcs-2022 hashes the JSON form of the document; eddsa-rdfc-2022 and
+ * Ed25519Signature2020 hash its canonical RDF, so the document's contexts must
+ * define every term it uses.
+ */
+export type ProofSuite = 'eddsa-jcs-2022' | 'eddsa-rdfc-2022' | 'Ed25519Signature2020';
+
+export const PROOF_SUITES: ProofSuite[] = ['eddsa-jcs-2022', 'eddsa-rdfc-2022', 'Ed25519Signature2020'];
+
+/**
+ * Context that defines the proof type of a suite, for documents whose base
+ * context does not (credentials v1)
+ */
+export const PROOF_SUITE_CONTEXTS: Record<ProofSuite, string> = {
+  'eddsa-jcs-2022': DATA_INTEGRITY_V2_CONTEXT,
+  'eddsa-rdfc-2022': DATA_INTEGRITY_V2_CONTEXT,
+  Ed25519Signature2020: ED25519_2020_CONTEXT,
+};
+
+/**
+ * Options for creating a proof
+ */
+export interface CreateProofOptions {
+  proofPurpose: 'assertionMethod' | 'authentication';
+  challenge?: string;
+  domain?: string;
+  created?: string;
+  suite?: ProofSuite; // Ed25519 keys only; eddsa-jcs-2022 if unset
+  mandatoryPointers?: string[]; // BLS12-381 keys only; JSON pointers every derived proof must reveal
+}
+
+/**
+ * Key that signs a proof
+ */
+export interface ProofSigner {
+  verificationMethod: string; // Verification method ID (did#fragment)
+  algorithm: string; // JWS algorithm of the key: EdDSA, or ES256K for a detached JWS
+  sign(data: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Check a signature over proof data against the verification method's public key
+ */
+export type ProofVerifier = (data: Uint8Array, signature: Uint8Array) => Promise<boolean>;
+
+/**
+ * Canonicalize a JSON value using the JSON Canonicalization Scheme (RFC 8785)
+ * @param value - JSON-compatible value
+ */
+export function canonicalize(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize non-finite numbers');
+    }
+    return JSON.stringify(value);
+  }
+
+  if (typeof value.toJSON === 'function') {
+    return canonicalize(value.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Split a secured document into its unsecured form and proof
+ * @param document - Document with a proof property
+ */
+export function splitProof<T extends { proof?: any }>(document: T): {
+  unsecuredDocument: Omit<T, 'proof'>;
+  proof: any;
+} {
+  const { proof, ...unsecuredDocument } = document;
+  return { unsecuredDocument, proof };
+}
+
+/**
+ * Check whether a proof signs the canonical RDF of the document rather than its JCS form
+ * @param proof - Proof or proof options
+ */
+export function usesRdfCanonicalization(proof: any): boolean {
+  return (
+    proof.type === 'Ed25519Signature2020' ||
+    (proof.type === 'DataIntegrityProof' && proof.cryptosuite === 'eddsa-rdfc-2022')
+  );
+}
+
+/**
+ * Compute the data that a proof signs:
+ * SHA-256(canonical proof options) || SHA-256(canonical document)
+ * @param unsecuredDocument - Document without its proof
+ * @param proofOptions - Proof without its signature value
+ */
+export function createHashData(unsecuredDocument: any, proofOptions: any): Uint8Array {
+  const options = { ...proofOptions };
+  if (unsecuredDocument['@context'] && !options['@context']) {
+    options['@context'] = unsecuredDocument['@context'];
+  }
+
+  const canonicalForm = usesRdfCanonicalization(options) ? canonize : canonicalize;
+  const proofHash = sha256(utf8ToBytes(canonicalForm(options)));
+  const documentHash = sha256(utf8ToBytes(canonicalForm(unsecuredDocument)));
+  return concatBytes(proofHash, documentHash);
+}
+
+/**
+ * Create a proof over a document
+ * EdDSA signers produce a proof of the requested suite (an eddsa-jcs-2022
+ * DataIntegrityProof by default); other signers produce a JsonWebSignature2020
+ * proof with a detached JWS.
+ * @param unsecuredDocument - Document without a proof
+ * @param signer - Key that signs the proof
+ * @param options - Proof purpose, suite and optional challenge/domain binding
+ */
+export async function createProof(unsecuredDocument: any, signer: ProofSigner, options: CreateProofOptions): Promise<any> {
+  const isEd25519 = signer.algorithm === 'EdDSA';
+  const suite = options.suite || 'eddsa-jcs-2022';
+
+  if (options.suite && !isEd25519) {
+    throw new Error(`${options.suite} proofs require an Ed25519 key`);
+  }
+
+  const proofOptions: Record<string, any> = {
+    type: isEd25519 ? (suite === 'Ed25519Signature2020' ? suite : 'DataIntegrityProof') : 'JsonWebSignature2020',
+    ...(isEd25519 && suite !== 'Ed25519Signature2020' && { cryptosuite: suite }),
+    created: options.created || new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    verificationMethod: signer.verificationMethod,
+    proofPurpose: options.proofPurpose,
+    ...(options.challenge && { challenge: options.challenge }),
+    ...(options.domain && { domain: options.domain }),
+  };
+
+  const hashData = createHashData(unsecuredDocument, proofOptions);
+
+  if (isEd25519) {
+    const signature = await signer.sign(hashData);
+    return { ...proofOptions, proofValue: encodeMultibase(signature) };
+  }
+
+  const encodedHeader = encodeBase64Url(
+    utf8ToBytes(JSON.stringify({ alg: signer.algorithm, b64: false, crit: ['b64'] }))
+  );
+  const signature = await signer.sign(concatBytes(utf8ToBytes(`${encodedHeader}.`), hashData));
+  return { ...proofOptions, jws: `${encodedHeader}..${encodeBase64Url(signature)}` };
+}
+
+/**
+ * Verify a single proof over a document
+ * @param unsecuredDocument - Document without its proof
+ * @param proof - The proof to verify
+ * @param verify - Signature check with the public key of the proof's verification method
+ */
+export async function verifyProof(unsecuredDocument: any, proof: any, verify: ProofVerifier): Promise<boolean> {
+  if (!SUPPORTED_PROOF_TYPES.includes(proof.type)) {
+    throw new Error(`Unsupported proof type: ${proof.type}`);
+  }
+
+  if (proof.type === 'DataIntegrityProof' && !SUPPORTED_CRYPTOSUITES.includes(proof.cryptosuite)) {
+    throw new Error(`Unsupported cryptosuite: ${proof.cryptosuite}`);
+  }
+
+  // Detached JWS (JsonWebSignature2020 and the 2018/2019 suites)
+  if (proof.jws) {
+    const { jws, ...proofOptions } = proof;
+    const [encodedHeader, , encodedSignature] = jws.split('.');
+    const header = JSON.parse(bytesToUtf8(decodeBase64Url(encodedHeader)));
+
+    if (header.b64 !== false) {
+      throw new Error('Only detached unencoded-payload JWS proofs are supported');
+    }
+
+    const hashData = createHashData(unsecuredDocument, proofOptions);
+    return verify(concatBytes(utf8ToBytes(`${encodedHeader}.`), hashData), decodeBase64Url(encodedSignature));
+  }
+
+  if (proof.proofValue) {
+    const { proofValue, ...proofOptions } = proof;
+    const hashData = createHashData(unsecuredDocument, proofOptions);
+    return verify(hashData, decodeMultibase(proofValue));
+  }
+
+  throw new Error('Proof has no signature value');
+}
@@ -0,0 +1,281 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeQuads, Quad, RdfTerm } from './rdfc';
+
+/**
+ * RDFC-1.0 test vectors
+ * The cases follow the W3C rdf-canon test suite (https://w3c.github.io/rdf-canon/tests/)
+ * and the examples of the RDFC-1.0 specification; the expected documents are the output
+ * of the reference implementation.
+ */
+
+interface Vector {
+  name: string;
+  input: string[]; // N-Quads lines
+  expected: string[]; // Canonical N-Quads lines
+}
+
+const VECTORS: Vector[] = [
+  {
+    name: 'no blank nodes',
+    input: [
+      '<http://example.com/id1> <http://example.com/p1> "Hello" .',
+      '<http://example.com/id1> <http://example.com/p1> <http://example.com/id2> .',
+      '<http://example.com/id1> <http://example.com/p1> <http://example.com/id2> .',
+    ],
+    expected: [
+      '<http://example.com/id1> <http://example.com/p1> "Hello" .',
+      '<http://example.com/id1> <http://example.com/p1> <http://example.com/id2> .',
+    ],
+  },
+  {
+    name: 'unique hashes',
+    input: [
+      '<http://example.com/#p> <http://example.com/#q> _:e0 .',
+      '<http://example.com/#p> <http://example.com/#r> _:e1 .',
+      '_:e0 <http://example.com/#s> <http://example.com/#u> .',
+      '_:e1 <http://example.com/#t> <http://example.com/#u> .',
+    ],
+    expected: [
+      '<http://example.com/#p> <http://example.com/#q> _:c14n0 .',
+      '<http://example.com/#p> <http://example.com/#r> _:c14n1 .',
+      '_:c14n0 <http://example.com/#s> <http://example.com/#u> .',
+      '_:c14n1 <http://example.com/#t> <http://example.com/#u> .',
+    ],
+  },
+  {
+    name: 'shared hashes',
+    input: [
+      '<http://example.com/#p> <http://example.com/#q> _:e0 .',
+      '<http://example.com/#p> <http://example.com/#q> _:e1 .',
+      '_:e0 <http://example.com/#p> _:e2 .',
+      '_:e1 <http://example.com/#p> _:e3 .',
+      '_:e2 <http://example.com/#r> _:e3 .',
+    ],
+    expected: [
+      '<http://example.com/#p> <http://example.com/#q> _:c14n2 .',
+      '<http://example.com/#p> <http://example.com/#q> _:c14n3 .',
+      '_:c14n0 <http://example.com/#r> _:c14n1 .',
+      '_:c14n2 <http://example.com/#p> _:c14n1 .',
+      '_:c14n3 <http://example.com/#p> _:c14n0 .',
+    ],
+  },
+  {
+    name: 'duplicate triple with blank node',
+    input: [
+      '_:b0 <http://example.com/p> "value" .',
+      '_:b0 <http://example.com/p> "value" .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.com/p> "value" .',
+    ],
+  },
+  {
+    name: 'self link',
+    input: [
+      '_:b0 <http://example.org/vocab#self> _:b0 .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#self> _:c14n0 .',
+    ],
+  },
+  {
+    name: 'disjoint self links',
+    input: [
+      '_:b0 <http://example.org/vocab#self> _:b0 .',
+      '_:b1 <http://example.org/vocab#self> _:b1 .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#self> _:c14n0 .',
+      '_:c14n1 <http://example.org/vocab#self> _:c14n1 .',
+    ],
+  },
+  {
+    name: 'diamond',
+    input: [
+      '_:a <http://example.org/vocab#x> _:b .',
+      '_:a <http://example.org/vocab#x> _:c .',
+      '_:b <http://example.org/vocab#x> _:d .',
+      '_:c <http://example.org/vocab#x> _:d .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#x> _:c14n2 .',
+      '_:c14n0 <http://example.org/vocab#x> _:c14n3 .',
+      '_:c14n2 <http://example.org/vocab#x> _:c14n1 .',
+      '_:c14n3 <http://example.org/vocab#x> _:c14n1 .',
+    ],
+  },
+  {
+    name: 'circle of 2',
+    input: [
+      '_:b0 <http://example.org/vocab#next> _:b1 .',
+      '_:b1 <http://example.org/vocab#next> _:b0 .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#next> _:c14n1 .',
+      '_:c14n1 <http://example.org/vocab#next> _:c14n0 .',
+    ],
+  },
+  {
+    name: 'double circle of 2',
+    input: [
+      '_:b0 <http://example.org/vocab#next> _:b1 .',
+      '_:b0 <http://example.org/vocab#prev> _:b1 .',
+      '_:b1 <http://example.org/vocab#next> _:b0 .',
+      '_:b1 <http://example.org/vocab#prev> _:b0 .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#next> _:c14n1 .',
+      '_:c14n0 <http://example.org/vocab#prev> _:c14n1 .',
+      '_:c14n1 <http://example.org/vocab#next> _:c14n0 .',
+      '_:c14n1 <http://example.org/vocab#prev> _:c14n0 .',
+    ],
+  },
+  {
+    name: 'circle of 3',
+    input: [
+      '_:b0 <http://example.org/vocab#next> _:b1 .',
+      '_:b1 <http://example.org/vocab#next> _:b2 .',
+      '_:b2 <http://example.org/vocab#next> _:b0 .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#next> _:c14n1 .',
+      '_:c14n1 <http://example.org/vocab#next> _:c14n2 .',
+      '_:c14n2 <http://example.org/vocab#next> _:c14n0 .',
+    ],
+  },
+  {
+    name: 'double circle of 3',
+    input: [
+      '_:b0 <http://example.org/vocab#next> _:b1 .',
+      '_:b0 <http://example.org/vocab#prev> _:b2 .',
+      '_:b1 <http://example.org/vocab#next> _:b2 .',
+      '_:b1 <http://example.org/vocab#prev> _:b0 .',
+      '_:b2 <http://example.org/vocab#next> _:b0 .',
+      '_:b2 <http://example.org/vocab#prev> _:b1 .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#next> _:c14n2 .',
+      '_:c14n0 <http://example.org/vocab#prev> _:c14n1 .',
+      '_:c14n1 <http://example.org/vocab#next> _:c14n0 .',
+      '_:c14n1 <http://example.org/vocab#prev> _:c14n2 .',
+      '_:c14n2 <http://example.org/vocab#next> _:c14n1 .',
+      '_:c14n2 <http://example.org/vocab#prev> _:c14n0 .',
+    ],
+  },
+  {
+    name: 'two circles of 3 with a shared point',
+    input: [
+      '_:a <http://example.org/vocab#p> _:b .',
+      '_:b <http://example.org/vocab#p> _:c .',
+      '_:c <http://example.org/vocab#p> _:a .',
+      '_:a <http://example.org/vocab#p> _:d .',
+      '_:d <http://example.org/vocab#p> _:e .',
+      '_:e <http://example.org/vocab#p> _:a .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#p> _:c14n1 .',
+      '_:c14n0 <http://example.org/vocab#p> _:c14n3 .',
+      '_:c14n1 <http://example.org/vocab#p> _:c14n2 .',
+      '_:c14n2 <http://example.org/vocab#p> _:c14n0 .',
+      '_:c14n3 <http://example.org/vocab#p> _:c14n4 .',
+      '_:c14n4 <http://example.org/vocab#p> _:c14n0 .',
+    ],
+  },
+  {
+    name: 'blank node named graph',
+    input: [
+      '_:s <http://example.org/vocab#p> "x" _:g .',
+      '_:g <http://example.org/vocab#label> "graph" .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#p> "x" _:c14n1 .',
+      '_:c14n1 <http://example.org/vocab#label> "graph" .',
+    ],
+  },
+  {
+    name: 'isomorphic default and node named graph',
+    input: [
+      '_:b0 <http://example.org/vocab#p> _:b1 .',
+      '_:b2 <http://example.org/vocab#p> _:b3 _:g .',
+    ],
+    expected: [
+      '_:c14n0 <http://example.org/vocab#p> _:c14n4 _:c14n1 .',
+      '_:c14n3 <http://example.org/vocab#p> _:c14n2 .',
+    ],
+  },
+  {
+    name: 'literals',
+    input: [
+      '<http://example.com/s> <http://example.com/p> "chat"@fr .',
+      '<http://example.com/s> <http://example.com/p> "42"^^<http://www.w3.org/2001/XMLSchema#integer> .',
+      '<http://example.com/s> <http://example.com/p> "plain"^^<http://www.w3.org/2001/XMLSchema#string> .',
+      '<http://example.com/s> <http://example.com/p> "tab\\there \\"quoted\\" back\\\\slash\\nnew\\u0001bell\\u007F" .',
+    ],
+    expected: [
+      '<http://example.com/s> <http://example.com/p> "42"^^<http://www.w3.org/2001/XMLSchema#integer> .',
+      '<http://example.com/s> <http://example.com/p> "chat"@fr .',
+      '<http://example.com/s> <http://example.com/p> "plain" .',
+      '<http://example.com/s> <http://example.com/p> "tab\\there \\"quoted\\" back\\\\slash\\nnew\\u0001bell\\u007F" .',
+    ],
+  },
+];
+
+const TERM = /<([^>]*)>|(_:[A-Za-z0-9]+)|"((?:[^"\\]|\\.)*)"(?:@([A-Za-z0-9-]+)|\^\^<([^>]*)>)?/g;
+
+const UNESCAPES: Record<string, string> = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+
+const unescapeLiteral = (value: string) =>
+  value.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (_, escape: string) =>
+    escape.length > 1 ? String.fromCodePoint(parseInt(escape.slice(1), 16)) : UNESCAPES[escape]
+  );
+
+/**
+ * Parse N-Quads lines into a dataset
+ * Covers the N-Quads the vectors use: IRIs, blank nodes and literals, one quad per line.
+ */
+function parseNQuads(lines: string[]): Quad[] {
+  return lines.map((line) => {
+    const terms: RdfTerm[] = [...line.matchAll(TERM)].map(([, iri, blankNode, literal, language, datatype]) => {
+      if (iri !== undefined) {
+        return { termType: 'NamedNode', value: iri };
+      }
+      if (blankNode !== undefined) {
+        return { termType: 'BlankNode', value: blankNode };
+      }
+      return {
+        termType: 'Literal',
+        value: unescapeLiteral(literal),
+        ...(language ? { language } : { datatype: datatype || 'http://www.w3.org/2001/XMLSchema#string' }),
+      };
+    });
+    const [subject, predicate, object, graph = { termType: 'DefaultGraph', value: '' }] = terms;
+    return { subject, predicate, object, graph };
+  });
+}
+
+/**
+ * Give every blank node a new label and reverse the order of the quads
+ */
+function relabel(lines: string[]): string[] {
+  return lines.map((line) => line.replace(/_:([A-Za-z0-9]+)/g, '_:other$1x')).reverse();
+}
+
+const document = (lines: string[]) => lines.map((line) => `${line}\n`).join('');
+
+describe('RDFC-1.0', () => {
+  it.each(VECTORS)('canonicalizes $name', ({ input, expected }) => {
+    expect(canonicalizeQuads(parseNQuads(input))).toBe(document(expected));
+  });
+
+  it.each(VECTORS)('canonicalizes $name regardless of blank node labels and quad order', ({ input, expected }) => {
+    expect(canonicalizeQuads(parseNQuads(relabel(input)))).toBe(document(expected));
+  });
+
+  it('gives up on a dataset that needs too many permutations', () => {
+    // A clique of blank nodes is symmetric under every permutation of its nodes
+    const nodes = Array.from({ length: 10 }, (_, i) => `_:n${i}`);
+    const clique = nodes.flatMap((a) => nodes.filter((b) => b !== a).map((b) => `${a} <http://example.com/#p> ${b} .`));
+
+    expect(() => canonicalizeQuads(parseNQuads(clique))).toThrow('RDF canonicalization exceeded its work limit');
+  });
+});
@@ -0,0 +1,330 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { utf8ToBytes } from './encoding';
+
+/**
+ * RDF Dataset Canonicalization (RDFC-1.0)
+ * Blank node labels in an RDF dataset are arbitrary, so the same data can serialize in
+ * many ways. RDFC-1.0 relabels blank nodes from hashes of the quads around them, which
+ * gives one canonical N-Quads document per dataset for proofs to sign.
+ */
+
+const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+
+// Upper bound on Hash N-Degree Quads runs, so crafted datasets cannot stall the wallet or the server
+const MAX_DEEP_ITERATIONS = 1000;
+
+/**
+ * RDF term (IRI, blank node, literal or the default graph)
+ */
+export interface RdfTerm {
+  termType: 'NamedNode' | 'BlankNode' | 'Literal' | 'DefaultGraph';
+  value: string; // IRI, blank node label with its _: prefix, or lexical form
+  datatype?: string;
+  language?: string;
+}
+
+/**
+ * RDF quad
+ */
+export interface Quad {
+  subject: RdfTerm;
+  predicate: RdfTerm;
+  object: RdfTerm;
+  graph: RdfTerm;
+}
+
+// N-Quads escapes of literal characters (canonical form)
+const ESCAPES: Record<string, string> = {
+  '"': '\\"',
+  '\\': '\\\\',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\b': '\\b',
+  '\f': '\\f',
+};
+
+/**
+ * Escape a literal's lexical form for canonical N-Quads
+ * Other control characters (U+0000 to U+001F and U+007F) become \uXXXX escapes.
+ */
+function escapeLiteral(value: string): string {
+  let escaped = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    escaped +=
+      ESCAPES[char] ?? (code < 0x20 || code === 0x7f ? `\\u${code.toString(16).toUpperCase().padStart(4, '0')}` : char);
+  }
+  return escaped;
+}
+
+/**
+ * Serialize a term in canonical N-Quads form
+ */
+function serializeTerm(term: RdfTerm): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return `<${term.value}>`;
+    case 'BlankNode':
+      return term.value;
+    case 'Literal':
+      if (term.language) {
+        return `"${escapeLiteral(term.value)}"@${term.language}`;
+      }
+      return term.datatype && term.datatype !== XSD_STRING
+        ? `"${escapeLiteral(term.value)}"^^<${term.datatype}>`
+        : `"${escapeLiteral(term.value)}"`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Serialize a quad as a canonical N-Quads line
+ * @param quad - Quad to serialize
+ */
+export function serializeQuad(quad: Quad): string {
+  const graph = quad.graph.termType === 'DefaultGraph' ? '' : ` ${serializeTerm(quad.graph)}`;
+  return `${serializeTerm(quad.subject)} ${serializeTerm(quad.predicate)} ${serializeTerm(quad.object)}${graph} .\n`;
+}
+
+function sha256Hex(value: string): string {
+  return bytesToHex(sha256(utf8ToBytes(value)));
+}
+
+/**
+ * Issues new blank node identifiers in order of first request
+ */
+class IdentifierIssuer {
+  private counter = 0;
+  readonly issued = new Map<string, string>();
+
+  constructor(private readonly prefix: string) {}
+
+  getId(existing: string): string {
+    let issued = this.issued.get(existing);
+    if (!issued) {
+      issued = `${this.prefix}${this.counter++}`;
+      this.issued.set(existing, issued);
+    }
+    return issued;
+  }
+
+  has(existing: string): boolean {
+    return this.issued.has(existing);
+  }
+
+  clone(): IdentifierIssuer {
+    const copy = new IdentifierIssuer(this.prefix);
+    copy.counter = this.counter;
+    this.issued.forEach((value, key) => copy.issued.set(key, value));
+    return copy;
+  }
+}
+
+/**
+ * Yield every ordering of a list
+ */
+function* permutations<T>(items: T[]): Generator<T[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+  for (let i = 0; i < items.length; i++) {
+    const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+    for (const permutation of permutations(rest)) {
+      yield [items[i], ...permutation];
+    }
+  }
+}
+
+/**
+ * Issue canonical blank node labels for an RDF dataset with RDFC-1.0 (SHA-256)
+ * @param quads - Dataset; blank node labels are arbitrary
+ * @returns Canonical label (_:c14nN) of each blank node label in the dataset
+ */
+export function issueCanonicalLabels(quads: Quad[]): Map<string, string> {
+  const blankNodeQuads = new Map<string, Quad[]>();
+  for (const quad of quads) {
+    for (const term of [quad.subject, quad.object, quad.graph]) {
+      if (term.termType === 'BlankNode') {
+        const related = blankNodeQuads.get(term.value) ?? [];
+        if (!related.includes(quad)) {
+          related.push(quad);
+        }
+        blankNodeQuads.set(term.value, related);
+      }
+    }
+  }
+
+  const canonicalIssuer = new IdentifierIssuer('_:c14n');
+  const firstDegreeHashes = new Map<string, string>();
+  let deepIterations = 0;
+
+  const hashFirstDegreeQuads = (id: string): string => {
+    let hash = firstDegreeHashes.get(id);
+    if (!hash) {
+      const nquads = blankNodeQuads.get(id)!.map((quad) => {
+        const relabel = (term: RdfTerm): RdfTerm =>
+          term.termType === 'BlankNode' ? { ...term, value: term.value === id ? '_:a' : '_:z' } : term;
+        return serializeQuad({
+          subject: relabel(quad.subject),
+          predicate: quad.predicate,
+          object: relabel(quad.object),
+          graph: relabel(quad.graph),
+        });
+      });
+      hash = sha256Hex(nquads.sort().join(''));
+      firstDegreeHashes.set(id, hash);
+    }
+    return hash;
+  };
+
+  const hashRelatedBlankNode = (related: string, quad: Quad, issuer: IdentifierIssuer, position: string): string => {
+    const id = canonicalIssuer.has(related)
+      ? canonicalIssuer.getId(related)
+      : issuer.has(related)
+        ? issuer.getId(related)
+        : hashFirstDegreeQuads(related);
+    const predicate = position === 'g' ? '' : `<${quad.predicate.value}>`;
+    return sha256Hex(`${position}${predicate}${id}`);
+  };
+
+  const hashNDegreeQuads = (id: string, issuer: IdentifierIssuer): { hash: string; issuer: IdentifierIssuer } => {
+    if (++deepIterations > MAX_DEEP_ITERATIONS) {
+      throw new Error('RDF canonicalization exceeded its work limit');
+    }
+
+    const relatedByHash = new Map<string, string[]>();
+    for (const quad of blankNodeQuads.get(id)!) {
+      const positions: [RdfTerm, string][] = [[quad.subject, 's'], [quad.object, 'o'], [quad.graph, 'g']];
+      for (const [term, position] of positions) {
+        if (term.termType === 'BlankNode' && term.value !== id) {
+          const hash = hashRelatedBlankNode(term.value, quad, issuer, position);
+          relatedByHash.set(hash, [...(relatedByHash.get(hash) ?? []), term.value]);
+        }
+      }
+    }
+
+    let dataToHash = '';
+    for (const hash of [...relatedByHash.keys()].sort()) {
+      dataToHash += hash;
+      let chosenPath = '';
+      let chosenIssuer: IdentifierIssuer | null = null;
+
+      for (const permutation of permutations(relatedByHash.get(hash)!)) {
+        let issuerCopy = issuer.clone();
+        let path = '';
+        const recursionList: string[] = [];
+        const worseThanChosen = () => chosenPath.length > 0 && path.length >= chosenPath.length && path > chosenPath;
+
+        let skip = false;
+        for (const related of permutation) {
+          if (canonicalIssuer.has(related)) {
+            path += canonicalIssuer.getId(related);
+          } else {
+            if (!issuerCopy.has(related)) {
+              recursionList.push(related);
+            }
+            path += issuerCopy.getId(related);
+          }
+          if (worseThanChosen()) {
+            skip = true;
+            break;
+          }
+        }
+        if (skip) {
+          continue;
+        }
+
+        for (const related of recursionList) {
+          const result = hashNDegreeQuads(related, issuerCopy);
+          path += `${issuerCopy.getId(related)}<${result.hash}>`;
+          issuerCopy = result.issuer;
+          if (worseThanChosen()) {
+            skip = true;
+            break;
+          }
+        }
+        if (skip) {
+          continue;
+        }
+
+        if (chosenPath.length === 0 || path < chosenPath) {
+          chosenPath = path;
+          chosenIssuer = issuerCopy;
+        }
+      }
+
+      dataToHash += chosenPath;
+      issuer = chosenIssuer!;
+    }
+
+    return { hash: sha256Hex(dataToHash), issuer };
+  };
+
+  // Blank nodes with a unique first degree hash get their canonical label directly
+  const blankNodesByHash = new Map<string, string[]>();
+  for (const id of blankNodeQuads.keys()) {
+    const hash = hashFirstDegreeQuads(id);
+    blankNodesByHash.set(hash, [...(blankNodesByHash.get(hash) ?? []), id]);
+  }
+
+  const sharedHashes: string[] = [];
+  for (const hash of [...blankNodesByHash.keys()].sort()) {
+    const ids = blankNodesByHash.get(hash)!;
+    if (ids.length === 1) {
+      canonicalIssuer.getId(ids[0]);
+    } else {
+      sharedHashes.push(hash);
+    }
+  }
+
+  // The rest are told apart by the paths to their neighbours
+  for (const hash of sharedHashes) {
+    const results: { hash: string; issuer: IdentifierIssuer }[] = [];
+    for (const id of blankNodesByHash.get(hash)!) {
+      if (canonicalIssuer.has(id)) {
+        continue;
+      }
+      const issuer = new IdentifierIssuer('_:b');
+      issuer.getId(id);
+      results.push(hashNDegreeQuads(id, issuer));
+    }
+
+    results.sort((a, b) => (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0));
+    for (const result of results) {
+      result.issuer.issued.forEach((_, existing) => canonicalIssuer.getId(existing));
+    }
+  }
+
+  return canonicalIssuer.issued;
+}
+
+/**
+ * Replace the blank node labels of an RDF dataset
+ * @param quads - Dataset
+ * @param labels - New label of each blank node label
+ */
+export function relabelQuads(quads: Quad[], labels: Map<string, string>): Quad[] {
+  const relabel = (term: RdfTerm): RdfTerm =>
+    term.termType === 'BlankNode' ? { ...term, value: labels.get(term.value) ?? term.value } : term;
+
+  return quads.map((quad) => ({
+    subject: relabel(quad.subject),
+    predicate: quad.predicate,
+    object: relabel(quad.object),
+    graph: relabel(quad.graph),
+  }));
+}
+
+/**
+ * Canonicalize an RDF dataset with RDFC-1.0 (SHA-256)
+ * @param quads - Dataset; blank node labels are arbitrary
+ * @returns Canonical N-Quads document
+ */
+export function canonicalizeQuads(quads: Quad[]): string {
+  const lines = relabelQuads(quads, issueCanonicalLabels(quads)).map(serializeQuad);
+  return [...new Set(lines)].sort().join('');
+}
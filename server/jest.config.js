@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  transform: {
+    // Transpile only: the type-check runs separately with tsc
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }]
+  },
+  // Run the shared package from source rather than its build
+  moduleNameMapper: {
+    '^hedera-id-wallet-common/(.*)$': '<rootDir>/../common/src/$1'
+  },
+  setupFiles: ['<rootDir>/src/test/env.ts']
+};
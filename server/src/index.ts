@@ -58,6 +58,12 @@ app.use(express.urlencoded({ extended: true }));
 // Request logging
 app.use(morgan('dev'));
 
+// Mock mirror node for the offline 'local' Hedera network
+// Mounted before rate limiting because the did:hedera resolver polls it
+if (isMockNetwork()) {
+  app.use('/mirror-node', mirrorNodeRoutes);
+}
+
 // Rate limiting
 const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -89,11 +95,20 @@ app.get('/health', (req: Request, res: Response) => {
 import authRoutes from './routes/auth';
 import webauthnRoutes from './routes/webauthn';
 import userRoutes from './routes/user';
+import issuerRoutes from './routes/issuer';
+import oid4vciRoutes, { wellKnownRouter as oid4vciWellKnownRoutes } from './routes/oid4vci';
+import statusRoutes from './routes/status';
+import mirrorNodeRoutes from './routes/mirrorNode';
+import { isMockNetwork } from './utils/hedera';
 
 // Register routes
 app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/webauthn', webauthnRoutes);
 app.use('/api/user', userRoutes);
+app.use('/api/issuer', issuerRoutes);
+app.use('/api/oid4vci', oid4vciRoutes);
+app.use('/api/status', statusRoutes);
+app.use('/.well-known', oid4vciWellKnownRoutes);
 
 // Serve static files in production
 if (process.env.NODE_ENV === 'production') {
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import { StorageAdapter } from './types';
+import { MemoryStorageAdapter } from './memory';
+import { SqliteStorageAdapter } from './sqlite';
+
+export type { StorageAdapter } from './types';
+export { MemoryStorageAdapter } from './memory';
+export { SqliteStorageAdapter } from './sqlite';
+
+/**
+ * Create a storage adapter from a DB_URI value
+ * - `sqlite:<path>` stores data in a SQLite file (relative to the working directory)
+ * - `sqlite::memory:` uses a throwaway SQLite database
+ * - `memory:` or no value keeps everything in process memory
+ * @param uri - Storage URI, defaults to process.env.DB_URI
+ */
+export function createStorageAdapter(uri: string | undefined = process.env.DB_URI): StorageAdapter {
+  if (!uri || uri === 'memory:') {
+    return new MemoryStorageAdapter();
+  }
+
+  if (uri.startsWith('sqlite:')) {
+    const filename = uri.slice('sqlite:'.length);
+
+    if (!filename) {
+      throw new Error('DB_URI must include a file path, e.g. sqlite:./data/hedera-wallet.db');
+    }
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+
+    return new SqliteStorageAdapter(filename);
+  }
+
+  throw new Error(`Unsupported DB_URI: ${uri}`);
+}
+
+export default createStorageAdapter;
@@ -0,0 +1,278 @@
+import {
+  User,
+  OtpRecord,
+  WebAuthnCredential,
+  IssuedCredentialRecord,
+  Session,
+  RecoveryRequest,
+  StatusListRecord
+} from '../../types';
+import { StorageAdapter } from './types';
+
+/**
+ * In-memory storage adapter
+ * Data is lost on restart; used for tests and when no DB_URI is configured.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private users: Map<string, User> = new Map();
+  private emailIndex: Map<string, string> = new Map(); // email -> userId
+  private phoneIndex: Map<string, string> = new Map(); // phone -> userId
+  private didIndex: Map<string, string> = new Map();   // did -> userId
+  private otpRecords: Map<string, OtpRecord> = new Map();
+  private webauthnCredentials: Map<string, WebAuthnCredential> = new Map();
+  private webauthnCredentialsByUser: Map<string, Set<string>> = new Map(); // userId -> Set<credentialId>
+  private issuedCredentials: Map<string, IssuedCredentialRecord[]> = new Map(); // userId -> issued credentials
+  private sessions: Map<string, Session> = new Map();
+  private recoveryRequests: Map<string, RecoveryRequest> = new Map();
+  private statusLists: Map<string, StatusListRecord> = new Map();
+
+  async init(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  // ==================== Users ====================
+
+  async getUser(id: string): Promise<User | null> {
+    return this.users.get(id) || null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const userId = this.emailIndex.get(email.toLowerCase());
+    return userId ? this.users.get(userId) || null : null;
+  }
+
+  async getUserByPhone(phone: string): Promise<User | null> {
+    const userId = this.phoneIndex.get(phone);
+    return userId ? this.users.get(userId) || null : null;
+  }
+
+  async getUserByDid(did: string): Promise<User | null> {
+    const userId = this.didIndex.get(did);
+    return userId ? this.users.get(userId) || null : null;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async saveUser(user: User): Promise<void> {
+    const existing = this.users.get(user.id);
+
+    // Drop stale index entries
+    if (existing?.email && existing.email.toLowerCase() !== user.email?.toLowerCase()) {
+      this.emailIndex.delete(existing.email.toLowerCase());
+    }
+    if (existing?.phone && existing.phone !== user.phone) {
+      this.phoneIndex.delete(existing.phone);
+    }
+    if (existing?.did && existing.did !== user.did) {
+      this.didIndex.delete(existing.did);
+    }
+
+    this.users.set(user.id, user);
+
+    if (user.email) {
+      this.emailIndex.set(user.email.toLowerCase(), user.id);
+    }
+    if (user.phone) {
+      this.phoneIndex.set(user.phone, user.id);
+    }
+    if (user.did) {
+      this.didIndex.set(user.did, user.id);
+    }
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const user = this.users.get(id);
+    if (!user) return;
+
+    if (user.email) {
+      this.emailIndex.delete(user.email.toLowerCase());
+    }
+    if (user.phone) {
+      this.phoneIndex.delete(user.phone);
+    }
+    if (user.did) {
+      this.didIndex.delete(user.did);
+    }
+
+    const credentialIds = this.webauthnCredentialsByUser.get(id);
+    if (credentialIds) {
+      credentialIds.forEach(credId => {
+        this.webauthnCredentials.delete(credId);
+      });
+      this.webauthnCredentialsByUser.delete(id);
+    }
+
+    this.issuedCredentials.delete(id);
+    this.sessions.forEach((session, sessionId) => {
+      if (session.userId === id) {
+        this.sessions.delete(sessionId);
+      }
+    });
+    this.recoveryRequests.forEach((request, requestId) => {
+      if (request.userId === id) {
+        this.recoveryRequests.delete(requestId);
+      }
+    });
+    this.users.delete(id);
+  }
+
+  // ==================== OTPs ====================
+
+  async getOtp(id: string): Promise<OtpRecord | null> {
+    return this.otpRecords.get(id) || null;
+  }
+
+  async getOtpsByRecipient(recipient: string): Promise<OtpRecord[]> {
+    return Array.from(this.otpRecords.values()).filter(otp => otp.recipient === recipient);
+  }
+
+  async saveOtp(otp: OtpRecord): Promise<void> {
+    this.otpRecords.set(otp.id, otp);
+  }
+
+  // ==================== WebAuthn ====================
+
+  async getWebAuthnCredential(id: string): Promise<WebAuthnCredential | null> {
+    return this.webauthnCredentials.get(id) || null;
+  }
+
+  async getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
+    for (const credential of this.webauthnCredentials.values()) {
+      if (credential.credentialId === credentialId) {
+        return credential;
+      }
+    }
+    return null;
+  }
+
+  async getWebAuthnCredentialsByUser(userId: string): Promise<WebAuthnCredential[]> {
+    const credentialIds = this.webauthnCredentialsByUser.get(userId);
+    if (!credentialIds) return [];
+
+    const credentials: WebAuthnCredential[] = [];
+    credentialIds.forEach(id => {
+      const credential = this.webauthnCredentials.get(id);
+      if (credential) {
+        credentials.push(credential);
+      }
+    });
+
+    return credentials;
+  }
+
+  async saveWebAuthnCredential(credential: WebAuthnCredential): Promise<void> {
+    this.webauthnCredentials.set(credential.id, credential);
+
+    let userCredentials = this.webauthnCredentialsByUser.get(credential.userId);
+    if (!userCredentials) {
+      userCredentials = new Set<string>();
+      this.webauthnCredentialsByUser.set(credential.userId, userCredentials);
+    }
+    userCredentials.add(credential.id);
+  }
+
+  async deleteWebAuthnCredential(id: string): Promise<void> {
+    const credential = this.webauthnCredentials.get(id);
+    if (!credential) return;
+
+    this.webauthnCredentialsByUser.get(credential.userId)?.delete(id);
+    this.webauthnCredentials.delete(id);
+  }
+
+  // ==================== Issued Credentials ====================
+
+  async getIssuedCredential(id: string): Promise<IssuedCredentialRecord | null> {
+    for (const records of this.issuedCredentials.values()) {
+      const record = records.find(r => r.id === id);
+      if (record) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  async getIssuedCredentialsByUser(userId: string): Promise<IssuedCredentialRecord[]> {
+    return this.issuedCredentials.get(userId) || [];
+  }
+
+  async saveIssuedCredential(record: IssuedCredentialRecord): Promise<void> {
+    const records = (this.issuedCredentials.get(record.userId) || []).filter(r => r.id !== record.id);
+    records.push(record);
+    this.issuedCredentials.set(record.userId, records);
+  }
+
+  // ==================== Status Lists ====================
+
+  async getStatusList(id: string): Promise<StatusListRecord | null> {
+    return this.statusLists.get(id) || null;
+  }
+
+  async listStatusLists(): Promise<StatusListRecord[]> {
+    return Array.from(this.statusLists.values())
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async saveStatusList(list: StatusListRecord): Promise<void> {
+    this.statusLists.set(list.id, list);
+  }
+
+  // ==================== Sessions ====================
+
+  async getSession(id: string): Promise<Session | null> {
+    return this.sessions.get(id) || null;
+  }
+
+  async getSessionsByUser(userId: string): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async swapSession(session: Session, expectedRefreshTokenHash: string): Promise<boolean> {
+    const current = this.sessions.get(session.id);
+    if (!current || current.revokedAt || current.refreshTokenHash !== expectedRefreshTokenHash) {
+      return false;
+    }
+
+    this.sessions.set(session.id, session);
+    return true;
+  }
+
+  // ==================== Recovery Requests ====================
+
+  async getRecoveryRequest(id: string): Promise<RecoveryRequest | null> {
+    return this.recoveryRequests.get(id) || null;
+  }
+
+  async getRecoveryRequestsByUser(userId: string): Promise<RecoveryRequest[]> {
+    return Array.from(this.recoveryRequests.values())
+      .filter(request => request.userId === userId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async saveRecoveryRequest(request: RecoveryRequest): Promise<void> {
+    this.recoveryRequests.set(request.id, request);
+  }
+
+  async clear(): Promise<void> {
+    this.users.clear();
+    this.emailIndex.clear();
+    this.phoneIndex.clear();
+    this.didIndex.clear();
+    this.otpRecords.clear();
+    this.webauthnCredentials.clear();
+    this.webauthnCredentialsByUser.clear();
+    this.issuedCredentials.clear();
+    this.sessions.clear();
+    this.recoveryRequests.clear();
+    this.statusLists.clear();
+  }
+}
+
+export default MemoryStorageAdapter;
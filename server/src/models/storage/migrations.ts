@@ -0,0 +1,103 @@
+/**
+ * A single schema migration for the SQLite storage backend
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string; // SQL executed inside a transaction
+}
+
+/**
+ * Schema migrations, applied in order of version
+ * Never edit a migration that has shipped; add a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email_lower TEXT UNIQUE,
+        phone TEXT UNIQUE,
+        did TEXT UNIQUE,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE otp_records (
+        id TEXT PRIMARY KEY,
+        recipient TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_otp_records_recipient ON otp_records (recipient);
+
+      CREATE TABLE webauthn_credentials (
+        id TEXT PRIMARY KEY,
+        credential_id TEXT NOT NULL UNIQUE,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_webauthn_credentials_user_id ON webauthn_credentials (user_id);
+
+      CREATE TABLE issued_credentials (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        template_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        issued_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_issued_credentials_user_id ON issued_credentials (user_id);
+    `
+  },
+  {
+    version: 2,
+    name: 'sessions',
+    up: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_sessions_user_id ON sessions (user_id);
+    `
+  },
+  {
+    version: 3,
+    name: 'recovery_requests',
+    up: `
+      CREATE TABLE recovery_requests (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_recovery_requests_user_id ON recovery_requests (user_id);
+    `
+  },
+  {
+    version: 4,
+    name: 'status_lists',
+    up: `
+      CREATE TABLE status_lists (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 5,
+    name: 'session_refresh_token_hash',
+    up: `
+      ALTER TABLE sessions ADD COLUMN refresh_token_hash TEXT;
+      UPDATE sessions SET refresh_token_hash = json_extract(data, '$.refreshTokenHash');
+    `
+  }
+];
+
+export default migrations;
@@ -0,0 +1,362 @@
+import Database from 'better-sqlite3';
+import {
+  User,
+  OtpRecord,
+  WebAuthnCredential,
+  IssuedCredentialRecord,
+  Session,
+  RecoveryRequest,
+  StatusListRecord
+} from '../../types';
+import { StorageAdapter } from './types';
+import { migrations } from './migrations';
+
+// Top-level record fields that hold Date values and must be revived after JSON parsing
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'lastLogin', 'expiresAt', 'verifiedAt', 'lastUsed', 'issuedAt', 'lastSeenAt', 'revokedAt',
+  'availableAt', 'completedAt', 'cancelledAt', 'didRebindExpiresAt', 'didReboundAt', 'suspendedAt'];
+
+/**
+ * Serialize a record for the data column
+ */
+function serialize(record: any): string {
+  return JSON.stringify(record);
+}
+
+/**
+ * Parse a data column and restore Date fields
+ */
+function deserialize<T>(data: string): T {
+  const record = JSON.parse(data);
+
+  for (const field of DATE_FIELDS) {
+    if (typeof record[field] === 'string') {
+      record[field] = new Date(record[field]);
+    }
+  }
+
+  return record as T;
+}
+
+/**
+ * SQLite storage adapter (better-sqlite3)
+ * Each record is stored as JSON in a data column; columns used for lookups
+ * and uniqueness are duplicated alongside it.
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+  private db: Database.Database | null = null;
+
+  constructor(private filename: string) {}
+
+  async init(): Promise<void> {
+    if (this.db) return;
+
+    this.db = new Database(this.filename);
+    this.db.pragma('journal_mode = WAL');
+
+    this.migrate();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Apply pending schema migrations
+   */
+  private migrate(): void {
+    const db = this.connection;
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const applied = new Set(
+      (db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[])
+        .map(row => row.version)
+    );
+
+    const pending = [...migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter(migration => !applied.has(migration.version));
+
+    for (const migration of pending) {
+      db.transaction(() => {
+        db.exec(migration.up);
+        db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+    }
+  }
+
+  private get connection(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite storage is not initialized');
+    }
+    return this.db;
+  }
+
+  // ==================== Users ====================
+
+  async getUser(id: string): Promise<User | null> {
+    const row = this.connection.prepare('SELECT data FROM users WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? deserialize<User>(row.data) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const row = this.connection.prepare('SELECT data FROM users WHERE email_lower = ?')
+      .get(email.toLowerCase()) as { data: string } | undefined;
+    return row ? deserialize<User>(row.data) : null;
+  }
+
+  async getUserByPhone(phone: string): Promise<User | null> {
+    const row = this.connection.prepare('SELECT data FROM users WHERE phone = ?').get(phone) as { data: string } | undefined;
+    return row ? deserialize<User>(row.data) : null;
+  }
+
+  async getUserByDid(did: string): Promise<User | null> {
+    const row = this.connection.prepare('SELECT data FROM users WHERE did = ?').get(did) as { data: string } | undefined;
+    return row ? deserialize<User>(row.data) : null;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const rows = this.connection.prepare('SELECT data FROM users ORDER BY created_at').all() as { data: string }[];
+    return rows.map(row => deserialize<User>(row.data));
+  }
+
+  async saveUser(user: User): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO users (id, email_lower, phone, did, data, created_at, updated_at)
+      VALUES (@id, @emailLower, @phone, @did, @data, @createdAt, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        email_lower = excluded.email_lower,
+        phone = excluded.phone,
+        did = excluded.did,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).run({
+      id: user.id,
+      emailLower: user.email ? user.email.toLowerCase() : null,
+      phone: user.phone || null,
+      did: user.did || null,
+      data: serialize(user),
+      createdAt: new Date(user.createdAt).toISOString(),
+      updatedAt: new Date(user.updatedAt).toISOString()
+    });
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const db = this.connection;
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM webauthn_credentials WHERE user_id = ?').run(id);
+      db.prepare('DELETE FROM issued_credentials WHERE user_id = ?').run(id);
+      db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+      db.prepare('DELETE FROM recovery_requests WHERE user_id = ?').run(id);
+      db.prepare('DELETE FROM users WHERE id = ?').run(id);
+    })();
+  }
+
+  // ==================== OTPs ====================
+
+  async getOtp(id: string): Promise<OtpRecord | null> {
+    const row = this.connection.prepare('SELECT data FROM otp_records WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? deserialize<OtpRecord>(row.data) : null;
+  }
+
+  async getOtpsByRecipient(recipient: string): Promise<OtpRecord[]> {
+    const rows = this.connection.prepare('SELECT data FROM otp_records WHERE recipient = ?')
+      .all(recipient) as { data: string }[];
+    return rows.map(row => deserialize<OtpRecord>(row.data));
+  }
+
+  async saveOtp(otp: OtpRecord): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO otp_records (id, recipient, status, data, expires_at)
+      VALUES (@id, @recipient, @status, @data, @expiresAt)
+      ON CONFLICT (id) DO UPDATE SET
+        status = excluded.status,
+        data = excluded.data
+    `).run({
+      id: otp.id,
+      recipient: otp.recipient,
+      status: otp.status,
+      data: serialize(otp),
+      expiresAt: new Date(otp.expiresAt).toISOString()
+    });
+  }
+
+  // ==================== WebAuthn ====================
+
+  async getWebAuthnCredential(id: string): Promise<WebAuthnCredential | null> {
+    const row = this.connection.prepare('SELECT data FROM webauthn_credentials WHERE id = ?')
+      .get(id) as { data: string } | undefined;
+    return row ? deserialize<WebAuthnCredential>(row.data) : null;
+  }
+
+  async getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
+    const row = this.connection.prepare('SELECT data FROM webauthn_credentials WHERE credential_id = ?')
+      .get(credentialId) as { data: string } | undefined;
+    return row ? deserialize<WebAuthnCredential>(row.data) : null;
+  }
+
+  async getWebAuthnCredentialsByUser(userId: string): Promise<WebAuthnCredential[]> {
+    const rows = this.connection.prepare('SELECT data FROM webauthn_credentials WHERE user_id = ? ORDER BY rowid')
+      .all(userId) as { data: string }[];
+    return rows.map(row => deserialize<WebAuthnCredential>(row.data));
+  }
+
+  async saveWebAuthnCredential(credential: WebAuthnCredential): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO webauthn_credentials (id, credential_id, user_id, data)
+      VALUES (@id, @credentialId, @userId, @data)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run({
+      id: credential.id,
+      credentialId: credential.credentialId,
+      userId: credential.userId,
+      data: serialize(credential)
+    });
+  }
+
+  async deleteWebAuthnCredential(id: string): Promise<void> {
+    this.connection.prepare('DELETE FROM webauthn_credentials WHERE id = ?').run(id);
+  }
+
+  // ==================== Issued Credentials ====================
+
+  async getIssuedCredential(id: string): Promise<IssuedCredentialRecord | null> {
+    const row = this.connection.prepare('SELECT data FROM issued_credentials WHERE id = ?')
+      .get(id) as { data: string } | undefined;
+    return row ? deserialize<IssuedCredentialRecord>(row.data) : null;
+  }
+
+  async getIssuedCredentialsByUser(userId: string): Promise<IssuedCredentialRecord[]> {
+    const rows = this.connection.prepare('SELECT data FROM issued_credentials WHERE user_id = ? ORDER BY issued_at')
+      .all(userId) as { data: string }[];
+    return rows.map(row => deserialize<IssuedCredentialRecord>(row.data));
+  }
+
+  async saveIssuedCredential(record: IssuedCredentialRecord): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO issued_credentials (id, user_id, template_id, data, issued_at)
+      VALUES (@id, @userId, @templateId, @data, @issuedAt)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run({
+      id: record.id,
+      userId: record.userId,
+      templateId: record.templateId,
+      data: serialize(record),
+      issuedAt: new Date(record.issuedAt).toISOString()
+    });
+  }
+
+  // ==================== Status Lists ====================
+
+  async getStatusList(id: string): Promise<StatusListRecord | null> {
+    const row = this.connection.prepare('SELECT data FROM status_lists WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? deserialize<StatusListRecord>(row.data) : null;
+  }
+
+  async listStatusLists(): Promise<StatusListRecord[]> {
+    const rows = this.connection.prepare('SELECT data FROM status_lists ORDER BY created_at').all() as { data: string }[];
+    return rows.map(row => deserialize<StatusListRecord>(row.data));
+  }
+
+  async saveStatusList(list: StatusListRecord): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO status_lists (id, data, created_at)
+      VALUES (@id, @data, @createdAt)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run({
+      id: list.id,
+      data: serialize(list),
+      createdAt: new Date(list.createdAt).toISOString()
+    });
+  }
+
+  // ==================== Sessions ====================
+
+  async getSession(id: string): Promise<Session | null> {
+    const row = this.connection.prepare('SELECT data FROM sessions WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? deserialize<Session>(row.data) : null;
+  }
+
+  async getSessionsByUser(userId: string): Promise<Session[]> {
+    const rows = this.connection.prepare('SELECT data FROM sessions WHERE user_id = ? ORDER BY created_at')
+      .all(userId) as { data: string }[];
+    return rows.map(row => deserialize<Session>(row.data));
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO sessions (id, user_id, refresh_token_hash, data, created_at)
+      VALUES (@id, @userId, @refreshTokenHash, @data, @createdAt)
+      ON CONFLICT (id) DO UPDATE SET refresh_token_hash = excluded.refresh_token_hash, data = excluded.data
+    `).run({
+      id: session.id,
+      userId: session.userId,
+      refreshTokenHash: session.refreshTokenHash,
+      data: serialize(session),
+      createdAt: new Date(session.createdAt).toISOString()
+    });
+  }
+
+  async swapSession(session: Session, expectedRefreshTokenHash: string): Promise<boolean> {
+    const result = this.connection.prepare(`
+      UPDATE sessions SET refresh_token_hash = @refreshTokenHash, data = @data
+      WHERE id = @id AND refresh_token_hash = @expectedRefreshTokenHash AND json_extract(data, '$.revokedAt') IS NULL
+    `).run({
+      id: session.id,
+      refreshTokenHash: session.refreshTokenHash,
+      data: serialize(session),
+      expectedRefreshTokenHash
+    });
+
+    return result.changes === 1;
+  }
+
+  // ==================== Recovery Requests ====================
+
+  async getRecoveryRequest(id: string): Promise<RecoveryRequest | null> {
+    const row = this.connection.prepare('SELECT data FROM recovery_requests WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? deserialize<RecoveryRequest>(row.data) : null;
+  }
+
+  async getRecoveryRequestsByUser(userId: string): Promise<RecoveryRequest[]> {
+    const rows = this.connection.prepare('SELECT data FROM recovery_requests WHERE user_id = ? ORDER BY created_at')
+      .all(userId) as { data: string }[];
+    return rows.map(row => deserialize<RecoveryRequest>(row.data));
+  }
+
+  async saveRecoveryRequest(request: RecoveryRequest): Promise<void> {
+    this.connection.prepare(`
+      INSERT INTO recovery_requests (id, user_id, data, created_at)
+      VALUES (@id, @userId, @data, @createdAt)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run({
+      id: request.id,
+      userId: request.userId,
+      data: serialize(request),
+      createdAt: new Date(request.createdAt).toISOString()
+    });
+  }
+
+  async clear(): Promise<void> {
+    this.connection.exec(`
+      DELETE FROM recovery_requests;
+      DELETE FROM sessions;
+      DELETE FROM webauthn_credentials;
+      DELETE FROM issued_credentials;
+      DELETE FROM otp_records;
+      DELETE FROM status_lists;
+      DELETE FROM users;
+    `);
+  }
+}
+
+export default SqliteStorageAdapter;
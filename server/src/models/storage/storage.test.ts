@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { AuthMethod, OtpDeliveryMethod, OtpStatus, Session, User } from '../../types';
+import { createStorageAdapter, MemoryStorageAdapter, SqliteStorageAdapter, StorageAdapter } from '.';
+import { migrations } from './migrations';
+
+function createUser(id: string, fields: Partial<User> = {}): User {
+  return {
+    id,
+    name: `User ${id}`,
+    authMethods: [AuthMethod.EMAIL],
+    isEmailVerified: true,
+    isPhoneVerified: false,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    ...fields
+  };
+}
+
+function createSession(id: string, userId: string, createdAt: Date): Session {
+  return {
+    id,
+    userId,
+    authMethod: AuthMethod.EMAIL,
+    refreshTokenHash: `hash-${id}`,
+    previousRefreshTokenHashes: [],
+    createdAt,
+    lastSeenAt: createdAt,
+    expiresAt: new Date(createdAt.getTime() + 60 * 60 * 1000)
+  };
+}
+
+describe.each([
+  ['memory', () => new MemoryStorageAdapter()],
+  ['sqlite', () => new SqliteStorageAdapter(':memory:')]
+])('%s storage adapter', (_name, createAdapter: () => StorageAdapter) => {
+  let storage: StorageAdapter;
+
+  beforeEach(async () => {
+    storage = createAdapter();
+    await storage.init();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('stores users and finds them by email, phone and DID', async () => {
+    await storage.saveUser(createUser('u1', { email: 'Holder@Example.com', phone: '+15551234567', did: 'did:key:z6Mk1' }));
+
+    const user = await storage.getUser('u1');
+
+    expect(user?.email).toBe('Holder@Example.com');
+    expect(user?.createdAt).toEqual(new Date('2025-01-01T00:00:00Z'));
+    expect((await storage.getUserByEmail('holder@example.com'))?.id).toBe('u1');
+    expect((await storage.getUserByPhone('+15551234567'))?.id).toBe('u1');
+    expect((await storage.getUserByDid('did:key:z6Mk1'))?.id).toBe('u1');
+    expect(await storage.getUserByEmail('other@example.com')).toBeNull();
+  });
+
+  it('replaces a user on save', async () => {
+    await storage.saveUser(createUser('u1', { email: 'old@example.com' }));
+    await storage.saveUser(createUser('u1', { email: 'new@example.com' }));
+
+    expect(await storage.listUsers()).toHaveLength(1);
+    expect(await storage.getUserByEmail('old@example.com')).toBeNull();
+    expect((await storage.getUserByEmail('new@example.com'))?.id).toBe('u1');
+  });
+
+  it('deletes the records of a deleted user', async () => {
+    await storage.saveUser(createUser('u1'));
+    await storage.saveSession(createSession('s1', 'u1', new Date()));
+    await storage.saveWebAuthnCredential({
+      id: 'w1',
+      userId: 'u1',
+      credentialId: 'cred-1',
+      publicKey: 'key',
+      counter: 0,
+      createdAt: new Date()
+    });
+
+    await storage.deleteUser('u1');
+
+    expect(await storage.getUser('u1')).toBeNull();
+    expect(await storage.getSession('s1')).toBeNull();
+    expect(await storage.getWebAuthnCredentialByCredentialId('cred-1')).toBeNull();
+  });
+
+  it('lists sessions of a user oldest first', async () => {
+    await storage.saveUser(createUser('u1'));
+    await storage.saveSession(createSession('s2', 'u1', new Date('2025-01-02T00:00:00Z')));
+    await storage.saveSession(createSession('s1', 'u1', new Date('2025-01-01T00:00:00Z')));
+    await storage.saveSession(createSession('s3', 'u2', new Date('2025-01-03T00:00:00Z')));
+
+    const sessions = await storage.getSessionsByUser('u1');
+
+    expect(sessions.map(session => session.id)).toEqual(['s1', 's2']);
+    expect(sessions[0].expiresAt).toBeInstanceOf(Date);
+  });
+
+  it('swaps a session only while its refresh token hash is unchanged', async () => {
+    const session = createSession('s1', 'u1', new Date());
+    await storage.saveSession(session);
+
+    const rotated = { ...session, refreshTokenHash: 'hash-2', previousRefreshTokenHashes: ['hash-s1'] };
+    expect(await storage.swapSession(rotated, 'hash-s1')).toBe(true);
+    expect(await storage.swapSession({ ...session, refreshTokenHash: 'hash-3' }, 'hash-s1')).toBe(false);
+    expect((await storage.getSession('s1'))?.refreshTokenHash).toBe('hash-2');
+
+    await storage.saveSession({ ...rotated, revokedAt: new Date() });
+    expect(await storage.swapSession({ ...rotated, refreshTokenHash: 'hash-4' }, 'hash-2')).toBe(false);
+    expect(await storage.swapSession(createSession('s2', 'u1', new Date()), 'hash-s2')).toBe(false);
+  });
+
+  it('finds OTPs by recipient', async () => {
+    await storage.saveOtp({
+      id: 'o1',
+      recipient: 'holder@example.com',
+      code: '123456',
+      method: OtpDeliveryMethod.EMAIL,
+      status: OtpStatus.PENDING,
+      attempts: 0,
+      maxAttempts: 3,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000)
+    });
+
+    expect((await storage.getOtpsByRecipient('holder@example.com')).map(otp => otp.id)).toEqual(['o1']);
+    expect(await storage.getOtpsByRecipient('other@example.com')).toEqual([]);
+  });
+
+  it('removes everything on clear', async () => {
+    await storage.saveUser(createUser('u1'));
+
+    await storage.clear();
+
+    expect(await storage.listUsers()).toEqual([]);
+  });
+});
+
+describe('SQLite persistence', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'wallet-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keeps data across restarts and applies migrations once', async () => {
+    const filename = path.join(directory, 'nested', 'wallet.db');
+    const first = createStorageAdapter(`sqlite:${filename}`);
+    await first.init();
+    await first.saveUser(createUser('u1', { email: 'holder@example.com' }));
+    await first.close();
+
+    const second = createStorageAdapter(`sqlite:${filename}`);
+    await second.init();
+
+    expect((await second.getUserByEmail('holder@example.com'))?.id).toBe('u1');
+    await second.close();
+
+    const db = new Database(filename, { readonly: true });
+    const applied = db.prepare('SELECT version FROM schema_migrations ORDER BY version').all();
+    db.close();
+    expect(applied).toEqual(migrations.map(migration => ({ version: migration.version })));
+  });
+
+  it('selects the backend from DB_URI', () => {
+    expect(createStorageAdapter('memory:')).toBeInstanceOf(MemoryStorageAdapter);
+    expect(createStorageAdapter(undefined)).toBeInstanceOf(MemoryStorageAdapter);
+    expect(createStorageAdapter('sqlite::memory:')).toBeInstanceOf(SqliteStorageAdapter);
+    expect(() => createStorageAdapter('postgres://localhost/wallet')).toThrow('Unsupported DB_URI');
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  User,
+  OtpRecord,
+  WebAuthnCredential,
+  IssuedCredentialRecord,
+  Session,
+  RecoveryRequest,
+  StatusListRecord
+} from '../../types';
+
+/**
+ * Persistence interface used by UserModel
+ * Adapters only store and look up records; validation and business rules
+ * (uniqueness errors, OTP attempt counting, etc.) stay in the model.
+ */
+export interface StorageAdapter {
+  /**
+   * Prepare the backend (open connections, run migrations)
+   */
+  init(): Promise<void>;
+
+  /**
+   * Release any resources held by the backend
+   */
+  close(): Promise<void>;
+
+  // ==================== Users ====================
+
+  getUser(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>; // email is matched case-insensitively
+  getUserByPhone(phone: string): Promise<User | null>;
+  getUserByDid(did: string): Promise<User | null>;
+  listUsers(): Promise<User[]>;
+  saveUser(user: User): Promise<void>; // insert or replace
+  deleteUser(id: string): Promise<void>; // also removes the user's WebAuthn credentials, issued credentials, sessions and recovery requests
+
+  // ==================== OTPs ====================
+
+  getOtp(id: string): Promise<OtpRecord | null>;
+  getOtpsByRecipient(recipient: string): Promise<OtpRecord[]>;
+  saveOtp(otp: OtpRecord): Promise<void>;
+
+  // ==================== WebAuthn ====================
+
+  getWebAuthnCredential(id: string): Promise<WebAuthnCredential | null>;
+  getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null>;
+  getWebAuthnCredentialsByUser(userId: string): Promise<WebAuthnCredential[]>;
+  saveWebAuthnCredential(credential: WebAuthnCredential): Promise<void>;
+  deleteWebAuthnCredential(id: string): Promise<void>;
+
+  // ==================== Issued Credentials ====================
+
+  getIssuedCredential(id: string): Promise<IssuedCredentialRecord | null>;
+  getIssuedCredentialsByUser(userId: string): Promise<IssuedCredentialRecord[]>;
+  saveIssuedCredential(record: IssuedCredentialRecord): Promise<void>;
+
+  // ==================== Status Lists ====================
+
+  getStatusList(id: string): Promise<StatusListRecord | null>;
+  listStatusLists(): Promise<StatusListRecord[]>; // oldest first
+  saveStatusList(list: StatusListRecord): Promise<void>;
+
+  // ==================== Sessions ====================
+
+  getSession(id: string): Promise<Session | null>;
+  getSessionsByUser(userId: string): Promise<Session[]>; // oldest first
+  saveSession(session: Session): Promise<void>;
+  // Save only if the stored session is not revoked and still has this refresh token hash; false otherwise
+  swapSession(session: Session, expectedRefreshTokenHash: string): Promise<boolean>;
+
+  // ==================== Recovery Requests ====================
+
+  getRecoveryRequest(id: string): Promise<RecoveryRequest | null>;
+  getRecoveryRequestsByUser(userId: string): Promise<RecoveryRequest[]>; // oldest first
+  saveRecoveryRequest(request: RecoveryRequest): Promise<void>;
+
+  /**
+   * Remove all data (for testing purposes)
+   */
+  clear(): Promise<void>;
+}
@@ -1,28 +1,73 @@
 import { v4 as uuidv4 } from 'uuid';
-import { 
-  User, 
-  UserProfile, 
-  AuthMethod, 
-  OtpRecord, 
-  OtpStatus, 
+import {
+  User,
+  UserProfile,
+  AuthMethod,
+  OtpRecord,
+  OtpPurpose,
+  OtpStatus,
   OtpDeliveryMethod,
   WebAuthnCredential,
-  DIDMethod,
-  DIDDocument
+  DIDDocument,
+  IssuedCredentialRecord,
+  Session,
+  SessionRevocationReason,
+  RecoveryRequest,
+  StatusListRecord
 } from '../types';
+import { StorageAdapter, createStorageAdapter } from './storage';
 
 /**
- * In-memory storage for the MVP
- * In a production environment, this would be replaced with a database
+ * User, OTP, credential and status list records
+ * Persistence is delegated to a storage adapter selected by DB_URI
+ * (SQLite file or in-memory); validation and business rules live here.
  */
 class UserModel {
-  private users: Map<string, User> = new Map();
-  private emailIndex: Map<string, string> = new Map(); // email -> userId
-  private phoneIndex: Map<string, string> = new Map(); // phone -> userId
-  private didIndex: Map<string, string> = new Map();   // did -> userId
-  private otpRecords: Map<string, OtpRecord> = new Map();
-  private webauthnCredentials: Map<string, WebAuthnCredential> = new Map();
-  private webauthnCredentialsByUser: Map<string, Set<string>> = new Map(); // userId -> Set<credentialId>
+  private storage: StorageAdapter | null = null;
+  private storageReady: Promise<StorageAdapter> | null = null;
+
+  /**
+   * Get the storage adapter, creating and initializing it on first use
+   * Created lazily so that DB_URI is read after the environment is loaded.
+   */
+  private async getStorage(): Promise<StorageAdapter> {
+    if (this.storage) {
+      return this.storage;
+    }
+
+    if (!this.storageReady) {
+      const adapter = createStorageAdapter();
+      this.storageReady = adapter.init().then(() => {
+        this.storage = adapter;
+        return adapter;
+      });
+      this.storageReady.catch(() => {
+        this.storageReady = null;
+      });
+    }
+
+    return this.storageReady;
+  }
+
+  /**
+   * Replace the storage adapter (for testing purposes)
+   */
+  async setStorageAdapter(adapter: StorageAdapter): Promise<void> {
+    await adapter.init();
+    this.storage = adapter;
+    this.storageReady = Promise.resolve(adapter);
+  }
+
+  /**
+   * Close the storage adapter
+   */
+  async close(): Promise<void> {
+    if (this.storage) {
+      await this.storage.close();
+    }
+    this.storage = null;
+    this.storageReady = null;
+  }
 
   /**
    * Create a new user
@@ -32,24 +77,26 @@ class UserModel {
     if (!profile.name) {
       throw new Error('Name is required');
     }
-    
+
     if (!profile.email && !profile.phone) {
       throw new Error('Either email or phone is required');
     }
-    
+
+    const storage = await this.getStorage();
+
     // Check if user with this email or phone already exists
-    if (profile.email && this.emailIndex.has(profile.email.toLowerCase())) {
+    if (profile.email && await storage.getUserByEmail(profile.email)) {
       throw new Error('User with this email already exists');
     }
-    
-    if (profile.phone && this.phoneIndex.has(profile.phone)) {
+
+    if (profile.phone && await storage.getUserByPhone(profile.phone)) {
       throw new Error('User with this phone already exists');
     }
-    
+
     // Create new user
     const userId = uuidv4();
     const now = new Date();
-    
+
     const user: User = {
       id: userId,
       ...profile,
@@ -59,159 +106,109 @@ class UserModel {
       createdAt: now,
       updatedAt: now
     };
-    
+
     // Store user
-    this.users.set(userId, user);
-    
-    // Update indexes
-    if (profile.email) {
-      this.emailIndex.set(profile.email.toLowerCase(), userId);
-    }
-    
-    if (profile.phone) {
-      this.phoneIndex.set(profile.phone, userId);
-    }
-    
+    await storage.saveUser(user);
+
     return user;
   }
-  
+
   /**
    * Get user by ID
    */
   async getUserById(id: string): Promise<User | null> {
-    const user = this.users.get(id);
-    return user || null;
+    const storage = await this.getStorage();
+    return storage.getUser(id);
   }
-  
+
   /**
    * Get user by email
    */
   async getUserByEmail(email: string): Promise<User | null> {
-    const userId = this.emailIndex.get(email.toLowerCase());
-    if (!userId) return null;
-    
-    return this.users.get(userId) || null;
+    const storage = await this.getStorage();
+    return storage.getUserByEmail(email);
   }
-  
+
   /**
    * Get user by phone
    */
   async getUserByPhone(phone: string): Promise<User | null> {
-    const userId = this.phoneIndex.get(phone);
-    if (!userId) return null;
-    
-    return this.users.get(userId) || null;
+    const storage = await this.getStorage();
+    return storage.getUserByPhone(phone);
   }
-  
+
   /**
    * Get user by DID
    */
   async getUserByDid(did: string): Promise<User | null> {
-    const userId = this.didIndex.get(did);
-    if (!userId) return null;
-    
-    return this.users.get(userId) || null;
+    const storage = await this.getStorage();
+    return storage.getUserByDid(did);
   }
-  
+
   /**
    * Update user information
    */
   async updateUser(id: string, updates: Partial<UserProfile>): Promise<User | null> {
-    const user = this.users.get(id);
+    const storage = await this.getStorage();
+    const user = await storage.getUser(id);
     if (!user) return null;
-    
-    // Handle email update (update index)
-    if (updates.email && updates.email !== user.email) {
-      // Remove old email from index
-      if (user.email) {
-        this.emailIndex.delete(user.email.toLowerCase());
-      }
-      
-      // Check if new email already exists
-      if (this.emailIndex.has(updates.email.toLowerCase())) {
+
+    // Check if new email already exists
+    if (updates.email && updates.email.toLowerCase() !== user.email?.toLowerCase()) {
+      const existing = await storage.getUserByEmail(updates.email);
+      if (existing && existing.id !== id) {
         throw new Error('Email already in use');
       }
-      
-      // Add new email to index
-      this.emailIndex.set(updates.email.toLowerCase(), id);
     }
-    
-    // Handle phone update (update index)
+
+    // Check if new phone already exists
     if (updates.phone && updates.phone !== user.phone) {
-      // Remove old phone from index
-      if (user.phone) {
-        this.phoneIndex.delete(user.phone);
-      }
-      
-      // Check if new phone already exists
-      if (this.phoneIndex.has(updates.phone)) {
+      const existing = await storage.getUserByPhone(updates.phone);
+      if (existing && existing.id !== id) {
         throw new Error('Phone already in use');
       }
-      
-      // Add new phone to index
-      this.phoneIndex.set(updates.phone, id);
     }
-    
+
     // Update user
     const updatedUser: User = {
       ...user,
       ...updates,
       updatedAt: new Date()
     };
-    
-    this.users.set(id, updatedUser);
-    
+
+    await storage.saveUser(updatedUser);
+
     return updatedUser;
   }
-  
+
   /**
    * Delete user
+   * Also removes the user's WebAuthn credentials and issued credentials.
    */
   async deleteUser(id: string): Promise<boolean> {
-    const user = this.users.get(id);
+    const storage = await this.getStorage();
+    const user = await storage.getUser(id);
     if (!user) return false;
-    
-    // Remove from indexes
-    if (user.email) {
-      this.emailIndex.delete(user.email.toLowerCase());
-    }
-    
-    if (user.phone) {
-      this.phoneIndex.delete(user.phone);
-    }
-    
-    if (user.did) {
-      this.didIndex.delete(user.did);
-    }
-    
-    // Remove user's WebAuthn credentials
-    const credentialIds = this.webauthnCredentialsByUser.get(id);
-    if (credentialIds) {
-      credentialIds.forEach(credId => {
-        this.webauthnCredentials.delete(credId);
-      });
-      this.webauthnCredentialsByUser.delete(id);
-    }
-    
-    // Remove user
-    this.users.delete(id);
-    
+
+    await storage.deleteUser(id);
+
     return true;
   }
-  
+
   /**
    * Set user's DID
    */
   async setUserDid(userId: string, did: string, didDocument?: DIDDocument): Promise<User | null> {
-    const user = this.users.get(userId);
+    const storage = await this.getStorage();
+    const user = await storage.getUser(userId);
     if (!user) return null;
-    
+
     // Check if DID already assigned to another user
-    const existingUserId = this.didIndex.get(did);
-    if (existingUserId && existingUserId !== userId) {
+    const existingUser = await storage.getUserByDid(did);
+    if (existingUser && existingUser.id !== userId) {
       throw new Error('DID already assigned to another user');
     }
-    
+
     // Update user
     const updatedUser: User = {
       ...user,
@@ -219,103 +216,108 @@ class UserModel {
       didDocument,
       updatedAt: new Date()
     };
-    
-    this.users.set(userId, updatedUser);
-    this.didIndex.set(did, userId);
-    
+
+    await storage.saveUser(updatedUser);
+
     return updatedUser;
   }
-  
+
   /**
    * Mark email as verified
    */
   async verifyEmail(userId: string): Promise<User | null> {
-    const user = this.users.get(userId);
+    const storage = await this.getStorage();
+    const user = await storage.getUser(userId);
     if (!user) return null;
-    
+
     const updatedUser: User = {
       ...user,
       isEmailVerified: true,
       updatedAt: new Date()
     };
-    
-    this.users.set(userId, updatedUser);
-    
+
+    await storage.saveUser(updatedUser);
+
     return updatedUser;
   }
-  
+
   /**
    * Mark phone as verified
    */
   async verifyPhone(userId: string): Promise<User | null> {
-    const user = this.users.get(userId);
+    const storage = await this.getStorage();
+    const user = await storage.getUser(userId);
     if (!user) return null;
-    
+
     const updatedUser: User = {
       ...user,
       isPhoneVerified: true,
       updatedAt: new Date()
     };
-    
-    this.users.set(userId, updatedUser);
-    
+
+    await storage.saveUser(updatedUser);
+
     return updatedUser;
   }
-  
+
   /**
    * Update last login timestamp
    */
   async updateLastLogin(userId: string): Promise<User | null> {
-    const user = this.users.get(userId);
+    const storage = await this.getStorage();
+    const user = await storage.getUser(userId);
     if (!user) return null;
-    
+
     const updatedUser: User = {
       ...user,
       lastLogin: new Date(),
       updatedAt: new Date()
     };
-    
-    this.users.set(userId, updatedUser);
-    
+
+    await storage.saveUser(updatedUser);
+
     return updatedUser;
   }
-  
+
   /**
    * Add authentication method to user
    */
   async addAuthMethod(userId: string, method: AuthMethod): Promise<User | null> {
-    const user = this.users.get(userId);
+    const storage = await this.getStorage();
+    const user = await storage.getUser(userId);
     if (!user) return null;
-    
+
     if (user.authMethods.includes(method)) {
       return user; // Method already exists
     }
-    
+
     const updatedUser: User = {
       ...user,
       authMethods: [...user.authMethods, method],
       updatedAt: new Date()
     };
-    
-    this.users.set(userId, updatedUser);
-    
+
+    await storage.saveUser(updatedUser);
+
     return updatedUser;
   }
-  
+
   // ==================== OTP Methods ====================
-  
+
   /**
    * Create a new OTP record
    */
   async createOtp(
-    recipient: string, 
-    method: OtpDeliveryMethod, 
-    code: string, 
-    userId?: string
+    recipient: string,
+    method: OtpDeliveryMethod,
+    code: string,
+    userId?: string,
+    purpose?: OtpPurpose
   ): Promise<OtpRecord> {
+    const storage = await this.getStorage();
     const now = new Date();
     const expiresAt = new Date(now.getTime() + 10 * 60 * 1000); // 10 minutes expiry
-    
+
     const otp: OtpRecord = {
       id: uuidv4(),
       userId,
@@ -326,50 +328,52 @@ class UserModel {
       attempts: 0,
       maxAttempts: 3,
       createdAt: now,
-      expiresAt
+      expiresAt,
+      purpose
     };
-    
-    this.otpRecords.set(otp.id, otp);
-    
+
+    await storage.saveOtp(otp);
+
     return otp;
   }
-  
+
   /**
    * Get OTP record by ID
    */
   async getOtpById(id: string): Promise<OtpRecord | null> {
-    const otp = this.otpRecords.get(id);
-    return otp || null;
+    const storage = await this.getStorage();
+    return storage.getOtp(id);
   }
-  
+
   /**
    * Verify OTP code
    */
   async verifyOtp(id: string, code: string): Promise<OtpRecord | null> {
-    const otp = this.otpRecords.get(id);
+    const storage = await this.getStorage();
+    const otp = await storage.getOtp(id);
     if (!otp) return null;
-    
+
     // Check if OTP is expired
     if (new Date() > otp.expiresAt) {
       const expiredOtp: OtpRecord = {
         ...otp,
         status: OtpStatus.EXPIRED
       };
-      this.otpRecords.set(id, expiredOtp);
+      await storage.saveOtp(expiredOtp);
       return expiredOtp;
     }
-    
+
     // Check if max attempts reached
     if (otp.attempts >= otp.maxAttempts) {
       return otp;
     }
-    
+
     // Increment attempts
     const updatedOtp: OtpRecord = {
       ...otp,
       attempts: otp.attempts + 1
     };
-    
+
     // Check if code matches
     if (code === otp.code) {
       updatedOtp.status = OtpStatus.VERIFIED;
@@ -377,164 +381,351 @@ class UserModel {
     } else {
       updatedOtp.status = OtpStatus.INVALID;
     }
-    
-    this.otpRecords.set(id, updatedOtp);
-    
+
+    await storage.saveOtp(updatedOtp);
+
     return updatedOtp;
   }
-  
+
   /**
    * Invalidate all pending OTPs for a recipient
    */
   async invalidateOtps(recipient: string): Promise<void> {
-    this.otpRecords.forEach((otp, id) => {
-      if (otp.recipient === recipient && otp.status === OtpStatus.PENDING) {
-        this.otpRecords.set(id, {
+    const storage = await this.getStorage();
+    const otps = await storage.getOtpsByRecipient(recipient);
+
+    for (const otp of otps) {
+      if (otp.status === OtpStatus.PENDING) {
+        await storage.saveOtp({
           ...otp,
           status: OtpStatus.INVALID
         });
       }
-    });
+    }
   }
-  
+
   // ==================== WebAuthn Methods ====================
-  
+
   /**
    * Store WebAuthn credential
    */
   async storeWebAuthnCredential(credential: Omit<WebAuthnCredential, 'id'>): Promise<WebAuthnCredential> {
+    const storage = await this.getStorage();
     const id = uuidv4();
     const now = new Date();
-    
+
     const webauthnCredential: WebAuthnCredential = {
       id,
       ...credential,
       createdAt: now
     };
-    
+
     // Store credential
-    this.webauthnCredentials.set(id, webauthnCredential);
-    
-    // Update user's credentials index
-    let userCredentials = this.webauthnCredentialsByUser.get(credential.userId);
-    if (!userCredentials) {
-      userCredentials = new Set<string>();
-      this.webauthnCredentialsByUser.set(credential.userId, userCredentials);
-    }
-    userCredentials.add(id);
-    
+    await storage.saveWebAuthnCredential(webauthnCredential);
+
     // Add WebAuthn as auth method for user
     await this.addAuthMethod(credential.userId, AuthMethod.WEBAUTHN);
-    
+
     return webauthnCredential;
   }
-  
+
   /**
    * Get WebAuthn credential by ID
    */
   async getWebAuthnCredentialById(id: string): Promise<WebAuthnCredential | null> {
-    const credential = this.webauthnCredentials.get(id);
-    return credential || null;
+    const storage = await this.getStorage();
+    return storage.getWebAuthnCredential(id);
   }
-  
+
   /**
    * Get WebAuthn credential by credential ID
    */
   async getWebAuthnCredentialByCredentialId(credentialId: string): Promise<WebAuthnCredential | null> {
-    for (const credential of this.webauthnCredentials.values()) {
-      if (credential.credentialId === credentialId) {
-        return credential;
-      }
-    }
-    return null;
+    const storage = await this.getStorage();
+    return storage.getWebAuthnCredentialByCredentialId(credentialId);
   }
-  
+
   /**
    * Get all WebAuthn credentials for a user
    */
   async getWebAuthnCredentialsByUserId(userId: string): Promise<WebAuthnCredential[]> {
-    const credentialIds = this.webauthnCredentialsByUser.get(userId);
-    if (!credentialIds) return [];
-    
-    const credentials: WebAuthnCredential[] = [];
-    credentialIds.forEach(id => {
-      const credential = this.webauthnCredentials.get(id);
-      if (credential) {
-        credentials.push(credential);
-      }
-    });
-    
-    return credentials;
+    const storage = await this.getStorage();
+    return storage.getWebAuthnCredentialsByUser(userId);
   }
-  
+
   /**
    * Update WebAuthn credential counter
    */
   async updateWebAuthnCredentialCounter(id: string, counter: number): Promise<WebAuthnCredential | null> {
-    const credential = this.webauthnCredentials.get(id);
+    const storage = await this.getStorage();
+    const credential = await storage.getWebAuthnCredential(id);
     if (!credential) return null;
-    
+
     const updatedCredential: WebAuthnCredential = {
       ...credential,
       counter,
       lastUsed: new Date()
     };
-    
-    this.webauthnCredentials.set(id, updatedCredential);
-    
+
+    await storage.saveWebAuthnCredential(updatedCredential);
+
     return updatedCredential;
   }
-  
+
   /**
    * Delete WebAuthn credential
    */
   async deleteWebAuthnCredential(id: string): Promise<boolean> {
-    const credential = this.webauthnCredentials.get(id);
+    const storage = await this.getStorage();
+    const credential = await storage.getWebAuthnCredential(id);
     if (!credential) return false;
-    
-    // Remove from user's credentials
-    const userCredentials = this.webauthnCredentialsByUser.get(credential.userId);
-    if (userCredentials) {
-      userCredentials.delete(id);
-      
-      // If this was the last WebAuthn credential, remove WebAuthn from auth methods
-      if (userCredentials.size === 0) {
-        const user = this.users.get(credential.userId);
-        if (user) {
-          const updatedUser: User = {
-            ...user,
-            authMethods: user.authMethods.filter(method => method !== AuthMethod.WEBAUTHN),
-            updatedAt: new Date()
-          };
-          this.users.set(credential.userId, updatedUser);
-        }
+
+    // Remove credential
+    await storage.deleteWebAuthnCredential(id);
+
+    // If this was the last WebAuthn credential, remove WebAuthn from auth methods
+    const remaining = await storage.getWebAuthnCredentialsByUser(credential.userId);
+    if (remaining.length === 0) {
+      const user = await storage.getUser(credential.userId);
+      if (user) {
+        const updatedUser: User = {
+          ...user,
+          authMethods: user.authMethods.filter(method => method !== AuthMethod.WEBAUTHN),
+          updatedAt: new Date()
+        };
+        await storage.saveUser(updatedUser);
       }
     }
-    
-    // Remove credential
-    this.webauthnCredentials.delete(id);
-    
+
     return true;
   }
-  
+
+  // ==================== Session Methods ====================
+
+  /**
+   * Create a login session
+   */
+  async createSession(
+    session: Omit<Session, 'id' | 'createdAt' | 'lastSeenAt' | 'previousRefreshTokenHashes'>
+  ): Promise<Session> {
+    const storage = await this.getStorage();
+    const now = new Date();
+
+    const newSession: Session = {
+      id: uuidv4(),
+      ...session,
+      previousRefreshTokenHashes: [],
+      createdAt: now,
+      lastSeenAt: now
+    };
+
+    await storage.saveSession(newSession);
+
+    return newSession;
+  }
+
+  /**
+   * Get session by ID
+   */
+  async getSessionById(id: string): Promise<Session | null> {
+    const storage = await this.getStorage();
+    return storage.getSession(id);
+  }
+
+  /**
+   * Get all sessions of a user, oldest first
+   */
+  async getSessionsByUserId(userId: string): Promise<Session[]> {
+    const storage = await this.getStorage();
+    return storage.getSessionsByUser(userId);
+  }
+
+  /**
+   * Update a session
+   */
+  async updateSession(id: string, updates: Partial<Omit<Session, 'id' | 'userId'>>): Promise<Session | null> {
+    const storage = await this.getStorage();
+    const session = await storage.getSession(id);
+    if (!session) return null;
+
+    const updatedSession: Session = {
+      ...session,
+      ...updates
+    };
+
+    await storage.saveSession(updatedSession);
+
+    return updatedSession;
+  }
+
+  /**
+   * Rotate a session's refresh token if the presented one is still current
+   * The check and the write are a single conditional update, so of two concurrent
+   * rotations with the same token only one succeeds.
+   * @param session - Session as read before the rotation
+   * @param expectedRefreshTokenHash - Hash of the presented refresh token
+   * @param updates - New refresh token hash and other changes
+   * @returns The updated session, or null if it was rotated or revoked in the meantime
+   */
+  async swapSessionRefreshToken(
+    session: Session,
+    expectedRefreshTokenHash: string,
+    updates: Partial<Omit<Session, 'id' | 'userId'>>
+  ): Promise<Session | null> {
+    const storage = await this.getStorage();
+    const updatedSession: Session = {
+      ...session,
+      ...updates
+    };
+
+    return (await storage.swapSession(updatedSession, expectedRefreshTokenHash)) ? updatedSession : null;
+  }
+
+  /**
+   * Revoke a session; revoking an already revoked session keeps the original reason
+   */
+  async revokeSession(id: string, reason: SessionRevocationReason): Promise<Session | null> {
+    const storage = await this.getStorage();
+    const session = await storage.getSession(id);
+    if (!session) return null;
+    if (session.revokedAt) return session;
+
+    const revokedSession: Session = {
+      ...session,
+      revokedAt: new Date(),
+      revokedReason: reason
+    };
+
+    await storage.saveSession(revokedSession);
+
+    return revokedSession;
+  }
+
+  // ==================== Recovery Methods ====================
+
+  /**
+   * Open an account recovery request
+   */
+  async createRecoveryRequest(
+    request: Omit<RecoveryRequest, 'id' | 'status' | 'createdAt'>
+  ): Promise<RecoveryRequest> {
+    const storage = await this.getStorage();
+
+    const newRequest: RecoveryRequest = {
+      id: uuidv4(),
+      ...request,
+      status: 'pending',
+      createdAt: new Date()
+    };
+
+    await storage.saveRecoveryRequest(newRequest);
+
+    return newRequest;
+  }
+
+  /**
+   * Get recovery request by ID
+   */
+  async getRecoveryRequestById(id: string): Promise<RecoveryRequest | null> {
+    const storage = await this.getStorage();
+    return storage.getRecoveryRequest(id);
+  }
+
+  /**
+   * Get all recovery requests of a user, oldest first
+   */
+  async getRecoveryRequestsByUserId(userId: string): Promise<RecoveryRequest[]> {
+    const storage = await this.getStorage();
+    return storage.getRecoveryRequestsByUser(userId);
+  }
+
+  /**
+   * Update a recovery request
+   */
+  async updateRecoveryRequest(
+    id: string,
+    updates: Partial<Omit<RecoveryRequest, 'id' | 'userId'>>
+  ): Promise<RecoveryRequest | null> {
+    const storage = await this.getStorage();
+    const request = await storage.getRecoveryRequest(id);
+    if (!request) return null;
+
+    const updatedRequest: RecoveryRequest = {
+      ...request,
+      ...updates
+    };
+
+    await storage.saveRecoveryRequest(updatedRequest);
+
+    return updatedRequest;
+  }
+
+  /**
+   * Store a credential issued to a user
+   */
+  async storeIssuedCredential(record: IssuedCredentialRecord): Promise<IssuedCredentialRecord> {
+    const storage = await this.getStorage();
+    await storage.saveIssuedCredential(record);
+
+    return record;
+  }
+
+  /**
+   * Get credentials issued to a user
+   */
+  async getIssuedCredentials(userId: string): Promise<IssuedCredentialRecord[]> {
+    const storage = await this.getStorage();
+    return storage.getIssuedCredentialsByUser(userId);
+  }
+
+  /**
+   * Get an issued credential by its credential ID
+   */
+  async getIssuedCredential(id: string): Promise<IssuedCredentialRecord | null> {
+    const storage = await this.getStorage();
+    return storage.getIssuedCredential(id);
+  }
+
+  /**
+   * Get a status list by ID
+   */
+  async getStatusList(id: string): Promise<StatusListRecord | null> {
+    const storage = await this.getStorage();
+    return storage.getStatusList(id);
+  }
+
+  /**
+   * Get all status lists, oldest first
+   */
+  async getStatusLists(): Promise<StatusListRecord[]> {
+    const storage = await this.getStorage();
+    return storage.listStatusLists();
+  }
+
+  /**
+   * Store a status list
+   */
+  async saveStatusList(list: StatusListRecord): Promise<StatusListRecord> {
+    const storage = await this.getStorage();
+    await storage.saveStatusList(list);
+
+    return list;
+  }
+
   /**
    * Get all users (for admin purposes)
    */
   async getAllUsers(): Promise<User[]> {
-    return Array.from(this.users.values());
+    const storage = await this.getStorage();
+    return storage.listUsers();
   }
-  
+
   /**
    * Clear all data (for testing purposes)
    */
   async clearAll(): Promise<void> {
-    this.users.clear();
-    this.emailIndex.clear();
-    this.phoneIndex.clear();
-    this.didIndex.clear();
-    this.otpRecords.clear();
-    this.webauthnCredentials.clear();
-    this.webauthnCredentialsByUser.clear();
+    const storage = await this.getStorage();
+    await storage.clear();
   }
 }
 
@@ -0,0 +1,119 @@
+import authRoutes from './auth';
+import userModel from '../models/user';
+import * as otp from '../utils/otp';
+import { OtpDeliveryMethod, OtpRecord, OtpStatus, User } from '../types';
+import { request, resetStore, signIn, startServer, TestServer } from '../test/server';
+
+describe('auth routes', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer({ '/api/auth': authRoutes });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await resetStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('POST /recovery/start', () => {
+    let user: User;
+    let emailOtp: OtpRecord;
+    let phoneOtp: OtpRecord;
+
+    beforeEach(async () => {
+      ({ user } = await signIn({ email: 'holder@example.com', phone: '+15551234567' }));
+      emailOtp = await userModel.createOtp(user.email!, OtpDeliveryMethod.EMAIL, '111111', user.id, 'recovery');
+      phoneOtp = await userModel.createOtp(user.phone!, OtpDeliveryMethod.SMS, '222222', user.id, 'recovery');
+    });
+
+    const startRecovery = (verifications: { otpId: string; code: string }[]) =>
+      request(`${server.url}/api/auth/recovery/start`, { verifications });
+
+    it('opens a recovery request once both channels are verified', async () => {
+      const response = await startRecovery([
+        { otpId: emailOtp.id, code: '111111' },
+        { otpId: phoneOtp.id, code: '222222' }
+      ]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.recoveryToken).toEqual(expect.any(String));
+      expect((await userModel.getOtpById(emailOtp.id))?.status).toBe(OtpStatus.VERIFIED);
+      expect((await userModel.getOtpById(phoneOtp.id))?.status).toBe(OtpStatus.VERIFIED);
+      expect((await userModel.getRecoveryRequestsByUserId(user.id))[0].notifiedMethods).toEqual([
+        OtpDeliveryMethod.EMAIL,
+        OtpDeliveryMethod.SMS
+      ]);
+    });
+
+    it('records the channels the owner was notified on', async () => {
+      jest.spyOn(otp, 'sendAccountNotice').mockImplementation(async (_recipient, method) => method === OtpDeliveryMethod.SMS);
+
+      const response = await startRecovery([
+        { otpId: emailOtp.id, code: '111111' },
+        { otpId: phoneOtp.id, code: '222222' }
+      ]);
+
+      expect(response.status).toBe(200);
+      expect((await userModel.getRecoveryRequestsByUserId(user.id))[0]).toMatchObject({
+        status: 'pending',
+        notifiedMethods: [OtpDeliveryMethod.SMS]
+      });
+    });
+
+    it('does not start a recovery the owner could not be notified of', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(otp, 'sendAccountNotice').mockResolvedValue(false);
+
+      const response = await startRecovery([
+        { otpId: emailOtp.id, code: '111111' },
+        { otpId: phoneOtp.id, code: '222222' }
+      ]);
+
+      expect(response.status).toBe(503);
+      expect(response.body.recoveryToken).toBeUndefined();
+      expect((await userModel.getRecoveryRequestsByUserId(user.id))[0].status).toBe('cancelled');
+    });
+
+    it('does not use up a valid code when the other one is wrong', async () => {
+      const response = await startRecovery([
+        { otpId: emailOtp.id, code: '111111' },
+        { otpId: phoneOtp.id, code: '000000' }
+      ]);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ message: 'Invalid recovery code', otpId: phoneOtp.id });
+      expect(await userModel.getOtpById(emailOtp.id)).toMatchObject({ status: OtpStatus.PENDING, attempts: 0 });
+      expect(await userModel.getOtpById(phoneOtp.id)).toMatchObject({ status: OtpStatus.INVALID, attempts: 1 });
+      expect(await userModel.getRecoveryRequestsByUserId(user.id)).toEqual([]);
+    });
+
+    it('does not use up a code when the other channel is missing', async () => {
+      const response = await startRecovery([{ otpId: emailOtp.id, code: '111111' }]);
+
+      expect(response.status).toBe(400);
+      expect(response.body.missingMethods).toEqual([OtpDeliveryMethod.SMS]);
+      expect((await userModel.getOtpById(emailOtp.id))?.status).toBe(OtpStatus.PENDING);
+    });
+
+    it('rejects codes that were already used', async () => {
+      const verifications = [
+        { otpId: emailOtp.id, code: '111111' },
+        { otpId: phoneOtp.id, code: '222222' }
+      ];
+      await startRecovery(verifications);
+
+      const response = await startRecovery(verifications);
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Invalid recovery code. Please request a new one.');
+    });
+  });
+});
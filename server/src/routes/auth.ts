@@ -5,12 +5,17 @@ import {
   OtpDeliveryMethod, 
   OtpStatus,
   RequestOtpRequest,
-  VerifyOtpRequest
+  VerifyOtpRequest,
+  RefreshTokenRequest,
+  LogoutRequest,
+  StartRecoveryRequest,
+  RecoveryTokenRequest
 } from '../types';
 import userModel from '../models/user';
 import otpUtils from '../utils/otp';
 import authUtils from '../utils/auth';
-import didUtils from '../utils/did';
+import issuerUtils from '../utils/issuer';
+import recoveryUtils from '../utils/recovery';
 
 const router = express.Router();
 
@@ -89,6 +94,31 @@ router.post('/request-otp', [
       });
     }
 
+    // For recovery, the user must exist and every channel on file has to be verified
+    if (purpose === 'recovery') {
+      const user = email 
+        ? await userModel.getUserByEmail(email)
+        : await userModel.getUserByPhone(phone!);
+
+      if (!user) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: `No account found with this ${email ? 'email' : 'phone number'}.`
+        });
+      }
+
+      const otpRecord = await otpUtils.createAndSendOtp(recipient!, method, purpose, user.id);
+
+      return res.status(200).json({
+        success: true,
+        message: `OTP sent to ${method === OtpDeliveryMethod.EMAIL ? 'email' : 'phone'}`,
+        otpId: otpRecord!.id,
+        expiresAt: otpRecord!.expiresAt,
+        method,
+        requiredMethods: recoveryUtils.getRequiredRecoveryMethods(user)
+      });
+    }
+
     // For registration, check if user already exists
     if (purpose === 'registration') {
       const existingUser = email 
@@ -164,6 +194,15 @@ router.post('/verify-otp', [
   const { otpId, code, registerUser, name } = req.body as VerifyOtpRequest;
 
   try {
+    // Recovery codes only open a recovery request (POST /api/auth/recovery/start)
+    const pendingOtp = await userModel.getOtpById(otpId);
+    if (pendingOtp?.purpose === 'recovery') {
+      return res.status(400).json({
+        error: 'Verification Error',
+        message: 'Recovery codes cannot be used to log in'
+      });
+    }
+
     // Verify OTP
     const otpRecord = await otpUtils.verifyOtp(otpId, code);
 
@@ -246,18 +285,14 @@ router.post('/verify-otp', [
           await userModel.verifyPhone(user.id);
         }
 
-        // Generate DID for new user
+        // Issue verification credentials (only once the user has a DID)
         try {
-          const { did, didDocument, keyPair } = await didUtils.generateDID();
-          await userModel.setUserDid(user.id, did, didDocument);
-          
-          // Note: In a production app, we would securely store the keyPair
-          // For MVP, we'll assume the client generates and manages keys
-          console.log(`Generated DID for user ${user.id}: ${did}`);
+          await issuerUtils.issueVerifiedContactCredentials(user.id);
         } catch (error) {
-          console.error('Error generating DID:', error);
-          // Continue even if DID generation fails
+          console.error('Error issuing verification credentials:', error);
         }
+
+        // The DID is generated on the client and registered via /api/user/did/register
       } else if (!user && !registerUser) {
         return res.status(404).json({
           error: 'Not Found',
@@ -269,8 +304,8 @@ router.post('/verify-otp', [
     // Update last login timestamp
     await userModel.updateLastLogin(user.id);
 
-    // Generate JWT token
-    const token = authUtils.generateToken(user, authMethod);
+    // Start a session and issue its tokens
+    const { token, refreshToken } = await authUtils.startSession(user, authMethod, req);
 
     // Check if device supports WebAuthn
     const supportsWebAuthn = req.headers['user-agent']?.includes('Chrome') || 
@@ -281,6 +316,7 @@ router.post('/verify-otp', [
       success: true,
       message: 'Authentication successful',
       token,
+      refreshToken,
       user: {
         id: user.id,
         name: user.name,
@@ -302,30 +338,44 @@ router.post('/verify-otp', [
 });
 
 /**
- * Refresh JWT token
+ * Exchange a refresh token for a new access token
+ * The refresh token is rotated: the response carries a new one and the old one
+ * stops working. Reusing an old refresh token revokes the session.
  * POST /api/auth/refresh-token
  */
-router.post('/refresh-token', authUtils.authenticate, async (req: Request, res: Response) => {
+router.post('/refresh-token', [
+  body('refreshToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required')
+], async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array() 
+    });
+  }
+
+  const { refreshToken } = req.body as RefreshTokenRequest;
+
   try {
-    const user = (req as any).user;
-    
-    // Get full user from database
-    const fullUser = await userModel.getUserById(user.id);
+    const tokens = await authUtils.rotateRefreshToken(refreshToken, req);
     
-    if (!fullUser) {
-      return res.status(404).json({
-        error: 'Not Found',
-        message: 'User not found'
+    if (!tokens) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid or expired refresh token'
       });
     }
     
-    // Generate new token
-    const token = authUtils.generateToken(fullUser, user.authMethod);
-    
     return res.status(200).json({
       success: true,
       message: 'Token refreshed',
-      token
+      token: tokens.token,
+      refreshToken: tokens.refreshToken
     });
   } catch (error) {
     console.error('Error refreshing token:', error);
@@ -353,8 +403,9 @@ router.post('/validate-token', async (req: Request, res: Response) => {
     }
     
     const payload = authUtils.verifyToken(token);
+    const session = payload?.sid ? await userModel.getSessionById(payload.sid) : null;
     
-    if (!payload) {
+    if (!payload || !authUtils.isSessionActive(session)) {
       return res.status(401).json({
         error: 'Unauthorized',
         message: 'Invalid or expired token',
@@ -385,16 +436,321 @@ router.post('/validate-token', async (req: Request, res: Response) => {
 });
 
 /**
- * Logout (client-side only in MVP)
+ * Logout: revoke the current session
+ * The session is identified by the refresh token or, failing that, the access token,
+ * so logging out works even after the access token has expired.
  * POST /api/auth/logout
  */
-router.post('/logout', (req: Request, res: Response) => {
-  // In MVP, logout is handled client-side by removing the token
-  // This endpoint is just for completeness
-  return res.status(200).json({
-    success: true,
-    message: 'Logged out successfully'
-  });
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body as LogoutRequest;
+    let sessionId: string | undefined;
+    
+    if (typeof refreshToken === 'string' && refreshToken) {
+      sessionId = (await authUtils.getSessionByRefreshToken(refreshToken))?.id;
+    }
+    
+    if (!sessionId) {
+      const token = authUtils.extractTokenFromHeader(req);
+      sessionId = token ? authUtils.verifyToken(token)?.sid : undefined;
+    }
+    
+    if (sessionId) {
+      await userModel.revokeSession(sessionId, 'logout');
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to log out'
+    });
+  }
+});
+
+/**
+ * Open an account recovery with recovery OTPs for every email and phone on file
+ * The request can be completed after the cool-down period; the account owner is
+ * notified and can cancel it in the meantime.
+ * POST /api/auth/recovery/start
+ */
+router.post('/recovery/start', [
+  body('verifications')
+    .isArray({ min: 1, max: 2 })
+    .withMessage('One verification per contact channel is required'),
+  body('verifications.*.otpId')
+    .isString()
+    .notEmpty()
+    .withMessage('OTP ID is required'),
+  body('verifications.*.code')
+    .isString()
+    .notEmpty()
+    .withMessage('OTP code is required')
+], async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array() 
+    });
+  }
+
+  const { verifications } = req.body as StartRecoveryRequest;
+
+  try {
+    let userId: string | undefined;
+    const verifiedRecipients = new Map<OtpDeliveryMethod, string>();
+    
+    // Check every code before using any, so one wrong code does not burn the others
+    for (const { otpId, code } of verifications) {
+      // Verified codes cannot be replayed
+      const pendingOtp = await userModel.getOtpById(otpId);
+      if (!pendingOtp || pendingOtp.purpose !== 'recovery' || pendingOtp.status !== OtpStatus.PENDING || !pendingOtp.userId) {
+        return res.status(400).json({
+          error: 'Verification Error',
+          message: 'Invalid recovery code. Please request a new one.'
+        });
+      }
+      
+      if (userId && pendingOtp.userId !== userId) {
+        return res.status(400).json({
+          error: 'Verification Error',
+          message: 'Recovery codes belong to different accounts'
+        });
+      }
+      userId = pendingOtp.userId;
+      
+      if (new Date() <= pendingOtp.expiresAt && pendingOtp.code === code) {
+        verifiedRecipients.set(pendingOtp.method, pendingOtp.recipient);
+        continue;
+      }
+      
+      // Record the failed attempt
+      const otpRecord = await otpUtils.verifyOtp(otpId, code);
+      
+      if (otpRecord?.status === OtpStatus.EXPIRED) {
+        return res.status(400).json({
+          error: 'Verification Error',
+          message: 'Recovery code has expired. Please request a new one.'
+        });
+      }
+      
+      return res.status(400).json({
+        error: 'Verification Error',
+        message: 'Invalid recovery code',
+        otpId,
+        attemptsLeft: otpRecord ? otpRecord.maxAttempts - otpRecord.attempts : 0
+      });
+    }
+    
+    const user = userId ? await userModel.getUserById(userId) : null;
+    
+    if (!user) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'User not found'
+      });
+    }
+    
+    // Every channel on file must be verified, at its current address
+    const requiredMethods = recoveryUtils.getRequiredRecoveryMethods(user);
+    const missingMethods = requiredMethods.filter(method =>
+      verifiedRecipients.get(method) !== (method === OtpDeliveryMethod.EMAIL ? user.email : user.phone)
+    );
+    
+    if (missingMethods.length > 0) {
+      return res.status(400).json({
+        error: 'Verification Error',
+        message: 'Both your email and phone number must be verified to recover your account',
+        requiredMethods,
+        missingMethods
+      });
+    }
+    
+    // All codes are valid: use them up
+    for (const { otpId, code } of verifications) {
+      const otpRecord = await otpUtils.verifyOtp(otpId, code);
+      
+      if (otpRecord?.status !== OtpStatus.VERIFIED) {
+        return res.status(400).json({
+          error: 'Verification Error',
+          message: 'Invalid recovery code. Please request a new one.'
+        });
+      }
+    }
+    
+    const { recoveryToken, request } = await recoveryUtils.openRecoveryRequest(user, requiredMethods, req);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Account recovery started',
+      recoveryToken,
+      availableAt: request.availableAt
+    });
+  } catch (error: any) {
+    console.error('Error starting account recovery:', error);
+    
+    if (error.message === 'Maximum verification attempts reached') {
+      return res.status(400).json({
+        error: 'Verification Error',
+        message: 'Maximum verification attempts reached. Please request a new code.'
+      });
+    }
+    
+    if (error.message === 'Account owner could not be notified') {
+      return res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'No notice of the recovery could be sent to your email or phone. Please try again later.'
+      });
+    }
+    
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to start account recovery'
+    });
+  }
+});
+
+/**
+ * Get the state of an account recovery
+ * POST /api/auth/recovery/status
+ */
+router.post('/recovery/status', [
+  body('recoveryToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Recovery token is required')
+], async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array() 
+    });
+  }
+
+  const { recoveryToken } = req.body as RecoveryTokenRequest;
+
+  try {
+    const request = await recoveryUtils.getRecoveryRequestByToken(recoveryToken);
+    
+    if (!request) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Recovery request not found'
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      status: request.status,
+      availableAt: request.availableAt,
+      ready: recoveryUtils.isRecoveryReady(request)
+    });
+  } catch (error) {
+    console.error('Error getting recovery status:', error);
+    
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get recovery status'
+    });
+  }
+});
+
+/**
+ * Complete an account recovery after its cool-down period
+ * Signs out every session, removes all passkeys and returns tokens for a new session
+ * that can enroll a passkey and re-bind the DID.
+ * POST /api/auth/recovery/complete
+ */
+router.post('/recovery/complete', [
+  body('recoveryToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Recovery token is required')
+], async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array() 
+    });
+  }
+
+  const { recoveryToken } = req.body as RecoveryTokenRequest;
+
+  try {
+    const request = await recoveryUtils.getRecoveryRequestByToken(recoveryToken);
+    
+    if (!request) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Recovery request not found'
+      });
+    }
+    
+    if (request.status !== 'pending') {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: request.status === 'cancelled'
+          ? 'This recovery was cancelled by the account owner'
+          : 'This recovery has already been completed'
+      });
+    }
+    
+    if (!recoveryUtils.isRecoveryReady(request)) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'The recovery cool-down period has not ended yet',
+        availableAt: request.availableAt
+      });
+    }
+    
+    const user = await userModel.getUserById(request.userId);
+    
+    if (!user) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'User not found'
+      });
+    }
+    
+    const { token, refreshToken, request: completedRequest } =
+      await recoveryUtils.completeRecoveryRequest(request, user, req);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Account recovered',
+      token,
+      refreshToken,
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        phone: user.phone,
+        did: user.did
+      },
+      didRebindExpiresAt: completedRequest.didRebindExpiresAt
+    });
+  } catch (error) {
+    console.error('Error completing account recovery:', error);
+    
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to complete account recovery'
+    });
+  }
 });
 
 export default router;
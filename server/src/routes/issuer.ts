@@ -0,0 +1,140 @@
+import express, { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import userModel from '../models/user';
+import authUtils from '../utils/auth';
+import issuerUtils from '../utils/issuer';
+
+const router = express.Router();
+
+/**
+ * Get the issuer DID and DID document
+ * GET /api/issuer
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const issuer = await issuerUtils.getIssuer();
+
+    return res.status(200).json({
+      success: true,
+      did: issuer.did,
+      name: issuer.name,
+      didDocument: issuer.didDocument
+    });
+  } catch (error: any) {
+    console.error('Error getting issuer:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get issuer information'
+    });
+  }
+});
+
+/**
+ * List available credential templates
+ * GET /api/issuer/templates
+ */
+router.get('/templates', async (_req: Request, res: Response) => {
+  const templates = Object.values(issuerUtils.credentialTemplates).map(template => ({
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    validityDays: template.validityDays
+  }));
+
+  return res.status(200).json({
+    success: true,
+    templates,
+    formats: issuerUtils.CREDENTIAL_FORMATS
+  });
+});
+
+/**
+ * Issue a credential to the authenticated user's DID
+ * POST /api/issuer/issue
+ */
+router.post('/issue', [
+  body('template')
+    .isIn(Object.keys(issuerUtils.credentialTemplates))
+    .withMessage('Unknown credential template'),
+  body('format')
+    .optional()
+    .isIn(issuerUtils.CREDENTIAL_FORMATS)
+    .withMessage('Unsupported credential format')
+], authUtils.authenticate, async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array()
+    });
+  }
+
+  try {
+    const userId = (req as any).user.id;
+    const { template, format } = req.body;
+
+    const user = await userModel.getUserById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'User not found'
+      });
+    }
+
+    if (!user.did) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Register a DID before requesting credentials'
+      });
+    }
+
+    if (!issuerUtils.credentialTemplates[template].isEligible(user)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `You are not eligible for ${template}`
+      });
+    }
+
+    const credential = await issuerUtils.issueCredential(template, user, user.did, format);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Credential issued successfully',
+      credential
+    });
+  } catch (error: any) {
+    console.error('Error issuing credential:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to issue credential'
+    });
+  }
+});
+
+/**
+ * Get credentials issued to the authenticated user
+ * GET /api/issuer/credentials
+ */
+router.get('/credentials', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const records = await userModel.getIssuedCredentials(userId);
+
+    return res.status(200).json({
+      success: true,
+      credentials: records.map(issuerUtils.getDeliveredCredential)
+    });
+  } catch (error: any) {
+    console.error('Error getting issued credentials:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get issued credentials'
+    });
+  }
+});
+
+export default router;
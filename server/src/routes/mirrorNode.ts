@@ -0,0 +1,119 @@
+import express, { Request, Response } from 'express';
+import { getMockTopic } from '../utils/hedera';
+
+/**
+ * Mock Hedera mirror node
+ * Serves the subset of the mirror node REST API used by the did:hedera resolver from
+ * the in-process ledger of the 'local' network. Only mounted when HEDERA_NETWORK=local.
+ */
+const router = express.Router();
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * Send a mirror node style 404
+ */
+function sendNotFound(res: Response) {
+  return res.status(404).json({
+    _status: {
+      messages: [{ message: 'Not found' }]
+    }
+  });
+}
+
+/**
+ * Parse a sequencenumber filter such as gt:5 or 5 (eq)
+ */
+function parseSequenceFilter(value: string): ((sequenceNumber: number) => boolean) | null {
+  const match = value.match(/^(?:(eq|gt|gte|lt|lte):)?(\d+)$/);
+  if (!match) return null;
+
+  const operand = Number(match[2]);
+  switch (match[1] || 'eq') {
+    case 'gt': return (n) => n > operand;
+    case 'gte': return (n) => n >= operand;
+    case 'lt': return (n) => n < operand;
+    case 'lte': return (n) => n <= operand;
+    default: return (n) => n === operand;
+  }
+}
+
+/**
+ * Get topic info
+ * GET /mirror-node/api/v1/topics/:topicId
+ */
+router.get('/api/v1/topics/:topicId', (req: Request, res: Response) => {
+  const topic = getMockTopic(req.params.topicId);
+  if (!topic) {
+    return sendNotFound(res);
+  }
+
+  return res.status(200).json({
+    topic_id: req.params.topicId,
+    memo: topic.memo,
+    created_timestamp: topic.createdTimestamp,
+    deleted: false
+  });
+});
+
+/**
+ * List topic messages
+ * GET /mirror-node/api/v1/topics/:topicId/messages?limit=&order=&sequencenumber=
+ */
+router.get('/api/v1/topics/:topicId/messages', (req: Request, res: Response) => {
+  const topic = getMockTopic(req.params.topicId);
+  if (!topic) {
+    return sendNotFound(res);
+  }
+
+  const limit = Math.min(Number(req.query.limit) || DEFAULT_LIMIT, MAX_LIMIT);
+  const order = req.query.order === 'desc' ? 'desc' : 'asc';
+  const filters = ([] as any[]).concat(req.query.sequencenumber || []).map(value => parseSequenceFilter(String(value)));
+
+  if (filters.some(filter => !filter)) {
+    return res.status(400).json({
+      _status: {
+        messages: [{ message: 'Invalid parameter: sequencenumber' }]
+      }
+    });
+  }
+
+  let messages = topic.messages.filter(message =>
+    filters.every(filter => filter!(message.sequence_number))
+  );
+  if (order === 'desc') {
+    messages = [...messages].reverse();
+  }
+
+  const page = messages.slice(0, limit);
+  let next: string | null = null;
+
+  if (messages.length > limit) {
+    const last = page[page.length - 1].sequence_number;
+    next = `${req.baseUrl}/api/v1/topics/${req.params.topicId}/messages?order=${order}&limit=${limit}` +
+      `&sequencenumber=${order === 'asc' ? 'gt' : 'lt'}:${last}`;
+  }
+
+  return res.status(200).json({
+    messages: page,
+    links: { next }
+  });
+});
+
+/**
+ * Get a topic message by sequence number
+ * GET /mirror-node/api/v1/topics/:topicId/messages/:sequenceNumber
+ */
+router.get('/api/v1/topics/:topicId/messages/:sequenceNumber', (req: Request, res: Response) => {
+  const message = getMockTopic(req.params.topicId)?.messages
+    .find(candidate => candidate.sequence_number === Number(req.params.sequenceNumber));
+
+  if (!message) {
+    return sendNotFound(res);
+  }
+
+  return res.status(200).json(message);
+});
+
+export default router;
@@ -0,0 +1,104 @@
+import oid4vciRoutes from './oid4vci';
+import didUtils from '../utils/did';
+import issuerUtils from '../utils/issuer';
+import { signJws } from '../utils/crypto';
+import { request, resetStore, signIn, startServer, TestServer } from '../test/server';
+import { createHolderDid, TestHolder } from '../test/did';
+
+describe('oid4vci routes', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer({ '/api/oid4vci': oid4vciRoutes });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await resetStore();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Accept an offer of EmailVerifiedCredential as a wallet would
+   */
+  const redeemOffer = async (): Promise<{ accessToken: string; cNonce: string }> => {
+    const { token } = await signIn();
+    const offer = await request(`${server.url}/api/oid4vci/offers`, { template: 'EmailVerifiedCredential' }, token);
+    const grant = offer.body.offer.grants['urn:ietf:params:oauth:grant-type:pre-authorized_code'];
+
+    const response = await request(`${server.url}/api/oid4vci/token`, {
+      grant_type: 'urn:ietf:params:oauth:grant-type:pre-authorized_code',
+      'pre-authorized_code': grant['pre-authorized_code']
+    });
+
+    return { accessToken: response.body.access_token, cNonce: response.body.c_nonce };
+  };
+
+  const signProof = (holder: TestHolder, nonce: string): string =>
+    signJws(
+      { aud: process.env.ISSUER_URL, nonce, iat: Math.floor(Date.now() / 1000) },
+      holder.privateKeyJwk,
+      { typ: 'openid4vci-proof+jwt', kid: holder.kid }
+    );
+
+  const requestCredential = (accessToken: string, proof: string) =>
+    request(
+      `${server.url}/api/oid4vci/credential`,
+      { credential_configuration_id: 'EmailVerifiedCredential', proof: { proof_type: 'jwt', jwt: proof } },
+      accessToken
+    );
+
+  describe('POST /credential', () => {
+    it('issues a credential bound to the proven holder DID', async () => {
+      const holder = await createHolderDid();
+      const { accessToken, cNonce } = await redeemOffer();
+
+      const response = await requestCredential(accessToken, signProof(holder, cNonce));
+
+      expect(response.status).toBe(200);
+      expect(response.body.credential.credentialSubject.id).toBe(holder.did);
+      expect(response.body.c_nonce).not.toBe(cNonce);
+    });
+
+    it('issues one credential for a proof sent twice at once', async () => {
+      const holder = await createHolderDid();
+      const { accessToken, cNonce } = await redeemOffer();
+      const proof = signProof(holder, cNonce);
+      // Keep the first issuance in flight while the second request arrives
+      const issueCredential = issuerUtils.issueCredential;
+      jest.spyOn(issuerUtils, 'issueCredential').mockImplementation(async (...args) => {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return issueCredential(...args);
+      });
+
+      const responses = await Promise.all([requestCredential(accessToken, proof), requestCredential(accessToken, proof)]);
+
+      expect(responses.map(response => response.status).sort()).toEqual([200, 400]);
+      expect(responses.find(response => response.status === 400)!.body.error_description).toBe(
+        'Proof is not bound to this issuer and nonce'
+      );
+    });
+
+    it('rejects a proof signed with a key the DID does not authenticate or assert with', async () => {
+      const holder = await createHolderDid();
+      const { accessToken, cNonce } = await redeemOffer();
+      const { authentication, assertionMethod, ...didDocument } = holder.didDocument;
+      jest.spyOn(didUtils, 'resolveDID').mockResolvedValue({ ...didDocument, capabilityInvocation: [holder.kid] });
+
+      const response = await requestCredential(accessToken, signProof(holder, cNonce));
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        error: 'invalid_proof',
+        error_description: 'Proof key is not an authentication or assertion method of the holder DID'
+      });
+    });
+  });
+});
@@ -0,0 +1,445 @@
+import express, { Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import crypto from 'crypto';
+import {
+  CreateCredentialOfferRequest,
+  CredentialFormat,
+  CredentialOffer,
+  CreateCredentialOfferResponse
+} from '../types';
+import userModel from '../models/user';
+import authUtils from '../utils/auth';
+import didUtils from '../utils/did';
+import issuerUtils from '../utils/issuer';
+import { decodeJws, verifyJws } from '../utils/crypto';
+
+/**
+ * OpenID for Verifiable Credential Issuance (pre-authorized code flow)
+ *
+ * The wallet's own issuer acts as a credential issuer so the OID4VCI receive
+ * flow can be exercised locally. Protocol endpoints answer with OAuth-style
+ * errors ({ error, error_description }) as required by the specification.
+ */
+const router = express.Router();
+const wellKnownRouter = express.Router();
+
+const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+const PROOF_JWT_TYPE = 'openid4vci-proof+jwt';
+
+// Configuration IDs of the JWT variant of a template end with this suffix
+const JWT_CONFIGURATION_SUFFIX = '_jwt';
+
+const OFFER_TTL_MS = 10 * 60 * 1000;        // 10 minutes
+const ACCESS_TOKEN_TTL_MS = 5 * 60 * 1000;  // 5 minutes
+const PROOF_MAX_AGE_MS = 5 * 60 * 1000;     // 5 minutes
+const TX_CODE_LENGTH = 6;
+const MAX_TX_CODE_ATTEMPTS = 3;
+
+// Pre-authorized codes and access tokens (in-memory for MVP)
+interface PreAuthorizedOffer {
+  id: string;
+  userId: string;
+  offer: CredentialOffer;
+  txCode?: string;
+  txCodeAttempts: number;
+  expires: Date;
+}
+
+interface AccessTokenRecord {
+  userId: string;
+  credentialConfigurationIds: string[];
+  cNonce: string;
+  expires: Date;
+}
+
+const offersById = new Map<string, PreAuthorizedOffer>();
+const offersByCode = new Map<string, PreAuthorizedOffer>();
+const accessTokens = new Map<string, AccessTokenRecord>();
+
+// Clean up expired offers and tokens periodically
+setInterval(() => {
+  const now = new Date();
+  offersById.forEach((offer, id) => {
+    if (offer.expires < now) {
+      offersById.delete(id);
+      offersByCode.delete(offer.offer.grants![PRE_AUTHORIZED_CODE_GRANT]!['pre-authorized_code']);
+    }
+  });
+  accessTokens.forEach((record, token) => {
+    if (record.expires < now) {
+      accessTokens.delete(token);
+    }
+  });
+}, 15 * 60 * 1000).unref(); // Clean up every 15 minutes, without keeping the process alive
+
+/**
+ * Credential issuer identifier (also the base URL of the issuer endpoints)
+ */
+function getCredentialIssuerUrl(): string {
+  return issuerUtils.getIssuerUrl();
+}
+
+/**
+ * Credential configuration ID of a template in a format
+ * @param templateId - Credential template
+ * @param format - Credential format
+ */
+function getConfigurationId(templateId: string, format: CredentialFormat = 'ldp_vc'): string {
+  return format === 'jwt_vc_json' ? `${templateId}${JWT_CONFIGURATION_SUFFIX}` : templateId;
+}
+
+/**
+ * Template and format of a credential configuration ID
+ * @param configurationId - Credential configuration ID
+ */
+function parseConfigurationId(configurationId: string): { templateId: string; format: CredentialFormat } {
+  if (configurationId.endsWith(JWT_CONFIGURATION_SUFFIX)) {
+    return { templateId: configurationId.slice(0, -JWT_CONFIGURATION_SUFFIX.length), format: 'jwt_vc_json' };
+  }
+  return { templateId: configurationId, format: 'ldp_vc' };
+}
+
+/**
+ * Send an OAuth-style error response
+ */
+function sendOAuthError(res: Response, status: number, error: string, description: string): Response {
+  return res.status(status).json({ error, error_description: description });
+}
+
+/**
+ * Credential issuer metadata
+ * GET /.well-known/openid-credential-issuer
+ */
+wellKnownRouter.get('/openid-credential-issuer', async (_req: Request, res: Response) => {
+  try {
+    const issuerUrl = getCredentialIssuerUrl();
+    const issuer = await issuerUtils.getIssuer();
+
+    const credentialConfigurations: Record<string, any> = {};
+    Object.values(issuerUtils.credentialTemplates).forEach(template => {
+      const configuration = {
+        scope: template.id,
+        cryptographic_binding_methods_supported: ['did:key'],
+        proof_types_supported: {
+          jwt: { proof_signing_alg_values_supported: ['EdDSA', 'ES256K'] }
+        },
+        display: [{ name: template.name, description: template.description, locale: 'en-US' }]
+      };
+
+      credentialConfigurations[getConfigurationId(template.id, 'ldp_vc')] = {
+        ...configuration,
+        format: 'ldp_vc',
+        credential_signing_alg_values_supported: [issuerUtils.getProofSuite()],
+        credential_definition: {
+          '@context': ['https://www.w3.org/2018/credentials/v1'],
+          type: ['VerifiableCredential', template.id]
+        }
+      };
+
+      credentialConfigurations[getConfigurationId(template.id, 'jwt_vc_json')] = {
+        ...configuration,
+        format: 'jwt_vc_json',
+        credential_signing_alg_values_supported: ['EdDSA'],
+        credential_definition: {
+          type: ['VerifiableCredential', template.id]
+        }
+      };
+    });
+
+    return res.status(200).json({
+      credential_issuer: issuerUrl,
+      credential_endpoint: `${issuerUrl}/api/oid4vci/credential`,
+      display: [{ name: issuer.name, locale: 'en-US' }],
+      credential_configurations_supported: credentialConfigurations
+    });
+  } catch (error: any) {
+    console.error('Error getting credential issuer metadata:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get credential issuer metadata'
+    });
+  }
+});
+
+/**
+ * OAuth authorization server metadata for the pre-authorized code flow
+ * GET /.well-known/oauth-authorization-server
+ */
+wellKnownRouter.get('/oauth-authorization-server', (_req: Request, res: Response) => {
+  const issuerUrl = getCredentialIssuerUrl();
+
+  return res.status(200).json({
+    issuer: issuerUrl,
+    token_endpoint: `${issuerUrl}/api/oid4vci/token`,
+    grant_types_supported: [PRE_AUTHORIZED_CODE_GRANT],
+    'pre-authorized_grant_anonymous_access_supported': true
+  });
+});
+
+/**
+ * Create a credential offer for the authenticated user
+ * POST /api/oid4vci/offers
+ */
+router.post('/offers', [
+  body('template')
+    .isIn(Object.keys(issuerUtils.credentialTemplates))
+    .withMessage('Unknown credential template'),
+  body('format').optional().isIn(issuerUtils.CREDENTIAL_FORMATS).withMessage('Unsupported credential format'),
+  body('txCode').optional().isBoolean().withMessage('txCode must be a boolean')
+], authUtils.authenticate, async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array()
+    });
+  }
+
+  try {
+    const userId = (req as any).user.id;
+    const { template, format, txCode: requireTxCode } = req.body as CreateCredentialOfferRequest;
+
+    const user = await userModel.getUserById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'User not found'
+      });
+    }
+
+    if (!issuerUtils.credentialTemplates[template].isEligible(user)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `You are not eligible for ${template}`
+      });
+    }
+
+    const id = crypto.randomUUID();
+    const preAuthorizedCode = crypto.randomBytes(32).toString('base64url');
+    const txCode = requireTxCode
+      ? crypto.randomInt(0, 10 ** TX_CODE_LENGTH).toString().padStart(TX_CODE_LENGTH, '0')
+      : undefined;
+    const expires = new Date(Date.now() + OFFER_TTL_MS);
+
+    const offer: CredentialOffer = {
+      credential_issuer: getCredentialIssuerUrl(),
+      credential_configuration_ids: [getConfigurationId(template, format)],
+      grants: {
+        [PRE_AUTHORIZED_CODE_GRANT]: {
+          'pre-authorized_code': preAuthorizedCode,
+          ...(txCode && {
+            tx_code: {
+              input_mode: 'numeric' as const,
+              length: TX_CODE_LENGTH,
+              description: 'Enter the code shown when the offer was created'
+            }
+          })
+        }
+      }
+    };
+
+    const record: PreAuthorizedOffer = { id, userId, offer, txCode, txCodeAttempts: 0, expires };
+    offersById.set(id, record);
+    offersByCode.set(preAuthorizedCode, record);
+
+    const offerUrl = `${getCredentialIssuerUrl()}/api/oid4vci/offers/${id}`;
+    const response: CreateCredentialOfferResponse = {
+      success: true,
+      offer,
+      offerUri: `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(offerUrl)}`,
+      txCode,
+      expiresAt: expires.toISOString()
+    };
+
+    return res.status(200).json(response);
+  } catch (error: any) {
+    console.error('Error creating credential offer:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create credential offer'
+    });
+  }
+});
+
+/**
+ * Get a credential offer by reference (credential_offer_uri)
+ * GET /api/oid4vci/offers/:id
+ */
+router.get('/offers/:id', [
+  param('id').isUUID().withMessage('Invalid offer ID')
+], (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  const record = errors.isEmpty() ? offersById.get(req.params.id) : undefined;
+
+  if (!record || record.expires < new Date()) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Credential offer not found or expired'
+    });
+  }
+
+  return res.status(200).json(record.offer);
+});
+
+/**
+ * Exchange a pre-authorized code for an access token
+ * POST /api/oid4vci/token
+ */
+router.post('/token', (req: Request, res: Response) => {
+  const { grant_type: grantType, tx_code: txCode } = req.body;
+  const preAuthorizedCode = req.body['pre-authorized_code'];
+
+  if (grantType !== PRE_AUTHORIZED_CODE_GRANT) {
+    return sendOAuthError(res, 400, 'unsupported_grant_type', 'Only the pre-authorized code grant is supported');
+  }
+
+  const record = typeof preAuthorizedCode === 'string' ? offersByCode.get(preAuthorizedCode) : undefined;
+
+  if (!record || record.expires < new Date()) {
+    return sendOAuthError(res, 400, 'invalid_grant', 'Pre-authorized code is invalid or expired');
+  }
+
+  if (record.txCode) {
+    if (typeof txCode !== 'string' || !txCode) {
+      return sendOAuthError(res, 400, 'invalid_request', 'Transaction code is required');
+    }
+
+    if (txCode.length !== record.txCode.length ||
+        !crypto.timingSafeEqual(Buffer.from(txCode), Buffer.from(record.txCode))) {
+      // Too many wrong codes invalidates the offer
+      record.txCodeAttempts++;
+      if (record.txCodeAttempts >= MAX_TX_CODE_ATTEMPTS) {
+        offersByCode.delete(preAuthorizedCode);
+        offersById.delete(record.id);
+      }
+      return sendOAuthError(res, 400, 'invalid_grant', 'Transaction code is incorrect');
+    }
+  }
+
+  // Pre-authorized codes are single-use
+  offersByCode.delete(preAuthorizedCode);
+  offersById.delete(record.id);
+
+  const accessToken = crypto.randomBytes(32).toString('base64url');
+  const cNonce = crypto.randomBytes(16).toString('base64url');
+
+  accessTokens.set(accessToken, {
+    userId: record.userId,
+    credentialConfigurationIds: record.offer.credential_configuration_ids,
+    cNonce,
+    expires: new Date(Date.now() + ACCESS_TOKEN_TTL_MS)
+  });
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_MS / 1000,
+    c_nonce: cNonce,
+    c_nonce_expires_in: ACCESS_TOKEN_TTL_MS / 1000
+  });
+});
+
+/**
+ * Issue a credential bound to the holder key proven in the proof JWT
+ * POST /api/oid4vci/credential
+ */
+router.post('/credential', async (req: Request, res: Response) => {
+  const authorization = req.headers.authorization;
+  const accessToken = authorization?.startsWith('Bearer ') ? authorization.substring(7) : undefined;
+  const tokenRecord = accessToken ? accessTokens.get(accessToken) : undefined;
+
+  if (!tokenRecord || tokenRecord.expires < new Date()) {
+    return sendOAuthError(res, 401, 'invalid_token', 'Access token is invalid or expired');
+  }
+
+  try {
+    const requestedType: string | undefined = req.body.credential_definition?.type?.find((type: string) => type !== 'VerifiableCredential');
+    const configurationId: string | undefined = req.body.credential_configuration_id ||
+      (requestedType && getConfigurationId(requestedType, req.body.format === 'jwt_vc_json' ? 'jwt_vc_json' : 'ldp_vc'));
+
+    if (!configurationId || !tokenRecord.credentialConfigurationIds.includes(configurationId)) {
+      return sendOAuthError(res, 400, 'invalid_credential_request', 'Credential was not offered with this access token');
+    }
+
+    const proofJwt = req.body.proof?.proof_type === 'jwt' ? req.body.proof.jwt : undefined;
+    if (typeof proofJwt !== 'string') {
+      return sendOAuthError(res, 400, 'invalid_proof', 'A jwt proof of possession is required');
+    }
+
+    // Verify proof of possession of the holder key
+    let holderDid: string;
+    try {
+      const { header, payload } = decodeJws(proofJwt);
+
+      if (header.typ !== PROOF_JWT_TYPE || typeof header.kid !== 'string') {
+        throw new Error('Unexpected proof header');
+      }
+
+      if (payload.aud !== getCredentialIssuerUrl() || payload.nonce !== tokenRecord.cNonce) {
+        throw new Error('Proof is not bound to this issuer and nonce');
+      }
+
+      if (typeof payload.iat !== 'number' || Math.abs(Date.now() - payload.iat * 1000) > PROOF_MAX_AGE_MS) {
+        throw new Error('Proof is too old');
+      }
+
+      // Each proof nonce is single-use: replace it before anything is awaited, so
+      // concurrent requests with the same proof cannot both get past this point
+      tokenRecord.cNonce = crypto.randomBytes(16).toString('base64url');
+
+      holderDid = header.kid.split('#')[0];
+      const didDocument = await didUtils.resolveDID(holderDid);
+      const verificationMethod = didDocument ? didUtils.getVerificationMethod(didDocument, header.kid) : null;
+
+      // The holder key must be one the DID uses to authenticate or make assertions
+      if (
+        !didDocument ||
+        !verificationMethod ||
+        (!didUtils.hasVerificationRelationship(didDocument, 'authentication', verificationMethod.id) &&
+          !didUtils.hasVerificationRelationship(didDocument, 'assertionMethod', verificationMethod.id))
+      ) {
+        throw new Error('Proof key is not an authentication or assertion method of the holder DID');
+      }
+
+      if (!verifyJws(proofJwt, didUtils.getPublicKeyJwk(verificationMethod))) {
+        throw new Error('Invalid proof signature');
+      }
+    } catch (error: any) {
+      // A fresh nonce lets the wallet retry with a new proof
+      tokenRecord.cNonce = crypto.randomBytes(16).toString('base64url');
+      return res.status(400).json({
+        error: 'invalid_proof',
+        error_description: error.message,
+        c_nonce: tokenRecord.cNonce,
+        c_nonce_expires_in: Math.round((tokenRecord.expires.getTime() - Date.now()) / 1000)
+      });
+    }
+
+    const user = await userModel.getUserById(tokenRecord.userId);
+    const { templateId, format } = parseConfigurationId(configurationId);
+    const template = issuerUtils.credentialTemplates[templateId];
+
+    if (!user || !template?.isEligible(user)) {
+      return sendOAuthError(res, 403, 'access_denied', `Holder is not eligible for ${templateId}`);
+    }
+
+    const credential = await issuerUtils.issueCredential(templateId, user, holderDid, format);
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({
+      credential,
+      c_nonce: tokenRecord.cNonce,
+      c_nonce_expires_in: Math.round((tokenRecord.expires.getTime() - Date.now()) / 1000)
+    });
+  } catch (error: any) {
+    console.error('Error issuing credential via OID4VCI:', error);
+    return sendOAuthError(res, 500, 'server_error', 'Failed to issue credential');
+  }
+});
+
+export { wellKnownRouter };
+export default router;
@@ -0,0 +1,137 @@
+import zlib from 'zlib';
+import statusRoutes from './status';
+import issuerUtils from '../utils/issuer';
+import statusListUtils from '../utils/statusList';
+import { AuthMethod, StatusListEntry, User, VerifiableCredential } from '../types';
+import { resolveDID } from '../utils/did';
+import { verifyProof } from '../utils/proofs';
+import { request, resetStore, startServer, TestServer } from '../test/server';
+
+const ADMIN_API_KEY = 'test-admin-key';
+
+const user: User = {
+  id: 'user-1',
+  name: 'Test Holder',
+  email: 'holder@example.com',
+  did: 'did:example:holder',
+  authMethods: [AuthMethod.EMAIL],
+  isEmailVerified: true,
+  isPhoneVerified: false,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+describe('status routes', () => {
+  const environment = { ...process.env };
+  let server: TestServer;
+  let credential: VerifiableCredential;
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = ADMIN_API_KEY;
+    process.env.ISSUER_PRIVATE_KEY = issuerUtils.generateIssuerPrivateKey();
+    server = await startServer({ '/api/status': statusRoutes });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    process.env = { ...environment };
+  });
+
+  beforeEach(async () => {
+    await resetStore();
+    credential = await issuerUtils.issueCredential('EmailVerifiedCredential', user) as VerifiableCredential;
+  });
+
+  const statusEntry = (purpose: string): StatusListEntry =>
+    (credential.credentialStatus as StatusListEntry[]).find(entry => entry.statusPurpose === purpose)!;
+
+  /**
+   * Fetch the status list an entry points to and read the credential's bit
+   */
+  const readStatus = async (purpose: string): Promise<boolean> => {
+    const entry = statusEntry(purpose);
+    const response = await request(`${server.url}${new URL(entry.statusListCredential).pathname}`);
+    const bits = zlib.gunzipSync(Buffer.from(response.body.credentialSubject.encodedList, 'base64url'));
+    const index = Number(entry.statusListIndex);
+    return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+  };
+
+  const admin = (action: string, key: string = ADMIN_API_KEY) =>
+    request(`${server.url}/api/status/credentials/${credential.id}/${action}`, {}, key);
+
+  describe('GET /lists/:listId/:purpose', () => {
+    it('publishes a signed StatusList2021Credential of every list entry', async () => {
+      const entry = statusEntry('revocation');
+      const response = await request(`${server.url}${new URL(entry.statusListCredential).pathname}`);
+      const { proof, ...list } = response.body;
+      const issuerDocument = await resolveDID((await issuerUtils.getIssuer()).did);
+
+      expect(response.status).toBe(200);
+      expect(list).toMatchObject({
+        id: entry.statusListCredential,
+        type: ['VerifiableCredential', 'StatusList2021Credential'],
+        credentialSubject: { statusPurpose: 'revocation' }
+      });
+      expect(await verifyProof(list, proof, issuerDocument!.verificationMethod![0].publicKeyJwk)).toBe(true);
+      expect(zlib.gunzipSync(Buffer.from(list.credentialSubject.encodedList, 'base64url'))).toHaveLength(
+        statusListUtils.STATUS_LIST_LENGTH / 8
+      );
+    });
+
+    it('returns 404 for unknown lists and purposes', async () => {
+      expect((await request(`${server.url}/api/status/lists/99/revocation`)).status).toBe(404);
+      expect((await request(`${server.url}/api/status/lists/1/message`)).status).toBe(404);
+    });
+  });
+
+  describe('admin endpoints', () => {
+    it('revokes a credential permanently', async () => {
+      expect(await readStatus('revocation')).toBe(false);
+
+      const response = await admin('revoke');
+
+      expect(response.body.credential).toMatchObject({ id: credential.id, revoked: true, suspended: false });
+      expect(await readStatus('revocation')).toBe(true);
+      expect((await admin('revoke')).status).toBe(409);
+      expect((await admin('suspend')).status).toBe(409);
+    });
+
+    it('suspends and reinstates a credential', async () => {
+      await admin('suspend');
+      expect(await readStatus('suspension')).toBe(true);
+      expect((await admin('suspend')).status).toBe(409);
+
+      const response = await admin('reinstate');
+
+      expect(response.body.credential.suspended).toBe(false);
+      expect(await readStatus('suspension')).toBe(false);
+      expect((await admin('reinstate')).status).toBe(409);
+    });
+
+    it('requires the admin API key', async () => {
+      const response = await admin('revoke', 'not-the-key');
+
+      expect(response.status).toBe(401);
+      expect(await readStatus('revocation')).toBe(false);
+    });
+
+    it('returns 404 for credentials it did not issue', async () => {
+      const response = await request(`${server.url}/api/status/credentials/urn:uuid:unknown/revoke`, {}, ADMIN_API_KEY);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  it('gives every credential its own index', async () => {
+    const issued = await Promise.all(
+      Array.from({ length: 20 }, () => issuerUtils.issueCredential('EmailVerifiedCredential', user))
+    ) as VerifiableCredential[];
+
+    const positions = new Set([credential, ...issued].map(({ credentialStatus }) => {
+      const [entry] = credentialStatus as StatusListEntry[];
+      return `${entry.statusListCredential}#${entry.statusListIndex}`;
+    }));
+
+    expect(positions.size).toBe(21);
+  });
+});
@@ -0,0 +1,224 @@
+import express, { Request, Response } from 'express';
+import { StatusPurpose } from '../types';
+import userModel from '../models/user';
+import authUtils from '../utils/auth';
+import issuerUtils from '../utils/issuer';
+import statusListUtils from '../utils/statusList';
+
+const router = express.Router();
+
+// How long verifiers may cache a status list credential
+const STATUS_LIST_MAX_AGE_SECONDS = 300;
+
+/**
+ * Get a signed status list credential
+ * GET /api/status/lists/:listId/:purpose
+ */
+router.get('/lists/:listId/:purpose', async (req: Request, res: Response) => {
+  try {
+    const { listId, purpose } = req.params;
+
+    if (!statusListUtils.STATUS_PURPOSES.includes(purpose as StatusPurpose)) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Status list not found'
+      });
+    }
+
+    const credential = await issuerUtils.createStatusListCredential(listId, purpose as StatusPurpose);
+
+    if (!credential) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Status list not found'
+      });
+    }
+
+    // Status lists are public: any wallet or verifier may fetch them
+    res.set({
+      'Cache-Control': `public, max-age=${STATUS_LIST_MAX_AGE_SECONDS}`,
+      'Access-Control-Allow-Origin': '*',
+      'Cross-Origin-Resource-Policy': 'cross-origin'
+    });
+    return res.status(200).json(credential);
+  } catch (error: any) {
+    console.error('Error getting status list:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get status list'
+    });
+  }
+});
+
+/**
+ * Get the revocation and suspension status of an issued credential (admin)
+ * GET /api/status/credentials/:credentialId
+ */
+router.get('/credentials/:credentialId', authUtils.authenticateAdmin, async (req: Request, res: Response) => {
+  try {
+    const record = await userModel.getIssuedCredential(req.params.credentialId);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Credential not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      credential: statusListUtils.getCredentialStatusSummary(record)
+    });
+  } catch (error: any) {
+    console.error('Error getting credential status:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get credential status'
+    });
+  }
+});
+
+/**
+ * Revoke an issued credential (admin)
+ * Revocation is permanent.
+ * POST /api/status/credentials/:credentialId/revoke
+ */
+router.post('/credentials/:credentialId/revoke', authUtils.authenticateAdmin, async (req: Request, res: Response) => {
+  try {
+    const record = await userModel.getIssuedCredential(req.params.credentialId);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Credential not found'
+      });
+    }
+
+    if (record.statusListId === undefined) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Credential was issued without a status list entry'
+      });
+    }
+
+    if (record.revokedAt) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Credential is already revoked'
+      });
+    }
+
+    const updated = await statusListUtils.revokeCredential(record.id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Credential revoked',
+      credential: statusListUtils.getCredentialStatusSummary(updated!)
+    });
+  } catch (error: any) {
+    console.error('Error revoking credential:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to revoke credential'
+    });
+  }
+});
+
+/**
+ * Suspend an issued credential (admin)
+ * POST /api/status/credentials/:credentialId/suspend
+ */
+router.post('/credentials/:credentialId/suspend', authUtils.authenticateAdmin, async (req: Request, res: Response) => {
+  try {
+    const record = await userModel.getIssuedCredential(req.params.credentialId);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Credential not found'
+      });
+    }
+
+    if (record.statusListId === undefined) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Credential was issued without a status list entry'
+      });
+    }
+
+    if (record.revokedAt) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Credential is revoked'
+      });
+    }
+
+    if (record.suspendedAt) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Credential is already suspended'
+      });
+    }
+
+    const updated = await statusListUtils.suspendCredential(record.id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Credential suspended',
+      credential: statusListUtils.getCredentialStatusSummary(updated!)
+    });
+  } catch (error: any) {
+    console.error('Error suspending credential:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to suspend credential'
+    });
+  }
+});
+
+/**
+ * Lift the suspension of an issued credential (admin)
+ * POST /api/status/credentials/:credentialId/reinstate
+ */
+router.post('/credentials/:credentialId/reinstate', authUtils.authenticateAdmin, async (req: Request, res: Response) => {
+  try {
+    const record = await userModel.getIssuedCredential(req.params.credentialId);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Credential not found'
+      });
+    }
+
+    if (record.revokedAt) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Credential is revoked'
+      });
+    }
+
+    if (!record.suspendedAt) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Credential is not suspended'
+      });
+    }
+
+    const updated = await statusListUtils.reinstateCredential(record.id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Credential reinstated',
+      credential: statusListUtils.getCredentialStatusSummary(updated!)
+    });
+  } catch (error: any) {
+    console.error('Error reinstating credential:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to reinstate credential'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,301 @@
+import userRoutes from './user';
+import mirrorNodeRoutes from './mirrorNode';
+import userModel from '../models/user';
+import authUtils from '../utils/auth';
+import hedera from '../utils/hedera';
+import { createDidMessage, createHederaDidIdentifier, ROOT_KEY_FRAGMENT, signDidMessage } from '../utils/hederaDid';
+import { request, resetStore, signIn, startServer, TestServer } from '../test/server';
+import { createHolderDid, signDidProof, TestHolder } from '../test/did';
+
+describe('user routes', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer({ '/api/user': userRoutes, '/mirror-node': mirrorNodeRoutes });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await resetStore();
+  });
+
+  const getChallenge = async (token: string): Promise<string> => {
+    const response = await request(`${server.url}/api/user/did/challenge`, {}, token);
+    return response.body.challenge;
+  };
+
+  describe('POST /did/register', () => {
+    it('registers a DID proven with its authentication key', async () => {
+      const { user, token } = await signIn();
+      const holder = await createHolderDid();
+      const proof = signDidProof(holder, await getChallenge(token));
+
+      const response = await request(
+        `${server.url}/api/user/did/register`,
+        { did: holder.did, didDocument: holder.didDocument, proof },
+        token
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.did).toBe(holder.did);
+      expect((await userModel.getUserById(user.id))?.did).toBe(holder.did);
+    });
+
+    it('rejects a challenge that was already used with 400', async () => {
+      const { token } = await signIn();
+      const holder = await createHolderDid();
+      const impostor = await createHolderDid();
+      const challenge = await getChallenge(token);
+
+      await request(
+        `${server.url}/api/user/did/register`,
+        { did: holder.did, didDocument: holder.didDocument, proof: signDidProof({ ...impostor, did: holder.did, kid: holder.kid }, challenge) },
+        token
+      );
+      const response = await request(
+        `${server.url}/api/user/did/register`,
+        { did: holder.did, didDocument: holder.didDocument, proof: signDidProof(holder, challenge) },
+        token
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Invalid or expired challenge');
+    });
+
+    it('rejects a challenge issued to another user with 400', async () => {
+      const { token } = await signIn();
+      const { token: otherToken } = await signIn({ email: 'other@example.com' });
+      const holder = await createHolderDid();
+
+      const response = await request(
+        `${server.url}/api/user/did/register`,
+        { did: holder.did, didDocument: holder.didDocument, proof: signDidProof(holder, await getChallenge(otherToken)) },
+        token
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects a proof signed with another key with 403', async () => {
+      const { user, token } = await signIn();
+      const holder = await createHolderDid();
+      const impostor = await createHolderDid();
+      const proof = signDidProof({ ...impostor, did: holder.did, kid: holder.kid }, await getChallenge(token));
+
+      const response = await request(
+        `${server.url}/api/user/did/register`,
+        { did: holder.did, didDocument: holder.didDocument, proof },
+        token
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe('Invalid proof of possession');
+      expect((await userModel.getUserById(user.id))?.did).toBeUndefined();
+    });
+  });
+
+  describe('POST /did/rotate', () => {
+    let token: string;
+    let userId: string;
+    let current: TestHolder;
+    let next: TestHolder;
+
+    beforeEach(async () => {
+      const session = await signIn();
+      token = session.token;
+      userId = session.user.id;
+      current = await createHolderDid();
+      next = await createHolderDid();
+      await userModel.setUserDid(userId, current.did, current.didDocument);
+    });
+
+    const rotate = (body: Record<string, any>) => request(`${server.url}/api/user/did/rotate`, body, token);
+
+    it('replaces the DID when both DIDs prove possession', async () => {
+      const challenge = await getChallenge(token);
+
+      const response = await rotate({
+        did: next.did,
+        proof: signDidProof(next, challenge),
+        controllerProof: signDidProof(current, challenge, { sub: next.did })
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ did: next.did, previousDid: current.did });
+      expect((await userModel.getUserById(userId))?.did).toBe(next.did);
+    });
+
+    it('requires a proof from the current DID with 403', async () => {
+      const response = await rotate({ did: next.did, proof: signDidProof(next, await getChallenge(token)) });
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe('Proof from the current DID is required');
+    });
+
+    it('rejects proofs over different challenges with 400', async () => {
+      const response = await rotate({
+        did: next.did,
+        proof: signDidProof(next, await getChallenge(token)),
+        controllerProof: signDidProof(current, await getChallenge(token), { sub: next.did })
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Invalid or expired challenge');
+    });
+
+    it('rejects a current DID proof for another new DID with 403', async () => {
+      const challenge = await getChallenge(token);
+      const other = await createHolderDid();
+
+      const response = await rotate({
+        did: next.did,
+        proof: signDidProof(next, challenge),
+        controllerProof: signDidProof(current, challenge, { sub: other.did })
+      });
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe('Invalid proof of possession');
+      expect((await userModel.getUserById(userId))?.did).toBe(current.did);
+    });
+  });
+
+  describe('POST /did/rotate with did:hedera create messages', () => {
+    let token: string;
+    let current: TestHolder;
+    let root: TestHolder;
+    let did: string;
+
+    beforeEach(async () => {
+      // The local network's mirror node is served next to the routes under test
+      process.env.HEDERA_MIRROR_NODE = `${server.url}/mirror-node/api/v1/`;
+      const session = await signIn();
+      token = session.token;
+      current = await createHolderDid();
+      root = await createHolderDid();
+      await userModel.setUserDid(session.user.id, current.did, current.didDocument);
+
+      const topic = await request(`${server.url}/api/user/did/hedera/topic`, {}, token);
+      did = createHederaDidIdentifier('local', root.did.substring('did:key:'.length), topic.body.topicId);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      delete process.env.HEDERA_MIRROR_NODE;
+    });
+
+    const ownerEvent = () => ({
+      DIDOwner: {
+        id: `${did}#${ROOT_KEY_FRAGMENT}`,
+        type: 'Ed25519VerificationKey2020',
+        controller: did,
+        publicKeyMultibase: root.did.substring('did:key:'.length)
+      }
+    });
+
+    const rotate = async (didMessages: any[]) => {
+      const challenge = await getChallenge(token);
+      return request(`${server.url}/api/user/did/rotate`, {
+        did,
+        didMessages,
+        proof: signDidProof({ ...root, did, kid: `${did}#${ROOT_KEY_FRAGMENT}` }, challenge),
+        controllerProof: signDidProof(current, challenge, { sub: did })
+      }, token);
+    };
+
+    it('publishes the create messages and replaces the DID', async () => {
+      const response = await rotate([signDidMessage(createDidMessage(did, 'create', ownerEvent()), root.privateKeyJwk)]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.did).toBe(did);
+      expect(response.body.didDocument.authentication).toEqual([`${did}#${ROOT_KEY_FRAGMENT}`]);
+    });
+
+    it('rejects messages that resolution would skip with 400 and publishes none of them', async () => {
+      const submit = jest.spyOn(hedera, 'submitTopicMessage');
+      const intruder = await createHolderDid();
+      const owner = signDidMessage(createDidMessage(did, 'create', ownerEvent()), root.privateKeyJwk);
+      const service = { Service: { id: `${did}#wallet`, type: 'LinkedDomains', serviceEndpoint: 'https://wallet.test' } };
+      const stale = { ...createDidMessage(did, 'create', service), timestamp: '2024-01-01T00:00:00.000Z' };
+
+      const cases: [any[], string][] = [
+        [[owner, null], 'DID message 2 is not for ' + did],
+        [[owner, signDidMessage(createDidMessage(did, 'create', service), intruder.privateKeyJwk)], 'DID message 2 is not signed by the DID owner'],
+        [[owner, signDidMessage(createDidMessage(did, 'update', service), root.privateKeyJwk)], 'DID message 2 has an unsupported operation'],
+        [[owner, signDidMessage(stale, root.privateKeyJwk)], 'DID message 2 has a stale timestamp'],
+        [[signDidMessage(createDidMessage(did, 'create', service), root.privateKeyJwk)], `DID message 1 must create the DID owner with the root key of ${did}`]
+      ];
+
+      for (const [didMessages, message] of cases) {
+        const response = await rotate(didMessages);
+
+        expect(response.status).toBe(400);
+        expect(response.body.message).toBe(message);
+      }
+      expect(submit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /did/hedera/topic', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('returns the pending topic instead of creating another one', async () => {
+      const createTopic = jest.spyOn(hedera, 'createTopic');
+      const { token } = await signIn();
+      const { token: otherToken } = await signIn({ email: 'other@example.com' });
+
+      const first = await request(`${server.url}/api/user/did/hedera/topic`, {}, token);
+      const second = await request(`${server.url}/api/user/did/hedera/topic`, {}, token);
+      const other = await request(`${server.url}/api/user/did/hedera/topic`, {}, otherToken);
+
+      expect(first.status).toBe(200);
+      expect(second.body.topicId).toBe(first.body.topicId);
+      expect(other.body.topicId).not.toBe(first.body.topicId);
+      expect(createTopic).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('sessions', () => {
+    it('lists active sessions, marking the current one', async () => {
+      const { user, token, session } = await signIn();
+      const other = await authUtils.startSession(user, user.authMethods[0], { headers: {}, ip: '10.0.0.2' } as any);
+      await userModel.revokeSession(
+        (await authUtils.startSession(user, user.authMethods[0], { headers: {}, ip: '10.0.0.3' } as any)).session.id,
+        'logout'
+      );
+
+      const response = await request(`${server.url}/api/user/sessions`, undefined, token);
+
+      expect(response.status).toBe(200);
+      expect(response.body.sessions.map((entry: any) => [entry.id, entry.current]).sort()).toEqual(
+        [[session.id, true], [other.session.id, false]].sort()
+      );
+      expect(response.body.sessions[0]).not.toHaveProperty('refreshTokenHash');
+    });
+
+    it('signs out every other session', async () => {
+      const { user, token, session } = await signIn();
+      const other = await authUtils.startSession(user, user.authMethods[0], { headers: {}, ip: '10.0.0.2' } as any);
+
+      const response = await request(`${server.url}/api/user/sessions`, undefined, token, 'DELETE');
+
+      expect(response.body.revoked).toBe(1);
+      expect((await userModel.getSessionById(other.session.id))?.revokedAt).toBeDefined();
+      expect((await userModel.getSessionById(session.id))?.revokedAt).toBeUndefined();
+    });
+
+    it("reports another user's session as missing", async () => {
+      const { token } = await signIn();
+      const { session: otherSession } = await signIn({ email: 'other@example.com' });
+
+      const response = await request(`${server.url}/api/user/sessions/${otherSession.id}`, undefined, token, 'DELETE');
+
+      expect(response.status).toBe(404);
+      expect((await userModel.getSessionById(otherSession.id))?.revokedAt).toBeUndefined();
+    });
+  });
+});
@@ -1,12 +1,110 @@
 import express, { Request, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
-import { AuthMethod, DIDMethod, DIDCreationOptions } from '../types';
+import crypto from 'crypto';
+import {
+  AuthMethod,
+  DIDDocument,
+  HederaDidMessageEnvelope,
+  RecoveryRequest,
+  RecoveryRequestInfo,
+  Session,
+  SessionInfo
+} from '../types';
 import userModel from '../models/user';
 import authUtils from '../utils/auth';
 import didUtils from '../utils/did';
+import hedera from '../utils/hedera';
+import hederaDid from '../utils/hederaDid';
+import issuerUtils from '../utils/issuer';
+import recoveryUtils from '../utils/recovery';
+import { decodeJws, verifyJws } from '../utils/crypto';
 
 const router = express.Router();
 
+// DID proof-of-possession challenges (in-memory for MVP)
+interface DidChallenge {
+  userId: string;
+  expires: Date;
+}
+
+const didChallenges = new Map<string, DidChallenge>();
+
+// DID topics created for users moving to did:hedera, keyed by topic ID
+const pendingDidTopics = new Map<string, DidChallenge>();
+
+const DID_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const DID_TOPIC_TTL_MS = 60 * 60 * 1000; // 1 hour
+const DID_CHALLENGE_AUDIENCE = process.env.RP_ORIGIN || 'http://localhost:5173';
+
+// Clean up expired challenges periodically
+setInterval(() => {
+  const now = new Date();
+  didChallenges.forEach((challenge, id) => {
+    if (challenge.expires < now) {
+      didChallenges.delete(id);
+    }
+  });
+  pendingDidTopics.forEach((topic, topicId) => {
+    if (topic.expires < now) {
+      pendingDidTopics.delete(topicId);
+    }
+  });
+}, 15 * 60 * 1000).unref(); // Clean up every 15 minutes, without keeping the process alive
+
+/**
+ * Verify a proof of possession: a compact JWS over { iss, aud, nonce } signed by
+ * one of the DID's authentication keys. The challenge itself is checked by the caller.
+ * @param proof - Compact JWS
+ * @param did - Expected issuer
+ * @param didDocument - Resolved DID document of the issuer
+ * @returns The proof payload, or null if the proof is invalid
+ */
+function verifyDidProof(proof: string, did: string, didDocument: DIDDocument): Record<string, any> | null {
+  let decodedProof;
+  try {
+    decodedProof = decodeJws(proof);
+  } catch (error) {
+    return null;
+  }
+
+  const { header, payload } = decodedProof;
+  if (payload?.iss !== did || payload.aud !== DID_CHALLENGE_AUDIENCE || typeof header.kid !== 'string') {
+    return null;
+  }
+
+  const verificationMethod = didUtils.getVerificationMethod(didDocument, header.kid);
+
+  if (
+    !verificationMethod ||
+    !didUtils.hasVerificationRelationship(didDocument, 'authentication', verificationMethod.id)
+  ) {
+    return null;
+  }
+
+  try {
+    return verifyJws(proof, didUtils.getPublicKeyJwk(verificationMethod)) ? payload : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Take a DID challenge if it was issued to the user and has not expired
+ * Challenges are single-use.
+ * @param nonce - Challenge from the proof payload
+ * @param userId - Authenticated user
+ */
+function consumeDidChallenge(nonce: unknown, userId: string): boolean {
+  const challenge = typeof nonce === 'string' ? didChallenges.get(nonce) : undefined;
+
+  if (!challenge || challenge.userId !== userId || challenge.expires < new Date()) {
+    return false;
+  }
+
+  didChallenges.delete(nonce as string);
+  return true;
+}
+
 /**
  * Get user profile
  * GET /api/user/profile
@@ -195,22 +293,51 @@ router.get('/did', authUtils.authenticate, async (req: Request, res: Response) =
 });
 
 /**
- * Generate a new DID for the user
- * POST /api/user/did/generate
+ * Get a challenge for proving possession of a DID's key
+ * POST /api/user/did/challenge
  */
-router.post('/did/generate', [
-  body('method')
-    .optional()
-    .isIn([DIDMethod.KEY, DIDMethod.HEDERA])
-    .withMessage('Invalid DID method'),
-  body('network')
-    .optional()
-    .isIn(['testnet', 'mainnet', 'previewnet'])
-    .withMessage('Invalid network'),
-  body('keyType')
-    .optional()
-    .isIn(['ed25519', 'secp256k1'])
-    .withMessage('Invalid key type')
+router.post('/did/challenge', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    
+    const challenge = crypto.randomBytes(32).toString('base64url');
+    const expires = new Date(Date.now() + DID_CHALLENGE_TTL_MS);
+    
+    didChallenges.set(challenge, { userId, expires });
+    
+    return res.status(200).json({
+      success: true,
+      challenge,
+      audience: DID_CHALLENGE_AUDIENCE,
+      expiresAt: expires.toISOString()
+    });
+  } catch (error: any) {
+    console.error('Error creating DID challenge:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create DID challenge'
+    });
+  }
+});
+
+/**
+ * Register a DID generated by the client
+ * The proof is a compact JWS over { iss, aud, nonce } signed by the
+ * DID's authentication key, so the server never sees the private key.
+ * POST /api/user/did/register
+ */
+router.post('/did/register', [
+  body('did')
+    .isString()
+    .notEmpty()
+    .withMessage('DID is required'),
+  body('didDocument')
+    .isObject()
+    .withMessage('DID document is required'),
+  body('proof')
+    .isString()
+    .notEmpty()
+    .withMessage('Proof of possession is required')
 ], authUtils.authenticate, async (req: Request, res: Response) => {
   // Validate request
   const errors = validationResult(req);
@@ -224,7 +351,7 @@ router.post('/did/generate', [
   
   try {
     const userId = (req as any).user.id;
-    const { method, network, keyType } = req.body;
+    const { did, didDocument, proof } = req.body;
     
     // Get user from database
     const user = await userModel.getUserById(userId);
@@ -240,48 +367,433 @@ router.post('/did/generate', [
     if (user.did) {
       return res.status(409).json({
         error: 'Conflict',
-        message: 'User already has a DID. To create a new one, please delete the existing DID first.'
+        message: 'User already has a DID'
+      });
+    }
+    
+    if (!didUtils.isValidDID(did) || didDocument.id !== did) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid DID or DID document'
+      });
+    }
+    
+    // The DID must not already belong to another user
+    const existingUser = await userModel.getUserByDid(did);
+    if (existingUser) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'DID is already registered'
+      });
+    }
+    
+    // Resolve the DID independently so the submitted document cannot introduce keys
+    let resolvedDocument;
+    try {
+      resolvedDocument = await didUtils.resolveDID(did);
+    } catch (error) {
+      resolvedDocument = null;
+    }
+    
+    if (!resolvedDocument) {
+      return res.status(400).json({
+        error: 'DID Resolution Error',
+        message: 'Failed to resolve DID'
+      });
+    }
+    
+    // Verify proof of possession
+    let decodedProof;
+    try {
+      decodedProof = decodeJws(proof);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Malformed proof'
+      });
+    }
+    
+    if (!consumeDidChallenge(decodedProof.payload?.nonce, userId)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid or expired challenge'
+      });
+    }
+    
+    if (!verifyDidProof(proof, did, resolvedDocument)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Invalid proof of possession'
       });
     }
     
-    // Generate DID
-    const options: DIDCreationOptions = {
-      method: method || DIDMethod.KEY,
-      ...(network && { network }),
-      ...(keyType && { keyType })
-    };
+    // Update user with the verified DID
+    await userModel.setUserDid(userId, did, resolvedDocument);
     
+    // Issue credentials for contact details verified before the DID existed
     try {
-      const { did, didDocument, keyPair } = await didUtils.generateDID(options);
+      await issuerUtils.issueVerifiedContactCredentials(userId);
+    } catch (error) {
+      console.error('Error issuing verification credentials:', error);
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: 'DID registered successfully',
+      did,
+      didDocument: resolvedDocument
+    });
+  } catch (error: any) {
+    console.error('Error registering DID:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to register DID'
+    });
+  }
+});
+
+/**
+ * Create a DID topic for moving the user's DID to did:hedera
+ * The client builds the DID from the topic ID and its own key, then signs the
+ * DIDOwner create message and submits it with POST /api/user/did/rotate.
+ * Creating a topic is a paid transaction, so a user's pending topic is returned
+ * again until it is used or expires.
+ * POST /api/user/did/hedera/topic
+ */
+router.post('/did/hedera/topic', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const now = new Date();
+    
+    let topicId = Array.from(pendingDidTopics.entries())
+      .find(([, topic]) => topic.userId === userId && topic.expires > now)?.[0];
+    
+    if (!topicId) {
+      topicId = await hedera.createTopic(hederaDid.DID_TOPIC_MEMO);
+      pendingDidTopics.set(topicId, { userId, expires: new Date(now.getTime() + DID_TOPIC_TTL_MS) });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      topicId,
+      network: hedera.getHederaNetwork()
+    });
+  } catch (error: any) {
+    console.error('Error creating DID topic:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create DID topic'
+    });
+  }
+});
+
+/**
+ * Replace the user's DID with a new one, e.g. to rotate a did:key or move to did:hedera
+ * Both DIDs must prove possession over the same challenge: `proof` is signed by the
+ * new DID's authentication key and `controllerProof` (with sub = new DID) by the
+ * current DID's authentication key. A new did:hedera is created by passing its
+ * signed create messages in `didMessages`, which are checked like those of /did/update. A session started by completing an account
+ * recovery may omit `controllerProof` once, since the old DID key was lost.
+ * POST /api/user/did/rotate
+ */
+router.post('/did/rotate', [
+  body('did')
+    .isString()
+    .notEmpty()
+    .withMessage('DID is required'),
+  body('proof')
+    .isString()
+    .notEmpty()
+    .withMessage('Proof of possession is required'),
+  body('controllerProof')
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage('Proof from the current DID must be a compact JWS'),
+  body('didMessages')
+    .optional()
+    .isArray({ min: 1, max: 20 })
+    .withMessage('DID messages must be a non-empty array')
+], authUtils.authenticate, async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array() 
+    });
+  }
+  
+  try {
+    const userId = (req as any).user.id;
+    const { did, proof, controllerProof } = req.body;
+    const didMessages: HederaDidMessageEnvelope[] | undefined = req.body.didMessages;
+    
+    // Get user from database
+    const user = await userModel.getUserById(userId);
+    
+    if (!user) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'User not found'
+      });
+    }
+    
+    if (!user.did) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'No DID found for this user'
+      });
+    }
+    
+    if (did === user.did || !didUtils.isValidDID(did)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid DID'
+      });
+    }
+    
+    // The DID must not already belong to another user
+    const existingUser = await userModel.getUserByDid(did);
+    if (existingUser) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'DID is already registered'
+      });
+    }
+    
+    // Without a proof from the current DID, only a just-recovered session may replace it
+    const recovery = controllerProof
+      ? null
+      : await recoveryUtils.getDidRebindRecovery(await userModel.getSessionById((req as any).user.sid));
+    
+    if (!controllerProof && !recovery) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Proof from the current DID is required'
+      });
+    }
+    
+    // A new did:hedera is checked locally and only published once both proofs verify
+    let newDocument: DIDDocument | null = null;
+    
+    if (didMessages) {
+      const pendingTopic = hederaDid.isHederaDid(did)
+        ? pendingDidTopics.get(hederaDid.parseHederaDid(did).topicId)
+        : undefined;
       
-      // Update user with new DID
-      await userModel.setUserDid(userId, did, didDocument);
+      if (!pendingTopic || pendingTopic.userId !== userId || pendingTopic.expires < new Date()) {
+        return res.status(400).json({
+          error: 'Validation Error',
+          message: 'DID messages require a DID topic created for this user'
+        });
+      }
       
-      // Return DID information (excluding private key)
-      return res.status(200).json({
-        success: true,
-        message: 'DID generated successfully',
-        did,
-        didDocument,
-        publicKey: {
-          id: keyPair.id,
-          type: keyPair.type,
-          publicKeyMultibase: keyPair.publicKeyMultibase,
-          publicKeyJwk: keyPair.publicKeyJwk
-        }
-      });
-    } catch (error: any) {
-      console.error('Error generating DID:', error);
+      const messageError = hederaDid.checkDidCreateMessages(did, didMessages);
+      if (messageError) {
+        return res.status(400).json({
+          error: 'Validation Error',
+          message: messageError
+        });
+      }
+      
+      newDocument = hederaDid.replayDidMessages(did, didMessages);
+    } else {
+      try {
+        newDocument = await didUtils.resolveDID(did);
+      } catch (error) {
+        newDocument = null;
+      }
+    }
+    
+    let currentDocument: DIDDocument | null = null;
+    if (controllerProof) {
+      try {
+        currentDocument = await didUtils.resolveDID(user.did);
+      } catch (error) {
+        currentDocument = null;
+      }
+    }
+    
+    if (!newDocument || (controllerProof && !currentDocument)) {
+      return res.status(400).json({
+        error: 'DID Resolution Error',
+        message: 'Failed to resolve DID'
+      });
+    }
+    
+    // Both proofs answer the same challenge
+    let newPayload;
+    let controllerPayload;
+    try {
+      newPayload = decodeJws(proof).payload;
+      controllerPayload = controllerProof ? decodeJws(controllerProof).payload : newPayload;
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Malformed proof'
+      });
+    }
+    
+    if (newPayload?.nonce !== controllerPayload?.nonce || !consumeDidChallenge(newPayload?.nonce, userId)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid or expired challenge'
+      });
+    }
+    
+    if (
+      !verifyDidProof(proof, did, newDocument) ||
+      (controllerProof && verifyDidProof(controllerProof, user.did, currentDocument!)?.sub !== did)
+    ) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Invalid proof of possession'
+      });
+    }
+    
+    if (didMessages) {
+      for (const envelope of didMessages) {
+        await hederaDid.publishDidMessage(envelope);
+      }
+      pendingDidTopics.delete(hederaDid.parseHederaDid(did).topicId);
+      
+      newDocument = await didUtils.resolveDID(did);
+      if (!newDocument) {
+        return res.status(400).json({
+          error: 'DID Resolution Error',
+          message: 'Failed to resolve DID'
+        });
+      }
+    }
+    
+    const previousDid = user.did;
+    await userModel.setUserDid(userId, did, newDocument);
+    
+    if (recovery) {
+      await userModel.updateRecoveryRequest(recovery.id, { didReboundAt: new Date() });
+    }
+    
+    // Credentials are bound to a DID, so contact credentials are issued again for the new one
+    try {
+      await issuerUtils.issueVerifiedContactCredentials(userId);
+    } catch (error) {
+      console.error('Error issuing verification credentials:', error);
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: 'DID rotated successfully',
+      did,
+      didDocument: newDocument,
+      previousDid
+    });
+  } catch (error: any) {
+    console.error('Error rotating DID:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to rotate DID'
+    });
+  }
+});
+
+/**
+ * Update the user's did:hedera DID document
+ * The client signs DID messages (DIDOwner, VerificationMethod, VerificationRelationship
+ * or Service events) with the current DIDOwner key; the server checks and publishes
+ * them to the DID topic and stores the re-resolved document.
+ * POST /api/user/did/update
+ */
+router.post('/did/update', [
+  body('messages')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('DID messages are required')
+], authUtils.authenticate, async (req: Request, res: Response) => {
+  // Validate request
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ 
+      error: 'Validation Error',
+      message: 'Invalid request data',
+      details: errors.array() 
+    });
+  }
+  
+  try {
+    const userId = (req as any).user.id;
+    const messages: HederaDidMessageEnvelope[] = req.body.messages;
+    
+    // Get user from database
+    const user = await userModel.getUserById(userId);
+    
+    if (!user) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'User not found'
+      });
+    }
+    
+    if (!user.did) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'No DID found for this user'
+      });
+    }
+    
+    if (!hederaDid.isHederaDid(user.did)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Only did:hedera DID documents can be updated; rotate to a new DID instead'
+      });
+    }
+    
+    const currentDocument = await hederaDid.resolveHederaDid(user.did);
+    const rootMethod = currentDocument && didUtils.getVerificationMethod(
+      currentDocument,
+      `${user.did}#${hederaDid.ROOT_KEY_FRAGMENT}`
+    );
+    
+    if (!rootMethod?.publicKeyMultibase) {
+      return res.status(400).json({
+        error: 'DID Resolution Error',
+        message: 'Failed to resolve DID'
+      });
+    }
+    
+    const messageError = hederaDid.checkDidMessages(user.did, rootMethod.publicKeyMultibase, messages);
+    if (messageError) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: messageError
+      });
+    }
+    
+    for (const envelope of messages) {
+      await hederaDid.publishDidMessage(envelope);
+    }
+    
+    const didDocument = await hederaDid.resolveHederaDid(user.did);
+    if (!didDocument) {
       return res.status(500).json({
-        error: 'DID Generation Error',
-        message: error.message || 'Failed to generate DID'
+        error: 'Internal Server Error',
+        message: 'DID document could not be resolved after the update'
       });
     }
+    
+    await userModel.setUserDid(userId, user.did, didDocument);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'DID document updated successfully',
+      did: user.did,
+      didDocument
+    });
   } catch (error: any) {
-    console.error('Error in DID generation endpoint:', error);
+    console.error('Error updating DID document:', error);
     return res.status(500).json({
       error: 'Internal Server Error',
-      message: 'Failed to process DID generation request'
+      message: 'Failed to update DID document'
     });
   }
 });
@@ -346,6 +858,183 @@ router.post('/did/validate', [
   }
 });
 
+/**
+ * Describe a session for its user
+ * @param session - Session record
+ * @param currentSessionId - Session of the request
+ */
+function toSessionInfo(session: Session, currentSessionId: string): SessionInfo {
+  return {
+    id: session.id,
+    authMethod: session.authMethod,
+    deviceLabel: authUtils.getDeviceLabel(session.device),
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentSessionId
+  };
+}
+
+/**
+ * List the user's active sessions, most recently used first
+ * GET /api/user/sessions
+ */
+router.get('/sessions', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sid } = (req as any).user;
+    
+    const sessions = (await userModel.getSessionsByUserId(userId))
+      .filter(session => authUtils.isSessionActive(session))
+      .sort((a, b) => new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime())
+      .map(session => toSessionInfo(session, sid));
+    
+    return res.status(200).json({
+      success: true,
+      sessions
+    });
+  } catch (error: any) {
+    console.error('Error getting sessions:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get sessions'
+    });
+  }
+});
+
+/**
+ * Sign out every session except the current one
+ * DELETE /api/user/sessions
+ */
+router.delete('/sessions', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sid } = (req as any).user;
+    
+    const others = (await userModel.getSessionsByUserId(userId))
+      .filter(session => session.id !== sid && authUtils.isSessionActive(session));
+    
+    for (const session of others) {
+      await userModel.revokeSession(session.id, 'revoked');
+    }
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Other sessions signed out',
+      revoked: others.length
+    });
+  } catch (error: any) {
+    console.error('Error revoking sessions:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to sign out other sessions'
+    });
+  }
+});
+
+/**
+ * Sign out one session
+ * DELETE /api/user/sessions/:id
+ */
+router.delete('/sessions/:id', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    
+    const session = await userModel.getSessionById(req.params.id);
+    
+    // Other users' sessions are reported as missing rather than forbidden
+    if (!session || session.userId !== userId || !authUtils.isSessionActive(session)) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Session not found'
+      });
+    }
+    
+    await userModel.revokeSession(session.id, 'revoked');
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Session signed out'
+    });
+  } catch (error: any) {
+    console.error('Error revoking session:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to sign out session'
+    });
+  }
+});
+
+/**
+ * Map a recovery request to what its account owner sees
+ * @param request - Recovery request record
+ */
+function toRecoveryRequestInfo(request: RecoveryRequest): RecoveryRequestInfo {
+  return {
+    id: request.id,
+    status: request.status,
+    deviceLabel: authUtils.getDeviceLabel(request.device),
+    ip: request.ip,
+    createdAt: request.createdAt,
+    availableAt: request.availableAt
+  };
+}
+
+/**
+ * List pending account recoveries, so the owner can cancel ones they did not start
+ * GET /api/user/recovery
+ */
+router.get('/recovery', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    
+    const recoveries = (await userModel.getRecoveryRequestsByUserId(userId))
+      .filter(request => request.status === 'pending')
+      .map(toRecoveryRequestInfo);
+    
+    return res.status(200).json({
+      success: true,
+      recoveries
+    });
+  } catch (error: any) {
+    console.error('Error getting recovery requests:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get recovery requests'
+    });
+  }
+});
+
+/**
+ * Cancel a pending account recovery
+ * DELETE /api/user/recovery/:id
+ */
+router.delete('/recovery/:id', authUtils.authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    
+    const request = await userModel.getRecoveryRequestById(req.params.id);
+    
+    if (!request || request.userId !== userId || request.status !== 'pending') {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Recovery request not found'
+      });
+    }
+    
+    await recoveryUtils.cancelRecoveryRequest(request);
+    
+    return res.status(200).json({
+      success: true,
+      message: 'Account recovery cancelled'
+    });
+  } catch (error: any) {
+    console.error('Error cancelling recovery request:', error);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to cancel account recovery'
+    });
+  }
+});
+
 /**
  * Delete user account
  * DELETE /api/user/account
@@ -52,7 +52,7 @@ setInterval(() => {
       webAuthnSessions.delete(id);
     }
   });
-}, 15 * 60 * 1000); // Clean up every 15 minutes
+}, 15 * 60 * 1000).unref(); // Clean up every 15 minutes, without keeping the process alive
 
 /**
  * Start WebAuthn registration process
@@ -450,8 +450,8 @@ router.post('/verify-authentication', [
     // Update last login timestamp
     await userModel.updateLastLogin(user.id);
 
-    // Generate JWT token
-    const token = authUtils.generateToken(user, AuthMethod.WEBAUTHN);
+    // Start a session and issue its tokens
+    const { token, refreshToken } = await authUtils.startSession(user, AuthMethod.WEBAUTHN, req);
 
     // Clean up session
     webAuthnSessions.delete(sessionId);
@@ -460,6 +460,7 @@ router.post('/verify-authentication', [
       success: true,
       message: 'Authentication successful',
       token,
+      refreshToken,
       user: {
         id: user.id,
         name: user.name,
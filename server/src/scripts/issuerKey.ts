@@ -0,0 +1,7 @@
+import { generateIssuerPrivateKey } from '../utils/issuer';
+
+/**
+ * Print a new issuer private key to use as ISSUER_PRIVATE_KEY
+ * Usage: npm run issuer:key
+ */
+console.log(generateIssuerPrivateKey());
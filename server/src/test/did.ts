@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { DIDDocument } from '../types';
+import { publicKeyToDIDKey, resolveDID } from '../utils/did';
+import { signJws } from '../utils/crypto';
+
+/**
+ * Holder DIDs for tests, with the private key kept as a JWK like the wallet does
+ */
+
+export interface TestHolder {
+  did: string;
+  didDocument: DIDDocument;
+  kid: string;
+  privateKeyJwk: any;
+}
+
+/**
+ * Generate an Ed25519 did:key
+ */
+export async function createHolderDid(): Promise<TestHolder> {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  const privateKeyJwk = privateKey.export({ format: 'jwk' });
+  const did = publicKeyToDIDKey(Buffer.from(privateKeyJwk.x as string, 'base64url'), 'ed25519');
+  const didDocument = (await resolveDID(did))!;
+
+  return { did, didDocument, kid: didDocument.verificationMethod![0].id, privateKeyJwk };
+}
+
+/**
+ * Sign a DID proof of possession answering a challenge
+ * @param holder - DID signing the proof
+ * @param nonce - Challenge
+ * @param claims - Additional payload claims (e.g. sub of a controller proof)
+ */
+export function signDidProof(holder: TestHolder, nonce: string, claims: Record<string, any> = {}): string {
+  return signJws(
+    { iss: holder.did, aud: process.env.RP_ORIGIN, nonce, ...claims },
+    holder.privateKeyJwk,
+    { kid: holder.kid }
+  );
+}
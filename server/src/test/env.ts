@@ -0,0 +1,11 @@
+/**
+ * Environment for the test suite
+ * Tests run against the in-memory store, the local Hedera mock network and console OTP delivery.
+ */
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.DB_URI = 'memory:';
+process.env.HEDERA_NETWORK = 'local';
+process.env.OTP_PROVIDER = 'console';
+process.env.ISSUER_URL = 'http://issuer.test';
+process.env.RP_ORIGIN = 'http://wallet.test';
@@ -48,6 +48,7 @@ export interface UserJwtPayload {
   phone?: string;
   name: string;
   authMethod: AuthMethod;
+  sid: string; // Session the token was issued for
   iat?: number;
   exp?: number;
 }
@@ -87,6 +88,95 @@ export interface OtpRecord {
   createdAt: Date;
   expiresAt: Date;
   verifiedAt?: Date;
+  purpose?: OtpPurpose; // Recovery codes cannot be used to log in
+}
+
+/**
+ * What an OTP was requested for
+ */
+export type OtpPurpose = 'registration' | 'login' | 'recovery';
+
+// ==================== Session Types ====================
+
+/**
+ * Why a session was ended before it expired
+ */
+export type SessionRevocationReason = 'logout' | 'refresh_token_reuse' | 'revoked' | 'account_recovery';
+
+/**
+ * Server-side login session
+ * Access tokens are short-lived JWTs bound to a session; the session's refresh token
+ * rotates on every use and only its hash is stored.
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  authMethod: AuthMethod;
+  device?: string; // User agent of the client that signed in
+  ip?: string;
+  refreshTokenHash: string; // SHA-256 of the current refresh token
+  previousRefreshTokenHashes: string[]; // Rotated-out refresh tokens, kept to detect reuse
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date; // Extended on every refresh
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  recoveryId?: string; // Set when the session was started by completing an account recovery
+}
+
+/**
+ * Session as shown to its user
+ */
+export interface SessionInfo {
+  id: string;
+  authMethod: AuthMethod;
+  deviceLabel: string; // e.g. "Chrome on macOS"
+  ip?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean; // The session making the request
+}
+
+// ==================== Recovery Types ====================
+
+/**
+ * State of an account recovery request
+ */
+export type RecoveryStatus = 'pending' | 'completed' | 'cancelled';
+
+/**
+ * Account recovery for users who lost their passkeys and browser wallet
+ * A request is opened after every email and phone on file is verified, and can only be
+ * completed once its cool-down period has passed. The old channels are notified so the
+ * account owner can cancel a recovery they did not start.
+ */
+export interface RecoveryRequest {
+  id: string;
+  userId: string;
+  status: RecoveryStatus;
+  tokenHash: string; // SHA-256 of the recovery token held by the recovering client
+  verifiedMethods: OtpDeliveryMethod[];
+  notifiedMethods?: OtpDeliveryMethod[]; // Channels the account owner was told about the recovery on
+  device?: string; // User agent of the client that started the recovery
+  ip?: string;
+  createdAt: Date;
+  availableAt: Date; // End of the cool-down period
+  completedAt?: Date;
+  cancelledAt?: Date;
+  didRebindExpiresAt?: Date; // Until when the DID can be replaced without the old DID key
+  didReboundAt?: Date;
+}
+
+/**
+ * Recovery request as shown to the account owner
+ */
+export interface RecoveryRequestInfo {
+  id: string;
+  status: RecoveryStatus;
+  deviceLabel: string;
+  ip?: string;
+  createdAt: Date;
+  availableAt: Date;
 }
 
 // ==================== WebAuthn Types ====================
@@ -169,8 +259,7 @@ export enum DIDMethod {
  */
 export interface DIDCreationOptions {
   method: DIDMethod;
-  network?: string; // For Hedera: 'testnet', 'mainnet', etc.
-  keyType?: 'ed25519' | 'secp256k1';
+  keyType?: 'ed25519' | 'secp256k1' | 'bls12381g2'; // bls12381g2 keys only sign bbs-2023 proofs
 }
 
 /**
@@ -200,6 +289,47 @@ export interface DIDDocument {
   service?: any[];
 }
 
+// ==================== Hedera DID Types ====================
+
+/**
+ * Operation of a did:hedera DID message
+ */
+export type HederaDidOperation = 'create' | 'update' | 'revoke' | 'delete';
+
+/**
+ * DID message submitted to a DID topic (Hedera DID method / HIP-27)
+ */
+export interface HederaDidMessage {
+  timestamp: string;
+  operation: HederaDidOperation;
+  did: string;
+  event: string | null; // Base64-encoded DID event JSON, null for delete
+}
+
+/**
+ * Signed DID message as it appears on HCS
+ */
+export interface HederaDidMessageEnvelope {
+  message: HederaDidMessage;
+  signature: string; // Base64 signature over the JSON message by the DID owner key
+}
+
+/**
+ * Topic message returned by the mirror node REST API
+ */
+export interface MirrorTopicMessage {
+  consensus_timestamp: string;
+  message: string; // Base64
+  sequence_number: number;
+  topic_id: string;
+  payer_account_id?: string;
+  running_hash?: string;
+  chunk_info?: {
+    number: number;
+    total: number;
+  } | null;
+}
+
 // ==================== API Request/Response Types ====================
 
 /**
@@ -208,7 +338,7 @@ export interface DIDDocument {
 export interface RequestOtpRequest {
   email?: string;
   phone?: string;
-  purpose: 'registration' | 'login' | 'recovery';
+  purpose: OtpPurpose;
 }
 
 /**
@@ -220,6 +350,7 @@ export interface RequestOtpResponse {
   otpId: string;
   expiresAt: Date;
   method: OtpDeliveryMethod;
+  requiredMethods?: OtpDeliveryMethod[]; // Recovery only: every channel that must be verified
 }
 
 /**
@@ -239,6 +370,7 @@ export interface VerifyOtpResponse {
   success: boolean;
   message: string;
   token?: string;
+  refreshToken?: string;
   user?: {
     id: string;
     name: string;
@@ -314,6 +446,7 @@ export interface WebAuthnVerifyAuthenticateResponse {
   success: boolean;
   message: string;
   token?: string;
+  refreshToken?: string;
   user?: {
     id: string;
     name: string;
@@ -323,6 +456,150 @@ export interface WebAuthnVerifyAuthenticateResponse {
   };
 }
 
+/**
+ * Request to exchange a refresh token for new tokens
+ */
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+/**
+ * Response with a new access token and the rotated refresh token
+ */
+export interface RefreshTokenResponse {
+  success: boolean;
+  message: string;
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Request to end the current session
+ */
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+/**
+ * Request to open an account recovery with verified recovery OTPs
+ */
+export interface StartRecoveryRequest {
+  verifications: {
+    otpId: string;
+    code: string;
+  }[];
+}
+
+/**
+ * Response after opening an account recovery
+ */
+export interface StartRecoveryResponse {
+  success: boolean;
+  message: string;
+  recoveryToken: string;
+  availableAt: Date;
+}
+
+/**
+ * Request identifying an account recovery by its token
+ */
+export interface RecoveryTokenRequest {
+  recoveryToken: string;
+}
+
+/**
+ * Response with the state of an account recovery
+ */
+export interface RecoveryStatusResponse {
+  success: boolean;
+  status: RecoveryStatus;
+  availableAt: Date;
+  ready: boolean; // Pending and past its cool-down period
+}
+
+/**
+ * Response after completing an account recovery
+ */
+export interface CompleteRecoveryResponse {
+  success: boolean;
+  message: string;
+  token: string;
+  refreshToken: string;
+  user: {
+    id: string;
+    name: string;
+    email?: string;
+    phone?: string;
+    did?: string;
+  };
+  didRebindExpiresAt: Date;
+}
+
+/**
+ * Response with a DID proof-of-possession challenge
+ */
+export interface DidChallengeResponse {
+  challenge: string;
+  audience: string;
+  expiresAt: string;
+}
+
+/**
+ * Request to register a client-generated DID
+ */
+export interface RegisterDidRequest {
+  did: string;
+  didDocument: DIDDocument;
+  proof: string; // Compact JWS over the challenge, signed by the DID's authentication key
+}
+
+/**
+ * Response after DID registration
+ */
+export interface RegisterDidResponse {
+  success: boolean;
+  message: string;
+  did: string;
+  didDocument: DIDDocument;
+}
+
+/**
+ * Response after creating a DID topic for a new did:hedera
+ */
+export interface CreateDidTopicResponse {
+  success: boolean;
+  topicId: string;
+  network: string;
+}
+
+/**
+ * Request to replace the user's DID (key rotation for did:key, or moving to did:hedera)
+ */
+export interface RotateDidRequest {
+  did: string; // New DID
+  proof: string; // Compact JWS over the challenge, signed by the new DID's authentication key
+  controllerProof?: string; // Compact JWS over the same challenge with sub = new DID, signed by the current DID's authentication key; omitted only right after an account recovery
+  didMessages?: HederaDidMessageEnvelope[]; // Signed create messages for a new did:hedera, published before resolution
+}
+
+/**
+ * Request to update a did:hedera DID document
+ */
+export interface UpdateDidRequest {
+  messages: HederaDidMessageEnvelope[]; // Signed by the current DIDOwner key, in order
+}
+
+/**
+ * Response after a DID update or rotation
+ */
+export interface UpdateDidResponse {
+  success: boolean;
+  message: string;
+  did: string;
+  didDocument: DIDDocument;
+  previousDid?: string;
+}
+
 // ==================== Error Types ====================
 
 /**
@@ -341,7 +618,7 @@ export interface ApiError {
  * Basic verifiable credential structure
  */
 export interface VerifiableCredential {
-  '@context': string[];
+  '@context': (string | Record<string, any>)[];
   type: string[];
   id?: string;
   issuer: string | { id: string; [key: string]: any };
@@ -359,13 +636,23 @@ export interface VerifiableCredential {
     jws?: string;
     [key: string]: any;
   };
+  credentialStatus?: CredentialStatusEntry | CredentialStatusEntry[];
+}
+
+/**
+ * Entry of a credential's credentialStatus property
+ */
+export interface CredentialStatusEntry {
+  id?: string;
+  type: string;
+  [key: string]: any;
 }
 
 /**
  * Verifiable presentation structure
  */
 export interface VerifiablePresentation {
-  '@context': string[];
+  '@context': (string | Record<string, any>)[];
   type: string[];
   id?: string;
   holder: string;
@@ -381,3 +668,129 @@ export interface VerifiablePresentation {
     [key: string]: any;
   };
 }
+
+// ==================== Issuer Types ====================
+
+/**
+ * Output formats of issued credentials
+ * ldp_vc carries an embedded Data Integrity proof; jwt_vc_json is a compact JWT (VC Data Model 1.1 JWT encoding).
+ */
+export type CredentialFormat = 'ldp_vc' | 'jwt_vc_json';
+
+/**
+ * An issued credential as delivered: a signed JSON-LD credential or a compact JWT
+ */
+export type IssuedCredential = VerifiableCredential | string;
+
+/**
+ * Template describing a credential the issuer can issue
+ */
+export interface CredentialTemplate {
+  id: string; // Credential type, e.g. 'EmailVerifiedCredential'
+  name: string;
+  description: string;
+  validityDays?: number;
+  isEligible: (user: User) => boolean;
+  buildSubject: (user: User) => Record<string, any>;
+}
+
+/**
+ * Record of a credential issued to a user
+ */
+export interface IssuedCredentialRecord {
+  id: string; // Credential ID (urn:uuid)
+  userId: string;
+  templateId: string;
+  credential: VerifiableCredential; // Decoded credential (without proof for jwt_vc_json)
+  format?: CredentialFormat; // Defaults to ldp_vc
+  jwt?: string; // Compact JWT as delivered, for jwt_vc_json
+  issuedAt: Date;
+  statusListId?: string; // Status list holding the credential's revocation and suspension bits
+  statusListIndex?: number;
+  revokedAt?: Date;
+  suspendedAt?: Date;
+}
+
+// ==================== Status List Types ====================
+
+/**
+ * Status purposes the issuer publishes a list for
+ */
+export type StatusPurpose = 'revocation' | 'suspension';
+
+/**
+ * Issuer-side status list (W3C Status List 2021)
+ * One index is allocated per issued credential; the same index is used in the
+ * revocation and the suspension bitstring of the list.
+ */
+export interface StatusListRecord {
+  id: string; // Sequential list number, part of the public URL
+  length: number; // Number of entries (bits per bitstring)
+  allocated: number; // Number of indexes handed out
+  allocatedBits: string; // base64 bitstring of allocated indexes
+  revocationBits: string; // base64 bitstring, 1 = revoked
+  suspensionBits: string; // base64 bitstring, 1 = suspended
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Request to issue a credential to the authenticated user
+ */
+export interface IssueCredentialRequest {
+  template: string;
+}
+
+/**
+ * Response after issuing a credential
+ */
+export interface IssueCredentialResponse {
+  success: boolean;
+  message: string;
+  credential: VerifiableCredential;
+}
+
+// ==================== OID4VCI Types ====================
+
+/**
+ * Transaction code (PIN) the wallet must send with a pre-authorized code
+ */
+export interface TxCodeDescription {
+  input_mode?: 'numeric' | 'text';
+  length?: number;
+  description?: string;
+}
+
+/**
+ * Credential offer (OpenID for Verifiable Credential Issuance)
+ */
+export interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants?: {
+    'urn:ietf:params:oauth:grant-type:pre-authorized_code'?: {
+      'pre-authorized_code': string;
+      tx_code?: TxCodeDescription;
+    };
+  };
+}
+
+/**
+ * Request to create a credential offer for the authenticated user
+ */
+export interface CreateCredentialOfferRequest {
+  template: string;
+  format?: CredentialFormat; // Defaults to ldp_vc
+  txCode?: boolean; // Require a transaction code when redeeming the offer
+}
+
+/**
+ * Response with a credential offer
+ */
+export interface CreateCredentialOfferResponse {
+  success: boolean;
+  offer: CredentialOffer;
+  offerUri: string; // openid-credential-offer:// URI for QR codes and deep links
+  txCode?: string; // Delivered out of band by a real issuer
+  expiresAt: string;
+}
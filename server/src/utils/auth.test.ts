@@ -0,0 +1,57 @@
+import userModel from '../models/user';
+import { rotateRefreshToken, verifyToken } from './auth';
+import { resetStore, signIn } from '../test/server';
+
+const refreshRequest = { headers: { 'user-agent': 'jest' }, ip: '127.0.0.1' } as any;
+
+describe('refresh token rotation', () => {
+  beforeEach(async () => {
+    await resetStore();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('issues new tokens for the current refresh token', async () => {
+    const { user, refreshToken, session } = await signIn();
+
+    const rotated = await rotateRefreshToken(refreshToken, refreshRequest);
+
+    expect(rotated).not.toBeNull();
+    expect(rotated!.refreshToken).not.toBe(refreshToken);
+    expect(verifyToken(rotated!.token)).toMatchObject({ id: user.id, sid: session.id });
+    expect(await rotateRefreshToken(rotated!.refreshToken, refreshRequest)).not.toBeNull();
+  });
+
+  it('revokes the session when a rotated-out refresh token is presented again', async () => {
+    const { refreshToken, session } = await signIn();
+    const rotated = await rotateRefreshToken(refreshToken, refreshRequest);
+
+    expect(await rotateRefreshToken(refreshToken, refreshRequest)).toBeNull();
+
+    expect(await userModel.getSessionById(session.id)).toMatchObject({ revokedReason: 'refresh_token_reuse' });
+    expect(await rotateRefreshToken(rotated!.refreshToken, refreshRequest)).toBeNull();
+  });
+
+  it('treats a concurrent refresh with the same token as reuse', async () => {
+    const { refreshToken, session } = await signIn();
+
+    const results = await Promise.all([
+      rotateRefreshToken(refreshToken, refreshRequest),
+      rotateRefreshToken(refreshToken, refreshRequest)
+    ]);
+
+    expect(results.filter(result => result !== null)).toHaveLength(1);
+    expect(await userModel.getSessionById(session.id)).toMatchObject({ revokedReason: 'refresh_token_reuse' });
+  });
+
+  it('rejects an unknown refresh token without revoking the session', async () => {
+    const { session } = await signIn();
+
+    expect(await rotateRefreshToken(`${session.id}.not-the-token`, refreshRequest)).toBeNull();
+
+    expect((await userModel.getSessionById(session.id))?.revokedAt).toBeUndefined();
+  });
+});
@@ -1,12 +1,22 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-import { UserJwtPayload, AuthMethod, User } from '../types';
+import { UserJwtPayload, AuthMethod, User, Session } from '../types';
 import userModel from '../models/user';
 
-// Default JWT expiration time (from env or 24h)
-const JWT_EXPIRY = process.env.JWT_EXPIRY || '24h';
+// Default access token (JWT) expiration time (from env or 15 minutes)
+const JWT_EXPIRY = process.env.JWT_EXPIRY || '15m';
 const JWT_SECRET = process.env.JWT_SECRET;
 
+// Default session lifetime in days, extended on every refresh
+const DEFAULT_SESSION_TTL_DAYS = 30;
+
+// Rotated-out refresh tokens remembered per session for reuse detection
+const MAX_PREVIOUS_REFRESH_TOKENS = 100;
+
+// How often a session's last-seen time is written while it is in use
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
 // Ensure JWT secret is set
 if (!JWT_SECRET) {
   console.error('JWT_SECRET environment variable is not set!');
@@ -16,12 +26,13 @@ if (!JWT_SECRET) {
 }
 
 /**
- * Generate a JWT token for a user
+ * Generate a JWT access token for a user
  * @param user - User object
  * @param authMethod - Authentication method used
+ * @param sessionId - Session the token belongs to
  * @returns JWT token string
  */
-export function generateToken(user: User, authMethod: AuthMethod): string {
+export function generateToken(user: User, authMethod: AuthMethod, sessionId: string): string {
   if (!JWT_SECRET) {
     throw new Error('JWT secret not configured');
   }
@@ -32,12 +43,187 @@ export function generateToken(user: User, authMethod: AuthMethod): string {
     email: user.email,
     phone: user.phone,
     name: user.name,
-    authMethod
+    authMethod,
+    sid: sessionId
   };
 
   return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRY });
 }
 
+/**
+ * Get the session lifetime in milliseconds
+ */
+function getSessionTtlMs(): number {
+  const days = Number(process.env.SESSION_TTL_DAYS) || DEFAULT_SESSION_TTL_DAYS;
+  return days * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Hash a refresh token for storage
+ */
+function hashRefreshToken(refreshToken: string): string {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+/**
+ * Create a refresh token for a session
+ * The session ID prefix lets the token be looked up; only the hash is stored.
+ */
+function createRefreshToken(sessionId: string): string {
+  return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Check whether a session can still be used
+ * @param session - Session to check
+ */
+export function isSessionActive(session: Session | null): session is Session {
+  return !!session && !session.revokedAt && new Date(session.expiresAt) > new Date();
+}
+
+// Browser and OS detection for session labels, most specific first
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/.*Safari\//, 'Safari']
+];
+
+const OS_PATTERNS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Describe the device of a session from its user agent, e.g. "Chrome on macOS"
+ * @param userAgent - User-Agent header recorded at login
+ */
+export function getDeviceLabel(userAgent?: string): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Start a session after a successful login
+ * @param user - User who signed in
+ * @param authMethod - Authentication method used
+ * @param req - Login request (for device and IP)
+ * @param recoveryId - Account recovery that started the session, if any
+ * @returns Access token, refresh token and the session
+ */
+export async function startSession(
+  user: User,
+  authMethod: AuthMethod,
+  req: Request,
+  recoveryId?: string
+): Promise<{ token: string; refreshToken: string; session: Session }> {
+  const session = await userModel.createSession({
+    userId: user.id,
+    authMethod,
+    device: req.headers['user-agent'],
+    ip: req.ip,
+    refreshTokenHash: '',
+    expiresAt: new Date(Date.now() + getSessionTtlMs()),
+    recoveryId
+  });
+
+  const refreshToken = createRefreshToken(session.id);
+  const savedSession = await userModel.updateSession(session.id, { refreshTokenHash: hashRefreshToken(refreshToken) });
+
+  return {
+    token: generateToken(user, authMethod, session.id),
+    refreshToken,
+    session: savedSession || session
+  };
+}
+
+/**
+ * Get the session a refresh token belongs to, if the token is its current one
+ * @param refreshToken - Refresh token
+ */
+export async function getSessionByRefreshToken(refreshToken: string): Promise<Session | null> {
+  const sessionId = refreshToken.split('.')[0];
+  const session = sessionId ? await userModel.getSessionById(sessionId) : null;
+
+  if (!session || session.refreshTokenHash !== hashRefreshToken(refreshToken)) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * Presenting a refresh token that was already rotated out means it was copied, so the
+ * whole session is revoked and both the legitimate client and the copy must log in again.
+ * @param refreshToken - Current refresh token of the session
+ * @param req - Refresh request (for the last-seen IP)
+ * @returns New tokens, or null if the refresh token is invalid
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  req: Request
+): Promise<{ token: string; refreshToken: string; session: Session } | null> {
+  const sessionId = refreshToken.split('.')[0];
+  const session = sessionId ? await userModel.getSessionById(sessionId) : null;
+
+  if (!isSessionActive(session)) {
+    return null;
+  }
+
+  const tokenHash = hashRefreshToken(refreshToken);
+
+  if (session.previousRefreshTokenHashes.includes(tokenHash)) {
+    console.warn(`Refresh token reuse detected, revoking session ${session.id}`);
+    await userModel.revokeSession(session.id, 'refresh_token_reuse');
+    return null;
+  }
+
+  if (session.refreshTokenHash !== tokenHash) {
+    return null;
+  }
+
+  const user = await userModel.getUserById(session.userId);
+  if (!user) {
+    return null;
+  }
+
+  const newRefreshToken = createRefreshToken(session.id);
+  const updatedSession = await userModel.swapSessionRefreshToken(session, tokenHash, {
+    refreshTokenHash: hashRefreshToken(newRefreshToken),
+    previousRefreshTokenHashes: [...session.previousRefreshTokenHashes, tokenHash].slice(-MAX_PREVIOUS_REFRESH_TOKENS),
+    lastSeenAt: new Date(),
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + getSessionTtlMs())
+  });
+
+  // Another request rotated the same token first: it was presented twice
+  if (!updatedSession) {
+    console.warn(`Refresh token reuse detected, revoking session ${session.id}`);
+    await userModel.revokeSession(session.id, 'refresh_token_reuse');
+    return null;
+  }
+
+  return {
+    token: generateToken(user, session.authMethod, session.id),
+    refreshToken: newRefreshToken,
+    session: updatedSession
+  };
+}
+
 /**
  * Verify a JWT token
  * @param token - JWT token to verify
@@ -88,6 +274,7 @@ export async function getUserFromToken(token: string): Promise<User | null> {
 
 /**
  * Middleware to authenticate requests
+ * The token's session must still be active, so logging out takes effect immediately.
  * Adds user object to request if authenticated
  */
 export function authenticate(req: Request, res: Response, next: NextFunction): void {
@@ -103,7 +290,7 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
   
   const payload = verifyToken(token);
   
-  if (!payload) {
+  if (!payload || !payload.sid) {
     res.status(401).json({ 
       error: 'Unauthorized', 
       message: 'Invalid or expired token' 
@@ -111,8 +298,62 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
     return;
   }
   
-  // Add user payload to request
-  (req as any).user = payload;
+  userModel.getSessionById(payload.sid)
+    .then(async session => {
+      if (!isSessionActive(session) || session.userId !== payload.id) {
+        res.status(401).json({ 
+          error: 'Unauthorized', 
+          message: 'Session has ended' 
+        });
+        return;
+      }
+      
+      if (Date.now() - new Date(session.lastSeenAt).getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+        await userModel.updateSession(session.id, { lastSeenAt: new Date(), ip: req.ip });
+      }
+      
+      // Add user payload to request
+      (req as any).user = payload;
+      next();
+    })
+    .catch(error => {
+      console.error('Error loading session:', error);
+      res.status(500).json({ 
+        error: 'Internal Server Error', 
+        message: 'Failed to authenticate request' 
+      });
+    });
+}
+
+/**
+ * Middleware to authenticate administrative requests with ADMIN_API_KEY
+ * The key is sent as a bearer token. Admin endpoints are disabled while no key is configured.
+ */
+export function authenticateAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Admin API is disabled; set ADMIN_API_KEY to enable it'
+    });
+    return;
+  }
+
+  const token = extractTokenFromHeader(req);
+
+  // Compare digests so the comparison takes the same time for any token length
+  const expected = crypto.createHash('sha256').update(adminKey).digest();
+  const actual = crypto.createHash('sha256').update(token || '').digest();
+
+  if (!token || !crypto.timingSafeEqual(expected, actual)) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid admin API key'
+    });
+    return;
+  }
+
   next();
 }
 
@@ -195,46 +436,19 @@ export function isValidToken(token: string): boolean {
   return verifyToken(token) !== null;
 }
 
-/**
- * Refresh a JWT token if it's about to expire
- * @param token - Current JWT token
- * @returns New token if refreshed, original token otherwise
- */
-export async function refreshTokenIfNeeded(token: string): Promise<string> {
-  const payload = verifyToken(token);
-  
-  if (!payload) {
-    throw new Error('Invalid token');
-  }
-  
-  // Check if token is about to expire (less than 1 hour left)
-  const expiryTime = payload.exp || 0;
-  const nowInSeconds = Math.floor(Date.now() / 1000);
-  const oneHourInSeconds = 60 * 60;
-  
-  if (expiryTime - nowInSeconds < oneHourInSeconds) {
-    // Token is about to expire, refresh it
-    const user = await userModel.getUserById(payload.id);
-    
-    if (!user) {
-      throw new Error('User not found');
-    }
-    
-    return generateToken(user, payload.authMethod);
-  }
-  
-  // Token is still valid for more than 1 hour
-  return token;
-}
-
 export default {
   generateToken,
   verifyToken,
   extractTokenFromHeader,
   getUserFromToken,
   authenticate,
+  authenticateAdmin,
   requireAuthMethod,
   loadUser,
   isValidToken,
-  refreshTokenIfNeeded
+  isSessionActive,
+  getDeviceLabel,
+  startSession,
+  getSessionByRefreshToken,
+  rotateRefreshToken
 };
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+
+/**
+ * Decoded parts of a compact JWS
+ */
+export interface DecodedJws {
+  header: Record<string, any>;
+  payload: any;
+  signature: Buffer;
+  signingInput: string;
+}
+
+/**
+ * JWS algorithm identifiers for supported JWK curves
+ */
+const JWS_ALGORITHMS: Record<string, string> = {
+  Ed25519: 'EdDSA',
+  secp256k1: 'ES256K',
+  'P-256': 'ES256'
+};
+
+/**
+ * Get the JWS algorithm for a JWK
+ * @param jwk - Public or private JWK
+ */
+export function getJwsAlgorithm(jwk: any): string {
+  const alg = JWS_ALGORITHMS[jwk.crv];
+  if (!alg) {
+    throw new Error(`Unsupported key curve: ${jwk.crv}`);
+  }
+  return alg;
+}
+
+/**
+ * Encode a Buffer or string as base64url
+ */
+export function encodeBase64Url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+/**
+ * Decode a base64url string to a Buffer
+ */
+export function decodeBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/**
+ * Sign data with a private JWK
+ * @param privateKeyJwk - Private key in JWK format (must include d)
+ * @param data - Data to sign
+ * @returns Raw signature (IEEE P1363 format for ECDSA)
+ */
+export function signBytes(privateKeyJwk: any, data: Buffer): Buffer {
+  const key = crypto.createPrivateKey({ key: privateKeyJwk, format: 'jwk' });
+
+  if (privateKeyJwk.kty === 'OKP') {
+    return crypto.sign(null, data, key);
+  }
+
+  return crypto.sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' });
+}
+
+/**
+ * Verify a raw signature with a public JWK
+ * @param publicKeyJwk - Public key in JWK format
+ * @param data - Signed data
+ * @param signature - Raw signature (IEEE P1363 format for ECDSA)
+ */
+export function verifyBytes(publicKeyJwk: any, data: Buffer, signature: Buffer): boolean {
+  try {
+    const { d, ...publicJwk } = publicKeyJwk;
+    const key = crypto.createPublicKey({ key: publicJwk, format: 'jwk' });
+
+    if (publicJwk.kty === 'OKP') {
+      return crypto.verify(null, data, key, signature);
+    }
+
+    return crypto.verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
+
+/**
+ * Create a compact JWS
+ * @param payload - JSON payload
+ * @param privateKeyJwk - Signing key
+ * @param header - Additional protected header parameters (e.g. kid, typ)
+ */
+export function signJws(payload: any, privateKeyJwk: any, header: Record<string, any> = {}): string {
+  const protectedHeader = {
+    alg: getJwsAlgorithm(privateKeyJwk),
+    ...header
+  };
+
+  const signingInput = `${encodeBase64Url(JSON.stringify(protectedHeader))}.${encodeBase64Url(
+    typeof payload === 'string' ? payload : JSON.stringify(payload)
+  )}`;
+  const signature = signBytes(privateKeyJwk, Buffer.from(signingInput));
+
+  return `${signingInput}.${encodeBase64Url(signature)}`;
+}
+
+/**
+ * Decode a compact JWS without verifying it
+ * @param jws - Compact JWS
+ */
+export function decodeJws(jws: string): DecodedJws {
+  const parts = jws.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid JWS: expected three segments');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const payloadText = decodeBase64Url(encodedPayload).toString('utf8');
+  let payload: any;
+  try {
+    payload = JSON.parse(payloadText);
+  } catch {
+    payload = payloadText;
+  }
+
+  return {
+    header: JSON.parse(decodeBase64Url(encodedHeader).toString('utf8')),
+    payload,
+    signature: decodeBase64Url(encodedSignature),
+    signingInput: `${encodedHeader}.${encodedPayload}`
+  };
+}
+
+/**
+ * Verify a compact JWS against a public JWK
+ * @param jws - Compact JWS
+ * @param publicKeyJwk - Expected signer key
+ */
+export function verifyJws(jws: string, publicKeyJwk: any): boolean {
+  const { header, signature, signingInput } = decodeJws(jws);
+
+  if (header.alg !== getJwsAlgorithm(publicKeyJwk)) {
+    return false;
+  }
+
+  return verifyBytes(publicKeyJwk, Buffer.from(signingInput), signature);
+}
+
+export default {
+  encodeBase64Url,
+  decodeBase64Url,
+  signBytes,
+  verifyBytes,
+  signJws,
+  decodeJws,
+  verifyJws
+};
@@ -4,16 +4,10 @@ import {
   DIDKeyPair, 
   DIDDocument 
 } from '../types';
-import { 
-  Client, 
-  PrivateKey, 
-  AccountId, 
-  AccountCreateTransaction, 
-  Hbar, 
-  AccountInfoQuery 
-} from '@hashgraph/sdk';
 import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { generateBbsSecretKey, getBbsPublicKey } from 'hedera-id-wallet-common/bbs';
+import { isHederaDid, resolveHederaDid } from './hederaDid';
 
 // Base58 encoding/decoding utilities
 const base58Chars = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
@@ -43,21 +37,65 @@ function encodeBase58(buffer: Buffer): string {
   return result;
 }
 
+/**
+ * Decode a Base58 string to a Buffer
+ */
+export function decodeBase58(value: string): Buffer {
+  let num = BigInt(0);
+  
+  for (const char of value) {
+    const index = base58Chars.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    num = num * BigInt(58) + BigInt(index);
+  }
+  
+  const bytes: number[] = [];
+  while (num > BigInt(0)) {
+    bytes.unshift(Number(num % BigInt(256)));
+    num = num / BigInt(256);
+  }
+  
+  // Restore leading zero bytes encoded as '1'
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.unshift(0);
+  }
+  
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode a Multibase string (base58btc 'z' or base64url 'u')
+ * @param value - The multibase-encoded value
+ */
+export function decodeMultibase(value: string): Buffer {
+  const prefix = value.charAt(0);
+  
+  if (prefix === 'z') {
+    return decodeBase58(value.substring(1));
+  } else if (prefix === 'u') {
+    return Buffer.from(value.substring(1), 'base64url');
+  }
+  
+  throw new Error(`Unsupported multibase prefix: ${prefix}`);
+}
+
 /**
  * Encode a Buffer to Multibase format (used in did:key)
  * @param buffer - The buffer to encode
  * @param prefix - The multibase prefix (e.g., 'z' for base58btc)
  */
-function encodeMultibase(buffer: Buffer, prefix: string = 'z'): string {
+export function encodeMultibase(buffer: Buffer, prefix: string = 'z'): string {
   return prefix + encodeBase58(buffer);
 }
 
 /**
  * Convert a public key to a did:key identifier
  * @param publicKey - The public key as a Buffer
- * @param keyType - The key type ('ed25519' or 'secp256k1')
+ * @param keyType - The key type ('ed25519', 'secp256k1' or 'bls12381g2')
  */
-function publicKeyToDIDKey(publicKey: Buffer, keyType: string = 'ed25519'): string {
+export function publicKeyToDIDKey(publicKey: Buffer, keyType: string = 'ed25519'): string {
   // For Ed25519 keys, we need to prepend the multicodec prefix 0xed01
   let multicodecKey: Buffer;
   
@@ -65,7 +103,12 @@ function publicKeyToDIDKey(publicKey: Buffer, keyType: string = 'ed25519'): stri
     const prefix = Buffer.from([0xed, 0x01]);
     multicodecKey = Buffer.concat([prefix, publicKey]);
   } else if (keyType === 'secp256k1') {
+    // did:key uses the compressed secp256k1 point
     const prefix = Buffer.from([0xe7, 0x01]);
+    const compressedKey = crypto.ECDH.convertKey(publicKey, 'secp256k1', undefined, undefined, 'compressed') as Buffer;
+    multicodecKey = Buffer.concat([prefix, compressedKey]);
+  } else if (keyType === 'bls12381g2') {
+    const prefix = Buffer.from([0xeb, 0x01]);
     multicodecKey = Buffer.concat([prefix, publicKey]);
   } else {
     throw new Error(`Unsupported key type: ${keyType}`);
@@ -79,7 +122,7 @@ function publicKeyToDIDKey(publicKey: Buffer, keyType: string = 'ed25519'): stri
 
 /**
  * Generate a key pair for DID
- * @param keyType - The key type to generate ('ed25519' or 'secp256k1')
+ * @param keyType - The key type to generate ('ed25519', 'secp256k1' or 'bls12381g2')
  */
 async function generateKeyPair(keyType: string = 'ed25519'): Promise<DIDKeyPair> {
   if (keyType === 'ed25519') {
@@ -163,6 +206,20 @@ async function generateKeyPair(keyType: string = 'ed25519'): Promise<DIDKeyPair>
       privateKeyMultibase: encodeMultibase(privateKeyBuffer),
       privateKeyJwk
     };
+  } else if (keyType === 'bls12381g2') {
+    // BLS12-381 is not part of Node's crypto; keys are a scalar and its compressed G2 point
+    const privateKeyBuffer = Buffer.from(generateBbsSecretKey());
+    const publicKeyBuffer = Buffer.from(getBbsPublicKey(privateKeyBuffer));
+    const publicKeyJwk = publicKeyToJwk(publicKeyBuffer, keyType);
+    
+    return {
+      id: uuidv4(),
+      type: 'Multikey',
+      publicKeyMultibase: encodeMultibase(publicKeyBuffer),
+      publicKeyJwk,
+      privateKeyMultibase: encodeMultibase(privateKeyBuffer),
+      privateKeyJwk: { ...publicKeyJwk, d: privateKeyBuffer.toString('base64url') }
+    };
   } else {
     throw new Error(`Unsupported key type: ${keyType}`);
   }
@@ -205,8 +262,8 @@ function extractSecp256k1PublicKeyFromDer(der: Buffer): Buffer {
   const algIdLen = der[offset + 1];
   offset += 2 + algIdLen;
   
-  // Skip bit string header
-  offset += 2;
+  // Skip bit string header and its unused-bits byte
+  offset += 3;
   
   // The rest is the public key
   return der.slice(offset);
@@ -225,147 +282,75 @@ function extractSecp256k1PrivateKeyFromDer(der: Buffer): Buffer {
 }
 
 /**
- * Create a DID document for a did:key identifier
- * @param did - The did:key identifier
- * @param keyPair - The key pair associated with the DID
+ * Build a public JWK from a raw public key
+ * @param publicKey - Raw public key (compressed or uncompressed for secp256k1, compressed G2 point for BLS12-381)
+ * @param keyType - The key type ('ed25519', 'secp256k1' or 'bls12381g2')
  */
-function createDIDKeyDocument(did: string, keyPair: DIDKeyPair): DIDDocument {
-  const verificationMethodId = `${did}#${keyPair.id}`;
-  
-  const verificationMethod = {
-    id: verificationMethodId,
-    type: keyPair.type,
-    controller: did,
-    publicKeyMultibase: keyPair.publicKeyMultibase
-  };
-  
-  return {
-    id: did,
-    verificationMethod: [verificationMethod],
-    authentication: [verificationMethodId],
-    assertionMethod: [verificationMethodId],
-    capabilityInvocation: [verificationMethodId],
-    capabilityDelegation: [verificationMethodId],
-    keyAgreement: [verificationMethodId]
-  };
-}
-
-/**
- * Initialize Hedera client based on environment variables
- */
-function getHederaClient(): Client {
-  // Check for required environment variables
-  const operatorId = process.env.HEDERA_OPERATOR_ID;
-  const operatorKey = process.env.HEDERA_OPERATOR_KEY;
-  const network = process.env.HEDERA_NETWORK || 'testnet';
-  
-  if (!operatorId || !operatorKey) {
-    throw new Error('Hedera operator ID and key must be provided in environment variables');
-  }
-  
-  // Create and return the client
-  let client: Client;
-  
-  if (network === 'mainnet') {
-    client = Client.forMainnet();
-  } else if (network === 'testnet') {
-    client = Client.forTestnet();
-  } else if (network === 'previewnet') {
-    client = Client.forPreviewnet();
-  } else {
-    throw new Error(`Unsupported Hedera network: ${network}`);
+export function publicKeyToJwk(publicKey: Buffer, keyType: string): any {
+  if (keyType === 'ed25519') {
+    return {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: publicKey.toString('base64url')
+    };
+  } else if (keyType === 'secp256k1') {
+    const uncompressed = crypto.ECDH.convertKey(publicKey, 'secp256k1', undefined, undefined, 'uncompressed') as Buffer;
+    return {
+      kty: 'EC',
+      crv: 'secp256k1',
+      x: uncompressed.subarray(1, 33).toString('base64url'),
+      y: uncompressed.subarray(33, 65).toString('base64url')
+    };
+  } else if (keyType === 'bls12381g2') {
+    return {
+      kty: 'OKP',
+      crv: 'Bls12381G2',
+      x: publicKey.toString('base64url')
+    };
   }
   
-  // Set the operator account ID and key
-  client.setOperator(
-    AccountId.fromString(operatorId),
-    PrivateKey.fromString(operatorKey)
-  );
-  
-  return client;
+  throw new Error(`Unsupported key type: ${keyType}`);
 }
 
 /**
- * Create a Hedera account with the given private key
- * @param privateKey - The private key for the account
+ * Decode the multicodec-prefixed public key of a did:key identifier
+ * @param multibaseKey - The method-specific identifier of the did:key
  */
-async function createHederaAccount(privateKey: PrivateKey): Promise<AccountId> {
-  const client = getHederaClient();
+function decodeDIDKeyPublicKey(multibaseKey: string): { keyType: string; publicKey: Buffer } {
+  const keyBytes = decodeMultibase(multibaseKey);
   
-  try {
-    // Create a new account with the given key
-    const transaction = new AccountCreateTransaction()
-      .setKey(privateKey.publicKey)
-      .setInitialBalance(Hbar.fromTinybars(100)) // Minimal balance
-      .freezeWith(client);
-    
-    // Sign and submit the transaction
-    const signedTx = await transaction.sign(privateKey);
-    const response = await signedTx.execute(client);
-    
-    // Get the account ID from the receipt
-    const receipt = await response.getReceipt(client);
-    const accountId = receipt.accountId;
-    
-    if (!accountId) {
-      throw new Error('Failed to create Hedera account: accountId is null');
-    }
-    
-    return accountId;
-  } catch (error) {
-    console.error('Error creating Hedera account:', error);
-    throw error;
-  } finally {
-    client.close();
+  if (keyBytes[0] === 0xed && keyBytes[1] === 0x01) {
+    return { keyType: 'ed25519', publicKey: keyBytes.subarray(2) };
+  } else if (keyBytes[0] === 0xe7 && keyBytes[1] === 0x01) {
+    return { keyType: 'secp256k1', publicKey: keyBytes.subarray(2) };
+  } else if (keyBytes[0] === 0xeb && keyBytes[1] === 0x01) {
+    return { keyType: 'bls12381g2', publicKey: keyBytes.subarray(2) };
   }
-}
-
-/**
- * Get account info from Hedera
- * @param accountId - The account ID to query
- */
-async function getHederaAccountInfo(accountId: AccountId): Promise<any> {
-  const client = getHederaClient();
   
-  try {
-    // Query the account info
-    const query = new AccountInfoQuery()
-      .setAccountId(accountId);
-    
-    // Execute the query
-    const accountInfo = await query.execute(client);
-    
-    return accountInfo;
-  } catch (error) {
-    console.error('Error getting Hedera account info:', error);
-    throw error;
-  } finally {
-    client.close();
-  }
-}
-
-/**
- * Create a did:hedera identifier
- * @param accountId - The Hedera account ID
- * @param network - The Hedera network (testnet, mainnet, previewnet)
- */
-function createHederaDID(accountId: string, network: string = 'testnet'): string {
-  return `did:hedera:${network}:${accountId}`;
+  throw new Error('Unsupported did:key multicodec');
 }
 
 /**
- * Create a DID document for a did:hedera identifier
- * @param did - The did:hedera identifier
- * @param keyPair - The key pair associated with the DID
+ * Create the DID document for a did:key identifier
+ * The document is derived entirely from the public key encoded in the DID.
+ * @param did - The did:key identifier
  */
-function createHederaDIDDocument(did: string, keyPair: DIDKeyPair): DIDDocument {
-  const verificationMethodId = `${did}#${keyPair.id}`;
+function createDIDKeyDocument(did: string): DIDDocument {
+  const multibaseKey = did.substring('did:key:'.length).split('#')[0];
+  const { keyType, publicKey } = decodeDIDKeyPublicKey(multibaseKey);
+  const verificationMethodId = `${did}#${multibaseKey}`;
+  const verificationMethodTypes: Record<string, string> = {
+    ed25519: 'Ed25519VerificationKey2020',
+    secp256k1: 'EcdsaSecp256k1VerificationKey2019',
+    bls12381g2: 'Multikey'
+  };
   
   const verificationMethod = {
     id: verificationMethodId,
-    type: keyPair.type,
+    type: verificationMethodTypes[keyType],
     controller: did,
-    publicKeyJwk: keyPair.publicKeyJwk
+    publicKeyMultibase: multibaseKey,
+    publicKeyJwk: publicKeyToJwk(publicKey, keyType)
   };
   
   return {
@@ -392,37 +377,23 @@ export async function generateDID(options: DIDCreationOptions = { method: DIDMet
   
   if (options.method === DIDMethod.KEY) {
     // Create did:key
-    const publicKeyBuffer = Buffer.from(keyPair.publicKeyMultibase.substring(1), 'base58');
+    const publicKeyBuffer = decodeMultibase(keyPair.publicKeyMultibase!);
     const did = publicKeyToDIDKey(publicKeyBuffer, keyType);
-    const didDocument = createDIDKeyDocument(did, keyPair);
+    const didDocument = createDIDKeyDocument(did);
+    const verificationMethod = didDocument.verificationMethod![0];
     
-    return { did, didDocument, keyPair };
+    return {
+      did,
+      didDocument,
+      keyPair: {
+        ...keyPair,
+        id: verificationMethod.id,
+        publicKeyMultibase: verificationMethod.publicKeyMultibase
+      }
+    };
   } else if (options.method === DIDMethod.HEDERA) {
-    // Create did:hedera
-    const network = options.network || 'testnet';
-    
-    // Convert the key pair to Hedera format
-    let privateKey: PrivateKey;
-    
-    if (keyType === 'ed25519') {
-      // Extract private key bytes from multibase
-      const privateKeyBase58 = keyPair.privateKeyMultibase.substring(1); // Remove 'z' prefix
-      const privateKeyBytes = Buffer.from(privateKeyBase58, 'base58');
-      
-      // Create Hedera private key
-      privateKey = PrivateKey.fromBytes(privateKeyBytes);
-    } else {
-      throw new Error(`Unsupported key type for Hedera: ${keyType}`);
-    }
-    
-    // Create a Hedera account with this key
-    const accountId = await createHederaAccount(privateKey);
-    
-    // Create the DID
-    const did = createHederaDID(accountId.toString(), network);
-    const didDocument = createHederaDIDDocument(did, keyPair);
-    
-    return { did, didDocument, keyPair };
+    // did:hedera DIDs are created by the wallet, so the root key never leaves the device
+    throw new Error('did:hedera DIDs are created by the wallet, not the server');
   } else {
     throw new Error(`Unsupported DID method: ${options.method}`);
   }
@@ -434,41 +405,12 @@ export async function generateDID(options: DIDCreationOptions = { method: DIDMet
  */
 export async function resolveDID(did: string): Promise<DIDDocument | null> {
   if (did.startsWith('did:key:')) {
-    // For did:key, we can derive the document from the DID itself
-    // This is a simplified implementation - in production, use a proper DID resolver
-    const publicKeyMultibase = did.split(':')[2];
-    const keyPair: DIDKeyPair = {
-      id: uuidv4(),
-      type: 'Ed25519VerificationKey2020',
-      publicKeyMultibase
-    };
-    
-    return createDIDKeyDocument(did, keyPair);
+    // For did:key, the document is derived from the DID itself
+    return createDIDKeyDocument(did);
   } else if (did.startsWith('did:hedera:')) {
-    // For did:hedera, we need to query the Hedera network
-    const parts = did.split(':');
-    if (parts.length < 4) {
-      throw new Error(`Invalid did:hedera format: ${did}`);
-    }
-    
-    const network = parts[2];
-    const accountId = parts[3];
-    
+    // For did:hedera, replay the DID topic from the mirror node
     try {
-      // Query the account info
-      const accountInfo = await getHederaAccountInfo(AccountId.fromString(accountId));
-      
-      // Extract the public key
-      const publicKey = accountInfo.key.toString();
-      
-      // Create a key pair object
-      const keyPair: DIDKeyPair = {
-        id: uuidv4(),
-        type: 'Ed25519VerificationKey2020',
-        publicKeyMultibase: publicKey
-      };
-      
-      return createHederaDIDDocument(did, keyPair);
+      return await resolveHederaDid(did.split('#')[0]);
     } catch (error) {
       console.error(`Error resolving did:hedera: ${error}`);
       return null;
@@ -488,10 +430,7 @@ export function isValidDID(did: string): boolean {
     const parts = did.split(':');
     return parts.length === 3 && parts[2].length > 0;
   } else if (did.startsWith('did:hedera:')) {
-    const parts = did.split(':');
-    return parts.length === 4 && 
-           ['testnet', 'mainnet', 'previewnet'].includes(parts[2]) && 
-           parts[3].length > 0;
+    return isHederaDid(did);
   }
   
   return false;
@@ -506,12 +445,7 @@ export async function extractPublicKeyFromDID(did: string): Promise<Buffer | nul
     if (did.startsWith('did:key:')) {
       // For did:key, the public key is encoded in the DID itself
       const multibaseKey = did.split(':')[2];
-      // Remove the multibase prefix ('z')
-      const base58Key = multibaseKey.substring(1);
-      // Decode from base58
-      const keyBytes = Buffer.from(base58Key, 'base58');
-      // Remove the multicodec prefix (0xed01 for Ed25519)
-      return keyBytes.slice(2);
+      return decodeDIDKeyPublicKey(multibaseKey).publicKey;
     } else if (did.startsWith('did:hedera:')) {
       // For did:hedera, we need to resolve the DID document
       const didDocument = await resolveDID(did);
@@ -523,11 +457,7 @@ export async function extractPublicKeyFromDID(did: string): Promise<Buffer | nul
       const verificationMethod = didDocument.verificationMethod[0];
       
       if ('publicKeyMultibase' in verificationMethod) {
-        const multibaseKey = verificationMethod.publicKeyMultibase;
-        // Remove the multibase prefix ('z')
-        const base58Key = multibaseKey.substring(1);
-        // Decode from base58
-        const keyBytes = Buffer.from(base58Key, 'base58');
+        const keyBytes = decodeMultibase(verificationMethod.publicKeyMultibase);
         // Remove the multicodec prefix if present
         return keyBytes.length > 2 ? keyBytes.slice(2) : keyBytes;
       } else if ('publicKeyJwk' in verificationMethod) {
@@ -558,9 +488,62 @@ export async function extractPublicKeyFromDID(did: string): Promise<Buffer | nul
   }
 }
 
+/**
+ * Find a verification method in a DID document
+ * @param didDocument - The DID document to search
+ * @param id - Verification method ID (absolute or relative '#fragment')
+ */
+export function getVerificationMethod(didDocument: DIDDocument, id: string): any | null {
+  const absoluteId = id.startsWith('#') ? `${didDocument.id}${id}` : id;
+  
+  return didDocument.verificationMethod?.find(method =>
+    method.id === absoluteId || `${didDocument.id}${method.id}` === absoluteId
+  ) || null;
+}
+
+/**
+ * Check whether a verification method is referenced by a verification relationship
+ * @param didDocument - The DID document
+ * @param relationship - e.g. 'authentication' or 'assertionMethod'
+ * @param id - Verification method ID
+ */
+export function hasVerificationRelationship(
+  didDocument: DIDDocument,
+  relationship: 'authentication' | 'assertionMethod' | 'capabilityInvocation' | 'capabilityDelegation',
+  id: string
+): boolean {
+  const entries = didDocument[relationship] || [];
+  
+  return entries.some(entry => {
+    const entryId = typeof entry === 'string' ? entry : entry.id;
+    const absoluteId = entryId.startsWith('#') ? `${didDocument.id}${entryId}` : entryId;
+    return absoluteId === id;
+  });
+}
+
+/**
+ * Get the public key of a verification method as a JWK
+ * @param verificationMethod - Verification method from a DID document
+ */
+export function getPublicKeyJwk(verificationMethod: any): any {
+  if (verificationMethod.publicKeyJwk) {
+    return verificationMethod.publicKeyJwk;
+  }
+  
+  if (verificationMethod.publicKeyMultibase) {
+    const { keyType, publicKey } = decodeDIDKeyPublicKey(verificationMethod.publicKeyMultibase);
+    return publicKeyToJwk(publicKey, keyType);
+  }
+  
+  throw new Error(`Verification method ${verificationMethod.id} has no supported public key`);
+}
+
 export default {
   generateDID,
   resolveDID,
   isValidDID,
-  extractPublicKeyFromDID
+  extractPublicKeyFromDID,
+  getVerificationMethod,
+  hasVerificationRelationship,
+  getPublicKeyJwk
 };
@@ -0,0 +1,281 @@
+import {
+  Client,
+  PrivateKey,
+  AccountId,
+  TopicCreateTransaction,
+  TopicMessageSubmitTransaction
+} from '@hashgraph/sdk';
+import crypto from 'crypto';
+import { MirrorTopicMessage } from '../types';
+
+/**
+ * Hedera Consensus Service access
+ * Topics are created and written through the SDK and read back from the mirror node
+ * REST API. The 'local' network replaces both with an in-process ledger so DIDs can
+ * be created and resolved offline.
+ */
+
+export const HEDERA_NETWORKS = ['mainnet', 'testnet', 'previewnet', 'local'];
+
+// Page size for mirror node topic message queries
+const MIRROR_PAGE_LIMIT = 100;
+
+// How long to wait for the mirror node to catch up with a submitted message
+const MIRROR_SYNC_TIMEOUT_MS = 20 * 1000;
+const MIRROR_SYNC_INTERVAL_MS = 1000;
+
+/**
+ * Get the configured Hedera network
+ */
+export function getHederaNetwork(): string {
+  return process.env.HEDERA_NETWORK || 'testnet';
+}
+
+/**
+ * Check whether the in-process mock network is in use
+ */
+export function isMockNetwork(): boolean {
+  return getHederaNetwork() === 'local';
+}
+
+/**
+ * Get the mirror node REST API base URL (ending in /api/v1/)
+ */
+export function getMirrorNodeUrl(): string {
+  if (isMockNetwork() && !process.env.HEDERA_MIRROR_NODE) {
+    return `http://localhost:${process.env.PORT || 4000}/mirror-node/api/v1/`;
+  }
+
+  const url = process.env.HEDERA_MIRROR_NODE || `https://${getHederaNetwork()}.mirrornode.hedera.com/api/v1/`;
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+/**
+ * Initialize Hedera client based on environment variables
+ */
+function getHederaClient(): Client {
+  // Check for required environment variables
+  const operatorId = process.env.HEDERA_OPERATOR_ID;
+  const operatorKey = process.env.HEDERA_OPERATOR_KEY;
+  const network = getHederaNetwork();
+
+  if (!operatorId || !operatorKey) {
+    throw new Error('Hedera operator ID and key must be provided in environment variables');
+  }
+
+  // Create and return the client
+  let client: Client;
+
+  if (network === 'mainnet') {
+    client = Client.forMainnet();
+  } else if (network === 'testnet') {
+    client = Client.forTestnet();
+  } else if (network === 'previewnet') {
+    client = Client.forPreviewnet();
+  } else {
+    throw new Error(`Unsupported Hedera network: ${network}`);
+  }
+
+  // Set the operator account ID and key
+  client.setOperator(
+    AccountId.fromString(operatorId),
+    PrivateKey.fromString(operatorKey)
+  );
+
+  return client;
+}
+
+// ==================== Mock network ====================
+
+export interface MockTopic {
+  memo: string;
+  createdTimestamp: string;
+  messages: MirrorTopicMessage[];
+}
+
+const mockTopics = new Map<string, MockTopic>();
+let mockTopicCounter = 1000;
+let mockLastTimestamp = 0n;
+
+/**
+ * Get a strictly increasing consensus timestamp (seconds.nanoseconds)
+ */
+function nextMockTimestamp(): string {
+  const now = BigInt(Date.now()) * 1000000n;
+  mockLastTimestamp = now > mockLastTimestamp ? now : mockLastTimestamp + 1n;
+  const seconds = mockLastTimestamp / 1000000000n;
+  const nanos = (mockLastTimestamp % 1000000000n).toString().padStart(9, '0');
+  return `${seconds}.${nanos}`;
+}
+
+/**
+ * Get a topic from the mock ledger (used by the mock mirror node)
+ * @param topicId - Topic ID
+ */
+export function getMockTopic(topicId: string): MockTopic | undefined {
+  return mockTopics.get(topicId);
+}
+
+/**
+ * Remove every topic from the mock ledger
+ */
+export function resetMockNetwork(): void {
+  mockTopics.clear();
+}
+
+// ==================== Consensus Service ====================
+
+/**
+ * Create an HCS topic
+ * @param memo - Public topic memo
+ * @returns The topic ID (shard.realm.num)
+ */
+export async function createTopic(memo: string): Promise<string> {
+  if (isMockNetwork()) {
+    const topicId = `0.0.${++mockTopicCounter}`;
+    mockTopics.set(topicId, { memo, createdTimestamp: nextMockTimestamp(), messages: [] });
+    return topicId;
+  }
+
+  const client = getHederaClient();
+
+  try {
+    const response = await new TopicCreateTransaction()
+      .setTopicMemo(memo)
+      .execute(client);
+
+    const receipt = await response.getReceipt(client);
+
+    if (!receipt.topicId) {
+      throw new Error('Failed to create topic: topicId is null');
+    }
+
+    return receipt.topicId.toString();
+  } catch (error) {
+    console.error('Error creating HCS topic:', error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Submit a message to an HCS topic
+ * @param topicId - Topic ID
+ * @param message - Message contents
+ * @returns The message's sequence number
+ */
+export async function submitTopicMessage(topicId: string, message: string): Promise<number> {
+  if (isMockNetwork()) {
+    const topic = mockTopics.get(topicId);
+    if (!topic) {
+      throw new Error(`Topic ${topicId} does not exist`);
+    }
+
+    const contents = Buffer.from(message, 'utf8');
+    const previousHash = topic.messages.length > 0
+      ? Buffer.from(topic.messages[topic.messages.length - 1].running_hash!, 'base64')
+      : Buffer.alloc(0);
+
+    const entry: MirrorTopicMessage = {
+      consensus_timestamp: nextMockTimestamp(),
+      message: contents.toString('base64'),
+      sequence_number: topic.messages.length + 1,
+      topic_id: topicId,
+      payer_account_id: process.env.HEDERA_OPERATOR_ID || '0.0.2',
+      running_hash: crypto.createHash('sha384').update(Buffer.concat([previousHash, contents])).digest('base64'),
+      chunk_info: null
+    };
+
+    topic.messages.push(entry);
+    return entry.sequence_number;
+  }
+
+  const client = getHederaClient();
+
+  try {
+    const response = await new TopicMessageSubmitTransaction()
+      .setTopicId(topicId)
+      .setMessage(message)
+      .execute(client);
+
+    const receipt = await response.getReceipt(client);
+
+    return receipt.topicSequenceNumber ? Number(receipt.topicSequenceNumber.toString()) : 0;
+  } catch (error) {
+    console.error('Error submitting HCS message:', error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+// ==================== Mirror node ====================
+
+/**
+ * Fetch all messages of a topic from the mirror node, in consensus order
+ * @param topicId - Topic ID
+ * @returns The messages, or null if the topic does not exist
+ */
+export async function getTopicMessages(topicId: string): Promise<MirrorTopicMessage[] | null> {
+  const baseUrl = getMirrorNodeUrl();
+  const messages: MirrorTopicMessage[] = [];
+  let url: string | null = new URL(`topics/${topicId}/messages?order=asc&limit=${MIRROR_PAGE_LIMIT}`, baseUrl).toString();
+
+  while (url) {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Mirror node request failed with status ${response.status}`);
+    }
+
+    const page: any = await response.json();
+    messages.push(...(page.messages || []));
+
+    // links.next is a path on the mirror node host
+    url = page.links?.next ? new URL(page.links.next, baseUrl).toString() : null;
+  }
+
+  return messages;
+}
+
+/**
+ * Wait until the mirror node has a topic's message with the given sequence number
+ * @param topicId - Topic ID
+ * @param sequenceNumber - Sequence number returned by submitTopicMessage
+ */
+export async function waitForTopicMessage(topicId: string, sequenceNumber: number): Promise<void> {
+  const deadline = Date.now() + MIRROR_SYNC_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const url = new URL(`topics/${topicId}/messages/${sequenceNumber}`, getMirrorNodeUrl()).toString();
+
+    try {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (response.ok) {
+        return;
+      }
+    } catch (error) {
+      // Mirror node not reachable yet; retry until the deadline
+    }
+
+    await new Promise(resolve => setTimeout(resolve, MIRROR_SYNC_INTERVAL_MS));
+  }
+
+  throw new Error(`Mirror node did not return message ${sequenceNumber} of topic ${topicId} in time`);
+}
+
+export default {
+  HEDERA_NETWORKS,
+  getHederaNetwork,
+  isMockNetwork,
+  getMirrorNodeUrl,
+  createTopic,
+  submitTopicMessage,
+  getTopicMessages,
+  waitForTopicMessage
+};
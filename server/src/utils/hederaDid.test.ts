@@ -0,0 +1,211 @@
+import { DIDMethod, HederaDidMessageEnvelope, MirrorTopicMessage } from '../types';
+import { generateDID, resolveDID } from './did';
+import {
+  createDidMessage,
+  createHederaDidIdentifier,
+  resolveHederaDid,
+  ROOT_KEY_FRAGMENT,
+  signDidMessage
+} from './hederaDid';
+import { createHolderDid, TestHolder } from '../test/did';
+
+const MIRROR_NODE = 'https://mirror.test/api/v1/';
+const TOPIC_ID = '0.0.4321';
+
+interface RootKey {
+  publicKeyMultibase: string;
+  privateKeyJwk: any;
+}
+
+/**
+ * Get a DID owner key from a did:key holder
+ */
+const toRootKey = (holder: TestHolder): RootKey => ({
+  publicKeyMultibase: holder.did.substring('did:key:'.length),
+  privateKeyJwk: holder.privateKeyJwk
+});
+
+/**
+ * Encode envelopes as mirror node topic messages
+ */
+const toTopicMessages = (entries: (HederaDidMessageEnvelope | string)[]): MirrorTopicMessage[] =>
+  entries.map((entry, index) => ({
+    consensus_timestamp: `1700000000.00000000${index}`,
+    message: Buffer.from(typeof entry === 'string' ? entry : JSON.stringify(entry)).toString('base64'),
+    sequence_number: index + 1,
+    topic_id: TOPIC_ID,
+    chunk_info: null
+  }));
+
+/**
+ * Serve a topic from a mocked mirror node, two messages per page
+ */
+function mockMirrorNode(messages: MirrorTopicMessage[] | null, status: number = 200): jest.SpyInstance {
+  return jest.spyOn(global, 'fetch').mockImplementation(async input => {
+    const url = new URL(String(input));
+    expect(url.pathname).toBe(`/api/v1/topics/${TOPIC_ID}/messages`);
+
+    if (!messages || status !== 200) {
+      return new Response(JSON.stringify({ _status: { messages: [{ message: 'Not found' }] } }), { status: messages ? status : 404 });
+    }
+
+    const after = Number(url.searchParams.get('sequencenumber')?.replace('gt:', '') || 0);
+    const page = messages.filter(message => message.sequence_number > after).slice(0, 2);
+    const last = page[page.length - 1];
+    const next = last && last.sequence_number < messages.length
+      ? `/api/v1/topics/${TOPIC_ID}/messages?order=asc&limit=2&sequencenumber=gt:${last.sequence_number}`
+      : null;
+
+    return new Response(JSON.stringify({ messages: page, links: { next } }), { status: 200 });
+  });
+}
+
+describe('did:hedera resolution', () => {
+  const originalMirrorNode = process.env.HEDERA_MIRROR_NODE;
+  let owner: RootKey;
+  let did: string;
+
+  const sign = (operation: 'create' | 'update' | 'revoke' | 'delete', event: Record<string, any> | null, key = owner) =>
+    signDidMessage(createDidMessage(did, operation, event), key.privateKeyJwk);
+
+  const createEvent = (key: RootKey = owner) => ({
+    DIDOwner: {
+      id: `${did}#${ROOT_KEY_FRAGMENT}`,
+      type: 'Ed25519VerificationKey2020',
+      controller: did,
+      publicKeyMultibase: key.publicKeyMultibase
+    }
+  });
+
+  beforeEach(async () => {
+    process.env.HEDERA_MIRROR_NODE = MIRROR_NODE;
+    owner = toRootKey(await createHolderDid());
+    did = createHederaDidIdentifier('local', owner.publicKeyMultibase, TOPIC_ID);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env.HEDERA_MIRROR_NODE = originalMirrorNode;
+  });
+
+  it('rebuilds the DID document by replaying every page of the topic', async () => {
+    const assertionKey = toRootKey(await createHolderDid());
+    const fetchSpy = mockMirrorNode(toTopicMessages([
+      sign('create', createEvent()),
+      sign('create', {
+        VerificationRelationship: {
+          id: `${did}#key-1`,
+          type: 'Ed25519VerificationKey2020',
+          controller: did,
+          publicKeyMultibase: assertionKey.publicKeyMultibase,
+          relationshipType: 'assertionMethod'
+        }
+      }),
+      sign('create', { Service: { id: `${did}#wallet`, type: 'LinkedDomains', serviceEndpoint: 'https://wallet.test' } })
+    ]));
+
+    const document = await resolveHederaDid(did);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(document).toEqual({
+      id: did,
+      verificationMethod: [
+        {
+          id: `${did}#${ROOT_KEY_FRAGMENT}`,
+          type: 'Ed25519VerificationKey2020',
+          controller: did,
+          publicKeyMultibase: owner.publicKeyMultibase
+        },
+        {
+          id: `${did}#key-1`,
+          type: 'Ed25519VerificationKey2020',
+          controller: did,
+          publicKeyMultibase: assertionKey.publicKeyMultibase
+        }
+      ],
+      authentication: [`${did}#${ROOT_KEY_FRAGMENT}`],
+      assertionMethod: [`${did}#${ROOT_KEY_FRAGMENT}`, `${did}#key-1`],
+      service: [{ id: `${did}#wallet`, type: 'LinkedDomains', serviceEndpoint: 'https://wallet.test' }]
+    });
+  });
+
+  it('ignores messages not signed by the DID owner, malformed messages and other DIDs', async () => {
+    const intruder = toRootKey(await createHolderDid());
+    const otherDid = createHederaDidIdentifier('local', intruder.publicKeyMultibase, TOPIC_ID);
+    const service = (id: string) => ({ Service: { id: `${did}#${id}`, type: 'LinkedDomains', serviceEndpoint: 'https://evil.test' } });
+
+    mockMirrorNode(toTopicMessages([
+      sign('create', createEvent(intruder), intruder),
+      sign('create', createEvent()),
+      sign('create', service('forged'), intruder),
+      'not a DID message',
+      signDidMessage(createDidMessage(otherDid, 'create', service('other')), intruder.privateKeyJwk)
+    ]));
+
+    const document = await resolveHederaDid(did);
+
+    expect(document?.verificationMethod?.[0].publicKeyMultibase).toBe(owner.publicKeyMultibase);
+    expect(document?.service).toBeUndefined();
+  });
+
+  it('only accepts messages from the new owner key after a DIDOwner update', async () => {
+    const newOwner = toRootKey(await createHolderDid());
+    const service = (id: string) => ({ Service: { id: `${did}#${id}`, type: 'LinkedDomains', serviceEndpoint: `https://${id}.test` } });
+
+    mockMirrorNode(toTopicMessages([
+      sign('create', createEvent()),
+      sign('update', createEvent(newOwner)),
+      sign('create', service('old-key')),
+      sign('create', service('new-key'), newOwner)
+    ]));
+
+    const document = await resolveHederaDid(did);
+
+    expect(document?.verificationMethod?.[0].publicKeyMultibase).toBe(newOwner.publicKeyMultibase);
+    expect(document?.service?.map(entry => entry.id)).toEqual([`${did}#new-key`]);
+  });
+
+  it('applies revocations and deletion', async () => {
+    const service = { Service: { id: `${did}#wallet`, type: 'LinkedDomains', serviceEndpoint: 'https://wallet.test' } };
+    const messages = [sign('create', createEvent()), sign('create', service), sign('revoke', service)];
+
+    mockMirrorNode(toTopicMessages(messages));
+    expect((await resolveHederaDid(did))?.service).toBeUndefined();
+
+    jest.restoreAllMocks();
+    mockMirrorNode(toTopicMessages([...messages, sign('delete', null)]));
+    expect(await resolveHederaDid(did)).toBeNull();
+  });
+
+  it('does not resolve a topic without a valid create message', async () => {
+    mockMirrorNode(toTopicMessages([sign('update', createEvent())]));
+
+    expect(await resolveHederaDid(did)).toBeNull();
+  });
+
+  it('returns null for a topic the mirror node does not know', async () => {
+    mockMirrorNode(null);
+
+    expect(await resolveHederaDid(did)).toBeNull();
+  });
+
+  it('fails when the mirror node errors, which resolveDID reports as unresolvable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockMirrorNode([], 500);
+
+    await expect(resolveHederaDid(did)).rejects.toThrow('Mirror node request failed with status 500');
+    expect(await resolveDID(did)).toBeNull();
+  });
+
+  it('refuses DIDs on another network', async () => {
+    const testnetDid = createHederaDidIdentifier('testnet', owner.publicKeyMultibase, TOPIC_ID);
+
+    await expect(resolveHederaDid(testnetDid)).rejects.toThrow('Cannot resolve testnet DIDs on local');
+  });
+
+  it('leaves creating did:hedera DIDs to the wallet', async () => {
+    await expect(generateDID({ method: DIDMethod.HEDERA })).rejects.toThrow(
+      'did:hedera DIDs are created by the wallet, not the server'
+    );
+  });
+});
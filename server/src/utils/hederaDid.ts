@@ -0,0 +1,467 @@
+import {
+  DIDDocument,
+  HederaDidMessage,
+  HederaDidMessageEnvelope,
+  HederaDidOperation,
+  MirrorTopicMessage
+} from '../types';
+import { signBytes, verifyBytes } from './crypto';
+import { getPublicKeyJwk } from './did';
+import hedera from './hedera';
+
+/**
+ * did:hedera on the Hedera Consensus Service (Hedera DID method v1.0 / HIP-27)
+ * Each DID has its own HCS topic. DID events (DIDOwner, VerificationMethod,
+ * VerificationRelationship, Service) are submitted as signed DID messages and the
+ * DID document is rebuilt by replaying the topic from the mirror node. Only messages
+ * signed by the current DIDOwner key are applied.
+ */
+
+export const ROOT_KEY_FRAGMENT = 'did-root-key';
+
+// Memo set on DID topics
+export const DID_TOPIC_MEMO = 'did:hedera';
+
+// Client-signed DID messages must be recent, so old signed messages cannot be replayed
+const DID_MESSAGE_MAX_AGE_MS = 5 * 60 * 1000;
+
+const VERIFICATION_RELATIONSHIPS = [
+  'authentication',
+  'assertionMethod',
+  'keyAgreement',
+  'capabilityInvocation',
+  'capabilityDelegation'
+] as const;
+
+type VerificationRelationship = typeof VERIFICATION_RELATIONSHIPS[number];
+
+// Identifier: did:hedera:<network>:<multibase root public key>_<topic ID>
+const HEDERA_DID_PATTERN = /^did:hedera:([a-z]+):(z[1-9A-HJ-NP-Za-km-z]+)_(\d+\.\d+\.\d+)$/;
+
+/**
+ * Build a did:hedera identifier
+ * @param network - Hedera network
+ * @param publicKeyMultibase - Multicodec multibase root public key
+ * @param topicId - DID topic ID
+ */
+export function createHederaDidIdentifier(network: string, publicKeyMultibase: string, topicId: string): string {
+  return `did:hedera:${network}:${publicKeyMultibase}_${topicId}`;
+}
+
+/**
+ * Split a did:hedera identifier into its parts
+ * @param did - did:hedera identifier (a DID URL fragment is ignored)
+ */
+export function parseHederaDid(did: string): { network: string; publicKeyMultibase: string; topicId: string } {
+  const match = did.split('#')[0].match(HEDERA_DID_PATTERN);
+
+  if (!match || !hedera.HEDERA_NETWORKS.includes(match[1])) {
+    throw new Error(`Invalid did:hedera identifier: ${did}`);
+  }
+
+  return { network: match[1], publicKeyMultibase: match[2], topicId: match[3] };
+}
+
+/**
+ * Check if a string is a well-formed did:hedera identifier
+ * @param did - The DID to check
+ */
+export function isHederaDid(did: string): boolean {
+  try {
+    parseHederaDid(did);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Create an unsigned DID message
+ * @param did - The DID the event applies to
+ * @param operation - create, update, revoke or delete
+ * @param event - DID event, e.g. { Service: { id, type, serviceEndpoint } }; null for delete
+ */
+export function createDidMessage(did: string, operation: HederaDidOperation, event: Record<string, any> | null): HederaDidMessage {
+  return {
+    timestamp: new Date().toISOString(),
+    operation,
+    did,
+    event: event ? Buffer.from(JSON.stringify(event)).toString('base64') : null
+  };
+}
+
+/**
+ * Sign a DID message with the DID owner key
+ * @param message - Unsigned DID message
+ * @param privateKeyJwk - Private JWK of the current DIDOwner key
+ */
+export function signDidMessage(message: HederaDidMessage, privateKeyJwk: any): HederaDidMessageEnvelope {
+  const signature = signBytes(privateKeyJwk, Buffer.from(JSON.stringify(message)));
+  return { message, signature: signature.toString('base64') };
+}
+
+/**
+ * Decode the event of a DID message
+ * @param message - DID message
+ */
+export function decodeDidEvent(message: HederaDidMessage): Record<string, any> | null {
+  if (message.event === null) return null;
+  return JSON.parse(Buffer.from(message.event, 'base64').toString('utf8'));
+}
+
+/**
+ * Verify a DID message envelope against a public key
+ * @param envelope - Signed DID message
+ * @param publicKeyJwk - Public JWK of the expected signer
+ */
+export function verifyDidMessageEnvelope(envelope: HederaDidMessageEnvelope, publicKeyJwk: any): boolean {
+  try {
+    return verifyBytes(
+      publicKeyJwk,
+      Buffer.from(JSON.stringify(envelope.message)),
+      Buffer.from(envelope.signature, 'base64')
+    );
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Submit a signed DID message to the DID's topic
+ * @param envelope - Signed DID message
+ * @param waitForMirror - Wait until the mirror node returns the message, so it resolves immediately
+ * @returns The message's sequence number
+ */
+export async function publishDidMessage(envelope: HederaDidMessageEnvelope, waitForMirror: boolean = true): Promise<number> {
+  const { topicId } = parseHederaDid(envelope.message.did);
+  const sequenceNumber = await hedera.submitTopicMessage(topicId, JSON.stringify(envelope));
+
+  if (waitForMirror) {
+    await hedera.waitForTopicMessage(topicId, sequenceNumber);
+  }
+
+  return sequenceNumber;
+}
+
+/**
+ * Rebuild a DID document from the DID messages of its topic
+ * @param did - The did:hedera identifier
+ * @param envelopes - DID messages in consensus order
+ * @returns The DID document, or null if the DID was never created or has been deleted
+ */
+export function replayDidMessages(
+  did: string,
+  envelopes: HederaDidMessageEnvelope[]
+): DIDDocument | null {
+  const { publicKeyMultibase: rootKey } = parseHederaDid(did);
+
+  let owner: any = null;
+  let deleted = false;
+  const verificationMethods = new Map<string, any>();
+  const relationships = new Map<VerificationRelationship, Set<string>>(
+    VERIFICATION_RELATIONSHIPS.map(relationship => [relationship, new Set<string>()])
+  );
+  const services = new Map<string, any>();
+
+  for (const envelope of envelopes) {
+    const { message } = envelope;
+    if (message?.did !== did) continue;
+
+    let event: Record<string, any> | null;
+    try {
+      event = decodeDidEvent(message);
+    } catch (error) {
+      continue;
+    }
+
+    // Until the DID is created, only a DIDOwner create signed by the identifier's own key counts
+    const signerKey = owner ? owner.publicKeyMultibase : event?.DIDOwner?.publicKeyMultibase;
+    if (!owner && (message.operation !== 'create' || signerKey !== rootKey)) continue;
+
+    let signerJwk;
+    try {
+      signerJwk = getPublicKeyJwk({ publicKeyMultibase: signerKey });
+    } catch (error) {
+      continue;
+    }
+    if (!verifyDidMessageEnvelope(envelope, signerJwk)) continue;
+
+    if (message.operation === 'delete') {
+      deleted = true;
+      break;
+    }
+
+    if (!event) continue;
+    const [eventType, data] = Object.entries(event)[0] || [];
+    if (!data?.id || !String(data.id).startsWith(`${did}#`)) continue;
+
+    if (message.operation === 'revoke') {
+      if (eventType === 'VerificationMethod') {
+        verificationMethods.delete(data.id);
+        relationships.forEach(ids => ids.delete(data.id));
+      } else if (eventType === 'VerificationRelationship') {
+        relationships.get(data.relationshipType)?.delete(data.id);
+        const stillReferenced = Array.from(relationships.values()).some(ids => ids.has(data.id));
+        if (!stillReferenced) verificationMethods.delete(data.id);
+      } else if (eventType === 'Service') {
+        services.delete(data.id);
+      }
+      continue;
+    }
+
+    // create and update both set the entry
+    if (eventType === 'DIDOwner') {
+      if (!data.publicKeyMultibase) continue;
+      owner = data;
+    } else if (eventType === 'VerificationMethod') {
+      const { id, type, controller, publicKeyMultibase } = data;
+      verificationMethods.set(id, { id, type, controller, publicKeyMultibase });
+    } else if (eventType === 'VerificationRelationship') {
+      const { id, type, controller, publicKeyMultibase, relationshipType } = data;
+      if (!relationships.has(relationshipType)) continue;
+      verificationMethods.set(id, { id, type, controller, publicKeyMultibase });
+      relationships.get(relationshipType)!.add(id);
+    } else if (eventType === 'Service') {
+      const { id, type, serviceEndpoint } = data;
+      services.set(id, { id, type, serviceEndpoint });
+    }
+  }
+
+  if (!owner || deleted) {
+    return null;
+  }
+
+  const rootKeyId = `${did}#${ROOT_KEY_FRAGMENT}`;
+  const rootMethod = {
+    id: rootKeyId,
+    type: owner.type || 'Ed25519VerificationKey2020',
+    controller: owner.controller || did,
+    publicKeyMultibase: owner.publicKeyMultibase
+  };
+
+  const document: DIDDocument = {
+    id: did,
+    verificationMethod: [rootMethod, ...Array.from(verificationMethods.values()).filter(method => method.id !== rootKeyId)],
+    authentication: [rootKeyId],
+    assertionMethod: [rootKeyId]
+  };
+
+  if (owner.controller && owner.controller !== did) {
+    document.controller = [owner.controller];
+  }
+
+  relationships.forEach((ids, relationship) => {
+    const entries = [...(document[relationship] || []), ...Array.from(ids).filter(id => id !== rootKeyId)];
+    if (entries.length > 0) {
+      document[relationship] = entries;
+    }
+  });
+
+  if (services.size > 0) {
+    document.service = Array.from(services.values());
+  }
+
+  return document;
+}
+
+/**
+ * Read a DID message submitted by a client, checking what every such message needs:
+ * it is for the DID, has one of the allowed operations and a fresh timestamp, and
+ * carries a single event about one of the DID's own entries
+ * @param did - The did:hedera identifier
+ * @param envelope - Signed DID message
+ * @param label - Name of the message in error messages
+ * @param operations - Allowed operations
+ * @returns The event, or an error message
+ */
+function readClientDidMessage(
+  did: string,
+  envelope: HederaDidMessageEnvelope,
+  label: string,
+  operations: HederaDidOperation[]
+): { error: string } | { eventType: string; data: any } {
+  const message = envelope?.message;
+
+  if (!message || typeof envelope.signature !== 'string' || message.did !== did) {
+    return { error: `${label} is not for ${did}` };
+  }
+
+  if (!operations.includes(message.operation)) {
+    return { error: `${label} has an unsupported operation` };
+  }
+
+  const timestamp = Date.parse(message.timestamp);
+  if (isNaN(timestamp) || Math.abs(Date.now() - timestamp) > DID_MESSAGE_MAX_AGE_MS) {
+    return { error: `${label} has a stale timestamp` };
+  }
+
+  let event: Record<string, any> | null;
+  try {
+    event = decodeDidEvent(message);
+  } catch (error) {
+    event = null;
+  }
+
+  const entries = event && typeof event === 'object' ? Object.entries(event) : [];
+  const [eventType, data] = entries[0] || [];
+  if (entries.length !== 1 || !data?.id || !String(data.id).startsWith(`${did}#`)) {
+    return { error: `${label} has an invalid event` };
+  }
+
+  return { eventType, data };
+}
+
+/**
+ * Check DID messages submitted by a client before they are published
+ * Every message must be a fresh create, update or revoke for the DID, carry a single event
+ * about one of the DID's own entries, and be signed by the DIDOwner key in effect at that
+ * point (a DIDOwner update switches the key for the messages after it).
+ * @param did - The did:hedera identifier
+ * @param ownerPublicKeyMultibase - Current DIDOwner key
+ * @param envelopes - Signed DID messages in the order they will be submitted
+ * @returns An error message, or null if every message is acceptable
+ */
+export function checkDidMessages(
+  did: string,
+  ownerPublicKeyMultibase: string,
+  envelopes: HederaDidMessageEnvelope[]
+): string | null {
+  let ownerKey = ownerPublicKeyMultibase;
+
+  for (const [index, envelope] of envelopes.entries()) {
+    const label = `DID message ${index + 1}`;
+    const result = readClientDidMessage(did, envelope, label, ['create', 'update', 'revoke']);
+    if ('error' in result) {
+      return result.error;
+    }
+    const { eventType, data } = result;
+
+    if (!verifyDidMessageEnvelope(envelope, getPublicKeyJwk({ publicKeyMultibase: ownerKey }))) {
+      return `${label} is not signed by the DID owner`;
+    }
+
+    if (eventType === 'DIDOwner') {
+      if (envelope.message.operation !== 'update' || !data.publicKeyMultibase) {
+        return `${label} must update the DID owner key`;
+      }
+
+      try {
+        getPublicKeyJwk({ publicKeyMultibase: data.publicKeyMultibase });
+      } catch (error) {
+        return `${label} has an unsupported DID owner key`;
+      }
+
+      ownerKey = data.publicKeyMultibase;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check the DID messages that create a new did:hedera before they are published
+ * The first message must be the DIDOwner create for the root key in the identifier, and
+ * the others fresh create messages about the DID's verification methods, relationships
+ * or services, all signed by the root key. These are exactly the messages
+ * replayDidMessages applies, so nothing submitted is skipped on resolution.
+ * @param did - The did:hedera identifier
+ * @param envelopes - Signed DID messages in the order they will be submitted
+ * @returns An error message, or null if every message is acceptable
+ */
+export function checkDidCreateMessages(did: string, envelopes: HederaDidMessageEnvelope[]): string | null {
+  const { publicKeyMultibase: rootKey } = parseHederaDid(did);
+
+  let rootJwk;
+  try {
+    rootJwk = getPublicKeyJwk({ publicKeyMultibase: rootKey });
+  } catch (error) {
+    return 'DID has an unsupported root key';
+  }
+
+  for (const [index, envelope] of envelopes.entries()) {
+    const label = `DID message ${index + 1}`;
+    const result = readClientDidMessage(did, envelope, label, ['create']);
+    if ('error' in result) {
+      return result.error;
+    }
+    const { eventType, data } = result;
+
+    if (index === 0 && (eventType !== 'DIDOwner' || data.publicKeyMultibase !== rootKey)) {
+      return `${label} must create the DID owner with the root key of ${did}`;
+    }
+
+    if (index > 0 && !['VerificationMethod', 'VerificationRelationship', 'Service'].includes(eventType)) {
+      return `${label} has an unsupported event`;
+    }
+
+    if (eventType === 'VerificationRelationship' && !VERIFICATION_RELATIONSHIPS.includes(data.relationshipType)) {
+      return `${label} has an unsupported relationship type`;
+    }
+
+    if (!verifyDidMessageEnvelope(envelope, rootJwk)) {
+      return `${label} is not signed by the DID owner`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode topic messages into DID message envelopes, skipping anything malformed
+ * @param messages - Mirror node topic messages
+ */
+function parseTopicMessages(messages: MirrorTopicMessage[]): HederaDidMessageEnvelope[] {
+  const envelopes: HederaDidMessageEnvelope[] = [];
+
+  for (const topicMessage of messages) {
+    // DID messages fit in a single chunk
+    if (topicMessage.chunk_info && topicMessage.chunk_info.total > 1) continue;
+
+    try {
+      const envelope = JSON.parse(Buffer.from(topicMessage.message, 'base64').toString('utf8'));
+      if (envelope?.message && typeof envelope.signature === 'string') {
+        envelopes.push(envelope);
+      }
+    } catch (error) {
+      // Not a DID message
+    }
+  }
+
+  return envelopes;
+}
+
+/**
+ * Resolve a did:hedera DID by replaying its topic from the mirror node
+ * @param did - The did:hedera identifier
+ */
+export async function resolveHederaDid(did: string): Promise<DIDDocument | null> {
+  const { network, topicId } = parseHederaDid(did);
+
+  if (network !== hedera.getHederaNetwork()) {
+    throw new Error(`Cannot resolve ${network} DIDs on ${hedera.getHederaNetwork()}`);
+  }
+
+  const messages = await hedera.getTopicMessages(topicId);
+  if (!messages) {
+    return null;
+  }
+
+  return replayDidMessages(did, parseTopicMessages(messages));
+}
+
+export default {
+  ROOT_KEY_FRAGMENT,
+  DID_TOPIC_MEMO,
+  createHederaDidIdentifier,
+  parseHederaDid,
+  isHederaDid,
+  createDidMessage,
+  signDidMessage,
+  decodeDidEvent,
+  verifyDidMessageEnvelope,
+  checkDidMessages,
+  checkDidCreateMessages,
+  publishDidMessage,
+  replayDidMessages,
+  resolveHederaDid
+};
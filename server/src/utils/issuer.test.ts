@@ -0,0 +1,122 @@
+import { AuthMethod, User, VerifiableCredential } from '../types';
+import { resetStore } from '../test/server';
+import { decodeJws, verifyJws } from './crypto';
+import { resolveDID } from './did';
+import { verifyProof } from './proofs';
+
+/**
+ * The issuer identity is cached per module instance, so each test loads a fresh copy
+ */
+function loadIssuerModule(): typeof import('./issuer') {
+  let issuerModule!: typeof import('./issuer');
+  jest.isolateModules(() => {
+    issuerModule = require('./issuer');
+  });
+  return issuerModule;
+}
+
+function createUser(did: string): User {
+  return {
+    id: 'user-1',
+    name: 'Test Holder',
+    email: 'holder@example.com',
+    did,
+    authMethods: [AuthMethod.EMAIL],
+    isEmailVerified: true,
+    isPhoneVerified: false,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+describe('issuer', () => {
+  const environment = { ...process.env };
+  let warn: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await resetStore();
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...environment };
+    warn.mockRestore();
+  });
+
+  describe('getIssuer', () => {
+    it('derives the issuer DID from ISSUER_PRIVATE_KEY', async () => {
+      const { generateIssuerPrivateKey } = loadIssuerModule();
+      process.env.ISSUER_PRIVATE_KEY = generateIssuerPrivateKey();
+
+      const first = await loadIssuerModule().getIssuer();
+      const second = await loadIssuerModule().getIssuer();
+
+      expect(first.did).toMatch(/^did:key:z6Mk/);
+      expect(second.did).toBe(first.did);
+      expect(first).not.toHaveProperty('privateKeyJwk');
+    });
+
+    it('rejects a key that is not 32 bytes', async () => {
+      process.env.ISSUER_PRIVATE_KEY = 'z111';
+
+      await expect(loadIssuerModule().getIssuer()).rejects.toThrow('32-byte');
+    });
+
+    it('requires ISSUER_PRIVATE_KEY in production', async () => {
+      delete process.env.ISSUER_PRIVATE_KEY;
+      process.env.NODE_ENV = 'production';
+
+      await expect(loadIssuerModule().getIssuer()).rejects.toThrow('ISSUER_PRIVATE_KEY must be set');
+    });
+
+    it('generates one ephemeral key in development without logging it', async () => {
+      delete process.env.ISSUER_PRIVATE_KEY;
+      process.env.NODE_ENV = 'development';
+      const { getIssuer } = loadIssuerModule();
+
+      const issuers = await Promise.all([getIssuer(), getIssuer(), getIssuer()]);
+
+      expect(new Set(issuers.map(issuer => issuer.did)).size).toBe(1);
+      const logged = warn.mock.calls.flat().join('\n');
+      expect(logged).toContain('ISSUER_PRIVATE_KEY is not set');
+      expect(logged).not.toMatch(/ISSUER_PRIVATE_KEY=/);
+      expect(logged).not.toMatch(/z[1-9A-HJ-NP-Za-km-z]{40,}/);
+    });
+  });
+
+  describe('issueCredential', () => {
+    it('issues an ldp_vc with a proof from the issuer DID', async () => {
+      const { issueCredential, getIssuer } = loadIssuerModule();
+      const issuer = await getIssuer();
+
+      const credential = await issueCredential('EmailVerifiedCredential', createUser('did:example:holder')) as VerifiableCredential;
+      const { proof, ...unsecured } = credential;
+      const issuerDocument = await resolveDID(issuer.did);
+
+      expect(credential.credentialSubject).toEqual({ id: 'did:example:holder', email: 'holder@example.com' });
+      expect(proof.verificationMethod).toBe(issuer.verificationMethod);
+      expect(await verifyProof(unsecured, proof, issuerDocument!.verificationMethod![0].publicKeyJwk)).toBe(true);
+    });
+
+    it('issues a JWT credential signed by the issuer DID', async () => {
+      const { issueCredential, getIssuer } = loadIssuerModule();
+      const issuer = await getIssuer();
+
+      const jwt = await issueCredential('EmailVerifiedCredential', createUser('did:example:holder'), undefined, 'jwt_vc_json') as string;
+      const { header, payload } = decodeJws(jwt);
+      const issuerDocument = await resolveDID(issuer.did);
+
+      expect(header).toMatchObject({ alg: 'EdDSA', kid: issuer.verificationMethod });
+      expect(payload).toMatchObject({ iss: issuer.did, sub: 'did:example:holder', vc: { credentialSubject: { email: 'holder@example.com' } } });
+      expect(verifyJws(jwt, issuerDocument!.verificationMethod![0].publicKeyJwk)).toBe(true);
+    });
+
+    it('refuses templates the user is not eligible for', async () => {
+      const { issueCredential } = loadIssuerModule();
+
+      await expect(issueCredential('PhoneVerifiedCredential', createUser('did:example:holder'))).rejects.toThrow(
+        'not eligible'
+      );
+    });
+  });
+});
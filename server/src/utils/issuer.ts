@@ -0,0 +1,385 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { CREDENTIALS_V1_CONTEXT, STATUS_LIST_2021_CONTEXT } from 'hedera-id-wallet-common/jsonldContexts';
+import { PROOF_SUITE_CONTEXTS, PROOF_SUITES, ProofSuite } from 'hedera-id-wallet-common/proofs';
+import {
+  CredentialFormat,
+  CredentialTemplate,
+  DIDDocument,
+  CredentialStatusEntry,
+  IssuedCredential,
+  IssuedCredentialRecord,
+  StatusPurpose,
+  User,
+  VerifiableCredential
+} from '../types';
+import userModel from '../models/user';
+import { signJws } from './crypto';
+import { decodeMultibase, encodeMultibase, publicKeyToDIDKey, resolveDID } from './did';
+import { createProof } from './proofs';
+import { allocateStatusListIndex, encodeStatusList, STATUS_PURPOSES } from './statusList';
+
+// PKCS#8 DER prefix for a raw 32-byte Ed25519 private key
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/**
+ * Credential formats the issuer can emit
+ */
+export const CREDENTIAL_FORMATS: CredentialFormat[] = ['ldp_vc', 'jwt_vc_json'];
+
+/**
+ * Issuer identity (did:key backed by an Ed25519 key)
+ */
+interface IssuerIdentity {
+  did: string;
+  didDocument: DIDDocument;
+  verificationMethod: string;
+  privateKeyJwk: any;
+  name: string;
+}
+
+// Issuer identity being loaded or loaded, shared by concurrent first callers
+let issuerIdentity: Promise<IssuerIdentity> | null = null;
+
+/**
+ * Credential templates the issuer can issue
+ */
+export const credentialTemplates: Record<string, CredentialTemplate> = {
+  EmailVerifiedCredential: {
+    id: 'EmailVerifiedCredential',
+    name: 'Verified Email',
+    description: 'Attests that the holder controls this email address',
+    validityDays: 365,
+    isEligible: (user: User) => !!user.email && user.isEmailVerified,
+    buildSubject: (user: User) => ({ email: user.email })
+  },
+  PhoneVerifiedCredential: {
+    id: 'PhoneVerifiedCredential',
+    name: 'Verified Phone Number',
+    description: 'Attests that the holder controls this phone number',
+    validityDays: 365,
+    isEligible: (user: User) => !!user.phone && user.isPhoneVerified,
+    buildSubject: (user: User) => ({ phone: user.phone })
+  }
+};
+
+/**
+ * Generate a new issuer private key in the ISSUER_PRIVATE_KEY format
+ */
+export function generateIssuerPrivateKey(): string {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  return encodeMultibase(Buffer.from(privateKey.export({ format: 'jwk' }).d as string, 'base64url'));
+}
+
+/**
+ * Load the issuer key from ISSUER_PRIVATE_KEY, or generate an ephemeral one in development
+ * ISSUER_PRIVATE_KEY is a multibase (base58btc) encoded 32-byte Ed25519 private key. It is
+ * required outside development: an ephemeral key changes the issuer DID on every restart,
+ * so credentials issued before the restart would no longer verify.
+ */
+async function loadIssuerIdentity(): Promise<IssuerIdentity> {
+  let privateKey: crypto.KeyObject;
+  const environment = process.env.NODE_ENV || 'development';
+
+  if (process.env.ISSUER_PRIVATE_KEY) {
+    const seed = decodeMultibase(process.env.ISSUER_PRIVATE_KEY);
+    if (seed.length !== 32) {
+      throw new Error('ISSUER_PRIVATE_KEY must be a 32-byte Ed25519 private key');
+    }
+
+    privateKey = crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+  } else if (environment === 'development' || environment === 'test') {
+    privateKey = crypto.generateKeyPairSync('ed25519').privateKey;
+
+    console.warn('ISSUER_PRIVATE_KEY is not set; using an ephemeral issuer key for this process.');
+    console.warn('Run `npm run issuer:key` and set ISSUER_PRIVATE_KEY to keep the issuer DID stable.');
+  } else {
+    throw new Error('ISSUER_PRIVATE_KEY must be set outside development (generate one with `npm run issuer:key`)');
+  }
+
+  const privateKeyJwk = privateKey.export({ format: 'jwk' });
+  const did = publicKeyToDIDKey(Buffer.from(privateKeyJwk.x as string, 'base64url'), 'ed25519');
+  const didDocument = await resolveDID(did);
+
+  if (!didDocument || !didDocument.verificationMethod?.length) {
+    throw new Error('Failed to build issuer DID document');
+  }
+
+  return {
+    did,
+    didDocument,
+    verificationMethod: didDocument.verificationMethod[0].id,
+    privateKeyJwk,
+    name: process.env.ISSUER_NAME || 'Hedera ID Wallet Issuer'
+  };
+}
+
+/**
+ * Public base URL of this server (ISSUER_URL), also the OID4VCI credential issuer identifier
+ */
+export function getIssuerUrl(): string {
+  return (process.env.ISSUER_URL || `http://localhost:${process.env.PORT || 4000}`).replace(/\/$/, '');
+}
+
+/**
+ * Public URL of a status list credential
+ * @param listId - Status list ID
+ * @param purpose - Status purpose
+ */
+export function getStatusListUrl(listId: string, purpose: StatusPurpose): string {
+  return `${getIssuerUrl()}/api/status/lists/${listId}/${purpose}`;
+}
+
+/**
+ * Proof suite of ldp_vc credentials and status lists (ISSUER_PROOF_SUITE, eddsa-jcs-2022 by default)
+ */
+export function getProofSuite(): ProofSuite {
+  const suite = (process.env.ISSUER_PROOF_SUITE || 'eddsa-jcs-2022') as ProofSuite;
+  if (!PROOF_SUITES.includes(suite)) {
+    throw new Error(`Unsupported ISSUER_PROOF_SUITE: ${suite}`);
+  }
+  return suite;
+}
+
+/**
+ * Inline context defining the template credential types and claims, so the
+ * RDF form of an issued credential covers all of its data
+ */
+function getIssuerTermsContext(): Record<string, string> {
+  const vocab = `${getIssuerUrl()}/vocab#`;
+  return {
+    ...Object.fromEntries(Object.keys(credentialTemplates).map(id => [id, `${vocab}${id}`])),
+    name: 'https://schema.org/name',
+    email: 'https://schema.org/email',
+    phone: 'https://schema.org/telephone'
+  };
+}
+
+/**
+ * Get the issuer identity including its private key, loading it on first use
+ */
+function loadIssuer(): Promise<IssuerIdentity> {
+  if (!issuerIdentity) {
+    issuerIdentity = loadIssuerIdentity();
+    issuerIdentity.catch(() => {
+      issuerIdentity = null;
+    });
+  }
+
+  return issuerIdentity;
+}
+
+/**
+ * Get the issuer identity, loading it on first use
+ */
+export async function getIssuer(): Promise<Omit<IssuerIdentity, 'privateKeyJwk'>> {
+  const { privateKeyJwk, ...publicIdentity } = await loadIssuer();
+  return publicIdentity;
+}
+
+/**
+ * Encode a credential as a JWT (VC Data Model 1.1, section 6.3.1)
+ * Properties with a registered JWT claim move out of the vc claim: issuer to iss,
+ * issuanceDate to nbf, expirationDate to exp, id to jti and the subject id to sub.
+ * @param credential - Unsigned credential
+ * @param issuer - Issuer identity
+ */
+function signJwtCredential(credential: VerifiableCredential, issuer: IssuerIdentity): string {
+  const { id, issuer: _issuer, issuanceDate, expirationDate, credentialSubject, ...vc } = credential;
+  const { id: subject, ...claims } = credentialSubject;
+  const toSeconds = (date: string) => Math.floor(new Date(date).getTime() / 1000);
+
+  const payload = {
+    iss: issuer.did,
+    ...(subject && { sub: subject }),
+    ...(id && { jti: id }),
+    nbf: toSeconds(issuanceDate),
+    iat: toSeconds(issuanceDate),
+    ...(expirationDate && { exp: toSeconds(expirationDate) }),
+    vc: { ...vc, credentialSubject: claims }
+  };
+
+  return signJws(payload, issuer.privateKeyJwk, { typ: 'JWT', kid: issuer.verificationMethod });
+}
+
+/**
+ * Issue a signed credential from a template to a user's DID
+ * @param templateId - Template to issue
+ * @param user - User the credential is about
+ * @param subjectDid - DID to bind the credential to (defaults to the user's registered DID)
+ * @param format - ldp_vc for a credential with an embedded proof, jwt_vc_json for a compact JWT
+ */
+export async function issueCredential(
+  templateId: string,
+  user: User,
+  subjectDid: string | undefined = user.did,
+  format: CredentialFormat = 'ldp_vc'
+): Promise<IssuedCredential> {
+  const template = credentialTemplates[templateId];
+
+  if (!template) {
+    throw new Error(`Unknown credential template: ${templateId}`);
+  }
+
+  if (!subjectDid) {
+    throw new Error('User does not have a DID');
+  }
+
+  if (!template.isEligible(user)) {
+    throw new Error(`User is not eligible for ${templateId}`);
+  }
+
+  const issuer = await loadIssuer();
+
+  const issuanceDate = new Date();
+  const expirationDate = template.validityDays
+    ? new Date(issuanceDate.getTime() + template.validityDays * 24 * 60 * 60 * 1000)
+    : undefined;
+
+  const { listId, index } = await allocateStatusListIndex();
+  const credentialStatus: CredentialStatusEntry[] = STATUS_PURPOSES.map(purpose => ({
+    id: `${getStatusListUrl(listId, purpose)}#${index}`,
+    type: 'StatusList2021Entry',
+    statusPurpose: purpose,
+    statusListIndex: String(index),
+    statusListCredential: getStatusListUrl(listId, purpose)
+  }));
+
+  const suite = getProofSuite();
+  const credential: VerifiableCredential = {
+    '@context': [
+      CREDENTIALS_V1_CONTEXT,
+      STATUS_LIST_2021_CONTEXT,
+      ...(format === 'ldp_vc' ? [PROOF_SUITE_CONTEXTS[suite]] : []),
+      getIssuerTermsContext()
+    ],
+    id: `urn:uuid:${uuidv4()}`,
+    type: ['VerifiableCredential', template.id],
+    issuer: { id: issuer.did, name: issuer.name },
+    issuanceDate: issuanceDate.toISOString(),
+    ...(expirationDate && { expirationDate: expirationDate.toISOString() }),
+    credentialSubject: {
+      id: subjectDid,
+      ...template.buildSubject(user)
+    },
+    credentialStatus
+  };
+
+  const record: IssuedCredentialRecord = {
+    id: credential.id!,
+    userId: user.id,
+    templateId: template.id,
+    credential,
+    format,
+    issuedAt: issuanceDate,
+    statusListId: listId,
+    statusListIndex: index
+  };
+
+  if (format === 'jwt_vc_json') {
+    record.jwt = signJwtCredential(credential, issuer);
+  } else {
+    const proof = await createProof(credential, {
+      verificationMethod: issuer.verificationMethod,
+      privateKeyJwk: issuer.privateKeyJwk
+    }, { proofPurpose: 'assertionMethod', suite });
+
+    record.credential = { ...credential, proof };
+  }
+
+  await userModel.storeIssuedCredential(record);
+
+  return getDeliveredCredential(record);
+}
+
+/**
+ * Get an issued credential as it was delivered
+ * @param record - Issued credential record
+ */
+export function getDeliveredCredential(record: IssuedCredentialRecord): IssuedCredential {
+  return record.jwt ?? record.credential;
+}
+
+/**
+ * Build the signed status list credential for one purpose of a status list
+ * The credential is dated at the list's last update, so it only changes when a status does.
+ * @param listId - Status list ID
+ * @param purpose - Status purpose
+ * @returns The credential, or null if the list does not exist
+ */
+export async function createStatusListCredential(listId: string, purpose: StatusPurpose): Promise<VerifiableCredential | null> {
+  const list = await userModel.getStatusList(listId);
+  if (!list) {
+    return null;
+  }
+
+  const issuer = await loadIssuer();
+  const url = getStatusListUrl(listId, purpose);
+  const suite = getProofSuite();
+
+  const credential: VerifiableCredential = {
+    '@context': [CREDENTIALS_V1_CONTEXT, STATUS_LIST_2021_CONTEXT, PROOF_SUITE_CONTEXTS[suite]],
+    id: url,
+    type: ['VerifiableCredential', 'StatusList2021Credential'],
+    issuer: issuer.did,
+    issuanceDate: new Date(list.updatedAt).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    credentialSubject: {
+      id: `${url}#list`,
+      type: 'StatusList2021',
+      statusPurpose: purpose,
+      encodedList: encodeStatusList(list, purpose)
+    }
+  };
+
+  const proof = await createProof(credential, {
+    verificationMethod: issuer.verificationMethod,
+    privateKeyJwk: issuer.privateKeyJwk
+  }, { proofPurpose: 'assertionMethod', suite });
+
+  return { ...credential, proof };
+}
+
+/**
+ * Issue email/phone verification credentials the user is eligible for but does not have yet
+ * Called after a contact channel is verified and after the user's DID is registered.
+ * @param userId - User to issue to
+ */
+export async function issueVerifiedContactCredentials(userId: string): Promise<IssuedCredential[]> {
+  const user = await userModel.getUserById(userId);
+  if (!user || !user.did) {
+    return [];
+  }
+
+  const existing = await userModel.getIssuedCredentials(userId);
+  const issued: IssuedCredential[] = [];
+
+  for (const templateId of ['EmailVerifiedCredential', 'PhoneVerifiedCredential']) {
+    const alreadyIssued = existing.some(record =>
+      record.templateId === templateId && record.credential.credentialSubject.id === user.did
+    );
+
+    if (!alreadyIssued && credentialTemplates[templateId].isEligible(user)) {
+      issued.push(await issueCredential(templateId, user));
+    }
+  }
+
+  return issued;
+}
+
+export default {
+  CREDENTIAL_FORMATS,
+  credentialTemplates,
+  getIssuerUrl,
+  getStatusListUrl,
+  getProofSuite,
+  getIssuer,
+  generateIssuerPrivateKey,
+  issueCredential,
+  getDeliveredCredential,
+  createStatusListCredential,
+  issueVerifiedContactCredentials
+};
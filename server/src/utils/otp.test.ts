@@ -0,0 +1,105 @@
+import { OtpDeliveryMethod } from '../types';
+
+const mockSendEmail = jest.fn();
+const mockCreateMessage = jest.fn();
+
+jest.mock('@sendgrid/mail', () => ({
+  __esModule: true,
+  default: { setApiKey: jest.fn(), send: mockSendEmail }
+}));
+
+jest.mock('twilio', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ messages: { create: mockCreateMessage } }))
+}));
+
+/**
+ * The OTP provider is read when the module loads, so each test loads a fresh copy
+ * @param environment - Provider settings
+ */
+function loadOtpModule(environment: Record<string, string>): typeof import('./otp') {
+  Object.assign(process.env, environment);
+  let otpModule!: typeof import('./otp');
+  jest.isolateModules(() => {
+    otpModule = require('./otp');
+  });
+  return otpModule;
+}
+
+describe('account notices', () => {
+  const environment = { ...process.env };
+  let log: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockSendEmail.mockReset().mockResolvedValue(undefined);
+    mockCreateMessage.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...environment };
+    jest.restoreAllMocks();
+  });
+
+  it('sends email notices through SendGrid', async () => {
+    const { sendAccountNotice } = loadOtpModule({
+      OTP_PROVIDER: 'sendgrid',
+      SENDGRID_API_KEY: 'SG.test',
+      SENDGRID_FROM_EMAIL: 'wallet@example.com'
+    });
+
+    const sent = await sendAccountNotice('holder@example.com', OtpDeliveryMethod.EMAIL, 'Recovery requested', 'Someone asked to recover your account');
+
+    expect(sent).toBe(true);
+    expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'holder@example.com',
+      from: 'wallet@example.com',
+      subject: 'Recovery requested',
+      text: 'Someone asked to recover your account'
+    }));
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('sends SMS notices through Twilio', async () => {
+    const { sendAccountNotice } = loadOtpModule({
+      OTP_PROVIDER: 'twilio',
+      TWILIO_ACCOUNT_SID: 'AC-test',
+      TWILIO_AUTH_TOKEN: 'twilio-token',
+      TWILIO_PHONE_NUMBER: '+15550000000'
+    });
+
+    const sent = await sendAccountNotice('+15551234567', OtpDeliveryMethod.SMS, 'Recovery requested', 'Someone asked to recover your account');
+
+    expect(sent).toBe(true);
+    expect(mockCreateMessage).toHaveBeenCalledWith({
+      body: 'Someone asked to recover your account',
+      from: '+15550000000',
+      to: '+15551234567'
+    });
+  });
+
+  it('reports a notice the provider failed to deliver', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockSendEmail.mockRejectedValue(new Error('SendGrid is down'));
+    const { sendAccountNotice } = loadOtpModule({
+      OTP_PROVIDER: 'sendgrid',
+      SENDGRID_API_KEY: 'SG.test',
+      SENDGRID_FROM_EMAIL: 'wallet@example.com'
+    });
+
+    expect(await sendAccountNotice('holder@example.com', OtpDeliveryMethod.EMAIL, 'Recovery requested', 'Notice')).toBe(false);
+    expect(await sendAccountNotice('+15551234567', OtpDeliveryMethod.SMS, 'Recovery requested', 'Notice')).toBe(false);
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(mockCreateMessage).not.toHaveBeenCalled();
+  });
+
+  it('logs notices to the console with the console provider', async () => {
+    const { sendAccountNotice } = loadOtpModule({ OTP_PROVIDER: 'console' });
+
+    expect(await sendAccountNotice('holder@example.com', OtpDeliveryMethod.EMAIL, 'Recovery requested', 'Notice')).toBe(true);
+    expect(log).toHaveBeenCalledWith('📝 Recovery requested: Notice');
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,4 @@
-import { OtpDeliveryMethod, OtpRecord, OtpStatus } from '../types';
+import { OtpDeliveryMethod, OtpPurpose, OtpRecord, OtpStatus } from '../types';
 import otpGenerator from 'otp-generator';
 import twilio from 'twilio';
 import sendgrid from '@sendgrid/mail';
@@ -66,6 +66,15 @@ async function sendOtpViaEmail(email: string, otp: string, purpose: string): Pro
         <p>Your verification code is: <strong>${otp}</strong></p>
         <p>This code will expire in ${OTP_EXPIRY_MINUTES} minutes.</p>
       `;
+    } else if (purpose === 'recovery') {
+      subject = `Your account recovery code for ${appName}`;
+      textContent = `Your account recovery code is: ${otp}. It will expire in ${OTP_EXPIRY_MINUTES} minutes. If you didn't request this code, someone may be trying to recover your account.`;
+      htmlContent = `
+        <h2>${appName} Account Recovery</h2>
+        <p>Your account recovery code is: <strong>${otp}</strong></p>
+        <p>This code will expire in ${OTP_EXPIRY_MINUTES} minutes.</p>
+        <p>If you didn't request this code, someone may be trying to recover your account. Do not share it.</p>
+      `;
     } else {
       subject = `Your login code for ${appName}`;
       textContent = `Your login code is: ${otp}. It will expire in ${OTP_EXPIRY_MINUTES} minutes.`;
@@ -125,6 +134,8 @@ async function sendOtpViaSms(phone: string, otp: string, purpose: string): Promi
     let message: string;
     if (purpose === 'registration') {
       message = `Your ${appName} verification code is: ${otp}. It will expire in ${OTP_EXPIRY_MINUTES} minutes.`;
+    } else if (purpose === 'recovery') {
+      message = `Your ${appName} account recovery code is: ${otp}. It will expire in ${OTP_EXPIRY_MINUTES} minutes. Do not share it.`;
     } else {
       message = `Your ${appName} login code is: ${otp}. It will expire in ${OTP_EXPIRY_MINUTES} minutes.`;
     }
@@ -158,6 +169,78 @@ function logOtpToConsole(recipient: string, otp: string, method: OtpDeliveryMeth
   console.log('==================================\n');
 }
 
+/**
+ * Log an account notice to console (for development)
+ * @param recipient - Email or phone
+ * @param method - Delivery method
+ * @param subject - Email subject
+ * @param message - Notice text
+ */
+function logNoticeToConsole(recipient: string, method: OtpDeliveryMethod, subject: string, message: string): void {
+  console.log('\n==================================');
+  console.log(`📣 DEV MODE: Account notice by ${method.toUpperCase()}`);
+  console.log('==================================');
+  console.log(`📨 Recipient: ${recipient}`);
+  console.log(`📝 ${subject}: ${message}`);
+  console.log('==================================\n');
+}
+
+/**
+ * Send a security notice (no code) by email or SMS
+ * Used to tell account owners about recovery requests made on their account.
+ * Like OTP codes, notices are logged to the console with the console provider
+ * or in development.
+ * @param recipient - Email or phone
+ * @param method - Delivery method
+ * @param subject - Email subject
+ * @param message - Notice text
+ * @returns Whether the notice was delivered
+ */
+export async function sendAccountNotice(
+  recipient: string,
+  method: OtpDeliveryMethod,
+  subject: string,
+  message: string
+): Promise<boolean> {
+  let sent = false;
+
+  if (OTP_PROVIDER === 'console' || process.env.NODE_ENV === 'development') {
+    logNoticeToConsole(recipient, method, subject, message);
+    sent = true;
+  }
+
+  try {
+    if (OTP_PROVIDER === 'sendgrid' && method === OtpDeliveryMethod.EMAIL &&
+        process.env.SENDGRID_API_KEY && process.env.SENDGRID_FROM_EMAIL) {
+      await sendgrid.send({
+        to: recipient,
+        from: process.env.SENDGRID_FROM_EMAIL,
+        subject,
+        text: message,
+        html: `<p>${message}</p>`,
+      });
+      sent = true;
+    } else if (OTP_PROVIDER === 'twilio' && method === OtpDeliveryMethod.SMS &&
+        process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER) {
+      const client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
+      await client.messages.create({
+        body: message,
+        from: process.env.TWILIO_PHONE_NUMBER,
+        to: recipient,
+      });
+      sent = true;
+    }
+  } catch (error) {
+    console.error(`Error sending account notice via ${method}:`, error);
+  }
+
+  if (!sent) {
+    console.warn(`No account notice could be delivered by ${method} with the ${OTP_PROVIDER} provider.`);
+  }
+
+  return sent;
+}
+
 /**
  * Check if a recipient is rate limited
  * @param recipient - Email or phone to check
@@ -234,7 +317,7 @@ export function isValidPhone(phone: string): boolean {
 export async function createAndSendOtp(
   recipient: string,
   method: OtpDeliveryMethod,
-  purpose: string = 'login',
+  purpose: OtpPurpose = 'login',
   userId?: string
 ): Promise<OtpRecord | null> {
   // Validate recipient format
@@ -256,7 +339,7 @@ export async function createAndSendOtp(
   const otp = generateOtp();
   
   // Create OTP record
-  const otpRecord = await userModel.createOtp(recipient, method, otp, userId);
+  const otpRecord = await userModel.createOtp(recipient, method, otp, userId, purpose);
   
   // Update rate limit
   updateRateLimit(recipient);
@@ -332,5 +415,6 @@ export default {
   verifyOtp,
   isValidEmail,
   isValidPhone,
-  isRateLimited
+  isRateLimited,
+  sendAccountNotice
 };
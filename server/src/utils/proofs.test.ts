@@ -0,0 +1,51 @@
+import { getMandatoryPointers, verifyBbsBaseProof } from 'hedera-id-wallet-common/bbs2023';
+import { DIDMethod } from '../types';
+import { decodeBase64Url } from './crypto';
+import { generateDID } from './did';
+import { createProof, verifyProof } from './proofs';
+
+function buildCredential(issuer: string) {
+  return {
+    '@context': ['https://www.w3.org/ns/credentials/v2'],
+    type: ['VerifiableCredential', 'EmailVerifiedCredential'],
+    issuer,
+    validFrom: '2024-01-01T00:00:00Z',
+    credentialSubject: { email: 'holder@example.com' }
+  };
+}
+
+describe('proofs', () => {
+  it('signs with Ed25519 keys through the shared proof suites', async () => {
+    const { did, keyPair } = await generateDID({ method: DIDMethod.KEY });
+    const credential = buildCredential(did);
+    const key = { verificationMethod: keyPair.id, privateKeyJwk: keyPair.privateKeyJwk };
+
+    const proof = await createProof(credential, key, { proofPurpose: 'assertionMethod', suite: 'eddsa-rdfc-2022' });
+
+    expect(proof).toMatchObject({ type: 'DataIntegrityProof', cryptosuite: 'eddsa-rdfc-2022' });
+    expect(await verifyProof(credential, proof, keyPair.publicKeyJwk)).toBe(true);
+    expect(await verifyProof({ ...credential, issuer: 'did:example:other' }, proof, keyPair.publicKeyJwk)).toBe(false);
+  });
+
+  it('signs bbs-2023 base proofs with BLS12-381 keys', async () => {
+    const { did, keyPair } = await generateDID({ method: DIDMethod.KEY, keyType: 'bls12381g2' });
+    const credential = buildCredential(did);
+    const key = { verificationMethod: keyPair.id, privateKeyJwk: keyPair.privateKeyJwk };
+
+    const proof = await createProof(credential, key, { proofPurpose: 'assertionMethod', mandatoryPointers: ['/issuer'] });
+
+    expect(proof).toMatchObject({ type: 'DataIntegrityProof', cryptosuite: 'bbs-2023' });
+    expect(proof.created).toBeUndefined();
+    expect(getMandatoryPointers(proof)).toEqual(['/issuer']);
+    expect(verifyBbsBaseProof(credential, proof, decodeBase64Url(keyPair.publicKeyJwk.x))).toBe(true);
+  });
+
+  it('refuses other suites for BLS12-381 keys', async () => {
+    const { did, keyPair } = await generateDID({ method: DIDMethod.KEY, keyType: 'bls12381g2' });
+    const key = { verificationMethod: keyPair.id, privateKeyJwk: keyPair.privateKeyJwk };
+
+    await expect(
+      createProof(buildCredential(did), key, { proofPurpose: 'assertionMethod', suite: 'eddsa-jcs-2022' })
+    ).rejects.toThrow('eddsa-jcs-2022 proofs require an Ed25519 key');
+  });
+});
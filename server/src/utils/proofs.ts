@@ -0,0 +1,78 @@
+import { createBbsBaseProofValue } from 'hedera-id-wallet-common/bbs2023';
+import {
+  CreateProofOptions,
+  createProof as createSuiteProof,
+  verifyProof as verifySuiteProof
+} from 'hedera-id-wallet-common/proofs';
+import { decodeBase64Url, getJwsAlgorithm, signBytes, verifyBytes } from './crypto';
+
+/**
+ * Linked data proofs with the server's keys
+ * The proof suites are shared with the wallet (hedera-id-wallet-common/proofs);
+ * this module signs and checks them with JWKs, and adds bbs-2023 base proofs.
+ */
+
+/**
+ * Key used to create proofs
+ */
+export interface ProofSigningKey {
+  verificationMethod: string; // Verification method ID (did#fragment)
+  privateKeyJwk: any;
+}
+
+/**
+ * Create a proof over a document
+ * Ed25519 keys produce a proof of the requested suite (an eddsa-jcs-2022
+ * DataIntegrityProof by default); BLS12-381 keys produce a bbs-2023 base proof
+ * for the holder to derive selective proofs from, without a created date that
+ * would link those proofs; other keys produce a JsonWebSignature2020 proof with
+ * a detached JWS.
+ * @param unsecuredDocument - Document without a proof
+ * @param key - Signing key and its verification method ID
+ * @param options - Proof purpose, suite and optional challenge/domain binding
+ */
+export async function createProof(unsecuredDocument: any, key: ProofSigningKey, options: CreateProofOptions): Promise<any> {
+  if (key.privateKeyJwk.crv !== 'Bls12381G2') {
+    return createSuiteProof(unsecuredDocument, {
+      verificationMethod: key.verificationMethod,
+      algorithm: getJwsAlgorithm(key.privateKeyJwk),
+      sign: async data => signBytes(key.privateKeyJwk, Buffer.from(data))
+    }, options);
+  }
+
+  if (options.suite) {
+    throw new Error(`${options.suite} proofs require an Ed25519 key`);
+  }
+
+  const bbsProofOptions = {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'bbs-2023',
+    verificationMethod: key.verificationMethod,
+    proofPurpose: options.proofPurpose
+  };
+  const proofValue = createBbsBaseProofValue(
+    unsecuredDocument,
+    bbsProofOptions,
+    decodeBase64Url(key.privateKeyJwk.d),
+    decodeBase64Url(key.privateKeyJwk.x),
+    options.mandatoryPointers
+  );
+  return { ...bbsProofOptions, proofValue };
+}
+
+/**
+ * Verify a single proof over a document with the given public key
+ * @param unsecuredDocument - Document without its proof
+ * @param proof - The proof to verify
+ * @param publicKeyJwk - Public key of the proof's verification method
+ */
+export function verifyProof(unsecuredDocument: any, proof: any, publicKeyJwk: any): Promise<boolean> {
+  return verifySuiteProof(unsecuredDocument, proof, async (data, signature) =>
+    verifyBytes(publicKeyJwk, Buffer.from(data), Buffer.from(signature))
+  );
+}
+
+export default {
+  createProof,
+  verifyProof
+};
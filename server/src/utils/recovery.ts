@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { AuthMethod, OtpDeliveryMethod, RecoveryRequest, Session, User } from '../types';
+import userModel from '../models/user';
+import { getDeviceLabel, isSessionActive, startSession } from './auth';
+import { sendAccountNotice } from './otp';
+
+/**
+ * Account recovery
+ * Users who lost every passkey and their browser wallet prove control of all contact
+ * channels on file with recovery OTPs. That opens a recovery request which can only be
+ * completed after a cool-down period, during which the account owner is notified on
+ * those channels and can cancel it from a signed-in device. Completing a recovery ends
+ * all sessions, removes the old passkeys and briefly allows the DID to be replaced
+ * without a proof from the lost DID key.
+ */
+
+// Default cool-down period in hours before a recovery can be completed
+const DEFAULT_RECOVERY_COOLDOWN_HOURS = 24;
+
+// How long after a completed recovery the DID can be re-bound
+const DID_REBIND_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Get the recovery cool-down period in milliseconds (RECOVERY_COOLDOWN_HOURS, 0 disables it)
+ */
+export function getRecoveryCooldownMs(): number {
+  const value = process.env.RECOVERY_COOLDOWN_HOURS;
+  const hours = value && !isNaN(Number(value)) ? Number(value) : DEFAULT_RECOVERY_COOLDOWN_HOURS;
+  return Math.max(hours, 0) * 60 * 60 * 1000;
+}
+
+/**
+ * Get the channels a user must verify to recover their account: every email and phone on file
+ * @param user - User to recover
+ */
+export function getRequiredRecoveryMethods(user: User): OtpDeliveryMethod[] {
+  const methods: OtpDeliveryMethod[] = [];
+  if (user.email) methods.push(OtpDeliveryMethod.EMAIL);
+  if (user.phone) methods.push(OtpDeliveryMethod.SMS);
+  return methods;
+}
+
+/**
+ * Hash a recovery token for storage
+ */
+function hashRecoveryToken(recoveryToken: string): string {
+  return crypto.createHash('sha256').update(recoveryToken).digest('hex');
+}
+
+/**
+ * Send a security notice to every channel on file
+ * @param user - Account owner
+ * @param subject - Email subject
+ * @param message - Notice text
+ * @returns The channels the notice was delivered to
+ */
+async function notifyAccountOwner(user: User, subject: string, message: string): Promise<OtpDeliveryMethod[]> {
+  const notifiedMethods: OtpDeliveryMethod[] = [];
+  if (user.email && await sendAccountNotice(user.email, OtpDeliveryMethod.EMAIL, subject, message)) {
+    notifiedMethods.push(OtpDeliveryMethod.EMAIL);
+  }
+  if (user.phone && await sendAccountNotice(user.phone, OtpDeliveryMethod.SMS, subject, message)) {
+    notifiedMethods.push(OtpDeliveryMethod.SMS);
+  }
+  return notifiedMethods;
+}
+
+/**
+ * Check whether a recovery request can be completed now
+ * @param request - Recovery request
+ */
+export function isRecoveryReady(request: RecoveryRequest): boolean {
+  return request.status === 'pending' && new Date(request.availableAt) <= new Date();
+}
+
+/**
+ * Open a recovery request once all required channels are verified
+ * Any other pending request of the user is cancelled. The cool-down only protects
+ * owners who hear about the recovery, so the request is cancelled again when the
+ * notice could not be delivered to any channel.
+ * @param user - User to recover
+ * @param verifiedMethods - Channels verified with recovery OTPs
+ * @param req - Request that started the recovery (for device and IP)
+ * @returns The recovery token for the client and the request
+ */
+export async function openRecoveryRequest(
+  user: User,
+  verifiedMethods: OtpDeliveryMethod[],
+  req: Request
+): Promise<{ recoveryToken: string; request: RecoveryRequest }> {
+  for (const pending of await userModel.getRecoveryRequestsByUserId(user.id)) {
+    if (pending.status === 'pending') {
+      await userModel.updateRecoveryRequest(pending.id, { status: 'cancelled', cancelledAt: new Date() });
+    }
+  }
+
+  const request = await userModel.createRecoveryRequest({
+    userId: user.id,
+    tokenHash: '',
+    verifiedMethods,
+    device: req.headers['user-agent'],
+    ip: req.ip,
+    availableAt: new Date(Date.now() + getRecoveryCooldownMs())
+  });
+
+  // The request ID prefix lets the token be looked up; only the hash is stored
+  const recoveryToken = `${request.id}.${crypto.randomBytes(32).toString('base64url')}`;
+
+  const notifiedMethods = await notifyAccountOwner(
+    user,
+    'Account recovery requested',
+    `Someone started recovering your account from ${getDeviceLabel(request.device)}. ` +
+    `It can be completed after ${request.availableAt.toISOString()} and will remove your passkeys. ` +
+    'If this was not you, sign in and cancel it from your profile.'
+  );
+
+  if (notifiedMethods.length === 0) {
+    await cancelRecoveryRequest(request);
+    throw new Error('Account owner could not be notified');
+  }
+
+  const savedRequest = await userModel.updateRecoveryRequest(request.id, {
+    tokenHash: hashRecoveryToken(recoveryToken),
+    notifiedMethods
+  });
+
+  return { recoveryToken, request: savedRequest || request };
+}
+
+/**
+ * Get the recovery request a recovery token belongs to
+ * @param recoveryToken - Token returned when the request was opened
+ */
+export async function getRecoveryRequestByToken(recoveryToken: string): Promise<RecoveryRequest | null> {
+  const requestId = recoveryToken.split('.')[0];
+  const request = requestId ? await userModel.getRecoveryRequestById(requestId) : null;
+
+  if (!request || request.tokenHash !== hashRecoveryToken(recoveryToken)) {
+    return null;
+  }
+
+  return request;
+}
+
+/**
+ * Cancel a pending recovery request
+ * @param request - Recovery request
+ */
+export async function cancelRecoveryRequest(request: RecoveryRequest): Promise<RecoveryRequest | null> {
+  return userModel.updateRecoveryRequest(request.id, { status: 'cancelled', cancelledAt: new Date() });
+}
+
+/**
+ * Complete a recovery request that is past its cool-down period
+ * Ends every session, removes all passkeys and signs the recovering client in.
+ * @param request - Recovery request, checked with isRecoveryReady by the caller
+ * @param user - User to recover
+ * @param req - Completing request (for device and IP)
+ * @returns Tokens of the new session and the completed request
+ */
+export async function completeRecoveryRequest(
+  request: RecoveryRequest,
+  user: User,
+  req: Request
+): Promise<{ token: string; refreshToken: string; request: RecoveryRequest }> {
+  for (const session of await userModel.getSessionsByUserId(user.id)) {
+    if (isSessionActive(session)) {
+      await userModel.revokeSession(session.id, 'account_recovery');
+    }
+  }
+
+  for (const credential of await userModel.getWebAuthnCredentialsByUserId(user.id)) {
+    await userModel.deleteWebAuthnCredential(credential.id);
+  }
+
+  const now = new Date();
+  const completedRequest = await userModel.updateRecoveryRequest(request.id, {
+    status: 'completed',
+    completedAt: now,
+    didRebindExpiresAt: new Date(now.getTime() + DID_REBIND_WINDOW_MS)
+  });
+
+  const authMethod = request.verifiedMethods.includes(OtpDeliveryMethod.EMAIL) ? AuthMethod.EMAIL : AuthMethod.PHONE;
+  await userModel.updateLastLogin(user.id);
+  const { token, refreshToken } = await startSession(user, authMethod, req, request.id);
+
+  await notifyAccountOwner(
+    user,
+    'Account recovered',
+    `Your account was recovered from ${getDeviceLabel(req.headers['user-agent'])}. ` +
+    'All other devices were signed out and your passkeys were removed.'
+  );
+
+  return { token, refreshToken, request: completedRequest || request };
+}
+
+/**
+ * Get the completed recovery that allows a session to re-bind the user's DID
+ * The DID can be replaced once, within an hour of completing the recovery, and only
+ * from the session the recovery started.
+ * @param session - Session making the request
+ * @returns The recovery request, or null if the session may not re-bind the DID
+ */
+export async function getDidRebindRecovery(session: Session | null): Promise<RecoveryRequest | null> {
+  if (!session?.recoveryId) {
+    return null;
+  }
+
+  const request = await userModel.getRecoveryRequestById(session.recoveryId);
+
+  if (
+    !request ||
+    request.userId !== session.userId ||
+    request.status !== 'completed' ||
+    request.didReboundAt ||
+    !request.didRebindExpiresAt ||
+    new Date(request.didRebindExpiresAt) <= new Date()
+  ) {
+    return null;
+  }
+
+  return request;
+}
+
+export default {
+  getRecoveryCooldownMs,
+  getRequiredRecoveryMethods,
+  isRecoveryReady,
+  openRecoveryRequest,
+  getRecoveryRequestByToken,
+  cancelRecoveryRequest,
+  completeRecoveryRequest,
+  getDidRebindRecovery
+};
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { IssuedCredentialRecord, StatusListRecord, StatusPurpose } from '../types';
+import userModel from '../models/user';
+
+/**
+ * Issuer-side status lists (W3C Status List 2021)
+ * Every issued credential gets an index in a status list, picked at random so a
+ * credential's position says nothing about when it was issued. The list keeps one
+ * bitstring per status purpose; revoking or suspending a credential sets its bit,
+ * and the signed list is published for verifiers and wallets to check.
+ */
+
+// Entries per list: 16 KB per bitstring, the minimum the spec recommends for herd privacy
+export const STATUS_LIST_LENGTH = 131072;
+
+export const STATUS_PURPOSES: StatusPurpose[] = ['revocation', 'suspension'];
+
+// Record field holding the bitstring of each purpose
+const PURPOSE_FIELDS: Record<StatusPurpose, 'revocationBits' | 'suspensionBits'> = {
+  revocation: 'revocationBits',
+  suspension: 'suspensionBits'
+};
+
+// Serializes read-modify-write updates of status lists within this process
+let statusListQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a status list update after all previously queued updates
+ */
+function withStatusListLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = statusListQueue.then(task);
+  statusListQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Check a bit of a bitstring (index 0 is the most significant bit of the first byte)
+ */
+function getBit(bits: Buffer, index: number): boolean {
+  return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+/**
+ * Set or clear a bit of a bitstring
+ */
+function setBit(bits: Buffer, index: number, value: boolean): void {
+  if (value) {
+    bits[index >> 3] |= 0x80 >> (index & 7);
+  } else {
+    bits[index >> 3] &= ~(0x80 >> (index & 7));
+  }
+}
+
+/**
+ * Create an empty status list
+ * @param id - List ID
+ */
+function createStatusList(id: string): StatusListRecord {
+  const emptyBits = Buffer.alloc(STATUS_LIST_LENGTH / 8).toString('base64');
+  const now = new Date();
+
+  return {
+    id,
+    length: STATUS_LIST_LENGTH,
+    allocated: 0,
+    allocatedBits: emptyBits,
+    revocationBits: emptyBits,
+    suspensionBits: emptyBits,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Allocate a random unused index for a new credential
+ * A new list is started once the current one is full.
+ * @returns The list ID and index
+ */
+export async function allocateStatusListIndex(): Promise<{ listId: string; index: number }> {
+  return withStatusListLock(async () => {
+    const lists = await userModel.getStatusLists();
+    let list = lists.find(candidate => candidate.allocated < candidate.length);
+
+    if (!list) {
+      list = createStatusList(String(lists.length + 1));
+    }
+
+    const allocatedBits = Buffer.from(list.allocatedBits, 'base64');
+    let index = crypto.randomInt(list.length);
+    while (getBit(allocatedBits, index)) {
+      index = (index + 1) % list.length;
+    }
+
+    setBit(allocatedBits, index, true);
+    await userModel.saveStatusList({
+      ...list,
+      allocated: list.allocated + 1,
+      allocatedBits: allocatedBits.toString('base64'),
+      updatedAt: new Date()
+    });
+
+    return { listId: list.id, index };
+  });
+}
+
+/**
+ * Encode the bitstring of a status list for publishing: GZIP, then base64url
+ * @param list - Status list
+ * @param purpose - Status purpose
+ */
+export function encodeStatusList(list: StatusListRecord, purpose: StatusPurpose): string {
+  const bits = Buffer.from(list[PURPOSE_FIELDS[purpose]], 'base64');
+  return zlib.gzipSync(bits).toString('base64url');
+}
+
+/**
+ * Set or clear the status bit of an issued credential
+ * @param credentialId - Credential ID (urn:uuid)
+ * @param purpose - Status purpose
+ * @param value - Whether the status applies
+ * @returns The updated issued credential record, or null if it does not exist
+ */
+async function setCredentialStatus(
+  credentialId: string,
+  purpose: StatusPurpose,
+  value: boolean
+): Promise<IssuedCredentialRecord | null> {
+  return withStatusListLock(async () => {
+    const record = await userModel.getIssuedCredential(credentialId);
+    if (!record) {
+      return null;
+    }
+
+    if (record.statusListId === undefined || record.statusListIndex === undefined) {
+      throw new Error('Credential was issued without a status list entry');
+    }
+
+    const list = await userModel.getStatusList(record.statusListId);
+    if (!list) {
+      throw new Error(`Status list ${record.statusListId} not found`);
+    }
+
+    const field = PURPOSE_FIELDS[purpose];
+    const bits = Buffer.from(list[field], 'base64');
+    setBit(bits, record.statusListIndex, value);
+    await userModel.saveStatusList({ ...list, [field]: bits.toString('base64'), updatedAt: new Date() });
+
+    const dateField = purpose === 'revocation' ? 'revokedAt' : 'suspendedAt';
+    const updatedRecord: IssuedCredentialRecord = { ...record, [dateField]: value ? new Date() : undefined };
+    await userModel.storeIssuedCredential(updatedRecord);
+
+    return updatedRecord;
+  });
+}
+
+/**
+ * Revoke an issued credential (permanent)
+ * @param credentialId - Credential ID (urn:uuid)
+ */
+export async function revokeCredential(credentialId: string): Promise<IssuedCredentialRecord | null> {
+  return setCredentialStatus(credentialId, 'revocation', true);
+}
+
+/**
+ * Suspend an issued credential until it is reinstated
+ * @param credentialId - Credential ID (urn:uuid)
+ */
+export async function suspendCredential(credentialId: string): Promise<IssuedCredentialRecord | null> {
+  return setCredentialStatus(credentialId, 'suspension', true);
+}
+
+/**
+ * Lift the suspension of an issued credential
+ * @param credentialId - Credential ID (urn:uuid)
+ */
+export async function reinstateCredential(credentialId: string): Promise<IssuedCredentialRecord | null> {
+  return setCredentialStatus(credentialId, 'suspension', false);
+}
+
+/**
+ * Describe the current status of an issued credential
+ * @param record - Issued credential record
+ */
+export function getCredentialStatusSummary(record: IssuedCredentialRecord) {
+  return {
+    id: record.id,
+    templateId: record.templateId,
+    issuedAt: record.issuedAt,
+    statusListId: record.statusListId,
+    statusListIndex: record.statusListIndex,
+    revoked: !!record.revokedAt,
+    revokedAt: record.revokedAt,
+    suspended: !!record.suspendedAt,
+    suspendedAt: record.suspendedAt
+  };
+}
+
+export default {
+  STATUS_LIST_LENGTH,
+  STATUS_PURPOSES,
+  allocateStatusListIndex,
+  encodeStatusList,
+  revokeCredential,
+  suspendCredential,
+  reinstateCredential,
+  getCredentialStatusSummary
+};